@@ -0,0 +1,6 @@
+-- Migration: project_dockerfile_build_mode
+-- Lets projects with serviceType "dockerfile" point at their own Dockerfile and build stage.
+
+ALTER TABLE "projects"
+  ADD COLUMN "dockerfilePath" TEXT,
+  ADD COLUMN "dockerTarget"   TEXT;
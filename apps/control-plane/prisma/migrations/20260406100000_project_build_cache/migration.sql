@@ -0,0 +1,6 @@
+-- Migration: project_build_cache
+-- Tracks the per-project build cache generation so a purge invalidates cached layers on every server.
+
+ALTER TABLE "projects"
+  ADD COLUMN "buildCacheGeneration" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN "buildCachePurgedAt"   TIMESTAMP(3);
@@ -0,0 +1,10 @@
+-- Migration: plan_image_retention
+-- Number of ready deployment images the engine keeps per project before garbage collecting older ones.
+
+ALTER TABLE "plans"
+  ADD COLUMN "imageRetentionCount" INTEGER NOT NULL DEFAULT 3;
+
+UPDATE "plans" SET "imageRetentionCount" = 2 WHERE "code" = 'free';
+UPDATE "plans" SET "imageRetentionCount" = 5 WHERE "code" = 'pro';
+UPDATE "plans" SET "imageRetentionCount" = 10 WHERE "code" = 'max';
+UPDATE "plans" SET "imageRetentionCount" = 20 WHERE "code" = 'enterprise';
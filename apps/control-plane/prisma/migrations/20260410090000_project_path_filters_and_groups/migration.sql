@@ -0,0 +1,27 @@
+-- Migration: project_path_filters_and_groups
+-- Path globs that limit push auto-deploys, plus project groups that deploy several services of one repository together.
+
+CREATE TABLE "project_groups" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "project_groups_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "project_groups_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "project_groups_organizationId_name_key"
+ON "project_groups"("organizationId", "name");
+
+ALTER TABLE "projects"
+  ADD COLUMN "includePaths" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  ADD COLUMN "excludePaths" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  ADD COLUMN "groupId"      TEXT,
+  ADD CONSTRAINT "projects_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "project_groups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE INDEX "projects_groupId_idx" ON "projects"("groupId");
+
+ALTER TABLE "deployments" ADD COLUMN "groupDeploymentId" TEXT;
+
+CREATE INDEX "deployments_groupDeploymentId_idx" ON "deployments"("groupDeploymentId");
@@ -0,0 +1,29 @@
+-- Migration: pull_request_previews
+-- Tracks one stable preview per GitHub pull request and links preview deployments to their pull request.
+
+CREATE TABLE "pull_request_previews" (
+  "id" TEXT NOT NULL,
+  "projectId" TEXT NOT NULL,
+  "number" INTEGER NOT NULL,
+  "headRef" TEXT NOT NULL,
+  "headSha" TEXT NOT NULL,
+  "domain" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'open',
+  "commentId" TEXT,
+  "lastDeploymentId" TEXT,
+  "closedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "pull_request_previews_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "pull_request_previews_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "pull_request_previews_projectId_number_key"
+ON "pull_request_previews"("projectId", "number");
+
+CREATE INDEX "pull_request_previews_status_idx" ON "pull_request_previews"("status");
+
+ALTER TABLE "deployments" ADD COLUMN "pullRequestNumber" INTEGER;
+
+CREATE INDEX "deployments_projectId_pullRequestNumber_idx"
+ON "deployments"("projectId", "pullRequestNumber");
@@ -0,0 +1,25 @@
+-- Migration: git_provider_connections
+-- Stores encrypted GitLab (including self-hosted) and Bitbucket Cloud credentials per user.
+
+CREATE TABLE "git_provider_connections" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "provider" TEXT NOT NULL,
+  "baseUrl" TEXT NOT NULL,
+  "externalUserId" TEXT NOT NULL,
+  "username" TEXT NOT NULL,
+  "avatarUrl" TEXT,
+  "encryptedAccessToken" TEXT NOT NULL,
+  "iv" TEXT NOT NULL,
+  "authTag" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "git_provider_connections_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "git_provider_connections_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "git_provider_connections_userId_provider_key"
+ON "git_provider_connections"("userId", "provider");
+
+CREATE INDEX "git_provider_connections_provider_baseUrl_idx"
+ON "git_provider_connections"("provider", "baseUrl");
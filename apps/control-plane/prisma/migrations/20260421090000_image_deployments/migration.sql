@@ -0,0 +1,31 @@
+-- Migration: image_deployments
+-- Lets projects deploy prebuilt registry images and pins each image deployment to a digest.
+
+ALTER TABLE "projects"
+  ADD COLUMN "sourceType" TEXT NOT NULL DEFAULT 'git',
+  ADD COLUMN "imageReference" TEXT;
+
+ALTER TABLE "deployments"
+  ADD COLUMN "sourceType" TEXT NOT NULL DEFAULT 'git',
+  ADD COLUMN "imageReference" TEXT,
+  ADD COLUMN "imageDigest" TEXT,
+  ALTER COLUMN "gitUrl" DROP NOT NULL;
+
+CREATE TABLE "project_registry_credentials" (
+  "id" TEXT NOT NULL,
+  "projectId" TEXT NOT NULL,
+  "registry" TEXT NOT NULL,
+  "username" TEXT NOT NULL,
+  "encryptedPassword" TEXT NOT NULL,
+  "iv" TEXT NOT NULL,
+  "authTag" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "project_registry_credentials_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "project_registry_credentials_projectId_key" ON "project_registry_credentials"("projectId");
+
+ALTER TABLE "project_registry_credentials"
+  ADD CONSTRAINT "project_registry_credentials_projectId_fkey"
+  FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- Migration: cron_jobs
+-- Scheduled one-off commands that run from a project's active deployment image, with per-run history and logs.
+
+CREATE TABLE "cron_jobs" (
+  "id" TEXT NOT NULL,
+  "projectId" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "schedule" TEXT NOT NULL,
+  "command" TEXT NOT NULL,
+  "enabled" BOOLEAN NOT NULL DEFAULT true,
+  "timeoutSeconds" INTEGER NOT NULL DEFAULT 900,
+  "nextRunAt" TIMESTAMP(3),
+  "lastRunAt" TIMESTAMP(3),
+  "createdById" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "cron_jobs_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "cron_jobs_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "cron_jobs_projectId_name_key" ON "cron_jobs"("projectId", "name");
+
+CREATE INDEX "cron_jobs_enabled_nextRunAt_idx" ON "cron_jobs"("enabled", "nextRunAt");
+
+CREATE TABLE "cron_job_runs" (
+  "id" TEXT NOT NULL,
+  "cronJobId" TEXT NOT NULL,
+  "projectId" TEXT NOT NULL,
+  "deploymentId" TEXT,
+  "trigger" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'queued',
+  "exitCode" INTEGER,
+  "durationMs" INTEGER,
+  "errorMessage" TEXT,
+  "triggeredById" TEXT,
+  "startedAt" TIMESTAMP(3),
+  "finishedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "cron_job_runs_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "cron_job_runs_cronJobId_fkey" FOREIGN KEY ("cronJobId") REFERENCES "cron_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "cron_job_runs_cronJobId_createdAt_idx" ON "cron_job_runs"("cronJobId", "createdAt");
+
+CREATE INDEX "cron_job_runs_status_idx" ON "cron_job_runs"("status");
+
+ALTER TABLE "logs" ADD COLUMN "cronJobRunId" TEXT;
+
+ALTER TABLE "logs"
+  ADD CONSTRAINT "logs_cronJobRunId_fkey"
+  FOREIGN KEY ("cronJobRunId") REFERENCES "cron_job_runs"("id")
+  ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE INDEX "logs_cronJobRunId_timestamp_idx" ON "logs"("cronJobRunId", "timestamp");
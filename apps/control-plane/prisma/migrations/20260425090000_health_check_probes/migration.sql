@@ -0,0 +1,11 @@
+-- Migration: health_check_probes
+-- Per-project HTTP readiness/liveness probe settings.
+
+ALTER TABLE "projects"
+  ADD COLUMN "healthCheckPath" TEXT,
+  ADD COLUMN "healthCheckStatusMin" INTEGER NOT NULL DEFAULT 200,
+  ADD COLUMN "healthCheckStatusMax" INTEGER NOT NULL DEFAULT 399,
+  ADD COLUMN "healthCheckBodyMatch" TEXT,
+  ADD COLUMN "healthCheckInitialDelaySeconds" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN "healthCheckPeriodSeconds" INTEGER NOT NULL DEFAULT 10,
+  ADD COLUMN "healthCheckFailureThreshold" INTEGER NOT NULL DEFAULT 3;
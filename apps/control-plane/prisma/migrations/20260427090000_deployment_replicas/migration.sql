@@ -0,0 +1,22 @@
+-- Migration: deployment_replicas
+-- Replica counts per project/deployment and replica containers linked to their deployment.
+
+ALTER TABLE "projects" ADD COLUMN "replicaCount" INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE "deployments" ADD COLUMN "replicaCount" INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE "containers"
+  ADD COLUMN "deploymentId" TEXT,
+  ADD COLUMN "replicaIndex" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing containers are the primary replica of the deployments that point at them.
+UPDATE "containers" c
+SET "deploymentId" = d."id"
+FROM "deployments" d
+WHERE d."containerId" = c."id";
+
+CREATE INDEX "containers_deploymentId_idx" ON "containers"("deploymentId");
+
+ALTER TABLE "containers"
+  ADD CONSTRAINT "containers_deploymentId_fkey"
+  FOREIGN KEY ("deploymentId") REFERENCES "deployments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- Migration: autoscaling
+-- Per-project replica autoscaling bounds, targets, cooldowns and scale-down stabilization state.
+
+ALTER TABLE "projects"
+  ADD COLUMN "autoscaleEnabled" BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN "autoscaleMinReplicas" INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN "autoscaleMaxReplicas" INTEGER NOT NULL DEFAULT 3,
+  ADD COLUMN "autoscaleTargetCpuPercent" INTEGER DEFAULT 70,
+  ADD COLUMN "autoscaleTargetMemoryPercent" INTEGER,
+  ADD COLUMN "autoscaleTargetRequestsPerMinute" INTEGER,
+  ADD COLUMN "autoscaleScaleUpCooldownSeconds" INTEGER NOT NULL DEFAULT 120,
+  ADD COLUMN "autoscaleScaleDownCooldownSeconds" INTEGER NOT NULL DEFAULT 300,
+  ADD COLUMN "autoscaleStabilizationSeconds" INTEGER NOT NULL DEFAULT 300,
+  ADD COLUMN "autoscaleLastScaledAt" TIMESTAMP(3),
+  ADD COLUMN "autoscaleScaleDownSince" TIMESTAMP(3),
+  ADD COLUMN "autoscaleScaleDownReplicas" INTEGER;
+
+CREATE INDEX "projects_autoscaleEnabled_idx" ON "projects"("autoscaleEnabled");
@@ -0,0 +1,55 @@
+-- Migration: project_volumes
+-- Persistent project volumes pinned to a server, their snapshots, the plan storage quota and volume usage metering.
+
+ALTER TYPE "UsageMetricType" ADD VALUE 'volume_mb_seconds';
+
+ALTER TABLE "plans"
+  ADD COLUMN "includedVolumeStorageGb" INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE "project_volumes" (
+  "id" TEXT NOT NULL,
+  "projectId" TEXT NOT NULL,
+  "serverId" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "mountPath" TEXT NOT NULL,
+  "sizeGb" INTEGER NOT NULL,
+  "dockerVolumeName" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "errorMessage" TEXT,
+  "usedBytes" BIGINT NOT NULL DEFAULT 0,
+  "usageMeasuredAt" TIMESTAMP(3),
+  "createdById" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "project_volumes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "project_volumes_dockerVolumeName_key" ON "project_volumes"("dockerVolumeName");
+CREATE UNIQUE INDEX "project_volumes_projectId_name_key" ON "project_volumes"("projectId", "name");
+CREATE UNIQUE INDEX "project_volumes_projectId_mountPath_key" ON "project_volumes"("projectId", "mountPath");
+CREATE INDEX "project_volumes_serverId_idx" ON "project_volumes"("serverId");
+CREATE INDEX "project_volumes_status_idx" ON "project_volumes"("status");
+
+ALTER TABLE "project_volumes"
+  ADD CONSTRAINT "project_volumes_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "project_volumes"
+  ADD CONSTRAINT "project_volumes_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "servers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+CREATE TABLE "volume_snapshots" (
+  "id" TEXT NOT NULL,
+  "volumeId" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "sizeBytes" BIGINT,
+  "storagePath" TEXT,
+  "errorMessage" TEXT,
+  "createdById" TEXT,
+  "lastRestoredAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "completedAt" TIMESTAMP(3),
+  CONSTRAINT "volume_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "volume_snapshots_volumeId_createdAt_idx" ON "volume_snapshots"("volumeId", "createdAt");
+
+ALTER TABLE "volume_snapshots"
+  ADD CONSTRAINT "volume_snapshots_volumeId_fkey" FOREIGN KEY ("volumeId") REFERENCES "project_volumes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
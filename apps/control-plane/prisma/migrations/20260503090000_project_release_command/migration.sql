@@ -0,0 +1,4 @@
+-- Migration: project_release_command
+-- Optional command run once per deployment before traffic cutover.
+
+ALTER TABLE "projects" ADD COLUMN "releaseCommand" TEXT;
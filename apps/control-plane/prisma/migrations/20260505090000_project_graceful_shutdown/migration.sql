@@ -0,0 +1,5 @@
+-- Migration: project_graceful_shutdown
+-- Connection drain window and stop grace period for replaced containers.
+
+ALTER TABLE "projects" ADD COLUMN "drainTimeoutSeconds" INTEGER NOT NULL DEFAULT 30;
+ALTER TABLE "projects" ADD COLUMN "stopGraceSeconds" INTEGER NOT NULL DEFAULT 10;
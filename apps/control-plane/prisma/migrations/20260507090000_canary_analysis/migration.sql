@@ -0,0 +1,6 @@
+-- Migration: canary_analysis
+-- Stepped canary plans evaluated by the engine's canary analysis loop.
+
+ALTER TABLE "deployments" ADD COLUMN "canaryPlan" JSONB;
+ALTER TABLE "deployments" ADD COLUMN "canaryStepIndex" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "deployments" ADD COLUMN "canaryStepStartedAt" TIMESTAMP(3);
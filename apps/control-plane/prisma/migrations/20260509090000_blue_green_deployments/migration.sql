@@ -0,0 +1,20 @@
+-- Migration: blue_green_deployments
+-- Blue/green releases: a private verification hostname per deployment and the
+-- project's idle side, which stays warm for a window after each switch.
+
+ALTER TABLE "deployments" ADD COLUMN "verificationDomain" TEXT;
+
+ALTER TABLE "projects"
+  ADD COLUMN "blueGreenDeploymentId"    TEXT,
+  ADD COLUMN "blueGreenIdleUntil"       TIMESTAMP(3),
+  ADD COLUMN "blueGreenKeepWarmSeconds" INTEGER NOT NULL DEFAULT 1800;
+
+ALTER TABLE "projects"
+  ADD CONSTRAINT "projects_blueGreenDeploymentId_fkey"
+  FOREIGN KEY ("blueGreenDeploymentId")
+  REFERENCES "deployments"("id")
+  ON DELETE SET NULL
+  ON UPDATE CASCADE;
+
+CREATE UNIQUE INDEX "projects_blueGreenDeploymentId_key"
+  ON "projects" ("blueGreenDeploymentId");
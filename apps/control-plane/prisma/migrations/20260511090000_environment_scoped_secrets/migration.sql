@@ -0,0 +1,14 @@
+-- Migration: environment_scoped_secrets
+-- Project secrets belong to a scope: shared by every deployment, production,
+-- preview, or one branch. Existing secrets become shared, as they behaved before.
+
+CREATE TYPE "SecretScope" AS ENUM ('shared', 'production', 'preview', 'branch');
+
+ALTER TABLE "project_secrets"
+  ADD COLUMN "scope"  "SecretScope" NOT NULL DEFAULT 'shared',
+  ADD COLUMN "branch" TEXT NOT NULL DEFAULT '';
+
+DROP INDEX "project_secrets_projectId_key_key";
+
+CREATE UNIQUE INDEX "project_secrets_projectId_scope_branch_key_key"
+  ON "project_secrets" ("projectId", "scope", "branch", "key");
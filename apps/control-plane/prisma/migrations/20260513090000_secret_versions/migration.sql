@@ -0,0 +1,75 @@
+-- Migration: secret_versions
+-- Every secret write is kept as an encrypted version, and each deployment
+-- records the versions it started with. Existing secrets become version 1.
+
+CREATE TABLE "project_secret_versions" (
+  "id"             TEXT NOT NULL,
+  "projectId"      TEXT NOT NULL,
+  "key"            TEXT NOT NULL,
+  "scope"          "SecretScope" NOT NULL,
+  "branch"         TEXT NOT NULL DEFAULT '',
+  "version"        INTEGER NOT NULL,
+  "encryptedValue" TEXT,
+  "iv"             TEXT,
+  "authTag"        TEXT,
+  "createdById"    TEXT,
+  "createdAt"      TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "project_secret_versions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "project_secret_versions_projectId_scope_branch_key_version_key"
+  ON "project_secret_versions" ("projectId", "scope", "branch", "key", "version");
+
+CREATE INDEX "project_secret_versions_projectId_createdAt_idx"
+  ON "project_secret_versions" ("projectId", "createdAt");
+
+ALTER TABLE "project_secret_versions"
+  ADD CONSTRAINT "project_secret_versions_projectId_fkey"
+  FOREIGN KEY ("projectId")
+  REFERENCES "projects"("id")
+  ON DELETE CASCADE
+  ON UPDATE CASCADE;
+
+ALTER TABLE "project_secrets" ADD COLUMN "currentVersionId" TEXT;
+
+INSERT INTO "project_secret_versions"
+  ("id", "projectId", "key", "scope", "branch", "version", "encryptedValue", "iv", "authTag", "createdAt")
+SELECT "id" || '_v1', "projectId", "key", "scope", "branch", 1, "encryptedValue", "iv", "authTag", "updatedAt"
+FROM "project_secrets";
+
+UPDATE "project_secrets" SET "currentVersionId" = "id" || '_v1';
+
+CREATE UNIQUE INDEX "project_secrets_currentVersionId_key"
+  ON "project_secrets" ("currentVersionId");
+
+ALTER TABLE "project_secrets"
+  ADD CONSTRAINT "project_secrets_currentVersionId_fkey"
+  FOREIGN KEY ("currentVersionId")
+  REFERENCES "project_secret_versions"("id")
+  ON DELETE SET NULL
+  ON UPDATE CASCADE;
+
+CREATE TABLE "deployment_secret_versions" (
+  "deploymentId"    TEXT NOT NULL,
+  "secretVersionId" TEXT NOT NULL,
+  CONSTRAINT "deployment_secret_versions_pkey" PRIMARY KEY ("deploymentId", "secretVersionId")
+);
+
+CREATE INDEX "deployment_secret_versions_secretVersionId_idx"
+  ON "deployment_secret_versions" ("secretVersionId");
+
+ALTER TABLE "deployment_secret_versions"
+  ADD CONSTRAINT "deployment_secret_versions_deploymentId_fkey"
+  FOREIGN KEY ("deploymentId")
+  REFERENCES "deployments"("id")
+  ON DELETE CASCADE
+  ON UPDATE CASCADE;
+
+ALTER TABLE "deployment_secret_versions"
+  ADD CONSTRAINT "deployment_secret_versions_secretVersionId_fkey"
+  FOREIGN KEY ("secretVersionId")
+  REFERENCES "project_secret_versions"("id")
+  ON DELETE CASCADE
+  ON UPDATE CASCADE;
+
+ALTER TABLE "deployments" ADD COLUMN "secretsSnapshotAt" TIMESTAMP(3);
@@ -0,0 +1,11 @@
+-- Migration: secret_references
+-- A secret value can be a reference into an external store (vault://...),
+-- resolved when a deployment is created. Existing values are literals.
+
+CREATE TYPE "SecretValueType" AS ENUM ('literal', 'reference');
+
+ALTER TABLE "project_secrets"
+  ADD COLUMN "valueType" "SecretValueType" NOT NULL DEFAULT 'literal';
+
+ALTER TABLE "project_secret_versions"
+  ADD COLUMN "valueType" "SecretValueType" NOT NULL DEFAULT 'literal';
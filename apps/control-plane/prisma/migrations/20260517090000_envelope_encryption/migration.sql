@@ -0,0 +1,45 @@
+-- Migration: envelope_encryption
+-- Stored credentials move to per-organization data keys wrapped by a versioned
+-- master key. Each ciphertext records its data key; rows without one are still
+-- under ENCRYPTION_KEY until the background re-encryption reaches them.
+
+CREATE TABLE "data_encryption_keys" (
+  "id"               TEXT NOT NULL,
+  "organizationId"   TEXT,
+  "wrappedKey"       TEXT NOT NULL,
+  "iv"               TEXT NOT NULL,
+  "authTag"          TEXT NOT NULL,
+  "masterKeyVersion" INTEGER NOT NULL,
+  "createdAt"        TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt"        TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "data_encryption_keys_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "data_encryption_keys_organizationId_createdAt_idx"
+  ON "data_encryption_keys" ("organizationId", "createdAt");
+
+CREATE INDEX "data_encryption_keys_masterKeyVersion_idx"
+  ON "data_encryption_keys" ("masterKeyVersion");
+
+ALTER TABLE "data_encryption_keys"
+  ADD CONSTRAINT "data_encryption_keys_organizationId_fkey"
+  FOREIGN KEY ("organizationId")
+  REFERENCES "organizations"("id")
+  ON DELETE CASCADE
+  ON UPDATE CASCADE;
+
+ALTER TABLE "project_secrets" ADD COLUMN "keyId" TEXT;
+CREATE INDEX "project_secrets_keyId_idx" ON "project_secrets" ("keyId");
+
+ALTER TABLE "project_secret_versions" ADD COLUMN "keyId" TEXT;
+CREATE INDEX "project_secret_versions_keyId_idx" ON "project_secret_versions" ("keyId");
+
+ALTER TABLE "project_registry_credentials" ADD COLUMN "keyId" TEXT;
+
+ALTER TABLE "github_connections" ADD COLUMN "keyId" TEXT;
+
+ALTER TABLE "git_provider_connections" ADD COLUMN "keyId" TEXT;
+
+ALTER TABLE "vercel_connections"
+  ADD COLUMN "accessTokenKeyId"  TEXT,
+  ADD COLUMN "refreshTokenKeyId" TEXT;
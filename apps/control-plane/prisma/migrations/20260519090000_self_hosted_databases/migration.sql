@@ -0,0 +1,37 @@
+-- Migration: self_hosted_databases
+-- Managed databases can also run as Postgres, MySQL or Redis containers on
+-- Apployd servers. Neon-only columns become optional for those rows.
+
+ALTER TABLE "managed_databases"
+  ALTER COLUMN "branchName" DROP NOT NULL,
+  ALTER COLUMN "externalProjectId" DROP NOT NULL,
+  ALTER COLUMN "externalBranchId" DROP NOT NULL;
+
+ALTER TABLE "managed_databases"
+  ADD COLUMN "engine"              TEXT,
+  ADD COLUMN "slug"                TEXT,
+  ADD COLUMN "serverId"            TEXT,
+  ADD COLUMN "memoryMb"            INTEGER,
+  ADD COLUMN "cpuMillicores"       INTEGER,
+  ADD COLUMN "storageGb"           INTEGER,
+  ADD COLUMN "dockerContainerName" TEXT,
+  ADD COLUMN "dockerVolumeName"    TEXT,
+  ADD COLUMN "errorMessage"        TEXT;
+
+CREATE UNIQUE INDEX "managed_databases_organizationId_slug_key"
+  ON "managed_databases" ("organizationId", "slug");
+
+CREATE UNIQUE INDEX "managed_databases_dockerContainerName_key"
+  ON "managed_databases" ("dockerContainerName");
+
+CREATE UNIQUE INDEX "managed_databases_dockerVolumeName_key"
+  ON "managed_databases" ("dockerVolumeName");
+
+CREATE INDEX "managed_databases_serverId_idx" ON "managed_databases" ("serverId");
+
+ALTER TABLE "managed_databases"
+  ADD CONSTRAINT "managed_databases_serverId_fkey"
+  FOREIGN KEY ("serverId")
+  REFERENCES "servers"("id")
+  ON DELETE RESTRICT
+  ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- Migration: self_hosted_database_credentials
+-- Self-hosted databases keep their password encrypted on the record, so the
+-- engine can start (or recreate) the container without it passing through
+-- the queue.
+
+ALTER TABLE "managed_databases"
+  ADD COLUMN "encryptedPassword" TEXT,
+  ADD COLUMN "passwordIv"        TEXT,
+  ADD COLUMN "passwordAuthTag"   TEXT,
+  ADD COLUMN "passwordKeyId"     TEXT;
@@ -0,0 +1,13 @@
+-- Migration: gitlab_connection_webhook_secrets
+-- Each GitLab connection gets its own push webhook token, and projects record
+-- the connection whose token their pushes must carry.
+
+ALTER TABLE "git_provider_connections"
+  ADD COLUMN "encryptedWebhookSecret" TEXT,
+  ADD COLUMN "webhookSecretIv"        TEXT,
+  ADD COLUMN "webhookSecretAuthTag"   TEXT,
+  ADD COLUMN "webhookSecretKeyId"     TEXT;
+
+ALTER TABLE "projects"
+  ADD COLUMN "gitProviderConnectionId" TEXT,
+  ADD CONSTRAINT "projects_gitProviderConnectionId_fkey" FOREIGN KEY ("gitProviderConnectionId") REFERENCES "git_provider_connections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -11,11 +11,14 @@ import { billingRoutes } from './modules/billing/routes.js';
 import { contentRoutes } from './modules/content/routes.js';
 import { containerRoutes } from './modules/containers/routes.js';
 import { codexAgentRoutes } from './modules/codex-agent/routes.js';
+import { cronJobRoutes } from './modules/cron-jobs/routes.js';
 import { databaseRoutes } from './modules/databases/routes.js';
 import { deploymentRoutes } from './modules/deployments/routes.js';
 import { domainRoutes } from './modules/domains/routes.js';
 import { edgeRoutes } from './modules/edge/routes.js';
 import { healthRoutes } from './modules/health/routes.js';
+import { imageSourceRoutes } from './modules/image-sources/routes.js';
+import { gitProviderIntegrationRoutes } from './modules/integrations/git-provider-routes.js';
 import { githubIntegrationRoutes } from './modules/integrations/github-routes.js';
 import { vercelIntegrationRoutes } from './modules/integrations/vercel-routes.js';
 import { logRoutes } from './modules/logs/routes.js';
@@ -26,11 +29,13 @@ import { onboardingRoutes } from './modules/onboarding/routes.js';
 import { organizationRoutes } from './modules/organizations/routes.js';
 import { planRoutes } from './modules/plans/routes.js';
 import { projectRoutes } from './modules/projects/routes.js';
+import { projectGroupRoutes } from './modules/project-groups/routes.js';
 import { securityRoutes } from './modules/security/routes.js';
 import { secretRoutes } from './modules/secrets/routes.js';
 import { serverRoutes } from './modules/servers/routes.js';
 import { teamRoutes } from './modules/teams/routes.js';
 import { usageRoutes } from './modules/usage/routes.js';
+import { volumeRoutes } from './modules/volumes/routes.js';
 import { instrumentHttpRequest } from './lib/observability.js';
 import authenticatePlugin from './plugins/authenticate.js';
 import { deploymentWebsocketRoutes } from './websocket/deployment-events.js';
@@ -127,9 +132,13 @@ export const buildApp = () => {
       api.register(teamRoutes);
       api.register(planRoutes);
       api.register(projectRoutes);
+      api.register(projectGroupRoutes);
       api.register(databaseRoutes);
       api.register(securityRoutes);
       api.register(secretRoutes);
+      api.register(imageSourceRoutes);
+      api.register(cronJobRoutes);
+      api.register(volumeRoutes);
       api.register(deploymentRoutes);
       api.register(containerRoutes);
       api.register(domainRoutes);
@@ -140,6 +149,7 @@ export const buildApp = () => {
       api.register(serverRoutes);
       api.register(billingRoutes);
       api.register(githubIntegrationRoutes);
+      api.register(gitProviderIntegrationRoutes);
       api.register(vercelIntegrationRoutes);
       api.register(contentRoutes);
       api.register(fileRoutes);
@@ -0,0 +1,89 @@
+/**
+ * Master key maintenance, run with the control plane's environment:
+ *
+ *   npm run encryption-keys -- generate   print key material for ENCRYPTION_MASTER_KEYS
+ *   npm run encryption-keys -- status     data keys per master version, legacy values left
+ *   npm run encryption-keys -- rotate     re-wrap every data key under the current master
+ *                                         key and re-encrypt every legacy value now
+ *
+ * `rotate` does what the background job does, without waiting for it.
+ */
+import { generateKeyMaterial } from '../lib/envelope-encryption.js';
+import type { EncryptionKeyStatus } from '../services/encryption-key-rotation-service.js';
+
+const ROTATE_BATCH_SIZE = 500;
+
+const printStatus = (status: EncryptionKeyStatus) => {
+  console.log(`Current master key version: ${status.currentMasterKeyVersion}`);
+  console.log(`Configured master key versions: ${status.configuredMasterKeyVersions.join(', ')}`);
+  for (const [version, count] of Object.entries(status.dataKeysByMasterKeyVersion)) {
+    console.log(`  data keys wrapped by version ${version}: ${count}`);
+  }
+  const legacy = Object.entries(status.legacyCiphertexts).filter(([, count]) => count > 0);
+  if (legacy.length === 0) {
+    console.log('No values are encrypted with ENCRYPTION_KEY directly.');
+  } else {
+    console.log('Values still encrypted with ENCRYPTION_KEY directly:');
+    for (const [column, count] of legacy) {
+      console.log(`  ${column}: ${count}`);
+    }
+  }
+  console.log(
+    status.retirableMasterKeyVersions.length > 0
+      ? `Safe to remove from ENCRYPTION_MASTER_KEYS: ${status.retirableMasterKeyVersions.join(', ')}`
+      : 'No master key version can be removed yet.',
+  );
+};
+
+const run = async (command: string | undefined): Promise<number> => {
+  if (command === 'generate') {
+    console.log(generateKeyMaterial());
+    return 0;
+  }
+  if (command !== 'status' && command !== 'rotate') {
+    console.error('Usage: encryption-keys <generate|status|rotate>');
+    return 1;
+  }
+
+  // Loaded here so `generate` works without the control plane's environment.
+  const { prisma } = await import('../lib/prisma.js');
+  const { EncryptionKeyRotationService } =
+    await import('../services/encryption-key-rotation-service.js');
+  const rotation = new EncryptionKeyRotationService();
+
+  try {
+    if (command === 'rotate') {
+      const keys = await rotation.rewrapDataKeys();
+      console.log(`Re-wrapped ${keys.rewrapped} data keys (${keys.failed} failed).`);
+
+      let reencrypted = 0;
+      let failed = 0;
+      for (;;) {
+        const batch = await rotation.reencryptLegacy(ROTATE_BATCH_SIZE);
+        reencrypted += batch.reencrypted;
+        failed += batch.failed;
+        if (batch.complete) {
+          break;
+        }
+      }
+      console.log(`Re-encrypted ${reencrypted} legacy values (${failed} failed).`);
+      if (keys.failed > 0 || failed > 0) {
+        console.error(
+          'Some credentials could not be decrypted; check ENCRYPTION_KEY and ENCRYPTION_MASTER_KEYS.',
+        );
+      }
+    }
+
+    printStatus(await rotation.status());
+    return 0;
+  } finally {
+    await prisma.$disconnect();
+  }
+};
+
+run(process.argv[2])
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -124,6 +124,7 @@ const envSchema = z.object({
   GOOGLE_CLIENT_SECRET: z.string().default(''),
   GOOGLE_OAUTH_REDIRECT_URI: z.string().url().optional(),
   GITHUB_WEBHOOK_SECRET: z.string().default(''),
+  BITBUCKET_WEBHOOK_SECRET: z.string().default(''),
   VERCEL_CLIENT_ID: optionalString,
   VERCEL_CLIENT_SECRET: optionalString,
   VERCEL_OAUTH_REDIRECT_URI: z.string().url().optional(),
@@ -131,10 +132,17 @@ const envSchema = z.object({
   NEON_API_KEY: optionalString,
   NEON_API_BASE_URL: z.string().url().default('https://console.neon.tech/api/v2'),
   NEON_DEFAULT_REGION: z.string().default('aws-us-east-1'),
+  VAULT_ADDR: z.string().url().optional(),
+  VAULT_TOKEN: optionalString,
+  VAULT_NAMESPACE: optionalString,
   DASHBOARD_BASE_URL: z.string().url().default('http://localhost:3000'),
   CORS_ALLOWED_ORIGINS: optionalCsvUrls,
   PLATFORM_ADMIN_EMAILS: optionalCsvEmails,
   ENCRYPTION_KEY: z.string().min(32),
+  ENCRYPTION_MASTER_KEYS: optionalString,
+  ENCRYPTION_MASTER_KEY_VERSION: z.coerce.number().int().min(1).optional(),
+  ENCRYPTION_REENCRYPT_INTERVAL_SECONDS: z.coerce.number().int().min(30).max(86400).default(300),
+  ENCRYPTION_REENCRYPT_BATCH_SIZE: z.coerce.number().int().min(1).max(5000).default(200),
   METRICS_AUTH_TOKEN: optionalString,
   CLOUDFLARE_API_TOKEN: z.string().optional(),
   CLOUDFLARE_ZONE_ID: z.string().optional(),
@@ -145,11 +153,14 @@ const envSchema = z.object({
   INVITE_REMINDER_INTERVAL_HOURS: z.coerce.number().int().min(1).max(720).default(24),
   INVITE_MAX_REMINDERS: z.coerce.number().int().min(0).max(20).default(2),
   INVITE_MAINTENANCE_INTERVAL_SECONDS: z.coerce.number().int().min(30).max(3600).default(300),
+  CRON_SCHEDULER_INTERVAL_SECONDS: z.coerce.number().int().min(10).max(300).default(30),
+  AUTOSCALER_INTERVAL_SECONDS: z.coerce.number().int().min(15).max(600).default(60),
   BASE_DOMAIN: z.string().min(3),
   PREVIEW_BASE_DOMAIN: z.string().min(3).optional(),
   PREVIEW_DOMAIN_STYLE: z.enum(['project', 'project_ref']).default('project_ref'),
   DEFAULT_REGION: z.string().default('fsn1'),
   ALLOW_PRIVATE_GIT_HOSTS: booleanFromEnv.optional(),
+  ALLOW_PRIVATE_REGISTRIES: booleanFromEnv.optional(),
   ALLOW_RISKY_DEPLOYMENT_COMMANDS: booleanFromEnv.optional(),
   AUTO_PROVISION_DEV_SERVER: booleanFromEnv.optional(),
   DEV_SERVER_NAME: z.string().min(2).default('local-dev-1'),
@@ -182,6 +193,7 @@ export const env = {
   INVITE_ALLOWED_EMAIL_DOMAINS: parsedEnv.INVITE_ALLOWED_EMAIL_DOMAINS ?? [],
   INVITE_REMINDER_ENABLED: parsedEnv.INVITE_REMINDER_ENABLED ?? true,
   ALLOW_PRIVATE_GIT_HOSTS: parsedEnv.ALLOW_PRIVATE_GIT_HOSTS ?? false,
+  ALLOW_PRIVATE_REGISTRIES: parsedEnv.ALLOW_PRIVATE_REGISTRIES ?? false,
   ALLOW_RISKY_DEPLOYMENT_COMMANDS: parsedEnv.ALLOW_RISKY_DEPLOYMENT_COMMANDS ?? false,
   AUTO_PROVISION_DEV_SERVER:
     parsedEnv.AUTO_PROVISION_DEV_SERVER ?? parsedEnv.NODE_ENV !== 'production',
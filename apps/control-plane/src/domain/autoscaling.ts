@@ -0,0 +1,174 @@
+export interface AutoscalePolicy {
+  minReplicas: number;
+  maxReplicas: number;
+  targetCpuPercent: number | null;
+  targetMemoryPercent: number | null;
+  targetRequestsPerMinute: number | null;
+  scaleUpCooldownSeconds: number;
+  scaleDownCooldownSeconds: number;
+  stabilizationSeconds: number;
+}
+
+/** Averages per replica over the observation window; null when no samples exist. */
+export interface AutoscaleObservation {
+  cpuPercent: number | null;
+  memoryPercent: number | null;
+  requestsPerMinute: number | null;
+}
+
+export interface AutoscaleState {
+  currentReplicas: number;
+  lastScaledAt: Date | null;
+  scaleDownSince: Date | null;
+  scaleDownReplicas: number | null;
+}
+
+export type AutoscaleSignal = 'cpu' | 'memory' | 'requests' | 'bounds';
+
+export type AutoscaleDecision =
+  | {
+      action: 'scale';
+      from: number;
+      to: number;
+      signal: AutoscaleSignal;
+      reason: string;
+    }
+  | {
+      action: 'hold';
+      recommended: number;
+      reason: string;
+      /** Scale-down tracking to persist for the next evaluation. */
+      scaleDownSince: Date | null;
+      scaleDownReplicas: number | null;
+    };
+
+/** Ratios this close to 1 keep the current count so small fluctuations do not flap replicas. */
+export const AUTOSCALE_TOLERANCE = 0.1;
+
+const clampReplicas = (policy: AutoscalePolicy, replicas: number): number =>
+  Math.min(policy.maxReplicas, Math.max(policy.minReplicas, replicas));
+
+/**
+ * Replica count the observation asks for: the current count scaled by the
+ * highest usage-to-target ratio across the configured signals, clamped to the
+ * policy bounds.
+ */
+export const recommendReplicas = (
+  policy: AutoscalePolicy,
+  currentReplicas: number,
+  observation: AutoscaleObservation,
+): { replicas: number; signal: AutoscaleSignal | null; ratio: number | null } => {
+  const ratios: Array<{ signal: AutoscaleSignal; ratio: number }> = [];
+  if (policy.targetCpuPercent && observation.cpuPercent !== null) {
+    ratios.push({ signal: 'cpu', ratio: observation.cpuPercent / policy.targetCpuPercent });
+  }
+  if (policy.targetMemoryPercent && observation.memoryPercent !== null) {
+    ratios.push({
+      signal: 'memory',
+      ratio: observation.memoryPercent / policy.targetMemoryPercent,
+    });
+  }
+  if (policy.targetRequestsPerMinute && observation.requestsPerMinute !== null) {
+    ratios.push({
+      signal: 'requests',
+      ratio: observation.requestsPerMinute / policy.targetRequestsPerMinute,
+    });
+  }
+
+  const highest = ratios.reduce<{ signal: AutoscaleSignal; ratio: number } | null>(
+    (best, entry) => (!best || entry.ratio > best.ratio ? entry : best),
+    null,
+  );
+  if (!highest) {
+    return { replicas: clampReplicas(policy, currentReplicas), signal: null, ratio: null };
+  }
+
+  const replicas =
+    Math.abs(highest.ratio - 1) <= AUTOSCALE_TOLERANCE
+      ? currentReplicas
+      : Math.ceil(currentReplicas * highest.ratio);
+  return { replicas: clampReplicas(policy, replicas), ...highest };
+};
+
+const secondsSince = (now: Date, since: Date | null): number =>
+  since ? (now.getTime() - since.getTime()) / 1000 : Number.POSITIVE_INFINITY;
+
+const describeSignal = (signal: AutoscaleSignal | null, ratio: number | null): string =>
+  signal && ratio !== null ? `${signal} at ${Math.round(ratio * 100)}% of target` : 'no samples';
+
+/**
+ * Decides whether to change the replica count. Scale-ups apply once the
+ * scale-up cooldown has passed. Scale-downs wait until the recommendation has
+ * stayed below the current count for the whole stabilization window, then go
+ * to the highest recommendation seen during it, and still honour the
+ * scale-down cooldown.
+ */
+export const decideScaling = (
+  policy: AutoscalePolicy,
+  state: AutoscaleState,
+  observation: AutoscaleObservation,
+  now: Date,
+): AutoscaleDecision => {
+  const current = state.currentReplicas;
+  const bounded = clampReplicas(policy, current);
+  if (bounded !== current) {
+    return {
+      action: 'scale',
+      from: current,
+      to: bounded,
+      signal: 'bounds',
+      reason: `replica count ${current} is outside ${policy.minReplicas}-${policy.maxReplicas}`,
+    };
+  }
+
+  const recommendation = recommendReplicas(policy, current, observation);
+  const detail = describeSignal(recommendation.signal, recommendation.ratio);
+  const hold = (
+    reason: string,
+    scaleDownSince: Date | null = null,
+    scaleDownReplicas: number | null = null,
+  ): AutoscaleDecision => ({
+    action: 'hold',
+    recommended: recommendation.replicas,
+    reason,
+    scaleDownSince,
+    scaleDownReplicas,
+  });
+
+  if (recommendation.replicas > current) {
+    if (secondsSince(now, state.lastScaledAt) < policy.scaleUpCooldownSeconds) {
+      return hold(`${detail}; scale-up cooldown active`);
+    }
+    return {
+      action: 'scale',
+      from: current,
+      to: recommendation.replicas,
+      signal: recommendation.signal ?? 'bounds',
+      reason: detail,
+    };
+  }
+
+  if (recommendation.replicas === current) {
+    return hold(detail);
+  }
+
+  const since = state.scaleDownSince ?? now;
+  const candidate = Math.max(state.scaleDownReplicas ?? 0, recommendation.replicas);
+  if (secondsSince(now, since) < policy.stabilizationSeconds) {
+    return hold(`${detail}; stabilizing before scale-down`, since, candidate);
+  }
+  if (secondsSince(now, state.lastScaledAt) < policy.scaleDownCooldownSeconds) {
+    return hold(`${detail}; scale-down cooldown active`, since, candidate);
+  }
+  if (candidate >= current) {
+    return hold(detail);
+  }
+
+  return {
+    action: 'scale',
+    from: current,
+    to: candidate,
+    signal: recommendation.signal ?? 'bounds',
+    reason: `${detail} for ${Math.round(secondsSince(now, since))}s`,
+  };
+};
@@ -43,3 +43,19 @@ export const validateAllocationRules = (
 
   return { ok: true };
 };
+
+/**
+ * What a project holds from the pool and on its server: RAM and CPU are per
+ * replica, bandwidth is a monthly transfer allowance shared by all replicas.
+ */
+export const replicaAllocation = (
+  perReplica: { ramMb: number; cpuMillicores: number; bandwidthGb: number },
+  replicaCount: number,
+): RequestedAllocation => {
+  const replicas = Math.max(1, Math.floor(replicaCount));
+  return {
+    ramMb: perReplica.ramMb * replicas,
+    cpuMillicores: perReplica.cpuMillicores * replicas,
+    bandwidthGb: perReplica.bandwidthGb,
+  };
+};
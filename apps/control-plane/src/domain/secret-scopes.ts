@@ -0,0 +1,62 @@
+import type { SecretScope } from '@prisma/client';
+
+/** Deployment a set of project secrets is resolved for. */
+export interface SecretScopeTarget {
+  environment: 'production' | 'preview';
+  branch?: string | null;
+}
+
+export interface ScopedSecret {
+  key: string;
+  scope: SecretScope;
+  branch: string;
+}
+
+/** Scope and branch of every layer a deployment for `target` reads. */
+export const applicableSecretScopes = (
+  target: SecretScopeTarget,
+): Array<Pick<ScopedSecret, 'scope' | 'branch'>> => [
+  { scope: 'shared', branch: '' },
+  { scope: target.environment, branch: '' },
+  ...(target.branch ? [{ scope: 'branch' as const, branch: target.branch }] : []),
+];
+
+/** How a scope is named in audit logs and responses, e.g. `branch:feature/login`. */
+export const describeSecretScope = (scope: SecretScope, branch: string): string =>
+  scope === 'branch' ? `branch:${branch}` : scope;
+
+/**
+ * Layer of a secret for `target`: 0 for shared, 1 for the target's
+ * environment, 2 for its branch; null when the secret does not apply.
+ */
+export const secretScopeLayer = (
+  secret: Pick<ScopedSecret, 'scope' | 'branch'>,
+  target: SecretScopeTarget,
+): number | null => {
+  if (secret.scope === 'shared') {
+    return 0;
+  }
+  if (secret.scope === 'branch') {
+    return target.branch && secret.branch === target.branch ? 2 : null;
+  }
+  return secret.scope === target.environment ? 1 : null;
+};
+
+/** The secret that wins for each key: branch over environment over shared. */
+export const resolveScopedSecrets = <T extends ScopedSecret>(
+  secrets: T[],
+  target: SecretScopeTarget,
+): Map<string, T> => {
+  const resolved = new Map<string, { secret: T; layer: number }>();
+  for (const secret of secrets) {
+    const layer = secretScopeLayer(secret, target);
+    if (layer === null) {
+      continue;
+    }
+    const current = resolved.get(secret.key);
+    if (!current || layer > current.layer) {
+      resolved.set(secret.key, { secret, layer });
+    }
+  }
+  return new Map([...resolved].map(([key, { secret }]) => [key, secret]));
+};
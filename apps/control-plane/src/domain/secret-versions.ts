@@ -0,0 +1,49 @@
+import type { SecretScope } from '@prisma/client';
+
+export interface CurrentSecretVersion {
+  key: string;
+  scope: SecretScope;
+  branch: string;
+  currentVersionId: string | null;
+}
+
+export interface SnapshotSecretVersion {
+  id: string;
+  key: string;
+  scope: SecretScope;
+  branch: string;
+}
+
+export interface SecretSetRestorePlan<C, S> {
+  /** Snapshot versions to write back as new versions */
+  restore: S[];
+  /** Current secrets the snapshot did not have */
+  remove: C[];
+  unchanged: number;
+}
+
+const secretIdentity = (secret: { key: string; scope: SecretScope; branch: string }): string =>
+  `${secret.scope}\u0000${secret.branch}\u0000${secret.key}`;
+
+/**
+ * What it takes to make the current secrets of the layers a deployment read
+ * match the snapshot it ran with. Keys still at the snapshot's version are
+ * left alone, so restoring twice writes nothing the second time.
+ */
+export const planSecretSetRestore = <
+  C extends CurrentSecretVersion,
+  S extends SnapshotSecretVersion,
+>(
+  current: C[],
+  snapshot: S[],
+): SecretSetRestorePlan<C, S> => {
+  const snapshotByIdentity = new Map(snapshot.map((version) => [secretIdentity(version), version]));
+  const currentByIdentity = new Map(current.map((secret) => [secretIdentity(secret), secret]));
+
+  const restore = snapshot.filter(
+    (version) => currentByIdentity.get(secretIdentity(version))?.currentVersionId !== version.id,
+  );
+  const remove = current.filter((secret) => !snapshotByIdentity.has(secretIdentity(secret)));
+
+  return { restore, remove, unchanged: snapshot.length - restore.length };
+};
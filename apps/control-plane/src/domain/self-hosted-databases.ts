@@ -0,0 +1,90 @@
+export const SELF_HOSTED_DATABASE_ENGINES = ['postgres', 'mysql', 'redis'] as const;
+
+export type SelfHostedDatabaseEngine = (typeof SELF_HOSTED_DATABASE_ENGINES)[number];
+
+export interface DatabaseCredentials {
+  username: string;
+  password: string;
+  databaseName: string;
+}
+
+/** The engine picks each engine's image and data path; these are what the control plane needs. */
+interface EngineDefaults {
+  port: number;
+  /** Below this the server process does not start reliably */
+  minMemoryMb: number;
+  secretKey: string;
+  urlScheme: string;
+}
+
+const ENGINE_DEFAULTS: Record<SelfHostedDatabaseEngine, EngineDefaults> = {
+  postgres: {
+    port: 5432,
+    minMemoryMb: 256,
+    secretKey: 'DATABASE_URL',
+    urlScheme: 'postgres',
+  },
+  mysql: {
+    port: 3306,
+    minMemoryMb: 512,
+    secretKey: 'DATABASE_URL',
+    urlScheme: 'mysql',
+  },
+  redis: {
+    port: 6379,
+    minMemoryMb: 128,
+    secretKey: 'REDIS_URL',
+    urlScheme: 'redis',
+  },
+};
+
+export const minimumDatabaseMemoryMb = (engine: SelfHostedDatabaseEngine): number =>
+  ENGINE_DEFAULTS[engine].minMemoryMb;
+
+export const defaultDatabaseSecretKey = (engine: SelfHostedDatabaseEngine): string =>
+  ENGINE_DEFAULTS[engine].secretKey;
+
+/** Docker names are derived from the record id, so they never change on rename. */
+export const selfHostedDatabaseDockerNames = (databaseId: string) => ({
+  containerName: `apployd-db-${databaseId}`,
+  volumeName: `apployd-dbvol-${databaseId}`,
+});
+
+export const databaseInternalHostname = (slug: string): string => `${slug}.internal`;
+
+/**
+ * A DNS label for `<slug>.internal`: lowercase letters, digits and dashes,
+ * starting with a letter. Empty when `name` has nothing usable.
+ */
+export const toDatabaseSlug = (name: string): string =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^[^a-z]+/, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+
+export const DATABASE_SLUG_PATTERN = /^[a-z][a-z0-9-]{0,38}[a-z0-9]$/;
+
+/** Login for a new database; Redis uses its built-in `default` user. */
+export const defaultDatabaseCredentials = (
+  engine: SelfHostedDatabaseEngine,
+  slug: string,
+  password: string,
+): DatabaseCredentials => ({
+  username: engine === 'redis' ? 'default' : 'app',
+  password,
+  databaseName: engine === 'redis' ? '0' : slug.replace(/-/g, '_'),
+});
+
+/** The connection string apps get, addressed by the database's internal hostname. */
+export const databaseConnectionUrl = (
+  engine: SelfHostedDatabaseEngine,
+  hostname: string,
+  credentials: DatabaseCredentials,
+): string => {
+  const { port, urlScheme } = ENGINE_DEFAULTS[engine];
+  const auth = `${encodeURIComponent(credentials.username)}:${encodeURIComponent(credentials.password)}`;
+  return `${urlScheme}://${auth}@${hostname}:${port}/${encodeURIComponent(credentials.databaseName)}`;
+};
@@ -0,0 +1,82 @@
+/**
+ * Paths a volume must not shadow: the image's system directories, kernel
+ * filesystems, and the tmpfs mounts read-only containers get.
+ */
+const RESERVED_MOUNT_PATHS = [
+  '/bin',
+  '/boot',
+  '/dev',
+  '/etc',
+  '/lib',
+  '/lib64',
+  '/proc',
+  '/run',
+  '/sbin',
+  '/sys',
+  '/tmp',
+  '/usr',
+  '/var/run',
+];
+
+const MOUNT_PATH_PATTERN = /^\/[A-Za-z0-9._\-/]*$/;
+
+/** Docker volume backing a project volume; volume names are unique per project and immutable. */
+export const projectVolumeDockerName = (projectId: string, name: string): string =>
+  `apployd-vol-${projectId}-${name}`;
+
+export const mountPathsOverlap = (left: string, right: string): boolean =>
+  left === right || left.startsWith(`${right}/`) || right.startsWith(`${left}/`);
+
+/**
+ * Normalises a container mount path (trailing slashes and repeated separators
+ * removed) and returns it with the reason it is unusable, if any.
+ */
+export const normalizeVolumeMountPath = (
+  raw: string,
+): { mountPath: string; error: string | null } => {
+  const mountPath = raw
+    .trim()
+    .replace(/\/{2,}/g, '/')
+    .replace(/(.)\/+$/, '$1');
+
+  if (!mountPath.startsWith('/')) {
+    return { mountPath, error: 'Mount path must be absolute.' };
+  }
+  if (mountPath.length > 255 || !MOUNT_PATH_PATTERN.test(mountPath)) {
+    return {
+      mountPath,
+      error: 'Mount path may only contain letters, digits, dots, dashes, underscores and slashes.',
+    };
+  }
+  if (mountPath.split('/').some((segment) => segment === '.' || segment === '..')) {
+    return { mountPath, error: 'Mount path must not contain "." or ".." segments.' };
+  }
+  if (mountPath === '/') {
+    return { mountPath, error: 'A volume cannot be mounted at the container root.' };
+  }
+  const reserved = RESERVED_MOUNT_PATHS.find((path) => mountPathsOverlap(mountPath, path));
+  if (reserved) {
+    return { mountPath, error: `Mount path overlaps the reserved path ${reserved}.` };
+  }
+
+  return { mountPath, error: null };
+};
+
+/**
+ * Volume sizes count against the plan's included storage for the whole
+ * organization. `currentVolumeGb` is the size being replaced on a resize.
+ */
+export const validateVolumeQuota = (input: {
+  includedGb: number;
+  allocatedGb: number;
+  currentVolumeGb?: number;
+  requestedGb: number;
+}): { ok: true } => {
+  const planned = input.allocatedGb - (input.currentVolumeGb ?? 0) + input.requestedGb;
+  if (planned > input.includedGb) {
+    throw new Error(
+      `Volume storage quota exceeded: ${planned}GB requested across the organization, plan includes ${input.includedGb}GB.`,
+    );
+  }
+  return { ok: true };
+};
@@ -0,0 +1,184 @@
+import type { BuildConfigKey } from '@apployd/shared';
+import { z } from 'zod';
+
+export const BUILD_CONFIG_FILE_NAMES = ['apployd.json', 'apployd.toml'] as const;
+
+export type BuildConfigFileName = (typeof BUILD_CONFIG_FILE_NAMES)[number];
+
+const MAX_BUILD_CONFIG_BYTES = 64 * 1024;
+
+export class BuildConfigParseError extends Error {
+  constructor(
+    message: string,
+    readonly fileName: BuildConfigFileName,
+  ) {
+    super(message);
+    this.name = 'BuildConfigParseError';
+  }
+}
+
+const commandSchema = z.string().trim().min(1).max(500);
+const relativePathSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(300)
+  .refine((value) => !value.startsWith('/') && !value.split(/[\\/]/).includes('..'), {
+    message: 'must be a relative path inside the repository',
+  });
+
+const buildConfigSchema = z
+  .object({
+    $schema: z.string().optional(),
+    installCommand: commandSchema.optional(),
+    buildCommand: commandSchema.optional(),
+    startCommand: commandSchema.optional(),
+    releaseCommand: commandSchema.optional(),
+    rootDirectory: relativePathSchema.optional(),
+    outputDirectory: relativePathSchema.optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    serviceType: z.enum(['web_service', 'static_site', 'python', 'dockerfile', 'worker']).optional(),
+    dockerfilePath: relativePathSchema.optional(),
+    dockerTarget: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9][A-Za-z0-9_.-]{0,127}$/, 'must be a Dockerfile stage name')
+      .optional(),
+  })
+  .strict();
+
+export type RepositoryBuildConfig = Omit<z.infer<typeof buildConfigSchema>, '$schema'>;
+
+const TOML_KEY_ALIASES: Record<string, string> = {
+  install_command: 'installCommand',
+  build_command: 'buildCommand',
+  start_command: 'startCommand',
+  release_command: 'releaseCommand',
+  root_directory: 'rootDirectory',
+  output_directory: 'outputDirectory',
+  service_type: 'serviceType',
+  dockerfile_path: 'dockerfilePath',
+  docker_target: 'dockerTarget',
+};
+
+const parseTomlValue = (
+  raw: string,
+  lineNumber: number,
+  fileName: BuildConfigFileName,
+): unknown => {
+  if (raw.startsWith('"')) {
+    const match = raw.match(/^"((?:[^"\\]|\\.)*)"\s*(?:#.*)?$/);
+    if (!match) {
+      throw new BuildConfigParseError(`Unclosed string on line ${lineNumber}.`, fileName);
+    }
+    return JSON.parse(`"${match[1] ?? ''}"`) as string;
+  }
+
+  if (raw.startsWith("'")) {
+    const match = raw.match(/^'([^']*)'\s*(?:#.*)?$/);
+    if (!match) {
+      throw new BuildConfigParseError(`Unclosed string on line ${lineNumber}.`, fileName);
+    }
+    return match[1] ?? '';
+  }
+
+  const bare = raw.replace(/\s+#.*$/, '').trim();
+  if (bare === 'true' || bare === 'false') {
+    return bare === 'true';
+  }
+  if (/^[+-]?\d[\d_]*$/.test(bare)) {
+    return Number(bare.replace(/_/g, ''));
+  }
+
+  throw new BuildConfigParseError(
+    `Unsupported value on line ${lineNumber}. Use a quoted string, integer, or boolean.`,
+    fileName,
+  );
+};
+
+/**
+ * Minimal TOML reader for the flat key/value layout apployd.toml uses.
+ * Tables and arrays are rejected so unsupported files fail loudly instead of being half-read.
+ */
+const parseFlatToml = (source: string, fileName: BuildConfigFileName): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  const lines = source.split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return;
+    }
+    if (trimmed.startsWith('[')) {
+      throw new BuildConfigParseError(
+        `Tables are not supported (line ${lineNumber}). Declare settings at the top level.`,
+        fileName,
+      );
+    }
+
+    const separator = trimmed.indexOf('=');
+    if (separator <= 0) {
+      throw new BuildConfigParseError(
+        `Invalid line ${lineNumber}. Expected key = value format.`,
+        fileName,
+      );
+    }
+
+    const rawKey = trimmed.slice(0, separator).trim();
+    const key = TOML_KEY_ALIASES[rawKey] ?? rawKey;
+    if (Object.prototype.hasOwnProperty.call(result, key)) {
+      throw new BuildConfigParseError(`Duplicate key "${rawKey}" on line ${lineNumber}.`, fileName);
+    }
+
+    result[key] = parseTomlValue(trimmed.slice(separator + 1).trim(), lineNumber, fileName);
+  });
+
+  return result;
+};
+
+const formatZodIssues = (error: z.ZodError): string =>
+  error.issues
+    .map((issue) => {
+      if (issue.code === 'unrecognized_keys') {
+        return `unknown key(s) ${issue.keys.map((key) => `"${key}"`).join(', ')}`;
+      }
+      const path = issue.path.join('.');
+      return path ? `${path} ${issue.message.toLowerCase()}` : issue.message;
+    })
+    .join('; ');
+
+export const parseBuildConfigFile = (
+  fileName: BuildConfigFileName,
+  source: string,
+): RepositoryBuildConfig => {
+  if (Buffer.byteLength(source, 'utf8') > MAX_BUILD_CONFIG_BYTES) {
+    throw new BuildConfigParseError('File is larger than 64KB.', fileName);
+  }
+
+  const normalized = source.replace(/^\uFEFF/, '');
+  let raw: unknown;
+  if (fileName === 'apployd.json') {
+    try {
+      raw = JSON.parse(normalized);
+    } catch (error) {
+      throw new BuildConfigParseError(`Invalid JSON: ${(error as Error).message}`, fileName);
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new BuildConfigParseError('Expected a JSON object at the top level.', fileName);
+    }
+  } else {
+    raw = parseFlatToml(normalized, fileName);
+  }
+
+  const parsed = buildConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new BuildConfigParseError(formatZodIssues(parsed.error), fileName);
+  }
+
+  const { $schema: _schema, ...config } = parsed.data;
+  return config;
+};
+
+export const listBuildConfigKeys = (config: RepositoryBuildConfig): BuildConfigKey[] =>
+  (Object.keys(config) as BuildConfigKey[]).filter((key) => config[key] !== undefined);
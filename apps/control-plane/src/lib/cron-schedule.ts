@@ -0,0 +1,197 @@
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Standard cron matches either day field when both are restricted. */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** Long enough to reach the next leap day for `0 0 29 2 *`; impossible dates like `30 2` give up. */
+const MAX_SEARCH_DAYS = 366 * 8;
+
+const parseValue = (value: string, names: string[] | null, offset: number): number | null => {
+  const named = names?.indexOf(value.toLowerCase()) ?? -1;
+  if (named !== -1) {
+    return named + offset;
+  }
+  return /^\d+$/.test(value) ? Number(value) : null;
+};
+
+const parseField = (
+  field: string,
+  min: number,
+  max: number,
+  names: string[] | null = null,
+  nameOffset = min,
+): Set<number> | null => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (!range || extra !== undefined) {
+      return null;
+    }
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      return null;
+    }
+
+    let start: number | null;
+    let end: number | null;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else {
+      const [startText, endText, rest] = range.split('-');
+      if (rest !== undefined || !startText) {
+        return null;
+      }
+      start = parseValue(startText, names, nameOffset);
+      end =
+        endText === undefined
+          ? stepText === undefined
+            ? start
+            : max
+          : parseValue(endText, names, nameOffset);
+    }
+
+    if (start === null || end === null || start < min || end > max || start > end) {
+      return null;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values.size ? values : null;
+};
+
+/**
+ * Parses a five-field cron expression (`minute hour day-of-month month day-of-week`)
+ * or one of the `@daily` style macros. Day-of-week accepts 0-7 with both 0 and 7
+ * meaning Sunday, and month/day names such as `jan` or `mon`.
+ */
+export const parseCronSchedule = (expression: string): CronSchedule | null => {
+  const normalized = expression.trim().replace(/\s+/g, ' ');
+  const fields = (MACROS[normalized.toLowerCase()] ?? normalized).split(' ');
+  if (fields.length !== 5) {
+    return null;
+  }
+
+  const [minuteField, hourField, dayOfMonthField, monthField, dayOfWeekField] = fields as [
+    string,
+    string,
+    string,
+    string,
+    string,
+  ];
+  const minutes = parseField(minuteField, 0, 59);
+  const hours = parseField(hourField, 0, 23);
+  const daysOfMonth = parseField(dayOfMonthField, 1, 31);
+  const months = parseField(monthField, 1, 12, MONTH_NAMES, 1);
+  const daysOfWeek = parseField(dayOfWeekField, 0, 7, DAY_NAMES, 0);
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+    return null;
+  }
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !dayOfMonthField.startsWith('*'),
+    dayOfWeekRestricted: !dayOfWeekField.startsWith('*'),
+  };
+};
+
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  if (!schedule.months.has(date.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+};
+
+/** First UTC minute strictly after `after` that the schedule fires at, or null if none exists. */
+export const nextCronOccurrence = (schedule: CronSchedule, after: Date): Date | null => {
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  const hours = [...schedule.hours].sort((a, b) => a - b);
+  const minutes = [...schedule.minutes].sort((a, b) => a - b);
+
+  for (let day = 0; day <= MAX_SEARCH_DAYS; day += 1) {
+    if (matchesDay(schedule, candidate)) {
+      for (const hour of hours) {
+        if (hour < candidate.getUTCHours()) {
+          continue;
+        }
+        const minMinute = hour === candidate.getUTCHours() ? candidate.getUTCMinutes() : 0;
+        const minute = minutes.find((value) => value >= minMinute);
+        if (minute !== undefined) {
+          return new Date(
+            Date.UTC(
+              candidate.getUTCFullYear(),
+              candidate.getUTCMonth(),
+              candidate.getUTCDate(),
+              hour,
+              minute,
+            ),
+          );
+        }
+      }
+    }
+
+    candidate.setUTCDate(candidate.getUTCDate() + 1);
+    candidate.setUTCHours(0, 0, 0, 0);
+  }
+
+  return null;
+};
+
+/** Parses `expression` and returns its next run after `after`; null when invalid or unsatisfiable. */
+export const resolveNextCronRun = (expression: string, after: Date): Date | null => {
+  const schedule = parseCronSchedule(expression);
+  return schedule ? nextCronOccurrence(schedule, after) : null;
+};
@@ -0,0 +1,87 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const algorithm = 'aes-256-gcm';
+const KEY_BYTES = 32;
+
+export interface SealedValue {
+  ciphertext: string;
+  iv: string;
+  authTag: string;
+}
+
+/** AES-256-GCM with a fresh IV; every field is base64. */
+export const sealWithKey = (key: Buffer, plaintext: Buffer): SealedValue => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(algorithm, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return {
+    ciphertext: ciphertext.toString('base64'),
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+  };
+};
+
+export const openWithKey = (key: Buffer, sealed: SealedValue): Buffer => {
+  const decipher = createDecipheriv(algorithm, key, Buffer.from(sealed.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(sealed.authTag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(sealed.ciphertext, 'base64')),
+    decipher.final(),
+  ]);
+};
+
+/** Fresh key material, hex encoded like `openssl rand -hex 32`. */
+export const generateKeyMaterial = (): string => randomBytes(KEY_BYTES).toString('hex');
+
+export const generateDataKey = (): Buffer => randomBytes(KEY_BYTES);
+
+/**
+ * Parses `ENCRYPTION_MASTER_KEYS`: comma-separated `<version>:<64 hex chars>`
+ * entries, e.g. `1:ab12...,2:cd34...`. Old versions stay listed until every
+ * data key has been re-wrapped under the current one.
+ */
+export const parseMasterKeys = (raw: string): Map<number, Buffer> => {
+  const keys = new Map<number, Buffer>();
+  const entries = raw
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+  for (const entry of entries) {
+    const match = /^(\d+):([0-9a-fA-F]{64})$/.exec(entry);
+    if (!match) {
+      throw new Error(
+        'ENCRYPTION_MASTER_KEYS entries must look like <version>:<64 hex characters>',
+      );
+    }
+    const version = Number(match[1]);
+    if (version < 1 || keys.has(version)) {
+      throw new Error(`ENCRYPTION_MASTER_KEYS has an invalid or repeated version ${version}`);
+    }
+    keys.set(version, Buffer.from(match[2]!, 'hex'));
+  }
+  if (keys.size === 0) {
+    throw new Error('ENCRYPTION_MASTER_KEYS lists no keys');
+  }
+  return keys;
+};
+
+/** Master key version of `ENCRYPTION_KEY`, which wrapped the first data keys. */
+export const LEGACY_MASTER_KEY_VERSION = 1;
+
+/**
+ * The master key ring: `ENCRYPTION_KEY` as version 1 plus the listed keys.
+ * The list may not define version 1 itself; a different key there would
+ * leave every data key wrapped under `ENCRYPTION_KEY` unreadable.
+ */
+export const buildMasterKeyRing = (
+  legacyKey: Buffer,
+  rawMasterKeys: string | undefined,
+): Map<number, Buffer> => {
+  const listed = rawMasterKeys ? parseMasterKeys(rawMasterKeys) : new Map<number, Buffer>();
+  if (listed.has(LEGACY_MASTER_KEY_VERSION)) {
+    throw new Error(
+      `ENCRYPTION_MASTER_KEYS may not define version ${LEGACY_MASTER_KEY_VERSION}: that version is always ENCRYPTION_KEY. Number new master keys from 2.`,
+    );
+  }
+  return new Map([[LEGACY_MASTER_KEY_VERSION, legacyKey], ...listed]);
+};
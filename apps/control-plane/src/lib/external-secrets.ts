@@ -0,0 +1,207 @@
+const REFERENCE_PATTERN = /^([a-z][a-z0-9+.-]*):\/\/([^?#]+)(?:\?version=(\d+))?#(.+)$/;
+const VAULT_REQUEST_TIMEOUT_MS = 10_000;
+
+/** A secret value stored as a pointer into an external store, e.g. `vault://kv/data/app#DB_PASSWORD`. */
+export interface SecretReference {
+  raw: string;
+  scheme: string;
+  /** Store path without leading or trailing slashes */
+  path: string;
+  field: string;
+  /** Pinned store version; the latest when absent */
+  version?: number;
+}
+
+export class SecretReferenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretReferenceError';
+  }
+}
+
+export interface ExternalSecretProvider {
+  /** URL scheme of the references this provider reads, e.g. `vault` */
+  readonly scheme: string;
+  /** Rejects paths the store cannot address, before anything is saved. */
+  validatePath(path: string): string | null;
+  /** Every field stored at `path`. Throws SecretReferenceError for anything the user can fix. */
+  read(path: string, version?: number): Promise<Record<string, unknown>>;
+}
+
+export const parseSecretReference = (raw: string): SecretReference => {
+  const match = REFERENCE_PATTERN.exec(raw.trim());
+  if (!match) {
+    throw new SecretReferenceError(
+      `${raw} is not a secret reference; expected <scheme>://<path>#<field>`,
+    );
+  }
+  const [, scheme, rawPath, version, field] = match;
+  const path = rawPath!.replace(/^\/+|\/+$/g, '');
+  if (!path || path.split('/').some((segment) => segment === '' || segment === '..')) {
+    throw new SecretReferenceError(`${raw} has an invalid path`);
+  }
+  return {
+    raw: raw.trim(),
+    scheme: scheme!,
+    path,
+    field: field!,
+    ...(version && { version: Number(version) }),
+  };
+};
+
+/**
+ * HashiCorp Vault KV version 2. References name the API path, mount first:
+ * `vault://kv/data/app#DB_PASSWORD` reads field DB_PASSWORD of secret `app` in
+ * the `kv` mount; `?version=3` before the `#` pins a version.
+ */
+export class VaultKvProvider implements ExternalSecretProvider {
+  readonly scheme = 'vault';
+
+  constructor(
+    private readonly options: {
+      address: string;
+      token: string;
+      namespace?: string;
+    },
+  ) {}
+
+  validatePath(path: string): string | null {
+    const [mount, data, ...rest] = path.split('/');
+    return mount && data === 'data' && rest.length > 0
+      ? null
+      : `Vault KV v2 paths read through the data endpoint: <mount>/data/<path> (got ${path})`;
+  }
+
+  async read(path: string, version?: number): Promise<Record<string, unknown>> {
+    const url = new URL(`v1/${path}`, `${this.options.address.replace(/\/+$/, '')}/`);
+    if (version !== undefined) {
+      url.searchParams.set('version', String(version));
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          'X-Vault-Token': this.options.token,
+          ...(this.options.namespace && { 'X-Vault-Namespace': this.options.namespace }),
+          Accept: 'application/json',
+        },
+        signal: AbortSignal.timeout(VAULT_REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new SecretReferenceError(`Vault is unreachable: ${(error as Error).message}`);
+    }
+
+    const payload = (await response.json().catch(() => null)) as {
+      data?: { data?: Record<string, unknown> | null };
+      errors?: string[];
+    } | null;
+
+    if (response.status === 404) {
+      throw new SecretReferenceError(
+        `Vault has no secret at ${path}${version !== undefined ? ` version ${version}` : ''}`,
+      );
+    }
+    if (response.status === 403) {
+      throw new SecretReferenceError(`Vault denied reading ${path}; check the token's policy`);
+    }
+    if (!response.ok) {
+      const detail = payload?.errors?.filter(Boolean).join('; ');
+      throw new SecretReferenceError(
+        `Vault returned ${response.status} for ${path}${detail ? `: ${detail}` : ''}`,
+      );
+    }
+
+    const data = payload?.data?.data;
+    if (!data) {
+      // KV v2 answers deleted or destroyed versions with null data.
+      throw new SecretReferenceError(`The Vault secret at ${path} is deleted`);
+    }
+    return data;
+  }
+}
+
+/**
+ * Resolves references through the configured providers. Each path is read
+ * once per resolver, so create one per deployment rather than sharing it:
+ * values are never cached beyond that.
+ */
+export class ExternalSecretResolver {
+  private readonly providers: Map<string, ExternalSecretProvider>;
+
+  private readonly reads = new Map<string, Promise<Record<string, unknown>>>();
+
+  constructor(providers: ExternalSecretProvider[]) {
+    this.providers = new Map(providers.map((provider) => [provider.scheme, provider]));
+  }
+
+  /** Parses `raw` and checks a provider can read it; throws SecretReferenceError otherwise. */
+  validate(raw: string): SecretReference {
+    const reference = parseSecretReference(raw);
+    const provider = this.providers.get(reference.scheme);
+    if (!provider) {
+      throw new SecretReferenceError(
+        `No ${reference.scheme}:// secret store is configured on this control plane`,
+      );
+    }
+    const pathError = provider.validatePath(reference.path);
+    if (pathError) {
+      throw new SecretReferenceError(pathError);
+    }
+    return reference;
+  }
+
+  async resolve(raw: string): Promise<string> {
+    const reference = this.validate(raw);
+    const provider = this.providers.get(reference.scheme)!;
+    const readKey = `${reference.scheme}://${reference.path}?${reference.version ?? ''}`;
+    let read = this.reads.get(readKey);
+    if (!read) {
+      read = provider.read(reference.path, reference.version);
+      this.reads.set(readKey, read);
+    }
+
+    const value = (await read)[reference.field];
+    if (value === undefined || value === null) {
+      throw new SecretReferenceError(`${reference.path} has no field ${reference.field}`);
+    }
+    if (typeof value === 'object') {
+      throw new SecretReferenceError(
+        `${reference.path} field ${reference.field} is not a string value`,
+      );
+    }
+    return String(value);
+  }
+
+  /**
+   * Resolves every entry, reporting all failures in one error so a deployment
+   * names each broken reference at once.
+   */
+  async resolveAll(
+    entries: Array<{ key: string; reference: string }>,
+  ): Promise<Record<string, string>> {
+    const results = await Promise.allSettled(
+      entries.map(async (entry) => [entry.key, await this.resolve(entry.reference)] as const),
+    );
+
+    const failures = results.flatMap((result, index) => {
+      if (result.status === 'fulfilled') {
+        return [];
+      }
+      if (!(result.reason instanceof SecretReferenceError)) {
+        throw result.reason;
+      }
+      const entry = entries[index]!;
+      return [`${entry.key} (${entry.reference}): ${result.reason.message}`];
+    });
+    if (failures.length > 0) {
+      throw new SecretReferenceError(
+        `${failures.length === 1 ? 'A secret reference' : `${failures.length} secret references`} did not resolve: ${failures.join('; ')}`,
+      );
+    }
+
+    return Object.fromEntries(
+      results.map((result) => (result as PromiseFulfilledResult<readonly [string, string]>).value),
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { z } from 'zod';
+
+export const EXTERNAL_GIT_PROVIDERS = ['gitlab', 'bitbucket'] as const;
+
+export type ExternalGitProvider = (typeof EXTERNAL_GIT_PROVIDERS)[number];
+
+export type GitProvider = 'github' | ExternalGitProvider;
+
+export const gitProviderSchema = z.enum(['github', ...EXTERNAL_GIT_PROVIDERS]);
+
+export const GIT_PROVIDER_LABELS: Record<GitProvider, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+};
+
+export const GITLAB_CLOUD_BASE_URL = 'https://gitlab.com';
+
+export const BITBUCKET_CLOUD_BASE_URL = 'https://bitbucket.org';
+
+export const isExternalGitProvider = (
+  value: string | null | undefined,
+): value is ExternalGitProvider =>
+  (EXTERNAL_GIT_PROVIDERS as readonly string[]).includes(value ?? '');
+
+export interface RepoPath {
+  host: string;
+  /** Full repository path; GitLab namespaces may be nested (`group/subgroup/app`). */
+  fullName: string;
+  owner: string;
+  name: string;
+}
+
+/**
+ * Normalizes a GitLab instance URL to its web root, accepting values pasted
+ * with a trailing slash or the `/api/v4` suffix.
+ */
+export const normalizeGitLabBaseUrl = (value: string | undefined): string => {
+  const trimmed = value?.trim() || GITLAB_CLOUD_BASE_URL;
+  const parsed = new URL(trimmed);
+  if (parsed.protocol !== 'https:') {
+    throw new Error('GitLab base URL must use https://.');
+  }
+
+  const pathname = parsed.pathname.replace(/\/+$/, '').replace(/\/api\/v4$/i, '');
+  return `${parsed.origin}${pathname}`;
+};
+
+export const splitRepoFullName = (fullName: string): { owner: string; name: string } | null => {
+  const segments = fullName.trim().split('/').filter(Boolean);
+  const name = segments.pop();
+  if (!name || segments.length === 0) {
+    return null;
+  }
+  return { owner: segments.join('/'), name };
+};
+
+/** Parses HTTPS and scp-style SSH clone URLs of any host into a repository path. */
+export const parseRepoPathFromGitUrl = (value: string): RepoPath | null => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  let host: string;
+  let path: string;
+  const sshMatch = trimmed.match(/^git@([^:]+):(.+)$/i);
+  if (sshMatch) {
+    host = sshMatch[1]!.toLowerCase();
+    path = sshMatch[2]!;
+  } else {
+    let parsed: URL;
+    try {
+      parsed = new URL(trimmed);
+    } catch {
+      return null;
+    }
+    host = parsed.host.toLowerCase();
+    path = parsed.pathname;
+  }
+
+  const fullName = path.replace(/^\/+|\/+$/g, '').replace(/\.git$/i, '');
+  const parts = splitRepoFullName(fullName);
+  if (!parts) {
+    return null;
+  }
+
+  return { host, fullName, ...parts };
+};
+
+/** Every spelling of a repository URL a project may have been saved with. */
+export const buildRepoUrlCandidates = (input: {
+  host: string;
+  fullName: string;
+  cloneUrls?: string[];
+}): string[] => {
+  const urls = new Set<string>();
+  for (const cloneUrl of input.cloneUrls ?? []) {
+    const trimmed = cloneUrl.trim();
+    if (trimmed) {
+      urls.add(trimmed);
+      urls.add(trimmed.replace(/\.git$/i, ''));
+    }
+  }
+
+  const fullName = input.fullName.trim().replace(/^\/+|\/+$/g, '');
+  if (fullName) {
+    urls.add(`https://${input.host}/${fullName}.git`);
+    urls.add(`https://${input.host}/${fullName}`);
+    urls.add(`git@${input.host}:${fullName}.git`);
+    urls.add(`git@${input.host}:${fullName}`);
+  }
+
+  return Array.from(urls);
+};
+
+/**
+ * HTTP basic-auth user name paired with the token for private clones. GitLab
+ * accepts any user name with a personal access token; Bitbucket app passwords
+ * only work with the account's own user name.
+ */
+export const resolveGitCloneUsername = (provider: GitProvider, username: string): string => {
+  switch (provider) {
+    case 'github':
+      return 'x-access-token';
+    case 'gitlab':
+      return 'oauth2';
+    case 'bitbucket':
+      return username;
+  }
+};
+
+/** Repository identity for GitLab and Bitbucket projects, keeping nested GitLab namespaces intact. */
+export const resolveExternalRepoIdentity = (input: {
+  repoOwner?: string | undefined;
+  repoName?: string | undefined;
+  repoFullName?: string | undefined;
+  repoUrl?: string | undefined;
+}): { owner: string; name: string } | null => {
+  if (input.repoOwner?.trim() && input.repoName?.trim()) {
+    return { owner: input.repoOwner.trim(), name: input.repoName.trim() };
+  }
+
+  if (input.repoFullName?.trim()) {
+    return splitRepoFullName(input.repoFullName);
+  }
+
+  const parsed = parseRepoPathFromGitUrl(input.repoUrl ?? '');
+  return parsed ? { owner: parsed.owner, name: parsed.name } : null;
+};
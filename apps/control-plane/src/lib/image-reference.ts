@@ -0,0 +1,94 @@
+export const DOCKER_HUB_REGISTRY = 'docker.io';
+
+export interface ImageReference {
+  /** Registry host, `docker.io` for Docker Hub images. */
+  registry: string;
+  /** Repository path within the registry (`library/nginx`, `org/app`). */
+  repository: string;
+  tag?: string;
+  /** `sha256:<hex>` when the reference is pinned to a digest. */
+  digest?: string;
+}
+
+const DIGEST_PATTERN = /^sha256:[a-f0-9]{64}$/;
+const TAG_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/;
+const PATH_COMPONENT_PATTERN = /^[a-z0-9]+(?:(?:[._]|__|-+)[a-z0-9]+)*$/;
+const REGISTRY_PATTERN = /^(?:localhost|[a-z0-9-]+(?:\.[a-z0-9-]+)+|\[[0-9a-f:]+\])(?::\d{1,5})?$/i;
+
+/**
+ * Parses `[registry/]repository[:tag][@sha256:digest]` using Docker's rules: the
+ * first path component is a registry only when it looks like a host.
+ */
+export const parseImageReference = (value: string): ImageReference | null => {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.length > 512 || /\s/.test(trimmed)) {
+    return null;
+  }
+
+  let remainder = trimmed;
+  let digest: string | undefined;
+  const digestIndex = remainder.indexOf('@');
+  if (digestIndex !== -1) {
+    digest = remainder.slice(digestIndex + 1);
+    remainder = remainder.slice(0, digestIndex);
+    if (!DIGEST_PATTERN.test(digest)) {
+      return null;
+    }
+  }
+
+  let tag: string | undefined;
+  const lastSlash = remainder.lastIndexOf('/');
+  const tagIndex = remainder.lastIndexOf(':');
+  if (tagIndex > lastSlash) {
+    tag = remainder.slice(tagIndex + 1);
+    remainder = remainder.slice(0, tagIndex);
+    if (!TAG_PATTERN.test(tag)) {
+      return null;
+    }
+  }
+
+  const components = remainder.split('/');
+  const first = components[0] ?? '';
+  const hasRegistry =
+    components.length > 1 && (first.includes('.') || first.includes(':') || first === 'localhost');
+  const registry = hasRegistry ? first.toLowerCase() : DOCKER_HUB_REGISTRY;
+  const pathComponents = hasRegistry ? components.slice(1) : components;
+
+  if (hasRegistry && !REGISTRY_PATTERN.test(registry)) {
+    return null;
+  }
+  if (
+    !pathComponents.length ||
+    !pathComponents.every((part) => PATH_COMPONENT_PATTERN.test(part))
+  ) {
+    return null;
+  }
+
+  const repository =
+    registry === DOCKER_HUB_REGISTRY && pathComponents.length === 1
+      ? `library/${pathComponents[0]}`
+      : pathComponents.join('/');
+
+  return {
+    registry,
+    repository,
+    ...(tag && { tag }),
+    ...(digest && { digest }),
+  };
+};
+
+/** Registry host without a port, for private-host checks. */
+export const registryHostname = (registry: string): string => {
+  const bracketed = registry.match(/^\[([^\]]+)\]/);
+  return bracketed?.[1] ?? registry.replace(/:\d+$/, '');
+};
+
+/** Docker Hub is reachable under several names; everything else compares case-insensitively. */
+export const normalizeRegistryHost = (value: string): string => {
+  const host = value
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/\/.*$/, '');
+  return host === 'index.docker.io' || host === 'registry-1.docker.io' ? DOCKER_HUB_REGISTRY : host;
+};
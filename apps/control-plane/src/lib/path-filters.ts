@@ -0,0 +1,133 @@
+import { z } from 'zod';
+
+/**
+ * GitHub only lists the first 20 commits of a push in the webhook payload, so
+ * a push at that size may have touched files we never see.
+ */
+export const GITHUB_PUSH_COMMIT_LIMIT = 20;
+
+const MAX_PATH_FILTERS = 50;
+
+const pathGlobSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(200)
+  .refine((value) => !value.startsWith('/') && !value.split('/').includes('..'), {
+    message: 'must be a glob relative to the repository root',
+  });
+
+export const pathFiltersSchema = z.array(pathGlobSchema).max(MAX_PATH_FILTERS);
+
+export interface PathFilterInput {
+  includePaths: string[];
+  excludePaths: string[];
+  /** Files changed by the push, or null when the list is unavailable or truncated. */
+  changedFiles: string[] | null;
+}
+
+export interface PathFilterDecision {
+  deploy: boolean;
+  reason: string;
+  matchedFiles: string[];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Converts a path glob to a RegExp. `**` spans directories, `*` and `?` stay
+ * within one segment. Patterns without wildcards match the path itself and
+ * everything below it, so `apps/api` behaves like `apps/api/**`.
+ */
+export const pathGlobToRegExp = (pattern: string): RegExp => {
+  const normalized = pattern.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+  if (!/[*?]/.test(normalized)) {
+    return new RegExp(`^${escapeRegExp(normalized)}(?:/.*)?$`);
+  }
+
+  let source = '';
+  for (let index = 0; index < normalized.length; index += 1) {
+    const char = normalized[index]!;
+    if (char === '*' && normalized[index + 1] === '*') {
+      const followedBySlash = normalized[index + 2] === '/';
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      index += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+};
+
+export const matchesAnyPathGlob = (path: string, patterns: string[]): boolean =>
+  patterns.some((pattern) => pathGlobToRegExp(pattern).test(path));
+
+/**
+ * Decides whether a push affects a project. A changed file is relevant when it
+ * matches an include glob (or there are none) and no exclude glob. Unknown file
+ * lists always deploy, since skipping a real change is worse than a spare build.
+ */
+export const evaluatePathFilters = (input: PathFilterInput): PathFilterDecision => {
+  if (input.includePaths.length === 0 && input.excludePaths.length === 0) {
+    return { deploy: true, reason: 'No path filters configured', matchedFiles: [] };
+  }
+
+  if (!input.changedFiles || input.changedFiles.length === 0) {
+    return {
+      deploy: true,
+      reason: 'Changed files unavailable for this push; path filters not applied',
+      matchedFiles: [],
+    };
+  }
+
+  const matchedFiles = input.changedFiles.filter(
+    (file) =>
+      (input.includePaths.length === 0 || matchesAnyPathGlob(file, input.includePaths)) &&
+      !matchesAnyPathGlob(file, input.excludePaths),
+  );
+
+  if (matchedFiles.length > 0) {
+    return {
+      deploy: true,
+      reason: `${matchedFiles.length} changed file(s) match the project path filters`,
+      matchedFiles,
+    };
+  }
+
+  return {
+    deploy: false,
+    reason:
+      input.includePaths.length > 0
+        ? `None of the ${input.changedFiles.length} changed file(s) match include paths (${input.includePaths.join(', ')})${input.excludePaths.length > 0 ? ` outside exclude paths (${input.excludePaths.join(', ')})` : ''}`
+        : `All ${input.changedFiles.length} changed file(s) match exclude paths (${input.excludePaths.join(', ')})`,
+    matchedFiles: [],
+  };
+};
+
+/** Collects the distinct files touched by a GitHub push, or null when the list may be incomplete. */
+export const collectPushChangedFiles = (
+  commits:
+    | Array<{
+        added?: string[] | undefined;
+        removed?: string[] | undefined;
+        modified?: string[] | undefined;
+      }>
+    | undefined,
+): string[] | null => {
+  if (!commits || commits.length === 0 || commits.length >= GITHUB_PUSH_COMMIT_LIMIT) {
+    return null;
+  }
+
+  const files = new Set<string>();
+  for (const commit of commits) {
+    [...(commit.added ?? []), ...(commit.removed ?? []), ...(commit.modified ?? [])].forEach(
+      (file) => files.add(file),
+    );
+  }
+  return [...files];
+};
@@ -0,0 +1,108 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+const isPrivateIpv4 = (host: string): boolean => {
+  const parts = host.split('.').map((part) => Number(part));
+  if (parts.length !== 4 || parts.some((part) => Number.isNaN(part) || part < 0 || part > 255)) {
+    return false;
+  }
+
+  const [a = 0, b = 0] = parts;
+  return (
+    a === 10 ||
+    a === 127 ||
+    a === 0 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+};
+
+/** The IPv4 address inside `::ffff:a.b.c.d` or `::ffff:XXXX:XXXX`, else null. */
+const mappedIpv4 = (host: string): string | null => {
+  const normalized = host.replace(/^(0{1,4}:){5}ffff:/, '::ffff:');
+  const dotted = /^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/.exec(normalized);
+  if (dotted) {
+    return dotted[1]!;
+  }
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(normalized);
+  if (!hex) {
+    return null;
+  }
+  const high = parseInt(hex[1]!, 16);
+  const low = parseInt(hex[2]!, 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+};
+
+const isPrivateIpv6 = (host: string): boolean => {
+  const normalized = host.toLowerCase();
+  const ipv4 = mappedIpv4(normalized);
+  if (ipv4) {
+    return isPrivateIpv4(ipv4);
+  }
+  return (
+    normalized === '::' ||
+    normalized === '::1' ||
+    /^fe[89ab]/.test(normalized) ||
+    normalized.startsWith('fc') ||
+    normalized.startsWith('fd')
+  );
+};
+
+/** URL hostnames keep IPv6 literals in brackets. */
+const normalizeHost = (hostInput: string): string =>
+  hostInput
+    .trim()
+    .toLowerCase()
+    .replace(/^\[(.*)\]$/, '$1');
+
+/** Loopback, link-local, RFC 1918, CGNAT and internal-only names that user-supplied hosts must not point at. */
+export const isPrivateHost = (hostInput: string): boolean => {
+  const host = normalizeHost(hostInput);
+  if (!host) {
+    return true;
+  }
+
+  if (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host === 'host.docker.internal' ||
+    host.endsWith('.internal')
+  ) {
+    return true;
+  }
+
+  const ipKind = isIP(host);
+  if (ipKind === 4) {
+    return isPrivateIpv4(host);
+  }
+  if (ipKind === 6) {
+    return isPrivateIpv6(host);
+  }
+
+  return false;
+};
+
+/**
+ * `isPrivateHost` plus every address the name resolves to, so a public name
+ * pointing at 127.0.0.1 or 10.x is caught too. Fails closed: a name that
+ * does not resolve cannot be shown to be public.
+ */
+export const resolvesToPrivateHost = async (hostInput: string): Promise<boolean> => {
+  const host = normalizeHost(hostInput);
+  if (isPrivateHost(host)) {
+    return true;
+  }
+  if (isIP(host)) {
+    return false;
+  }
+
+  try {
+    const addresses = await lookup(host, { all: true });
+    return addresses.length === 0 || addresses.some(({ address }) => isPrivateHost(address));
+  } catch {
+    return true;
+  }
+};
@@ -1,39 +1,153 @@
-import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
-
 import { env } from '../config/env.js';
 
-const algorithm = 'aes-256-gcm';
+import {
+  LEGACY_MASTER_KEY_VERSION,
+  buildMasterKeyRing,
+  generateDataKey,
+  openWithKey,
+  sealWithKey,
+} from './envelope-encryption.js';
+import { prisma } from './prisma.js';
+
+/** Encrypted every credential before envelope encryption; still opens rows without a keyId. */
+const legacyKey = Buffer.from(env.ENCRYPTION_KEY, 'utf8').subarray(0, 32);
+
+/**
+ * Master keys by version. ENCRYPTION_KEY is always version 1, so existing
+ * installs need no new configuration and a first rotation only adds version 2.
+ */
+const masterKeys = buildMasterKeyRing(legacyKey, env.ENCRYPTION_MASTER_KEYS);
+
+/** Version new data keys are wrapped with; the highest listed unless pinned. */
+export const currentMasterKeyVersion =
+  env.ENCRYPTION_MASTER_KEY_VERSION ?? Math.max(...masterKeys.keys());
+
+if (!masterKeys.has(currentMasterKeyVersion)) {
+  throw new Error(
+    `ENCRYPTION_MASTER_KEY_VERSION ${currentMasterKeyVersion} is not listed in ENCRYPTION_MASTER_KEYS`,
+  );
+}
+
+export const configuredMasterKeyVersions = [...masterKeys.keys()].sort((a, b) => a - b);
 
-const key = Buffer.from(env.ENCRYPTION_KEY, 'utf8').subarray(0, 32);
+/** Versions listed in ENCRYPTION_MASTER_KEYS, i.e. the ones an operator can remove. */
+export const listedMasterKeyVersions = configuredMasterKeyVersions.filter(
+  (version) => version !== LEGACY_MASTER_KEY_VERSION,
+);
 
 export interface EncryptedPayload {
   encryptedValue: string;
   iv: string;
   authTag: string;
+  /** DataEncryptionKey the value is sealed with; null for values still under ENCRYPTION_KEY */
+  keyId: string | null;
 }
 
-export const encryptSecret = (value: string): EncryptedPayload => {
-  const iv = randomBytes(12);
-  const cipher = createCipheriv(algorithm, key, iv);
+export interface WrappedDataKey {
+  wrappedKey: string;
+  iv: string;
+  authTag: string;
+  masterKeyVersion: number;
+}
 
-  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
-  const authTag = cipher.getAuthTag();
+/** Unwrapped data keys by id. Re-wrapping changes how a key is stored, never its bytes. */
+const dataKeys = new Map<string, Promise<Buffer>>();
+/** Data key that encrypts new values, per organization id ('' for the platform key). */
+const currentDataKeyIds = new Map<string, Promise<string>>();
 
+const masterKey = (version: number): Buffer => {
+  const key = masterKeys.get(version);
+  if (!key) {
+    throw new Error(
+      `Master key version ${version} is not configured; add it back to ENCRYPTION_MASTER_KEYS`,
+    );
+  }
+  return key;
+};
+
+export const wrapDataKey = (key: Buffer): WrappedDataKey => {
+  const sealed = sealWithKey(masterKey(currentMasterKeyVersion), key);
   return {
-    encryptedValue: encrypted.toString('base64'),
-    iv: iv.toString('base64'),
-    authTag: authTag.toString('base64'),
+    wrappedKey: sealed.ciphertext,
+    iv: sealed.iv,
+    authTag: sealed.authTag,
+    masterKeyVersion: currentMasterKeyVersion,
   };
 };
 
-export const decryptSecret = (payload: EncryptedPayload): string => {
-  const decipher = createDecipheriv(algorithm, key, Buffer.from(payload.iv, 'base64'));
-  decipher.setAuthTag(Buffer.from(payload.authTag, 'base64'));
+export const unwrapDataKey = (wrapped: WrappedDataKey): Buffer =>
+  openWithKey(masterKey(wrapped.masterKeyVersion), {
+    ciphertext: wrapped.wrappedKey,
+    iv: wrapped.iv,
+    authTag: wrapped.authTag,
+  });
 
-  const decrypted = Buffer.concat([
-    decipher.update(Buffer.from(payload.encryptedValue, 'base64')),
-    decipher.final(),
-  ]);
+const loadDataKey = (id: string): Promise<Buffer> => {
+  let key = dataKeys.get(id);
+  if (!key) {
+    key = prisma.dataEncryptionKey.findUnique({ where: { id } }).then((row) => {
+      if (!row) {
+        throw new Error(`Data encryption key ${id} not found`);
+      }
+      return unwrapDataKey(row);
+    });
+    key.catch(() => dataKeys.delete(id));
+    dataKeys.set(id, key);
+  }
+  return key;
+};
+
+/** The owner's newest data key, created on first use. */
+const currentDataKeyId = (organizationId: string | null): Promise<string> => {
+  const owner = organizationId ?? '';
+  let id = currentDataKeyIds.get(owner);
+  if (!id) {
+    id = (async () => {
+      const existing = await prisma.dataEncryptionKey.findFirst({
+        where: { organizationId },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true },
+      });
+      if (existing) {
+        return existing.id;
+      }
+      const key = generateDataKey();
+      const created = await prisma.dataEncryptionKey.create({
+        data: { organizationId, ...wrapDataKey(key) },
+        select: { id: true },
+      });
+      dataKeys.set(created.id, Promise.resolve(key));
+      return created.id;
+    })();
+    id.catch(() => currentDataKeyIds.delete(owner));
+    currentDataKeyIds.set(owner, id);
+  }
+  return id;
+};
+
+/**
+ * Encrypts a credential with the data key of `organizationId`, or with the
+ * platform key (null) for credentials that belong to a user.
+ */
+export const encryptSecret = async (
+  value: string,
+  organizationId: string | null,
+): Promise<EncryptedPayload> => {
+  const keyId = await currentDataKeyId(organizationId);
+  const sealed = sealWithKey(await loadDataKey(keyId), Buffer.from(value, 'utf8'));
+  return {
+    encryptedValue: sealed.ciphertext,
+    iv: sealed.iv,
+    authTag: sealed.authTag,
+    keyId,
+  };
+};
 
-  return decrypted.toString('utf8');
+export const decryptSecret = async (payload: EncryptedPayload): Promise<string> => {
+  const key = payload.keyId ? await loadDataKey(payload.keyId) : legacyKey;
+  return openWithKey(key, {
+    ciphertext: payload.encryptedValue,
+    iv: payload.iv,
+    authTag: payload.authTag,
+  }).toString('utf8');
 };
@@ -10,6 +10,8 @@ const SERIALIZATION_FAILURE_CODE = 'P2034';
 interface RetryOptions {
   maxAttempts?: number;
   backoffMs?: number;
+  /** Overrides Prisma's 5 second limit for transactions that write many rows */
+  timeoutMs?: number;
 }
 
 interface ErrorWithCode {
@@ -43,6 +45,7 @@ export async function withSerializableRetry<T>(
     try {
       return await prisma.$transaction(operation, {
         isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+        ...(options.timeoutMs !== undefined && { timeout: options.timeoutMs }),
       });
     } catch (error) {
       const shouldRetry = isSerializableRetryableError(error) && attempt < maxAttempts;
@@ -0,0 +1,401 @@
+import type { FastifyPluginAsync } from 'fastify';
+
+import { z } from 'zod';
+
+import { parseCronSchedule, resolveNextCronRun } from '../../lib/cron-schedule.js';
+import { prisma } from '../../lib/prisma.js';
+import { AccessService } from '../../services/access-service.js';
+import { AuditLogService } from '../../services/audit-log-service.js';
+import { CronJobError, CronJobService } from '../../services/cron-job-service.js';
+import {
+  DeploymentRequestError,
+  assertSafeDeploymentCommand,
+} from '../../services/deployment-request-service.js';
+
+type OrganizationRole = 'viewer' | 'developer';
+
+const projectParamsSchema = z.object({
+  projectId: z.string().cuid(),
+});
+
+const cronJobParamsSchema = z.object({
+  cronJobId: z.string().cuid(),
+});
+
+const runParamsSchema = z.object({
+  runId: z.string().cuid(),
+});
+
+const scheduleSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(120)
+  .refine(
+    (value) => parseCronSchedule(value) !== null,
+    'Schedule must be a five-field cron expression (UTC) or a macro such as @daily',
+  )
+  .refine((value) => resolveNextCronRun(value, new Date()) !== null, 'Schedule never fires');
+
+const createCronJobSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .max(63)
+    .regex(/^[a-z0-9][a-z0-9-]*$/, 'Name must be lowercase letters, digits, and dashes'),
+  schedule: scheduleSchema,
+  command: z.string().trim().min(1).max(2000),
+  enabled: z.boolean().default(true),
+  timeoutSeconds: z.number().int().min(10).max(86_400).default(900),
+});
+
+// Partial fields are plain optionals, so defaults from the create schema do not apply on update.
+const updateCronJobSchema = createCronJobSchema.omit({ name: true }).partial();
+
+const runsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const runSummarySelect = {
+  id: true,
+  trigger: true,
+  status: true,
+  exitCode: true,
+  durationMs: true,
+  errorMessage: true,
+  deploymentId: true,
+  startedAt: true,
+  finishedAt: true,
+  createdAt: true,
+} as const;
+
+const cronJobSelect = {
+  id: true,
+  projectId: true,
+  name: true,
+  schedule: true,
+  command: true,
+  enabled: true,
+  timeoutSeconds: true,
+  nextRunAt: true,
+  lastRunAt: true,
+  createdAt: true,
+  updatedAt: true,
+  runs: {
+    orderBy: { createdAt: 'desc' },
+    take: 1,
+    select: runSummarySelect,
+  },
+} as const;
+
+export const cronJobRoutes: FastifyPluginAsync = async (app) => {
+  const access = new AccessService();
+  const audit = new AuditLogService();
+  const cronJobs = new CronJobService();
+
+  const authorize = async (userId: string, organizationId: string, role: OrganizationRole) => {
+    try {
+      await access.requireOrganizationRole(userId, organizationId, role);
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  };
+
+  const loadCronJob = (cronJobId: string) =>
+    prisma.cronJob.findUnique({
+      where: { id: cronJobId },
+      select: {
+        id: true,
+        name: true,
+        projectId: true,
+        schedule: true,
+        enabled: true,
+        project: { select: { organizationId: true } },
+      },
+    });
+
+  app.get(
+    '/projects/:projectId/cron-jobs',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectParamsSchema.parse(request.params);
+      const project = await prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: { organizationId: true },
+      });
+      if (!project) {
+        return reply.notFound('Project not found');
+      }
+      const denied = await authorize(user.userId, project.organizationId, 'viewer');
+      if (denied) {
+        return reply.forbidden(denied);
+      }
+
+      const jobs = await prisma.cronJob.findMany({
+        where: { projectId: params.projectId },
+        orderBy: { createdAt: 'asc' },
+        select: cronJobSelect,
+      });
+
+      return {
+        cronJobs: jobs.map(({ runs, ...job }) => ({ ...job, lastRun: runs[0] ?? null })),
+      };
+    },
+  );
+
+  app.post(
+    '/projects/:projectId/cron-jobs',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectParamsSchema.parse(request.params);
+      const body = createCronJobSchema.parse(request.body);
+      const project = await prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: { organizationId: true },
+      });
+      if (!project) {
+        return reply.notFound('Project not found');
+      }
+      const denied = await authorize(user.userId, project.organizationId, 'developer');
+      if (denied) {
+        return reply.forbidden(denied);
+      }
+
+      try {
+        assertSafeDeploymentCommand('command', body.command);
+      } catch (error) {
+        if (error instanceof DeploymentRequestError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        throw error;
+      }
+
+      const existing = await prisma.cronJob.findUnique({
+        where: { projectId_name: { projectId: params.projectId, name: body.name } },
+        select: { id: true },
+      });
+      if (existing) {
+        return reply.conflict(`A cron job named "${body.name}" already exists`);
+      }
+
+      const { runs, ...job } = await prisma.cronJob.create({
+        data: {
+          projectId: params.projectId,
+          name: body.name,
+          schedule: body.schedule,
+          command: body.command,
+          enabled: body.enabled,
+          timeoutSeconds: body.timeoutSeconds,
+          nextRunAt: body.enabled ? resolveNextCronRun(body.schedule, new Date()) : null,
+          createdById: user.userId,
+        },
+        select: cronJobSelect,
+      });
+
+      await audit.record({
+        organizationId: project.organizationId,
+        actorUserId: user.userId,
+        action: 'cron_job.created',
+        entityType: 'cron_job',
+        entityId: job.id,
+        metadata: {
+          projectId: params.projectId,
+          name: job.name,
+          schedule: job.schedule,
+        },
+      });
+
+      return reply.code(201).send({ cronJob: { ...job, lastRun: runs[0] ?? null } });
+    },
+  );
+
+  app.patch('/cron-jobs/:cronJobId', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const user = request.user as { userId: string; email: string };
+    const params = cronJobParamsSchema.parse(request.params);
+    const body = updateCronJobSchema.parse(request.body);
+    const existing = await loadCronJob(params.cronJobId);
+    if (!existing) {
+      return reply.notFound('Cron job not found');
+    }
+    const denied = await authorize(user.userId, existing.project.organizationId, 'developer');
+    if (denied) {
+      return reply.forbidden(denied);
+    }
+
+    if (body.command !== undefined) {
+      try {
+        assertSafeDeploymentCommand('command', body.command);
+      } catch (error) {
+        if (error instanceof DeploymentRequestError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        throw error;
+      }
+    }
+
+    const schedule = body.schedule ?? existing.schedule;
+    const enabled = body.enabled ?? existing.enabled;
+
+    const { runs, ...job } = await prisma.cronJob.update({
+      where: { id: existing.id },
+      data: {
+        ...(body.schedule !== undefined && { schedule: body.schedule }),
+        ...(body.command !== undefined && { command: body.command }),
+        ...(body.enabled !== undefined && { enabled: body.enabled }),
+        ...(body.timeoutSeconds !== undefined && { timeoutSeconds: body.timeoutSeconds }),
+        nextRunAt: enabled ? resolveNextCronRun(schedule, new Date()) : null,
+      },
+      select: cronJobSelect,
+    });
+
+    await audit.record({
+      organizationId: existing.project.organizationId,
+      actorUserId: user.userId,
+      action: 'cron_job.updated',
+      entityType: 'cron_job',
+      entityId: job.id,
+      metadata: {
+        projectId: job.projectId,
+        name: job.name,
+        changes: Object.keys(body),
+      },
+    });
+
+    return { cronJob: { ...job, lastRun: runs[0] ?? null } };
+  });
+
+  app.delete(
+    '/cron-jobs/:cronJobId',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = cronJobParamsSchema.parse(request.params);
+      const existing = await loadCronJob(params.cronJobId);
+      if (!existing) {
+        return reply.notFound('Cron job not found');
+      }
+      const denied = await authorize(user.userId, existing.project.organizationId, 'developer');
+      if (denied) {
+        return reply.forbidden(denied);
+      }
+
+      await prisma.cronJob.delete({ where: { id: existing.id } });
+
+      await audit.record({
+        organizationId: existing.project.organizationId,
+        actorUserId: user.userId,
+        action: 'cron_job.deleted',
+        entityType: 'cron_job',
+        entityId: existing.id,
+        metadata: { projectId: existing.projectId, name: existing.name },
+      });
+
+      return { success: true };
+    },
+  );
+
+  app.post(
+    '/cron-jobs/:cronJobId/runs',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = cronJobParamsSchema.parse(request.params);
+      const existing = await loadCronJob(params.cronJobId);
+      if (!existing) {
+        return reply.notFound('Cron job not found');
+      }
+      const denied = await authorize(user.userId, existing.project.organizationId, 'developer');
+      if (denied) {
+        return reply.forbidden(denied);
+      }
+
+      try {
+        const run = await cronJobs.triggerRun({
+          cronJobId: existing.id,
+          trigger: 'manual',
+          triggeredById: user.userId,
+        });
+
+        await audit.record({
+          organizationId: existing.project.organizationId,
+          actorUserId: user.userId,
+          action: 'cron_job.run_triggered',
+          entityType: 'cron_job',
+          entityId: existing.id,
+          metadata: { projectId: existing.projectId, name: existing.name, runId: run.id },
+        });
+
+        return reply.code(202).send({ run });
+      } catch (error) {
+        if (error instanceof CronJobError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        throw error;
+      }
+    },
+  );
+
+  app.get(
+    '/cron-jobs/:cronJobId/runs',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = cronJobParamsSchema.parse(request.params);
+      const query = runsQuerySchema.parse(request.query);
+      const existing = await loadCronJob(params.cronJobId);
+      if (!existing) {
+        return reply.notFound('Cron job not found');
+      }
+      const denied = await authorize(user.userId, existing.project.organizationId, 'viewer');
+      if (denied) {
+        return reply.forbidden(denied);
+      }
+
+      const runs = await prisma.cronJobRun.findMany({
+        where: { cronJobId: existing.id },
+        orderBy: { createdAt: 'desc' },
+        take: query.limit,
+        select: runSummarySelect,
+      });
+
+      return { runs };
+    },
+  );
+
+  app.get(
+    '/cron-job-runs/:runId/logs',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = runParamsSchema.parse(request.params);
+      const run = await prisma.cronJobRun.findUnique({
+        where: { id: params.runId },
+        select: {
+          ...runSummarySelect,
+          cronJob: { select: { project: { select: { organizationId: true } } } },
+        },
+      });
+      if (!run) {
+        return reply.notFound('Cron job run not found');
+      }
+      const denied = await authorize(user.userId, run.cronJob.project.organizationId, 'viewer');
+      if (denied) {
+        return reply.forbidden(denied);
+      }
+
+      const logs = await prisma.logEntry.findMany({
+        where: { cronJobRunId: run.id },
+        orderBy: { timestamp: 'asc' },
+        take: 5000,
+        select: { id: true, level: true, message: true, timestamp: true },
+      });
+
+      const { cronJob: _cronJob, ...summary } = run;
+      return { run: summary, logs };
+    },
+  );
+};
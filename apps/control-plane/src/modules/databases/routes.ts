@@ -1,18 +1,30 @@
-import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
 
 import { z } from 'zod';
 
 import { env } from '../../config/env.js';
 import { getPlanEntitlements } from '../../domain/plan-entitlements.js';
+import { SELF_HOSTED_DATABASE_ENGINES } from '../../domain/self-hosted-databases.js';
 import { prisma } from '../../lib/prisma.js';
 import { encryptSecret } from '../../lib/secrets.js';
 import { AccessService } from '../../services/access-service.js';
 import { AuditLogService } from '../../services/audit-log-service.js';
+import { writeSecretVersion } from '../../services/project-secret-service.js';
+import {
+  SelfHostedDatabaseError,
+  SelfHostedDatabaseService,
+  managedDatabaseSelect,
+  type ManagedDatabaseRecord,
+} from '../../services/self-hosted-database-service.js';
 
 const PROJECT_ID_PARAMS_SCHEMA = z.object({
   projectId: z.string().cuid(),
 });
 
+const DATABASE_ID_PARAMS_SCHEMA = z.object({
+  databaseId: z.string().cuid(),
+});
+
 const SECRET_KEY_PATTERN = /^[A-Z_][A-Z0-9_]*$/;
 const PG_IDENTIFIER_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
 const NEON_DEFAULT_ROLE_NAME = 'neondb_owner';
@@ -34,6 +46,28 @@ const provisionOrganizationNeonDatabaseBodySchema = provisionNeonDatabaseBodySch
   organizationId: z.string().cuid(),
 });
 
+const createSelfHostedDatabaseBodySchema = z.object({
+  organizationId: z.string().cuid(),
+  projectId: z.string().cuid().optional(),
+  engine: z.enum(SELF_HOSTED_DATABASE_ENGINES),
+  name: z.string().trim().min(2).max(120),
+  slug: z.string().trim().min(2).max(40).optional(),
+  memoryMb: z.number().int().min(128).max(32768),
+  cpuMillicores: z.number().int().min(100).max(16000),
+  storageGb: z.number().int().min(1).max(1000),
+  secretKey: z.string().trim().min(1).max(120).regex(SECRET_KEY_PATTERN).optional(),
+});
+
+const resizeSelfHostedDatabaseBodySchema = z
+  .object({
+    memoryMb: z.number().int().min(128).max(32768).optional(),
+    cpuMillicores: z.number().int().min(100).max(16000).optional(),
+    storageGb: z.number().int().min(1).max(1000).optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'Provide memoryMb, cpuMillicores or storageGb.',
+  });
+
 const trimTrailingSlash = (value: string): string => value.replace(/\/+$/, '');
 
 const asRecord = (value: unknown): Record<string, unknown> | null => {
@@ -1027,22 +1061,6 @@ const createNeonProject = async (input: {
   return neonProjectId;
 };
 
-const managedDatabaseSelect = {
-  id: true,
-  organizationId: true,
-  projectId: true,
-  provider: true,
-  status: true,
-  name: true,
-  regionId: true,
-  branchName: true,
-  databaseName: true,
-  roleName: true,
-  secretKey: true,
-  createdAt: true,
-  updatedAt: true,
-} as const;
-
 const provisionNeonManagedDatabase = async (input: {
   apiKey: string;
   actorUserId: string;
@@ -1058,21 +1076,7 @@ const provisionNeonManagedDatabase = async (input: {
     error: (arg0: Record<string, unknown>, arg1: string) => void;
   };
 }): Promise<{
-  database: {
-    id: string;
-    organizationId: string;
-    projectId: string | null;
-    provider: string;
-    status: string;
-    name: string;
-    regionId: string;
-    branchName: string;
-    databaseName: string;
-    roleName: string;
-    secretKey: string;
-    createdAt: Date;
-    updatedAt: Date;
-  };
+  database: ManagedDatabaseRecord;
   secret: {
     id: string;
     key: string;
@@ -1180,37 +1184,19 @@ const provisionNeonManagedDatabase = async (input: {
     throw error;
   }
 
-  const encrypted = encryptSecret(databaseUrl);
+  const encrypted = await encryptSecret(databaseUrl, input.organizationId);
 
   const result = await prisma.$transaction(async (tx) => {
-    const secret = input.project
-      ? await tx.projectSecret.upsert({
-          where: {
-            projectId_key: {
-              projectId: input.project.id,
-              key: secretKey,
-            },
-          },
-          update: {
-            encryptedValue: encrypted.encryptedValue,
-            iv: encrypted.iv,
-            authTag: encrypted.authTag,
-          },
-          create: {
-            projectId: input.project.id,
-            key: secretKey,
-            encryptedValue: encrypted.encryptedValue,
-            iv: encrypted.iv,
-            authTag: encrypted.authTag,
-          },
-          select: {
-            id: true,
-            key: true,
-            createdAt: true,
-            updatedAt: true,
-          },
-        })
+    // Linked into the shared layer; a preview-scoped key of the same name overrides it.
+    const linked = input.project
+      ? await writeSecretVersion(
+          tx,
+          { projectId: input.project.id, scope: 'shared', branch: '', key: secretKey },
+          { valueType: 'literal', ...encrypted },
+          input.actorUserId,
+        )
       : null;
+    const secret = linked?.secret ?? null;
 
     const database = await tx.managedDatabase.create({
       data: {
@@ -1285,6 +1271,32 @@ const assertManagedDatabaseEntitlement = async (organizationId: string): Promise
 export const databaseRoutes: FastifyPluginAsync = async (app) => {
   const access = new AccessService();
   const audit = new AuditLogService();
+  const selfHosted = new SelfHostedDatabaseService();
+
+  const loadDatabaseForActor = async (databaseId: string, userId: string) => {
+    const database = await prisma.managedDatabase.findUnique({
+      where: { id: databaseId },
+      select: { id: true, organizationId: true },
+    });
+    if (!database) {
+      return { database: null, denied: null } as const;
+    }
+    try {
+      await access.requireOrganizationRole(userId, database.organizationId, 'developer');
+      await assertManagedDatabaseEntitlement(database.organizationId);
+      return { database, denied: null } as const;
+    } catch (error) {
+      return { database, denied: (error as Error).message } as const;
+    }
+  };
+
+  const sendDenied = (reply: FastifyReply, message: string) => {
+    const lower = message.toLowerCase();
+    if (lower.includes('paid plans') || lower.includes('no active subscription')) {
+      return reply.code(402).send({ message });
+    }
+    return reply.forbidden(message);
+  };
 
   app.get('/databases', { preHandler: [app.authenticate] }, async (request, reply) => {
     const user = request.user as { userId: string; email: string };
@@ -1312,6 +1324,7 @@ export const databaseRoutes: FastifyPluginAsync = async (app) => {
 
     return {
       neonConfigured: Boolean(env.NEON_API_KEY?.trim()),
+      selfHostedEngines: SELF_HOSTED_DATABASE_ENGINES,
       databases,
     };
   });
@@ -1380,6 +1393,183 @@ export const databaseRoutes: FastifyPluginAsync = async (app) => {
     }
   });
 
+  app.post('/databases/self-hosted', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const user = request.user as { userId: string; email: string };
+    const body = createSelfHostedDatabaseBodySchema.parse(request.body);
+
+    try {
+      await access.requireOrganizationRole(user.userId, body.organizationId, 'developer');
+      await assertManagedDatabaseEntitlement(body.organizationId);
+    } catch (error) {
+      return sendDenied(reply, (error as Error).message);
+    }
+
+    try {
+      const result = await selfHosted.create({
+        organizationId: body.organizationId,
+        projectId: body.projectId ?? null,
+        actorUserId: user.userId,
+        engine: body.engine,
+        name: body.name,
+        ...(body.slug !== undefined && { slug: body.slug }),
+        memoryMb: body.memoryMb,
+        cpuMillicores: body.cpuMillicores,
+        storageGb: body.storageGb,
+        ...(body.secretKey !== undefined && { secretKey: body.secretKey.toUpperCase() }),
+      });
+
+      await audit.record({
+        organizationId: body.organizationId,
+        actorUserId: user.userId,
+        action: 'database.provisioned',
+        entityType: 'managed_database',
+        entityId: result.database.id,
+        metadata: {
+          projectId: result.database.projectId,
+          provider: 'self_hosted',
+          engine: body.engine,
+          hostname: result.hostname,
+          serverId: result.server.id,
+          memoryMb: body.memoryMb,
+          cpuMillicores: body.cpuMillicores,
+          storageGb: body.storageGb,
+          secretKey: result.database.secretKey,
+        },
+      });
+
+      return reply.code(201).send({
+        database: result.database,
+        secret: result.secret,
+        hostname: result.hostname,
+        ...(result.connectionUrl ? { connectionUrl: result.connectionUrl } : {}),
+      });
+    } catch (error) {
+      if (error instanceof SelfHostedDatabaseError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  app.patch('/databases/:databaseId', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const user = request.user as { userId: string; email: string };
+    const params = DATABASE_ID_PARAMS_SCHEMA.parse(request.params);
+    const body = resizeSelfHostedDatabaseBodySchema.parse(request.body);
+
+    const { database, denied } = await loadDatabaseForActor(params.databaseId, user.userId);
+    if (!database) {
+      return reply.notFound('Database not found.');
+    }
+    if (denied) {
+      return sendDenied(reply, denied);
+    }
+
+    try {
+      const result = await selfHosted.resize(database.id, {
+        ...(body.memoryMb !== undefined && { memoryMb: body.memoryMb }),
+        ...(body.cpuMillicores !== undefined && { cpuMillicores: body.cpuMillicores }),
+        ...(body.storageGb !== undefined && { storageGb: body.storageGb }),
+      });
+
+      await audit.record({
+        organizationId: database.organizationId,
+        actorUserId: user.userId,
+        action: 'database.resized',
+        entityType: 'managed_database',
+        entityId: database.id,
+        metadata: {
+          from: {
+            memoryMb: result.previous.memoryMb,
+            cpuMillicores: result.previous.cpuMillicores,
+            storageGb: result.previous.storageGb,
+          },
+          to: {
+            memoryMb: result.database.memoryMb,
+            cpuMillicores: result.database.cpuMillicores,
+            storageGb: result.database.storageGb,
+          },
+        },
+      });
+
+      return { database: result.database };
+    } catch (error) {
+      if (error instanceof SelfHostedDatabaseError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  app.post('/databases/:databaseId/restart', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const user = request.user as { userId: string; email: string };
+    const params = DATABASE_ID_PARAMS_SCHEMA.parse(request.params);
+
+    const { database, denied } = await loadDatabaseForActor(params.databaseId, user.userId);
+    if (!database) {
+      return reply.notFound('Database not found.');
+    }
+    if (denied) {
+      return sendDenied(reply, denied);
+    }
+
+    try {
+      await selfHosted.restart(database.id);
+    } catch (error) {
+      if (error instanceof SelfHostedDatabaseError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+
+    await audit.record({
+      organizationId: database.organizationId,
+      actorUserId: user.userId,
+      action: 'database.restarted',
+      entityType: 'managed_database',
+      entityId: database.id,
+    });
+
+    return reply.code(202).send({ status: 'restarting' });
+  });
+
+  app.delete('/databases/:databaseId', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const user = request.user as { userId: string; email: string };
+    const params = DATABASE_ID_PARAMS_SCHEMA.parse(request.params);
+
+    const { database, denied } = await loadDatabaseForActor(params.databaseId, user.userId);
+    if (!database) {
+      return reply.notFound('Database not found.');
+    }
+    if (denied) {
+      return sendDenied(reply, denied);
+    }
+
+    try {
+      const result = await selfHosted.delete(database.id, user.userId);
+
+      await audit.record({
+        organizationId: database.organizationId,
+        actorUserId: user.userId,
+        action: 'database.deleted',
+        entityType: 'managed_database',
+        entityId: database.id,
+        metadata: {
+          provider: 'self_hosted',
+          engine: result.database.engine,
+          projectId: result.database.projectId,
+          secretRemoved: result.secretRemoved,
+        },
+      });
+
+      return reply.code(202).send({ status: 'deleting', secretRemoved: result.secretRemoved });
+    } catch (error) {
+      if (error instanceof SelfHostedDatabaseError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
   app.get('/projects/:projectId/databases', { preHandler: [app.authenticate] }, async (request, reply) => {
     const user = request.user as { userId: string; email: string };
     const params = PROJECT_ID_PARAMS_SCHEMA.parse(request.params);
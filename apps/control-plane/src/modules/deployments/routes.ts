@@ -1,13 +1,20 @@
-import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
 
+import { Prisma } from '@prisma/client';
 import { z } from 'zod';
 
+import { replicaAllocation } from '../../domain/resource-rules.js';
 import { AccessService } from '../../services/access-service.js';
 import { AuditLogService } from '../../services/audit-log-service.js';
 import { DeployQueueService } from '../../services/deploy-queue-service.js';
 import { prisma } from '../../lib/prisma.js';
 import { resolveDeploymentWebsocketUrl } from '../../lib/deployment-websocket-url.js';
-import { DeploymentRequestError, DeploymentRequestService } from '../../services/deployment-request-service.js';
+import {
+  DeploymentRequestError,
+  DeploymentRequestService,
+  reuseDeploymentSource,
+} from '../../services/deployment-request-service.js';
+import { ProjectSecretError, ProjectSecretService } from '../../services/project-secret-service.js';
 import { SleepService } from '../../services/sleep-service.js';
 
 const envSchema = z
@@ -39,6 +46,7 @@ const createDeploymentSchema = z.object({
   environment: z.enum(['production', 'preview']).default('production'),
   domain: deploymentDomainSchema.optional(),
   gitUrl: z.string().url().optional(),
+  imageReference: z.string().trim().min(1).max(512).optional(),
   branch: z.string().optional(),
   commitSha: z.string().optional(),
   rootDirectory: z.string().max(300).optional(),
@@ -46,13 +54,32 @@ const createDeploymentSchema = z.object({
   startCommand: z.string().min(1).max(300).optional(),
   port: z.number().int().min(1).max(65535).optional(),
   env: envSchema.default({}),
-  serviceType: z.enum(['web_service', 'static_site', 'python']).optional(),
+  serviceType: z.enum(['web_service', 'static_site', 'python', 'dockerfile', 'worker']).optional(),
   outputDirectory: z.string().max(300).optional(),
+  /** Start next to the live deployment on a private verification hostname; traffic moves on switch. */
+  blueGreen: z.boolean().optional(),
+});
+
+const canaryPlanSchema = z.object({
+  steps: z
+    .array(z.number().int().min(1).max(99))
+    .min(1)
+    .max(10)
+    .refine((steps) => steps.every((step, index) => index === 0 || step > steps[index - 1]!), {
+      message: 'Canary steps must increase; the canary is promoted after the last step',
+    }),
+  stepDwellSeconds: z.number().int().min(30).max(86_400),
+  minRequestsPerStep: z.number().int().min(0).max(1_000_000).default(50),
+  maxErrorRateIncrease: z.number().min(0).max(100).default(1),
+  maxLatencyIncreasePercent: z.number().int().min(0).max(1000).default(25),
+  maxRestarts: z.number().int().min(0).max(100).default(0),
 });
 
 const canaryStartSchema = z
   .object({
-    percent: z.number().int().min(1).max(99),
+    /** Initial traffic share; with a plan it defaults to the plan's first step. */
+    percent: z.number().int().min(1).max(99).optional(),
+    plan: canaryPlanSchema.optional(),
     previewDeploymentId: z.string().cuid().optional(),
     candidateDeploymentId: z.string().cuid().optional(),
     branch: z.string().trim().min(1).max(255).optional(),
@@ -72,14 +99,36 @@ const canaryStartSchema = z
         message: 'Choose exactly one canary source: preview deployment, candidate deployment, or explicit branch/commit/image.',
       });
     }
+
+    if (value.percent === undefined && !value.plan) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['percent'],
+        message: 'Set a traffic percent or a canary plan.',
+      });
+    }
+
+    if (value.percent !== undefined && value.plan && value.plan.steps[0] !== value.percent) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['percent'],
+        message: 'With a canary plan, the traffic percent must match the first step.',
+      });
+    }
   });
 
+const rollbackDeploymentSchema = z.object({
+  /** Also put the project's secrets back to the versions the deployment ran with */
+  restoreSecrets: z.boolean().default(false),
+});
+
 export const deploymentRoutes: FastifyPluginAsync = async (app) => {
   const access = new AccessService();
   const deploymentService = new DeploymentRequestService();
   const queue = new DeployQueueService();
   const audit = new AuditLogService();
   const sleep = new SleepService();
+  const secrets = new ProjectSecretService();
 
   const releaseReservedCapacityIfNeeded = async (input: {
     deploymentId: string;
@@ -222,9 +271,15 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
             activeDeploymentId: true,
             canaryDeploymentId: true,
             canaryPercent: true,
+            blueGreenDeploymentId: true,
+            blueGreenIdleUntil: true,
             createdById: true,
           },
         },
+        replicas: {
+          orderBy: { replicaIndex: 'asc' },
+          select: { id: true, replicaIndex: true, status: true, startedAt: true },
+        },
       },
     });
 
@@ -268,14 +323,25 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
       url: domainUrl,
       branch: deployment.branch,
       commitSha: deployment.commitSha,
+      pullRequestNumber: deployment.pullRequestNumber,
       imageTag: deployment.imageTag,
       buildLogs: deployment.buildLogs,
       deployLogs: deployment.deployLogs,
       errorMessage: deployment.errorMessage,
       gitUrl: deployment.gitUrl,
+      sourceType: deployment.sourceType,
+      imageReference: deployment.imageReference,
+      imageDigest: deployment.imageDigest,
       isCanary: deployment.isCanary,
       canaryStartedAt: deployment.canaryStartedAt,
       canaryPromotedAt: deployment.canaryPromotedAt,
+      canaryPlan: deployment.canaryPlan,
+      canaryStepIndex: deployment.canaryStepIndex,
+      canaryStepStartedAt: deployment.canaryStepStartedAt,
+      verificationDomain: deployment.verificationDomain,
+      verificationUrl: deployment.verificationDomain ? `https://${deployment.verificationDomain}` : null,
+      replicaCount: deployment.replicaCount,
+      replicas: deployment.replicas,
       createdAt: deployment.createdAt,
       startedAt: deployment.startedAt,
       finishedAt: deployment.finishedAt,
@@ -289,6 +355,8 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
         activeDeploymentId: deployment.project.activeDeploymentId,
         canaryDeploymentId: deployment.project.canaryDeploymentId,
         canaryPercent: deployment.project.canaryPercent,
+        blueGreenDeploymentId: deployment.project.blueGreenDeploymentId,
+        blueGreenIdleUntil: deployment.project.blueGreenIdleUntil,
       },
       createdByName,
       websocket: resolveDeploymentWebsocketUrl(deployment.id),
@@ -327,6 +395,7 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
         environment: body.environment,
         ...(body.domain && { domain: body.domain }),
         ...(body.gitUrl && { gitUrl: body.gitUrl }),
+        ...(body.imageReference && { imageReference: body.imageReference }),
         ...(body.branch && { branch: body.branch }),
         ...(body.commitSha && { commitSha: body.commitSha }),
         ...(body.rootDirectory && { rootDirectory: body.rootDirectory }),
@@ -337,6 +406,7 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
         ...(idempotencyKey && { idempotencyKey }),
         ...(body.serviceType && { serviceType: body.serviceType }),
         ...(body.outputDirectory && { outputDirectory: body.outputDirectory }),
+        ...(body.blueGreen && { blueGreen: true }),
       });
       return reply.code(202).send(result);
     } catch (error) {
@@ -402,9 +472,14 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
     await releaseReservedCapacityIfNeeded({
       deploymentId: deployment.id,
       serverId: deployment.serverId,
-      ramMb: deployment.project.resourceRamMb,
-      cpuMillicores: deployment.project.resourceCpuMillicore,
-      bandwidthGb: deployment.project.resourceBandwidthGb,
+      ...replicaAllocation(
+        {
+          ramMb: deployment.project.resourceRamMb,
+          cpuMillicores: deployment.project.resourceCpuMillicore,
+          bandwidthGb: deployment.project.resourceBandwidthGb,
+        },
+        deployment.replicaCount,
+      ),
     }).catch(() => undefined);
 
     await prisma.logEntry.create({
@@ -509,6 +584,7 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
   app.post('/deployments/:deploymentId/rollback', { preHandler: [app.authenticate] }, async (request, reply) => {
     const user = request.user as { userId: string; email: string };
     const params = z.object({ deploymentId: z.string().cuid() }).parse(request.params);
+    const body = rollbackDeploymentSchema.parse(request.body ?? {});
 
     const targetDeployment = await prisma.deployment.findUnique({
       where: { id: params.deploymentId },
@@ -538,7 +614,7 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
       return reply.forbidden((error as Error).message);
     }
 
-    if (!targetDeployment.imageTag) {
+    if (!targetDeployment.imageTag && !targetDeployment.imageDigest) {
       return reply.badRequest('Cannot rollback: deployment has no built image');
     }
 
@@ -546,20 +622,33 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
       return reply.badRequest('Rollback is only available for production deployments');
     }
 
+    // The rollback starts with (and records) the old secret set; the live secrets are only
+    // restored once it has been created, so a refused rollback leaves them untouched.
+    if (body.restoreSecrets && !targetDeployment.secretsSnapshotAt) {
+      return reply.code(409).send({ message: 'Deployment predates secret history and has no secret snapshot' });
+    }
+
     try {
       const result = await deploymentService.create({
         projectId: targetDeployment.project.id,
         actorUserId: user.userId,
         trigger: 'manual',
         environment: 'production',
-        gitUrl: targetDeployment.gitUrl,
+        ...reuseDeploymentSource(targetDeployment),
         ...(targetDeployment.branch && { branch: targetDeployment.branch }),
         ...(targetDeployment.commitSha && { commitSha: targetDeployment.commitSha }),
         ...(targetDeployment.project.startCommand && { startCommand: targetDeployment.project.startCommand }),
         port: targetDeployment.project.targetPort,
-        imageTag: targetDeployment.imageTag,
+        // Image deployments are pulled again by digest, so the rollback does not depend on the local tag.
+        ...(!targetDeployment.imageDigest &&
+          targetDeployment.imageTag && { imageTag: targetDeployment.imageTag }),
+        ...(body.restoreSecrets && { secretsFromDeploymentId: params.deploymentId }),
       });
 
+      const restoredSecrets = body.restoreSecrets
+        ? await secrets.restoreDeploymentSnapshot(params.deploymentId, user.userId)
+        : null;
+
       // Mark the old deployment as rolled_back
       await prisma.deployment.update({
         where: { id: params.deploymentId },
@@ -575,12 +664,17 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
         metadata: {
           rolledBackTo: params.deploymentId,
           imageTag: targetDeployment.imageTag,
+          ...(targetDeployment.imageDigest && { imageDigest: targetDeployment.imageDigest }),
+          ...(restoredSecrets && {
+            secretsRestored: restoredSecrets.restored,
+            secretsRemoved: restoredSecrets.removed,
+          }),
         },
       });
 
       return reply.code(202).send(result);
     } catch (error) {
-      if (error instanceof DeploymentRequestError) {
+      if (error instanceof DeploymentRequestError || error instanceof ProjectSecretError) {
         return reply.code(error.statusCode).send({ message: error.message });
       }
       throw error;
@@ -634,7 +728,7 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
         actorUserId: user.userId,
         trigger: 'manual',
         environment: 'production',
-        gitUrl: previewDeployment.gitUrl,
+        ...reuseDeploymentSource(previewDeployment),
         ...(previewDeployment.branch && { branch: previewDeployment.branch }),
         ...(previewDeployment.commitSha && { commitSha: previewDeployment.commitSha }),
         ...(previewDeployment.project.startCommand && { startCommand: previewDeployment.project.startCommand }),
@@ -667,6 +761,7 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
     const user = request.user as { userId: string; email: string };
     const params = z.object({ deploymentId: z.string().cuid() }).parse(request.params);
     const body = canaryStartSchema.parse(request.body);
+    const initialPercent = body.percent ?? body.plan!.steps[0]!;
 
     const stableDeployment = await prisma.deployment.findUnique({
       where: { id: params.deploymentId },
@@ -731,7 +826,7 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
 
     let candidateSource: 'latest_branch_head' | 'preview_deployment' | 'existing_deployment' | 'explicit' = 'latest_branch_head';
     let candidateDeploymentId: string | undefined;
-    let candidateGitUrl = stableDeployment.gitUrl;
+    let candidateSourceFields = reuseDeploymentSource(stableDeployment);
     let candidateBranch: string | undefined = stableDeployment.branch ?? stableDeployment.project.branch ?? undefined;
     let candidateCommitSha: string | undefined;
     let candidateImageTag: string | undefined;
@@ -745,6 +840,8 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
           environment: true,
           status: true,
           gitUrl: true,
+          imageReference: true,
+          imageDigest: true,
           branch: true,
           commitSha: true,
           imageTag: true,
@@ -781,7 +878,7 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
 
       candidateSource = body.previewDeploymentId ? 'preview_deployment' : 'existing_deployment';
       candidateDeploymentId = candidate.id;
-      candidateGitUrl = candidate.gitUrl;
+      candidateSourceFields = reuseDeploymentSource(candidate);
       candidateBranch = candidate.branch ?? stableDeployment.project.branch ?? undefined;
       candidateCommitSha = candidate.commitSha ?? undefined;
       candidateImageTag = candidate.imageTag ?? undefined;
@@ -798,7 +895,7 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
         actorUserId: user.userId,
         trigger: 'manual',
         environment: 'production',
-        gitUrl: candidateGitUrl,
+        ...candidateSourceFields,
         ...(candidateBranch && { branch: candidateBranch }),
         ...(candidateCommitSha && { commitSha: candidateCommitSha }),
         ...(candidateImageTag && { imageTag: candidateImageTag }),
@@ -809,7 +906,8 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
         canary: {
           stableDeploymentId: params.deploymentId,
           stableContainerHostPort: stableDeployment.container.hostPort,
-          weight: body.percent,
+          weight: initialPercent,
+          ...(body.plan && { plan: body.plan }),
         },
         placement: {
           serverId: stableDeployment.serverId,
@@ -826,7 +924,8 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
         entityId: result.deploymentId,
         metadata: {
           stableDeploymentId: params.deploymentId,
-          canaryPercent: body.percent,
+          canaryPercent: initialPercent,
+          ...(body.plan && { canaryPlan: body.plan }),
           candidateSource,
           ...(candidateDeploymentId && { candidateDeploymentId }),
           ...(candidateBranch && { branch: candidateBranch }),
@@ -837,11 +936,13 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
 
       return reply.code(202).send({
         ...result,
-        canaryPercent: body.percent,
+        canaryPercent: initialPercent,
         stableDeploymentId: params.deploymentId,
         candidateSource,
         ...(candidateDeploymentId && { candidateDeploymentId }),
-        message: `Canary release queued. ${body.percent}% of traffic will shift after the new deployment is ready.`,
+        message: body.plan
+          ? `Canary release queued. Traffic shifts automatically through ${body.plan.steps.join('% → ')}% and the canary is promoted if the guards hold.`
+          : `Canary release queued. ${initialPercent}% of traffic will shift after the new deployment is ready.`,
       });
     } catch (error) {
       if (error instanceof DeploymentRequestError) {
@@ -893,6 +994,14 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
       return reply.badRequest('Stable container is not running');
     }
 
+    // A manual traffic change takes the canary out of its automatic plan.
+    if (canaryDeployment.canaryPlan !== null) {
+      await prisma.deployment.update({
+        where: { id: params.deploymentId },
+        data: { canaryPlan: Prisma.DbNull },
+      });
+    }
+
     await queue.enqueueCanaryAction({
       action: 'set_percent',
       deploymentId: params.deploymentId,
@@ -911,7 +1020,10 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
       action: 'deployment.canary_percent_update_requested',
       entityType: 'deployment',
       entityId: params.deploymentId,
-      metadata: { newPercent: body.percent },
+      metadata: {
+        newPercent: body.percent,
+        ...(canaryDeployment.canaryPlan !== null && { automaticPlanStopped: true }),
+      },
     });
 
     return reply.code(202).send({
@@ -1058,4 +1170,173 @@ export const deploymentRoutes: FastifyPluginAsync = async (app) => {
       message: 'Canary abort queued.',
     });
   });
+
+  // ── Blue/green: the idle side takes all traffic at once ──
+  // Switching to the previous deployment while it is kept warm is the switch back.
+  const queueBlueGreenSwitch = async (
+    deploymentId: string,
+    userId: string,
+    reply: FastifyReply,
+  ) => {
+    const deployment = await prisma.deployment.findUnique({
+      where: { id: deploymentId },
+      include: {
+        project: {
+          select: {
+            organizationId: true,
+            activeDeploymentId: true,
+            blueGreenDeploymentId: true,
+            blueGreenIdleUntil: true,
+          },
+        },
+        container: { select: { status: true } },
+      },
+    });
+
+    if (!deployment) {
+      return reply.notFound('Deployment not found');
+    }
+
+    try {
+      await access.requireOrganizationRole(userId, deployment.project.organizationId, 'developer');
+    } catch (error) {
+      return reply.forbidden((error as Error).message);
+    }
+
+    if (deployment.project.blueGreenDeploymentId !== deploymentId) {
+      return reply.badRequest('This deployment is not the idle side of a blue/green release');
+    }
+
+    if (deployment.status !== 'ready') {
+      return reply.badRequest('Only a ready deployment can take production traffic');
+    }
+
+    if (deployment.container?.status !== 'running') {
+      return reply.badRequest('The idle deployment is no longer running');
+    }
+
+    const switchBack = deployment.project.blueGreenIdleUntil !== null;
+    await queue.enqueueBlueGreenAction({ action: 'switch', deploymentId });
+
+    await queue.publishEvent({
+      deploymentId,
+      type: 'blue_green_switch_queued',
+      message: switchBack ? 'Blue/green switch back queued.' : 'Blue/green switch queued.',
+    });
+
+    await audit.record({
+      organizationId: deployment.project.organizationId,
+      actorUserId: userId,
+      action: 'deployment.blue_green_switch_requested',
+      entityType: 'deployment',
+      entityId: deploymentId,
+      metadata: {
+        previousActiveDeploymentId: deployment.project.activeDeploymentId,
+        switchBack,
+      },
+    });
+
+    return reply.code(202).send({
+      success: true,
+      deploymentId,
+      previousActiveDeploymentId: deployment.project.activeDeploymentId,
+      message: switchBack ? 'Blue/green switch back queued.' : 'Blue/green switch queued.',
+    });
+  };
+
+  app.post(
+    '/deployments/:deploymentId/blue-green/switch',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = z.object({ deploymentId: z.string().cuid() }).parse(request.params);
+      return queueBlueGreenSwitch(params.deploymentId, user.userId, reply);
+    },
+  );
+
+  app.post(
+    '/projects/:projectId/blue-green/switch-back',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = z.object({ projectId: z.string().cuid() }).parse(request.params);
+
+      const project = await prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: { organizationId: true, blueGreenDeploymentId: true, blueGreenIdleUntil: true },
+      });
+
+      if (!project) {
+        return reply.notFound('Project not found');
+      }
+
+      try {
+        await access.requireOrganizationRole(user.userId, project.organizationId, 'developer');
+      } catch (error) {
+        return reply.forbidden((error as Error).message);
+      }
+
+      if (!project.blueGreenDeploymentId || !project.blueGreenIdleUntil) {
+        return reply.badRequest('No previous deployment is kept warm for this project');
+      }
+
+      return queueBlueGreenSwitch(project.blueGreenDeploymentId, user.userId, reply);
+    },
+  );
+
+  app.post(
+    '/deployments/:deploymentId/blue-green/discard',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = z.object({ deploymentId: z.string().cuid() }).parse(request.params);
+
+      const deployment = await prisma.deployment.findUnique({
+        where: { id: params.deploymentId },
+        include: {
+          project: { select: { organizationId: true, blueGreenDeploymentId: true } },
+        },
+      });
+
+      if (!deployment) {
+        return reply.notFound('Deployment not found');
+      }
+
+      try {
+        await access.requireOrganizationRole(
+          user.userId,
+          deployment.project.organizationId,
+          'developer',
+        );
+      } catch (error) {
+        return reply.forbidden((error as Error).message);
+      }
+
+      if (deployment.project.blueGreenDeploymentId !== params.deploymentId) {
+        return reply.badRequest('This deployment is not the idle side of a blue/green release');
+      }
+
+      await queue.enqueueBlueGreenAction({ action: 'discard', deploymentId: params.deploymentId });
+
+      await queue.publishEvent({
+        deploymentId: params.deploymentId,
+        type: 'blue_green_discard_queued',
+        message: 'Stopping the idle blue/green deployment.',
+      });
+
+      await audit.record({
+        organizationId: deployment.project.organizationId,
+        actorUserId: user.userId,
+        action: 'deployment.blue_green_discard_requested',
+        entityType: 'deployment',
+        entityId: params.deploymentId,
+      });
+
+      return reply.code(202).send({
+        success: true,
+        deploymentId: params.deploymentId,
+        message: 'Idle blue/green deployment will be stopped.',
+      });
+    },
+  );
 };
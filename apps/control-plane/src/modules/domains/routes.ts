@@ -6,7 +6,11 @@ import { z } from 'zod';
 import { getPlanEntitlements } from '../../domain/plan-entitlements.js';
 import { AccessService } from '../../services/access-service.js';
 import { AuditLogService } from '../../services/audit-log-service.js';
-import { DeploymentRequestError, DeploymentRequestService } from '../../services/deployment-request-service.js';
+import {
+  DeploymentRequestError,
+  DeploymentRequestService,
+  reuseDeploymentSource,
+} from '../../services/deployment-request-service.js';
 import { DomainVerificationService } from '../../services/domain-verification-service.js';
 import { prisma } from '../../lib/prisma.js';
 import { isProtectedPlatformDomain } from '../../lib/protected-platform-domains.js';
@@ -92,6 +96,8 @@ export const domainRoutes: FastifyPluginAsync = async (app) => {
         status: true,
         environment: true,
         gitUrl: true,
+        imageReference: true,
+        imageDigest: true,
         branch: true,
         commitSha: true,
         imageTag: true,
@@ -118,7 +124,7 @@ export const domainRoutes: FastifyPluginAsync = async (app) => {
         actorUserId: input.actorUserId,
         trigger: 'manual',
         environment: activeDeployment.environment as 'production' | 'preview',
-        gitUrl: activeDeployment.gitUrl,
+        ...reuseDeploymentSource(activeDeployment),
         ...(activeDeployment.branch ? { branch: activeDeployment.branch } : {}),
         ...(activeDeployment.commitSha ? { commitSha: activeDeployment.commitSha } : {}),
         imageTag: activeDeployment.imageTag,
@@ -218,6 +224,10 @@ export const domainRoutes: FastifyPluginAsync = async (app) => {
       return reply.forbidden(message);
     }
 
+    if (project.serviceType === 'worker') {
+      return reply.badRequest('Workers have no public HTTP route, so custom domains cannot be attached.');
+    }
+
     // Ensure domain doesn't already exist across any project
     const existing = await prisma.customDomain.findUnique({
       where: { domain: body.domain },
@@ -0,0 +1,207 @@
+import type { FastifyPluginAsync } from 'fastify';
+
+import { z } from 'zod';
+
+import { normalizeRegistryHost, parseImageReference } from '../../lib/image-reference.js';
+import { prisma } from '../../lib/prisma.js';
+import { encryptSecret } from '../../lib/secrets.js';
+import { AccessService } from '../../services/access-service.js';
+import { AuditLogService } from '../../services/audit-log-service.js';
+
+const projectParamsSchema = z.object({
+  projectId: z.string().cuid(),
+});
+
+const imageReferenceSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(512)
+  .refine(
+    (value) => parseImageReference(value) !== null,
+    'Image must look like registry/repository:tag or registry/repository@sha256:<digest>',
+  );
+
+const updateImageSourceSchema = z
+  .object({
+    sourceType: z.enum(['git', 'image']),
+    imageReference: imageReferenceSchema.nullable().optional(),
+  })
+  .refine((value) => value.sourceType === 'git' || Boolean(value.imageReference), {
+    message: 'imageReference is required for image deployments.',
+    path: ['imageReference'],
+  });
+
+const registryCredentialSchema = z.object({
+  registry: z
+    .string()
+    .trim()
+    .min(1)
+    .max(255)
+    .regex(/^(?:https?:\/\/)?[A-Za-z0-9.-]+(?::\d{1,5})?\/?$/, 'Registry must be a host name'),
+  username: z.string().trim().min(1).max(255),
+  password: z.string().min(1).max(4096),
+});
+
+const registryCredentialSelect = {
+  registry: true,
+  username: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export const imageSourceRoutes: FastifyPluginAsync = async (app) => {
+  const access = new AccessService();
+  const audit = new AuditLogService();
+
+  const loadProjectForDeveloper = async (userId: string, projectId: string) => {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, organizationId: true },
+    });
+    if (!project) {
+      return { project: null, error: 'not_found' as const };
+    }
+
+    try {
+      await access.requireOrganizationRole(userId, project.organizationId, 'developer');
+    } catch (error) {
+      return { project: null, error: (error as Error).message };
+    }
+    return { project, error: null };
+  };
+
+  app.get(
+    '/projects/:projectId/image-source',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectParamsSchema.parse(request.params);
+      const { project, error } = await loadProjectForDeveloper(user.userId, params.projectId);
+      if (!project) {
+        return error === 'not_found' ? reply.notFound('Project not found') : reply.forbidden(error);
+      }
+
+      const source = await prisma.project.findUniqueOrThrow({
+        where: { id: project.id },
+        select: {
+          sourceType: true,
+          imageReference: true,
+          registryCredential: { select: registryCredentialSelect },
+        },
+      });
+
+      return source;
+    },
+  );
+
+  app.put(
+    '/projects/:projectId/image-source',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectParamsSchema.parse(request.params);
+      const body = updateImageSourceSchema.parse(request.body);
+      const { project, error } = await loadProjectForDeveloper(user.userId, params.projectId);
+      if (!project) {
+        return error === 'not_found' ? reply.notFound('Project not found') : reply.forbidden(error);
+      }
+
+      const updated = await prisma.project.update({
+        where: { id: project.id },
+        data: {
+          sourceType: body.sourceType,
+          ...(body.imageReference !== undefined && { imageReference: body.imageReference }),
+        },
+        select: { sourceType: true, imageReference: true },
+      });
+
+      await audit.record({
+        organizationId: project.organizationId,
+        actorUserId: user.userId,
+        action: 'project.image_source.updated',
+        entityType: 'project',
+        entityId: project.id,
+        metadata: {
+          sourceType: updated.sourceType,
+          imageReference: updated.imageReference,
+        },
+      });
+
+      return updated;
+    },
+  );
+
+  app.put(
+    '/projects/:projectId/registry-credentials',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectParamsSchema.parse(request.params);
+      const body = registryCredentialSchema.parse(request.body);
+      const { project, error } = await loadProjectForDeveloper(user.userId, params.projectId);
+      if (!project) {
+        return error === 'not_found' ? reply.notFound('Project not found') : reply.forbidden(error);
+      }
+
+      const encrypted = await encryptSecret(body.password, project.organizationId);
+      const data = {
+        registry: normalizeRegistryHost(body.registry),
+        username: body.username,
+        encryptedPassword: encrypted.encryptedValue,
+        iv: encrypted.iv,
+        authTag: encrypted.authTag,
+        keyId: encrypted.keyId,
+      };
+      const credential = await prisma.projectRegistryCredential.upsert({
+        where: { projectId: project.id },
+        create: { projectId: project.id, ...data },
+        update: data,
+        select: registryCredentialSelect,
+      });
+
+      await audit.record({
+        organizationId: project.organizationId,
+        actorUserId: user.userId,
+        action: 'project.registry_credential.upserted',
+        entityType: 'project',
+        entityId: project.id,
+        metadata: {
+          registry: credential.registry,
+          username: credential.username,
+        },
+      });
+
+      return { registryCredential: credential };
+    },
+  );
+
+  app.delete(
+    '/projects/:projectId/registry-credentials',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectParamsSchema.parse(request.params);
+      const { project, error } = await loadProjectForDeveloper(user.userId, params.projectId);
+      if (!project) {
+        return error === 'not_found' ? reply.notFound('Project not found') : reply.forbidden(error);
+      }
+
+      const deleted = await prisma.projectRegistryCredential.deleteMany({
+        where: { projectId: project.id },
+      });
+
+      if (deleted.count > 0) {
+        await audit.record({
+          organizationId: project.organizationId,
+          actorUserId: user.userId,
+          action: 'project.registry_credential.deleted',
+          entityType: 'project',
+          entityId: project.id,
+        });
+      }
+
+      return { success: true };
+    },
+  );
+};
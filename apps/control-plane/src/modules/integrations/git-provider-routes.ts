@@ -0,0 +1,273 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+
+import {
+  BITBUCKET_CLOUD_BASE_URL,
+  EXTERNAL_GIT_PROVIDERS,
+  buildRepoUrlCandidates,
+  parseRepoPathFromGitUrl,
+} from '../../lib/git-providers.js';
+import { collectPushChangedFiles } from '../../lib/path-filters.js';
+import { BitbucketService } from '../../services/bitbucket-service.js';
+import {
+  GitProviderConnectionError,
+  GitProviderConnectionService,
+  buildGitProviderWebhookUrl,
+  resolveBitbucketWebhookSecret,
+} from '../../services/git-provider-connection-service.js';
+import {
+  GitPushDeploymentError,
+  GitPushDeploymentService,
+} from '../../services/git-push-deployment-service.js';
+
+const providerParamsSchema = z.object({
+  provider: z.enum(EXTERNAL_GIT_PROVIDERS),
+});
+
+const connectSchema = z.object({
+  accessToken: z.string().trim().min(1).max(512),
+  baseUrl: z.string().trim().url().optional(),
+  username: z.string().trim().min(1).max(120).optional(),
+});
+
+const repoQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  perPage: z.coerce.number().int().min(1).max(100).default(30),
+  search: z.string().trim().max(120).optional(),
+});
+
+const gitlabPushWebhookSchema = z.object({
+  ref: z.string(),
+  after: z.string().optional(),
+  total_commits_count: z.number().int().nonnegative().optional(),
+  project: z.object({
+    path_with_namespace: z.string(),
+    git_http_url: z.string(),
+    web_url: z.string(),
+  }),
+  commits: z
+    .array(
+      z.object({
+        added: z.array(z.string()).optional(),
+        removed: z.array(z.string()).optional(),
+        modified: z.array(z.string()).optional(),
+      }),
+    )
+    .optional(),
+});
+
+const bitbucketPushWebhookSchema = z.object({
+  repository: z.object({
+    full_name: z.string(),
+  }),
+  push: z.object({
+    changes: z.array(
+      z.object({
+        new: z
+          .object({
+            type: z.string(),
+            name: z.string(),
+            target: z.object({ hash: z.string() }).optional(),
+          })
+          .nullable()
+          .optional(),
+      }),
+    ),
+  }),
+});
+
+const DELETED_BRANCH_SHA = /^0+$/;
+
+export const gitProviderIntegrationRoutes: FastifyPluginAsync = async (app) => {
+  const gitProviders = new GitProviderConnectionService();
+  const bitbucket = new BitbucketService();
+  const pushDeployments = new GitPushDeploymentService();
+
+  app.get('/integrations/:provider/status', { preHandler: [app.authenticate] }, async (request) => {
+    const user = request.user as { userId: string; email: string };
+    const { provider } = providerParamsSchema.parse(request.params);
+    const connection = await gitProviders.getConnection(user.userId, provider);
+
+    return {
+      // Token-based connections need no server-side OAuth app.
+      configured: true,
+      connected: Boolean(connection),
+      connection,
+      webhookConfigured: provider === 'gitlab' || Boolean(resolveBitbucketWebhookSecret()),
+      webhookUrl: buildGitProviderWebhookUrl(provider),
+    };
+  });
+
+  app.post(
+    '/integrations/:provider/connection',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const { provider } = providerParamsSchema.parse(request.params);
+      const body = connectSchema.parse(request.body);
+
+      try {
+        const connection = await gitProviders.connect({
+          userId: user.userId,
+          provider,
+          accessToken: body.accessToken,
+          ...(body.baseUrl && { baseUrl: body.baseUrl }),
+          ...(body.username && { username: body.username }),
+        });
+        return { connected: true, connection };
+      } catch (error) {
+        if (error instanceof GitProviderConnectionError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        throw error;
+      }
+    },
+  );
+
+  app.delete(
+    '/integrations/:provider/connection',
+    { preHandler: [app.authenticate] },
+    async (request) => {
+      const user = request.user as { userId: string; email: string };
+      const { provider } = providerParamsSchema.parse(request.params);
+      await gitProviders.disconnect(user.userId, provider);
+
+      return { success: true };
+    },
+  );
+
+  app.get(
+    '/integrations/:provider/repositories',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const { provider } = providerParamsSchema.parse(request.params);
+      const query = repoQuerySchema.parse(request.query);
+
+      try {
+        const result = await gitProviders.listRepositories({
+          userId: user.userId,
+          provider,
+          page: query.page,
+          perPage: query.perPage,
+          ...(query.search && { search: query.search }),
+        });
+
+        return {
+          repositories: result.repos,
+          page: query.page,
+          perPage: query.perPage,
+          hasNextPage: result.hasNextPage,
+        };
+      } catch (error) {
+        if (error instanceof GitProviderConnectionError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        return reply.badRequest((error as Error).message);
+      }
+    },
+  );
+
+  app.post('/integrations/gitlab/webhook', async (request, reply) => {
+    // Checked per project against its connection's secret by handlePush.
+    const tokenHeader = request.headers['x-gitlab-token'];
+    if (typeof tokenHeader !== 'string' || !tokenHeader) {
+      return reply.unauthorized('Invalid GitLab webhook token.');
+    }
+
+    if (request.headers['x-gitlab-event'] !== 'Push Hook') {
+      return { received: true, ignored: true };
+    }
+
+    const payload = gitlabPushWebhookSchema.parse(request.body);
+    if (!payload.ref.startsWith('refs/heads/') || DELETED_BRANCH_SHA.test(payload.after ?? '')) {
+      return { received: true, ignored: true };
+    }
+
+    const repoPath = parseRepoPathFromGitUrl(payload.project.web_url);
+    // GitLab lists at most 20 commits per push; path filters need the full list.
+    const changedFiles =
+      (payload.total_commits_count ?? 0) > (payload.commits?.length ?? 0)
+        ? null
+        : collectPushChangedFiles(payload.commits);
+
+    try {
+      return await pushDeployments.handlePush({
+        provider: 'gitlab',
+        trigger: 'gitlab_push',
+        repoFullName: payload.project.path_with_namespace,
+        repoUrlCandidates: buildRepoUrlCandidates({
+          host: repoPath?.host ?? new URL(payload.project.git_http_url).host,
+          fullName: payload.project.path_with_namespace,
+          cloneUrls: [payload.project.git_http_url, payload.project.web_url],
+        }),
+        webhookToken: tokenHeader,
+        branch: payload.ref.replace('refs/heads/', ''),
+        ...(payload.after && { commitSha: payload.after }),
+        changedFiles,
+      });
+    } catch (error) {
+      if (error instanceof GitPushDeploymentError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  app.post('/integrations/bitbucket/webhook', async (request, reply) => {
+    if (!resolveBitbucketWebhookSecret()) {
+      return reply.serviceUnavailable('Bitbucket webhook secret is not configured.');
+    }
+
+    const signatureHeader = request.headers['x-hub-signature'];
+    const payloadBuffer = request.rawBody ?? Buffer.from(JSON.stringify(request.body ?? {}));
+    const valid = bitbucket.verifyWebhookSignature(
+      payloadBuffer,
+      typeof signatureHeader === 'string' ? signatureHeader : undefined,
+    );
+    if (!valid) {
+      return reply.unauthorized('Invalid Bitbucket webhook signature.');
+    }
+
+    if (request.headers['x-event-key'] !== 'repo:push') {
+      return { received: true, ignored: true };
+    }
+
+    const payload = bitbucketPushWebhookSchema.parse(request.body);
+    const fullName = payload.repository.full_name;
+    const host = new URL(BITBUCKET_CLOUD_BASE_URL).host;
+    const cloneUrl = `${BITBUCKET_CLOUD_BASE_URL}/${fullName}.git`;
+    const repoUrlCandidates = buildRepoUrlCandidates({ host, fullName, cloneUrls: [cloneUrl] });
+
+    // Bitbucket push payloads carry no file lists, so path filters fall back to deploying.
+    const branches = payload.push.changes.flatMap((change) =>
+      change.new?.type === 'branch' ? [change.new] : [],
+    );
+    if (!branches.length) {
+      return { received: true, ignored: true };
+    }
+
+    const results = [];
+    for (const branch of branches) {
+      results.push(
+        await pushDeployments.handlePush({
+          provider: 'bitbucket',
+          trigger: 'bitbucket_push',
+          repoFullName: fullName,
+          repoUrlCandidates,
+          branch: branch.name,
+          ...(branch.target?.hash && { commitSha: branch.target.hash }),
+          changedFiles: null,
+        }),
+      );
+    }
+
+    return {
+      received: true,
+      triggered: results.reduce((sum, result) => sum + result.triggered, 0),
+      ignored: results.reduce((sum, result) => sum + result.ignored, 0),
+      skipped: results.reduce((sum, result) => sum + result.skipped, 0),
+      errors: results.flatMap((result) => result.errors),
+    };
+  });
+};
@@ -7,16 +7,24 @@ import { z } from 'zod';
 import { env } from '../../config/env.js';
 import { getPlanEntitlements } from '../../domain/plan-entitlements.js';
 import { hashPassword } from '../../lib/crypto.js';
+import {
+  gitProviderSchema,
+  isExternalGitProvider,
+  resolveExternalRepoIdentity,
+} from '../../lib/git-providers.js';
+import { collectPushChangedFiles, pathFiltersSchema } from '../../lib/path-filters.js';
 import { prisma } from '../../lib/prisma.js';
 import { redis } from '../../lib/redis.js';
 import { decryptSecret, encryptSecret } from '../../lib/secrets.js';
 import { AccessService } from '../../services/access-service.js';
 import {
-  DeploymentRequestError,
-  DeploymentRequestService,
-} from '../../services/deployment-request-service.js';
+  GitProviderConnectionError,
+  GitProviderConnectionService,
+} from '../../services/git-provider-connection-service.js';
+import { GitPushDeploymentService } from '../../services/git-push-deployment-service.js';
 import { GitHubService } from '../../services/github-service.js';
 import { OrganizationInviteService } from '../../services/organization-invite-service.js';
+import { PullRequestPreviewService } from '../../services/pull-request-preview-service.js';
 
 const connectQuerySchema = z.object({
   redirectTo: z.string().optional(),
@@ -36,6 +44,7 @@ const repoQuerySchema = z.object({
 });
 
 const updateGitSettingsSchema = z.object({
+  gitProvider: gitProviderSchema.optional(),
   repoUrl: z.string().url().optional(),
   repoOwner: z.string().trim().min(1).max(120).optional(),
   repoName: z.string().trim().min(1).max(120).optional(),
@@ -45,15 +54,37 @@ const updateGitSettingsSchema = z.object({
   installCommand: z.string().trim().max(300).nullable().optional(),
   buildCommand: z.string().trim().max(300).nullable().optional(),
   startCommand: z.string().trim().max(300).nullable().optional(),
+  releaseCommand: z.string().trim().max(300).nullable().optional(),
   targetPort: z.number().int().min(1).max(65535).optional(),
   autoDeployEnabled: z.boolean().optional(),
   previewDeploymentsEnabled: z.boolean().optional(),
-  serviceType: z.enum(['web_service', 'static_site', 'python']).optional(),
+  includePaths: pathFiltersSchema.optional(),
+  excludePaths: pathFiltersSchema.optional(),
+  serviceType: z.enum(['web_service', 'static_site', 'python', 'dockerfile', 'worker']).optional(),
+  /** Build runtime for `worker` projects; other service types imply it. */
+  runtime: z.enum(['node', 'python']).optional(),
   outputDirectory: z.string().trim().max(300).nullable().optional(),
+  dockerfilePath: z.string().trim().max(300).nullable().optional(),
+  dockerTarget: z
+    .string()
+    .trim()
+    .regex(
+      /^(?:[A-Za-z0-9][A-Za-z0-9_.-]{0,127})?$/,
+      'Build target must be a Dockerfile stage name',
+    )
+    .nullable()
+    .optional(),
   wakeMessage: z.string().trim().max(280).nullable().optional(),
   wakeRetrySeconds: z.number().int().min(1).max(60).optional(),
 });
 
+const repoDetectionQuerySchema = z.object({
+  owner: z.string().trim().min(1).max(120),
+  repo: z.string().trim().min(1).max(120),
+  ref: z.string().trim().min(1).max(255),
+  rootDirectory: z.string().trim().max(255).optional(),
+});
+
 const pushWebhookSchema = z.object({
   ref: z.string(),
   after: z.string().optional(),
@@ -62,6 +93,37 @@ const pushWebhookSchema = z.object({
     full_name: z.string(),
     clone_url: z.string(),
   }),
+  commits: z
+    .array(
+      z.object({
+        added: z.array(z.string()).optional(),
+        removed: z.array(z.string()).optional(),
+        modified: z.array(z.string()).optional(),
+      }),
+    )
+    .optional(),
+});
+
+const pullRequestWebhookSchema = z.object({
+  action: z.string(),
+  number: z.number().int().positive(),
+  pull_request: z.object({
+    merged: z.boolean().optional(),
+    head: z.object({
+      ref: z.string(),
+      sha: z.string(),
+      repo: z
+        .object({
+          full_name: z.string(),
+        })
+        .nullable(),
+    }),
+  }),
+  repository: z.object({
+    id: z.number(),
+    full_name: z.string(),
+    clone_url: z.string(),
+  }),
 });
 
 interface OAuthStatePayload {
@@ -76,7 +138,27 @@ const LOGIN_RESULT_PREFIX = 'apployd:oauth:github:login:';
 export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
   const github = new GitHubService();
   const access = new AccessService();
-  const deploymentService = new DeploymentRequestService();
+  const pushDeployments = new GitPushDeploymentService();
+  const gitProviders = new GitProviderConnectionService();
+  const pullRequestPreviews = new PullRequestPreviewService();
+
+  const handlePullRequestEvent = async (body: unknown) => {
+    const payload = pullRequestWebhookSchema.parse(body);
+    return pullRequestPreviews.handlePullRequest({
+      action: payload.action,
+      number: payload.number,
+      merged: payload.pull_request.merged === true,
+      headRef: payload.pull_request.head.ref,
+      headSha: payload.pull_request.head.sha,
+      headRepoFullName: payload.pull_request.head.repo?.full_name ?? null,
+      repoFullName: payload.repository.full_name,
+      cloneUrl: payload.repository.clone_url,
+      repoUrlCandidates: buildGitHubRepoUrlCandidates({
+        fullName: payload.repository.full_name,
+        cloneUrl: payload.repository.clone_url,
+      }),
+    });
+  };
   const inviteService = new OrganizationInviteService();
 
   app.get('/integrations/github/status', { preHandler: [app.authenticate] }, async (request) => {
@@ -188,7 +270,8 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
       }
 
       const githubUser = await github.getUser(tokenResponse.access_token);
-      const encrypted = encryptSecret(tokenResponse.access_token);
+      // GitHub connections belong to a user, so they use the platform data key.
+      const encrypted = await encryptSecret(tokenResponse.access_token, null);
 
       if (statePayload.mode === 'connect') {
         if (!statePayload.userId) {
@@ -204,6 +287,7 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
           encryptedAccessToken: encrypted.encryptedValue,
           iv: encrypted.iv,
           authTag: encrypted.authTag,
+          keyId: encrypted.keyId,
         });
 
         const target = dashboardRedirect({
@@ -227,6 +311,7 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
         encryptedAccessToken: encrypted.encryptedValue,
         iv: encrypted.iv,
         authTag: encrypted.authTag,
+        keyId: encrypted.keyId,
       });
       const inviteSync = await inviteService.syncInvitesForUser({
         userId: loginUser.id,
@@ -306,10 +391,11 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
         return reply.notFound('GitHub account is not connected.');
       }
 
-      const accessToken = decryptSecret({
+      const accessToken = await decryptSecret({
         encryptedValue: connection.encryptedAccessToken,
         iv: connection.iv,
         authTag: connection.authTag,
+        keyId: connection.keyId,
       });
 
       const result = await github.listRepositories({
@@ -328,6 +414,51 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
     },
   );
 
+  app.get(
+    '/integrations/github/repositories/detect',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const query = repoDetectionQuerySchema.parse(request.query);
+      const connection = await prisma.gitHubConnection.findUnique({
+        where: { userId: user.userId },
+      });
+
+      if (!connection) {
+        return reply.notFound('GitHub account is not connected.');
+      }
+
+      const accessToken = await decryptSecret({
+        encryptedValue: connection.encryptedAccessToken,
+        iv: connection.iv,
+        authTag: connection.authTag,
+        keyId: connection.keyId,
+      });
+
+      const rootDirectory = query.rootDirectory?.replace(/^[\\/]+|[\\/]+$/g, '') ?? '';
+      const dockerfilePath = rootDirectory ? `${rootDirectory}/Dockerfile` : 'Dockerfile';
+
+      try {
+        const dockerfile = await github.getRepositoryFileContent({
+          accessToken,
+          owner: query.owner,
+          repo: query.repo,
+          path: dockerfilePath,
+          ref: query.ref,
+        });
+
+        return {
+          dockerfile: {
+            detected: dockerfile !== null,
+            path: dockerfilePath,
+          },
+        };
+      } catch (error) {
+        return reply.badRequest((error as Error).message);
+      }
+    },
+  );
+
   app.patch(
     '/projects/:projectId/git-settings',
     { preHandler: [app.authenticate] },
@@ -345,6 +476,7 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
           repoOwner: true,
           repoName: true,
           repoFullName: true,
+          gitProvider: true,
           autoDeployEnabled: true,
         },
       });
@@ -352,6 +484,9 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
       if (!project) {
         return reply.notFound('Project not found');
       }
+      const gitProvider =
+        body.gitProvider ??
+        (isExternalGitProvider(project.gitProvider) ? project.gitProvider : 'github');
 
       try {
         await access.requireOrganizationRole(user.userId, project.organizationId, 'developer');
@@ -394,6 +529,7 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
 
       const updateData: Record<string, unknown> = {};
       const repoIdentityFromRequest = resolveRepoIdentity({
+        gitProvider,
         repoOwner: body.repoOwner,
         repoName: body.repoName,
         repoFullName: body.repoFullName,
@@ -401,7 +537,9 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
       });
       if (body.repoUrl !== undefined) {
         updateData.repoUrl = body.repoUrl;
-        updateData.gitProvider = 'github';
+        updateData.gitProvider = gitProvider;
+        // A new repository needs its webhook set up again before GitLab pushes are accepted.
+        updateData.gitProviderConnectionId = null;
         // Keep repo identity in sync when the URL changes so webhook matching works by default.
         if (
           body.repoOwner === undefined &&
@@ -428,6 +566,8 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
         updateData.installCommand = body.installCommand || null;
       if (body.buildCommand !== undefined) updateData.buildCommand = body.buildCommand || null;
       if (body.startCommand !== undefined) updateData.startCommand = body.startCommand || null;
+      if (body.releaseCommand !== undefined)
+        updateData.releaseCommand = body.releaseCommand || null;
       if (body.targetPort !== undefined) updateData.targetPort = body.targetPort;
       if (body.autoDeployEnabled !== undefined)
         updateData.autoDeployEnabled = body.autoDeployEnabled;
@@ -435,18 +575,30 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
       if (body.previewDeploymentsEnabled !== undefined) {
         updateData.previewDeploymentsEnabled = body.previewDeploymentsEnabled;
       }
+      if (body.includePaths !== undefined) updateData.includePaths = body.includePaths;
+      if (body.excludePaths !== undefined) updateData.excludePaths = body.excludePaths;
       if (body.serviceType !== undefined) {
         updateData.serviceType = body.serviceType;
-        updateData.runtime = body.serviceType === 'python' ? 'python' : 'node';
+        updateData.runtime =
+          body.serviceType === 'python' ||
+          (body.serviceType === 'worker' && body.runtime === 'python')
+            ? 'python'
+            : body.serviceType === 'dockerfile'
+              ? 'docker'
+              : 'node';
       }
       if (body.outputDirectory !== undefined)
         updateData.outputDirectory = body.outputDirectory || null;
+      if (body.dockerfilePath !== undefined)
+        updateData.dockerfilePath = body.dockerfilePath || null;
+      if (body.dockerTarget !== undefined) updateData.dockerTarget = body.dockerTarget || null;
       if (body.wakeMessage !== undefined) updateData.wakeMessage = body.wakeMessage || null;
       if (body.wakeRetrySeconds !== undefined) updateData.wakeRetrySeconds = body.wakeRetrySeconds;
 
       const resolvedAutoDeployEnabled =
         body.autoDeployEnabled ?? (shouldDefaultAutoDeploy ? true : project.autoDeployEnabled);
       const repoIdentity = resolveRepoIdentity({
+        gitProvider,
         repoOwner: body.repoOwner ?? project.repoOwner ?? undefined,
         repoName: body.repoName ?? project.repoName ?? undefined,
         repoFullName: body.repoFullName ?? project.repoFullName ?? undefined,
@@ -456,7 +608,7 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
         | {
             configured: true;
             created: boolean;
-            hookId: number;
+            hookId: number | string;
             url: string;
           }
         | {
@@ -464,7 +616,23 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
             reason: string;
           };
 
-      if (resolvedAutoDeployEnabled && repoIdentity) {
+      if (resolvedAutoDeployEnabled && repoIdentity && isExternalGitProvider(gitProvider)) {
+        try {
+          const ensured = await gitProviders.ensurePushWebhook({
+            userId: user.userId,
+            provider: gitProvider,
+            repoFullName: `${repoIdentity.owner}/${repoIdentity.name}`,
+          });
+          const { connectionId, ...hook } = ensured;
+          updateData.gitProviderConnectionId = connectionId;
+          webhookResult = { configured: true, ...hook };
+        } catch (error) {
+          if (error instanceof GitProviderConnectionError) {
+            return reply.code(error.statusCode).send({ message: error.message });
+          }
+          throw error;
+        }
+      } else if (resolvedAutoDeployEnabled && repoIdentity) {
         if (!env.GITHUB_WEBHOOK_SECRET?.trim()) {
           return reply.code(503).send({
             message:
@@ -481,10 +649,11 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
           });
         }
 
-        const accessToken = decryptSecret({
+        const accessToken = await decryptSecret({
           encryptedValue: connection.encryptedAccessToken,
           iv: connection.iv,
           authTag: connection.authTag,
+          keyId: connection.keyId,
         });
 
         try {
@@ -542,85 +711,26 @@ export const githubIntegrationRoutes: FastifyPluginAsync = async (app) => {
     }
 
     const eventType = request.headers['x-github-event'];
+    if (eventType === 'pull_request') {
+      return handlePullRequestEvent(request.body);
+    }
     if (eventType !== 'push') {
       return { received: true, ignored: true };
     }
 
     const payload = pushWebhookSchema.parse(request.body);
-    const branch = payload.ref.replace('refs/heads/', '');
-    const repoUrlCandidates = buildGitHubRepoUrlCandidates({
-      fullName: payload.repository.full_name,
-      cloneUrl: payload.repository.clone_url,
+    return pushDeployments.handlePush({
+      provider: 'github',
+      trigger: 'github_push',
+      repoFullName: payload.repository.full_name,
+      repoUrlCandidates: buildGitHubRepoUrlCandidates({
+        fullName: payload.repository.full_name,
+        cloneUrl: payload.repository.clone_url,
+      }),
+      branch: payload.ref.replace('refs/heads/', ''),
+      ...(payload.after && { commitSha: payload.after }),
+      changedFiles: collectPushChangedFiles(payload.commits),
     });
-
-    const projects = await prisma.project.findMany({
-      where: {
-        gitProvider: 'github',
-        autoDeployEnabled: true,
-        OR: [
-          { repoFullName: payload.repository.full_name },
-          ...repoUrlCandidates.map((repoUrl) => ({ repoUrl })),
-        ],
-      },
-      select: {
-        id: true,
-        branch: true,
-        previewDeploymentsEnabled: true,
-      },
-    });
-
-    if (!projects.length) {
-      return { received: true, triggered: 0, ignored: 0 };
-    }
-
-    let triggered = 0;
-    let ignored = 0;
-    const errors: Array<{ projectId: string; message: string }> = [];
-
-    for (const project of projects) {
-      // Determine environment: push to the project's production branch → production
-      // Push to any other branch → preview (if enabled)
-      const isProductionBranch = branch === project.branch;
-      const environment = isProductionBranch ? 'production' : 'preview';
-
-      if (!isProductionBranch && !project.previewDeploymentsEnabled) {
-        ignored += 1;
-        continue;
-      }
-      if (payload.after) {
-        const dedupeKey = `apployd:github:push:${project.id}:${payload.after}`;
-        const reserved = await redis.set(dedupeKey, '1', 'NX', 'EX', 60 * 60 * 12);
-        if (!reserved) {
-          ignored += 1;
-          continue;
-        }
-      }
-
-      try {
-        await deploymentService.create({
-          projectId: project.id,
-          trigger: 'github_push',
-          environment,
-          gitUrl: payload.repository.clone_url,
-          branch,
-          ...(payload.after && { commitSha: payload.after }),
-        });
-        triggered += 1;
-      } catch (error) {
-        if (error instanceof DeploymentRequestError) {
-          errors.push({ projectId: project.id, message: error.message });
-        } else {
-          errors.push({ projectId: project.id, message: (error as Error).message });
-        }
-      }
-    }
-
-    return {
-      received: true,
-      triggered,
-      ignored,
-      errors,
-    };
   });
 };
 
@@ -677,6 +787,7 @@ const upsertGitHubConnectionForUser = async (input: {
   encryptedAccessToken: string;
   iv: string;
   authTag: string;
+  keyId: string | null;
 }): Promise<{ reassignedFromUserId: string | null }> => {
   try {
     return await prisma.$transaction(async (tx) => {
@@ -704,6 +815,7 @@ const upsertGitHubConnectionForUser = async (input: {
             encryptedAccessToken: input.encryptedAccessToken,
             iv: input.iv,
             authTag: input.authTag,
+            keyId: input.keyId,
           },
         });
 
@@ -734,6 +846,7 @@ const upsertGitHubConnectionForUser = async (input: {
           encryptedAccessToken: input.encryptedAccessToken,
           iv: input.iv,
           authTag: input.authTag,
+          keyId: input.keyId,
         },
         create: {
           userId: input.userId,
@@ -744,6 +857,7 @@ const upsertGitHubConnectionForUser = async (input: {
           encryptedAccessToken: input.encryptedAccessToken,
           iv: input.iv,
           authTag: input.authTag,
+          keyId: input.keyId,
         },
       });
 
@@ -775,11 +889,16 @@ const buildGitHubWebhookUrl = (): string =>
   `${trimTrailingSlash(env.API_BASE_URL)}/api/v1/integrations/github/webhook`;
 
 const resolveRepoIdentity = (input: {
+  gitProvider?: string;
   repoOwner?: string | undefined;
   repoName?: string | undefined;
   repoFullName?: string | undefined;
   repoUrl?: string | undefined;
 }): { owner: string; name: string } | null => {
+  if (isExternalGitProvider(input.gitProvider)) {
+    return resolveExternalRepoIdentity(input);
+  }
+
   if (input.repoOwner?.trim() && input.repoName?.trim()) {
     return {
       owner: input.repoOwner.trim(),
@@ -909,6 +1028,7 @@ const resolveUserForGitHubLogin = async (input: {
   encryptedAccessToken: string;
   iv: string;
   authTag: string;
+  keyId: string | null;
 }): Promise<{ id: string; email: string; name: string | null }> => {
   const githubSubject = String(input.githubUser.id);
 
@@ -1060,6 +1180,7 @@ const resolveUserForGitHubLogin = async (input: {
     encryptedAccessToken: input.encryptedAccessToken,
     iv: input.iv,
     authTag: input.authTag,
+    keyId: input.keyId,
   });
 
   return {
@@ -713,18 +713,21 @@ const decryptVercelAccessToken = (connection: {
   encryptedAccessToken: string;
   accessTokenIv: string;
   accessTokenAuthTag: string;
-}): string =>
+  accessTokenKeyId: string | null;
+}): Promise<string> =>
   decryptSecret({
     encryptedValue: connection.encryptedAccessToken,
     iv: connection.accessTokenIv,
     authTag: connection.accessTokenAuthTag,
+    keyId: connection.accessTokenKeyId,
   });
 
-const decryptVercelRefreshToken = (connection: {
+const decryptVercelRefreshToken = async (connection: {
   encryptedRefreshToken: string | null;
   refreshTokenIv: string | null;
   refreshTokenAuthTag: string | null;
-}): string | null => {
+  refreshTokenKeyId: string | null;
+}): Promise<string | null> => {
   if (
     !connection.encryptedRefreshToken
     || !connection.refreshTokenIv
@@ -737,6 +740,7 @@ const decryptVercelRefreshToken = (connection: {
     encryptedValue: connection.encryptedRefreshToken,
     iv: connection.refreshTokenIv,
     authTag: connection.refreshTokenAuthTag,
+    keyId: connection.refreshTokenKeyId,
   });
 };
 
@@ -746,8 +750,9 @@ const refreshStoredConnectionToken = async (connection: {
   encryptedRefreshToken: string | null;
   refreshTokenIv: string | null;
   refreshTokenAuthTag: string | null;
+  refreshTokenKeyId: string | null;
 }): Promise<string> => {
-  const refreshToken = decryptVercelRefreshToken(connection);
+  const refreshToken = await decryptVercelRefreshToken(connection);
   if (!refreshToken) {
     throw new Error('Vercel access token expired. Reconnect Vercel and try again.');
   }
@@ -761,9 +766,9 @@ const refreshStoredConnectionToken = async (connection: {
     throw new Error('Unable to refresh Vercel access token. Reconnect Vercel and try again.');
   }
 
-  const encryptedAccess = encryptSecret(refreshed.access_token);
+  const encryptedAccess = await encryptSecret(refreshed.access_token, null);
   const nextRefreshToken = refreshed.refresh_token ?? refreshToken;
-  const encryptedRefresh = encryptSecret(nextRefreshToken);
+  const encryptedRefresh = await encryptSecret(nextRefreshToken, null);
 
   await prisma.vercelConnection.update({
     where: { id: connection.id },
@@ -772,9 +777,11 @@ const refreshStoredConnectionToken = async (connection: {
       encryptedAccessToken: encryptedAccess.encryptedValue,
       accessTokenIv: encryptedAccess.iv,
       accessTokenAuthTag: encryptedAccess.authTag,
+      accessTokenKeyId: encryptedAccess.keyId,
       encryptedRefreshToken: encryptedRefresh.encryptedValue,
       refreshTokenIv: encryptedRefresh.iv,
       refreshTokenAuthTag: encryptedRefresh.authTag,
+      refreshTokenKeyId: encryptedRefresh.keyId,
       accessTokenExpiresAt: toAccessTokenExpiryDate(refreshed.expires_in),
     },
   });
@@ -799,9 +806,11 @@ const resolveVercelApiToken = async (input: {
       encryptedAccessToken: true,
       accessTokenIv: true,
       accessTokenAuthTag: true,
+      accessTokenKeyId: true,
       encryptedRefreshToken: true,
       refreshTokenIv: true,
       refreshTokenAuthTag: true,
+      refreshTokenKeyId: true,
       accessTokenExpiresAt: true,
     },
   });
@@ -815,7 +824,7 @@ const resolveVercelApiToken = async (input: {
   }
 
   try {
-    return decryptVercelAccessToken(connection);
+    return await decryptVercelAccessToken(connection);
   } catch {
     throw new Error('Stored Vercel credentials are invalid. Reconnect your Vercel account.');
   }
@@ -831,9 +840,11 @@ const upsertVercelConnectionForUser = async (input: {
   encryptedAccessToken: string;
   accessTokenIv: string;
   accessTokenAuthTag: string;
+  accessTokenKeyId: string | null;
   encryptedRefreshToken: string | null;
   refreshTokenIv: string | null;
   refreshTokenAuthTag: string | null;
+  refreshTokenKeyId: string | null;
   accessTokenExpiresAt: Date | null;
 }): Promise<void> => {
   try {
@@ -862,9 +873,11 @@ const upsertVercelConnectionForUser = async (input: {
             encryptedAccessToken: input.encryptedAccessToken,
             accessTokenIv: input.accessTokenIv,
             accessTokenAuthTag: input.accessTokenAuthTag,
+            accessTokenKeyId: input.accessTokenKeyId,
             encryptedRefreshToken: input.encryptedRefreshToken,
             refreshTokenIv: input.refreshTokenIv,
             refreshTokenAuthTag: input.refreshTokenAuthTag,
+            refreshTokenKeyId: input.refreshTokenKeyId,
             accessTokenExpiresAt: input.accessTokenExpiresAt,
           },
         });
@@ -882,9 +895,11 @@ const upsertVercelConnectionForUser = async (input: {
           encryptedAccessToken: input.encryptedAccessToken,
           accessTokenIv: input.accessTokenIv,
           accessTokenAuthTag: input.accessTokenAuthTag,
+          accessTokenKeyId: input.accessTokenKeyId,
           encryptedRefreshToken: input.encryptedRefreshToken,
           refreshTokenIv: input.refreshTokenIv,
           refreshTokenAuthTag: input.refreshTokenAuthTag,
+          refreshTokenKeyId: input.refreshTokenKeyId,
           accessTokenExpiresAt: input.accessTokenExpiresAt,
         },
         create: {
@@ -897,9 +912,11 @@ const upsertVercelConnectionForUser = async (input: {
           encryptedAccessToken: input.encryptedAccessToken,
           accessTokenIv: input.accessTokenIv,
           accessTokenAuthTag: input.accessTokenAuthTag,
+          accessTokenKeyId: input.accessTokenKeyId,
           encryptedRefreshToken: input.encryptedRefreshToken,
           refreshTokenIv: input.refreshTokenIv,
           refreshTokenAuthTag: input.refreshTokenAuthTag,
+          refreshTokenKeyId: input.refreshTokenKeyId,
           accessTokenExpiresAt: input.accessTokenExpiresAt,
         },
       });
@@ -1038,9 +1055,10 @@ export const vercelIntegrationRoutes: FastifyPluginAsync = async (app) => {
       }
 
       const vercelUser = await fetchVercelUserInfo(tokenResponse.access_token);
-      const encryptedAccess = encryptSecret(tokenResponse.access_token);
+      // Vercel connections belong to a user, so they use the platform data key.
+      const encryptedAccess = await encryptSecret(tokenResponse.access_token, null);
       const encryptedRefresh = tokenResponse.refresh_token
-        ? encryptSecret(tokenResponse.refresh_token)
+        ? await encryptSecret(tokenResponse.refresh_token, null)
         : null;
 
       await upsertVercelConnectionForUser({
@@ -1053,9 +1071,11 @@ export const vercelIntegrationRoutes: FastifyPluginAsync = async (app) => {
         encryptedAccessToken: encryptedAccess.encryptedValue,
         accessTokenIv: encryptedAccess.iv,
         accessTokenAuthTag: encryptedAccess.authTag,
+        accessTokenKeyId: encryptedAccess.keyId,
         encryptedRefreshToken: encryptedRefresh?.encryptedValue ?? null,
         refreshTokenIv: encryptedRefresh?.iv ?? null,
         refreshTokenAuthTag: encryptedRefresh?.authTag ?? null,
+        refreshTokenKeyId: encryptedRefresh?.keyId ?? null,
         accessTokenExpiresAt: toAccessTokenExpiryDate(tokenResponse.expires_in),
       });
 
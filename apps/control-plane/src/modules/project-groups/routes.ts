@@ -0,0 +1,345 @@
+import type { FastifyPluginAsync } from 'fastify';
+
+import { z } from 'zod';
+
+import { prisma } from '../../lib/prisma.js';
+import { AccessService } from '../../services/access-service.js';
+import { AuditLogService } from '../../services/audit-log-service.js';
+import { DeploymentRequestError } from '../../services/deployment-request-service.js';
+import { ProjectGroupDeploymentService } from '../../services/project-group-deployment-service.js';
+
+const groupNameSchema = z.string().trim().min(1).max(80);
+const projectIdsSchema = z.array(z.string().cuid()).min(1).max(20);
+
+const createGroupSchema = z.object({
+  organizationId: z.string().cuid(),
+  name: groupNameSchema,
+  projectIds: projectIdsSchema,
+});
+
+const updateGroupSchema = z.object({
+  name: groupNameSchema.optional(),
+  projectIds: projectIdsSchema.optional(),
+});
+
+const deployGroupSchema = z.object({
+  environment: z.enum(['production', 'preview']).default('production'),
+  branch: z.string().trim().min(1).max(120).optional(),
+  commitSha: z
+    .string()
+    .trim()
+    .regex(/^[0-9a-f]{7,40}$/i)
+    .optional(),
+});
+
+const groupParamsSchema = z.object({ groupId: z.string().cuid() });
+
+const groupSelect = {
+  id: true,
+  organizationId: true,
+  name: true,
+  createdAt: true,
+  updatedAt: true,
+  projects: {
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      repoFullName: true,
+      branch: true,
+      rootDirectory: true,
+      includePaths: true,
+      excludePaths: true,
+    },
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+class ProjectGroupMembershipError extends Error {}
+
+/**
+ * Group members deploy at one commit, so they must build from the same
+ * repository and production branch, and a project can only join one group.
+ */
+const assertGroupMembers = async (input: {
+  organizationId: string;
+  projectIds: string[];
+  groupId?: string;
+}) => {
+  const projectIds = [...new Set(input.projectIds)];
+  const projects = await prisma.project.findMany({
+    where: { id: { in: projectIds }, organizationId: input.organizationId },
+    select: { id: true, name: true, repoFullName: true, branch: true, groupId: true },
+  });
+
+  if (projects.length !== projectIds.length) {
+    throw new ProjectGroupMembershipError('Every project must belong to this organization.');
+  }
+
+  const unlinked = projects.find((project) => !project.repoFullName);
+  if (unlinked) {
+    throw new ProjectGroupMembershipError(`Project "${unlinked.name}" has no linked repository.`);
+  }
+
+  const repositories = new Set(projects.map((project) => project.repoFullName!.toLowerCase()));
+  if (repositories.size > 1) {
+    throw new ProjectGroupMembershipError('Grouped projects must deploy from the same repository.');
+  }
+
+  const branches = new Set(projects.map((project) => project.branch));
+  if (branches.size > 1) {
+    throw new ProjectGroupMembershipError(
+      'Grouped projects must share the same production branch.',
+    );
+  }
+
+  const grouped = projects.find((project) => project.groupId && project.groupId !== input.groupId);
+  if (grouped) {
+    throw new ProjectGroupMembershipError(
+      `Project "${grouped.name}" already belongs to another group.`,
+    );
+  }
+
+  return projectIds;
+};
+
+export const projectGroupRoutes: FastifyPluginAsync = async (app) => {
+  const access = new AccessService();
+  const audit = new AuditLogService();
+  const groupDeployments = new ProjectGroupDeploymentService();
+
+  app.get('/project-groups', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const user = request.user as { userId: string; email: string };
+    const query = z.object({ organizationId: z.string().cuid() }).parse(request.query);
+
+    try {
+      await access.requireOrganizationRole(user.userId, query.organizationId, 'viewer');
+    } catch (error) {
+      return reply.forbidden((error as Error).message);
+    }
+
+    const groups = await prisma.projectGroup.findMany({
+      where: { organizationId: query.organizationId },
+      select: groupSelect,
+      orderBy: { name: 'asc' },
+    });
+
+    return { groups };
+  });
+
+  app.post('/project-groups', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const user = request.user as { userId: string; email: string };
+    const body = createGroupSchema.parse(request.body);
+
+    try {
+      await access.requireOrganizationRole(user.userId, body.organizationId, 'developer');
+    } catch (error) {
+      return reply.forbidden((error as Error).message);
+    }
+
+    let projectIds: string[];
+    try {
+      projectIds = await assertGroupMembers({
+        organizationId: body.organizationId,
+        projectIds: body.projectIds,
+      });
+    } catch (error) {
+      if (error instanceof ProjectGroupMembershipError) {
+        return reply.badRequest(error.message);
+      }
+      throw error;
+    }
+
+    const existing = await prisma.projectGroup.findUnique({
+      where: { organizationId_name: { organizationId: body.organizationId, name: body.name } },
+      select: { id: true },
+    });
+    if (existing) {
+      return reply.conflict('A project group with this name already exists.');
+    }
+
+    const group = await prisma.$transaction(async (tx) => {
+      const created = await tx.projectGroup.create({
+        data: { organizationId: body.organizationId, name: body.name },
+        select: { id: true },
+      });
+      await tx.project.updateMany({
+        where: { id: { in: projectIds } },
+        data: { groupId: created.id },
+      });
+      return tx.projectGroup.findUniqueOrThrow({ where: { id: created.id }, select: groupSelect });
+    });
+
+    await audit.record({
+      organizationId: body.organizationId,
+      actorUserId: user.userId,
+      action: 'project_group.created',
+      entityType: 'project_group',
+      entityId: group.id,
+      metadata: { name: group.name, projectIds },
+    });
+
+    return reply.code(201).send({ group });
+  });
+
+  app.patch(
+    '/project-groups/:groupId',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = groupParamsSchema.parse(request.params);
+      const body = updateGroupSchema.parse(request.body);
+
+      const group = await prisma.projectGroup.findUnique({
+        where: { id: params.groupId },
+        select: { id: true, organizationId: true, name: true },
+      });
+      if (!group) {
+        return reply.notFound('Project group not found');
+      }
+
+      try {
+        await access.requireOrganizationRole(user.userId, group.organizationId, 'developer');
+      } catch (error) {
+        return reply.forbidden((error as Error).message);
+      }
+
+      let projectIds: string[] | undefined;
+      if (body.projectIds) {
+        try {
+          projectIds = await assertGroupMembers({
+            organizationId: group.organizationId,
+            projectIds: body.projectIds,
+            groupId: group.id,
+          });
+        } catch (error) {
+          if (error instanceof ProjectGroupMembershipError) {
+            return reply.badRequest(error.message);
+          }
+          throw error;
+        }
+      }
+
+      if (body.name && body.name !== group.name) {
+        const existing = await prisma.projectGroup.findUnique({
+          where: {
+            organizationId_name: { organizationId: group.organizationId, name: body.name },
+          },
+          select: { id: true },
+        });
+        if (existing) {
+          return reply.conflict('A project group with this name already exists.');
+        }
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        if (body.name) {
+          await tx.projectGroup.update({ where: { id: group.id }, data: { name: body.name } });
+        }
+        if (projectIds) {
+          await tx.project.updateMany({
+            where: { groupId: group.id, id: { notIn: projectIds } },
+            data: { groupId: null },
+          });
+          await tx.project.updateMany({
+            where: { id: { in: projectIds } },
+            data: { groupId: group.id },
+          });
+        }
+        return tx.projectGroup.findUniqueOrThrow({ where: { id: group.id }, select: groupSelect });
+      });
+
+      await audit.record({
+        organizationId: group.organizationId,
+        actorUserId: user.userId,
+        action: 'project_group.updated',
+        entityType: 'project_group',
+        entityId: group.id,
+        metadata: {
+          ...(body.name && { name: body.name }),
+          ...(projectIds && { projectIds }),
+        },
+      });
+
+      return { group: updated };
+    },
+  );
+
+  app.delete(
+    '/project-groups/:groupId',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = groupParamsSchema.parse(request.params);
+
+      const group = await prisma.projectGroup.findUnique({
+        where: { id: params.groupId },
+        select: { id: true, organizationId: true, name: true },
+      });
+      if (!group) {
+        return reply.notFound('Project group not found');
+      }
+
+      try {
+        await access.requireOrganizationRole(user.userId, group.organizationId, 'developer');
+      } catch (error) {
+        return reply.forbidden((error as Error).message);
+      }
+
+      // Members are detached (groupId is SET NULL) and keep deploying on their own.
+      await prisma.projectGroup.delete({ where: { id: group.id } });
+
+      await audit.record({
+        organizationId: group.organizationId,
+        actorUserId: user.userId,
+        action: 'project_group.deleted',
+        entityType: 'project_group',
+        entityId: group.id,
+        metadata: { name: group.name },
+      });
+
+      return { deleted: true };
+    },
+  );
+
+  app.post(
+    '/project-groups/:groupId/deploy',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = groupParamsSchema.parse(request.params);
+      const body = deployGroupSchema.parse(request.body ?? {});
+
+      const group = await prisma.projectGroup.findUnique({
+        where: { id: params.groupId },
+        select: { id: true, organizationId: true },
+      });
+      if (!group) {
+        return reply.notFound('Project group not found');
+      }
+
+      try {
+        await access.requireOrganizationRole(user.userId, group.organizationId, 'developer');
+      } catch (error) {
+        return reply.forbidden((error as Error).message);
+      }
+
+      try {
+        const result = await groupDeployments.deploy({
+          groupId: group.id,
+          actorUserId: user.userId,
+          trigger: 'manual',
+          environment: body.environment,
+          ...(body.branch && { branch: body.branch }),
+          ...(body.commitSha && { commitSha: body.commitSha }),
+        });
+        return reply.code(202).send(result);
+      } catch (error) {
+        if (error instanceof DeploymentRequestError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        throw error;
+      }
+    },
+  );
+};
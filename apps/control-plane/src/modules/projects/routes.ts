@@ -5,9 +5,21 @@ import { z } from 'zod';
 
 import { env } from '../../config/env.js';
 import { getPlanEntitlements } from '../../domain/plan-entitlements.js';
+import {
+  gitProviderSchema,
+  isExternalGitProvider,
+  resolveExternalRepoIdentity,
+} from '../../lib/git-providers.js';
+import { parseImageReference } from '../../lib/image-reference.js';
+import { pathFiltersSchema } from '../../lib/path-filters.js';
 import { decryptSecret } from '../../lib/secrets.js';
 import { AccessService } from '../../services/access-service.js';
 import { AuditLogService } from '../../services/audit-log-service.js';
+import { DeployQueueService } from '../../services/deploy-queue-service.js';
+import {
+  GitProviderConnectionError,
+  GitProviderConnectionService,
+} from '../../services/git-provider-connection-service.js';
 import { GitHubService } from '../../services/github-service.js';
 import { prisma } from '../../lib/prisma.js';
 import {
@@ -29,6 +41,9 @@ const createProjectSchema = z.object({
     .min(2)
     .max(63)
     .regex(/^[a-z0-9-]+$/),
+  gitProvider: gitProviderSchema.default('github'),
+  sourceType: z.enum(['git', 'image']).default('git'),
+  imageReference: z.string().trim().min(1).max(512).optional(),
   repoUrl: z.string().url().optional(),
   repoOwner: z.string().min(1).max(120).optional(),
   repoName: z.string().min(1).max(120).optional(),
@@ -38,11 +53,22 @@ const createProjectSchema = z.object({
   installCommand: z.string().max(300).optional(),
   buildCommand: z.string().max(300).optional(),
   startCommand: z.string().max(300).optional(),
-  serviceType: z.enum(['web_service', 'static_site', 'python']).default('web_service'),
+  releaseCommand: z.string().max(300).optional(),
+  serviceType: z
+    .enum(['web_service', 'static_site', 'python', 'dockerfile', 'worker'])
+    .default('web_service'),
   outputDirectory: z.string().max(300).optional(),
+  dockerfilePath: z.string().trim().min(1).max(300).optional(),
+  dockerTarget: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9][A-Za-z0-9_.-]{0,127}$/, 'Build target must be a Dockerfile stage name')
+    .optional(),
   rootDirectory: z.string().max(255).optional(),
   autoDeployEnabled: z.boolean().default(true),
   previewDeploymentsEnabled: z.boolean().default(true),
+  includePaths: pathFiltersSchema.optional(),
+  excludePaths: pathFiltersSchema.optional(),
   targetPort: z.number().int().min(1).max(65535).default(3000),
   resourceRamMb: z.number().int().min(128).max(32768).default(256),
   resourceCpuMillicore: z.number().int().min(100).max(16000).default(250),
@@ -53,8 +79,123 @@ const updateResourceSchema = z.object({
   resourceRamMb: z.number().int().min(128).max(32768),
   resourceCpuMillicore: z.number().int().min(100).max(16000),
   resourceBandwidthGb: z.number().int().min(1).max(50000),
+  /** Takes effect on the next production deployment. */
+  replicaCount: z.number().int().min(1).max(20).optional(),
 });
 
+const healthCheckSchema = z
+  .object({
+    path: z
+      .string()
+      .trim()
+      .max(512)
+      .regex(/^\/[A-Za-z0-9\-._~!$&'()*+,;=:@%/?]*$/, 'Path must start with / and be URL-safe')
+      .nullable(),
+    statusMin: z.number().int().min(100).max(599).default(200),
+    statusMax: z.number().int().min(100).max(599).default(399),
+    bodyMatch: z.string().max(256).nullable().default(null),
+    initialDelaySeconds: z.number().int().min(0).max(600).default(0),
+    periodSeconds: z.number().int().min(1).max(300).default(10),
+    failureThreshold: z.number().int().min(1).max(20).default(3),
+  })
+  .refine((value) => value.statusMin <= value.statusMax, {
+    message: 'statusMin must not exceed statusMax',
+    path: ['statusMin'],
+  });
+
+const healthCheckSelect = {
+  healthCheckPath: true,
+  healthCheckStatusMin: true,
+  healthCheckStatusMax: true,
+  healthCheckBodyMatch: true,
+  healthCheckInitialDelaySeconds: true,
+  healthCheckPeriodSeconds: true,
+  healthCheckFailureThreshold: true,
+} as const;
+
+const toHealthCheckSettings = (
+  project: Pick<Project, keyof typeof healthCheckSelect>,
+): z.infer<typeof healthCheckSchema> => ({
+  path: project.healthCheckPath,
+  statusMin: project.healthCheckStatusMin,
+  statusMax: project.healthCheckStatusMax,
+  bodyMatch: project.healthCheckBodyMatch,
+  initialDelaySeconds: project.healthCheckInitialDelaySeconds,
+  periodSeconds: project.healthCheckPeriodSeconds,
+  failureThreshold: project.healthCheckFailureThreshold,
+});
+
+const gracefulShutdownSchema = z.object({
+  drainTimeoutSeconds: z.number().int().min(0).max(3600),
+  stopGraceSeconds: z.number().int().min(1).max(300),
+});
+
+const gracefulShutdownSelect = {
+  drainTimeoutSeconds: true,
+  stopGraceSeconds: true,
+} as const;
+
+const blueGreenSchema = z.object({
+  keepWarmSeconds: z.number().int().min(0).max(86400),
+});
+
+const autoscalingSchema = z
+  .object({
+    enabled: z.boolean(),
+    minReplicas: z.number().int().min(1).max(20),
+    maxReplicas: z.number().int().min(1).max(20),
+    targetCpuPercent: z.number().int().min(10).max(100).nullable(),
+    targetMemoryPercent: z.number().int().min(10).max(100).nullable(),
+    targetRequestsPerMinute: z.number().int().min(1).max(1_000_000).nullable(),
+    scaleUpCooldownSeconds: z.number().int().min(30).max(3600).default(120),
+    scaleDownCooldownSeconds: z.number().int().min(60).max(86_400).default(300),
+    stabilizationSeconds: z.number().int().min(0).max(3600).default(300),
+  })
+  .refine((value) => value.minReplicas <= value.maxReplicas, {
+    message: 'minReplicas must not exceed maxReplicas',
+    path: ['minReplicas'],
+  })
+  .refine(
+    (value) =>
+      !value.enabled ||
+      value.targetCpuPercent !== null ||
+      value.targetMemoryPercent !== null ||
+      value.targetRequestsPerMinute !== null,
+    { message: 'Set at least one scaling target', path: ['targetCpuPercent'] },
+  );
+
+const autoscalingSelect = {
+  replicaCount: true,
+  autoscaleEnabled: true,
+  autoscaleMinReplicas: true,
+  autoscaleMaxReplicas: true,
+  autoscaleTargetCpuPercent: true,
+  autoscaleTargetMemoryPercent: true,
+  autoscaleTargetRequestsPerMinute: true,
+  autoscaleScaleUpCooldownSeconds: true,
+  autoscaleScaleDownCooldownSeconds: true,
+  autoscaleStabilizationSeconds: true,
+  autoscaleLastScaledAt: true,
+} as const;
+
+const toAutoscalingSettings = (
+  project: Pick<Project, keyof typeof autoscalingSelect>,
+): z.infer<typeof autoscalingSchema> & { replicaCount: number; lastScaledAt: Date | null } => ({
+  enabled: project.autoscaleEnabled,
+  minReplicas: project.autoscaleMinReplicas,
+  maxReplicas: project.autoscaleMaxReplicas,
+  targetCpuPercent: project.autoscaleTargetCpuPercent,
+  targetMemoryPercent: project.autoscaleTargetMemoryPercent,
+  targetRequestsPerMinute: project.autoscaleTargetRequestsPerMinute,
+  scaleUpCooldownSeconds: project.autoscaleScaleUpCooldownSeconds,
+  scaleDownCooldownSeconds: project.autoscaleScaleDownCooldownSeconds,
+  stabilizationSeconds: project.autoscaleStabilizationSeconds,
+  replicaCount: project.replicaCount,
+  lastScaledAt: project.autoscaleLastScaledAt,
+});
+
+const AUTOSCALE_DECISION_ACTIONS = ['project.autoscaled', 'project.autoscale.blocked'];
+
 const projectIdParamsSchema = z.object({
   projectId: z.string().cuid(),
 });
@@ -69,11 +210,16 @@ const buildGitHubWebhookUrl = (): string =>
   `${trimTrailingSlash(env.API_BASE_URL)}/api/v1/integrations/github/webhook`;
 
 const resolveRepoIdentity = (input: {
+  gitProvider?: string;
   repoOwner?: string | undefined;
   repoName?: string | undefined;
   repoFullName?: string | undefined;
   repoUrl?: string | undefined;
 }): { owner: string; name: string } | null => {
+  if (isExternalGitProvider(input.gitProvider)) {
+    return resolveExternalRepoIdentity(input);
+  }
+
   if (input.repoOwner?.trim() && input.repoName?.trim()) {
     return {
       owner: input.repoOwner.trim(),
@@ -133,6 +279,8 @@ export const projectRoutes: FastifyPluginAsync = async (app) => {
   const usage = new ProjectUsageService();
   const projectDeleteOtp = new ProjectDeleteOtpService();
   const github = new GitHubService();
+  const gitProviders = new GitProviderConnectionService();
+  const queue = new DeployQueueService();
 
   app.get('/projects', { preHandler: [app.authenticate] }, async (request, reply) => {
     const user = request.user as { userId: string; email: string };
@@ -247,8 +395,25 @@ export const projectRoutes: FastifyPluginAsync = async (app) => {
       : false;
     const projectServiceType =
       body.serviceType ?? (body.runtime === 'python' ? 'python' : 'web_service');
-    const projectRuntime = projectServiceType === 'python' ? 'python' : 'node';
+    // Workers keep the requested runtime; it selects their build image.
+    const projectRuntime =
+      projectServiceType === 'python' ||
+      (projectServiceType === 'worker' && body.runtime === 'python')
+        ? 'python'
+        : projectServiceType === 'dockerfile'
+          ? 'docker'
+          : 'node';
+    if (body.imageReference && !parseImageReference(body.imageReference)) {
+      return reply.badRequest(
+        'Image must look like registry/repository:tag or registry/repository@sha256:<digest>',
+      );
+    }
+    if (body.sourceType === 'image' && !body.imageReference) {
+      return reply.badRequest('imageReference is required for image deployments.');
+    }
+
     const repoIdentity = resolveRepoIdentity({
+      gitProvider: body.gitProvider,
       repoOwner: body.repoOwner,
       repoName: body.repoName,
       repoFullName: body.repoFullName,
@@ -263,7 +428,7 @@ export const projectRoutes: FastifyPluginAsync = async (app) => {
       | {
           configured: true;
           created: boolean;
-          hookId: number;
+          hookId: number | string;
           url: string;
         }
       | {
@@ -271,7 +436,25 @@ export const projectRoutes: FastifyPluginAsync = async (app) => {
           reason: string;
         };
 
-    if (autoDeployEnabled && repoIdentity) {
+    let webhookConnectionId: string | null = null;
+
+    if (autoDeployEnabled && repoIdentity && isExternalGitProvider(body.gitProvider)) {
+      try {
+        const ensured = await gitProviders.ensurePushWebhook({
+          userId: user.userId,
+          provider: body.gitProvider,
+          repoFullName: `${repoIdentity.owner}/${repoIdentity.name}`,
+        });
+        const { connectionId, ...hook } = ensured;
+        webhookConnectionId = connectionId;
+        webhook = { configured: true, ...hook };
+      } catch (error) {
+        if (error instanceof GitProviderConnectionError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        throw error;
+      }
+    } else if (autoDeployEnabled && repoIdentity) {
       if (!env.GITHUB_WEBHOOK_SECRET?.trim()) {
         return reply.code(503).send({
           message:
@@ -288,10 +471,11 @@ export const projectRoutes: FastifyPluginAsync = async (app) => {
         });
       }
 
-      const accessToken = decryptSecret({
+      const accessToken = await decryptSecret({
         encryptedValue: connection.encryptedAccessToken,
         iv: connection.iv,
         authTag: connection.authTag,
+        keyId: connection.keyId,
       });
 
       try {
@@ -331,7 +515,10 @@ export const projectRoutes: FastifyPluginAsync = async (app) => {
             createdById: user.userId,
             runtime: projectRuntime,
             serviceType: projectServiceType,
-            gitProvider: body.repoUrl ? 'github' : null,
+            sourceType: body.sourceType,
+            ...(body.imageReference && { imageReference: body.imageReference }),
+            gitProvider: body.repoUrl ? body.gitProvider : null,
+            gitProviderConnectionId: webhookConnectionId,
             ...(body.repoUrl && { repoUrl: body.repoUrl }),
             ...(repoOwner && { repoOwner }),
             ...(repoName && { repoName }),
@@ -340,12 +527,21 @@ export const projectRoutes: FastifyPluginAsync = async (app) => {
             ...(body.installCommand && { installCommand: body.installCommand }),
             ...(body.buildCommand && { buildCommand: body.buildCommand }),
             ...(body.startCommand && { startCommand: body.startCommand }),
+            ...(body.releaseCommand && { releaseCommand: body.releaseCommand }),
             ...(projectServiceType === 'static_site' && body.outputDirectory
               ? { outputDirectory: body.outputDirectory }
               : {}),
+            ...(projectServiceType === 'dockerfile' && body.dockerfilePath
+              ? { dockerfilePath: body.dockerfilePath }
+              : {}),
+            ...(projectServiceType === 'dockerfile' && body.dockerTarget
+              ? { dockerTarget: body.dockerTarget }
+              : {}),
             ...(body.rootDirectory && { rootDirectory: body.rootDirectory }),
             autoDeployEnabled,
             previewDeploymentsEnabled,
+            ...(body.includePaths && { includePaths: body.includePaths }),
+            ...(body.excludePaths && { excludePaths: body.excludePaths }),
             ...(body.targetPort && { targetPort: body.targetPort }),
             resourceRamMb: 128,
             resourceCpuMillicore: 100,
@@ -409,7 +605,7 @@ export const projectRoutes: FastifyPluginAsync = async (app) => {
 
       const project = await prisma.project.findUnique({
         where: { id: params.projectId },
-        select: { id: true, organizationId: true },
+        select: { id: true, organizationId: true, replicaCount: true, autoscaleEnabled: true },
       });
 
       if (!project) {
@@ -422,6 +618,14 @@ export const projectRoutes: FastifyPluginAsync = async (app) => {
         return reply.forbidden((error as Error).message);
       }
 
+      if (
+        project.autoscaleEnabled &&
+        body.replicaCount !== undefined &&
+        body.replicaCount !== project.replicaCount
+      ) {
+        return reply.conflict('Replica count is managed by the autoscaler while it is enabled');
+      }
+
       let updated: Project;
       try {
         updated = await withSerializableRetry(async (tx) => {
@@ -432,6 +636,7 @@ export const projectRoutes: FastifyPluginAsync = async (app) => {
               ramMb: body.resourceRamMb,
               cpuMillicores: body.resourceCpuMillicore,
               bandwidthGb: body.resourceBandwidthGb,
+              ...(body.replicaCount && { replicas: body.replicaCount }),
             },
             tx,
           );
@@ -442,6 +647,7 @@ export const projectRoutes: FastifyPluginAsync = async (app) => {
               resourceRamMb: body.resourceRamMb,
               resourceCpuMillicore: body.resourceCpuMillicore,
               resourceBandwidthGb: body.resourceBandwidthGb,
+              ...(body.replicaCount && { replicaCount: body.replicaCount }),
             },
           });
         });
@@ -467,6 +673,441 @@ export const projectRoutes: FastifyPluginAsync = async (app) => {
     },
   );
 
+  app.get(
+    '/projects/:projectId/health-check',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectIdParamsSchema.parse(request.params);
+
+      const project = await prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: { organizationId: true, ...healthCheckSelect },
+      });
+
+      if (!project) {
+        return reply.notFound('Project not found');
+      }
+
+      try {
+        await access.requireOrganizationRole(user.userId, project.organizationId, 'viewer');
+      } catch (error) {
+        return reply.forbidden((error as Error).message);
+      }
+
+      return { healthCheck: toHealthCheckSettings(project) };
+    },
+  );
+
+  // Probe settings apply from the next deployment (readiness) and the engine's
+  // next liveness cycle; running containers are not restarted by this change.
+  app.put(
+    '/projects/:projectId/health-check',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectIdParamsSchema.parse(request.params);
+      const body = healthCheckSchema.parse(request.body);
+
+      const project = await prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: { id: true, organizationId: true, serviceType: true },
+      });
+
+      if (!project) {
+        return reply.notFound('Project not found');
+      }
+
+      try {
+        await access.requireOrganizationRole(user.userId, project.organizationId, 'developer');
+      } catch (error) {
+        return reply.forbidden((error as Error).message);
+      }
+
+      if (project.serviceType === 'worker' && body.path) {
+        return reply.badRequest(
+          'Workers have no HTTP port to probe; they are healthy while the container keeps running.',
+        );
+      }
+
+      const updated = await prisma.project.update({
+        where: { id: project.id },
+        data: {
+          healthCheckPath: body.path || null,
+          healthCheckStatusMin: body.statusMin,
+          healthCheckStatusMax: body.statusMax,
+          healthCheckBodyMatch: body.bodyMatch || null,
+          healthCheckInitialDelaySeconds: body.initialDelaySeconds,
+          healthCheckPeriodSeconds: body.periodSeconds,
+          healthCheckFailureThreshold: body.failureThreshold,
+        },
+        select: healthCheckSelect,
+      });
+
+      const healthCheck = toHealthCheckSettings(updated);
+      await audit.record({
+        organizationId: project.organizationId,
+        actorUserId: user.userId,
+        action: 'project.health_check.updated',
+        entityType: 'project',
+        entityId: project.id,
+        metadata: healthCheck,
+      });
+
+      return { healthCheck };
+    },
+  );
+
+  app.get(
+    '/projects/:projectId/graceful-shutdown',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectIdParamsSchema.parse(request.params);
+
+      const project = await prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: { organizationId: true, ...gracefulShutdownSelect },
+      });
+
+      if (!project) {
+        return reply.notFound('Project not found');
+      }
+
+      try {
+        await access.requireOrganizationRole(user.userId, project.organizationId, 'viewer');
+      } catch (error) {
+        return reply.forbidden((error as Error).message);
+      }
+
+      return {
+        gracefulShutdown: {
+          drainTimeoutSeconds: project.drainTimeoutSeconds,
+          stopGraceSeconds: project.stopGraceSeconds,
+        },
+      };
+    },
+  );
+
+  // Read by the engine whenever it retires containers (promote, rollback,
+  // canary abort), so changes apply to the next cutover.
+  app.put(
+    '/projects/:projectId/graceful-shutdown',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectIdParamsSchema.parse(request.params);
+      const body = gracefulShutdownSchema.parse(request.body);
+
+      const project = await prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: { id: true, organizationId: true },
+      });
+
+      if (!project) {
+        return reply.notFound('Project not found');
+      }
+
+      try {
+        await access.requireOrganizationRole(user.userId, project.organizationId, 'developer');
+      } catch (error) {
+        return reply.forbidden((error as Error).message);
+      }
+
+      const gracefulShutdown = await prisma.project.update({
+        where: { id: project.id },
+        data: {
+          drainTimeoutSeconds: body.drainTimeoutSeconds,
+          stopGraceSeconds: body.stopGraceSeconds,
+        },
+        select: gracefulShutdownSelect,
+      });
+
+      await audit.record({
+        organizationId: project.organizationId,
+        actorUserId: user.userId,
+        action: 'project.graceful_shutdown.updated',
+        entityType: 'project',
+        entityId: project.id,
+        metadata: gracefulShutdown,
+      });
+
+      return { gracefulShutdown };
+    },
+  );
+
+  app.get(
+    '/projects/:projectId/blue-green',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectIdParamsSchema.parse(request.params);
+
+      const project = await prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: {
+          organizationId: true,
+          activeDeploymentId: true,
+          blueGreenDeploymentId: true,
+          blueGreenIdleUntil: true,
+          blueGreenKeepWarmSeconds: true,
+          blueGreenDeployment: { select: { verificationDomain: true } },
+        },
+      });
+
+      if (!project) {
+        return reply.notFound('Project not found');
+      }
+
+      try {
+        await access.requireOrganizationRole(user.userId, project.organizationId, 'viewer');
+      } catch (error) {
+        return reply.forbidden((error as Error).message);
+      }
+
+      const verificationDomain = project.blueGreenDeployment?.verificationDomain ?? null;
+      return {
+        blueGreen: {
+          keepWarmSeconds: project.blueGreenKeepWarmSeconds,
+          activeDeploymentId: project.activeDeploymentId,
+          idleDeploymentId: project.blueGreenDeploymentId,
+          // Null while the idle side is a new deployment that never took traffic.
+          idleUntil: project.blueGreenIdleUntil,
+          verificationUrl: verificationDomain ? `https://${verificationDomain}` : null,
+        },
+      };
+    },
+  );
+
+  // Applies to the next switch; a deployment already kept warm keeps its deadline.
+  app.put(
+    '/projects/:projectId/blue-green',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectIdParamsSchema.parse(request.params);
+      const body = blueGreenSchema.parse(request.body);
+
+      const project = await prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: { id: true, organizationId: true },
+      });
+
+      if (!project) {
+        return reply.notFound('Project not found');
+      }
+
+      try {
+        await access.requireOrganizationRole(user.userId, project.organizationId, 'developer');
+      } catch (error) {
+        return reply.forbidden((error as Error).message);
+      }
+
+      const updated = await prisma.project.update({
+        where: { id: project.id },
+        data: { blueGreenKeepWarmSeconds: body.keepWarmSeconds },
+        select: { blueGreenKeepWarmSeconds: true },
+      });
+
+      await audit.record({
+        organizationId: project.organizationId,
+        actorUserId: user.userId,
+        action: 'project.blue_green.updated',
+        entityType: 'project',
+        entityId: project.id,
+        metadata: { keepWarmSeconds: updated.blueGreenKeepWarmSeconds },
+      });
+
+      return { blueGreen: { keepWarmSeconds: updated.blueGreenKeepWarmSeconds } };
+    },
+  );
+
+  app.get(
+    '/projects/:projectId/autoscaling',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectIdParamsSchema.parse(request.params);
+
+      const project = await prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: { id: true, organizationId: true, ...autoscalingSelect },
+      });
+
+      if (!project) {
+        return reply.notFound('Project not found');
+      }
+
+      try {
+        await access.requireOrganizationRole(user.userId, project.organizationId, 'viewer');
+      } catch (error) {
+        return reply.forbidden((error as Error).message);
+      }
+
+      const decisions = await prisma.auditLog.findMany({
+        where: {
+          entityType: 'project',
+          entityId: project.id,
+          action: { in: AUTOSCALE_DECISION_ACTIONS },
+        },
+        orderBy: { timestamp: 'desc' },
+        take: 20,
+        select: { id: true, action: true, metadata: true, timestamp: true },
+      });
+
+      return { autoscaling: toAutoscalingSettings(project), decisions };
+    },
+  );
+
+  // The autoscaler picks up changes on its next cycle; replicas already running
+  // stay until a decision moves them.
+  app.put(
+    '/projects/:projectId/autoscaling',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectIdParamsSchema.parse(request.params);
+      const body = autoscalingSchema.parse(request.body);
+
+      const project = await prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: {
+          id: true,
+          organizationId: true,
+          replicaCount: true,
+          resourceRamMb: true,
+          resourceCpuMillicore: true,
+          resourceBandwidthGb: true,
+        },
+      });
+
+      if (!project) {
+        return reply.notFound('Project not found');
+      }
+
+      try {
+        await access.requireOrganizationRole(user.userId, project.organizationId, 'developer');
+      } catch (error) {
+        return reply.forbidden((error as Error).message);
+      }
+
+      if (body.enabled && body.minReplicas > project.replicaCount) {
+        try {
+          await policy.assertCanAllocate(project.organizationId, project.id, {
+            ramMb: project.resourceRamMb,
+            cpuMillicores: project.resourceCpuMillicore,
+            bandwidthGb: project.resourceBandwidthGb,
+            replicas: body.minReplicas,
+          });
+        } catch (error) {
+          return reply.badRequest((error as Error).message);
+        }
+      }
+
+      const updated = await prisma.project.update({
+        where: { id: project.id },
+        data: {
+          autoscaleEnabled: body.enabled,
+          autoscaleMinReplicas: body.minReplicas,
+          autoscaleMaxReplicas: body.maxReplicas,
+          autoscaleTargetCpuPercent: body.targetCpuPercent,
+          autoscaleTargetMemoryPercent: body.targetMemoryPercent,
+          autoscaleTargetRequestsPerMinute: body.targetRequestsPerMinute,
+          autoscaleScaleUpCooldownSeconds: body.scaleUpCooldownSeconds,
+          autoscaleScaleDownCooldownSeconds: body.scaleDownCooldownSeconds,
+          autoscaleStabilizationSeconds: body.stabilizationSeconds,
+          autoscaleScaleDownSince: null,
+          autoscaleScaleDownReplicas: null,
+        },
+        select: autoscalingSelect,
+      });
+
+      await audit.record({
+        organizationId: project.organizationId,
+        actorUserId: user.userId,
+        action: 'project.autoscaling.updated',
+        entityType: 'project',
+        entityId: project.id,
+        metadata: body,
+      });
+
+      return { autoscaling: toAutoscalingSettings(updated) };
+    },
+  );
+
+  app.delete(
+    '/projects/:projectId/build-cache',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectIdParamsSchema.parse(request.params);
+
+      const project = await prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: { id: true, organizationId: true },
+      });
+
+      if (!project) {
+        return reply.notFound('Project not found');
+      }
+
+      try {
+        await access.requireOrganizationRole(user.userId, project.organizationId, 'developer');
+      } catch (error) {
+        return reply.forbidden((error as Error).message);
+      }
+
+      const updated = await prisma.project.update({
+        where: { id: project.id },
+        data: {
+          buildCacheGeneration: { increment: 1 },
+          buildCachePurgedAt: new Date(),
+        },
+        select: { buildCacheGeneration: true, buildCachePurgedAt: true },
+      });
+
+      await queue
+        .publishBuildCachePurge({
+          projectId: project.id,
+          generation: updated.buildCacheGeneration,
+        })
+        .catch((error) => {
+          request.log.warn(
+            { err: error, projectId: project.id },
+            'Build cache purge broadcast failed',
+          );
+        });
+
+      await prisma.logEntry.create({
+        data: {
+          projectId: project.id,
+          level: 'info',
+          source: 'control-plane',
+          message: 'Build cache purged; the next deployment rebuilds every layer',
+          metadata: {
+            eventType: 'build_cache.purged',
+            generation: updated.buildCacheGeneration,
+          },
+        },
+      });
+
+      await audit.record({
+        organizationId: project.organizationId,
+        actorUserId: user.userId,
+        action: 'project.build_cache.purged',
+        entityType: 'project',
+        entityId: project.id,
+        metadata: { generation: updated.buildCacheGeneration },
+      });
+
+      return {
+        success: true,
+        buildCacheGeneration: updated.buildCacheGeneration,
+        buildCachePurgedAt: updated.buildCachePurgedAt,
+      };
+    },
+  );
+
   app.post(
     '/projects/:projectId/delete/request-otp',
     { preHandler: [app.authenticate] },
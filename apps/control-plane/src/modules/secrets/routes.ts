@@ -2,15 +2,38 @@ import type { FastifyPluginAsync } from 'fastify';
 
 import { z } from 'zod';
 
+import { describeSecretScope } from '../../domain/secret-scopes.js';
 import { DotenvParseError, parseDotenvText } from '../../lib/dotenv-parser.js';
-import { decryptSecret, encryptSecret } from '../../lib/secrets.js';
+import { decryptSecret } from '../../lib/secrets.js';
 import { prisma } from '../../lib/prisma.js';
 import { AccessService } from '../../services/access-service.js';
 import { AuditLogService } from '../../services/audit-log-service.js';
+import {
+  ProjectSecretError,
+  ProjectSecretService,
+  type SecretValueInput,
+} from '../../services/project-secret-service.js';
+
+const secretValueFields = {
+  value: z.string().max(4096).optional(),
+  /** External store reference such as `vault://kv/data/app#DB_PASSWORD`, resolved per deployment */
+  reference: z.string().trim().min(1).max(1024).optional(),
+};
 
-const upsertSecretBody = z.object({
-  value: z.string().max(4096),
-});
+const hasOneSecretValue = (value: { value?: string | undefined; reference?: string | undefined }) =>
+  (value.value === undefined) !== (value.reference === undefined);
+
+const toSecretValueInput = (value: {
+  value?: string | undefined;
+  reference?: string | undefined;
+}): SecretValueInput =>
+  value.reference !== undefined
+    ? { value: value.reference, valueType: 'reference' }
+    : { value: value.value!, valueType: 'literal' };
+
+const upsertSecretBody = z
+  .object(secretValueFields)
+  .refine(hasOneSecretValue, { message: 'Provide either value or reference.', path: ['value'] });
 
 const SECRET_KEY_PATTERN = /^[A-Z_][A-Z0-9_]*$/;
 
@@ -26,10 +49,15 @@ const bulkUpsertSecretsBody = z
     envText: z.string().max(200_000).optional(),
     secrets: z
       .array(
-        z.object({
-          key: secretKeySchema,
-          value: z.string().max(4096),
-        }),
+        z
+          .object({
+            key: secretKeySchema,
+            ...secretValueFields,
+          })
+          .refine(hasOneSecretValue, {
+            message: 'Provide either value or reference.',
+            path: ['value'],
+          }),
       )
       .max(500)
       .optional(),
@@ -44,13 +72,42 @@ const bulkUpsertSecretsBody = z
     },
   );
 
+const secretScopeSchema = z.enum(['shared', 'production', 'preview', 'branch']);
+
+const secretBranchSchema = z.string().trim().min(1).max(255);
+
+/**
+ * Scope a write, read or delete applies to, from the query string. Without
+ * one it is the shared layer every deployment reads.
+ */
+const scopeQuerySchema = z
+  .object({
+    scope: secretScopeSchema.default('shared'),
+    branch: secretBranchSchema.optional(),
+  })
+  .refine((value) => (value.scope === 'branch') === Boolean(value.branch), {
+    message: 'branch is required for the branch scope and not allowed for the others.',
+    path: ['branch'],
+  })
+  .transform((value) => ({
+    scope: value.scope,
+    branch: value.scope === 'branch' ? value.branch! : '',
+  }));
+
+const listSecretsQuerySchema = z.object({
+  scope: secretScopeSchema.optional(),
+  branch: secretBranchSchema.optional(),
+});
+
 export const secretRoutes: FastifyPluginAsync = async (app) => {
   const access = new AccessService();
   const audit = new AuditLogService();
+  const secrets = new ProjectSecretService();
 
   app.get('/projects/:projectId/secrets', { preHandler: [app.authenticate] }, async (request, reply) => {
     const user = request.user as { userId: string; email: string };
     const params = z.object({ projectId: z.string().cuid() }).parse(request.params);
+    const query = listSecretsQuerySchema.parse(request.query);
 
     const project = await prisma.project.findUnique({
       where: { id: params.projectId },
@@ -67,15 +124,23 @@ export const secretRoutes: FastifyPluginAsync = async (app) => {
       return reply.forbidden((error as Error).message);
     }
 
+    // Every scope unless one is asked for.
     const secrets = await prisma.projectSecret.findMany({
-      where: { projectId: params.projectId },
+      where: {
+        projectId: params.projectId,
+        ...(query.scope && { scope: query.scope }),
+        ...(query.branch && { branch: query.branch }),
+      },
       select: {
         id: true,
         key: true,
+        scope: true,
+        branch: true,
+        valueType: true,
         createdAt: true,
         updatedAt: true,
       },
-      orderBy: { key: 'asc' },
+      orderBy: [{ scope: 'asc' }, { branch: 'asc' }, { key: 'asc' }],
     });
 
     return { secrets };
@@ -89,6 +154,7 @@ export const secretRoutes: FastifyPluginAsync = async (app) => {
         key: secretKeySchema,
       })
       .parse(request.params);
+    const { scope, branch } = scopeQuerySchema.parse(request.query);
 
     const body = upsertSecretBody.parse(request.body);
 
@@ -107,52 +173,41 @@ export const secretRoutes: FastifyPluginAsync = async (app) => {
       return reply.forbidden((error as Error).message);
     }
 
-    const encrypted = encryptSecret(body.value);
+    try {
+      const { secret, version } = await secrets.setSecret(
+        { projectId: params.projectId, scope, branch, key: params.key },
+        toSecretValueInput(body),
+        user.userId,
+      );
 
-    const secret = await prisma.projectSecret.upsert({
-      where: {
-        projectId_key: {
+      await audit.record({
+        organizationId: project.organizationId,
+        actorUserId: user.userId,
+        action: 'project.secret.upserted',
+        entityType: 'project_secret',
+        entityId: secret.id,
+        metadata: {
           projectId: params.projectId,
           key: params.key,
+          scope: describeSecretScope(scope, branch),
+          valueType: secret.valueType,
+          version,
         },
-      },
-      update: {
-        encryptedValue: encrypted.encryptedValue,
-        iv: encrypted.iv,
-        authTag: encrypted.authTag,
-      },
-      create: {
-        projectId: params.projectId,
-        key: params.key,
-        encryptedValue: encrypted.encryptedValue,
-        iv: encrypted.iv,
-        authTag: encrypted.authTag,
-      },
-      select: {
-        id: true,
-        key: true,
-        updatedAt: true,
-      },
-    });
-
-    await audit.record({
-      organizationId: project.organizationId,
-      actorUserId: user.userId,
-      action: 'project.secret.upserted',
-      entityType: 'project_secret',
-      entityId: secret.id,
-      metadata: {
-        projectId: params.projectId,
-        key: params.key,
-      },
-    });
+      });
 
-    return reply.code(201).send({ secret });
+      return reply.code(201).send({ secret: { ...secret, version } });
+    } catch (error) {
+      if (error instanceof ProjectSecretError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
   });
 
   app.post('/projects/:projectId/secrets/bulk', { preHandler: [app.authenticate] }, async (request, reply) => {
     const user = request.user as { userId: string; email: string };
     const params = z.object({ projectId: z.string().cuid() }).parse(request.params);
+    const { scope, branch } = scopeQuerySchema.parse(request.query);
     const body = bulkUpsertSecretsBody.parse(request.body);
 
     const project = await prisma.project.findUnique({
@@ -170,12 +225,12 @@ export const secretRoutes: FastifyPluginAsync = async (app) => {
       return reply.forbidden((error as Error).message);
     }
 
-    const mergedSecrets = new Map<string, string>();
+    const mergedSecrets = new Map<string, SecretValueInput>();
 
     if (typeof body.envText === 'string' && body.envText.trim().length > 0) {
       try {
         for (const entry of parseDotenvText(body.envText)) {
-          mergedSecrets.set(entry.key, entry.value);
+          mergedSecrets.set(entry.key, { value: entry.value, valueType: 'literal' });
         }
       } catch (error) {
         if (error instanceof DotenvParseError) {
@@ -186,7 +241,7 @@ export const secretRoutes: FastifyPluginAsync = async (app) => {
     }
 
     for (const entry of body.secrets ?? []) {
-      mergedSecrets.set(entry.key.trim().toUpperCase(), entry.value);
+      mergedSecrets.set(entry.key.trim().toUpperCase(), toSecretValueInput(entry));
     }
 
     if (mergedSecrets.size === 0) {
@@ -206,41 +261,25 @@ export const secretRoutes: FastifyPluginAsync = async (app) => {
     const existing = await prisma.projectSecret.findMany({
       where: {
         projectId: params.projectId,
+        scope,
+        branch,
         key: { in: keys },
       },
       select: { key: true },
     });
     const existingSet = new Set(existing.map((record) => record.key));
 
-    const entries = [...mergedSecrets.entries()];
-    const batchSize = 25;
-    for (let index = 0; index < entries.length; index += batchSize) {
-      const batch = entries.slice(index, index + batchSize);
-      await Promise.all(
-        batch.map(([key, value]) => {
-          const encrypted = encryptSecret(value);
-          return prisma.projectSecret.upsert({
-            where: {
-              projectId_key: {
-                projectId: params.projectId,
-                key,
-              },
-            },
-            update: {
-              encryptedValue: encrypted.encryptedValue,
-              iv: encrypted.iv,
-              authTag: encrypted.authTag,
-            },
-            create: {
-              projectId: params.projectId,
-              key,
-              encryptedValue: encrypted.encryptedValue,
-              iv: encrypted.iv,
-              authTag: encrypted.authTag,
-            },
-          });
-        }),
+    try {
+      await secrets.setSecrets(
+        { projectId: params.projectId, scope, branch },
+        [...mergedSecrets.entries()],
+        user.userId,
       );
+    } catch (error) {
+      if (error instanceof ProjectSecretError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
     }
 
     const created = keys.filter((key) => !existingSet.has(key)).length;
@@ -253,6 +292,7 @@ export const secretRoutes: FastifyPluginAsync = async (app) => {
       entityType: 'project',
       entityId: params.projectId,
       metadata: {
+        scope: describeSecretScope(scope, branch),
         imported: keys.length,
         created,
         updated,
@@ -275,6 +315,7 @@ export const secretRoutes: FastifyPluginAsync = async (app) => {
         key: secretKeySchema,
       })
       .parse(request.params);
+    const { scope, branch } = scopeQuerySchema.parse(request.query);
 
     const project = await prisma.project.findUnique({
       where: { id: params.projectId },
@@ -291,12 +332,10 @@ export const secretRoutes: FastifyPluginAsync = async (app) => {
       return reply.forbidden((error as Error).message);
     }
 
-    await prisma.projectSecret.deleteMany({
-      where: {
-        projectId: params.projectId,
-        key: params.key,
-      },
-    });
+    const version = await secrets.deleteSecret(
+      { projectId: params.projectId, scope, branch, key: params.key },
+      user.userId,
+    );
 
     await audit.record({
       organizationId: project.organizationId,
@@ -307,6 +346,8 @@ export const secretRoutes: FastifyPluginAsync = async (app) => {
       metadata: {
         projectId: params.projectId,
         key: params.key,
+        scope: describeSecretScope(scope, branch),
+        version,
       },
     });
 
@@ -321,6 +362,7 @@ export const secretRoutes: FastifyPluginAsync = async (app) => {
         key: secretKeySchema,
       })
       .parse(request.params);
+    const { scope, branch } = scopeQuerySchema.parse(request.query);
 
     const project = await prisma.project.findUnique({
       where: { id: params.projectId },
@@ -339,8 +381,10 @@ export const secretRoutes: FastifyPluginAsync = async (app) => {
 
     const secret = await prisma.projectSecret.findUnique({
       where: {
-        projectId_key: {
+        projectId_scope_branch_key: {
           projectId: params.projectId,
+          scope,
+          branch,
           key: params.key,
         },
       },
@@ -350,10 +394,11 @@ export const secretRoutes: FastifyPluginAsync = async (app) => {
       return reply.notFound('Secret not found');
     }
 
-    const value = decryptSecret({
+    const value = await decryptSecret({
       encryptedValue: secret.encryptedValue,
       iv: secret.iv,
       authTag: secret.authTag,
+      keyId: secret.keyId,
     });
 
     await audit.record({
@@ -365,9 +410,209 @@ export const secretRoutes: FastifyPluginAsync = async (app) => {
       metadata: {
         projectId: params.projectId,
         key: params.key,
+        scope: describeSecretScope(scope, branch),
       },
     });
 
-    return { key: secret.key, value };
+    // A reference reveals the reference itself; the external value is only read for deployments.
+    return {
+      key: secret.key,
+      scope: secret.scope,
+      branch: secret.branch,
+      valueType: secret.valueType,
+      value,
+    };
+  });
+
+  app.get('/projects/:projectId/secrets/:key/versions', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const user = request.user as { userId: string; email: string };
+    const params = z
+      .object({
+        projectId: z.string().cuid(),
+        key: secretKeySchema,
+      })
+      .parse(request.params);
+    const { scope, branch } = scopeQuerySchema.parse(request.query);
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.projectId },
+      select: { organizationId: true },
+    });
+
+    if (!project) {
+      return reply.notFound('Project not found');
+    }
+
+    try {
+      await access.requireOrganizationRole(user.userId, project.organizationId, 'developer');
+    } catch (error) {
+      return reply.forbidden((error as Error).message);
+    }
+
+    const versions = await secrets.listVersions({
+      projectId: params.projectId,
+      scope,
+      branch,
+      key: params.key,
+    });
+
+    return { key: params.key, scope, branch, versions };
+  });
+
+  app.post('/projects/:projectId/secrets/:key/rollback', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const user = request.user as { userId: string; email: string };
+    const params = z
+      .object({
+        projectId: z.string().cuid(),
+        key: secretKeySchema,
+      })
+      .parse(request.params);
+    const { scope, branch } = scopeQuerySchema.parse(request.query);
+    const body = z.object({ version: z.number().int().min(1) }).parse(request.body);
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.projectId },
+      select: { organizationId: true },
+    });
+
+    if (!project) {
+      return reply.notFound('Project not found');
+    }
+
+    try {
+      await access.requireOrganizationRole(user.userId, project.organizationId, 'developer');
+    } catch (error) {
+      return reply.forbidden((error as Error).message);
+    }
+
+    try {
+      const result = await secrets.restoreVersion(
+        { projectId: params.projectId, scope, branch, key: params.key },
+        body.version,
+        user.userId,
+      );
+
+      await audit.record({
+        organizationId: project.organizationId,
+        actorUserId: user.userId,
+        action: 'project.secret.rolled_back',
+        entityType: 'project_secret',
+        entityId: result.secret?.id ?? params.key,
+        metadata: {
+          projectId: params.projectId,
+          key: params.key,
+          scope: describeSecretScope(scope, branch),
+          restoredVersion: body.version,
+          version: result.version,
+        },
+      });
+
+      return {
+        key: params.key,
+        scope,
+        branch,
+        version: result.version,
+        deleted: result.secret === null,
+      };
+    } catch (error) {
+      if (error instanceof ProjectSecretError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Restores every secret a deployment read to the version it started with.
+  app.post('/projects/:projectId/secrets/rollback', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const user = request.user as { userId: string; email: string };
+    const params = z.object({ projectId: z.string().cuid() }).parse(request.params);
+    const body = z.object({ deploymentId: z.string().cuid() }).parse(request.body);
+
+    const deployment = await prisma.deployment.findUnique({
+      where: { id: body.deploymentId },
+      select: { projectId: true, project: { select: { organizationId: true } } },
+    });
+
+    if (!deployment || deployment.projectId !== params.projectId) {
+      return reply.notFound('Deployment not found');
+    }
+
+    try {
+      await access.requireOrganizationRole(user.userId, deployment.project.organizationId, 'developer');
+    } catch (error) {
+      return reply.forbidden((error as Error).message);
+    }
+
+    try {
+      const result = await secrets.restoreDeploymentSnapshot(body.deploymentId, user.userId);
+
+      await audit.record({
+        organizationId: deployment.project.organizationId,
+        actorUserId: user.userId,
+        action: 'project.secret.set_rolled_back',
+        entityType: 'project',
+        entityId: params.projectId,
+        metadata: {
+          deploymentId: body.deploymentId,
+          restored: result.restored,
+          removed: result.removed,
+          unchanged: result.unchanged,
+        },
+      });
+
+      return {
+        restored: result.restored,
+        removed: result.removed,
+        unchanged: result.unchanged,
+      };
+    } catch (error) {
+      if (error instanceof ProjectSecretError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // The secret versions a deployment started with; values stay encrypted.
+  app.get('/deployments/:deploymentId/secrets', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const user = request.user as { userId: string; email: string };
+    const params = z.object({ deploymentId: z.string().cuid() }).parse(request.params);
+
+    const deployment = await prisma.deployment.findUnique({
+      where: { id: params.deploymentId },
+      select: {
+        secretsSnapshotAt: true,
+        project: { select: { organizationId: true } },
+        secretVersions: {
+          select: {
+            secretVersion: {
+              select: { key: true, scope: true, branch: true, version: true, createdAt: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!deployment) {
+      return reply.notFound('Deployment not found');
+    }
+
+    try {
+      await access.requireOrganizationRole(user.userId, deployment.project.organizationId, 'developer');
+    } catch (error) {
+      return reply.forbidden((error as Error).message);
+    }
+
+    return {
+      recordedAt: deployment.secretsSnapshotAt,
+      secrets: deployment.secretVersions
+        .map((entry) => entry.secretVersion)
+        .sort(
+          (a, b) =>
+            a.scope.localeCompare(b.scope) ||
+            a.branch.localeCompare(b.branch) ||
+            a.key.localeCompare(b.key),
+        ),
+    };
   });
 };
@@ -92,6 +92,7 @@ export const usageRoutes: FastifyPluginAsync = async (app) => {
           'ram_mb_seconds',
           'bandwidth_bytes',
           'request_count',
+          'volume_mb_seconds',
         ]),
         days: z.coerce.number().int().min(1).max(90).default(7),
       })
@@ -0,0 +1,393 @@
+import type { FastifyPluginAsync } from 'fastify';
+
+import { z } from 'zod';
+
+import { prisma } from '../../lib/prisma.js';
+import { AccessService } from '../../services/access-service.js';
+import { AuditLogService } from '../../services/audit-log-service.js';
+import { ProjectVolumeError, ProjectVolumeService } from '../../services/project-volume-service.js';
+
+type OrganizationRole = 'viewer' | 'developer';
+
+const projectParamsSchema = z.object({
+  projectId: z.string().cuid(),
+});
+
+const volumeParamsSchema = z.object({
+  volumeId: z.string().cuid(),
+});
+
+const snapshotParamsSchema = z.object({
+  snapshotId: z.string().cuid(),
+});
+
+const createVolumeSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .max(40)
+    .regex(/^[a-z0-9][a-z0-9-]*$/, 'Name must be lowercase letters, digits, and dashes'),
+  mountPath: z.string().trim().min(2).max(255),
+  sizeGb: z.number().int().min(1).max(1000),
+});
+
+const snapshotSelect = {
+  id: true,
+  volumeId: true,
+  status: true,
+  sizeBytes: true,
+  errorMessage: true,
+  lastRestoredAt: true,
+  createdAt: true,
+  completedAt: true,
+} as const;
+
+const volumeSelect = {
+  id: true,
+  projectId: true,
+  name: true,
+  mountPath: true,
+  sizeGb: true,
+  status: true,
+  errorMessage: true,
+  usedBytes: true,
+  usageMeasuredAt: true,
+  createdAt: true,
+  updatedAt: true,
+  server: { select: { id: true, name: true, region: true } },
+} as const;
+
+const toSnapshotResponse = <T extends { sizeBytes: bigint | null }>(snapshot: T) => ({
+  ...snapshot,
+  sizeBytes: snapshot.sizeBytes?.toString() ?? null,
+});
+
+const toVolumeResponse = <T extends { usedBytes: bigint }>(volume: T) => ({
+  ...volume,
+  usedBytes: volume.usedBytes.toString(),
+});
+
+export const volumeRoutes: FastifyPluginAsync = async (app) => {
+  const access = new AccessService();
+  const audit = new AuditLogService();
+  const volumes = new ProjectVolumeService();
+
+  const authorize = async (userId: string, organizationId: string, role: OrganizationRole) => {
+    try {
+      await access.requireOrganizationRole(userId, organizationId, role);
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  };
+
+  const loadVolume = (volumeId: string) =>
+    prisma.projectVolume.findUnique({
+      where: { id: volumeId },
+      select: {
+        id: true,
+        name: true,
+        projectId: true,
+        project: { select: { organizationId: true } },
+      },
+    });
+
+  const loadSnapshot = (snapshotId: string) =>
+    prisma.volumeSnapshot.findUnique({
+      where: { id: snapshotId },
+      select: {
+        id: true,
+        volume: {
+          select: {
+            id: true,
+            name: true,
+            projectId: true,
+            project: { select: { organizationId: true } },
+          },
+        },
+      },
+    });
+
+  app.get(
+    '/projects/:projectId/volumes',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectParamsSchema.parse(request.params);
+      const project = await prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: { organizationId: true },
+      });
+      if (!project) {
+        return reply.notFound('Project not found');
+      }
+      const denied = await authorize(user.userId, project.organizationId, 'viewer');
+      if (denied) {
+        return reply.forbidden(denied);
+      }
+
+      const rows = await prisma.projectVolume.findMany({
+        where: { projectId: params.projectId },
+        orderBy: { createdAt: 'asc' },
+        select: volumeSelect,
+      });
+
+      return { volumes: rows.map(toVolumeResponse) };
+    },
+  );
+
+  app.post(
+    '/projects/:projectId/volumes',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = projectParamsSchema.parse(request.params);
+      const body = createVolumeSchema.parse(request.body);
+      const project = await prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: { organizationId: true },
+      });
+      if (!project) {
+        return reply.notFound('Project not found');
+      }
+      const denied = await authorize(user.userId, project.organizationId, 'developer');
+      if (denied) {
+        return reply.forbidden(denied);
+      }
+
+      try {
+        const { volume, server } = await volumes.createVolume({
+          projectId: params.projectId,
+          name: body.name,
+          mountPath: body.mountPath,
+          sizeGb: body.sizeGb,
+          createdById: user.userId,
+        });
+
+        await audit.record({
+          organizationId: project.organizationId,
+          actorUserId: user.userId,
+          action: 'volume.created',
+          entityType: 'project_volume',
+          entityId: volume.id,
+          metadata: {
+            projectId: params.projectId,
+            name: volume.name,
+            mountPath: volume.mountPath,
+            sizeGb: volume.sizeGb,
+            serverId: server.id,
+          },
+        });
+
+        const created = await prisma.projectVolume.findUniqueOrThrow({
+          where: { id: volume.id },
+          select: volumeSelect,
+        });
+        return reply.code(201).send({ volume: toVolumeResponse(created) });
+      } catch (error) {
+        if (error instanceof ProjectVolumeError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        throw error;
+      }
+    },
+  );
+
+  app.delete('/volumes/:volumeId', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const user = request.user as { userId: string; email: string };
+    const params = volumeParamsSchema.parse(request.params);
+    const existing = await loadVolume(params.volumeId);
+    if (!existing) {
+      return reply.notFound('Volume not found');
+    }
+    const denied = await authorize(user.userId, existing.project.organizationId, 'developer');
+    if (denied) {
+      return reply.forbidden(denied);
+    }
+
+    try {
+      await volumes.deleteVolume(existing.id);
+    } catch (error) {
+      if (error instanceof ProjectVolumeError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+
+    await audit.record({
+      organizationId: existing.project.organizationId,
+      actorUserId: user.userId,
+      action: 'volume.deleted',
+      entityType: 'project_volume',
+      entityId: existing.id,
+      metadata: { projectId: existing.projectId, name: existing.name },
+    });
+
+    return reply.code(202).send({ success: true });
+  });
+
+  app.get(
+    '/volumes/:volumeId/snapshots',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = volumeParamsSchema.parse(request.params);
+      const existing = await loadVolume(params.volumeId);
+      if (!existing) {
+        return reply.notFound('Volume not found');
+      }
+      const denied = await authorize(user.userId, existing.project.organizationId, 'viewer');
+      if (denied) {
+        return reply.forbidden(denied);
+      }
+
+      const snapshots = await prisma.volumeSnapshot.findMany({
+        where: { volumeId: existing.id },
+        orderBy: { createdAt: 'desc' },
+        take: 100,
+        select: snapshotSelect,
+      });
+
+      return { snapshots: snapshots.map(toSnapshotResponse) };
+    },
+  );
+
+  app.post(
+    '/volumes/:volumeId/snapshots',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = volumeParamsSchema.parse(request.params);
+      const existing = await loadVolume(params.volumeId);
+      if (!existing) {
+        return reply.notFound('Volume not found');
+      }
+      const denied = await authorize(user.userId, existing.project.organizationId, 'developer');
+      if (denied) {
+        return reply.forbidden(denied);
+      }
+
+      try {
+        const snapshot = await volumes.createSnapshot(existing.id, user.userId);
+
+        await audit.record({
+          organizationId: existing.project.organizationId,
+          actorUserId: user.userId,
+          action: 'volume.snapshot_created',
+          entityType: 'project_volume',
+          entityId: existing.id,
+          metadata: {
+            projectId: existing.projectId,
+            name: existing.name,
+            snapshotId: snapshot.id,
+          },
+        });
+
+        return reply.code(202).send({
+          snapshot: toSnapshotResponse(
+            await prisma.volumeSnapshot.findUniqueOrThrow({
+              where: { id: snapshot.id },
+              select: snapshotSelect,
+            }),
+          ),
+        });
+      } catch (error) {
+        if (error instanceof ProjectVolumeError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        throw error;
+      }
+    },
+  );
+
+  app.post(
+    '/volume-snapshots/:snapshotId/restore',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = snapshotParamsSchema.parse(request.params);
+      const existing = await loadSnapshot(params.snapshotId);
+      if (!existing) {
+        return reply.notFound('Snapshot not found');
+      }
+      const denied = await authorize(
+        user.userId,
+        existing.volume.project.organizationId,
+        'developer',
+      );
+      if (denied) {
+        return reply.forbidden(denied);
+      }
+
+      try {
+        await volumes.restoreSnapshot(existing.id);
+      } catch (error) {
+        if (error instanceof ProjectVolumeError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        throw error;
+      }
+
+      await audit.record({
+        organizationId: existing.volume.project.organizationId,
+        actorUserId: user.userId,
+        action: 'volume.snapshot_restored',
+        entityType: 'project_volume',
+        entityId: existing.volume.id,
+        metadata: {
+          projectId: existing.volume.projectId,
+          name: existing.volume.name,
+          snapshotId: existing.id,
+        },
+      });
+
+      return reply.code(202).send({ success: true });
+    },
+  );
+
+  app.delete(
+    '/volume-snapshots/:snapshotId',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const user = request.user as { userId: string; email: string };
+      const params = snapshotParamsSchema.parse(request.params);
+      const existing = await loadSnapshot(params.snapshotId);
+      if (!existing) {
+        return reply.notFound('Snapshot not found');
+      }
+      const denied = await authorize(
+        user.userId,
+        existing.volume.project.organizationId,
+        'developer',
+      );
+      if (denied) {
+        return reply.forbidden(denied);
+      }
+
+      try {
+        await volumes.deleteSnapshot(existing.id);
+      } catch (error) {
+        if (error instanceof ProjectVolumeError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        throw error;
+      }
+
+      await audit.record({
+        organizationId: existing.volume.project.organizationId,
+        actorUserId: user.userId,
+        action: 'volume.snapshot_deleted',
+        entityType: 'project_volume',
+        entityId: existing.volume.id,
+        metadata: {
+          projectId: existing.volume.projectId,
+          name: existing.volume.name,
+          snapshotId: existing.id,
+        },
+      });
+
+      return { success: true };
+    },
+  );
+};
@@ -1,7 +1,10 @@
 import { buildApp } from './app.js';
 import { env } from './config/env.js';
 import { prisma } from './lib/prisma.js';
+import { AutoscalerSchedulerService } from './services/autoscaler-scheduler-service.js';
+import { CronJobSchedulerService } from './services/cron-job-scheduler-service.js';
 import { ensureDevelopmentServer } from './services/dev-server-bootstrap-service.js';
+import { EncryptionKeyRotationSchedulerService } from './services/encryption-key-rotation-scheduler-service.js';
 import { OrganizationInviteMaintenanceService } from './services/organization-invite-maintenance-service.js';
 import { seedPlans } from './services/plan-seed-service.js';
 import { SleepService } from './services/sleep-service.js';
@@ -35,8 +38,17 @@ const start = async () => {
 
   const inviteMaintenance = new OrganizationInviteMaintenanceService();
   inviteMaintenance.start(app.log);
+  const cronScheduler = new CronJobSchedulerService();
+  cronScheduler.start(app.log);
+  const autoscaler = new AutoscalerSchedulerService();
+  autoscaler.start(app.log);
+  const encryptionRotation = new EncryptionKeyRotationSchedulerService();
+  encryptionRotation.start(app.log);
   app.addHook('onClose', async () => {
     inviteMaintenance.stop();
+    cronScheduler.stop();
+    autoscaler.stop();
+    encryptionRotation.stop();
   });
 
   await app.listen({ port: env.PORT, host: '0.0.0.0' });
@@ -0,0 +1,69 @@
+import type { FastifyBaseLogger } from 'fastify';
+
+import { env } from '../config/env.js';
+import { redis } from '../lib/redis.js';
+
+import { AutoscalingService } from './autoscaling-service.js';
+
+const AUTOSCALER_LOCK_KEY = 'apployd:autoscaler:lock';
+
+export class AutoscalerSchedulerService {
+  private readonly autoscaling = new AutoscalingService();
+
+  private timer: NodeJS.Timeout | null = null;
+
+  private running = false;
+
+  start(log: FastifyBaseLogger): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs = env.AUTOSCALER_INTERVAL_SECONDS * 1000;
+    this.timer = setInterval(() => {
+      void this.runCycle(log);
+    }, intervalMs);
+    this.timer.unref?.();
+
+    void this.runCycle(log);
+    log.info({ intervalSeconds: env.AUTOSCALER_INTERVAL_SECONDS }, 'Autoscaler started');
+  }
+
+  stop(): void {
+    if (!this.timer) {
+      return;
+    }
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async runCycle(log: FastifyBaseLogger): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const lockTtlSeconds = Math.max(5, env.AUTOSCALER_INTERVAL_SECONDS - 5);
+      const lockAcquired = await redis.set(
+        AUTOSCALER_LOCK_KEY,
+        `${process.pid}:${Date.now()}`,
+        'NX',
+        'EX',
+        lockTtlSeconds,
+      );
+      if (!lockAcquired) {
+        return;
+      }
+
+      const summary = await this.autoscaling.evaluateProjects();
+      if (summary.scaled > 0 || summary.blocked > 0) {
+        log.info(summary, 'Autoscaler cycle completed');
+      }
+    } catch (error) {
+      log.error({ error }, 'Autoscaler cycle failed');
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,379 @@
+import { DeploymentStatus, ServerStatus, UsageMetricType } from '@prisma/client';
+
+import {
+  decideScaling,
+  type AutoscaleDecision,
+  type AutoscaleObservation,
+  type AutoscalePolicy,
+} from '../domain/autoscaling.js';
+import { prisma } from '../lib/prisma.js';
+
+import { AuditLogService } from './audit-log-service.js';
+import { DeployQueueService } from './deploy-queue-service.js';
+import { ResourcePolicyService } from './resource-policy-service.js';
+
+/** Usage samples land every 30s; the window spans several so one spike does not decide alone. */
+const OBSERVATION_WINDOW_SECONDS = 180;
+/** Less data than this since the last change (or the deploy) is treated as no signal. */
+const MIN_OBSERVATION_SECONDS = 60;
+
+const IN_PROGRESS_STATUSES: DeploymentStatus[] = [
+  DeploymentStatus.queued,
+  DeploymentStatus.building,
+  DeploymentStatus.deploying,
+];
+
+export const autoscaleProjectSelect = {
+  id: true,
+  organizationId: true,
+  resourceRamMb: true,
+  resourceCpuMillicore: true,
+  resourceBandwidthGb: true,
+  autoscaleEnabled: true,
+  autoscaleMinReplicas: true,
+  autoscaleMaxReplicas: true,
+  autoscaleTargetCpuPercent: true,
+  autoscaleTargetMemoryPercent: true,
+  autoscaleTargetRequestsPerMinute: true,
+  autoscaleScaleUpCooldownSeconds: true,
+  autoscaleScaleDownCooldownSeconds: true,
+  autoscaleStabilizationSeconds: true,
+  autoscaleLastScaledAt: true,
+  autoscaleScaleDownSince: true,
+  autoscaleScaleDownReplicas: true,
+} as const;
+
+type AutoscaleProject = {
+  id: string;
+  organizationId: string;
+  resourceRamMb: number;
+  resourceCpuMillicore: number;
+  resourceBandwidthGb: number;
+  autoscaleMinReplicas: number;
+  autoscaleMaxReplicas: number;
+  autoscaleTargetCpuPercent: number | null;
+  autoscaleTargetMemoryPercent: number | null;
+  autoscaleTargetRequestsPerMinute: number | null;
+  autoscaleScaleUpCooldownSeconds: number;
+  autoscaleScaleDownCooldownSeconds: number;
+  autoscaleStabilizationSeconds: number;
+  autoscaleLastScaledAt: Date | null;
+  autoscaleScaleDownSince: Date | null;
+  autoscaleScaleDownReplicas: number | null;
+};
+
+interface ActiveDeployment {
+  id: string;
+  serverId: string;
+  replicaCount: number;
+  finishedAt: Date | null;
+}
+
+type ScaleDecision = Extract<AutoscaleDecision, { action: 'scale' }>;
+
+export const autoscalePolicyOf = (project: AutoscaleProject): AutoscalePolicy => ({
+  minReplicas: project.autoscaleMinReplicas,
+  maxReplicas: project.autoscaleMaxReplicas,
+  targetCpuPercent: project.autoscaleTargetCpuPercent,
+  targetMemoryPercent: project.autoscaleTargetMemoryPercent,
+  targetRequestsPerMinute: project.autoscaleTargetRequestsPerMinute,
+  scaleUpCooldownSeconds: project.autoscaleScaleUpCooldownSeconds,
+  scaleDownCooldownSeconds: project.autoscaleScaleDownCooldownSeconds,
+  stabilizationSeconds: project.autoscaleStabilizationSeconds,
+});
+
+const roundMetric = (value: number | null): number | null =>
+  value === null ? null : Math.round(value * 10) / 10;
+
+class AutoscaleCapacityError extends Error {}
+
+export class AutoscalingService {
+  private readonly audit = new AuditLogService();
+
+  private readonly policy = new ResourcePolicyService();
+
+  private readonly queue = new DeployQueueService();
+
+  /**
+   * Evaluates every autoscaled project with a settled production deployment.
+   * Projects mid-deploy, in a canary, or with sleep enabled are left alone.
+   */
+  async evaluateProjects(now = new Date()): Promise<{
+    evaluated: number;
+    scaled: number;
+    blocked: number;
+  }> {
+    const projects = await prisma.project.findMany({
+      where: {
+        autoscaleEnabled: true,
+        activeDeploymentId: { not: null },
+        canaryDeploymentId: null,
+        sleepEnabled: false,
+      },
+      select: {
+        ...autoscaleProjectSelect,
+        activeDeployment: {
+          select: { id: true, serverId: true, status: true, replicaCount: true, finishedAt: true },
+        },
+      },
+    });
+
+    const summary = { evaluated: 0, scaled: 0, blocked: 0 };
+    for (const { activeDeployment, ...project } of projects) {
+      if (!activeDeployment?.serverId || activeDeployment.status !== DeploymentStatus.ready) {
+        continue;
+      }
+
+      const inProgress = await prisma.deployment.count({
+        where: {
+          projectId: project.id,
+          environment: 'production',
+          status: { in: IN_PROGRESS_STATUSES },
+        },
+      });
+      if (inProgress > 0) {
+        continue;
+      }
+
+      summary.evaluated += 1;
+      const outcome = await this.evaluateProject(
+        project,
+        { ...activeDeployment, serverId: activeDeployment.serverId },
+        now,
+      );
+      if (outcome === 'scaled') summary.scaled += 1;
+      if (outcome === 'blocked') summary.blocked += 1;
+    }
+
+    return summary;
+  }
+
+  private async evaluateProject(
+    project: AutoscaleProject,
+    deployment: ActiveDeployment,
+    now: Date,
+  ): Promise<'held' | 'scaled' | 'blocked'> {
+    const observation = await this.observe(project, deployment, now);
+    const decision = decideScaling(
+      autoscalePolicyOf(project),
+      {
+        currentReplicas: deployment.replicaCount,
+        lastScaledAt: project.autoscaleLastScaledAt,
+        scaleDownSince: project.autoscaleScaleDownSince,
+        scaleDownReplicas: project.autoscaleScaleDownReplicas,
+      },
+      observation,
+      now,
+    );
+
+    if (decision.action === 'hold') {
+      const trackingChanged =
+        decision.scaleDownSince?.getTime() !== project.autoscaleScaleDownSince?.getTime() ||
+        decision.scaleDownReplicas !== project.autoscaleScaleDownReplicas;
+      if (trackingChanged) {
+        await prisma.project.update({
+          where: { id: project.id },
+          data: {
+            autoscaleScaleDownSince: decision.scaleDownSince,
+            autoscaleScaleDownReplicas: decision.scaleDownReplicas,
+          },
+        });
+      }
+      return 'held';
+    }
+
+    return this.applyScaling(project, deployment, decision, observation, now);
+  }
+
+  /**
+   * Per-replica averages from the stats collector's usage records. The window
+   * never reaches back past the last scaling change or the deploy itself, so
+   * replicas that did not exist yet do not dilute the averages.
+   */
+  private async observe(
+    project: AutoscaleProject,
+    deployment: ActiveDeployment,
+    now: Date,
+  ): Promise<AutoscaleObservation> {
+    const empty = { cpuPercent: null, memoryPercent: null, requestsPerMinute: null };
+    const since = new Date(
+      Math.max(
+        now.getTime() - OBSERVATION_WINDOW_SECONDS * 1000,
+        deployment.finishedAt?.getTime() ?? 0,
+        project.autoscaleLastScaledAt?.getTime() ?? 0,
+      ),
+    );
+    const windowSeconds = (now.getTime() - since.getTime()) / 1000;
+    if (windowSeconds < MIN_OBSERVATION_SECONDS) {
+      return empty;
+    }
+
+    const rows = await prisma.usageRecord.groupBy({
+      by: ['metricType'],
+      where: {
+        projectId: project.id,
+        recordedAt: { gt: since, lte: now },
+        metricType: {
+          in: [
+            UsageMetricType.cpu_millicore_seconds,
+            UsageMetricType.ram_mb_seconds,
+            UsageMetricType.request_count,
+          ],
+        },
+      },
+      _sum: { quantity: true },
+    });
+    const totals = new Map(rows.map((row) => [row.metricType, Number(row._sum.quantity ?? 0n)]));
+
+    // Running containers always report memory; without it the collector is not sampling.
+    const ramMbSeconds = totals.get(UsageMetricType.ram_mb_seconds);
+    if (!ramMbSeconds) {
+      return empty;
+    }
+
+    const replicas = Math.max(1, deployment.replicaCount);
+    const cpuMillicoreSeconds = totals.get(UsageMetricType.cpu_millicore_seconds) ?? 0;
+    const requests = totals.get(UsageMetricType.request_count) ?? 0;
+    return {
+      cpuPercent:
+        (cpuMillicoreSeconds / windowSeconds / (project.resourceCpuMillicore * replicas)) * 100,
+      memoryPercent: (ramMbSeconds / windowSeconds / (project.resourceRamMb * replicas)) * 100,
+      requestsPerMinute: requests / (windowSeconds / 60) / replicas,
+    };
+  }
+
+  /**
+   * Moves the deployment's replica count and server reservation together, then
+   * asks the engine to converge the running containers. Scale-ups are checked
+   * against the organization's pool and the server's free capacity first.
+   */
+  private async applyScaling(
+    project: AutoscaleProject,
+    deployment: ActiveDeployment,
+    decision: ScaleDecision,
+    observation: AutoscaleObservation,
+    now: Date,
+  ): Promise<'held' | 'scaled' | 'blocked'> {
+    const delta = decision.to - decision.from;
+    const metadata = {
+      deploymentId: deployment.id,
+      fromReplicas: decision.from,
+      toReplicas: decision.to,
+      signal: decision.signal,
+      reason: decision.reason,
+      cpuPercent: roundMetric(observation.cpuPercent),
+      memoryPercent: roundMetric(observation.memoryPercent),
+      requestsPerMinute: roundMetric(observation.requestsPerMinute),
+    };
+
+    const block = async (reason: string): Promise<'blocked'> => {
+      // Counting a blocked attempt as a change makes the retry wait out the cooldown.
+      await prisma.project.update({
+        where: { id: project.id },
+        data: { autoscaleLastScaledAt: now },
+      });
+      await this.audit.record({
+        organizationId: project.organizationId,
+        action: 'project.autoscale.blocked',
+        entityType: 'project',
+        entityId: project.id,
+        metadata: { ...metadata, blockedReason: reason },
+      });
+      return 'blocked';
+    };
+
+    if (delta > 0) {
+      try {
+        await this.policy.assertCanAllocate(project.organizationId, project.id, {
+          ramMb: project.resourceRamMb,
+          cpuMillicores: project.resourceCpuMillicore,
+          bandwidthGb: project.resourceBandwidthGb,
+          replicas: decision.to,
+        });
+      } catch (error) {
+        return block((error as Error).message);
+      }
+    }
+
+    const ramMb = project.resourceRamMb * Math.abs(delta);
+    const cpuMillicores = project.resourceCpuMillicore * Math.abs(delta);
+    let applied: boolean;
+    try {
+      applied = await prisma.$transaction(async (tx) => {
+        const claimed = await tx.deployment.updateMany({
+          where: {
+            id: deployment.id,
+            replicaCount: decision.from,
+            status: DeploymentStatus.ready,
+          },
+          data: { replicaCount: decision.to },
+        });
+        if (claimed.count === 0) {
+          return false;
+        }
+
+        if (delta > 0) {
+          const healthyStatus = ServerStatus.healthy;
+          const reserved = await tx.$executeRaw`
+            UPDATE "servers"
+            SET
+              "reservedRamMb" = "reservedRamMb" + ${ramMb},
+              "reservedCpuMillicores" = "reservedCpuMillicores" + ${cpuMillicores}
+            WHERE "id" = ${deployment.serverId}
+              AND "status" = ${healthyStatus}::"ServerStatus"
+              AND "reservedRamMb" + ${ramMb} <= "totalRamMb"
+              AND "reservedCpuMillicores" + ${cpuMillicores} <= "totalCpuMillicores"
+          `;
+          if (Number(reserved) !== 1) {
+            throw new AutoscaleCapacityError('Server has no free capacity for more replicas.');
+          }
+        } else {
+          await tx.server.update({
+            where: { id: deployment.serverId },
+            data: {
+              reservedRamMb: { decrement: ramMb },
+              reservedCpuMillicores: { decrement: cpuMillicores },
+            },
+          });
+        }
+
+        await tx.project.update({
+          where: { id: project.id },
+          data: {
+            replicaCount: decision.to,
+            autoscaleLastScaledAt: now,
+            autoscaleScaleDownSince: null,
+            autoscaleScaleDownReplicas: null,
+          },
+        });
+        return true;
+      });
+    } catch (error) {
+      if (error instanceof AutoscaleCapacityError) {
+        return block(error.message);
+      }
+      throw error;
+    }
+
+    if (!applied) {
+      // The deployment changed underneath us (new deploy or engine correction); re-evaluate next cycle.
+      return 'held';
+    }
+
+    await this.queue.enqueueReplicaScale({
+      deploymentId: deployment.id,
+      projectId: project.id,
+      fromReplicas: decision.from,
+      toReplicas: decision.to,
+    });
+
+    await this.audit.record({
+      organizationId: project.organizationId,
+      action: 'project.autoscaled',
+      entityType: 'project',
+      entityId: project.id,
+      metadata,
+    });
+    return 'scaled';
+  }
+}
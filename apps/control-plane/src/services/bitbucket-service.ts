@@ -0,0 +1,194 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import { env } from '../config/env.js';
+import type { GitHubRepoSummary } from './github-service.js';
+
+const BITBUCKET_API_BASE_URL = 'https://api.bitbucket.org/2.0';
+
+interface BitbucketCredentials {
+  username: string;
+  /** App password with repository read and webhook permissions. */
+  appPassword: string;
+}
+
+interface BitbucketUserApiItem {
+  uuid: string;
+  username: string;
+  display_name?: string;
+  links?: { avatar?: { href?: string } };
+}
+
+interface BitbucketRepositoryApiItem {
+  uuid: string;
+  name: string;
+  full_name: string;
+  is_private: boolean;
+  mainbranch?: { name?: string } | null;
+  workspace?: { slug?: string };
+  links: { html: { href: string } };
+}
+
+interface BitbucketPermissionApiItem {
+  permission: 'read' | 'write' | 'admin';
+  repository: BitbucketRepositoryApiItem;
+}
+
+interface BitbucketPage<T> {
+  values: T[];
+  next?: string;
+}
+
+interface BitbucketHookApiItem {
+  uuid: string;
+  url: string;
+}
+
+/** Bitbucket Cloud REST client authenticated with a user name and app password. */
+export class BitbucketService {
+  async getUser(input: BitbucketCredentials): Promise<BitbucketUserApiItem> {
+    const response = await this.bitbucketRequest('/user', input, { method: 'GET' });
+    return (await response.json()) as BitbucketUserApiItem;
+  }
+
+  async listRepositories(
+    input: BitbucketCredentials & { page: number; perPage: number; search?: string },
+  ): Promise<{ repos: GitHubRepoSummary[]; hasNextPage: boolean }> {
+    const params = new URLSearchParams({
+      page: String(input.page),
+      pagelen: String(input.perPage),
+      sort: '-repository.updated_on',
+    });
+    if (input.search) {
+      params.set('q', `repository.full_name ~ "${input.search.replace(/["\\]/g, '')}"`);
+    }
+
+    const response = await this.bitbucketRequest(
+      `/user/permissions/repositories?${params.toString()}`,
+      input,
+      { method: 'GET' },
+    );
+    const page = (await response.json()) as BitbucketPage<BitbucketPermissionApiItem>;
+
+    return {
+      repos: page.values.map(({ permission, repository }) => ({
+        id: repository.uuid,
+        name: repository.name,
+        fullName: repository.full_name,
+        owner: repository.workspace?.slug ?? repository.full_name.split('/')[0] ?? '',
+        private: repository.is_private,
+        defaultBranch: repository.mainbranch?.name ?? 'main',
+        htmlUrl: repository.links.html.href,
+        canAdmin: permission === 'admin',
+      })),
+      hasNextPage: Boolean(page.next),
+    };
+  }
+
+  async ensureRepositoryPushWebhook(
+    input: BitbucketCredentials & { repoFullName: string; webhookUrl: string; secret: string },
+  ): Promise<{ hookId: string; created: boolean }> {
+    const hooksPath = `/repositories/${input.repoFullName
+      .split('/')
+      .map(encodeURIComponent)
+      .join('/')}/hooks`;
+    const hookSettings = {
+      description: 'Apployd push deployments',
+      url: input.webhookUrl,
+      active: true,
+      secret: input.secret,
+      events: ['repo:push'],
+    };
+
+    const listResponse = await this.bitbucketRequest(`${hooksPath}?pagelen=100`, input, {
+      method: 'GET',
+    });
+    const hooks = (await listResponse.json()) as BitbucketPage<BitbucketHookApiItem>;
+    const existing = hooks.values.find(
+      (hook) => normalizeWebhookUrl(hook.url) === normalizeWebhookUrl(input.webhookUrl),
+    );
+
+    if (existing) {
+      await this.bitbucketRequest(`${hooksPath}/${encodeURIComponent(existing.uuid)}`, input, {
+        method: 'PUT',
+        body: JSON.stringify(hookSettings),
+      });
+      return { hookId: existing.uuid, created: false };
+    }
+
+    const createdResponse = await this.bitbucketRequest(hooksPath, input, {
+      method: 'POST',
+      body: JSON.stringify(hookSettings),
+    });
+    const created = (await createdResponse.json()) as BitbucketHookApiItem;
+    return { hookId: created.uuid, created: true };
+  }
+
+  /** Bitbucket signs webhook bodies like GitHub: `X-Hub-Signature: sha256=<hmac>`. */
+  verifyWebhookSignature(payload: Buffer, signatureHeader?: string): boolean {
+    if (!env.BITBUCKET_WEBHOOK_SECRET || !signatureHeader) {
+      return false;
+    }
+
+    const expected = Buffer.from(
+      `sha256=${createHmac('sha256', env.BITBUCKET_WEBHOOK_SECRET).update(payload).digest('hex')}`,
+      'utf8',
+    );
+    const provided = Buffer.from(signatureHeader, 'utf8');
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
+  private async bitbucketRequest(
+    path: string,
+    credentials: BitbucketCredentials,
+    init: RequestInit,
+  ): Promise<Response> {
+    const headers = new Headers(init.headers ?? {});
+    headers.set('Accept', 'application/json');
+    headers.set(
+      'Authorization',
+      `Basic ${Buffer.from(`${credentials.username}:${credentials.appPassword}`).toString('base64')}`,
+    );
+    headers.set('User-Agent', 'apployd-control-plane');
+    if (init.body && !headers.has('Content-Type')) {
+      headers.set('Content-Type', 'application/json');
+    }
+
+    const response = await fetch(`${BITBUCKET_API_BASE_URL}${path}`, {
+      ...init,
+      headers,
+      signal: AbortSignal.timeout(15_000),
+    });
+    if (response.ok) {
+      return response;
+    }
+
+    const responseText = await response.text().catch(() => '');
+    let detail = responseText;
+    try {
+      const parsed = JSON.parse(responseText) as { error?: { message?: string } };
+      detail = parsed.error?.message ?? responseText;
+    } catch {
+      // Plain-text error body.
+    }
+
+    if (response.status === 401) {
+      throw new Error(
+        'Bitbucket rejected the user name or app password. Check both and reconnect.',
+      );
+    }
+    if (response.status === 403) {
+      throw new Error(
+        'Bitbucket access denied. The app password needs repository read and webhook permissions, and webhooks require repository admin access.',
+      );
+    }
+    if (response.status === 404) {
+      throw new Error('Bitbucket repository not found or not visible to this account.');
+    }
+
+    throw new Error(
+      `Bitbucket API request failed (${response.status})${detail ? `: ${detail}` : ''}`,
+    );
+  }
+}
+
+const normalizeWebhookUrl = (value: string): string => value.trim().replace(/\/+$/, '');
@@ -0,0 +1,72 @@
+import type { FastifyBaseLogger } from 'fastify';
+
+import { env } from '../config/env.js';
+import { redis } from '../lib/redis.js';
+
+import { CronJobService } from './cron-job-service.js';
+
+const CRON_SCHEDULER_LOCK_KEY = 'apployd:cron-scheduler:lock';
+
+export class CronJobSchedulerService {
+  private readonly cronJobs = new CronJobService();
+
+  private timer: NodeJS.Timeout | null = null;
+
+  private running = false;
+
+  start(log: FastifyBaseLogger): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs = env.CRON_SCHEDULER_INTERVAL_SECONDS * 1000;
+    this.timer = setInterval(() => {
+      void this.runCycle(log);
+    }, intervalMs);
+    this.timer.unref?.();
+
+    void this.runCycle(log);
+    log.info(
+      { intervalSeconds: env.CRON_SCHEDULER_INTERVAL_SECONDS },
+      'Cron job scheduler started',
+    );
+  }
+
+  stop(): void {
+    if (!this.timer) {
+      return;
+    }
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async runCycle(log: FastifyBaseLogger): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const lockTtlSeconds = Math.max(5, env.CRON_SCHEDULER_INTERVAL_SECONDS - 5);
+      const lockAcquired = await redis.set(
+        CRON_SCHEDULER_LOCK_KEY,
+        `${process.pid}:${Date.now()}`,
+        'NX',
+        'EX',
+        lockTtlSeconds,
+      );
+      if (!lockAcquired) {
+        return;
+      }
+
+      const summary = await this.cronJobs.runDueJobs();
+      if (summary.due > 0) {
+        log.info(summary, 'Cron job scheduler cycle completed');
+      }
+    } catch (error) {
+      log.error({ error }, 'Cron job scheduler cycle failed');
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { resolveNextCronRun } from '../lib/cron-schedule.js';
+import { SecretReferenceError } from '../lib/external-secrets.js';
+import { prisma } from '../lib/prisma.js';
+
+import { DeployQueueService } from './deploy-queue-service.js';
+import { loadDeploymentSecretSet } from './deployment-request-service.js';
+
+export type CronJobRunTrigger = 'schedule' | 'manual';
+
+export const CRON_JOB_ACTIVE_RUN_STATUSES = ['queued', 'running'];
+
+const DUE_JOBS_BATCH_SIZE = 100;
+
+export class CronJobError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'CronJobError';
+  }
+}
+
+export interface CronSchedulerSummary {
+  due: number;
+  triggered: number;
+  skipped: number;
+  failed: number;
+}
+
+export class CronJobService {
+  private readonly queue = new DeployQueueService();
+
+  /**
+   * Queue one run of a cron job on the project's active deployment image with
+   * the secret versions that deployment started with and the project's
+   * resource limits.
+   */
+  async triggerRun(input: {
+    cronJobId: string;
+    trigger: CronJobRunTrigger;
+    triggeredById?: string;
+  }) {
+    const job = await prisma.cronJob.findUnique({
+      where: { id: input.cronJobId },
+      select: {
+        id: true,
+        projectId: true,
+        command: true,
+        timeoutSeconds: true,
+        project: {
+          select: {
+            activeDeploymentId: true,
+            resourceRamMb: true,
+            resourceCpuMillicore: true,
+          },
+        },
+      },
+    });
+    if (!job) {
+      throw new CronJobError('Cron job not found', 404);
+    }
+
+    const activeDeployment = job.project.activeDeploymentId
+      ? await prisma.deployment.findUnique({
+          where: { id: job.project.activeDeploymentId },
+          select: { id: true, imageTag: true },
+        })
+      : null;
+    if (!activeDeployment?.imageTag) {
+      throw new CronJobError(
+        'Cron jobs run from the active deployment image; deploy the project first.',
+        409,
+      );
+    }
+
+    // Resolved before the run is recorded, so a broken reference fails the request cleanly.
+    let env: Record<string, string>;
+    try {
+      ({ env } = await loadDeploymentSecretSet(activeDeployment.id));
+    } catch (error) {
+      if (error instanceof SecretReferenceError) {
+        throw new CronJobError(error.message, 422);
+      }
+      throw error;
+    }
+
+    const run = await prisma.cronJobRun.create({
+      data: {
+        cronJobId: job.id,
+        projectId: job.projectId,
+        deploymentId: activeDeployment.id,
+        trigger: input.trigger,
+        status: 'queued',
+        triggeredById: input.triggeredById ?? null,
+      },
+    });
+
+    try {
+      await this.queue.enqueueCronJobRun({
+        runId: run.id,
+        cronJobId: job.id,
+        projectId: job.projectId,
+        deploymentId: activeDeployment.id,
+        imageTag: activeDeployment.imageTag,
+        command: job.command,
+        env,
+        memoryMb: job.project.resourceRamMb,
+        cpuMillicores: job.project.resourceCpuMillicore,
+        timeoutSeconds: job.timeoutSeconds,
+      });
+    } catch (error) {
+      await prisma.cronJobRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'failed',
+          errorMessage: `Failed to queue run: ${(error as Error).message}`,
+          finishedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+
+    return run;
+  }
+
+  /**
+   * Claim and trigger every enabled job whose next run is due. Claiming moves
+   * `nextRunAt` forward with a compare-and-set, so concurrent control planes
+   * never queue the same occurrence twice. A job whose previous run is still
+   * queued or running skips the occurrence instead of overlapping it.
+   */
+  async runDueJobs(now = new Date()): Promise<CronSchedulerSummary> {
+    const summary: CronSchedulerSummary = { due: 0, triggered: 0, skipped: 0, failed: 0 };
+    const dueJobs = await prisma.cronJob.findMany({
+      where: { enabled: true, nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' },
+      take: DUE_JOBS_BATCH_SIZE,
+      select: { id: true, projectId: true, schedule: true, nextRunAt: true },
+    });
+    summary.due = dueJobs.length;
+
+    for (const job of dueJobs) {
+      const claimed = await prisma.cronJob.updateMany({
+        where: { id: job.id, nextRunAt: job.nextRunAt },
+        data: { nextRunAt: resolveNextCronRun(job.schedule, now), lastRunAt: now },
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      const activeRun = await prisma.cronJobRun.findFirst({
+        where: { cronJobId: job.id, status: { in: CRON_JOB_ACTIVE_RUN_STATUSES } },
+        select: { id: true },
+      });
+      if (activeRun) {
+        summary.skipped += 1;
+        continue;
+      }
+
+      try {
+        await this.triggerRun({ cronJobId: job.id, trigger: 'schedule' });
+        summary.triggered += 1;
+      } catch (error) {
+        summary.failed += 1;
+        if (error instanceof CronJobError) {
+          // Keep the missed occurrence visible in the job's run history.
+          await prisma.cronJobRun.create({
+            data: {
+              cronJobId: job.id,
+              projectId: job.projectId,
+              trigger: 'schedule',
+              status: 'failed',
+              errorMessage: error.message,
+              finishedAt: new Date(),
+            },
+          });
+        }
+      }
+    }
+
+    return summary;
+  }
+}
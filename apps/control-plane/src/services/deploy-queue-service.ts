@@ -5,21 +5,95 @@ import { redis } from '../lib/redis.js';
 const DEPLOY_QUEUE = 'apployd:deployments:queue';
 const CONTAINER_ACTION_QUEUE = 'apployd:container-actions:queue';
 const CANARY_ACTION_QUEUE = 'apployd:canary-actions:queue';
+const BLUE_GREEN_ACTION_QUEUE = 'apployd:blue-green-actions:queue';
+const CRON_RUN_QUEUE = 'apployd:cron-runs:queue';
+const REPLICA_SCALE_QUEUE = 'apployd:replica-scale:queue';
+const VOLUME_ACTION_QUEUE = 'apployd:volume-actions:queue';
+const DATABASE_ACTION_QUEUE = 'apployd:database-actions:queue';
+const BUILD_CACHE_PURGE_CHANNEL = 'apployd:build-cache:purge';
+const GROUP_STAGING_PREFIX = 'apployd:deployments:group:';
+const GROUP_STAGING_TTL_SECONDS = 60 * 60;
+
+// Moves every staged job onto the deploy queue in one step so engines never see half a group.
+const RELEASE_GROUP_SCRIPT = `
+local jobs = redis.call('LRANGE', KEYS[1], 0, -1)
+for _, job in ipairs(jobs) do
+  redis.call('RPUSH', KEYS[2], job)
+end
+redis.call('DEL', KEYS[1])
+return #jobs
+`;
+
+export interface DeploymentQueueJob {
+  deploymentId: string;
+  organizationId: string;
+  projectId: string;
+  environment?: string;
+  request: DeploymentRequest;
+  isCanary?: boolean;
+  canaryWeight?: number;
+  stableContainerHostPort?: number;
+  isBlueGreen?: boolean;
+}
+
+export interface CronJobRunQueueJob {
+  runId: string;
+  cronJobId: string;
+  projectId: string;
+  deploymentId: string;
+  imageTag: string;
+  command: string;
+  env: Record<string, string>;
+  memoryMb: number;
+  cpuMillicores: number;
+  timeoutSeconds: number;
+}
+
+export type VolumeActionQueueJob =
+  | { action: 'create' | 'delete'; volumeId: string }
+  | { action: 'snapshot' | 'restore' | 'delete_snapshot'; volumeId: string; snapshotId: string };
+
+/**
+ * `create` and `restart` (which recreates a missing container) carry the
+ * password, like deployment env; everything else the engine reads from the
+ * database record.
+ */
+export type DatabaseActionQueueJob =
+  | { action: 'create' | 'restart'; databaseId: string; password: string }
+  | { action: 'resize' | 'delete'; databaseId: string };
 
 export class DeployQueueService {
-  async enqueue(payload: {
-    deploymentId: string;
-    organizationId: string;
-    projectId: string;
-    environment?: string;
-    request: DeploymentRequest;
-    isCanary?: boolean;
-    canaryWeight?: number;
-    stableContainerHostPort?: number;
-  }): Promise<void> {
+  async enqueue(payload: DeploymentQueueJob): Promise<void> {
     await redis.rpush(DEPLOY_QUEUE, JSON.stringify(payload));
   }
 
+  /** Hold a project group member until every sibling has been created. */
+  async stageGroupDeployment(
+    groupDeploymentId: string,
+    payload: DeploymentQueueJob,
+  ): Promise<void> {
+    const key = `${GROUP_STAGING_PREFIX}${groupDeploymentId}`;
+    await redis
+      .multi()
+      .rpush(key, JSON.stringify(payload))
+      .expire(key, GROUP_STAGING_TTL_SECONDS)
+      .exec();
+  }
+
+  async releaseGroupDeployment(groupDeploymentId: string): Promise<number> {
+    const released = await redis.eval(
+      RELEASE_GROUP_SCRIPT,
+      2,
+      `${GROUP_STAGING_PREFIX}${groupDeploymentId}`,
+      DEPLOY_QUEUE,
+    );
+    return Number(released);
+  }
+
+  async discardGroupDeployment(groupDeploymentId: string): Promise<void> {
+    await redis.del(`${GROUP_STAGING_PREFIX}${groupDeploymentId}`);
+  }
+
   async publishEvent(payload: { deploymentId: string; type: string; message: string }): Promise<void> {
     await redis.publish(
       `apployd:deployments:${payload.deploymentId}`,
@@ -31,10 +105,12 @@ export class DeployQueueService {
   }
 
   async enqueueContainerAction(payload: {
-    action: 'sleep' | 'wake';
+    action: 'sleep' | 'wake' | 'stop';
     containerId: string;
     dockerContainerId: string;
     deploymentId?: string;
+    /** `stop` only: edge route to remove together with the container. */
+    domain?: string;
   }): Promise<void> {
     await redis.rpush(CONTAINER_ACTION_QUEUE, JSON.stringify(payload));
   }
@@ -55,6 +131,41 @@ export class DeployQueueService {
     await redis.rpush(CANARY_ACTION_QUEUE, JSON.stringify(payload));
   }
 
+  /** `switch` moves production traffic to the project's idle blue/green deployment; `discard` stops it. */
+  async enqueueBlueGreenAction(payload: {
+    action: 'switch' | 'discard';
+    deploymentId: string;
+  }): Promise<void> {
+    await redis.rpush(BLUE_GREEN_ACTION_QUEUE, JSON.stringify(payload));
+  }
+
+  async enqueueCronJobRun(payload: CronJobRunQueueJob): Promise<void> {
+    await redis.rpush(CRON_RUN_QUEUE, JSON.stringify(payload));
+  }
+
+  /** Ask the engine to converge a deployment's running replicas to its `replicaCount`. */
+  async enqueueReplicaScale(payload: {
+    deploymentId: string;
+    projectId: string;
+    fromReplicas: number;
+    toReplicas: number;
+  }): Promise<void> {
+    await redis.rpush(REPLICA_SCALE_QUEUE, JSON.stringify(payload));
+  }
+
+  async enqueueVolumeAction(payload: VolumeActionQueueJob): Promise<void> {
+    await redis.rpush(VOLUME_ACTION_QUEUE, JSON.stringify(payload));
+  }
+
+  async enqueueDatabaseAction(payload: DatabaseActionQueueJob): Promise<void> {
+    await redis.rpush(DATABASE_ACTION_QUEUE, JSON.stringify(payload));
+  }
+
+  /** Broadcast to every engine so local cache directories are removed right away. */
+  async publishBuildCachePurge(payload: { projectId: string; generation: number }): Promise<void> {
+    await redis.publish(BUILD_CACHE_PURGE_CHANNEL, JSON.stringify(payload));
+  }
+
   async hasActiveWorkers(): Promise<boolean> {
     const keys = await redis.keys('apployd:engine:heartbeat:*');
     return keys.length > 0;
@@ -64,3 +175,9 @@ export class DeployQueueService {
 export const deployQueueKey = DEPLOY_QUEUE;
 export const containerActionQueueKey = CONTAINER_ACTION_QUEUE;
 export const canaryActionQueueKey = CANARY_ACTION_QUEUE;
+export const blueGreenActionQueueKey = BLUE_GREEN_ACTION_QUEUE;
+export const cronRunQueueKey = CRON_RUN_QUEUE;
+export const replicaScaleQueueKey = REPLICA_SCALE_QUEUE;
+export const volumeActionQueueKey = VOLUME_ACTION_QUEUE;
+export const databaseActionQueueKey = DATABASE_ACTION_QUEUE;
+export const buildCachePurgeChannel = BUILD_CACHE_PURGE_CHANNEL;
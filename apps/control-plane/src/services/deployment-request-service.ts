@@ -1,20 +1,61 @@
-import type { DeploymentRequest } from '@apployd/shared';
-import { createHash } from 'crypto';
-import { isIP } from 'node:net';
+import type {
+  BuildConfigKey,
+  BuildConfigSource,
+  CanaryPlan,
+  DeploymentRequest,
+  DeploymentSourceType,
+  GitHubStatusTarget,
+  PullRequestContext,
+  RegistryAuth,
+  ServiceType,
+} from '@apployd/shared';
+import { createHash, randomBytes } from 'crypto';
 import { ServerStatus, type Deployment, type Prisma, type Server } from '@prisma/client';
 import { setTimeout as sleep } from 'timers/promises';
 
 import { env } from '../config/env.js';
+import {
+  isExternalGitProvider,
+  parseRepoPathFromGitUrl,
+  resolveGitCloneUsername,
+} from '../lib/git-providers.js';
+import {
+  BUILD_CONFIG_FILE_NAMES,
+  BuildConfigParseError,
+  listBuildConfigKeys,
+  parseBuildConfigFile,
+  type BuildConfigFileName,
+  type RepositoryBuildConfig,
+} from '../lib/build-config.js';
 import { resolveDeploymentWebsocketUrl } from '../lib/deployment-websocket-url.js';
+import { ExternalSecretResolver, SecretReferenceError } from '../lib/external-secrets.js';
+import {
+  normalizeRegistryHost,
+  parseImageReference,
+  registryHostname,
+  type ImageReference,
+} from '../lib/image-reference.js';
+import { resolvesToPrivateHost } from '../lib/private-hosts.js';
 import { prisma } from '../lib/prisma.js';
 import { isProtectedPlatformDomain } from '../lib/protected-platform-domains.js';
 import { redis } from '../lib/redis.js';
 import { decryptSecret } from '../lib/secrets.js';
 import { isSerializableRetryableError } from '../lib/transaction-retry.js';
 import { getPlanEntitlements } from '../domain/plan-entitlements.js';
+import { replicaAllocation } from '../domain/resource-rules.js';
+import {
+  applicableSecretScopes,
+  resolveScopedSecrets,
+  type SecretScopeTarget,
+} from '../domain/secret-scopes.js';
 import { AuditLogService } from './audit-log-service.js';
 import { DeployQueueService } from './deploy-queue-service.js';
-import { GitHubService } from './github-service.js';
+import {
+  GitProviderConnectionService,
+  type GitProviderCredentials,
+} from './git-provider-connection-service.js';
+import { buildDeploymentStatusContext, GitHubService } from './github-service.js';
+import { configuredSecretProviders, ProjectSecretService } from './project-secret-service.js';
 import { ResourcePolicyService } from './resource-policy-service.js';
 import { ServerSchedulerService, ServerSchedulingError } from './server-scheduler-service.js';
 
@@ -25,19 +66,27 @@ interface CapacityRequest {
   cpuMillicores: number;
   bandwidthGb: number;
   region: string;
+  organizationId: string;
 }
 
 interface DeploymentRecordInput {
   projectId: string;
   serverId: string;
   environment: 'production' | 'preview';
-  gitUrl: string;
-  branch: string;
+  sourceType: DeploymentSourceType;
+  gitUrl: string | null;
+  imageReference: string | null;
+  branch: string | null;
   commitSha: string | null;
   imageTag: string | null;
-  domain: string;
+  domain: string | null;
+  replicaCount: number;
   capacityReserved: boolean;
   isCanary?: boolean;
+  canaryPlan?: CanaryPlan;
+  verificationDomain?: string;
+  groupDeploymentId?: string;
+  pullRequestNumber?: number;
 }
 
 interface AtomicReservationInput {
@@ -64,13 +113,180 @@ export class DeploymentRequestError extends Error {
   }
 }
 
+export type GitPushTrigger = 'github_push' | 'gitlab_push' | 'bitbucket_push';
+
+/**
+ * Source of an earlier deployment for redeploying it (rollback, promote, canary):
+ * its git URL, or its image pinned to the digest it resolved to.
+ */
+export const reuseDeploymentSource = (deployment: {
+  gitUrl: string | null;
+  imageReference: string | null;
+  imageDigest: string | null;
+}): { gitUrl?: string; imageReference?: string } => {
+  const imageReference = deployment.imageDigest ?? deployment.imageReference;
+  if (imageReference) {
+    return { imageReference };
+  }
+  return deployment.gitUrl ? { gitUrl: deployment.gitUrl } : {};
+};
+
+interface StoredEnvSecret {
+  key: string;
+  valueType: string;
+  encryptedValue: string;
+  iv: string;
+  authTag: string;
+  keyId: string | null;
+}
+
+/**
+ * Decrypts the winning secret of each key into container environment
+ * variables. References are read from their external store now and exist only
+ * in the returned env; a reference that does not resolve throws
+ * SecretReferenceError.
+ */
+const decryptSecretEnv = async (secrets: Iterable<StoredEnvSecret>) => {
+  const env: Record<string, string> = {};
+  const references: Array<{ key: string; reference: string }> = [];
+  for (const secret of secrets) {
+    const value = await decryptSecret({
+      encryptedValue: secret.encryptedValue,
+      iv: secret.iv,
+      authTag: secret.authTag,
+      keyId: secret.keyId,
+    });
+    if (secret.valueType === 'reference') {
+      references.push({ key: secret.key, reference: value });
+    } else {
+      env[secret.key] = value;
+    }
+  }
+  if (references.length > 0) {
+    Object.assign(
+      env,
+      await new ExternalSecretResolver(configuredSecretProviders()).resolveAll(references),
+    );
+  }
+  return env;
+};
+
+/**
+ * Decrypted project secrets as container environment variables, layered for
+ * the target: shared secrets, then its environment's, then its branch's.
+ * `versionIds` lists the version of every secret read, overridden or not, so a
+ * deployment can record the whole set it started with.
+ */
+export const loadProjectSecretSet = async (
+  projectId: string,
+  target: SecretScopeTarget,
+): Promise<{ env: Record<string, string>; versionIds: string[] }> => {
+  const projectSecrets = await prisma.projectSecret.findMany({
+    where: {
+      projectId,
+      OR: applicableSecretScopes(target),
+    },
+    select: {
+      key: true,
+      scope: true,
+      branch: true,
+      valueType: true,
+      encryptedValue: true,
+      iv: true,
+      authTag: true,
+      keyId: true,
+      currentVersionId: true,
+    },
+  });
+
+  return {
+    env: await decryptSecretEnv(resolveScopedSecrets(projectSecrets, target).values()),
+    versionIds: projectSecrets.flatMap((secret) =>
+      secret.currentVersionId ? [secret.currentVersionId] : [],
+    ),
+  };
+};
+
+/**
+ * The env a deployment started with, from the secret versions it recorded, so
+ * later edits to the project's secrets do not reach work run on its image.
+ * Deployments that predate secret history have no snapshot and read the
+ * project's current secrets for their target instead.
+ */
+export const loadDeploymentSecretSet = async (
+  deploymentId: string,
+): Promise<{ env: Record<string, string>; versionIds: string[] }> => {
+  const deployment = await prisma.deployment.findUniqueOrThrow({
+    where: { id: deploymentId },
+    select: {
+      projectId: true,
+      environment: true,
+      branch: true,
+      secretsSnapshotAt: true,
+      secretVersions: {
+        select: {
+          secretVersion: {
+            select: {
+              id: true,
+              key: true,
+              scope: true,
+              branch: true,
+              valueType: true,
+              encryptedValue: true,
+              iv: true,
+              authTag: true,
+              keyId: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const snapshot = deployment.secretVersions.map((entry) => entry.secretVersion);
+  // Image deployments keep no branch, but the secrets they read still name it.
+  const target: SecretScopeTarget = {
+    environment: deployment.environment === 'preview' ? 'preview' : 'production',
+    branch:
+      deployment.branch ?? snapshot.find((version) => version.scope === 'branch')?.branch ?? null,
+  };
+  if (!deployment.secretsSnapshotAt) {
+    return loadProjectSecretSet(deployment.projectId, target);
+  }
+
+  const stored = snapshot.flatMap((version) =>
+    version.encryptedValue && version.iv && version.authTag
+      ? [
+          {
+            ...version,
+            encryptedValue: version.encryptedValue,
+            iv: version.iv,
+            authTag: version.authTag,
+          },
+        ]
+      : [],
+  );
+  return {
+    env: await decryptSecretEnv(resolveScopedSecrets(stored, target).values()),
+    versionIds: snapshot.map((version) => version.id),
+  };
+};
+
+interface DeploymentPlacement {
+  serverId: string;
+  requireServerAffinity?: boolean;
+  forceReserveCapacity?: boolean;
+}
+
 interface CreateDeploymentInput {
   projectId: string;
   actorUserId?: string;
-  trigger: 'manual' | 'github_push';
+  trigger: 'manual' | GitPushTrigger | 'github_pull_request';
   environment?: 'production' | 'preview';
   domain?: string;
   gitUrl?: string;
+  /** Deploys this image instead of building; rollbacks pass the pinned digest. */
+  imageReference?: string;
   branch?: string;
   commitSha?: string;
   rootDirectory?: string;
@@ -79,7 +295,7 @@ interface CreateDeploymentInput {
   port?: number;
   env?: Record<string, string>;
   idempotencyKey?: string;
-  serviceType?: 'web_service' | 'static_site' | 'python';
+  serviceType?: ServiceType;
   outputDirectory?: string;
   /** For rollback: reuse an existing image without building */
   imageTag?: string;
@@ -87,12 +303,24 @@ interface CreateDeploymentInput {
     stableDeploymentId: string;
     stableContainerHostPort: number;
     weight: number;
+    /** Steps the engine's canary analysis walks through automatically */
+    plan?: CanaryPlan;
   };
-  placement?: {
-    serverId: string;
-    requireServerAffinity?: boolean;
-    forceReserveCapacity?: boolean;
-  };
+  placement?: DeploymentPlacement;
+  /**
+   * Blue/green release: the deployment starts next to the live one, answers on
+   * a private verification hostname and only takes traffic once switched.
+   */
+  blueGreen?: boolean;
+  /** Project group rollout: the job is staged until every member is created. */
+  groupDeploymentId?: string;
+  /** Pull request preview: gets a stable per-PR domain instead of a per-commit one. */
+  pullRequest?: PullRequestContext;
+  /**
+   * Rollback with secrets: start with (and record) the secret versions this
+   * deployment recorded instead of the project's current ones.
+   */
+  secretsFromDeploymentId?: string;
 }
 
 export interface QueuedDeploymentResult {
@@ -101,6 +329,8 @@ export interface QueuedDeploymentResult {
   environment: 'production' | 'preview';
   domain: string | null;
   url: string | null;
+  /** Blue/green deployments only; production traffic moves on switch */
+  verificationUrl?: string | null;
   websocket: string;
   idempotentReplay?: boolean;
 }
@@ -116,6 +346,10 @@ export class DeploymentRequestService {
 
   private readonly github = new GitHubService();
 
+  private readonly gitProviders = new GitProviderConnectionService();
+
+  private readonly secrets = new ProjectSecretService();
+
   async create(input: CreateDeploymentInput): Promise<QueuedDeploymentResult> {
     const project = await prisma.project.findUnique({
       where: { id: input.projectId },
@@ -137,17 +371,22 @@ export class DeploymentRequestService {
       throw new DeploymentRequestError('Project not found', 404);
     }
 
-    const resolvedGitUrl = input.gitUrl ?? project.repoUrl ?? undefined;
+    const resolvedSourceType: DeploymentSourceType = input.imageReference
+      ? 'image'
+      : input.gitUrl
+        ? 'git'
+        : project.sourceType === 'image'
+          ? 'image'
+          : 'git';
+    const resolvedGitUrl =
+      resolvedSourceType === 'git' ? (input.gitUrl ?? project.repoUrl ?? undefined) : undefined;
+    const resolvedImageReference =
+      resolvedSourceType === 'image'
+        ? (input.imageReference ?? project.imageReference ?? undefined)
+        : undefined;
     const branchCandidate = (input.branch ?? project.branch ?? 'main').trim();
     const resolvedBranch = branchCandidate || 'main';
-    const resolvedRootDirectory = input.rootDirectory ?? project.rootDirectory ?? undefined;
-    const resolvedStartCommand = input.startCommand ?? project.startCommand ?? undefined;
-    const resolvedBuildCommand = input.buildCommand ?? project.buildCommand ?? undefined;
-    const resolvedPort = input.port ?? project.targetPort ?? 3000;
     const resolvedEnvironment = input.environment ?? 'production';
-    const resolvedServiceType = input.serviceType ?? (project as any).serviceType ?? 'web_service';
-    const resolvedOutputDirectory =
-      input.outputDirectory ?? (project as any).outputDirectory ?? undefined;
     const requestedDomain = input.domain ? normalizeRequestedDomain(input.domain) : undefined;
 
     if (requestedDomain && isProtectedPlatformDomain(requestedDomain)) {
@@ -157,43 +396,88 @@ export class DeploymentRequestService {
       );
     }
 
-    if (!resolvedGitUrl) {
+    if (resolvedSourceType === 'git' && !resolvedGitUrl) {
       throw new DeploymentRequestError(
         'Repository is not configured. Link a GitHub repository or provide gitUrl.',
         400,
       );
     }
+    if (resolvedSourceType === 'image' && !resolvedImageReference) {
+      throw new DeploymentRequestError(
+        'Image is not configured. Set the project image reference or provide imageReference.',
+        400,
+      );
+    }
+    if (resolvedSourceType === 'image' && input.pullRequest) {
+      throw new DeploymentRequestError('Pull request previews require a git source.', 400);
+    }
+    if (input.pullRequest && resolvedEnvironment !== 'preview') {
+      throw new DeploymentRequestError(
+        'Pull request deployments must use the preview environment.',
+        400,
+      );
+    }
     if (input.canary && resolvedEnvironment !== 'production') {
       throw new DeploymentRequestError(
         'Canary deployments are only supported for production.',
         400,
       );
     }
-    assertSafeGitUrl(resolvedGitUrl);
-    if (resolvedBuildCommand) {
-      assertSafeDeploymentCommand('buildCommand', resolvedBuildCommand);
+    if (input.blueGreen && (resolvedEnvironment !== 'production' || input.canary)) {
+      throw new DeploymentRequestError(
+        'Blue/green deployments are only supported for production and cannot be canaries.',
+        400,
+      );
     }
-    if (resolvedStartCommand) {
-      assertSafeDeploymentCommand('startCommand', resolvedStartCommand);
+    if (input.blueGreen && project.canaryDeploymentId) {
+      throw new DeploymentRequestError(
+        'A canary release is active for this project. Promote or abort it first.',
+        409,
+      );
     }
-
-    const gitHubRepoIdentity = resolveGitHubRepoIdentity({
-      gitProvider: project.gitProvider,
-      repoOwner: project.repoOwner,
-      repoName: project.repoName,
-      repoFullName: project.repoFullName,
-      gitUrl: resolvedGitUrl,
-    });
+    if (input.canary && project.blueGreenDeploymentId) {
+      throw new DeploymentRequestError(
+        'A blue/green deployment is idle for this project. Switch to it or discard it first.',
+        409,
+      );
+    }
+    if (resolvedGitUrl) {
+      await assertSafeGitUrl(resolvedGitUrl);
+    }
+    const parsedImageReference = resolvedImageReference
+      ? await assertSafeImageReference(resolvedImageReference)
+      : null;
+
+    const gitHubRepoIdentity = resolvedGitUrl
+      ? resolveGitHubRepoIdentity({
+          gitProvider: project.gitProvider,
+          repoOwner: project.repoOwner,
+          repoName: project.repoName,
+          repoFullName: project.repoFullName,
+          gitUrl: resolvedGitUrl,
+        })
+      : null;
     const gitHubAccessToken = gitHubRepoIdentity
       ? await this.resolveGitHubAccessToken({
           ...(input.actorUserId && { actorUserId: input.actorUserId }),
           projectOwnerUserId: project.createdById,
         })
       : undefined;
+    const gitProviderCredentials = resolvedGitUrl
+      ? await this.resolveExternalGitCredentials({
+          gitProvider: project.gitProvider,
+          gitUrl: resolvedGitUrl,
+          ...(input.actorUserId && { actorUserId: input.actorUserId }),
+          projectOwnerUserId: project.createdById,
+        })
+      : null;
+    const registryAuth = parsedImageReference
+      ? await this.resolveRegistryAuth(project.id, parsedImageReference.registry)
+      : undefined;
 
     const providedCommitSha = normalizeCommitSha(input.commitSha);
     const resolvedCommitSha =
-      input.imageTag && !providedCommitSha
+      !resolvedGitUrl || (input.imageTag && !providedCommitSha)
         ? undefined
         : (providedCommitSha ??
           (await this.resolveLatestGitHubCommitSha({
@@ -206,24 +490,121 @@ export class DeploymentRequestService {
             ...(gitHubAccessToken && { accessToken: gitHubAccessToken }),
           })));
 
+    // Rollbacks reuse an existing image, so the repository build config is only read for builds.
+    const repositoryBuildConfig =
+      gitHubRepoIdentity && resolvedCommitSha && !input.imageTag
+        ? await this.loadRepositoryBuildConfig({
+            owner: gitHubRepoIdentity.owner,
+            repo: gitHubRepoIdentity.name,
+            ref: resolvedCommitSha,
+            ...(gitHubAccessToken && { accessToken: gitHubAccessToken }),
+          })
+        : null;
+    const fileConfig = repositoryBuildConfig?.config ?? {};
+
+    // Precedence: explicit request values > repository build config > project settings.
+    const resolvedRootDirectory =
+      input.rootDirectory ?? fileConfig.rootDirectory ?? project.rootDirectory ?? undefined;
+    const resolvedInstallCommand = fileConfig.installCommand ?? project.installCommand ?? undefined;
+    const resolvedStartCommand =
+      input.startCommand ?? fileConfig.startCommand ?? project.startCommand ?? undefined;
+    const resolvedReleaseCommand = fileConfig.releaseCommand ?? project.releaseCommand ?? undefined;
+    const resolvedBuildCommand =
+      input.buildCommand ?? fileConfig.buildCommand ?? project.buildCommand ?? undefined;
+    const resolvedPort = input.port ?? fileConfig.port ?? project.targetPort ?? 3000;
+    const resolvedServiceType =
+      input.serviceType ?? fileConfig.serviceType ?? (project as any).serviceType ?? 'web_service';
+    const resolvedOutputDirectory =
+      input.outputDirectory ??
+      fileConfig.outputDirectory ??
+      (project as any).outputDirectory ??
+      undefined;
+    const resolvedDockerfilePath = fileConfig.dockerfilePath ?? project.dockerfilePath ?? undefined;
+    const resolvedDockerTarget = fileConfig.dockerTarget ?? project.dockerTarget ?? undefined;
+    const requestOverrides: Partial<Record<BuildConfigKey, unknown>> = {
+      rootDirectory: input.rootDirectory,
+      startCommand: input.startCommand,
+      buildCommand: input.buildCommand,
+      port: input.port,
+      serviceType: input.serviceType,
+      outputDirectory: input.outputDirectory,
+    };
+    const buildConfigSource: BuildConfigSource | undefined = repositoryBuildConfig
+      ? {
+          path: repositoryBuildConfig.path,
+          commitSha: repositoryBuildConfig.commitSha,
+          keys: listBuildConfigKeys(fileConfig).filter(
+            (key) => requestOverrides[key] === undefined,
+          ),
+        }
+      : undefined;
+
+    if (resolvedInstallCommand) {
+      assertSafeDeploymentCommand('installCommand', resolvedInstallCommand);
+    }
+    if (resolvedBuildCommand) {
+      assertSafeDeploymentCommand('buildCommand', resolvedBuildCommand);
+    }
+    if (resolvedStartCommand) {
+      assertSafeDeploymentCommand('startCommand', resolvedStartCommand);
+    }
+    if (resolvedReleaseCommand) {
+      assertSafeDeploymentCommand('releaseCommand', resolvedReleaseCommand);
+    }
+
+    // Workers have no port, so there is nothing to route a domain or a canary split to.
+    const isWorker = resolvedServiceType === 'worker';
+    if (isWorker && requestedDomain) {
+      throw new DeploymentRequestError('Workers have no public HTTP route; omit the domain.', 400);
+    }
+    if (isWorker && input.canary) {
+      throw new DeploymentRequestError(
+        'Canary releases split HTTP traffic and are not available for workers.',
+        400,
+      );
+    }
+    // A group stages every member, workers included, until the whole group is ready.
+    if (isWorker && input.blueGreen && !input.groupDeploymentId) {
+      throw new DeploymentRequestError(
+        'Blue/green releases switch HTTP traffic and are not available for workers.',
+        400,
+      );
+    }
+
     // Preview deployments keep existing style behavior.
     // Production deployments now default to a unique single-label domain while
     // keeping the legacy project.workspace domain as an alias in the runtime edge layer.
-    const resolvedDomain =
-      requestedDomain ??
-      (resolvedEnvironment === 'preview'
-        ? buildPreviewDomain({
+    const resolvedDomain = isWorker
+      ? null
+      : (requestedDomain ??
+        (resolvedEnvironment === 'preview'
+          ? buildPreviewDomain({
+              projectSlug: project.slug,
+              organizationSlug: project.organization.slug,
+              baseDomain: env.PREVIEW_BASE_DOMAIN,
+              // Pull requests keep one domain across pushes; the "project" style would collide between PRs.
+              ref: input.pullRequest
+                ? `pr-${input.pullRequest.number}`
+                : (resolvedCommitSha ??
+                  parsedImageReference?.digest?.slice('sha256:'.length, 'sha256:'.length + 12) ??
+                  parsedImageReference?.tag ??
+                  resolvedBranch),
+              style: input.pullRequest ? 'project_ref' : env.PREVIEW_DOMAIN_STYLE,
+            })
+          : buildUniqueProjectDomain({
+              projectSlug: project.slug,
+              organizationSlug: project.organization.slug,
+              baseDomain: env.BASE_DOMAIN,
+            })));
+
+    const verificationDomain =
+      input.blueGreen && !isWorker
+        ? buildVerificationDomain({
             projectSlug: project.slug,
             organizationSlug: project.organization.slug,
             baseDomain: env.PREVIEW_BASE_DOMAIN,
-            ref: resolvedCommitSha ?? resolvedBranch,
-            style: env.PREVIEW_DOMAIN_STYLE,
           })
-        : buildUniqueProjectDomain({
-            projectSlug: project.slug,
-            organizationSlug: project.organization.slug,
-            baseDomain: env.BASE_DOMAIN,
-          }));
+        : undefined;
 
     const activeSubscription = project.organization.subscriptions[0];
     if (!activeSubscription) {
@@ -286,17 +667,33 @@ export class DeploymentRequestService {
       idempotencyReservationAcquired = true;
     }
 
+    // Previews always run a single replica.
+    const replicaCount = resolvedEnvironment === 'preview' ? 1 : project.replicaCount;
+    const allocation = replicaAllocation(
+      {
+        ramMb: project.resourceRamMb,
+        cpuMillicores: project.resourceCpuMillicore,
+        bandwidthGb: project.resourceBandwidthGb,
+      },
+      replicaCount,
+    );
     const capacityRequest: CapacityRequest = {
-      ramMb: project.resourceRamMb,
-      cpuMillicores: project.resourceCpuMillicore,
-      bandwidthGb: project.resourceBandwidthGb,
+      ...allocation,
       region: env.DEFAULT_REGION,
+      organizationId: project.organizationId,
     };
 
+    // Blue/green runs beside the live deployment: nginx on that server switches between them.
+    const placement =
+      input.placement ??
+      (input.blueGreen
+        ? await this.resolveBlueGreenPlacement(project, Boolean(input.groupDeploymentId))
+        : undefined);
+
     let requestedServer: Server | null = null;
-    if (input.placement?.serverId) {
+    if (placement?.serverId) {
       requestedServer = await prisma.server.findUnique({
-        where: { id: input.placement.serverId },
+        where: { id: placement.serverId },
       });
       if (!requestedServer) {
         throw new DeploymentRequestError('Requested deployment server was not found.', 409);
@@ -306,6 +703,40 @@ export class DeploymentRequestService {
       }
     }
 
+    // Production containers mount the project's volumes, which exist on one server only, and
+    // reach its self-hosted databases over that server's organization network.
+    const volumeServerId =
+      resolvedEnvironment === 'production'
+        ? ((
+            await prisma.projectVolume.findFirst({
+              where: { projectId: project.id },
+              select: { serverId: true },
+            })
+          )?.serverId ??
+          (
+            await prisma.managedDatabase.findFirst({
+              where: { projectId: project.id, provider: 'self_hosted' },
+              select: { serverId: true },
+            })
+          )?.serverId ??
+          null)
+        : null;
+    if (volumeServerId) {
+      if (requestedServer && requestedServer.id !== volumeServerId) {
+        throw new DeploymentRequestError(
+          'This project has volumes or databases on another server; deployments are pinned to that server.',
+          409,
+        );
+      }
+      requestedServer ??= await prisma.server.findUnique({ where: { id: volumeServerId } });
+      if (requestedServer?.status !== ServerStatus.healthy) {
+        throw new DeploymentRequestError(
+          "The server holding this project's volumes or databases is not healthy. Deployments resume once it recovers.",
+          409,
+        );
+      }
+    }
+
     const activeContainer = await prisma.container.findFirst({
       where: {
         projectId: project.id,
@@ -338,13 +769,45 @@ export class DeploymentRequestService {
       );
     }
 
+    // A replica count change needs a fresh reservation for the new total; the
+    // engine releases the previous deployment's share once it is replaced.
+    const activeReplicaCount =
+      resolvedEnvironment === 'production' && project.activeDeploymentId
+        ? ((
+            await prisma.deployment.findUnique({
+              where: { id: project.activeDeploymentId },
+              select: { replicaCount: true },
+            })
+          )?.replicaCount ?? replicaCount)
+        : replicaCount;
+
+    // Resolved before anything is reserved, so a broken reference fails the request cleanly.
+    let secretSet: Awaited<ReturnType<typeof loadProjectSecretSet>>;
+    try {
+      secretSet = input.secretsFromDeploymentId
+        ? await loadDeploymentSecretSet(input.secretsFromDeploymentId)
+        : await loadProjectSecretSet(project.id, {
+            environment: resolvedEnvironment,
+            branch: resolvedBranch,
+          });
+    } catch (error) {
+      if (error instanceof SecretReferenceError) {
+        if (input.idempotencyKey && idempotencyReservationAcquired) {
+          await redis.del(`apployd:idempotency:deploy:${project.id}:${input.idempotencyKey}`);
+        }
+        throw new DeploymentRequestError(error.message, 422);
+      }
+      throw error;
+    }
+
     let server: Server;
     let deployment: Deployment;
     const reserveCapacity =
-      input.placement?.forceReserveCapacity === true ||
+      placement?.forceReserveCapacity === true ||
       !reusableServer ||
       !activeContainer ||
-      reusableServer.id !== activeContainer.serverId;
+      reusableServer.id !== activeContainer.serverId ||
+      activeReplicaCount !== replicaCount;
 
     try {
       if (!reserveCapacity && reusableServer) {
@@ -354,13 +817,20 @@ export class DeploymentRequestService {
             projectId: project.id,
             serverId: server.id,
             environment: resolvedEnvironment,
-            gitUrl: resolvedGitUrl,
-            branch: resolvedBranch,
+            sourceType: resolvedSourceType,
+            gitUrl: resolvedGitUrl ?? null,
+            imageReference: resolvedImageReference ?? null,
+            branch: resolvedGitUrl ? resolvedBranch : null,
             commitSha: resolvedCommitSha ?? null,
             imageTag: input.imageTag ?? null,
             domain: resolvedDomain,
+            replicaCount,
             capacityReserved: false,
             isCanary: Boolean(input.canary),
+            ...(input.canary?.plan && { canaryPlan: input.canary.plan }),
+            ...(verificationDomain && { verificationDomain }),
+            ...(input.groupDeploymentId && { groupDeploymentId: input.groupDeploymentId }),
+            ...(input.pullRequest && { pullRequestNumber: input.pullRequest.number }),
           }),
         });
       } else {
@@ -370,15 +840,23 @@ export class DeploymentRequestService {
           deployment: {
             projectId: project.id,
             environment: resolvedEnvironment,
-            gitUrl: resolvedGitUrl,
-            branch: resolvedBranch,
+            sourceType: resolvedSourceType,
+            gitUrl: resolvedGitUrl ?? null,
+            imageReference: resolvedImageReference ?? null,
+            branch: resolvedGitUrl ? resolvedBranch : null,
             commitSha: resolvedCommitSha ?? null,
             imageTag: input.imageTag ?? null,
             domain: resolvedDomain,
+            replicaCount,
             capacityReserved: true,
             isCanary: Boolean(input.canary),
+            ...(input.canary?.plan && { canaryPlan: input.canary.plan }),
+            ...(verificationDomain && { verificationDomain }),
+            ...(input.groupDeploymentId && { groupDeploymentId: input.groupDeploymentId }),
+            ...(input.pullRequest && { pullRequestNumber: input.pullRequest.number }),
           },
-          allowReschedule: input.placement?.requireServerAffinity === true ? false : true,
+          allowReschedule:
+            placement?.requireServerAffinity === true || volumeServerId ? false : true,
         });
         server = reserved.server;
         deployment = reserved.deployment;
@@ -397,15 +875,21 @@ export class DeploymentRequestService {
         }
 
         throw new DeploymentRequestError(
-          `Insufficient server capacity in region ${env.DEFAULT_REGION}. Requested ${project.resourceRamMb}MB RAM, ${project.resourceCpuMillicore}m CPU, ${project.resourceBandwidthGb}GB bandwidth. Largest available right now: ${error.diagnostics.largestAvailable.ramMb}MB RAM, ${error.diagnostics.largestAvailable.cpuMillicores}m CPU, ${error.diagnostics.largestAvailable.bandwidthGb}GB bandwidth.`,
+          `Insufficient server capacity in region ${env.DEFAULT_REGION}. Requested ${allocation.ramMb}MB RAM, ${allocation.cpuMillicores}m CPU, ${allocation.bandwidthGb}GB bandwidth${replicaCount > 1 ? ` for ${replicaCount} replicas` : ''}. Largest available right now: ${error.diagnostics.largestAvailable.ramMb}MB RAM, ${error.diagnostics.largestAvailable.cpuMillicores}m CPU, ${error.diagnostics.largestAvailable.bandwidthGb}GB bandwidth.`,
           503,
         );
       }
 
       if (error instanceof CapacityReservationContentionError) {
-        if (input.placement?.requireServerAffinity) {
+        if (placement?.requireServerAffinity) {
+          throw new DeploymentRequestError(
+            `Insufficient capacity on the active server to run this ${input.blueGreen ? 'blue/green deployment' : 'canary'} alongside the stable deployment.`,
+            503,
+          );
+        }
+        if (volumeServerId) {
           throw new DeploymentRequestError(
-            'Insufficient capacity on the active server to run this canary alongside the stable deployment.',
+            "Insufficient capacity on the server holding this project's volumes.",
             503,
           );
         }
@@ -418,45 +902,65 @@ export class DeploymentRequestService {
       throw new DeploymentRequestError((error as Error).message, 503);
     }
 
-    const projectSecrets = await prisma.projectSecret.findMany({
-      where: { projectId: project.id },
-      select: {
-        key: true,
-        encryptedValue: true,
-        iv: true,
-        authTag: true,
-      },
-    });
+    const githubStatus = gitHubRepoIdentity
+      ? await this.openGitHubStatus({
+          deploymentId: deployment.id,
+          projectId: project.id,
+          projectSlug: project.slug,
+          projectOwnerUserId: project.createdById,
+          environment: resolvedEnvironment,
+          owner: gitHubRepoIdentity.owner,
+          repo: gitHubRepoIdentity.name,
+          commitSha: resolvedCommitSha,
+        })
+      : undefined;
 
-    const decryptedSecrets = projectSecrets.reduce<Record<string, string>>((acc, secret) => {
-      acc[secret.key] = decryptSecret({
-        encryptedValue: secret.encryptedValue,
-        iv: secret.iv,
-        authTag: secret.authTag,
-      });
-      return acc;
-    }, {});
+    await this.secrets.recordDeploymentSnapshot(deployment.id, secretSet.versionIds);
 
     const payload: DeploymentRequest = {
       projectId: project.id,
-      gitUrl: resolvedGitUrl,
+      sourceType: resolvedSourceType,
+      ...(resolvedGitUrl && { gitUrl: resolvedGitUrl }),
+      ...(resolvedImageReference && { imageReference: resolvedImageReference }),
+      ...(registryAuth && { registryAuth }),
       ...(gitHubAccessToken && { gitAuthToken: gitHubAccessToken }),
+      ...(gitProviderCredentials && {
+        gitAuthToken: gitProviderCredentials.accessToken,
+        gitAuthUsername: resolveGitCloneUsername(
+          gitProviderCredentials.provider,
+          gitProviderCredentials.username,
+        ),
+        gitAuthHost: new URL(gitProviderCredentials.baseUrl).host,
+      }),
       ...(resolvedBranch && { branch: resolvedBranch }),
       ...(resolvedCommitSha && { commitSha: resolvedCommitSha }),
       ...(resolvedRootDirectory && { rootDirectory: resolvedRootDirectory }),
+      ...(resolvedInstallCommand && { installCommand: resolvedInstallCommand }),
       ...(resolvedBuildCommand && { buildCommand: resolvedBuildCommand }),
       ...(resolvedStartCommand && { startCommand: resolvedStartCommand }),
+      // Static sites ship files to nginx; there is no app runtime to run a release in.
+      ...(resolvedReleaseCommand &&
+        resolvedServiceType !== 'static_site' && { releaseCommand: resolvedReleaseCommand }),
       port: resolvedPort,
-      env: { ...decryptedSecrets, ...(input.env ?? {}) },
+      env: { ...secretSet.env, ...(input.env ?? {}) },
       ...(resolvedEnvironment && { environment: resolvedEnvironment }),
-      serviceType: resolvedServiceType as 'web_service' | 'static_site' | 'python',
+      serviceType: resolvedServiceType as ServiceType,
       ...(resolvedOutputDirectory && { outputDirectory: resolvedOutputDirectory }),
+      ...(resolvedServiceType === 'dockerfile' &&
+        resolvedDockerfilePath && { dockerfilePath: resolvedDockerfilePath }),
+      ...(resolvedServiceType === 'dockerfile' &&
+        resolvedDockerTarget && { dockerTarget: resolvedDockerTarget }),
+      ...(buildConfigSource && { buildConfig: buildConfigSource }),
+      ...(input.pullRequest && { pullRequest: input.pullRequest }),
+      ...(githubStatus && { githubStatus }),
     };
 
     try {
       const queuedMessage = input.canary
         ? `Deployment queued (${input.trigger}, canary)`
-        : `Deployment queued (${input.trigger})`;
+        : input.blueGreen
+          ? `Deployment queued (${input.trigger}, blue/green)`
+          : `Deployment queued (${input.trigger})`;
 
       await prisma.logEntry.create({
         data: {
@@ -468,16 +972,23 @@ export class DeploymentRequestService {
           metadata: {
             eventType: 'queued',
             trigger: input.trigger,
+            ...(input.groupDeploymentId && { groupDeploymentId: input.groupDeploymentId }),
+            ...(input.pullRequest && { pullRequestNumber: input.pullRequest.number }),
+            ...(buildConfigSource && {
+              buildConfigPath: buildConfigSource.path,
+              buildConfigKeys: buildConfigSource.keys,
+            }),
             ...(input.canary && {
               isCanary: true,
               canaryWeight: input.canary.weight,
               stableDeploymentId: input.canary.stableDeploymentId,
             }),
+            ...(verificationDomain && { blueGreen: true, verificationDomain }),
           },
         },
       });
 
-      await this.queue.enqueue({
+      const job = {
         deploymentId: deployment.id,
         organizationId: project.organizationId,
         projectId: project.id,
@@ -488,7 +999,13 @@ export class DeploymentRequestService {
           canaryWeight: input.canary.weight,
           stableContainerHostPort: input.canary.stableContainerHostPort,
         }),
-      });
+        ...(input.blueGreen && { isBlueGreen: true }),
+      };
+      if (input.groupDeploymentId) {
+        await this.queue.stageGroupDeployment(input.groupDeploymentId, job);
+      } else {
+        await this.queue.enqueue(job);
+      }
 
       await this.queue.publishEvent({
         deploymentId: deployment.id,
@@ -509,9 +1026,9 @@ export class DeploymentRequestService {
         await prisma.server.update({
           where: { id: server.id },
           data: {
-            reservedRamMb: { decrement: project.resourceRamMb },
-            reservedCpuMillicores: { decrement: project.resourceCpuMillicore },
-            reservedBandwidthGb: { decrement: project.resourceBandwidthGb },
+            reservedRamMb: { decrement: allocation.ramMb },
+            reservedCpuMillicores: { decrement: allocation.cpuMillicores },
+            reservedBandwidthGb: { decrement: allocation.bandwidthGb },
           },
         });
       }
@@ -520,9 +1037,33 @@ export class DeploymentRequestService {
         await redis.del(`apployd:idempotency:deploy:${project.id}:${input.idempotencyKey}`);
       }
 
+      if (githubStatus?.checkRunId) {
+        const [owner, repo] = githubStatus.repoFullName.split('/');
+        await this.github
+          .completeCheckRun({
+            accessToken: githubStatus.accessToken,
+            owner: owner!,
+            repo: repo!,
+            checkRunId: githubStatus.checkRunId,
+            conclusion: 'failure',
+            title: 'Deployment failed',
+            summary: `Queueing failed: ${(error as Error).message}`,
+          })
+          .catch(() => undefined);
+      }
+
       throw new DeploymentRequestError('Deployment queue is unavailable. Try again.', 503);
     }
 
+    await this.flagPrivateNetworkSplit({
+      organizationId: project.organizationId,
+      projectId: project.id,
+      deploymentId: deployment.id,
+      serverId: server.id,
+    }).catch((error) => {
+      console.error('Failed to check private network placement', deployment.id, error);
+    });
+
     if (input.idempotencyKey) {
       await redis.set(
         `apployd:idempotency:deploy:${project.id}:${input.idempotencyKey}`,
@@ -536,21 +1077,24 @@ export class DeploymentRequestService {
       organizationId: project.organizationId,
       ...(input.actorUserId && { actorUserId: input.actorUserId }),
       action:
-        input.trigger === 'github_push' ? 'deployment.created.github_push' : 'deployment.created',
+        input.trigger === 'manual' ? 'deployment.created' : `deployment.created.${input.trigger}`,
       entityType: 'deployment',
       entityId: deployment.id,
       metadata: {
         projectId: project.id,
         serverId: server.id,
         domain: deployment.domain,
-        branch: resolvedBranch,
+        sourceType: resolvedSourceType,
+        ...(resolvedGitUrl && { branch: resolvedBranch }),
+        ...(resolvedImageReference && { imageReference: resolvedImageReference }),
         ...(resolvedCommitSha && { commitSha: resolvedCommitSha }),
         ...(input.canary && {
           isCanary: true,
           canaryWeight: input.canary.weight,
           stableDeploymentId: input.canary.stableDeploymentId,
-          serverAffinity: input.placement?.serverId ?? server.id,
+          serverAffinity: placement?.serverId ?? server.id,
         }),
+        ...(verificationDomain && { blueGreen: true, verificationDomain }),
       },
     });
 
@@ -560,10 +1104,39 @@ export class DeploymentRequestService {
       environment: resolvedEnvironment,
       domain: deployment.domain,
       url: this.resolvePublicUrl(deployment.domain),
+      ...(verificationDomain && { verificationUrl: this.resolvePublicUrl(verificationDomain) }),
       websocket: resolveDeploymentWebsocketUrl(deployment.id),
     };
   }
 
+  /**
+   * The live deployment's server, with room reserved for both sides until one
+   * is retired. A group member deploying for the first time has nothing to run
+   * beside and is placed like any first deployment.
+   */
+  private async resolveBlueGreenPlacement(
+    project: { activeDeploymentId: string | null },
+    groupMember: boolean,
+  ): Promise<DeploymentPlacement | undefined> {
+    if (groupMember && !project.activeDeploymentId) {
+      return undefined;
+    }
+    const live = project.activeDeploymentId
+      ? await prisma.deployment.findUnique({
+          where: { id: project.activeDeploymentId },
+          select: { serverId: true, container: { select: { status: true } } },
+        })
+      : null;
+    if (!live?.serverId || live.container?.status !== 'running') {
+      throw new DeploymentRequestError(
+        'Blue/green needs a running production deployment to switch from. Deploy normally first.',
+        400,
+      );
+    }
+
+    return { serverId: live.serverId, requireServerAffinity: true, forceReserveCapacity: true };
+  }
+
   private buildDeploymentRecord(
     input: DeploymentRecordInput,
   ): Prisma.DeploymentUncheckedCreateInput {
@@ -572,16 +1145,75 @@ export class DeploymentRequestService {
       serverId: input.serverId,
       status: 'queued',
       environment: input.environment,
+      sourceType: input.sourceType,
       gitUrl: input.gitUrl,
+      imageReference: input.imageReference,
       branch: input.branch,
       commitSha: input.commitSha,
       imageTag: input.imageTag,
       domain: input.domain,
+      replicaCount: input.replicaCount,
       capacityReserved: input.capacityReserved,
       ...(input.isCanary && { isCanary: true }),
+      ...(input.canaryPlan && {
+        canaryPlan: input.canaryPlan as unknown as Prisma.InputJsonValue,
+      }),
+      ...(input.verificationDomain && { verificationDomain: input.verificationDomain }),
+      ...(input.groupDeploymentId && { groupDeploymentId: input.groupDeploymentId }),
+      ...(input.pullRequestNumber && { pullRequestNumber: input.pullRequestNumber }),
+    };
+  }
+
+  /** Registry pull credentials, sent only when they belong to the image's registry. */
+  private async resolveRegistryAuth(
+    projectId: string,
+    registry: string,
+  ): Promise<RegistryAuth | undefined> {
+    const credential = await prisma.projectRegistryCredential.findUnique({
+      where: { projectId },
+    });
+    if (!credential || normalizeRegistryHost(credential.registry) !== registry) {
+      return undefined;
+    }
+
+    return {
+      registry: credential.registry,
+      username: credential.username,
+      password: await decryptSecret({
+        encryptedValue: credential.encryptedPassword,
+        iv: credential.iv,
+        authTag: credential.authTag,
+        keyId: credential.keyId,
+      }),
     };
   }
 
+  /**
+   * Clone credentials for GitLab and Bitbucket projects, from the actor's or
+   * the project owner's connection to the repository's host.
+   */
+  private async resolveExternalGitCredentials(input: {
+    gitProvider: string | null;
+    gitUrl: string;
+    actorUserId?: string;
+    projectOwnerUserId: string;
+  }): Promise<GitProviderCredentials | null> {
+    if (!isExternalGitProvider(input.gitProvider)) {
+      return null;
+    }
+
+    const repoPath = parseRepoPathFromGitUrl(input.gitUrl);
+    if (!repoPath) {
+      return null;
+    }
+
+    return this.gitProviders.resolveCredentials({
+      userIds: [input.actorUserId, input.projectOwnerUserId],
+      provider: input.gitProvider,
+      repoHost: repoPath.host,
+    });
+  }
+
   private async resolveLatestGitHubCommitSha(input: {
     gitProvider: string | null;
     repoOwner: string | null;
@@ -627,6 +1259,162 @@ export class DeploymentRequestService {
     }
   }
 
+  private async loadRepositoryBuildConfig(input: {
+    owner: string;
+    repo: string;
+    ref: string;
+    accessToken?: string;
+  }): Promise<{
+    path: BuildConfigFileName;
+    commitSha: string;
+    config: RepositoryBuildConfig;
+  } | null> {
+    for (const fileName of BUILD_CONFIG_FILE_NAMES) {
+      let source: string | null;
+      try {
+        source = await this.github.getRepositoryFileContent({
+          owner: input.owner,
+          repo: input.repo,
+          path: fileName,
+          ref: input.ref,
+          ...(input.accessToken && { accessToken: input.accessToken }),
+        });
+      } catch (error) {
+        throw new DeploymentRequestError(
+          `Unable to read ${fileName} at commit ${input.ref.slice(0, 7)}: ${(error as Error).message}`,
+          502,
+        );
+      }
+      if (source === null) {
+        continue;
+      }
+
+      try {
+        return {
+          path: fileName,
+          commitSha: input.ref,
+          config: parseBuildConfigFile(fileName, source),
+        };
+      } catch (error) {
+        if (error instanceof BuildConfigParseError) {
+          throw new DeploymentRequestError(
+            `Invalid ${fileName} at commit ${input.ref.slice(0, 7)}: ${error.message}`,
+            400,
+          );
+        }
+        throw error;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Reports the queued deployment on its commit with the project owner's
+   * token: a check run when the token allows it, otherwise a pending commit
+   * status. The engine carries on from here with the returned target.
+   */
+  private async openGitHubStatus(input: {
+    deploymentId: string;
+    projectId: string;
+    projectSlug: string;
+    projectOwnerUserId: string;
+    environment: 'production' | 'preview';
+    owner: string;
+    repo: string;
+    commitSha: string | undefined;
+  }): Promise<GitHubStatusTarget | undefined> {
+    const accessToken = await this.resolveGitHubAccessToken({
+      projectOwnerUserId: input.projectOwnerUserId,
+    });
+    if (!accessToken) {
+      return undefined;
+    }
+
+    const target: GitHubStatusTarget = {
+      repoFullName: `${input.owner}/${input.repo}`,
+      accessToken,
+      context: buildDeploymentStatusContext(input.environment, input.projectSlug),
+    };
+    if (!input.commitSha) {
+      // The engine reports once the build resolves the commit.
+      return target;
+    }
+
+    const detailsUrl = new URL(
+      `/projects/${input.projectId}/deployments/${input.deploymentId}`,
+      env.DASHBOARD_BASE_URL,
+    ).toString();
+
+    try {
+      const checkRun = await this.github.createCheckRun({
+        accessToken,
+        owner: input.owner,
+        repo: input.repo,
+        sha: input.commitSha,
+        name: target.context,
+        externalId: input.deploymentId,
+        detailsUrl,
+        title: 'Deployment queued',
+        summary: `Waiting for a deployment worker to build \`${input.commitSha.slice(0, 7)}\`.`,
+      });
+      if (checkRun) {
+        return { ...target, checkRunId: checkRun.checkRunId };
+      }
+
+      await this.github.createCommitStatus({
+        accessToken,
+        owner: input.owner,
+        repo: input.repo,
+        sha: input.commitSha,
+        state: 'pending',
+        context: target.context,
+        description: 'Deployment queued',
+        targetUrl: detailsUrl,
+      });
+    } catch (error) {
+      console.error('Failed to report queued deployment to GitHub', input.deploymentId, error);
+    }
+
+    return target;
+  }
+
+  /**
+   * Organization networks are bridges on one Docker host; a deployment placed
+   * away from the rest of its organization cannot reach their `.internal`
+   * names, so the split is logged where the deployment's owners will see it.
+   */
+  private async flagPrivateNetworkSplit(input: {
+    organizationId: string;
+    projectId: string;
+    deploymentId: string;
+    serverId: string;
+  }): Promise<void> {
+    const organizationServerIds = await this.scheduler.findOrganizationServerIds(
+      input.organizationId,
+      { excludeProjectId: input.projectId },
+    );
+    if (!organizationServerIds.some((serverId) => serverId !== input.serverId)) {
+      return;
+    }
+
+    await prisma.logEntry.create({
+      data: {
+        projectId: input.projectId,
+        deploymentId: input.deploymentId,
+        level: 'warn',
+        source: 'control-plane',
+        message:
+          'Deployment placed on another server than the rest of this organization; private networking (.internal names) does not reach across servers',
+        metadata: {
+          eventType: 'private_network.split',
+          serverId: input.serverId,
+          organizationServerIds,
+        },
+      },
+    });
+  }
+
   private async resolveGitHubAccessToken(input: {
     actorUserId?: string;
     projectOwnerUserId: string;
@@ -642,6 +1430,7 @@ export class DeploymentRequestService {
           encryptedAccessToken: true,
           iv: true,
           authTag: true,
+          keyId: true,
         },
       });
       if (!connection) {
@@ -652,6 +1441,7 @@ export class DeploymentRequestService {
         encryptedValue: connection.encryptedAccessToken,
         iv: connection.iv,
         authTag: connection.authTag,
+        keyId: connection.keyId,
       });
     }
 
@@ -834,6 +1624,24 @@ const buildUniqueProjectDomain = (input: {
   return `${uniqueLabel}.${input.baseDomain}`;
 };
 
+/**
+ * Private hostname of a blue/green deployment. The random part keeps it
+ * unguessable; it is never aliased to the project's public domains.
+ */
+const buildVerificationDomain = (input: {
+  projectSlug: string;
+  organizationSlug: string;
+  baseDomain: string;
+}): string => {
+  const projectPart = sanitizeDomainLabel(input.projectSlug, 'project').slice(0, 28);
+  const label = sanitizeDomainLabel(
+    `${projectPart}-verify-${randomBytes(6).toString('hex')}`,
+    'verify',
+  );
+  const organizationLabel = sanitizeDomainLabel(input.organizationSlug, 'org');
+  return `${label}.${organizationLabel}.${input.baseDomain}`;
+};
+
 const normalizeCommitSha = (value?: string | null): string | undefined => {
   const normalized = value?.trim();
   return normalized || undefined;
@@ -903,61 +1711,26 @@ const parseGitHubRepoFromGitUrl = (value: string): { owner: string; name: string
   return { owner, name };
 };
 
-const isPrivateIpv4 = (host: string): boolean => {
-  const parts = host.split('.').map((part) => Number(part));
-  if (parts.length !== 4 || parts.some((part) => Number.isNaN(part) || part < 0 || part > 255)) {
-    return false;
-  }
-
-  const [a = 0, b = 0] = parts;
-  return (
-    a === 10 ||
-    a === 127 ||
-    a === 0 ||
-    (a === 169 && b === 254) ||
-    (a === 172 && b >= 16 && b <= 31) ||
-    (a === 192 && b === 168)
-  );
-};
-
-const isPrivateIpv6 = (host: string): boolean => {
-  const normalized = host.toLowerCase();
-  return (
-    normalized === '::1' ||
-    normalized.startsWith('fe80:') ||
-    normalized.startsWith('fc') ||
-    normalized.startsWith('fd')
-  );
-};
-
-const isPrivateHost = (hostInput: string): boolean => {
-  const host = hostInput.trim().toLowerCase();
-  if (!host) {
-    return true;
-  }
-
-  if (
-    host === 'localhost' ||
-    host.endsWith('.localhost') ||
-    host.endsWith('.local') ||
-    host === 'host.docker.internal' ||
-    host.endsWith('.internal')
-  ) {
-    return true;
+const assertSafeImageReference = async (value: string): Promise<ImageReference> => {
+  const parsed = parseImageReference(value);
+  if (!parsed) {
+    throw new DeploymentRequestError(
+      'imageReference must look like registry/repository:tag or registry/repository@sha256:<digest>.',
+      400,
+    );
   }
 
-  const ipKind = isIP(host);
-  if (ipKind === 4) {
-    return isPrivateIpv4(host);
-  }
-  if (ipKind === 6) {
-    return isPrivateIpv6(host);
+  const host = registryHostname(parsed.registry);
+  if (!env.ALLOW_PRIVATE_REGISTRIES && (await resolvesToPrivateHost(host))) {
+    throw new DeploymentRequestError(
+      `Registry host "${host}" is private, local or does not resolve. Set ALLOW_PRIVATE_REGISTRIES=true if this is intentional.`,
+      400,
+    );
   }
-
-  return false;
+  return parsed;
 };
 
-const assertSafeGitUrl = (gitUrl: string): void => {
+const assertSafeGitUrl = async (gitUrl: string): Promise<void> => {
   if (env.ALLOW_PRIVATE_GIT_HOSTS) {
     return;
   }
@@ -966,9 +1739,9 @@ const assertSafeGitUrl = (gitUrl: string): void => {
   const sshStyleMatch = trimmed.match(/^git@([^:]+):.+$/i);
   if (sshStyleMatch) {
     const sshHost = sshStyleMatch[1] ?? '';
-    if (isPrivateHost(sshHost)) {
+    if (await resolvesToPrivateHost(sshHost)) {
       throw new DeploymentRequestError(
-        `Repository host "${sshHost}" is private or local. Set ALLOW_PRIVATE_GIT_HOSTS=true if this is intentional.`,
+        `Repository host "${sshHost}" is private, local or does not resolve. Set ALLOW_PRIVATE_GIT_HOSTS=true if this is intentional.`,
         400,
       );
     }
@@ -986,9 +1759,9 @@ const assertSafeGitUrl = (gitUrl: string): void => {
     throw new DeploymentRequestError('Only https:// and ssh:// repository URLs are allowed.', 400);
   }
 
-  if (isPrivateHost(parsed.hostname)) {
+  if (await resolvesToPrivateHost(parsed.hostname)) {
     throw new DeploymentRequestError(
-      `Repository host "${parsed.hostname}" is private or local. Set ALLOW_PRIVATE_GIT_HOSTS=true if this is intentional.`,
+      `Repository host "${parsed.hostname}" is private, local or does not resolve. Set ALLOW_PRIVATE_GIT_HOSTS=true if this is intentional.`,
       400,
     );
   }
@@ -1016,8 +1789,8 @@ const RISKY_DEPLOYMENT_COMMAND_PATTERNS: Array<{
   },
 ];
 
-const assertSafeDeploymentCommand = (
-  fieldName: 'buildCommand' | 'startCommand',
+export const assertSafeDeploymentCommand = (
+  fieldName: 'installCommand' | 'buildCommand' | 'startCommand' | 'releaseCommand' | 'command',
   command: string,
 ): void => {
   if (env.ALLOW_RISKY_DEPLOYMENT_COMMANDS) {
@@ -0,0 +1,86 @@
+import type { FastifyBaseLogger } from 'fastify';
+
+import { env } from '../config/env.js';
+import { redis } from '../lib/redis.js';
+
+import { EncryptionKeyRotationService } from './encryption-key-rotation-service.js';
+
+const ENCRYPTION_REENCRYPT_LOCK_KEY = 'apployd:encryption-reencrypt:lock';
+
+/**
+ * Re-wraps data keys after a master key change and moves values still under
+ * ENCRYPTION_KEY to data keys, a batch per cycle.
+ */
+export class EncryptionKeyRotationSchedulerService {
+  private readonly rotation = new EncryptionKeyRotationService();
+
+  private timer: NodeJS.Timeout | null = null;
+
+  private running = false;
+
+  start(log: FastifyBaseLogger): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs = env.ENCRYPTION_REENCRYPT_INTERVAL_SECONDS * 1000;
+    this.timer = setInterval(() => {
+      void this.runCycle(log);
+    }, intervalMs);
+    this.timer.unref?.();
+
+    void this.runCycle(log);
+    log.info(
+      { intervalSeconds: env.ENCRYPTION_REENCRYPT_INTERVAL_SECONDS },
+      'Encryption re-encryption job started',
+    );
+  }
+
+  stop(): void {
+    if (!this.timer) {
+      return;
+    }
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async runCycle(log: FastifyBaseLogger): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const lockTtlSeconds = Math.max(5, env.ENCRYPTION_REENCRYPT_INTERVAL_SECONDS - 5);
+      const lockAcquired = await redis.set(
+        ENCRYPTION_REENCRYPT_LOCK_KEY,
+        `${process.pid}:${Date.now()}`,
+        'NX',
+        'EX',
+        lockTtlSeconds,
+      );
+      if (!lockAcquired) {
+        return;
+      }
+
+      const keys = await this.rotation.rewrapDataKeys();
+      const values = await this.rotation.reencryptLegacy(env.ENCRYPTION_REENCRYPT_BATCH_SIZE);
+      if (keys.rewrapped > 0 || values.reencrypted > 0) {
+        log.info(
+          { dataKeysRewrapped: keys.rewrapped, valuesReencrypted: values.reencrypted },
+          'Encryption re-encryption cycle completed',
+        );
+      }
+      if (keys.failed > 0 || values.failed > 0) {
+        log.warn(
+          { dataKeysFailed: keys.failed, valuesFailed: values.failed },
+          'Some credentials could not be decrypted for re-encryption',
+        );
+      }
+    } catch (error) {
+      log.error({ error }, 'Encryption re-encryption cycle failed');
+    } finally {
+      this.running = false;
+    }
+  }
+}
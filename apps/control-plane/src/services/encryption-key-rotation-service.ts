@@ -0,0 +1,414 @@
+import { prisma } from '../lib/prisma.js';
+import {
+  configuredMasterKeyVersions,
+  currentMasterKeyVersion,
+  decryptSecret,
+  encryptSecret,
+  listedMasterKeyVersions,
+  unwrapDataKey,
+  wrapDataKey,
+  type EncryptedPayload,
+} from '../lib/secrets.js';
+
+/** A value still encrypted directly with ENCRYPTION_KEY. */
+interface LegacyCiphertext {
+  id: string;
+  /** Owner whose data key the value moves to; null for user credentials */
+  organizationId: string | null;
+  payload: EncryptedPayload;
+}
+
+/**
+ * One encrypted column. `save` only writes when the row still holds the value
+ * that was read, so a credential replaced mid-run is left alone.
+ */
+interface LegacyColumn {
+  name: string;
+  count(): Promise<number>;
+  batch(afterId: string | undefined, take: number): Promise<LegacyCiphertext[]>;
+  save(row: LegacyCiphertext, next: EncryptedPayload): Promise<boolean>;
+}
+
+const afterCursor = (afterId: string | undefined) => (afterId ? { id: { gt: afterId } } : {});
+
+const legacyColumns: LegacyColumn[] = [
+  {
+    name: 'project_secrets',
+    count: () => prisma.projectSecret.count({ where: { keyId: null } }),
+    batch: async (afterId, take) => {
+      const rows = await prisma.projectSecret.findMany({
+        where: { keyId: null, ...afterCursor(afterId) },
+        orderBy: { id: 'asc' },
+        take,
+        select: {
+          id: true,
+          encryptedValue: true,
+          iv: true,
+          authTag: true,
+          project: { select: { organizationId: true } },
+        },
+      });
+      return rows.map((row) => ({
+        id: row.id,
+        organizationId: row.project.organizationId,
+        payload: {
+          encryptedValue: row.encryptedValue,
+          iv: row.iv,
+          authTag: row.authTag,
+          keyId: null,
+        },
+      }));
+    },
+    save: async (row, next) =>
+      (
+        await prisma.projectSecret.updateMany({
+          where: { id: row.id, keyId: null, encryptedValue: row.payload.encryptedValue },
+          data: next,
+        })
+      ).count > 0,
+  },
+  {
+    name: 'project_secret_versions',
+    count: () =>
+      prisma.projectSecretVersion.count({ where: { keyId: null, encryptedValue: { not: null } } }),
+    batch: async (afterId, take) => {
+      const rows = await prisma.projectSecretVersion.findMany({
+        where: { keyId: null, encryptedValue: { not: null }, ...afterCursor(afterId) },
+        orderBy: { id: 'asc' },
+        take,
+        select: {
+          id: true,
+          encryptedValue: true,
+          iv: true,
+          authTag: true,
+          project: { select: { organizationId: true } },
+        },
+      });
+      return rows.map((row) => ({
+        id: row.id,
+        organizationId: row.project.organizationId,
+        payload: {
+          encryptedValue: row.encryptedValue!,
+          iv: row.iv!,
+          authTag: row.authTag!,
+          keyId: null,
+        },
+      }));
+    },
+    save: async (row, next) =>
+      (
+        await prisma.projectSecretVersion.updateMany({
+          where: { id: row.id, keyId: null, encryptedValue: row.payload.encryptedValue },
+          data: next,
+        })
+      ).count > 0,
+  },
+  {
+    name: 'project_registry_credentials',
+    count: () => prisma.projectRegistryCredential.count({ where: { keyId: null } }),
+    batch: async (afterId, take) => {
+      const rows = await prisma.projectRegistryCredential.findMany({
+        where: { keyId: null, ...afterCursor(afterId) },
+        orderBy: { id: 'asc' },
+        take,
+        select: {
+          id: true,
+          encryptedPassword: true,
+          iv: true,
+          authTag: true,
+          project: { select: { organizationId: true } },
+        },
+      });
+      return rows.map((row) => ({
+        id: row.id,
+        organizationId: row.project.organizationId,
+        payload: {
+          encryptedValue: row.encryptedPassword,
+          iv: row.iv,
+          authTag: row.authTag,
+          keyId: null,
+        },
+      }));
+    },
+    save: async (row, next) =>
+      (
+        await prisma.projectRegistryCredential.updateMany({
+          where: { id: row.id, keyId: null, encryptedPassword: row.payload.encryptedValue },
+          data: {
+            encryptedPassword: next.encryptedValue,
+            iv: next.iv,
+            authTag: next.authTag,
+            keyId: next.keyId,
+          },
+        })
+      ).count > 0,
+  },
+  {
+    name: 'github_connections',
+    count: () => prisma.gitHubConnection.count({ where: { keyId: null } }),
+    batch: async (afterId, take) => {
+      const rows = await prisma.gitHubConnection.findMany({
+        where: { keyId: null, ...afterCursor(afterId) },
+        orderBy: { id: 'asc' },
+        take,
+        select: { id: true, encryptedAccessToken: true, iv: true, authTag: true },
+      });
+      return rows.map((row) => ({
+        id: row.id,
+        organizationId: null,
+        payload: {
+          encryptedValue: row.encryptedAccessToken,
+          iv: row.iv,
+          authTag: row.authTag,
+          keyId: null,
+        },
+      }));
+    },
+    save: async (row, next) =>
+      (
+        await prisma.gitHubConnection.updateMany({
+          where: { id: row.id, keyId: null, encryptedAccessToken: row.payload.encryptedValue },
+          data: {
+            encryptedAccessToken: next.encryptedValue,
+            iv: next.iv,
+            authTag: next.authTag,
+            keyId: next.keyId,
+          },
+        })
+      ).count > 0,
+  },
+  {
+    name: 'git_provider_connections',
+    count: () => prisma.gitProviderConnection.count({ where: { keyId: null } }),
+    batch: async (afterId, take) => {
+      const rows = await prisma.gitProviderConnection.findMany({
+        where: { keyId: null, ...afterCursor(afterId) },
+        orderBy: { id: 'asc' },
+        take,
+        select: { id: true, encryptedAccessToken: true, iv: true, authTag: true },
+      });
+      return rows.map((row) => ({
+        id: row.id,
+        organizationId: null,
+        payload: {
+          encryptedValue: row.encryptedAccessToken,
+          iv: row.iv,
+          authTag: row.authTag,
+          keyId: null,
+        },
+      }));
+    },
+    save: async (row, next) =>
+      (
+        await prisma.gitProviderConnection.updateMany({
+          where: { id: row.id, keyId: null, encryptedAccessToken: row.payload.encryptedValue },
+          data: {
+            encryptedAccessToken: next.encryptedValue,
+            iv: next.iv,
+            authTag: next.authTag,
+            keyId: next.keyId,
+          },
+        })
+      ).count > 0,
+  },
+  {
+    name: 'vercel_connections.access_token',
+    count: () => prisma.vercelConnection.count({ where: { accessTokenKeyId: null } }),
+    batch: async (afterId, take) => {
+      const rows = await prisma.vercelConnection.findMany({
+        where: { accessTokenKeyId: null, ...afterCursor(afterId) },
+        orderBy: { id: 'asc' },
+        take,
+        select: {
+          id: true,
+          encryptedAccessToken: true,
+          accessTokenIv: true,
+          accessTokenAuthTag: true,
+        },
+      });
+      return rows.map((row) => ({
+        id: row.id,
+        organizationId: null,
+        payload: {
+          encryptedValue: row.encryptedAccessToken,
+          iv: row.accessTokenIv,
+          authTag: row.accessTokenAuthTag,
+          keyId: null,
+        },
+      }));
+    },
+    save: async (row, next) =>
+      (
+        await prisma.vercelConnection.updateMany({
+          where: {
+            id: row.id,
+            accessTokenKeyId: null,
+            encryptedAccessToken: row.payload.encryptedValue,
+          },
+          data: {
+            encryptedAccessToken: next.encryptedValue,
+            accessTokenIv: next.iv,
+            accessTokenAuthTag: next.authTag,
+            accessTokenKeyId: next.keyId,
+          },
+        })
+      ).count > 0,
+  },
+  {
+    name: 'vercel_connections.refresh_token',
+    count: () =>
+      prisma.vercelConnection.count({
+        where: { refreshTokenKeyId: null, encryptedRefreshToken: { not: null } },
+      }),
+    batch: async (afterId, take) => {
+      const rows = await prisma.vercelConnection.findMany({
+        where: {
+          refreshTokenKeyId: null,
+          encryptedRefreshToken: { not: null },
+          refreshTokenIv: { not: null },
+          refreshTokenAuthTag: { not: null },
+          ...afterCursor(afterId),
+        },
+        orderBy: { id: 'asc' },
+        take,
+        select: {
+          id: true,
+          encryptedRefreshToken: true,
+          refreshTokenIv: true,
+          refreshTokenAuthTag: true,
+        },
+      });
+      return rows.map((row) => ({
+        id: row.id,
+        organizationId: null,
+        payload: {
+          encryptedValue: row.encryptedRefreshToken!,
+          iv: row.refreshTokenIv!,
+          authTag: row.refreshTokenAuthTag!,
+          keyId: null,
+        },
+      }));
+    },
+    save: async (row, next) =>
+      (
+        await prisma.vercelConnection.updateMany({
+          where: {
+            id: row.id,
+            refreshTokenKeyId: null,
+            encryptedRefreshToken: row.payload.encryptedValue,
+          },
+          data: {
+            encryptedRefreshToken: next.encryptedValue,
+            refreshTokenIv: next.iv,
+            refreshTokenAuthTag: next.authTag,
+            refreshTokenKeyId: next.keyId,
+          },
+        })
+      ).count > 0,
+  },
+];
+
+export interface EncryptionKeyStatus {
+  currentMasterKeyVersion: number;
+  configuredMasterKeyVersions: number[];
+  /** Data keys per master key version that wraps them */
+  dataKeysByMasterKeyVersion: Record<number, number>;
+  /** Values per column still encrypted directly with ENCRYPTION_KEY */
+  legacyCiphertexts: Record<string, number>;
+  /** Listed versions no data key needs any more; safe to remove from ENCRYPTION_MASTER_KEYS */
+  retirableMasterKeyVersions: number[];
+}
+
+export class EncryptionKeyRotationService {
+  /** Where the last batch of each column stopped, so unreadable rows are skipped, not retried forever. */
+  private readonly cursors = new Map<string, string>();
+
+  /**
+   * Re-wraps every data key not under the current master key. Values keep
+   * their data keys, so nothing else is rewritten and running instances keep
+   * the unwrapped keys they have cached.
+   */
+  async rewrapDataKeys(): Promise<{ rewrapped: number; failed: number }> {
+    const keys = await prisma.dataEncryptionKey.findMany({
+      where: { masterKeyVersion: { not: currentMasterKeyVersion } },
+    });
+
+    let rewrapped = 0;
+    let failed = 0;
+    for (const key of keys) {
+      let wrapped;
+      try {
+        wrapped = wrapDataKey(unwrapDataKey(key));
+      } catch {
+        failed += 1;
+        continue;
+      }
+      const updated = await prisma.dataEncryptionKey.updateMany({
+        where: { id: key.id, masterKeyVersion: key.masterKeyVersion },
+        data: wrapped,
+      });
+      rewrapped += updated.count;
+    }
+    return { rewrapped, failed };
+  }
+
+  /**
+   * Moves up to `batchSize` values per column from ENCRYPTION_KEY to their
+   * owner's data key. `complete` is true once a call has reached the end of
+   * every column; rows that failed to decrypt are then left for `status()`.
+   */
+  async reencryptLegacy(
+    batchSize: number,
+  ): Promise<{ reencrypted: number; failed: number; complete: boolean }> {
+    let reencrypted = 0;
+    let failed = 0;
+    let complete = true;
+
+    for (const column of legacyColumns) {
+      const rows = await column.batch(this.cursors.get(column.name), batchSize);
+      if (rows.length < batchSize) {
+        this.cursors.delete(column.name);
+      } else {
+        this.cursors.set(column.name, rows[rows.length - 1]!.id);
+        complete = false;
+      }
+
+      for (const row of rows) {
+        let next: EncryptedPayload;
+        try {
+          next = await encryptSecret(await decryptSecret(row.payload), row.organizationId);
+        } catch {
+          failed += 1;
+          continue;
+        }
+        if (await column.save(row, next)) {
+          reencrypted += 1;
+        }
+      }
+    }
+
+    return { reencrypted, failed, complete };
+  }
+
+  async status(): Promise<EncryptionKeyStatus> {
+    const [dataKeys, legacyCounts] = await Promise.all([
+      prisma.dataEncryptionKey.groupBy({ by: ['masterKeyVersion'], _count: { _all: true } }),
+      Promise.all(
+        legacyColumns.map(async (column) => [column.name, await column.count()] as const),
+      ),
+    ]);
+
+    const dataKeysByMasterKeyVersion = Object.fromEntries(
+      dataKeys.map((group) => [group.masterKeyVersion, group._count._all]),
+    );
+    return {
+      currentMasterKeyVersion,
+      configuredMasterKeyVersions,
+      dataKeysByMasterKeyVersion,
+      legacyCiphertexts: Object.fromEntries(legacyCounts),
+      retirableMasterKeyVersions: listedMasterKeyVersions.filter(
+        (version) => version !== currentMasterKeyVersion && !dataKeysByMasterKeyVersion[version],
+      ),
+    };
+  }
+}
@@ -0,0 +1,372 @@
+import { randomBytes } from 'crypto';
+
+import { env } from '../config/env.js';
+import {
+  BITBUCKET_CLOUD_BASE_URL,
+  GIT_PROVIDER_LABELS,
+  normalizeGitLabBaseUrl,
+  type ExternalGitProvider,
+} from '../lib/git-providers.js';
+import { resolvesToPrivateHost } from '../lib/private-hosts.js';
+import { prisma } from '../lib/prisma.js';
+import { decryptSecret, encryptSecret } from '../lib/secrets.js';
+import { BitbucketService } from './bitbucket-service.js';
+import type { GitHubRepoSummary } from './github-service.js';
+import { GitLabService } from './gitlab-service.js';
+
+export interface GitProviderCredentials {
+  provider: ExternalGitProvider;
+  baseUrl: string;
+  username: string;
+  accessToken: string;
+}
+
+export class GitProviderConnectionError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'GitProviderConnectionError';
+  }
+}
+
+const connectionSummarySelect = {
+  provider: true,
+  baseUrl: true,
+  username: true,
+  avatarUrl: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const trimTrailingSlash = (value: string): string => value.replace(/\/+$/, '');
+
+export const buildGitProviderWebhookUrl = (provider: ExternalGitProvider): string =>
+  `${trimTrailingSlash(env.API_BASE_URL)}/api/v1/integrations/${provider}/webhook`;
+
+/** Bitbucket hooks share one platform secret; GitLab connections each have their own. */
+export const resolveBitbucketWebhookSecret = (): string => env.BITBUCKET_WEBHOOK_SECRET.trim();
+
+/**
+ * Token-based connections for GitLab and Bitbucket. Tokens are verified
+ * against the provider before they are stored, and stored encrypted like
+ * GitHubConnection tokens.
+ */
+export class GitProviderConnectionService {
+  private readonly gitlab = new GitLabService();
+
+  private readonly bitbucket = new BitbucketService();
+
+  async getConnection(userId: string, provider: ExternalGitProvider) {
+    return prisma.gitProviderConnection.findUnique({
+      where: { userId_provider: { userId, provider } },
+      select: connectionSummarySelect,
+    });
+  }
+
+  async connect(input: {
+    userId: string;
+    provider: ExternalGitProvider;
+    accessToken: string;
+    baseUrl?: string;
+    username?: string;
+  }) {
+    const baseUrl = await this.resolveBaseUrl(input.provider, input.baseUrl);
+    let identity: { externalUserId: string; username: string; avatarUrl: string | null };
+
+    try {
+      if (input.provider === 'gitlab') {
+        const user = await this.gitlab.getUser({ baseUrl, accessToken: input.accessToken });
+        identity = {
+          externalUserId: String(user.id),
+          username: user.username,
+          avatarUrl: user.avatar_url ?? null,
+        };
+      } else {
+        if (!input.username) {
+          throw new GitProviderConnectionError(
+            'Bitbucket connections need the account user name along with the app password.',
+            400,
+          );
+        }
+        const user = await this.bitbucket.getUser({
+          username: input.username,
+          appPassword: input.accessToken,
+        });
+        identity = {
+          externalUserId: user.uuid,
+          username: user.username,
+          avatarUrl: user.links?.avatar?.href ?? null,
+        };
+      }
+    } catch (error) {
+      if (error instanceof GitProviderConnectionError) {
+        throw error;
+      }
+      throw new GitProviderConnectionError((error as Error).message, 400);
+    }
+
+    // Connections belong to a user, so they use the platform data key.
+    const encrypted = await encryptSecret(input.accessToken, null);
+    const data = {
+      baseUrl,
+      ...identity,
+      encryptedAccessToken: encrypted.encryptedValue,
+      iv: encrypted.iv,
+      authTag: encrypted.authTag,
+      keyId: encrypted.keyId,
+    };
+
+    return prisma.gitProviderConnection.upsert({
+      where: { userId_provider: { userId: input.userId, provider: input.provider } },
+      create: { userId: input.userId, provider: input.provider, ...data },
+      update: data,
+      select: connectionSummarySelect,
+    });
+  }
+
+  async disconnect(userId: string, provider: ExternalGitProvider): Promise<void> {
+    await prisma.gitProviderConnection.deleteMany({ where: { userId, provider } });
+  }
+
+  /**
+   * Returns the first connection among `userIds` for the provider. With
+   * `repoHost`, a GitLab connection only qualifies when it belongs to that
+   * instance, so tokens are never sent to another host.
+   */
+  async resolveCredentials(input: {
+    userIds: Array<string | undefined>;
+    provider: ExternalGitProvider;
+    repoHost?: string;
+  }): Promise<GitProviderCredentials | null> {
+    const userIds = input.userIds
+      .map((value) => value?.trim() ?? '')
+      .filter((value, index, values) => Boolean(value) && values.indexOf(value) === index);
+
+    for (const userId of userIds) {
+      const connection = await prisma.gitProviderConnection.findUnique({
+        where: { userId_provider: { userId, provider: input.provider } },
+      });
+      if (!connection) {
+        continue;
+      }
+      if (input.repoHost && new URL(connection.baseUrl).host !== input.repoHost.toLowerCase()) {
+        continue;
+      }
+
+      return {
+        provider: input.provider,
+        baseUrl: connection.baseUrl,
+        username: connection.username,
+        accessToken: await decryptSecret({
+          encryptedValue: connection.encryptedAccessToken,
+          iv: connection.iv,
+          authTag: connection.authTag,
+          keyId: connection.keyId,
+        }),
+      };
+    }
+
+    return null;
+  }
+
+  async listRepositories(input: {
+    userId: string;
+    provider: ExternalGitProvider;
+    page: number;
+    perPage: number;
+    search?: string;
+  }): Promise<{ repos: GitHubRepoSummary[]; hasNextPage: boolean }> {
+    const credentials = await this.requireCredentials(input.userId, input.provider);
+    const query = {
+      page: input.page,
+      perPage: input.perPage,
+      ...(input.search && { search: input.search }),
+    };
+
+    return credentials.provider === 'gitlab'
+      ? this.gitlab.listRepositories({
+          baseUrl: credentials.baseUrl,
+          accessToken: credentials.accessToken,
+          ...query,
+        })
+      : this.bitbucket.listRepositories({
+          username: credentials.username,
+          appPassword: credentials.accessToken,
+          ...query,
+        });
+  }
+
+  /**
+   * Creates or updates the repository's push webhook. For GitLab it also
+   * returns the connection whose secret the hook carries; the project must
+   * record it so its pushes can be verified.
+   */
+  async ensurePushWebhook(input: {
+    userId: string;
+    provider: ExternalGitProvider;
+    repoFullName: string;
+  }): Promise<{ hookId: string; created: boolean; url: string; connectionId: string | null }> {
+    if (input.provider === 'bitbucket' && !resolveBitbucketWebhookSecret()) {
+      throw new GitProviderConnectionError(
+        'Bitbucket webhook secret is not configured on the server. Set BITBUCKET_WEBHOOK_SECRET to enable automatic push deployments.',
+        503,
+      );
+    }
+
+    const credentials = await this.requireCredentials(input.userId, input.provider);
+    const webhookUrl = buildGitProviderWebhookUrl(input.provider);
+
+    try {
+      if (credentials.provider === 'gitlab') {
+        const webhook = await this.ensureGitLabWebhookSecret(input.userId);
+        const ensured = await this.gitlab.ensureRepositoryPushWebhook({
+          baseUrl: credentials.baseUrl,
+          accessToken: credentials.accessToken,
+          repoFullName: input.repoFullName,
+          webhookUrl,
+          secret: webhook.secret,
+        });
+        return {
+          hookId: String(ensured.hookId),
+          created: ensured.created,
+          url: webhookUrl,
+          connectionId: webhook.connectionId,
+        };
+      }
+
+      const ensured = await this.bitbucket.ensureRepositoryPushWebhook({
+        username: credentials.username,
+        appPassword: credentials.accessToken,
+        repoFullName: input.repoFullName,
+        webhookUrl,
+        secret: resolveBitbucketWebhookSecret(),
+      });
+      return { ...ensured, url: webhookUrl, connectionId: null };
+    } catch (error) {
+      throw new GitProviderConnectionError(
+        `${GIT_PROVIDER_LABELS[input.provider]} webhook setup failed: ${(error as Error).message}`,
+        400,
+      );
+    }
+  }
+
+  /** Whether `token` is the push webhook secret of GitLab connection `connectionId`. */
+  async verifyGitLabWebhookToken(connectionId: string, token: string): Promise<boolean> {
+    const connection = await prisma.gitProviderConnection.findUnique({
+      where: { id: connectionId },
+      select: {
+        provider: true,
+        encryptedWebhookSecret: true,
+        webhookSecretIv: true,
+        webhookSecretAuthTag: true,
+        webhookSecretKeyId: true,
+      },
+    });
+    if (
+      connection?.provider !== 'gitlab' ||
+      !connection.encryptedWebhookSecret ||
+      !connection.webhookSecretIv ||
+      !connection.webhookSecretAuthTag
+    ) {
+      return false;
+    }
+
+    const secret = await decryptSecret({
+      encryptedValue: connection.encryptedWebhookSecret,
+      iv: connection.webhookSecretIv,
+      authTag: connection.webhookSecretAuthTag,
+      keyId: connection.webhookSecretKeyId,
+    });
+    return this.gitlab.verifyWebhookToken(secret, token);
+  }
+
+  /**
+   * The connection's GitLab webhook secret, generated on first use. Every
+   * instance gets a different one, so a self-hosted GitLab that can read its
+   * hooks cannot sign pushes for repositories linked through other connections.
+   */
+  private async ensureGitLabWebhookSecret(
+    userId: string,
+  ): Promise<{ connectionId: string; secret: string }> {
+    const where = { userId_provider: { userId, provider: 'gitlab' } };
+    const connection = await prisma.gitProviderConnection.findUniqueOrThrow({
+      where,
+      select: { id: true, encryptedWebhookSecret: true },
+    });
+    if (!connection.encryptedWebhookSecret) {
+      // Connections belong to a user, so they use the platform data key.
+      const encrypted = await encryptSecret(randomBytes(32).toString('hex'), null);
+      // Two links at once keep whichever secret was stored first.
+      await prisma.gitProviderConnection.updateMany({
+        where: { id: connection.id, encryptedWebhookSecret: null },
+        data: {
+          encryptedWebhookSecret: encrypted.encryptedValue,
+          webhookSecretIv: encrypted.iv,
+          webhookSecretAuthTag: encrypted.authTag,
+          webhookSecretKeyId: encrypted.keyId,
+        },
+      });
+    }
+
+    const stored = await prisma.gitProviderConnection.findUniqueOrThrow({
+      where,
+      select: {
+        id: true,
+        encryptedWebhookSecret: true,
+        webhookSecretIv: true,
+        webhookSecretAuthTag: true,
+        webhookSecretKeyId: true,
+      },
+    });
+    return {
+      connectionId: stored.id,
+      secret: await decryptSecret({
+        encryptedValue: stored.encryptedWebhookSecret!,
+        iv: stored.webhookSecretIv!,
+        authTag: stored.webhookSecretAuthTag!,
+        keyId: stored.webhookSecretKeyId,
+      }),
+    };
+  }
+
+  private async requireCredentials(
+    userId: string,
+    provider: ExternalGitProvider,
+  ): Promise<GitProviderCredentials> {
+    const credentials = await this.resolveCredentials({ userIds: [userId], provider });
+    if (!credentials) {
+      throw new GitProviderConnectionError(
+        `Connect your ${GIT_PROVIDER_LABELS[provider]} account first.`,
+        409,
+      );
+    }
+    return credentials;
+  }
+
+  private async resolveBaseUrl(
+    provider: ExternalGitProvider,
+    baseUrl: string | undefined,
+  ): Promise<string> {
+    if (provider === 'bitbucket') {
+      return BITBUCKET_CLOUD_BASE_URL;
+    }
+
+    let normalized: string;
+    try {
+      normalized = normalizeGitLabBaseUrl(baseUrl);
+    } catch (error) {
+      throw new GitProviderConnectionError((error as Error).message, 400);
+    }
+
+    const host = new URL(normalized).hostname;
+    if (!env.ALLOW_PRIVATE_GIT_HOSTS && (await resolvesToPrivateHost(host))) {
+      throw new GitProviderConnectionError(
+        `GitLab host "${host}" is private, local or does not resolve. Set ALLOW_PRIVATE_GIT_HOSTS=true if this is intentional.`,
+        400,
+      );
+    }
+    return normalized;
+  }
+}
@@ -0,0 +1,247 @@
+import type { GitProvider } from '../lib/git-providers.js';
+import { evaluatePathFilters } from '../lib/path-filters.js';
+import { prisma } from '../lib/prisma.js';
+import { redis } from '../lib/redis.js';
+import {
+  DeploymentRequestError,
+  DeploymentRequestService,
+  type GitPushTrigger,
+} from './deployment-request-service.js';
+import { GitProviderConnectionService } from './git-provider-connection-service.js';
+import { ProjectGroupDeploymentService } from './project-group-deployment-service.js';
+
+export interface GitPushEvent {
+  provider: GitProvider;
+  trigger: GitPushTrigger;
+  repoFullName: string;
+  /** Every spelling of the repository URL a project may have been saved with. */
+  repoUrlCandidates: string[];
+  /**
+   * GitLab only: the hook's token. Each GitLab connection has its own secret,
+   * so only projects linked through the connection that issued it deploy.
+   */
+  webhookToken?: string;
+  branch: string;
+  commitSha?: string;
+  /** Files changed by the push, or null when the provider did not list them all. */
+  changedFiles: string[] | null;
+}
+
+export interface GitPushResult {
+  received: true;
+  triggered: number;
+  ignored: number;
+  skipped: number;
+  errors: Array<{ projectId?: string; groupId?: string; message: string }>;
+}
+
+export class GitPushDeploymentError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'GitPushDeploymentError';
+  }
+}
+
+/**
+ * Turns a verified push webhook from any git provider into deployments of the
+ * matching auto-deploy projects, applying path filters and project groups.
+ * Deployments clone each project's saved repository URL; the URLs in the
+ * payload only serve to find the projects.
+ */
+export class GitPushDeploymentService {
+  private readonly deployments = new DeploymentRequestService();
+
+  private readonly gitProviders = new GitProviderConnectionService();
+
+  private readonly groupDeployments = new ProjectGroupDeploymentService();
+
+  async handlePush(event: GitPushEvent): Promise<GitPushResult> {
+    const matched = await prisma.project.findMany({
+      where: {
+        gitProvider: event.provider,
+        autoDeployEnabled: true,
+        OR: [
+          { repoFullName: event.repoFullName },
+          ...event.repoUrlCandidates.map((repoUrl) => ({ repoUrl })),
+        ],
+      },
+      select: {
+        id: true,
+        branch: true,
+        previewDeploymentsEnabled: true,
+        includePaths: true,
+        excludePaths: true,
+        groupId: true,
+        gitProviderConnectionId: true,
+        pullRequestPreviews: {
+          where: { status: 'open', headRef: event.branch },
+          select: { id: true },
+          take: 1,
+        },
+      },
+    });
+
+    if (!matched.length) {
+      return { received: true, triggered: 0, ignored: 0, skipped: 0, errors: [] };
+    }
+    const projects =
+      event.webhookToken === undefined
+        ? matched
+        : await this.filterByWebhookToken(matched, event.webhookToken);
+
+    let triggered = 0;
+    let ignored = 0;
+    let skipped = 0;
+    const errors: GitPushResult['errors'] = [];
+    const { branch, commitSha, changedFiles } = event;
+
+    const candidates = projects.flatMap((project) => {
+      // Determine environment: push to the project's production branch → production
+      // Push to any other branch → preview (if enabled)
+      const isProductionBranch = branch === project.branch;
+      if (!isProductionBranch && !project.previewDeploymentsEnabled) {
+        ignored += 1;
+        return [];
+      }
+      // The pull_request "synchronize" event redeploys the PR preview for this push.
+      if (!isProductionBranch && project.pullRequestPreviews.length > 0) {
+        ignored += 1;
+        return [];
+      }
+
+      return [
+        {
+          project,
+          environment: isProductionBranch ? ('production' as const) : ('preview' as const),
+          filter: evaluatePathFilters({
+            includePaths: project.includePaths,
+            excludePaths: project.excludePaths,
+            changedFiles,
+          }),
+        },
+      ];
+    });
+
+    // One affected member is enough to roll out its whole group at this commit.
+    const affectedGroups = new Map<string, 'production' | 'preview'>();
+    for (const candidate of candidates) {
+      if (candidate.project.groupId && candidate.filter.deploy) {
+        affectedGroups.set(candidate.project.groupId, candidate.environment);
+      }
+    }
+
+    for (const { project, environment, filter } of candidates) {
+      if (project.groupId && affectedGroups.has(project.groupId)) {
+        continue;
+      }
+
+      if (!filter.deploy) {
+        skipped += 1;
+        await prisma.logEntry.create({
+          data: {
+            projectId: project.id,
+            level: 'info',
+            source: 'control-plane',
+            message: `Auto-deploy skipped for ${branch}${commitSha ? `@${commitSha.slice(0, 7)}` : ''}: ${filter.reason}`,
+            metadata: {
+              eventType: 'deployment.skipped',
+              trigger: event.trigger,
+              reason: filter.reason,
+              branch,
+              ...(commitSha && { commitSha }),
+              changedFileCount: changedFiles?.length ?? 0,
+            },
+          },
+        });
+        continue;
+      }
+
+      if (commitSha) {
+        const dedupeKey = `apployd:${event.provider}:push:${project.id}:${commitSha}`;
+        const reserved = await redis.set(dedupeKey, '1', 'NX', 'EX', 60 * 60 * 12);
+        if (!reserved) {
+          ignored += 1;
+          continue;
+        }
+      }
+
+      try {
+        await this.deployments.create({
+          projectId: project.id,
+          trigger: event.trigger,
+          environment,
+          branch,
+          ...(commitSha && { commitSha }),
+        });
+        triggered += 1;
+      } catch (error) {
+        if (error instanceof DeploymentRequestError) {
+          errors.push({ projectId: project.id, message: error.message });
+        } else {
+          errors.push({ projectId: project.id, message: (error as Error).message });
+        }
+      }
+    }
+
+    for (const [groupId, environment] of affectedGroups) {
+      if (commitSha) {
+        const dedupeKey = `apployd:${event.provider}:push:group:${groupId}:${commitSha}`;
+        const reserved = await redis.set(dedupeKey, '1', 'NX', 'EX', 60 * 60 * 12);
+        if (!reserved) {
+          ignored += 1;
+          continue;
+        }
+      }
+
+      try {
+        const result = await this.groupDeployments.deploy({
+          groupId,
+          trigger: event.trigger,
+          environment,
+          branch,
+          ...(commitSha && { commitSha }),
+        });
+        triggered += result.deployments.length;
+      } catch (error) {
+        errors.push({ groupId, message: (error as Error).message });
+      }
+    }
+
+    return { received: true, triggered, ignored, skipped, errors };
+  }
+
+  /**
+   * Keeps the projects whose recorded connection issued `token`. A token that
+   * matches none of them is rejected rather than ignored.
+   */
+  private async filterByWebhookToken<T extends { gitProviderConnectionId: string | null }>(
+    projects: T[],
+    token: string,
+  ): Promise<T[]> {
+    const verified = new Map<string, boolean>();
+    const accepted: T[] = [];
+    for (const project of projects) {
+      const connectionId = project.gitProviderConnectionId;
+      if (!connectionId) {
+        continue;
+      }
+      if (!verified.has(connectionId)) {
+        verified.set(
+          connectionId,
+          await this.gitProviders.verifyGitLabWebhookToken(connectionId, token),
+        );
+      }
+      if (verified.get(connectionId)) {
+        accepted.push(project);
+      }
+    }
+
+    if (!accepted.length) {
+      throw new GitPushDeploymentError('Invalid GitLab webhook token.', 401);
+    }
+    return accepted;
+  }
+}
@@ -54,6 +54,28 @@ interface GitHubCommitApiItem {
   sha?: string;
 }
 
+interface GitHubIssueCommentApiItem {
+  id: number;
+}
+
+export type GitHubCommitStatusState = 'pending' | 'success' | 'failure' | 'error';
+
+interface GitHubCheckRunApiItem {
+  id: number;
+}
+
+/** One context per project and environment, so production and preview results never overwrite each other. */
+export const buildDeploymentStatusContext = (
+  environment: 'production' | 'preview',
+  projectSlug: string,
+): string => `apployd/${environment}/${projectSlug}`;
+
+interface GitHubContentApiItem {
+  type?: string;
+  encoding?: string;
+  content?: string;
+}
+
 export interface GitHubRepoSummary {
   id: string;
   name: string;
@@ -227,6 +249,49 @@ export class GitHubService {
     return sha;
   }
 
+  /**
+   * Reads a single file at the given ref. Returns null when the file does not exist.
+   */
+  async getRepositoryFileContent(input: {
+    owner: string;
+    repo: string;
+    path: string;
+    ref: string;
+    accessToken?: string;
+  }): Promise<string | null> {
+    const owner = input.owner.trim();
+    const repo = input.repo.trim();
+    const ref = input.ref.trim();
+    if (!owner || !repo || !ref) {
+      throw new Error('Repository owner, repository name, and ref are required.');
+    }
+
+    const encodedPath = input.path
+      .split('/')
+      .filter(Boolean)
+      .map((segment) => encodeURIComponent(segment))
+      .join('/');
+    const response = await this.githubRequest(
+      `https://api.github.com/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`,
+      input.accessToken,
+      { method: 'GET' },
+      { allowNotFound: true },
+    );
+    if (response.status === 404) {
+      return null;
+    }
+
+    const payload = (await response.json()) as GitHubContentApiItem | GitHubContentApiItem[];
+    if (Array.isArray(payload) || payload.type !== 'file') {
+      return null;
+    }
+    if (payload.encoding !== 'base64' || typeof payload.content !== 'string') {
+      throw new Error(`GitHub returned ${input.path} in an unsupported encoding.`);
+    }
+
+    return Buffer.from(payload.content, 'base64').toString('utf8');
+  }
+
   async ensureRepositoryPushWebhook(input: {
     accessToken: string;
     owner: string;
@@ -251,7 +316,7 @@ export class GitHubService {
     const existing = hooks.find((hook) => normalizeWebhookUrl(hook.config?.url ?? '') === webhookUrl);
     const payload = {
       active: true,
-      events: ['push'],
+      events: ['push', 'pull_request'],
       config: {
         url: webhookUrl,
         content_type: 'json',
@@ -280,6 +345,127 @@ export class GitHubService {
     return { hookId: created.id, created: true };
   }
 
+  /** Edits the comment in place when it still exists, otherwise posts a new one. */
+  async upsertIssueComment(input: {
+    accessToken: string;
+    owner: string;
+    repo: string;
+    issueNumber: number;
+    commentId?: string | null;
+    body: string;
+  }): Promise<{ commentId: string }> {
+    const repoApiUrl = `https://api.github.com/repos/${encodeURIComponent(input.owner)}/${encodeURIComponent(input.repo)}`;
+
+    if (input.commentId) {
+      const response = await this.githubRequest(
+        `${repoApiUrl}/issues/comments/${encodeURIComponent(input.commentId)}`,
+        input.accessToken,
+        { method: 'PATCH', body: JSON.stringify({ body: input.body }) },
+        { allowNotFound: true },
+      );
+      if (response.status !== 404) {
+        return { commentId: input.commentId };
+      }
+    }
+
+    const response = await this.githubRequest(
+      `${repoApiUrl}/issues/${input.issueNumber}/comments`,
+      input.accessToken,
+      { method: 'POST', body: JSON.stringify({ body: input.body }) },
+    );
+    const created = (await response.json()) as GitHubIssueCommentApiItem;
+    return { commentId: String(created.id) };
+  }
+
+  async createCommitStatus(input: {
+    accessToken: string;
+    owner: string;
+    repo: string;
+    sha: string;
+    state: GitHubCommitStatusState;
+    context: string;
+    description: string;
+    targetUrl?: string;
+  }): Promise<void> {
+    await this.githubRequest(
+      `https://api.github.com/repos/${encodeURIComponent(input.owner)}/${encodeURIComponent(input.repo)}/statuses/${encodeURIComponent(input.sha)}`,
+      input.accessToken,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          state: input.state,
+          context: input.context,
+          // GitHub rejects descriptions longer than 140 characters.
+          description: input.description.slice(0, 140),
+          ...(input.targetUrl && { target_url: input.targetUrl }),
+        }),
+      },
+    );
+  }
+
+  /**
+   * Opens a queued check run. Check runs need a GitHub App token, so OAuth
+   * connections get null back and callers fall back to commit statuses.
+   */
+  async createCheckRun(input: {
+    accessToken: string;
+    owner: string;
+    repo: string;
+    sha: string;
+    name: string;
+    externalId: string;
+    detailsUrl: string;
+    title: string;
+    summary: string;
+  }): Promise<{ checkRunId: number } | null> {
+    const response = await this.githubRequest(
+      `https://api.github.com/repos/${encodeURIComponent(input.owner)}/${encodeURIComponent(input.repo)}/check-runs`,
+      input.accessToken,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          name: input.name,
+          head_sha: input.sha,
+          status: 'queued',
+          external_id: input.externalId,
+          details_url: input.detailsUrl,
+          output: { title: input.title, summary: input.summary },
+        }),
+      },
+      { allowNotFound: true, allowForbidden: true },
+    );
+    if (response.status === 403 || response.status === 404) {
+      return null;
+    }
+
+    const created = (await response.json()) as GitHubCheckRunApiItem;
+    return { checkRunId: created.id };
+  }
+
+  async completeCheckRun(input: {
+    accessToken: string;
+    owner: string;
+    repo: string;
+    checkRunId: number;
+    conclusion: 'success' | 'failure';
+    title: string;
+    summary: string;
+  }): Promise<void> {
+    await this.githubRequest(
+      `https://api.github.com/repos/${encodeURIComponent(input.owner)}/${encodeURIComponent(input.repo)}/check-runs/${input.checkRunId}`,
+      input.accessToken,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({
+          status: 'completed',
+          conclusion: input.conclusion,
+          completed_at: new Date().toISOString(),
+          output: { title: input.title, summary: input.summary },
+        }),
+      },
+    );
+  }
+
   verifyWebhookSignature(payload: Buffer, signatureHeader?: string): boolean {
     if (!env.GITHUB_WEBHOOK_SECRET || !signatureHeader) {
       return false;
@@ -302,7 +488,12 @@ export class GitHubService {
     }
   }
 
-  private async githubRequest(url: string, accessToken: string | undefined, init: RequestInit): Promise<Response> {
+  private async githubRequest(
+    url: string,
+    accessToken: string | undefined,
+    init: RequestInit,
+    options: { allowNotFound?: boolean; allowForbidden?: boolean } = {},
+  ): Promise<Response> {
     const headers = new Headers(init.headers ?? {});
     headers.set('Accept', 'application/vnd.github+json');
     headers.set('User-Agent', 'apployd-control-plane');
@@ -319,7 +510,11 @@ export class GitHubService {
       headers,
     });
 
-    if (response.ok) {
+    if (
+      response.ok ||
+      (options.allowNotFound && response.status === 404) ||
+      (options.allowForbidden && response.status === 403)
+    ) {
       return response;
     }
 
@@ -0,0 +1,200 @@
+import { timingSafeEqual } from 'crypto';
+
+import type { GitHubRepoSummary } from './github-service.js';
+
+interface GitLabUserApiItem {
+  id: number;
+  username: string;
+  avatar_url?: string | null;
+}
+
+interface GitLabProjectApiItem {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  namespace: { full_path: string };
+  visibility: 'private' | 'internal' | 'public';
+  default_branch?: string | null;
+  web_url: string;
+  permissions?: {
+    project_access?: { access_level: number } | null;
+    group_access?: { access_level: number } | null;
+  };
+}
+
+interface GitLabHookApiItem {
+  id: number;
+  url: string;
+}
+
+// Maintainer access is required to manage project webhooks.
+const GITLAB_MAINTAINER_ACCESS_LEVEL = 40;
+
+/**
+ * GitLab REST client for gitlab.com and self-hosted instances. Connections use
+ * personal (or group) access tokens with the `api` scope, so every call takes
+ * the instance base URL alongside the token.
+ */
+export class GitLabService {
+  async getUser(input: { baseUrl: string; accessToken: string }): Promise<GitLabUserApiItem> {
+    const response = await this.gitlabRequest(input.baseUrl, '/user', input.accessToken, {
+      method: 'GET',
+    });
+    return (await response.json()) as GitLabUserApiItem;
+  }
+
+  async listRepositories(input: {
+    baseUrl: string;
+    accessToken: string;
+    page: number;
+    perPage: number;
+    search?: string;
+  }): Promise<{ repos: GitHubRepoSummary[]; hasNextPage: boolean }> {
+    const params = new URLSearchParams({
+      membership: 'true',
+      order_by: 'last_activity_at',
+      sort: 'desc',
+      page: String(input.page),
+      per_page: String(input.perPage),
+    });
+    if (input.search) {
+      params.set('search', input.search);
+      params.set('search_namespaces', 'true');
+    }
+
+    const response = await this.gitlabRequest(
+      input.baseUrl,
+      `/projects?${params.toString()}`,
+      input.accessToken,
+      { method: 'GET' },
+    );
+    const raw = (await response.json()) as GitLabProjectApiItem[];
+
+    return {
+      repos: raw.map((project) => {
+        const accessLevel = Math.max(
+          project.permissions?.project_access?.access_level ?? 0,
+          project.permissions?.group_access?.access_level ?? 0,
+        );
+        return {
+          id: String(project.id),
+          name: project.name,
+          fullName: project.path_with_namespace,
+          owner: project.namespace.full_path,
+          private: project.visibility !== 'public',
+          defaultBranch: project.default_branch ?? 'main',
+          htmlUrl: project.web_url,
+          canAdmin: accessLevel >= GITLAB_MAINTAINER_ACCESS_LEVEL,
+        };
+      }),
+      hasNextPage: Boolean(response.headers.get('x-next-page')),
+    };
+  }
+
+  async ensureRepositoryPushWebhook(input: {
+    baseUrl: string;
+    accessToken: string;
+    repoFullName: string;
+    webhookUrl: string;
+    secret: string;
+  }): Promise<{ hookId: number; created: boolean }> {
+    const hooksPath = `/projects/${encodeURIComponent(input.repoFullName)}/hooks`;
+    const hookSettings = {
+      url: input.webhookUrl,
+      token: input.secret,
+      push_events: true,
+      merge_requests_events: false,
+      tag_push_events: false,
+      enable_ssl_verification: true,
+    };
+
+    const listResponse = await this.gitlabRequest(
+      input.baseUrl,
+      `${hooksPath}?per_page=100`,
+      input.accessToken,
+      { method: 'GET' },
+    );
+    const hooks = (await listResponse.json()) as GitLabHookApiItem[];
+    const existing = hooks.find(
+      (hook) => normalizeWebhookUrl(hook.url) === normalizeWebhookUrl(input.webhookUrl),
+    );
+
+    if (existing) {
+      await this.gitlabRequest(input.baseUrl, `${hooksPath}/${existing.id}`, input.accessToken, {
+        method: 'PUT',
+        body: JSON.stringify(hookSettings),
+      });
+      return { hookId: existing.id, created: false };
+    }
+
+    const createdResponse = await this.gitlabRequest(input.baseUrl, hooksPath, input.accessToken, {
+      method: 'POST',
+      body: JSON.stringify(hookSettings),
+    });
+    const created = (await createdResponse.json()) as GitLabHookApiItem;
+    return { hookId: created.id, created: true };
+  }
+
+  /** GitLab sends the hook's secret verbatim in `X-Gitlab-Token`. */
+  verifyWebhookToken(secret: string, tokenHeader?: string): boolean {
+    if (!secret || !tokenHeader) {
+      return false;
+    }
+
+    const expected = Buffer.from(secret, 'utf8');
+    const provided = Buffer.from(tokenHeader, 'utf8');
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
+  private async gitlabRequest(
+    baseUrl: string,
+    path: string,
+    accessToken: string,
+    init: RequestInit,
+  ): Promise<Response> {
+    const headers = new Headers(init.headers ?? {});
+    headers.set('Accept', 'application/json');
+    headers.set('Authorization', `Bearer ${accessToken}`);
+    headers.set('User-Agent', 'apployd-control-plane');
+    if (init.body && !headers.has('Content-Type')) {
+      headers.set('Content-Type', 'application/json');
+    }
+
+    const response = await fetch(`${baseUrl}/api/v4${path}`, {
+      ...init,
+      headers,
+      signal: AbortSignal.timeout(15_000),
+    });
+    if (response.ok) {
+      return response;
+    }
+
+    const responseText = await response.text().catch(() => '');
+    let detail = responseText;
+    try {
+      const parsed = JSON.parse(responseText) as { message?: unknown; error?: string };
+      detail =
+        typeof parsed.message === 'string'
+          ? parsed.message
+          : (parsed.error ?? JSON.stringify(parsed.message ?? responseText));
+    } catch {
+      // Plain-text error body.
+    }
+
+    if (response.status === 401) {
+      throw new Error(
+        'GitLab rejected the access token. Create a token with the api scope and reconnect.',
+      );
+    }
+    if (response.status === 403) {
+      throw new Error('GitLab access denied. Maintainer access is required to manage webhooks.');
+    }
+    if (response.status === 404) {
+      throw new Error('GitLab project not found or not visible to this token.');
+    }
+
+    throw new Error(`GitLab API request failed (${response.status})${detail ? `: ${detail}` : ''}`);
+  }
+}
+
+const normalizeWebhookUrl = (value: string): string => value.trim().replace(/\/+$/, '');
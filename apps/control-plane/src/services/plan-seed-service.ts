@@ -2,12 +2,12 @@ import { PlanCode } from '@prisma/client';
 
 import { prisma } from '../lib/prisma.js';
 
-const defaults: Record<PlanCode, { name: string; ramMb: number; cpu: number; bandwidth: number; price: string; sleepBypass: boolean; maxProjects: number | null }> = {
-  free: { name: 'Free', ramMb: 512, cpu: 500, bandwidth: 50, price: '0.00', sleepBypass: false, maxProjects: null },
-  dev: { name: 'Dev', ramMb: 2048, cpu: 1500, bandwidth: 250, price: '5.00', sleepBypass: true, maxProjects: null },
-  pro: { name: 'Pro', ramMb: 6144, cpu: 4000, bandwidth: 1000, price: '12.00', sleepBypass: true, maxProjects: null },
-  max: { name: 'Max', ramMb: 12288, cpu: 8000, bandwidth: 2500, price: '25.00', sleepBypass: true, maxProjects: null },
-  enterprise: { name: 'Enterprise', ramMb: 32768, cpu: 16000, bandwidth: 10000, price: '100.00', sleepBypass: true, maxProjects: null },
+const defaults: Record<PlanCode, { name: string; ramMb: number; cpu: number; bandwidth: number; price: string; sleepBypass: boolean; maxProjects: number | null; imageRetention: number; volumeStorageGb: number }> = {
+  free: { name: 'Free', ramMb: 512, cpu: 500, bandwidth: 50, price: '0.00', sleepBypass: false, maxProjects: null, imageRetention: 2, volumeStorageGb: 1 },
+  dev: { name: 'Dev', ramMb: 2048, cpu: 1500, bandwidth: 250, price: '5.00', sleepBypass: true, maxProjects: null, imageRetention: 3, volumeStorageGb: 10 },
+  pro: { name: 'Pro', ramMb: 6144, cpu: 4000, bandwidth: 1000, price: '12.00', sleepBypass: true, maxProjects: null, imageRetention: 5, volumeStorageGb: 50 },
+  max: { name: 'Max', ramMb: 12288, cpu: 8000, bandwidth: 2500, price: '25.00', sleepBypass: true, maxProjects: null, imageRetention: 10, volumeStorageGb: 200 },
+  enterprise: { name: 'Enterprise', ramMb: 32768, cpu: 16000, bandwidth: 10000, price: '100.00', sleepBypass: true, maxProjects: null, imageRetention: 20, volumeStorageGb: 1000 },
 };
 
 export const seedPlans = async (): Promise<void> => {
@@ -24,6 +24,8 @@ export const seedPlans = async (): Promise<void> => {
           includedBandwidthGb: plan.bandwidth,
           allowsSleepBypass: plan.sleepBypass,
           maxProjects: plan.maxProjects,
+          imageRetentionCount: plan.imageRetention,
+          includedVolumeStorageGb: plan.volumeStorageGb,
         },
         create: {
           code,
@@ -34,6 +36,8 @@ export const seedPlans = async (): Promise<void> => {
           includedBandwidthGb: plan.bandwidth,
           allowsSleepBypass: plan.sleepBypass,
           maxProjects: plan.maxProjects,
+          imageRetentionCount: plan.imageRetention,
+          includedVolumeStorageGb: plan.volumeStorageGb,
         },
       });
     }),
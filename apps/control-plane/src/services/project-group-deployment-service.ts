@@ -0,0 +1,201 @@
+import { randomUUID } from 'crypto';
+
+import { replicaAllocation } from '../domain/resource-rules.js';
+import { prisma } from '../lib/prisma.js';
+import { AuditLogService } from './audit-log-service.js';
+import { DeployQueueService } from './deploy-queue-service.js';
+import {
+  DeploymentRequestError,
+  DeploymentRequestService,
+  type GitPushTrigger,
+  type QueuedDeploymentResult,
+} from './deployment-request-service.js';
+
+interface GroupDeploymentInput {
+  groupId: string;
+  actorUserId?: string;
+  trigger: 'manual' | GitPushTrigger;
+  environment?: 'production' | 'preview';
+  gitUrl?: string;
+  branch?: string;
+  commitSha?: string;
+}
+
+export interface GroupDeploymentResult {
+  groupDeploymentId: string;
+  groupId: string;
+  commitSha: string | null;
+  deployments: Array<QueuedDeploymentResult & { projectId: string }>;
+}
+
+/**
+ * Deploys every project of a group at one commit, all or nothing. Member jobs
+ * are staged in Redis while capacity is reserved for each project and only
+ * reach the deploy queue once every member was accepted. Production members
+ * start as blue/green deployments beside the live ones; the engine switches
+ * the whole group in once every member is ready, and discards the group if one
+ * member's build or rollout fails.
+ */
+export class ProjectGroupDeploymentService {
+  private readonly deployments = new DeploymentRequestService();
+
+  private readonly queue = new DeployQueueService();
+
+  private readonly audit = new AuditLogService();
+
+  async deploy(input: GroupDeploymentInput): Promise<GroupDeploymentResult> {
+    const group = await prisma.projectGroup.findUnique({
+      where: { id: input.groupId },
+      select: {
+        id: true,
+        name: true,
+        organizationId: true,
+        projects: {
+          select: { id: true, name: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!group) {
+      throw new DeploymentRequestError('Project group not found', 404);
+    }
+    if (group.projects.length === 0) {
+      throw new DeploymentRequestError('Project group has no projects to deploy.', 400);
+    }
+
+    const groupDeploymentId = randomUUID();
+    const deployments: GroupDeploymentResult['deployments'] = [];
+    // Pin the commit resolved for the first member so a push landing mid-rollout cannot split the group.
+    let commitSha = input.commitSha ?? null;
+
+    try {
+      for (const project of group.projects) {
+        try {
+          const result = await this.deployments.create({
+            projectId: project.id,
+            ...(input.actorUserId && { actorUserId: input.actorUserId }),
+            trigger: input.trigger,
+            ...(input.environment && { environment: input.environment }),
+            ...(input.environment !== 'preview' && { blueGreen: true }),
+            ...(input.gitUrl && { gitUrl: input.gitUrl }),
+            ...(input.branch && { branch: input.branch }),
+            ...(commitSha && { commitSha }),
+            groupDeploymentId,
+          });
+          deployments.push({ ...result, projectId: project.id });
+
+          if (!commitSha) {
+            const created = await prisma.deployment.findUnique({
+              where: { id: result.deploymentId },
+              select: { commitSha: true },
+            });
+            commitSha = created?.commitSha ?? null;
+          }
+        } catch (error) {
+          throw new DeploymentRequestError(
+            `Group deployment aborted: ${project.name}: ${(error as Error).message}`,
+            error instanceof DeploymentRequestError ? error.statusCode : 503,
+          );
+        }
+      }
+
+      await this.queue.releaseGroupDeployment(groupDeploymentId);
+    } catch (error) {
+      await this.abort(groupDeploymentId, (error as Error).message);
+      if (error instanceof DeploymentRequestError) {
+        throw error;
+      }
+      throw new DeploymentRequestError('Deployment queue is unavailable. Try again.', 503);
+    }
+
+    await this.audit.record({
+      organizationId: group.organizationId,
+      ...(input.actorUserId && { actorUserId: input.actorUserId }),
+      action: 'project_group.deployed',
+      entityType: 'project_group',
+      entityId: group.id,
+      metadata: {
+        groupDeploymentId,
+        trigger: input.trigger,
+        environment: input.environment ?? 'production',
+        ...(commitSha && { commitSha }),
+        deploymentIds: deployments.map((deployment) => deployment.deploymentId),
+      },
+    });
+
+    return { groupDeploymentId, groupId: group.id, commitSha, deployments };
+  }
+
+  /** Fail every member created so far and hand back the capacity reserved for it. */
+  private async abort(groupDeploymentId: string, reason: string): Promise<void> {
+    await this.queue.discardGroupDeployment(groupDeploymentId).catch(() => undefined);
+
+    const members = await prisma.deployment.findMany({
+      where: { groupDeploymentId, status: 'queued' },
+      select: {
+        id: true,
+        projectId: true,
+        serverId: true,
+        replicaCount: true,
+        project: {
+          select: { resourceRamMb: true, resourceCpuMillicore: true, resourceBandwidthGb: true },
+        },
+      },
+    });
+
+    const message = reason.startsWith('Group deployment aborted')
+      ? reason
+      : `Group deployment aborted: ${reason}`;
+
+    for (const member of members) {
+      const updated = await prisma.deployment.updateMany({
+        where: { id: member.id, status: 'queued' },
+        data: { status: 'failed', errorMessage: message, finishedAt: new Date() },
+      });
+      if (updated.count === 0) {
+        continue;
+      }
+
+      if (member.serverId) {
+        const released = await prisma.deployment.updateMany({
+          where: { id: member.id, capacityReserved: true },
+          data: { capacityReserved: false },
+        });
+        if (released.count > 0) {
+          const allocation = replicaAllocation(
+            {
+              ramMb: member.project.resourceRamMb,
+              cpuMillicores: member.project.resourceCpuMillicore,
+              bandwidthGb: member.project.resourceBandwidthGb,
+            },
+            member.replicaCount,
+          );
+          await prisma.server.update({
+            where: { id: member.serverId },
+            data: {
+              reservedRamMb: { decrement: allocation.ramMb },
+              reservedCpuMillicores: { decrement: allocation.cpuMillicores },
+              reservedBandwidthGb: { decrement: allocation.bandwidthGb },
+            },
+          });
+        }
+      }
+
+      await prisma.logEntry.create({
+        data: {
+          projectId: member.projectId,
+          deploymentId: member.id,
+          level: 'error',
+          source: 'control-plane',
+          message,
+          metadata: { eventType: 'group_aborted', groupDeploymentId },
+        },
+      });
+
+      await this.queue
+        .publishEvent({ deploymentId: member.id, type: 'failed', message })
+        .catch(() => undefined);
+    }
+  }
+}
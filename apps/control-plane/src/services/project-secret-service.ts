@@ -0,0 +1,410 @@
+import type { Prisma, SecretScope, SecretValueType } from '@prisma/client';
+
+import { env } from '../config/env.js';
+import { applicableSecretScopes } from '../domain/secret-scopes.js';
+import { planSecretSetRestore } from '../domain/secret-versions.js';
+import {
+  ExternalSecretResolver,
+  SecretReferenceError,
+  VaultKvProvider,
+  type ExternalSecretProvider,
+} from '../lib/external-secrets.js';
+import { prisma } from '../lib/prisma.js';
+import { encryptSecret, type EncryptedPayload } from '../lib/secrets.js';
+import { withSerializableRetry } from '../lib/transaction-retry.js';
+
+/** Bulk imports and set restores write every key in one transaction, so they get longer. */
+const BULK_WRITE_TIMEOUT_MS = 30_000;
+
+export class ProjectSecretError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'ProjectSecretError';
+  }
+}
+
+/** One key in one scope of a project. */
+export interface SecretLocation {
+  projectId: string;
+  scope: SecretScope;
+  branch: string;
+  key: string;
+}
+
+/** A value as written: the secret itself, or a reference to resolve at deploy time. */
+export interface SecretValueInput {
+  value: string;
+  valueType: SecretValueType;
+}
+
+export interface StoredSecretValue extends EncryptedPayload {
+  valueType: SecretValueType;
+}
+
+/** External secret stores this control plane is configured to read. */
+export const configuredSecretProviders = (): ExternalSecretProvider[] => [
+  ...(env.VAULT_ADDR && env.VAULT_TOKEN
+    ? [
+        new VaultKvProvider({
+          address: env.VAULT_ADDR,
+          token: env.VAULT_TOKEN,
+          ...(env.VAULT_NAMESPACE && { namespace: env.VAULT_NAMESPACE }),
+        }),
+      ]
+    : []),
+];
+
+const projectOrganizationId = async (projectId: string): Promise<string> => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { organizationId: true },
+  });
+  if (!project) {
+    throw new ProjectSecretError('Project not found', 404);
+  }
+  return project.organizationId;
+};
+
+const secretSelect = {
+  id: true,
+  key: true,
+  scope: true,
+  branch: true,
+  valueType: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ProjectSecretSelect;
+
+/**
+ * Appends a version for `location` and points the secret at it. A null value
+ * records a deletion and removes the secret; deleting a key that does not
+ * exist writes nothing. Runs inside the caller's transaction so the version
+ * and the secret never disagree.
+ */
+export const writeSecretVersion = async (
+  tx: Prisma.TransactionClient,
+  location: SecretLocation,
+  value: StoredSecretValue | null,
+  createdById?: string,
+) => {
+  if (!value) {
+    const existing = await tx.projectSecret.findUnique({
+      where: { projectId_scope_branch_key: location },
+      select: { id: true },
+    });
+    if (!existing) {
+      return { secret: null, version: null };
+    }
+  }
+
+  const latest = await tx.projectSecretVersion.findFirst({
+    where: location,
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  });
+  const version = await tx.projectSecretVersion.create({
+    data: {
+      ...location,
+      version: (latest?.version ?? 0) + 1,
+      ...(value && {
+        valueType: value.valueType,
+        encryptedValue: value.encryptedValue,
+        iv: value.iv,
+        authTag: value.authTag,
+        keyId: value.keyId,
+      }),
+      createdById: createdById ?? null,
+    },
+    select: { id: true, version: true },
+  });
+
+  if (!value) {
+    await tx.projectSecret.delete({ where: { projectId_scope_branch_key: location } });
+    return { secret: null, version: version.version };
+  }
+
+  const secret = await tx.projectSecret.upsert({
+    where: { projectId_scope_branch_key: location },
+    update: {
+      valueType: value.valueType,
+      encryptedValue: value.encryptedValue,
+      iv: value.iv,
+      authTag: value.authTag,
+      keyId: value.keyId,
+      currentVersionId: version.id,
+    },
+    create: {
+      ...location,
+      valueType: value.valueType,
+      encryptedValue: value.encryptedValue,
+      iv: value.iv,
+      authTag: value.authTag,
+      keyId: value.keyId,
+      currentVersionId: version.id,
+    },
+    select: secretSelect,
+  });
+  return { secret, version: version.version };
+};
+
+const storedValue = (version: {
+  valueType: SecretValueType;
+  encryptedValue: string | null;
+  iv: string | null;
+  authTag: string | null;
+  keyId: string | null;
+}): StoredSecretValue | null =>
+  version.encryptedValue && version.iv && version.authTag
+    ? {
+        valueType: version.valueType,
+        encryptedValue: version.encryptedValue,
+        iv: version.iv,
+        authTag: version.authTag,
+        keyId: version.keyId,
+      }
+    : null;
+
+/**
+ * Encrypts a value with its organization's data key, rejecting references no
+ * configured store can read.
+ */
+const prepareSecretValue = async (
+  input: SecretValueInput,
+  key: string,
+  organizationId: string,
+): Promise<StoredSecretValue> => {
+  if (input.valueType === 'reference') {
+    try {
+      new ExternalSecretResolver(configuredSecretProviders()).validate(input.value);
+    } catch (error) {
+      if (error instanceof SecretReferenceError) {
+        throw new ProjectSecretError(`${key}: ${error.message}`, 400);
+      }
+      throw error;
+    }
+  }
+  return {
+    valueType: input.valueType,
+    ...(await encryptSecret(
+      input.valueType === 'reference' ? input.value.trim() : input.value,
+      organizationId,
+    )),
+  };
+};
+
+export class ProjectSecretService {
+  async setSecret(location: SecretLocation, input: SecretValueInput, actorUserId?: string) {
+    const encrypted = await prepareSecretValue(
+      input,
+      location.key,
+      await projectOrganizationId(location.projectId),
+    );
+    const result = await withSerializableRetry((tx) =>
+      writeSecretVersion(tx, location, encrypted, actorUserId),
+    );
+    return { secret: result.secret!, version: result.version! };
+  }
+
+  /** Writes each key as a new version, all or none. */
+  async setSecrets(
+    scope: Omit<SecretLocation, 'key'>,
+    entries: Array<[key: string, value: SecretValueInput]>,
+    actorUserId?: string,
+  ): Promise<void> {
+    const organizationId = await projectOrganizationId(scope.projectId);
+    const encrypted: Array<{ key: string; value: StoredSecretValue }> = [];
+    for (const [key, value] of entries) {
+      encrypted.push({ key, value: await prepareSecretValue(value, key, organizationId) });
+    }
+    await withSerializableRetry(
+      async (tx) => {
+        for (const { key, value } of encrypted) {
+          await writeSecretVersion(tx, { ...scope, key }, value, actorUserId);
+        }
+      },
+      { timeoutMs: BULK_WRITE_TIMEOUT_MS },
+    );
+  }
+
+  /** Returns the deletion's version, or null when there was nothing to delete. */
+  async deleteSecret(location: SecretLocation, actorUserId?: string): Promise<number | null> {
+    const result = await withSerializableRetry((tx) =>
+      writeSecretVersion(tx, location, null, actorUserId),
+    );
+    return result.version;
+  }
+
+  /** Newest first, without values. */
+  async listVersions(location: SecretLocation) {
+    const [versions, secret] = await Promise.all([
+      prisma.projectSecretVersion.findMany({
+        where: location,
+        orderBy: { version: 'desc' },
+        select: {
+          id: true,
+          version: true,
+          valueType: true,
+          encryptedValue: true,
+          createdById: true,
+          createdAt: true,
+        },
+      }),
+      prisma.projectSecret.findUnique({
+        where: { projectId_scope_branch_key: location },
+        select: { currentVersionId: true },
+      }),
+    ]);
+
+    const authorIds = [
+      ...new Set(versions.flatMap((version) => (version.createdById ? [version.createdById] : []))),
+    ];
+    const authors = authorIds.length
+      ? await prisma.user.findMany({
+          where: { id: { in: authorIds } },
+          select: { id: true, email: true, name: true },
+        })
+      : [];
+    const authorById = new Map(authors.map((author) => [author.id, author]));
+
+    return versions.map((version) => ({
+      id: version.id,
+      version: version.version,
+      valueType: version.valueType,
+      deleted: version.encryptedValue === null,
+      current: version.id === secret?.currentVersionId,
+      createdBy: version.createdById ? (authorById.get(version.createdById) ?? null) : null,
+      createdAt: version.createdAt,
+    }));
+  }
+
+  /**
+   * Writes `version` back as a new version. Restoring a deletion deletes the
+   * key again; history is never rewritten.
+   */
+  async restoreVersion(location: SecretLocation, version: number, actorUserId?: string) {
+    return withSerializableRetry(async (tx) => {
+      const target = await tx.projectSecretVersion.findUnique({
+        where: { projectId_scope_branch_key_version: { ...location, version } },
+      });
+      const current = await tx.projectSecret.findUnique({
+        where: { projectId_scope_branch_key: location },
+        select: { currentVersionId: true },
+      });
+      if (!target) {
+        throw new ProjectSecretError(`Version ${version} of ${location.key} not found`, 404);
+      }
+      const payload = storedValue(target);
+      if (payload ? current?.currentVersionId === target.id : !current) {
+        throw new ProjectSecretError(`${location.key} is already at version ${version}`, 409);
+      }
+      return writeSecretVersion(tx, location, payload, actorUserId);
+    });
+  }
+
+  /** Records the secret versions a deployment started with. */
+  async recordDeploymentSnapshot(deploymentId: string, versionIds: string[]): Promise<void> {
+    await prisma.$transaction([
+      prisma.deploymentSecretVersion.createMany({
+        data: versionIds.map((secretVersionId) => ({ deploymentId, secretVersionId })),
+        skipDuplicates: true,
+      }),
+      prisma.deployment.update({
+        where: { id: deploymentId },
+        data: { secretsSnapshotAt: new Date() },
+      }),
+    ]);
+  }
+
+  /**
+   * Makes the project's secrets, in every layer the deployment read, match the
+   * versions it started with: changed keys get their old value back as a new
+   * version and keys added since are deleted. Layers the deployment did not
+   * read, such as another branch's, are untouched.
+   */
+  async restoreDeploymentSnapshot(deploymentId: string, actorUserId?: string) {
+    const deployment = await prisma.deployment.findUnique({
+      where: { id: deploymentId },
+      select: {
+        projectId: true,
+        environment: true,
+        branch: true,
+        secretsSnapshotAt: true,
+        secretVersions: {
+          select: {
+            secretVersion: {
+              select: {
+                id: true,
+                key: true,
+                scope: true,
+                branch: true,
+                valueType: true,
+                encryptedValue: true,
+                iv: true,
+                authTag: true,
+                keyId: true,
+              },
+            },
+          },
+        },
+      },
+    });
+    if (!deployment) {
+      throw new ProjectSecretError('Deployment not found', 404);
+    }
+    if (!deployment.secretsSnapshotAt) {
+      throw new ProjectSecretError(
+        'Deployment predates secret history and has no secret snapshot',
+        409,
+      );
+    }
+
+    const snapshot = deployment.secretVersions.map((entry) => entry.secretVersion);
+    // Image deployments keep no branch, but the secrets they read still name it.
+    const branch =
+      deployment.branch ?? snapshot.find((version) => version.scope === 'branch')?.branch ?? null;
+    const current = await prisma.projectSecret.findMany({
+      where: {
+        projectId: deployment.projectId,
+        OR: applicableSecretScopes({
+          environment: deployment.environment === 'preview' ? 'preview' : 'production',
+          branch,
+        }),
+      },
+      select: { key: true, scope: true, branch: true, currentVersionId: true },
+    });
+
+    const plan = planSecretSetRestore(current, snapshot);
+    const writes = [
+      ...plan.restore.map((version) => ({ location: version, payload: storedValue(version) })),
+      ...plan.remove.map((secret) => ({ location: secret, payload: null })),
+    ];
+    await withSerializableRetry(
+      async (tx) => {
+        for (const { location, payload } of writes) {
+          await writeSecretVersion(
+            tx,
+            {
+              projectId: deployment.projectId,
+              scope: location.scope,
+              branch: location.branch,
+              key: location.key,
+            },
+            payload,
+            actorUserId,
+          );
+        }
+      },
+      { timeoutMs: BULK_WRITE_TIMEOUT_MS },
+    );
+
+    return {
+      projectId: deployment.projectId,
+      restored: plan.restore.length,
+      removed: plan.remove.length,
+      unchanged: plan.unchanged,
+    };
+  }
+}
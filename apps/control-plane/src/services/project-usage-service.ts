@@ -27,6 +27,7 @@ interface ProjectResourceSnapshot {
   resourceRamMb: number;
   resourceCpuMillicore: number;
   resourceBandwidthGb: number;
+  replicaCount: number;
 }
 
 export interface ProjectUsageSnapshot {
@@ -192,6 +193,7 @@ export class ProjectUsageService {
         resourceRamMb: true,
         resourceCpuMillicore: true,
         resourceBandwidthGb: true,
+        replicaCount: true,
       },
     });
 
@@ -234,6 +236,7 @@ export class ProjectUsageService {
         resourceRamMb: true,
         resourceCpuMillicore: true,
         resourceBandwidthGb: true,
+        replicaCount: true,
       },
     });
 
@@ -334,8 +337,10 @@ export class ProjectUsageService {
     lastRecordedAt: Date | null,
   ): ProjectUsageSnapshot {
     const seconds = getWindowDurationSeconds(window);
-    const cpuAllocation = BigInt(project.resourceCpuMillicore) * seconds;
-    const ramAllocation = BigInt(project.resourceRamMb) * seconds;
+    // Usage is recorded per container, so every replica counts against the allocation.
+    const replicas = BigInt(Math.max(1, project.replicaCount));
+    const cpuAllocation = BigInt(project.resourceCpuMillicore) * replicas * seconds;
+    const ramAllocation = BigInt(project.resourceRamMb) * replicas * seconds;
     const bandwidthAllocation = BigInt(project.resourceBandwidthGb) * BYTES_PER_GIB;
 
     return {
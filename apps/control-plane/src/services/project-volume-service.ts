@@ -0,0 +1,311 @@
+import { ServerStatus, SubscriptionStatus, type Server } from '@prisma/client';
+
+import { env } from '../config/env.js';
+import { replicaAllocation } from '../domain/resource-rules.js';
+import {
+  mountPathsOverlap,
+  normalizeVolumeMountPath,
+  projectVolumeDockerName,
+  validateVolumeQuota,
+} from '../domain/volume-rules.js';
+import { prisma } from '../lib/prisma.js';
+
+import { DeployQueueService, type VolumeActionQueueJob } from './deploy-queue-service.js';
+import { ServerSchedulerService, ServerSchedulingError } from './server-scheduler-service.js';
+
+/** Volume states that block snapshot, restore and delete requests. */
+export const VOLUME_BUSY_STATUSES = ['pending', 'restoring', 'deleting'];
+
+export class ProjectVolumeError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'ProjectVolumeError';
+  }
+}
+
+export class ProjectVolumeService {
+  private readonly queue = new DeployQueueService();
+  private readonly scheduler = new ServerSchedulerService();
+
+  /**
+   * Record a volume on the project's placement server and ask the engine to
+   * create it. Every volume of a project lives on the same server, because
+   * deployments are pinned to it.
+   */
+  async createVolume(input: {
+    projectId: string;
+    name: string;
+    mountPath: string;
+    sizeGb: number;
+    createdById?: string;
+  }) {
+    const project = await prisma.project.findUnique({
+      where: { id: input.projectId },
+      select: {
+        id: true,
+        organizationId: true,
+        activeDeploymentId: true,
+        resourceRamMb: true,
+        resourceCpuMillicore: true,
+        resourceBandwidthGb: true,
+        replicaCount: true,
+        volumes: { select: { name: true, mountPath: true, serverId: true } },
+      },
+    });
+    if (!project) {
+      throw new ProjectVolumeError('Project not found', 404);
+    }
+
+    const { mountPath, error } = normalizeVolumeMountPath(input.mountPath);
+    if (error) {
+      throw new ProjectVolumeError(error, 400);
+    }
+    if (project.volumes.some((volume) => volume.name === input.name)) {
+      throw new ProjectVolumeError(`A volume named "${input.name}" already exists`, 409);
+    }
+    const overlapping = project.volumes.find((volume) =>
+      mountPathsOverlap(volume.mountPath, mountPath),
+    );
+    if (overlapping) {
+      throw new ProjectVolumeError(
+        `Mount path ${mountPath} overlaps volume "${overlapping.name}" at ${overlapping.mountPath}`,
+        409,
+      );
+    }
+
+    await this.assertWithinQuota(project.organizationId, input.sizeGb);
+    const server = await this.resolvePlacementServer(project);
+
+    const volume = await prisma.projectVolume.create({
+      data: {
+        projectId: project.id,
+        serverId: server.id,
+        name: input.name,
+        mountPath,
+        sizeGb: input.sizeGb,
+        dockerVolumeName: projectVolumeDockerName(project.id, input.name),
+        createdById: input.createdById ?? null,
+      },
+    });
+
+    await this.enqueueOrFail(volume.id, null, { action: 'create', volumeId: volume.id });
+    return { volume, server };
+  }
+
+  /** Removes the Docker volume and its snapshots; the record goes once the engine is done. */
+  async deleteVolume(volumeId: string) {
+    const volume = await this.loadIdleVolume(volumeId, { allowFailed: true });
+    await prisma.projectVolume.update({
+      where: { id: volume.id },
+      data: { status: 'deleting', errorMessage: null },
+    });
+    await this.queue.enqueueVolumeAction({ action: 'delete', volumeId: volume.id });
+    return volume;
+  }
+
+  async createSnapshot(volumeId: string, createdById?: string) {
+    const volume = await this.loadIdleVolume(volumeId);
+    const snapshot = await prisma.volumeSnapshot.create({
+      data: { volumeId: volume.id, createdById: createdById ?? null },
+    });
+    await this.enqueueOrFail(volume.id, snapshot.id, {
+      action: 'snapshot',
+      volumeId: volume.id,
+      snapshotId: snapshot.id,
+    });
+    return snapshot;
+  }
+
+  /**
+   * Replace the volume's contents with a snapshot. The engine stops the
+   * project's containers that mount the volume for the duration of the restore.
+   */
+  async restoreSnapshot(snapshotId: string) {
+    const snapshot = await prisma.volumeSnapshot.findUnique({
+      where: { id: snapshotId },
+      select: { id: true, volumeId: true, status: true },
+    });
+    if (!snapshot) {
+      throw new ProjectVolumeError('Snapshot not found', 404);
+    }
+    if (snapshot.status !== 'ready') {
+      throw new ProjectVolumeError('Only completed snapshots can be restored', 409);
+    }
+
+    const volume = await this.loadIdleVolume(snapshot.volumeId);
+    const claimed = await prisma.projectVolume.updateMany({
+      where: { id: volume.id, status: 'ready' },
+      data: { status: 'restoring', errorMessage: null },
+    });
+    if (claimed.count === 0) {
+      throw new ProjectVolumeError('Volume is busy; try again once it is ready', 409);
+    }
+
+    await this.queue.enqueueVolumeAction({
+      action: 'restore',
+      volumeId: volume.id,
+      snapshotId: snapshot.id,
+    });
+    return { volume, snapshot };
+  }
+
+  async deleteSnapshot(snapshotId: string) {
+    const snapshot = await prisma.volumeSnapshot.findUnique({
+      where: { id: snapshotId },
+      select: { id: true, volumeId: true, status: true, storagePath: true },
+    });
+    if (!snapshot) {
+      throw new ProjectVolumeError('Snapshot not found', 404);
+    }
+    if (snapshot.status === 'pending') {
+      throw new ProjectVolumeError('Snapshot is still being taken', 409);
+    }
+
+    if (snapshot.storagePath) {
+      await this.queue.enqueueVolumeAction({
+        action: 'delete_snapshot',
+        volumeId: snapshot.volumeId,
+        snapshotId: snapshot.id,
+      });
+    } else {
+      await prisma.volumeSnapshot.delete({ where: { id: snapshot.id } });
+    }
+    return snapshot;
+  }
+
+  private async loadIdleVolume(volumeId: string, options: { allowFailed?: boolean } = {}) {
+    const volume = await prisma.projectVolume.findUnique({ where: { id: volumeId } });
+    if (!volume) {
+      throw new ProjectVolumeError('Volume not found', 404);
+    }
+    if (VOLUME_BUSY_STATUSES.includes(volume.status)) {
+      throw new ProjectVolumeError(`Volume is ${volume.status}; try again once it is ready`, 409);
+    }
+    if (volume.status === 'failed' && !options.allowFailed) {
+      throw new ProjectVolumeError(
+        `Volume is in a failed state: ${volume.errorMessage ?? 'unknown error'}`,
+        409,
+      );
+    }
+    return volume;
+  }
+
+  private async assertWithinQuota(organizationId: string, requestedGb: number): Promise<void> {
+    const subscription = await prisma.subscription.findFirst({
+      where: {
+        organizationId,
+        status: { in: [SubscriptionStatus.active, SubscriptionStatus.trialing] },
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { plan: { select: { includedVolumeStorageGb: true } } },
+    });
+    if (!subscription) {
+      throw new ProjectVolumeError('No active subscription found for organization.', 402);
+    }
+
+    const [allocated, databases] = await Promise.all([
+      prisma.projectVolume.aggregate({
+        where: { project: { organizationId } },
+        _sum: { sizeGb: true },
+      }),
+      prisma.managedDatabase.aggregate({
+        where: { organizationId, provider: 'self_hosted' },
+        _sum: { storageGb: true },
+      }),
+    ]);
+
+    try {
+      validateVolumeQuota({
+        includedGb: subscription.plan.includedVolumeStorageGb,
+        allocatedGb: (allocated._sum.sizeGb ?? 0) + (databases._sum.storageGb ?? 0),
+        requestedGb,
+      });
+    } catch (error) {
+      throw new ProjectVolumeError((error as Error).message, 409);
+    }
+  }
+
+  /**
+   * The server a new volume goes on: where the project's volumes already are,
+   * else where its active deployment runs, else wherever the scheduler would
+   * place the project's next deployment.
+   */
+  private async resolvePlacementServer(project: {
+    organizationId: string;
+    activeDeploymentId: string | null;
+    resourceRamMb: number;
+    resourceCpuMillicore: number;
+    resourceBandwidthGb: number;
+    replicaCount: number;
+    volumes: Array<{ serverId: string }>;
+  }): Promise<Server> {
+    const pinnedServerId =
+      project.volumes[0]?.serverId ??
+      (project.activeDeploymentId
+        ? (
+            await prisma.deployment.findUnique({
+              where: { id: project.activeDeploymentId },
+              select: { serverId: true },
+            })
+          )?.serverId
+        : null);
+
+    if (pinnedServerId) {
+      const server = await prisma.server.findUnique({ where: { id: pinnedServerId } });
+      if (!server || server.status !== ServerStatus.healthy) {
+        throw new ProjectVolumeError(
+          "The project's server is not healthy; volumes can only be created on a healthy server.",
+          409,
+        );
+      }
+      return server;
+    }
+
+    try {
+      return await this.scheduler.schedule({
+        ...replicaAllocation(
+          {
+            ramMb: project.resourceRamMb,
+            cpuMillicores: project.resourceCpuMillicore,
+            bandwidthGb: project.resourceBandwidthGb,
+          },
+          project.replicaCount,
+        ),
+        region: env.DEFAULT_REGION,
+        organizationId: project.organizationId,
+      });
+    } catch (error) {
+      if (error instanceof ServerSchedulingError) {
+        throw new ProjectVolumeError(`No server can host this project: ${error.message}`, 503);
+      }
+      throw error;
+    }
+  }
+
+  private async enqueueOrFail(
+    volumeId: string,
+    snapshotId: string | null,
+    payload: VolumeActionQueueJob,
+  ): Promise<void> {
+    try {
+      await this.queue.enqueueVolumeAction(payload);
+    } catch (error) {
+      const errorMessage = `Failed to queue volume action: ${(error as Error).message}`;
+      if (snapshotId) {
+        await prisma.volumeSnapshot.update({
+          where: { id: snapshotId },
+          data: { status: 'failed', errorMessage, completedAt: new Date() },
+        });
+      } else {
+        await prisma.projectVolume.update({
+          where: { id: volumeId },
+          data: { status: 'failed', errorMessage },
+        });
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,450 @@
+import { env } from '../config/env.js';
+import { prisma } from '../lib/prisma.js';
+import { redis } from '../lib/redis.js';
+import { decryptSecret } from '../lib/secrets.js';
+import { DeployQueueService } from './deploy-queue-service.js';
+import {
+  DeploymentRequestService,
+  type QueuedDeploymentResult,
+} from './deployment-request-service.js';
+import { GitHubService } from './github-service.js';
+
+const IN_PROGRESS_STATUSES = ['queued', 'building', 'deploying'] as const;
+const LIVE_CONTAINER_STATUSES = ['pending', 'running', 'sleeping'] as const;
+const DEPLOY_ACTIONS = new Set(['opened', 'reopened', 'synchronize']);
+
+interface PullRequestPreviewInput {
+  projectId: string;
+  number: number;
+  headRef: string;
+  headSha: string;
+  repoFullName: string;
+  cloneUrl: string;
+}
+
+export interface PullRequestEvent {
+  action: string;
+  number: number;
+  merged: boolean;
+  headRef: string;
+  headSha: string;
+  /** Repository the PR branch lives in; null when the fork was deleted. */
+  headRepoFullName: string | null;
+  repoFullName: string;
+  cloneUrl: string;
+  /** Every spelling of the repository URL a project may have been saved with. */
+  repoUrlCandidates: string[];
+}
+
+export type PullRequestEventResult =
+  | { received: true; ignored: true }
+  | {
+      received: true;
+      triggered: number;
+      ignored: number;
+      closed: number;
+      errors: Array<{ projectId: string; message: string }>;
+    };
+
+type PreviewCommentState = 'building' | 'closed';
+
+/**
+ * Drives the preview environment of a GitHub pull request: one stable domain
+ * per PR, redeployed on every push to the PR branch and torn down when the PR
+ * closes. The engine reports the final ready, failed or canceled state on the
+ * same comment; commit statuses are reported for every deployment by
+ * DeploymentRequestService and the engine.
+ */
+export class PullRequestPreviewService {
+  private readonly deployments = new DeploymentRequestService();
+
+  private readonly queue = new DeployQueueService();
+
+  private readonly github = new GitHubService();
+
+  /**
+   * Handles a verified pull_request webhook: opened, reopened and synchronize
+   * (re)deploy the preview of every matching project, closed tears it down.
+   */
+  async handlePullRequest(event: PullRequestEvent): Promise<PullRequestEventResult> {
+    const isClose = event.action === 'closed';
+    if (!isClose && !DEPLOY_ACTIONS.has(event.action)) {
+      return { received: true, ignored: true };
+    }
+
+    const projects = await prisma.project.findMany({
+      where: {
+        gitProvider: 'github',
+        OR: [
+          { repoFullName: event.repoFullName },
+          ...event.repoUrlCandidates.map((repoUrl) => ({ repoUrl })),
+        ],
+      },
+      select: { id: true, autoDeployEnabled: true, previewDeploymentsEnabled: true },
+    });
+
+    let triggered = 0;
+    let ignored = 0;
+    let closed = 0;
+    const errors: Array<{ projectId: string; message: string }> = [];
+
+    for (const project of projects) {
+      if (isClose) {
+        try {
+          await this.close({
+            projectId: project.id,
+            number: event.number,
+            repoFullName: event.repoFullName,
+            merged: event.merged,
+          });
+          closed += 1;
+        } catch (error) {
+          errors.push({ projectId: project.id, message: (error as Error).message });
+        }
+        continue;
+      }
+
+      if (!project.autoDeployEnabled || !project.previewDeploymentsEnabled) {
+        ignored += 1;
+        continue;
+      }
+
+      // Fork branches are untrusted code; building them would expose project secrets.
+      if (event.headRepoFullName !== event.repoFullName) {
+        ignored += 1;
+        await prisma.logEntry.create({
+          data: {
+            projectId: project.id,
+            level: 'info',
+            source: 'control-plane',
+            message: `Preview skipped for pull request #${event.number}: opened from fork ${event.headRepoFullName ?? '(deleted repository)'}`,
+            metadata: {
+              eventType: 'deployment.skipped',
+              trigger: 'github_pull_request',
+              reason: 'fork_pull_request',
+              pullRequestNumber: event.number,
+            },
+          },
+        });
+        continue;
+      }
+
+      const dedupeKey = `apployd:github:pr:${project.id}:${event.number}:${event.headSha}`;
+      const reserved = await redis.set(dedupeKey, '1', 'NX', 'EX', 60 * 60 * 12);
+      if (!reserved) {
+        ignored += 1;
+        continue;
+      }
+
+      try {
+        await this.deploy({
+          projectId: project.id,
+          number: event.number,
+          headRef: event.headRef,
+          headSha: event.headSha,
+          repoFullName: event.repoFullName,
+          cloneUrl: event.cloneUrl,
+        });
+        triggered += 1;
+      } catch (error) {
+        errors.push({ projectId: project.id, message: (error as Error).message });
+      }
+    }
+
+    return { received: true, triggered, ignored, closed, errors };
+  }
+
+  async deploy(input: PullRequestPreviewInput): Promise<QueuedDeploymentResult> {
+    const result = await this.deployments.create({
+      projectId: input.projectId,
+      trigger: 'github_pull_request',
+      environment: 'preview',
+      gitUrl: input.cloneUrl,
+      branch: input.headRef,
+      commitSha: input.headSha,
+      pullRequest: {
+        number: input.number,
+        repoFullName: input.repoFullName,
+        headSha: input.headSha,
+      },
+    });
+
+    const preview = await prisma.pullRequestPreview.upsert({
+      where: { projectId_number: { projectId: input.projectId, number: input.number } },
+      create: {
+        projectId: input.projectId,
+        number: input.number,
+        headRef: input.headRef,
+        headSha: input.headSha,
+        domain: result.domain ?? '',
+        lastDeploymentId: result.deploymentId,
+      },
+      update: {
+        headRef: input.headRef,
+        headSha: input.headSha,
+        domain: result.domain ?? '',
+        status: 'open',
+        closedAt: null,
+        lastDeploymentId: result.deploymentId,
+      },
+    });
+
+    await this.report({
+      previewId: preview.id,
+      projectId: input.projectId,
+      repoFullName: input.repoFullName,
+      number: input.number,
+      headSha: input.headSha,
+      commentId: preview.commentId,
+      deploymentId: result.deploymentId,
+      url: result.url,
+      state: 'building',
+    }).catch((error) => {
+      console.error('Failed to report pull request preview to GitHub', input.projectId, error);
+    });
+
+    return result;
+  }
+
+  /**
+   * Cancels preview builds still in flight, stops running preview containers and
+   * releases their reserved capacity. Builds already past the queue release their
+   * own capacity when the engine notices the cancellation.
+   */
+  async close(input: {
+    projectId: string;
+    number: number;
+    repoFullName: string;
+    merged: boolean;
+  }): Promise<{ canceledDeployments: number; stoppedContainers: number }> {
+    const preview = await prisma.pullRequestPreview.findUnique({
+      where: { projectId_number: { projectId: input.projectId, number: input.number } },
+    });
+    if (!preview) {
+      return { canceledDeployments: 0, stoppedContainers: 0 };
+    }
+
+    const deployments = await prisma.deployment.findMany({
+      where: {
+        projectId: input.projectId,
+        pullRequestNumber: input.number,
+        OR: [
+          { status: { in: [...IN_PROGRESS_STATUSES] } },
+          { container: { status: { in: [...LIVE_CONTAINER_STATUSES] } } },
+        ],
+      },
+      select: {
+        id: true,
+        status: true,
+        serverId: true,
+        domain: true,
+        container: { select: { id: true, dockerContainerId: true, status: true } },
+        project: {
+          select: { resourceRamMb: true, resourceCpuMillicore: true, resourceBandwidthGb: true },
+        },
+      },
+    });
+
+    // The engine treats messages containing "canceled by user" as cancellations, not build failures.
+    const message = `Preview canceled by user: pull request #${input.number} was ${input.merged ? 'merged' : 'closed'}.`;
+    let canceledDeployments = 0;
+    let stoppedContainers = 0;
+
+    for (const deployment of deployments) {
+      const inProgress = (IN_PROGRESS_STATUSES as readonly string[]).includes(deployment.status);
+      if (inProgress) {
+        const canceled = await prisma.deployment.updateMany({
+          where: { id: deployment.id, status: deployment.status },
+          data: { status: 'failed', errorMessage: message, finishedAt: new Date() },
+        });
+        if (canceled.count === 0) {
+          continue;
+        }
+        canceledDeployments += 1;
+        await this.queue
+          .publishEvent({ deploymentId: deployment.id, type: 'failed', message })
+          .catch(() => undefined);
+      }
+
+      const liveContainer =
+        deployment.container &&
+        (LIVE_CONTAINER_STATUSES as readonly string[]).includes(deployment.container.status)
+          ? deployment.container
+          : null;
+      if (liveContainer) {
+        await this.queue.enqueueContainerAction({
+          action: 'stop',
+          containerId: liveContainer.id,
+          dockerContainerId: liveContainer.dockerContainerId,
+          deploymentId: deployment.id,
+          ...(deployment.domain && { domain: deployment.domain }),
+        });
+        stoppedContainers += 1;
+      }
+
+      // Queued builds never reach the engine's failure path, so their reservation is released here.
+      if (deployment.status === 'queued' || liveContainer) {
+        await this.releaseReservedCapacity(deployment);
+      }
+    }
+
+    await prisma.pullRequestPreview.update({
+      where: { id: preview.id },
+      data: { status: 'closed', closedAt: new Date() },
+    });
+
+    await prisma.logEntry.create({
+      data: {
+        projectId: input.projectId,
+        level: 'info',
+        source: 'control-plane',
+        message: `Pull request #${input.number} ${input.merged ? 'merged' : 'closed'}; preview ${preview.domain} torn down`,
+        metadata: {
+          eventType: 'preview.closed',
+          pullRequestNumber: input.number,
+          merged: input.merged,
+          canceledDeployments,
+          stoppedContainers,
+        },
+      },
+    });
+
+    await this.report({
+      previewId: preview.id,
+      projectId: input.projectId,
+      repoFullName: input.repoFullName,
+      number: input.number,
+      headSha: preview.headSha,
+      commentId: preview.commentId,
+      deploymentId: preview.lastDeploymentId,
+      url: null,
+      state: 'closed',
+    }).catch((error) => {
+      console.error('Failed to report closed pull request preview', input.projectId, error);
+    });
+
+    return { canceledDeployments, stoppedContainers };
+  }
+
+  private async releaseReservedCapacity(deployment: {
+    id: string;
+    serverId: string | null;
+    project: { resourceRamMb: number; resourceCpuMillicore: number; resourceBandwidthGb: number };
+  }): Promise<void> {
+    if (!deployment.serverId) {
+      return;
+    }
+
+    const released = await prisma.deployment.updateMany({
+      where: { id: deployment.id, capacityReserved: true },
+      data: { capacityReserved: false },
+    });
+    if (released.count === 0) {
+      return;
+    }
+
+    await prisma.server.update({
+      where: { id: deployment.serverId },
+      data: {
+        reservedRamMb: { decrement: deployment.project.resourceRamMb },
+        reservedCpuMillicores: { decrement: deployment.project.resourceCpuMillicore },
+        reservedBandwidthGb: { decrement: deployment.project.resourceBandwidthGb },
+      },
+    });
+  }
+
+  private async report(input: {
+    previewId: string;
+    projectId: string;
+    repoFullName: string;
+    number: number;
+    headSha: string;
+    commentId: string | null;
+    deploymentId: string | null;
+    url: string | null;
+    state: PreviewCommentState;
+  }): Promise<void> {
+    const project = await prisma.project.findUnique({
+      where: { id: input.projectId },
+      select: { name: true, createdById: true },
+    });
+    const [owner, repo] = input.repoFullName.split('/');
+    if (!project || !owner || !repo) {
+      return;
+    }
+
+    const accessToken = await this.resolveProjectOwnerToken(project.createdById);
+    if (!accessToken) {
+      return;
+    }
+
+    const dashboardUrl = input.deploymentId
+      ? new URL(
+          `/projects/${input.projectId}/deployments/${input.deploymentId}`,
+          env.DASHBOARD_BASE_URL,
+        ).toString()
+      : undefined;
+
+    const { commentId } = await this.github.upsertIssueComment({
+      accessToken,
+      owner,
+      repo,
+      issueNumber: input.number,
+      commentId: input.commentId,
+      body: buildPreviewComment({
+        projectId: input.projectId,
+        projectName: project.name,
+        state: input.state,
+        url: input.url,
+        headSha: input.headSha,
+        ...(dashboardUrl && { dashboardUrl }),
+      }),
+    });
+
+    if (commentId !== input.commentId) {
+      await prisma.pullRequestPreview.update({
+        where: { id: input.previewId },
+        data: { commentId },
+      });
+    }
+  }
+
+  private async resolveProjectOwnerToken(userId: string): Promise<string | undefined> {
+    const connection = await prisma.gitHubConnection.findUnique({
+      where: { userId },
+      select: { encryptedAccessToken: true, iv: true, authTag: true, keyId: true },
+    });
+    if (!connection) {
+      return undefined;
+    }
+
+    return decryptSecret({
+      encryptedValue: connection.encryptedAccessToken,
+      iv: connection.iv,
+      authTag: connection.authTag,
+      keyId: connection.keyId,
+    });
+  }
+}
+
+const buildPreviewComment = (input: {
+  projectId: string;
+  projectName: string;
+  state: PreviewCommentState;
+  url: string | null;
+  headSha: string;
+  dashboardUrl?: string;
+}): string => {
+  const status = input.state === 'building' ? 'Building' : 'Torn down (pull request closed)';
+  const preview = input.state === 'closed' ? '-' : (input.url ?? '-');
+  const logs = input.dashboardUrl ? `[Deployment](${input.dashboardUrl})` : '-';
+
+  return [
+    `<!-- apployd-preview:${input.projectId} -->`,
+    `**Apployd preview for ${input.projectName}**`,
+    '',
+    '| Status | Preview | Commit | Details |',
+    '| --- | --- | --- | --- |',
+    `| ${status} | ${preview} | \`${input.headSha.slice(0, 7)}\` | ${logs} |`,
+  ].join('\n');
+};
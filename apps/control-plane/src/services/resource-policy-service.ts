@@ -1,15 +1,19 @@
 import { SubscriptionStatus, type Prisma } from '@prisma/client';
 
-import { validateAllocationRules } from '../domain/resource-rules.js';
+import { replicaAllocation, validateAllocationRules } from '../domain/resource-rules.js';
 import { prisma } from '../lib/prisma.js';
 
 type PolicyDbClient = Prisma.TransactionClient | typeof prisma;
 
 export class ResourcePolicyService {
+  /**
+   * `requested` is per replica; RAM and CPU are multiplied by `replicas`
+   * (default: the project's current replica count).
+   */
   async assertCanAllocate(
     organizationId: string,
     projectId: string,
-    requested: { ramMb: number; cpuMillicores: number; bandwidthGb: number },
+    requested: { ramMb: number; cpuMillicores: number; bandwidthGb: number; replicas?: number },
     db: PolicyDbClient = prisma,
   ): Promise<void> {
     const subscription = await db.subscription.findFirst({
@@ -24,41 +28,139 @@ export class ResourcePolicyService {
       throw new Error('No active subscription found for organization.');
     }
 
-    const usage = await db.project.aggregate({
+    const projects = await db.project.findMany({
       where: { organizationId },
-      _sum: {
+      select: {
+        id: true,
         resourceRamMb: true,
         resourceCpuMillicore: true,
         resourceBandwidthGb: true,
+        replicaCount: true,
+      },
+    });
+    const allocations = new Map(
+      projects.map((project) => [
+        project.id,
+        replicaAllocation(
+          {
+            ramMb: project.resourceRamMb,
+            cpuMillicores: project.resourceCpuMillicore,
+            bandwidthGb: project.resourceBandwidthGb,
+          },
+          project.replicaCount,
+        ),
+      ]),
+    );
+
+    const currentProject = allocations.get(projectId);
+    if (!currentProject) {
+      throw new Error('Project not found.');
+    }
+
+    const usage = await this.databaseUsage(db, organizationId);
+    for (const allocation of allocations.values()) {
+      usage.ramMb += allocation.ramMb;
+      usage.cpuMillicores += allocation.cpuMillicores;
+      usage.bandwidthGb += allocation.bandwidthGb;
+    }
+    const replicas =
+      requested.replicas ?? projects.find((project) => project.id === projectId)!.replicaCount;
+
+    validateAllocationRules(
+      {
+        poolRamMb: subscription.poolRamMb,
+        poolCpuMillicores: subscription.poolCpuMillicores,
+        poolBandwidthGb: subscription.poolBandwidthGb,
+        currentlyAllocatedRamMb: usage.ramMb,
+        currentlyAllocatedCpuMillicores: usage.cpuMillicores,
+        currentlyAllocatedBandwidthGb: usage.bandwidthGb,
+        currentProjectRamMb: currentProject.ramMb,
+        currentProjectCpuMillicores: currentProject.cpuMillicores,
+        currentProjectBandwidthGb: currentProject.bandwidthGb,
+      },
+      replicaAllocation(requested, replicas),
+    );
+  }
+
+  /**
+   * Self-hosted databases draw RAM and CPU from the same pool as projects.
+   * `databaseId` is the database being resized, whose current size is replaced.
+   */
+  async assertCanAllocateDatabase(
+    organizationId: string,
+    requested: { ramMb: number; cpuMillicores: number },
+    databaseId?: string,
+    db: PolicyDbClient = prisma,
+  ): Promise<void> {
+    const subscription = await db.subscription.findFirst({
+      where: {
+        organizationId,
+        status: { in: [SubscriptionStatus.active, SubscriptionStatus.trialing] },
       },
+      orderBy: { createdAt: 'desc' },
     });
 
-    const currentProject = await db.project.findUnique({
-      where: { id: projectId },
+    if (!subscription) {
+      throw new Error('No active subscription found for organization.');
+    }
+
+    const projects = await db.project.findMany({
+      where: { organizationId },
       select: {
         resourceRamMb: true,
         resourceCpuMillicore: true,
         resourceBandwidthGb: true,
+        replicaCount: true,
       },
     });
-
-    if (!currentProject) {
-      throw new Error('Project not found.');
+    const usage = await this.databaseUsage(db, organizationId);
+    for (const project of projects) {
+      const allocation = replicaAllocation(
+        {
+          ramMb: project.resourceRamMb,
+          cpuMillicores: project.resourceCpuMillicore,
+          bandwidthGb: project.resourceBandwidthGb,
+        },
+        project.replicaCount,
+      );
+      usage.ramMb += allocation.ramMb;
+      usage.cpuMillicores += allocation.cpuMillicores;
+      usage.bandwidthGb += allocation.bandwidthGb;
     }
 
+    const current = databaseId
+      ? await db.managedDatabase.findUnique({
+          where: { id: databaseId },
+          select: { memoryMb: true, cpuMillicores: true },
+        })
+      : null;
+
     validateAllocationRules(
       {
         poolRamMb: subscription.poolRamMb,
         poolCpuMillicores: subscription.poolCpuMillicores,
         poolBandwidthGb: subscription.poolBandwidthGb,
-        currentlyAllocatedRamMb: usage._sum.resourceRamMb ?? 0,
-        currentlyAllocatedCpuMillicores: usage._sum.resourceCpuMillicore ?? 0,
-        currentlyAllocatedBandwidthGb: usage._sum.resourceBandwidthGb ?? 0,
-        currentProjectRamMb: currentProject.resourceRamMb,
-        currentProjectCpuMillicores: currentProject.resourceCpuMillicore,
-        currentProjectBandwidthGb: currentProject.resourceBandwidthGb,
+        currentlyAllocatedRamMb: usage.ramMb,
+        currentlyAllocatedCpuMillicores: usage.cpuMillicores,
+        currentlyAllocatedBandwidthGb: usage.bandwidthGb,
+        currentProjectRamMb: current?.memoryMb ?? 0,
+        currentProjectCpuMillicores: current?.cpuMillicores ?? 0,
+        currentProjectBandwidthGb: 0,
       },
-      requested,
+      { ...requested, bandwidthGb: 0 },
     );
   }
+
+  /** RAM and CPU held by the organization's self-hosted databases; they use no bandwidth allowance. */
+  private async databaseUsage(db: PolicyDbClient, organizationId: string) {
+    const databases = await db.managedDatabase.aggregate({
+      where: { organizationId, provider: 'self_hosted' },
+      _sum: { memoryMb: true, cpuMillicores: true },
+    });
+    return {
+      ramMb: databases._sum.memoryMb ?? 0,
+      cpuMillicores: databases._sum.cpuMillicores ?? 0,
+      bandwidthGb: 0,
+    };
+  }
 }
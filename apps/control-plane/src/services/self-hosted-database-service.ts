@@ -0,0 +1,610 @@
+import { randomBytes } from 'crypto';
+
+import { ServerStatus, SubscriptionStatus, type Prisma, type Server } from '@prisma/client';
+
+import { env } from '../config/env.js';
+import {
+  DATABASE_SLUG_PATTERN,
+  databaseConnectionUrl,
+  databaseInternalHostname,
+  defaultDatabaseCredentials,
+  defaultDatabaseSecretKey,
+  minimumDatabaseMemoryMb,
+  selfHostedDatabaseDockerNames,
+  toDatabaseSlug,
+  type SelfHostedDatabaseEngine,
+} from '../domain/self-hosted-databases.js';
+import { validateVolumeQuota } from '../domain/volume-rules.js';
+import { prisma } from '../lib/prisma.js';
+import { decryptSecret, encryptSecret } from '../lib/secrets.js';
+import { getPrismaErrorCode } from '../lib/transaction-retry.js';
+
+import { DeployQueueService, type DatabaseActionQueueJob } from './deploy-queue-service.js';
+import { writeSecretVersion } from './project-secret-service.js';
+import { ResourcePolicyService } from './resource-policy-service.js';
+import { ServerSchedulerService, ServerSchedulingError } from './server-scheduler-service.js';
+
+export class SelfHostedDatabaseError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'SelfHostedDatabaseError';
+  }
+}
+
+export const managedDatabaseSelect = {
+  id: true,
+  organizationId: true,
+  projectId: true,
+  provider: true,
+  status: true,
+  name: true,
+  regionId: true,
+  branchName: true,
+  databaseName: true,
+  roleName: true,
+  secretKey: true,
+  engine: true,
+  slug: true,
+  serverId: true,
+  memoryMb: true,
+  cpuMillicores: true,
+  storageGb: true,
+  errorMessage: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ManagedDatabaseSelect;
+
+export type ManagedDatabaseRecord = Prisma.ManagedDatabaseGetPayload<{
+  select: typeof managedDatabaseSelect;
+}>;
+
+/** States a lifecycle request can start from. */
+const RESTARTABLE_STATUSES = ['ready', 'failed'];
+
+export class SelfHostedDatabaseService {
+  private readonly queue = new DeployQueueService();
+  private readonly scheduler = new ServerSchedulerService();
+  private readonly policy = new ResourcePolicyService();
+
+  /**
+   * Reserves pool and server capacity, records the database with generated
+   * credentials and asks the engine to start it. The password is kept
+   * encrypted on the record for restarts. A linked project gets the
+   * connection string as a shared secret; otherwise it is returned once.
+   */
+  async create(input: {
+    organizationId: string;
+    projectId: string | null;
+    actorUserId: string;
+    engine: SelfHostedDatabaseEngine;
+    name: string;
+    slug?: string;
+    memoryMb: number;
+    cpuMillicores: number;
+    storageGb: number;
+    secretKey?: string;
+  }) {
+    const project = input.projectId
+      ? await prisma.project.findUnique({
+          where: { id: input.projectId },
+          select: { id: true, organizationId: true, activeDeploymentId: true },
+        })
+      : null;
+    if (input.projectId && project?.organizationId !== input.organizationId) {
+      throw new SelfHostedDatabaseError('Project not found', 404);
+    }
+
+    const slug = input.slug ?? toDatabaseSlug(input.name);
+    if (!DATABASE_SLUG_PATTERN.test(slug)) {
+      throw new SelfHostedDatabaseError(
+        'Slug must be 2-40 lowercase letters, digits or dashes, starting with a letter.',
+        400,
+      );
+    }
+    this.assertMinimumMemory(input.engine, input.memoryMb);
+    await this.assertSlugAvailable(input.organizationId, slug);
+
+    try {
+      await this.policy.assertCanAllocateDatabase(input.organizationId, {
+        ramMb: input.memoryMb,
+        cpuMillicores: input.cpuMillicores,
+      });
+    } catch (error) {
+      throw new SelfHostedDatabaseError((error as Error).message, 409);
+    }
+    await this.assertWithinStorageQuota(input.organizationId, input.storageGb);
+    const server = await this.resolvePlacementServer(project, input);
+
+    const credentials = defaultDatabaseCredentials(
+      input.engine,
+      slug,
+      randomBytes(24).toString('hex'),
+    );
+    const hostname = databaseInternalHostname(slug);
+    const connectionUrl = databaseConnectionUrl(input.engine, hostname, credentials);
+    const secretKey = input.secretKey ?? defaultDatabaseSecretKey(input.engine);
+    const password = await encryptSecret(credentials.password, input.organizationId);
+    const encrypted = project ? await encryptSecret(connectionUrl, input.organizationId) : null;
+
+    let result;
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        const reserved = await tx.$executeRaw`
+          UPDATE "servers"
+          SET
+            "reservedRamMb" = "reservedRamMb" + ${input.memoryMb},
+            "reservedCpuMillicores" = "reservedCpuMillicores" + ${input.cpuMillicores}
+          WHERE "id" = ${server.id}
+            AND "status" = ${ServerStatus.healthy}::"ServerStatus"
+            AND "reservedRamMb" + ${input.memoryMb} <= "totalRamMb"
+            AND "reservedCpuMillicores" + ${input.cpuMillicores} <= "totalCpuMillicores"
+        `;
+        if (Number(reserved) !== 1) {
+          throw new SelfHostedDatabaseError(
+            `Server ${server.name} no longer has capacity for this database; try again.`,
+            503,
+          );
+        }
+
+        const created = await tx.managedDatabase.create({
+          data: {
+            organizationId: input.organizationId,
+            projectId: project?.id ?? null,
+            createdById: input.actorUserId,
+            provider: 'self_hosted',
+            status: 'provisioning',
+            name: input.name,
+            regionId: server.region,
+            databaseName: credentials.databaseName,
+            roleName: credentials.username,
+            secretKey,
+            engine: input.engine,
+            slug,
+            serverId: server.id,
+            memoryMb: input.memoryMb,
+            cpuMillicores: input.cpuMillicores,
+            storageGb: input.storageGb,
+            encryptedPassword: password.encryptedValue,
+            passwordIv: password.iv,
+            passwordAuthTag: password.authTag,
+            passwordKeyId: password.keyId,
+          },
+          select: { id: true },
+        });
+        const dockerNames = selfHostedDatabaseDockerNames(created.id);
+        const database = await tx.managedDatabase.update({
+          where: { id: created.id },
+          data: {
+            dockerContainerName: dockerNames.containerName,
+            dockerVolumeName: dockerNames.volumeName,
+          },
+          select: managedDatabaseSelect,
+        });
+
+        // Linked into the shared layer; a preview-scoped key of the same name overrides it.
+        const linked =
+          project && encrypted
+            ? await writeSecretVersion(
+                tx,
+                { projectId: project.id, scope: 'shared', branch: '', key: secretKey },
+                { valueType: 'literal', ...encrypted },
+                input.actorUserId,
+              )
+            : null;
+        return { database, secret: linked?.secret ?? null };
+      });
+    } catch (error) {
+      if (getPrismaErrorCode(error) === 'P2002') {
+        throw new SelfHostedDatabaseError(`${hostname} is already taken in this organization`, 409);
+      }
+      throw error;
+    }
+
+    const { database } = result;
+    await this.enqueueOrFail(
+      database.id,
+      { action: 'create', databaseId: database.id, password: credentials.password },
+      // The engine never saw the database: return the capacity and drop it with its secret.
+      async () => {
+        await prisma.$transaction([
+          prisma.server.update({
+            where: { id: server.id },
+            data: {
+              reservedRamMb: { decrement: input.memoryMb },
+              reservedCpuMillicores: { decrement: input.cpuMillicores },
+            },
+          }),
+          prisma.managedDatabase.delete({ where: { id: database.id } }),
+        ]);
+        if (project) {
+          await this.removeLinkedSecret(
+            { projectId: project.id, secretKey, slug, organizationId: input.organizationId },
+            input.actorUserId,
+          );
+        }
+      },
+    );
+
+    return {
+      ...result,
+      server,
+      hostname,
+      connectionUrl: project ? null : connectionUrl,
+    };
+  }
+
+  /**
+   * Changes memory, CPU and storage. Storage only grows: the engine enlarges
+   * fixed-size volumes but cannot shrink a filesystem with data on it.
+   */
+  async resize(
+    databaseId: string,
+    requested: { memoryMb?: number; cpuMillicores?: number; storageGb?: number },
+  ) {
+    const database = await this.loadSelfHosted(databaseId);
+    if (database.status !== 'ready') {
+      throw new SelfHostedDatabaseError(
+        `Database is ${database.status}; resize it once it is ready`,
+        409,
+      );
+    }
+
+    const memoryMb = requested.memoryMb ?? database.memoryMb!;
+    const cpuMillicores = requested.cpuMillicores ?? database.cpuMillicores!;
+    const storageGb = requested.storageGb ?? database.storageGb!;
+    if (storageGb < database.storageGb!) {
+      throw new SelfHostedDatabaseError(
+        `Storage cannot shrink below the current ${database.storageGb}GB.`,
+        400,
+      );
+    }
+    this.assertMinimumMemory(database.engine as SelfHostedDatabaseEngine, memoryMb);
+
+    try {
+      await this.policy.assertCanAllocateDatabase(
+        database.organizationId,
+        { ramMb: memoryMb, cpuMillicores },
+        database.id,
+      );
+    } catch (error) {
+      throw new SelfHostedDatabaseError((error as Error).message, 409);
+    }
+    await this.assertWithinStorageQuota(database.organizationId, storageGb, database.storageGb!);
+
+    const ramDelta = memoryMb - database.memoryMb!;
+    const cpuDelta = cpuMillicores - database.cpuMillicores!;
+    const updated = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.managedDatabase.updateMany({
+        where: { id: database.id, status: 'ready' },
+        data: { status: 'resizing', errorMessage: null, memoryMb, cpuMillicores, storageGb },
+      });
+      if (claimed.count === 0) {
+        throw new SelfHostedDatabaseError('Database is busy; try again once it is ready', 409);
+      }
+
+      const reserved = await tx.$executeRaw`
+        UPDATE "servers"
+        SET
+          "reservedRamMb" = "reservedRamMb" + ${ramDelta},
+          "reservedCpuMillicores" = "reservedCpuMillicores" + ${cpuDelta}
+        WHERE "id" = ${database.serverId}
+          AND "reservedRamMb" + ${ramDelta} <= "totalRamMb"
+          AND "reservedCpuMillicores" + ${cpuDelta} <= "totalCpuMillicores"
+      `;
+      if (Number(reserved) !== 1) {
+        throw new SelfHostedDatabaseError(
+          "The database's server has no free capacity for this size.",
+          409,
+        );
+      }
+
+      return tx.managedDatabase.findUniqueOrThrow({
+        where: { id: database.id },
+        select: managedDatabaseSelect,
+      });
+    });
+
+    await this.enqueueOrFail(
+      database.id,
+      { action: 'resize', databaseId: database.id },
+      // Nothing changed on the host: give back the extra capacity and keep the old size.
+      () =>
+        prisma.$transaction([
+          prisma.server.update({
+            where: { id: database.serverId! },
+            data: {
+              reservedRamMb: { decrement: ramDelta },
+              reservedCpuMillicores: { decrement: cpuDelta },
+            },
+          }),
+          prisma.managedDatabase.updateMany({
+            where: { id: database.id, status: 'resizing' },
+            data: {
+              status: 'ready',
+              memoryMb: database.memoryMb,
+              cpuMillicores: database.cpuMillicores,
+              storageGb: database.storageGb,
+            },
+          }),
+        ]),
+    );
+    return { database: updated, previous: database };
+  }
+
+  async restart(databaseId: string) {
+    const database = await this.loadSelfHosted(databaseId);
+    const password = await this.loadPassword(database.id);
+    const claimed = await prisma.managedDatabase.updateMany({
+      where: { id: database.id, status: { in: RESTARTABLE_STATUSES } },
+      data: { status: 'restarting', errorMessage: null },
+    });
+    if (claimed.count === 0) {
+      throw new SelfHostedDatabaseError(
+        `Database is ${database.status}; restart it once it is ready`,
+        409,
+      );
+    }
+
+    await this.enqueueOrFail(database.id, {
+      action: 'restart',
+      databaseId: database.id,
+      password,
+    });
+    return database;
+  }
+
+  /**
+   * Removes the container, its volume and data. The engine releases the
+   * server capacity and deletes the record once the container is gone. The
+   * linked project's secret is deleted too while it still points here.
+   */
+  async delete(databaseId: string, actorUserId?: string) {
+    const database = await this.loadSelfHosted(databaseId);
+    // A delete the engine could not finish keeps its error and may be retried.
+    const claimed = await prisma.managedDatabase.updateMany({
+      where: {
+        id: database.id,
+        OR: [{ status: { not: 'deleting' } }, { errorMessage: { not: null } }],
+      },
+      data: { status: 'deleting', errorMessage: null },
+    });
+    if (claimed.count === 0) {
+      throw new SelfHostedDatabaseError('Database is already being deleted', 409);
+    }
+
+    const secretRemoved = database.projectId
+      ? await this.removeLinkedSecret(
+          { ...database, projectId: database.projectId, slug: database.slug! },
+          actorUserId,
+        )
+      : false;
+
+    await this.queue.enqueueDatabaseAction({ action: 'delete', databaseId: database.id });
+    return { database, secretRemoved };
+  }
+
+  private async loadSelfHosted(databaseId: string) {
+    const database = await prisma.managedDatabase.findUnique({
+      where: { id: databaseId },
+      select: managedDatabaseSelect,
+    });
+    if (!database) {
+      throw new SelfHostedDatabaseError('Database not found', 404);
+    }
+    if (database.provider !== 'self_hosted') {
+      throw new SelfHostedDatabaseError(
+        'Only databases running on Apployd servers can be resized, restarted or deleted here.',
+        400,
+      );
+    }
+    return database;
+  }
+
+  /** The engine needs the password to recreate a container that is missing. */
+  private async loadPassword(databaseId: string): Promise<string> {
+    const stored = await prisma.managedDatabase.findUniqueOrThrow({
+      where: { id: databaseId },
+      select: {
+        encryptedPassword: true,
+        passwordIv: true,
+        passwordAuthTag: true,
+        passwordKeyId: true,
+      },
+    });
+    if (!stored.encryptedPassword || !stored.passwordIv || !stored.passwordAuthTag) {
+      throw new SelfHostedDatabaseError(
+        'Database has no stored password; delete and create it again.',
+        409,
+      );
+    }
+    return decryptSecret({
+      encryptedValue: stored.encryptedPassword,
+      iv: stored.passwordIv,
+      authTag: stored.passwordAuthTag,
+      keyId: stored.passwordKeyId,
+    });
+  }
+
+  private assertMinimumMemory(engine: SelfHostedDatabaseEngine, memoryMb: number): void {
+    const minimum = minimumDatabaseMemoryMb(engine);
+    if (memoryMb < minimum) {
+      throw new SelfHostedDatabaseError(`${engine} needs at least ${minimum}MB of memory.`, 400);
+    }
+  }
+
+  /** Project names answer on the same network, so a database may not take one. */
+  private async assertSlugAvailable(organizationId: string, slug: string): Promise<void> {
+    const [project, database] = await Promise.all([
+      prisma.project.findFirst({ where: { organizationId, slug }, select: { id: true } }),
+      prisma.managedDatabase.findFirst({ where: { organizationId, slug }, select: { id: true } }),
+    ]);
+    if (project || database) {
+      throw new SelfHostedDatabaseError(
+        `${databaseInternalHostname(slug)} is already taken in this organization`,
+        409,
+      );
+    }
+  }
+
+  private async assertWithinStorageQuota(
+    organizationId: string,
+    requestedGb: number,
+    currentVolumeGb?: number,
+  ): Promise<void> {
+    const subscription = await prisma.subscription.findFirst({
+      where: {
+        organizationId,
+        status: { in: [SubscriptionStatus.active, SubscriptionStatus.trialing] },
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { plan: { select: { includedVolumeStorageGb: true } } },
+    });
+    if (!subscription) {
+      throw new SelfHostedDatabaseError('No active subscription found for organization.', 402);
+    }
+
+    const [volumes, databases] = await Promise.all([
+      prisma.projectVolume.aggregate({
+        where: { project: { organizationId } },
+        _sum: { sizeGb: true },
+      }),
+      prisma.managedDatabase.aggregate({
+        where: { organizationId, provider: 'self_hosted' },
+        _sum: { storageGb: true },
+      }),
+    ]);
+
+    try {
+      validateVolumeQuota({
+        includedGb: subscription.plan.includedVolumeStorageGb,
+        allocatedGb: (volumes._sum.sizeGb ?? 0) + (databases._sum.storageGb ?? 0),
+        ...(currentVolumeGb !== undefined && { currentVolumeGb }),
+        requestedGb,
+      });
+    } catch (error) {
+      throw new SelfHostedDatabaseError((error as Error).message, 409);
+    }
+  }
+
+  /**
+   * Organization networks are per server, so a database linked to a project
+   * goes where the project's production deployments are pinned (its volumes
+   * or other databases) or else run; other databases go where the
+   * organization already runs, if it has room.
+   */
+  private async resolvePlacementServer(
+    project: { id: string; activeDeploymentId: string | null } | null,
+    requested: { organizationId: string; memoryMb: number; cpuMillicores: number },
+  ): Promise<Server> {
+    const pinnedServerId = project
+      ? ((
+          await prisma.projectVolume.findFirst({
+            where: { projectId: project.id },
+            select: { serverId: true },
+          })
+        )?.serverId ??
+        (
+          await prisma.managedDatabase.findFirst({
+            where: { projectId: project.id, provider: 'self_hosted' },
+            select: { serverId: true },
+          })
+        )?.serverId ??
+        (project.activeDeploymentId
+          ? (
+              await prisma.deployment.findUnique({
+                where: { id: project.activeDeploymentId },
+                select: { serverId: true },
+              })
+            )?.serverId
+          : null))
+      : null;
+
+    if (pinnedServerId) {
+      const server = await prisma.server.findUnique({ where: { id: pinnedServerId } });
+      if (!server || server.status !== ServerStatus.healthy) {
+        throw new SelfHostedDatabaseError(
+          "The project's server is not healthy; databases can only be created on a healthy server.",
+          409,
+        );
+      }
+      return server;
+    }
+
+    try {
+      return await this.scheduler.schedule({
+        ramMb: requested.memoryMb,
+        cpuMillicores: requested.cpuMillicores,
+        bandwidthGb: 0,
+        region: env.DEFAULT_REGION,
+        organizationId: requested.organizationId,
+      });
+    } catch (error) {
+      if (error instanceof ServerSchedulingError) {
+        throw new SelfHostedDatabaseError(
+          `No server can host this database: ${error.message}`,
+          503,
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async removeLinkedSecret(
+    database: { projectId: string; secretKey: string; slug: string; organizationId: string },
+    actorUserId?: string,
+  ): Promise<boolean> {
+    const location = {
+      projectId: database.projectId,
+      scope: 'shared' as const,
+      branch: '',
+      key: database.secretKey,
+    };
+    const secret = await prisma.projectSecret.findUnique({
+      where: { projectId_scope_branch_key: location },
+      select: { encryptedValue: true, iv: true, authTag: true, keyId: true, valueType: true },
+    });
+    if (!secret || secret.valueType !== 'literal') {
+      return false;
+    }
+    const value = await decryptSecret(secret);
+    if (!value.includes(`@${databaseInternalHostname(database.slug)}:`)) {
+      return false;
+    }
+
+    await prisma.$transaction((tx) => writeSecretVersion(tx, location, null, actorUserId));
+    return true;
+  }
+
+  /**
+   * Queues the action for the engine. When that fails, `rollBack` undoes what
+   * the request reserved or changed; without one the database is left failed
+   * with the queue error. The queue error is rethrown either way.
+   */
+  private async enqueueOrFail(
+    databaseId: string,
+    payload: DatabaseActionQueueJob,
+    rollBack?: () => Promise<unknown>,
+  ): Promise<void> {
+    try {
+      await this.queue.enqueueDatabaseAction(payload);
+    } catch (error) {
+      if (rollBack) {
+        await rollBack().catch((rollBackError) =>
+          console.error('Failed to roll back unqueued database action', databaseId, rollBackError),
+        );
+      } else {
+        await prisma.managedDatabase.update({
+          where: { id: databaseId },
+          data: {
+            status: 'failed',
+            errorMessage: `Failed to queue database action: ${(error as Error).message}`,
+          },
+        });
+      }
+      throw error;
+    }
+  }
+}
@@ -7,8 +7,15 @@ interface CapacityRequest {
   cpuMillicores: number;
   bandwidthGb: number;
   region?: string;
+  /**
+   * Organization networks are bridges on one Docker host, so servers already
+   * running the organization's containers or databases are tried first.
+   */
+  organizationId?: string;
 }
 
+const LIVE_CONTAINER_STATUSES = ['pending', 'running', 'sleeping'] as const;
+
 type SchedulerErrorReason = 'no_healthy_servers' | 'insufficient_capacity';
 
 interface SchedulerDiagnostics {
@@ -86,6 +93,17 @@ export class ServerSchedulerService {
       );
     }
 
+    if (request.organizationId) {
+      const organizationServerIds = await this.findOrganizationServerIds(request.organizationId);
+      const colocatedCandidate = this.pickCandidate(
+        healthyServers.filter((server) => organizationServerIds.includes(server.id)),
+        request,
+      );
+      if (colocatedCandidate) {
+        return colocatedCandidate.server;
+      }
+    }
+
     const preferredCandidate = this.pickCandidate(preferredRegionServers, request);
     if (preferredCandidate) {
       return preferredCandidate.server;
@@ -105,6 +123,38 @@ export class ServerSchedulerService {
     );
   }
 
+  /** Servers running live containers or self-hosted databases of the organization. */
+  async findOrganizationServerIds(
+    organizationId: string,
+    options: { excludeProjectId?: string } = {},
+  ): Promise<string[]> {
+    const [containers, databases] = await Promise.all([
+      prisma.container.findMany({
+        where: {
+          status: { in: [...LIVE_CONTAINER_STATUSES] },
+          project: {
+            organizationId,
+            ...(options.excludeProjectId && { id: { not: options.excludeProjectId } }),
+          },
+        },
+        select: { serverId: true },
+        distinct: ['serverId'],
+      }),
+      prisma.managedDatabase.findMany({
+        where: { organizationId, provider: 'self_hosted', serverId: { not: null } },
+        select: { serverId: true },
+        distinct: ['serverId'],
+      }),
+    ]);
+
+    return [
+      ...new Set([
+        ...containers.map((container) => container.serverId),
+        ...databases.flatMap((database) => (database.serverId ? [database.serverId] : [])),
+      ]),
+    ];
+  }
+
   private availableCapacity(server: Server): {
     ramMb: number;
     cpuMillicores: number;
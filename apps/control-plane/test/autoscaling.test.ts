@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  type AutoscalePolicy,
+  type AutoscaleState,
+  decideScaling,
+  recommendReplicas,
+} from '../src/domain/autoscaling.js';
+
+const policy: AutoscalePolicy = {
+  minReplicas: 1,
+  maxReplicas: 6,
+  targetCpuPercent: 70,
+  targetMemoryPercent: null,
+  targetRequestsPerMinute: 600,
+  scaleUpCooldownSeconds: 120,
+  scaleDownCooldownSeconds: 300,
+  stabilizationSeconds: 300,
+};
+
+const now = new Date('2026-05-01T12:00:00.000Z');
+const secondsAgo = (seconds: number) => new Date(now.getTime() - seconds * 1000);
+
+const state = (overrides: Partial<AutoscaleState> = {}): AutoscaleState => ({
+  currentReplicas: 2,
+  lastScaledAt: null,
+  scaleDownSince: null,
+  scaleDownReplicas: null,
+  ...overrides,
+});
+
+describe('recommendReplicas', () => {
+  it('scales by the highest usage-to-target ratio and clamps to the bounds', () => {
+    expect(
+      recommendReplicas(policy, 2, {
+        cpuPercent: 35,
+        memoryPercent: null,
+        requestsPerMinute: 1200,
+      }),
+    ).toMatchObject({ replicas: 4, signal: 'requests' });
+
+    expect(
+      recommendReplicas(policy, 4, { cpuPercent: 280, memoryPercent: null, requestsPerMinute: 0 }),
+    ).toMatchObject({ replicas: 6, signal: 'cpu' });
+  });
+
+  it('keeps the current count inside the tolerance band and without samples', () => {
+    expect(
+      recommendReplicas(policy, 3, {
+        cpuPercent: 74,
+        memoryPercent: null,
+        requestsPerMinute: null,
+      }),
+    ).toMatchObject({ replicas: 3 });
+    expect(
+      recommendReplicas(policy, 3, {
+        cpuPercent: null,
+        memoryPercent: 90,
+        requestsPerMinute: null,
+      }),
+    ).toEqual({ replicas: 3, signal: null, ratio: null });
+  });
+});
+
+describe('decideScaling', () => {
+  const busy = { cpuPercent: 140, memoryPercent: null, requestsPerMinute: null };
+  const idle = { cpuPercent: 10, memoryPercent: null, requestsPerMinute: 30 };
+
+  it('scales up once the scale-up cooldown has passed', () => {
+    expect(decideScaling(policy, state({ lastScaledAt: secondsAgo(60) }), busy, now)).toMatchObject(
+      {
+        action: 'hold',
+      },
+    );
+    expect(
+      decideScaling(policy, state({ lastScaledAt: secondsAgo(180) }), busy, now),
+    ).toMatchObject({ action: 'scale', from: 2, to: 4, signal: 'cpu' });
+  });
+
+  it('starts the stabilization window instead of scaling down immediately', () => {
+    const decision = decideScaling(policy, state({ currentReplicas: 4 }), idle, now);
+    expect(decision).toMatchObject({
+      action: 'hold',
+      recommended: 1,
+      scaleDownSince: now,
+      scaleDownReplicas: 1,
+    });
+  });
+
+  it('scales down to the highest recommendation seen during stabilization', () => {
+    const decision = decideScaling(
+      policy,
+      state({
+        currentReplicas: 4,
+        lastScaledAt: secondsAgo(900),
+        scaleDownSince: secondsAgo(320),
+        scaleDownReplicas: 2,
+      }),
+      idle,
+      now,
+    );
+    expect(decision).toMatchObject({ action: 'scale', from: 4, to: 2 });
+  });
+
+  it('resets scale-down tracking when load returns to target', () => {
+    const decision = decideScaling(
+      policy,
+      state({ currentReplicas: 2, scaleDownSince: secondsAgo(200), scaleDownReplicas: 1 }),
+      { cpuPercent: 70, memoryPercent: null, requestsPerMinute: null },
+      now,
+    );
+    expect(decision).toMatchObject({
+      action: 'hold',
+      scaleDownSince: null,
+      scaleDownReplicas: null,
+    });
+  });
+
+  it('moves a count outside the bounds back into range right away', () => {
+    expect(
+      decideScaling({ ...policy, minReplicas: 3 }, state({ lastScaledAt: now }), idle, now),
+    ).toMatchObject({ action: 'scale', from: 2, to: 3, signal: 'bounds' });
+  });
+});
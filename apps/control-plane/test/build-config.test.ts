@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  BuildConfigParseError,
+  listBuildConfigKeys,
+  parseBuildConfigFile,
+} from '../src/lib/build-config.js';
+
+describe('parseBuildConfigFile', () => {
+  it('parses apployd.json build settings', () => {
+    const config = parseBuildConfigFile(
+      'apployd.json',
+      JSON.stringify({
+        $schema: 'https://apployd.com/schema/apployd.json',
+        buildCommand: 'npm run build',
+        startCommand: 'node dist/server.js',
+        port: 8080,
+        serviceType: 'web_service',
+      }),
+    );
+
+    expect(config).toEqual({
+      buildCommand: 'npm run build',
+      startCommand: 'node dist/server.js',
+      port: 8080,
+      serviceType: 'web_service',
+    });
+    expect(listBuildConfigKeys(config)).toEqual([
+      'buildCommand',
+      'startCommand',
+      'port',
+      'serviceType',
+    ]);
+  });
+
+  it('parses flat apployd.toml with snake_case keys and comments', () => {
+    const config = parseBuildConfigFile(
+      'apployd.toml',
+      [
+        '# Apployd build settings',
+        'install_command = "pnpm install --frozen-lockfile"',
+        "root_directory = 'apps/web' # monorepo app",
+        'port = 3_000',
+        'service_type = "static_site"',
+        'output_directory = "dist"',
+      ].join('\n'),
+    );
+
+    expect(config).toEqual({
+      installCommand: 'pnpm install --frozen-lockfile',
+      rootDirectory: 'apps/web',
+      port: 3000,
+      serviceType: 'static_site',
+      outputDirectory: 'dist',
+    });
+  });
+
+  it('parses Dockerfile build settings', () => {
+    const config = parseBuildConfigFile(
+      'apployd.toml',
+      [
+        'service_type = "dockerfile"',
+        'dockerfile_path = "docker/Dockerfile.prod"',
+        'docker_target = "runtime"',
+      ].join('\n'),
+    );
+
+    expect(config).toEqual({
+      serviceType: 'dockerfile',
+      dockerfilePath: 'docker/Dockerfile.prod',
+      dockerTarget: 'runtime',
+    });
+    expect(() =>
+      parseBuildConfigFile('apployd.json', JSON.stringify({ dockerTarget: '--target=evil' })),
+    ).toThrowError(/dockerTarget must be a dockerfile stage name/);
+  });
+
+  it('parses the release command', () => {
+    const config = parseBuildConfigFile(
+      'apployd.toml',
+      'release_command = "npx prisma migrate deploy"',
+    );
+
+    expect(config).toEqual({ releaseCommand: 'npx prisma migrate deploy' });
+    expect(listBuildConfigKeys(config)).toEqual(['releaseCommand']);
+  });
+
+  it('rejects unknown keys and invalid values with a readable message', () => {
+    expect(() =>
+      parseBuildConfigFile('apployd.json', JSON.stringify({ buildCmd: 'npm run build' })),
+    ).toThrowError(/unknown key\(s\) "buildCmd"/);
+
+    expect(() =>
+      parseBuildConfigFile('apployd.json', JSON.stringify({ port: 70000 })),
+    ).toThrowError(BuildConfigParseError);
+  });
+
+  it('rejects root directories that escape the repository', () => {
+    expect(() =>
+      parseBuildConfigFile('apployd.toml', 'root_directory = "../other-repo"'),
+    ).toThrowError(/relative path inside the repository/);
+  });
+
+  it('rejects malformed files', () => {
+    expect(() => parseBuildConfigFile('apployd.json', '{ "port": ')).toThrowError(/Invalid JSON/);
+    expect(() => parseBuildConfigFile('apployd.toml', '[build]\ncommand = "x"')).toThrowError(
+      /Tables are not supported/,
+    );
+    expect(() => parseBuildConfigFile('apployd.toml', 'port = 80\nport = 81')).toThrowError(
+      /Duplicate key/,
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  nextCronOccurrence,
+  parseCronSchedule,
+  resolveNextCronRun,
+} from '../src/lib/cron-schedule.js';
+
+const at = (iso: string) => new Date(iso);
+
+describe('parseCronSchedule', () => {
+  it('rejects malformed expressions', () => {
+    expect(parseCronSchedule('* * * *')).toBeNull();
+    expect(parseCronSchedule('60 * * * *')).toBeNull();
+    expect(parseCronSchedule('*/0 * * * *')).toBeNull();
+    expect(parseCronSchedule('5-1 * * * *')).toBeNull();
+    expect(parseCronSchedule('@often')).toBeNull();
+  });
+
+  it('accepts macros, names, and Sunday as 7', () => {
+    expect(parseCronSchedule('@daily')).toEqual(parseCronSchedule('0 0 * * *'));
+    expect(parseCronSchedule('0 9 * jan-mar MON-fri')).not.toBeNull();
+    expect(parseCronSchedule('0 0 * * 7')).toEqual(parseCronSchedule('0 0 * * 0'));
+  });
+});
+
+describe('nextCronOccurrence', () => {
+  it('returns the next matching minute strictly after the given time', () => {
+    expect(resolveNextCronRun('*/15 * * * *', at('2026-04-23T10:15:00Z'))).toEqual(
+      at('2026-04-23T10:30:00Z'),
+    );
+    expect(resolveNextCronRun('30 2 * * *', at('2026-04-23T10:15:42Z'))).toEqual(
+      at('2026-04-24T02:30:00Z'),
+    );
+  });
+
+  it('rolls over months and skips days that do not exist', () => {
+    expect(resolveNextCronRun('0 0 31 * *', at('2026-04-01T00:00:00Z'))).toEqual(
+      at('2026-05-31T00:00:00Z'),
+    );
+    expect(resolveNextCronRun('@yearly', at('2026-04-23T00:00:00Z'))).toEqual(
+      at('2027-01-01T00:00:00Z'),
+    );
+  });
+
+  it('matches either day-of-month or day-of-week when both are restricted', () => {
+    // 2026-04-23 is a Thursday; the next Monday is the 27th, before the 1st.
+    expect(resolveNextCronRun('0 12 1 * 1', at('2026-04-23T00:00:00Z'))).toEqual(
+      at('2026-04-27T12:00:00Z'),
+    );
+  });
+
+  it('returns null for schedules that never fire', () => {
+    const schedule = parseCronSchedule('0 0 30 2 *');
+    expect(schedule).not.toBeNull();
+    expect(nextCronOccurrence(schedule!, at('2026-04-23T00:00:00Z'))).toBeNull();
+    expect(resolveNextCronRun('not a schedule', new Date())).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildMasterKeyRing,
+  generateDataKey,
+  generateKeyMaterial,
+  openWithKey,
+  parseMasterKeys,
+  sealWithKey,
+} from '../src/lib/envelope-encryption.js';
+
+describe('sealWithKey', () => {
+  it('opens what it sealed, with a fresh IV each time', () => {
+    const key = generateDataKey();
+    const first = sealWithKey(key, Buffer.from('postgres://user:pass@db/app'));
+    const second = sealWithKey(key, Buffer.from('postgres://user:pass@db/app'));
+
+    expect(first.iv).not.toBe(second.iv);
+    expect(openWithKey(key, first).toString()).toBe('postgres://user:pass@db/app');
+  });
+
+  it('rejects another key or a tampered ciphertext', () => {
+    const key = generateDataKey();
+    const sealed = sealWithKey(key, Buffer.from('secret'));
+    const tampered = Buffer.from(sealed.ciphertext, 'base64');
+    tampered[0] = tampered[0]! ^ 1;
+
+    expect(() => openWithKey(generateDataKey(), sealed)).toThrow();
+    expect(() =>
+      openWithKey(key, { ...sealed, ciphertext: tampered.toString('base64') }),
+    ).toThrow();
+  });
+
+  it('wraps a data key under a master key', () => {
+    const master = Buffer.from(generateKeyMaterial(), 'hex');
+    const dataKey = generateDataKey();
+
+    expect(openWithKey(master, sealWithKey(master, dataKey)).equals(dataKey)).toBe(true);
+  });
+});
+
+describe('parseMasterKeys', () => {
+  it('reads versioned hex keys', () => {
+    const one = generateKeyMaterial();
+    const two = generateKeyMaterial();
+    const keys = parseMasterKeys(` 1:${one}, 2:${two} `);
+
+    expect([...keys.keys()]).toEqual([1, 2]);
+    expect(keys.get(2)!.toString('hex')).toBe(two);
+  });
+
+  it('rejects malformed, repeated and empty lists', () => {
+    const key = generateKeyMaterial();
+    expect(() => parseMasterKeys(`1:${key.slice(2)}`)).toThrow('<version>:<64 hex characters>');
+    expect(() => parseMasterKeys(`1:${key},1:${key}`)).toThrow('repeated version 1');
+    expect(() => parseMasterKeys(`0:${key}`)).toThrow('invalid or repeated version 0');
+    expect(() => parseMasterKeys(' , ')).toThrow('lists no keys');
+  });
+});
+
+describe('buildMasterKeyRing', () => {
+  it('keeps the legacy key as version 1 next to the listed ones', () => {
+    const legacy = Buffer.alloc(32, 7);
+    const two = generateKeyMaterial();
+    const keys = buildMasterKeyRing(legacy, `2:${two}`);
+
+    expect([...keys.keys()]).toEqual([1, 2]);
+    expect(keys.get(1)!.equals(legacy)).toBe(true);
+    expect([...buildMasterKeyRing(legacy, undefined).keys()]).toEqual([1]);
+  });
+
+  it('refuses a list that redefines version 1', () => {
+    const legacy = Buffer.alloc(32, 7);
+    expect(() =>
+      buildMasterKeyRing(legacy, `1:${generateKeyMaterial()},2:${generateKeyMaterial()}`),
+    ).toThrow('may not define version 1');
+  });
+});
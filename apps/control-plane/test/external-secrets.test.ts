@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  ExternalSecretResolver,
+  parseSecretReference,
+  SecretReferenceError,
+  VaultKvProvider,
+  type ExternalSecretProvider,
+} from '../src/lib/external-secrets.js';
+
+const fakeProvider = (data: Record<string, Record<string, unknown>>) => {
+  const read = vi.fn(async (path: string) => {
+    const record = data[path];
+    if (!record) {
+      throw new SecretReferenceError(`Vault has no secret at ${path}`);
+    }
+    return record;
+  });
+  const provider: ExternalSecretProvider = {
+    scheme: 'vault',
+    validatePath: () => null,
+    read,
+  };
+  return { provider, read };
+};
+
+describe('parseSecretReference', () => {
+  it('splits scheme, path, field and version', () => {
+    expect(parseSecretReference('vault://kv/data/app?version=3#DB_PASSWORD')).toEqual({
+      raw: 'vault://kv/data/app?version=3#DB_PASSWORD',
+      scheme: 'vault',
+      path: 'kv/data/app',
+      field: 'DB_PASSWORD',
+      version: 3,
+    });
+  });
+
+  it('rejects values without a field or with path traversal', () => {
+    expect(() => parseSecretReference('vault://kv/data/app')).toThrow(SecretReferenceError);
+    expect(() => parseSecretReference('vault://kv/data/../app#KEY')).toThrow('has an invalid path');
+  });
+});
+
+describe('ExternalSecretResolver', () => {
+  it('reads each path once and picks fields from it', async () => {
+    const { provider, read } = fakeProvider({
+      'kv/data/app': { DB_PASSWORD: 'hunter2', PORT: 5432 },
+    });
+    const resolver = new ExternalSecretResolver([provider]);
+
+    await expect(
+      resolver.resolveAll([
+        { key: 'DATABASE_PASSWORD', reference: 'vault://kv/data/app#DB_PASSWORD' },
+        { key: 'DATABASE_PORT', reference: 'vault://kv/data/app#PORT' },
+      ]),
+    ).resolves.toEqual({ DATABASE_PASSWORD: 'hunter2', DATABASE_PORT: '5432' });
+    expect(read).toHaveBeenCalledTimes(1);
+  });
+
+  it('names every reference that does not resolve', async () => {
+    const { provider } = fakeProvider({ 'kv/data/app': { DB_PASSWORD: 'hunter2' } });
+    const resolver = new ExternalSecretResolver([provider]);
+
+    await expect(
+      resolver.resolveAll([
+        { key: 'A', reference: 'vault://kv/data/app#MISSING' },
+        { key: 'B', reference: 'vault://kv/data/other#KEY' },
+      ]),
+    ).rejects.toThrow(
+      '2 secret references did not resolve: A (vault://kv/data/app#MISSING): kv/data/app has no field MISSING; B (vault://kv/data/other#KEY): Vault has no secret at kv/data/other',
+    );
+  });
+
+  it('rejects schemes without a configured provider', () => {
+    expect(() => new ExternalSecretResolver([]).validate('vault://kv/data/app#KEY')).toThrow(
+      'No vault:// secret store is configured',
+    );
+  });
+});
+
+describe('VaultKvProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const provider = new VaultKvProvider({
+    address: 'http://vault.test:8200/',
+    token: 'dev-token',
+    namespace: 'team-a',
+  });
+
+  it('only accepts KV v2 data paths', () => {
+    expect(provider.validatePath('kv/data/app')).toBeNull();
+    expect(provider.validatePath('kv/app')).toMatch(/<mount>\/data\/<path>/);
+  });
+
+  it('reads the data of a KV v2 secret', async () => {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({ data: { data: { KEY: 'value' }, metadata: { version: 2 } } }),
+        ),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(provider.read('kv/data/app', 2)).resolves.toEqual({ KEY: 'value' });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [URL, RequestInit];
+    expect(url.toString()).toBe('http://vault.test:8200/v1/kv/data/app?version=2');
+    expect(init.headers).toMatchObject({
+      'X-Vault-Token': 'dev-token',
+      'X-Vault-Namespace': 'team-a',
+    });
+  });
+
+  it('explains missing, forbidden and deleted secrets', async () => {
+    vi.stubGlobal('fetch', async () => new Response('{"errors":[]}', { status: 404 }));
+    await expect(provider.read('kv/data/app')).rejects.toThrow(
+      'Vault has no secret at kv/data/app',
+    );
+
+    vi.stubGlobal(
+      'fetch',
+      async () => new Response('{"errors":["permission denied"]}', { status: 403 }),
+    );
+    await expect(provider.read('kv/data/app')).rejects.toThrow("check the token's policy");
+
+    vi.stubGlobal('fetch', async () => new Response(JSON.stringify({ data: { data: null } })));
+    await expect(provider.read('kv/data/app')).rejects.toThrow('is deleted');
+  });
+});
+
+// Runs against a dev-mode Vault when one is available:
+//   vault server -dev -dev-root-token-id=root
+//   VAULT_DEV_ADDR=http://127.0.0.1:8200 VAULT_DEV_TOKEN=root npx vitest run test/external-secrets.test.ts
+const devVaultAddress = process.env.VAULT_DEV_ADDR;
+const devVaultToken = process.env.VAULT_DEV_TOKEN ?? 'root';
+
+describe.skipIf(!devVaultAddress)('VaultKvProvider against a dev-mode Vault', () => {
+  it('resolves a reference written to the default secret/ mount', async () => {
+    const path = `apployd-test-${Date.now()}`;
+    const write = await fetch(`${devVaultAddress}/v1/secret/data/${path}`, {
+      method: 'POST',
+      headers: { 'X-Vault-Token': devVaultToken, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ data: { DB_PASSWORD: 'from-vault' } }),
+    });
+    expect(write.ok).toBe(true);
+
+    const resolver = new ExternalSecretResolver([
+      new VaultKvProvider({ address: devVaultAddress!, token: devVaultToken }),
+    ]);
+    await expect(resolver.resolve(`vault://secret/data/${path}#DB_PASSWORD`)).resolves.toBe(
+      'from-vault',
+    );
+    await expect(
+      resolver.resolve(`vault://secret/data/${path}?version=9#DB_PASSWORD`),
+    ).rejects.toThrow(SecretReferenceError);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildRepoUrlCandidates,
+  normalizeGitLabBaseUrl,
+  parseRepoPathFromGitUrl,
+  resolveExternalRepoIdentity,
+  resolveGitCloneUsername,
+} from '../src/lib/git-providers.js';
+
+describe('parseRepoPathFromGitUrl', () => {
+  it('parses HTTPS and SSH clone URLs with nested GitLab namespaces', () => {
+    expect(parseRepoPathFromGitUrl('https://gitlab.example.com/group/sub/app.git')).toEqual({
+      host: 'gitlab.example.com',
+      fullName: 'group/sub/app',
+      owner: 'group/sub',
+      name: 'app',
+    });
+    expect(parseRepoPathFromGitUrl('git@bitbucket.org:team/api.git')).toEqual({
+      host: 'bitbucket.org',
+      fullName: 'team/api',
+      owner: 'team',
+      name: 'api',
+    });
+  });
+
+  it('rejects URLs without an owner and repository', () => {
+    expect(parseRepoPathFromGitUrl('https://gitlab.com/app')).toBeNull();
+    expect(parseRepoPathFromGitUrl('not a url')).toBeNull();
+  });
+});
+
+describe('buildRepoUrlCandidates', () => {
+  it('covers the HTTPS and SSH spellings a project may have been saved with', () => {
+    const candidates = buildRepoUrlCandidates({
+      host: 'gitlab.com',
+      fullName: 'group/app',
+      cloneUrls: ['https://gitlab.com/group/app.git'],
+    });
+
+    expect(candidates).toEqual(
+      expect.arrayContaining([
+        'https://gitlab.com/group/app.git',
+        'https://gitlab.com/group/app',
+        'git@gitlab.com:group/app.git',
+        'git@gitlab.com:group/app',
+      ]),
+    );
+    expect(new Set(candidates).size).toBe(candidates.length);
+  });
+});
+
+describe('normalizeGitLabBaseUrl', () => {
+  it('defaults to gitlab.com and strips trailing slashes and the API suffix', () => {
+    expect(normalizeGitLabBaseUrl(undefined)).toBe('https://gitlab.com');
+    expect(normalizeGitLabBaseUrl('https://git.example.com/api/v4/')).toBe(
+      'https://git.example.com',
+    );
+    expect(normalizeGitLabBaseUrl('https://example.com/gitlab/')).toBe(
+      'https://example.com/gitlab',
+    );
+  });
+
+  it('requires https', () => {
+    expect(() => normalizeGitLabBaseUrl('http://git.example.com')).toThrow(/https/);
+  });
+});
+
+describe('resolveGitCloneUsername', () => {
+  it('pairs tokens with the user name each provider expects', () => {
+    expect(resolveGitCloneUsername('github', 'octocat')).toBe('x-access-token');
+    expect(resolveGitCloneUsername('gitlab', 'dev')).toBe('oauth2');
+    expect(resolveGitCloneUsername('bitbucket', 'dev')).toBe('dev');
+  });
+});
+
+describe('resolveExternalRepoIdentity', () => {
+  it('keeps nested namespaces from the full name or URL', () => {
+    expect(resolveExternalRepoIdentity({ repoFullName: 'group/sub/app' })).toEqual({
+      owner: 'group/sub',
+      name: 'app',
+    });
+    expect(
+      resolveExternalRepoIdentity({ repoUrl: 'https://gitlab.com/group/sub/app.git' }),
+    ).toEqual({ owner: 'group/sub', name: 'app' });
+  });
+});
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { findManyMock, createDeploymentMock, deployGroupMock, verifyTokenMock } = vi.hoisted(() => ({
+  findManyMock: vi.fn(),
+  createDeploymentMock: vi.fn(),
+  deployGroupMock: vi.fn(),
+  verifyTokenMock: vi.fn(),
+}));
+
+vi.mock('../src/lib/prisma.js', () => ({
+  prisma: {
+    project: { findMany: findManyMock },
+    logEntry: { create: vi.fn() },
+  },
+}));
+
+vi.mock('../src/lib/redis.js', () => ({
+  redis: { set: vi.fn().mockResolvedValue('OK') },
+}));
+
+vi.mock('../src/services/deployment-request-service.js', () => ({
+  DeploymentRequestError: class extends Error {},
+  DeploymentRequestService: class {
+    create = createDeploymentMock;
+  },
+}));
+
+vi.mock('../src/services/project-group-deployment-service.js', () => ({
+  ProjectGroupDeploymentService: class {
+    deploy = deployGroupMock;
+  },
+}));
+
+vi.mock('../src/services/git-provider-connection-service.js', () => ({
+  GitProviderConnectionService: class {
+    verifyGitLabWebhookToken = verifyTokenMock;
+  },
+}));
+
+import {
+  GitPushDeploymentError,
+  GitPushDeploymentService,
+  type GitPushEvent,
+} from '../src/services/git-push-deployment-service.js';
+
+const buildProject = (id: string, overrides?: Record<string, unknown>) => ({
+  id,
+  branch: 'main',
+  previewDeploymentsEnabled: false,
+  includePaths: [],
+  excludePaths: [],
+  groupId: null,
+  gitProviderConnectionId: `conn_${id}`,
+  pullRequestPreviews: [],
+  ...overrides,
+});
+
+const gitlabPush: GitPushEvent = {
+  provider: 'gitlab',
+  trigger: 'gitlab_push',
+  repoFullName: 'acme/api',
+  repoUrlCandidates: ['https://gitlab.example.com/acme/api'],
+  webhookToken: 'token-of-conn_a',
+  branch: 'main',
+  commitSha: 'abc1234',
+  changedFiles: null,
+};
+
+describe('GitPushDeploymentService', () => {
+  beforeEach(() => {
+    findManyMock.mockReset();
+    createDeploymentMock.mockReset().mockResolvedValue({});
+    deployGroupMock.mockReset().mockResolvedValue({ deployments: [] });
+    verifyTokenMock
+      .mockReset()
+      .mockImplementation(
+        async (connectionId: string, token: string) => token === `token-of-${connectionId}`,
+      );
+  });
+
+  it('deploys only GitLab projects whose connection issued the token', async () => {
+    findManyMock.mockResolvedValue([
+      buildProject('a'),
+      buildProject('b'),
+      buildProject('c', { gitProviderConnectionId: null }),
+    ]);
+
+    const result = await new GitPushDeploymentService().handlePush(gitlabPush);
+
+    expect(result.triggered).toBe(1);
+    expect(createDeploymentMock).toHaveBeenCalledTimes(1);
+    expect(createDeploymentMock).toHaveBeenCalledWith(expect.objectContaining({ projectId: 'a' }));
+  });
+
+  it('rejects a GitLab token that matches none of the projects', async () => {
+    findManyMock.mockResolvedValue([buildProject('b')]);
+
+    await expect(new GitPushDeploymentService().handlePush(gitlabPush)).rejects.toBeInstanceOf(
+      GitPushDeploymentError,
+    );
+    expect(createDeploymentMock).not.toHaveBeenCalled();
+  });
+
+  it("builds from the project's saved repository, never a URL from the payload", async () => {
+    findManyMock.mockResolvedValue([
+      buildProject('a'),
+      buildProject('grouped', { gitProviderConnectionId: 'conn_a', groupId: 'group_1' }),
+    ]);
+
+    await new GitPushDeploymentService().handlePush(gitlabPush);
+
+    expect(createDeploymentMock.mock.calls[0]![0]).not.toHaveProperty('gitUrl');
+    expect(deployGroupMock).toHaveBeenCalledWith(expect.objectContaining({ groupId: 'group_1' }));
+    expect(deployGroupMock.mock.calls[0]![0]).not.toHaveProperty('gitUrl');
+  });
+
+  it('does not check tokens for providers verified by signature', async () => {
+    findManyMock.mockResolvedValue([buildProject('a', { gitProviderConnectionId: null })]);
+
+    const { webhookToken: _token, ...push } = gitlabPush;
+    await new GitPushDeploymentService().handlePush({
+      ...push,
+      provider: 'bitbucket',
+      trigger: 'bitbucket_push',
+    });
+
+    expect(verifyTokenMock).not.toHaveBeenCalled();
+    expect(createDeploymentMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  normalizeRegistryHost,
+  parseImageReference,
+  registryHostname,
+} from '../src/lib/image-reference.js';
+
+const digest = `sha256:${'c'.repeat(64)}`;
+
+describe('parseImageReference', () => {
+  it('treats single-component names as official Docker Hub images', () => {
+    expect(parseImageReference('nginx:1.27')).toEqual({
+      registry: 'docker.io',
+      repository: 'library/nginx',
+      tag: '1.27',
+    });
+    expect(parseImageReference('acme/api')).toEqual({
+      registry: 'docker.io',
+      repository: 'acme/api',
+    });
+  });
+
+  it('detects registry hosts with ports and keeps digests', () => {
+    expect(parseImageReference(`localhost:5000/team/app:v2@${digest}`)).toEqual({
+      registry: 'localhost:5000',
+      repository: 'team/app',
+      tag: 'v2',
+      digest,
+    });
+    expect(parseImageReference('ghcr.io/acme/api')?.registry).toBe('ghcr.io');
+  });
+
+  it('rejects malformed references', () => {
+    expect(parseImageReference('')).toBeNull();
+    expect(parseImageReference('Acme/API:1')).toBeNull();
+    expect(parseImageReference('ghcr.io/acme/api@sha256:abc')).toBeNull();
+    expect(parseImageReference('nginx:bad tag')).toBeNull();
+  });
+});
+
+describe('registry hosts', () => {
+  it('maps Docker Hub aliases and strips schemes and paths', () => {
+    expect(normalizeRegistryHost('https://index.docker.io/v1/')).toBe('docker.io');
+    expect(normalizeRegistryHost('GHCR.io')).toBe('ghcr.io');
+  });
+
+  it('drops ports for private-host checks', () => {
+    expect(registryHostname('registry.local:5000')).toBe('registry.local');
+    expect(registryHostname('[fd00::1]:5000')).toBe('fd00::1');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  collectPushChangedFiles,
+  evaluatePathFilters,
+  pathFiltersSchema,
+  pathGlobToRegExp,
+} from '../src/lib/path-filters.js';
+
+describe('pathGlobToRegExp', () => {
+  it('supports recursive, segment and single-character wildcards', () => {
+    expect(pathGlobToRegExp('apps/api/**').test('apps/api/src/index.ts')).toBe(true);
+    expect(pathGlobToRegExp('apps/api/**').test('apps/api-gateway/index.ts')).toBe(false);
+    expect(pathGlobToRegExp('**/*.md').test('README.md')).toBe(true);
+    expect(pathGlobToRegExp('**/*.md').test('docs/guide/setup.md')).toBe(true);
+    expect(pathGlobToRegExp('packages/*/package.json').test('packages/shared/package.json')).toBe(
+      true,
+    );
+    expect(pathGlobToRegExp('packages/*/package.json').test('packages/a/b/package.json')).toBe(
+      false,
+    );
+    expect(pathGlobToRegExp('v?.txt').test('v1.txt')).toBe(true);
+  });
+
+  it('treats wildcard-free patterns as a path prefix', () => {
+    expect(pathGlobToRegExp('apps/web').test('apps/web/next.config.js')).toBe(true);
+    expect(pathGlobToRegExp('apps/web/').test('apps/web')).toBe(true);
+    expect(pathGlobToRegExp('apps/web').test('apps/website/index.ts')).toBe(false);
+  });
+});
+
+describe('evaluatePathFilters', () => {
+  it('skips a project when no changed file is included', () => {
+    const decision = evaluatePathFilters({
+      includePaths: ['apps/api/**', 'packages/shared/**'],
+      excludePaths: [],
+      changedFiles: ['docs/setup.md', 'apps/web/page.tsx'],
+    });
+
+    expect(decision.deploy).toBe(false);
+    expect(decision.reason).toContain('None of the 2 changed file(s) match include paths');
+  });
+
+  it('lets exclude globs win over include globs', () => {
+    expect(
+      evaluatePathFilters({
+        includePaths: ['apps/api/**'],
+        excludePaths: ['**/*.md'],
+        changedFiles: ['apps/api/README.md'],
+      }).deploy,
+    ).toBe(false);
+
+    expect(
+      evaluatePathFilters({
+        includePaths: [],
+        excludePaths: ['docs/**'],
+        changedFiles: ['docs/setup.md', 'apps/api/src/server.ts'],
+      }),
+    ).toMatchObject({ deploy: true, matchedFiles: ['apps/api/src/server.ts'] });
+  });
+
+  it('deploys when the changed file list is unknown', () => {
+    expect(
+      evaluatePathFilters({
+        includePaths: ['apps/api/**'],
+        excludePaths: [],
+        changedFiles: null,
+      }).deploy,
+    ).toBe(true);
+  });
+});
+
+describe('collectPushChangedFiles', () => {
+  it('merges added, removed and modified files across commits', () => {
+    expect(
+      collectPushChangedFiles([
+        { added: ['a.ts'], modified: ['b.ts'] },
+        { removed: ['c.ts'], modified: ['b.ts'] },
+      ]),
+    ).toEqual(['a.ts', 'b.ts', 'c.ts']);
+  });
+
+  it('returns null when GitHub may have truncated the commit list', () => {
+    expect(
+      collectPushChangedFiles(Array.from({ length: 20 }, () => ({ modified: ['a.ts'] }))),
+    ).toBeNull();
+    expect(collectPushChangedFiles(undefined)).toBeNull();
+  });
+});
+
+describe('pathFiltersSchema', () => {
+  it('rejects absolute and parent-relative globs', () => {
+    expect(pathFiltersSchema.safeParse(['/etc/**']).success).toBe(false);
+    expect(pathFiltersSchema.safeParse(['../other/**']).success).toBe(false);
+    expect(pathFiltersSchema.safeParse(['apps/api/**']).success).toBe(true);
+  });
+});
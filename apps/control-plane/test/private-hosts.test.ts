@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { lookup } = vi.hoisted(() => ({ lookup: vi.fn() }));
+vi.mock('node:dns/promises', () => ({ lookup }));
+
+import { isPrivateHost, resolvesToPrivateHost } from '../src/lib/private-hosts.js';
+
+describe('isPrivateHost', () => {
+  it('flags loopback, RFC 1918, link-local and internal names', () => {
+    for (const host of [
+      'localhost',
+      'db.internal',
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+    ]) {
+      expect(isPrivateHost(host)).toBe(true);
+    }
+    expect(isPrivateHost('gitlab.example.com')).toBe(false);
+    expect(isPrivateHost('8.8.8.8')).toBe(false);
+  });
+
+  it('flags carrier-grade NAT addresses', () => {
+    expect(isPrivateHost('100.64.0.1')).toBe(true);
+    expect(isPrivateHost('100.127.255.254')).toBe(true);
+    expect(isPrivateHost('100.63.255.255')).toBe(false);
+    expect(isPrivateHost('100.128.0.1')).toBe(false);
+  });
+
+  it('flags IPv4-mapped IPv6 addresses by the address they carry', () => {
+    expect(isPrivateHost('::ffff:10.0.0.1')).toBe(true);
+    expect(isPrivateHost('[::ffff:a00:1]')).toBe(true);
+    expect(isPrivateHost('0:0:0:0:0:ffff:7f00:1')).toBe(true);
+    expect(isPrivateHost('::ffff:8.8.8.8')).toBe(false);
+  });
+
+  it('reads bracketed IPv6 literals from URL hostnames', () => {
+    expect(isPrivateHost(new URL('https://[::1]/').hostname)).toBe(true);
+    expect(isPrivateHost('[fe80::1]')).toBe(true);
+    expect(isPrivateHost('[2001:4860:4860::8888]')).toBe(false);
+  });
+});
+
+describe('resolvesToPrivateHost', () => {
+  beforeEach(() => {
+    lookup.mockReset();
+  });
+
+  it('rejects a public name that resolves to a private address', async () => {
+    lookup.mockResolvedValue([
+      { address: '203.0.113.10', family: 4 },
+      { address: '127.0.0.1', family: 4 },
+    ]);
+
+    await expect(resolvesToPrivateHost('gitlab.example.com')).resolves.toBe(true);
+    expect(lookup).toHaveBeenCalledWith('gitlab.example.com', { all: true });
+  });
+
+  it('rejects names resolving to CGNAT or mapped private addresses', async () => {
+    lookup.mockResolvedValueOnce([{ address: '100.100.1.1', family: 4 }]);
+    await expect(resolvesToPrivateHost('cgnat.example.com')).resolves.toBe(true);
+
+    lookup.mockResolvedValueOnce([{ address: '::ffff:10.0.0.1', family: 6 }]);
+    await expect(resolvesToPrivateHost('mapped.example.com')).resolves.toBe(true);
+  });
+
+  it('accepts a name whose addresses are all public', async () => {
+    lookup.mockResolvedValue([
+      { address: '203.0.113.10', family: 4 },
+      { address: '2001:db8::10', family: 6 },
+    ]);
+
+    await expect(resolvesToPrivateHost('gitlab.example.com')).resolves.toBe(false);
+  });
+
+  it('fails closed when the name does not resolve, and skips lookups for literals', async () => {
+    lookup.mockRejectedValue(Object.assign(new Error('not found'), { code: 'ENOTFOUND' }));
+
+    await expect(resolvesToPrivateHost('missing.example.com')).resolves.toBe(true);
+    await expect(resolvesToPrivateHost('8.8.8.8')).resolves.toBe(false);
+    await expect(resolvesToPrivateHost('localhost')).resolves.toBe(true);
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+});
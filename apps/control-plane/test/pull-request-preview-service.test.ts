@@ -0,0 +1,244 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { prismaMock, redisSetMock, createDeploymentMock, queueMock, upsertCommentMock } = vi.hoisted(
+  () => ({
+    prismaMock: {
+      project: { findMany: vi.fn(), findUnique: vi.fn() },
+      pullRequestPreview: { upsert: vi.fn(), findUnique: vi.fn(), update: vi.fn() },
+      deployment: { findMany: vi.fn(), updateMany: vi.fn() },
+      server: { update: vi.fn() },
+      logEntry: { create: vi.fn() },
+      gitHubConnection: { findUnique: vi.fn() },
+    },
+    redisSetMock: vi.fn(),
+    createDeploymentMock: vi.fn(),
+    queueMock: { publishEvent: vi.fn(), enqueueContainerAction: vi.fn() },
+    upsertCommentMock: vi.fn(),
+  }),
+);
+
+vi.mock('../src/config/env.js', () => ({
+  env: { DASHBOARD_BASE_URL: 'https://app.apployd.test' },
+}));
+
+vi.mock('../src/lib/prisma.js', () => ({ prisma: prismaMock }));
+
+vi.mock('../src/lib/redis.js', () => ({
+  redis: { set: redisSetMock },
+}));
+
+vi.mock('../src/lib/secrets.js', () => ({
+  decryptSecret: () => 'gho_owner_token',
+}));
+
+vi.mock('../src/services/deployment-request-service.js', () => ({
+  DeploymentRequestService: class {
+    create = createDeploymentMock;
+  },
+}));
+
+vi.mock('../src/services/deploy-queue-service.js', () => ({
+  DeployQueueService: class {
+    publishEvent = queueMock.publishEvent;
+
+    enqueueContainerAction = queueMock.enqueueContainerAction;
+  },
+}));
+
+vi.mock('../src/services/github-service.js', () => ({
+  GitHubService: class {
+    upsertIssueComment = upsertCommentMock;
+  },
+}));
+
+import {
+  PullRequestPreviewService,
+  type PullRequestEvent,
+} from '../src/services/pull-request-preview-service.js';
+
+const opened: PullRequestEvent = {
+  action: 'opened',
+  number: 12,
+  merged: false,
+  headRef: 'feature/login',
+  headSha: 'aaaaaaa1111111',
+  headRepoFullName: 'acme/api',
+  repoFullName: 'acme/api',
+  cloneUrl: 'https://github.com/acme/api.git',
+  repoUrlCandidates: ['https://github.com/acme/api'],
+};
+
+const resources = { resourceRamMb: 512, resourceCpuMillicore: 500, resourceBandwidthGb: 10 };
+
+describe('PullRequestPreviewService', () => {
+  beforeEach(() => {
+    for (const model of Object.values(prismaMock)) {
+      for (const method of Object.values(model)) {
+        method.mockReset();
+      }
+    }
+    prismaMock.project.findMany.mockResolvedValue([
+      { id: 'proj_1', autoDeployEnabled: true, previewDeploymentsEnabled: true },
+    ]);
+    prismaMock.project.findUnique.mockResolvedValue({ name: 'api', createdById: 'user_1' });
+    prismaMock.gitHubConnection.findUnique.mockResolvedValue({
+      encryptedAccessToken: 'x',
+      iv: 'x',
+      authTag: 'x',
+      keyId: null,
+    });
+    prismaMock.pullRequestPreview.upsert.mockResolvedValue({ id: 'prev_1', commentId: null });
+    redisSetMock.mockReset().mockResolvedValue('OK');
+    createDeploymentMock.mockReset().mockResolvedValue({
+      deploymentId: 'dep_1',
+      domain: 'pr-12-api.apployd.app',
+      url: 'https://pr-12-api.apployd.app',
+    });
+    queueMock.publishEvent.mockReset().mockResolvedValue(undefined);
+    queueMock.enqueueContainerAction.mockReset().mockResolvedValue(undefined);
+    upsertCommentMock.mockReset().mockResolvedValue({ commentId: '9001' });
+  });
+
+  it('deploys a preview and posts the building comment when a pull request opens', async () => {
+    const result = await new PullRequestPreviewService().handlePullRequest(opened);
+
+    expect(result).toMatchObject({ triggered: 1, ignored: 0, errors: [] });
+    expect(createDeploymentMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        projectId: 'proj_1',
+        trigger: 'github_pull_request',
+        environment: 'preview',
+        branch: 'feature/login',
+        commitSha: 'aaaaaaa1111111',
+        pullRequest: { number: 12, repoFullName: 'acme/api', headSha: 'aaaaaaa1111111' },
+      }),
+    );
+    expect(upsertCommentMock).toHaveBeenCalledWith(
+      expect.objectContaining({ owner: 'acme', repo: 'api', issueNumber: 12, commentId: null }),
+    );
+    expect(upsertCommentMock.mock.calls[0]![0].body).toContain('| Building |');
+    expect(prismaMock.pullRequestPreview.update).toHaveBeenCalledWith({
+      where: { id: 'prev_1' },
+      data: { commentId: '9001' },
+    });
+  });
+
+  it('redeploys on synchronize and edits the existing comment', async () => {
+    prismaMock.pullRequestPreview.upsert.mockResolvedValue({ id: 'prev_1', commentId: '9001' });
+
+    const result = await new PullRequestPreviewService().handlePullRequest({
+      ...opened,
+      action: 'synchronize',
+      headSha: 'bbbbbbb2222222',
+    });
+
+    expect(result).toMatchObject({ triggered: 1 });
+    expect(prismaMock.pullRequestPreview.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({
+          headSha: 'bbbbbbb2222222',
+          status: 'open',
+          lastDeploymentId: 'dep_1',
+        }),
+      }),
+    );
+    expect(upsertCommentMock).toHaveBeenCalledWith(expect.objectContaining({ commentId: '9001' }));
+    expect(prismaMock.pullRequestPreview.update).not.toHaveBeenCalled();
+  });
+
+  it('skips redelivered commits, fork branches and projects without previews', async () => {
+    redisSetMock.mockResolvedValueOnce(null);
+    const service = new PullRequestPreviewService();
+
+    await expect(service.handlePullRequest(opened)).resolves.toMatchObject({ ignored: 1 });
+    await expect(
+      service.handlePullRequest({ ...opened, headRepoFullName: 'mallory/api' }),
+    ).resolves.toMatchObject({ ignored: 1 });
+
+    prismaMock.project.findMany.mockResolvedValue([
+      { id: 'proj_1', autoDeployEnabled: true, previewDeploymentsEnabled: false },
+    ]);
+    await expect(service.handlePullRequest(opened)).resolves.toMatchObject({ ignored: 1 });
+
+    await expect(service.handlePullRequest({ ...opened, action: 'labeled' })).resolves.toEqual({
+      received: true,
+      ignored: true,
+    });
+    expect(createDeploymentMock).not.toHaveBeenCalled();
+    expect(prismaMock.logEntry.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        metadata: expect.objectContaining({ reason: 'fork_pull_request' }),
+      }),
+    });
+  });
+
+  it('cancels in-flight builds and tears the preview down when the pull request closes', async () => {
+    prismaMock.pullRequestPreview.findUnique.mockResolvedValue({
+      id: 'prev_1',
+      domain: 'pr-12-api.apployd.app',
+      headSha: 'bbbbbbb2222222',
+      commentId: '9001',
+      lastDeploymentId: 'dep_3',
+    });
+    prismaMock.deployment.findMany.mockResolvedValue([
+      {
+        id: 'dep_2',
+        status: 'ready',
+        serverId: 'srv_1',
+        domain: 'pr-12-api.apployd.app',
+        container: { id: 'ctr_2', dockerContainerId: 'docker_2', status: 'running' },
+        project: resources,
+      },
+      {
+        id: 'dep_3',
+        status: 'building',
+        serverId: 'srv_1',
+        domain: 'pr-12-api.apployd.app',
+        container: null,
+        project: resources,
+      },
+      {
+        id: 'dep_4',
+        status: 'queued',
+        serverId: 'srv_1',
+        domain: 'pr-12-api.apployd.app',
+        container: null,
+        project: resources,
+      },
+    ]);
+    prismaMock.deployment.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await new PullRequestPreviewService().handlePullRequest({
+      ...opened,
+      action: 'closed',
+      merged: true,
+    });
+
+    expect(result).toMatchObject({ closed: 1, errors: [] });
+    const canceledIds = prismaMock.deployment.updateMany.mock.calls
+      .filter(([args]) => args.data.status === 'failed')
+      .map(([args]) => args.where.id);
+    expect(canceledIds).toEqual(['dep_3', 'dep_4']);
+    // The engine only treats messages containing this fragment as cancellations.
+    for (const [args] of prismaMock.deployment.updateMany.mock.calls) {
+      if (args.data.status === 'failed') {
+        expect(args.data.errorMessage.toLowerCase()).toContain('canceled by user');
+      }
+    }
+    expect(queueMock.enqueueContainerAction).toHaveBeenCalledWith({
+      action: 'stop',
+      containerId: 'ctr_2',
+      dockerContainerId: 'docker_2',
+      deploymentId: 'dep_2',
+      domain: 'pr-12-api.apployd.app',
+    });
+    // The running container and the queued build give back capacity; the building one is released by the engine.
+    expect(prismaMock.server.update).toHaveBeenCalledTimes(2);
+    expect(prismaMock.pullRequestPreview.update).toHaveBeenCalledWith({
+      where: { id: 'prev_1' },
+      data: expect.objectContaining({ status: 'closed' }),
+    });
+    expect(upsertCommentMock.mock.calls[0]![0].body).toContain('Torn down (pull request closed)');
+    expect(createDeploymentMock).not.toHaveBeenCalled();
+  });
+});
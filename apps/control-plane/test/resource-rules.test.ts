@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { validateAllocationRules } from '../src/domain/resource-rules.js';
+import { replicaAllocation, validateAllocationRules } from '../src/domain/resource-rules.js';
 
 describe('validateAllocationRules', () => {
   it('accepts allocation up to full pool when aggregate remains within pool limits', () => {
@@ -72,3 +72,21 @@ describe('validateAllocationRules', () => {
     ).toThrowError('CPU pool exceeded.');
   });
 });
+
+describe('replicaAllocation', () => {
+  it('multiplies ram and cpu by the replica count but not bandwidth', () => {
+    expect(replicaAllocation({ ramMb: 512, cpuMillicores: 250, bandwidthGb: 25 }, 3)).toEqual({
+      ramMb: 1536,
+      cpuMillicores: 750,
+      bandwidthGb: 25,
+    });
+  });
+
+  it('treats counts below one as a single replica', () => {
+    expect(replicaAllocation({ ramMb: 256, cpuMillicores: 100, bandwidthGb: 1 }, 0)).toEqual({
+      ramMb: 256,
+      cpuMillicores: 100,
+      bandwidthGb: 1,
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  describeSecretScope,
+  resolveScopedSecrets,
+  secretScopeLayer,
+  type ScopedSecret,
+} from '../src/domain/secret-scopes.js';
+
+const secret = (key: string, scope: ScopedSecret['scope'], branch = ''): ScopedSecret => ({
+  key,
+  scope,
+  branch,
+});
+
+const secrets = [
+  secret('DATABASE_URL', 'shared'),
+  secret('DATABASE_URL', 'production'),
+  secret('DATABASE_URL', 'preview'),
+  secret('DATABASE_URL', 'branch', 'feature/login'),
+  secret('STRIPE_KEY', 'production'),
+  secret('LOG_LEVEL', 'shared'),
+];
+
+const resolvedScopes = (target: Parameters<typeof resolveScopedSecrets>[1]) =>
+  Object.fromEntries(
+    [...resolveScopedSecrets(secrets, target)].map(([key, value]) => [
+      key,
+      describeSecretScope(value.scope, value.branch),
+    ]),
+  );
+
+describe('resolveScopedSecrets', () => {
+  it('keeps production secrets out of previews', () => {
+    expect(resolvedScopes({ environment: 'preview', branch: 'feature/other' })).toEqual({
+      DATABASE_URL: 'preview',
+      LOG_LEVEL: 'shared',
+    });
+  });
+
+  it('layers the environment over the shared base', () => {
+    expect(resolvedScopes({ environment: 'production', branch: 'main' })).toEqual({
+      DATABASE_URL: 'production',
+      STRIPE_KEY: 'production',
+      LOG_LEVEL: 'shared',
+    });
+  });
+
+  it('lets a branch override every other layer', () => {
+    expect(resolvedScopes({ environment: 'preview', branch: 'feature/login' })).toEqual({
+      DATABASE_URL: 'branch:feature/login',
+      LOG_LEVEL: 'shared',
+    });
+  });
+
+  it('does not depend on the order secrets are listed in', () => {
+    const reversed = resolveScopedSecrets([...secrets].reverse(), { environment: 'production' });
+    expect(reversed.get('DATABASE_URL')?.scope).toBe('production');
+  });
+});
+
+describe('secretScopeLayer', () => {
+  it('skips branch secrets when the deployment has no branch', () => {
+    expect(secretScopeLayer(secret('A', 'branch', 'main'), { environment: 'production' })).toBe(
+      null,
+    );
+    expect(secretScopeLayer(secret('A', 'shared'), { environment: 'production' })).toBe(0);
+  });
+});
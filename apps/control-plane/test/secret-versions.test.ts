@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+
+import { planSecretSetRestore } from '../src/domain/secret-versions.js';
+
+describe('planSecretSetRestore', () => {
+  const snapshot = [
+    { id: 'v-db-1', key: 'DATABASE_URL', scope: 'shared' as const, branch: '' },
+    { id: 'v-api-2', key: 'API_KEY', scope: 'production' as const, branch: '' },
+  ];
+
+  it('restores changed and deleted keys and removes keys added since', () => {
+    const plan = planSecretSetRestore(
+      [
+        { key: 'DATABASE_URL', scope: 'shared' as const, branch: '', currentVersionId: 'v-db-2' },
+        { key: 'FEATURE_FLAG', scope: 'shared' as const, branch: '', currentVersionId: 'v-ff-1' },
+      ],
+      snapshot,
+    );
+
+    expect(plan.restore.map((version) => version.id)).toEqual(['v-db-1', 'v-api-2']);
+    expect(plan.remove.map((secret) => secret.key)).toEqual(['FEATURE_FLAG']);
+    expect(plan.unchanged).toBe(0);
+  });
+
+  it('leaves keys still at the snapshot version alone', () => {
+    const plan = planSecretSetRestore(
+      [
+        { key: 'DATABASE_URL', scope: 'shared' as const, branch: '', currentVersionId: 'v-db-1' },
+        { key: 'API_KEY', scope: 'production' as const, branch: '', currentVersionId: 'v-api-2' },
+      ],
+      snapshot,
+    );
+
+    expect(plan).toEqual({ restore: [], remove: [], unchanged: 2 });
+  });
+
+  it('tells the same key apart by scope', () => {
+    const plan = planSecretSetRestore(
+      [{ key: 'API_KEY', scope: 'shared' as const, branch: '', currentVersionId: 'v-api-2' }],
+      snapshot,
+    );
+
+    expect(plan.restore.map((version) => version.id)).toEqual(['v-db-1', 'v-api-2']);
+    expect(plan.remove.map((secret) => secret.scope)).toEqual(['shared']);
+  });
+});
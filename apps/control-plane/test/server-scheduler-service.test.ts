@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { serverFindManyMock, containerFindManyMock, databaseFindManyMock } = vi.hoisted(() => ({
+  serverFindManyMock: vi.fn(),
+  containerFindManyMock: vi.fn(),
+  databaseFindManyMock: vi.fn(),
+}));
+
+vi.mock('../src/lib/prisma.js', () => ({
+  prisma: {
+    server: { findMany: serverFindManyMock },
+    container: { findMany: containerFindManyMock },
+    managedDatabase: { findMany: databaseFindManyMock },
+  },
+}));
+
+import { ServerSchedulerService } from '../src/services/server-scheduler-service.js';
+
+const buildServer = (id: string, freeRamMb: number) => ({
+  id,
+  status: 'healthy',
+  region: 'fsn1',
+  totalRamMb: 16_384,
+  reservedRamMb: 16_384 - freeRamMb,
+  totalCpuMillicores: 8_000,
+  reservedCpuMillicores: 0,
+  totalBandwidthGb: 1_000,
+  reservedBandwidthGb: 0,
+});
+
+const request = { ramMb: 512, cpuMillicores: 500, bandwidthGb: 10, region: 'fsn1' };
+
+describe('ServerSchedulerService', () => {
+  beforeEach(() => {
+    serverFindManyMock
+      .mockReset()
+      .mockResolvedValue([buildServer('srv_roomy', 12_000), buildServer('srv_org', 2_048)]);
+    containerFindManyMock.mockReset().mockResolvedValue([{ serverId: 'srv_org' }]);
+    databaseFindManyMock.mockReset().mockResolvedValue([]);
+  });
+
+  it("places work beside the organization's containers and databases", async () => {
+    const server = await new ServerSchedulerService().schedule({
+      ...request,
+      organizationId: 'org_1',
+    });
+
+    expect(server.id).toBe('srv_org');
+  });
+
+  it("falls back to other servers when the organization's server is full", async () => {
+    const server = await new ServerSchedulerService().schedule({
+      ...request,
+      ramMb: 4_096,
+      organizationId: 'org_1',
+    });
+
+    expect(server.id).toBe('srv_roomy');
+  });
+
+  it('lists each organization server once', async () => {
+    containerFindManyMock.mockResolvedValue([{ serverId: 'srv_org' }]);
+    databaseFindManyMock.mockResolvedValue([{ serverId: 'srv_org' }, { serverId: 'srv_db' }]);
+
+    await expect(
+      new ServerSchedulerService().findOrganizationServerIds('org_1', { excludeProjectId: 'p1' }),
+    ).resolves.toEqual(['srv_org', 'srv_db']);
+    expect(containerFindManyMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          project: { organizationId: 'org_1', id: { not: 'p1' } },
+        }),
+      }),
+    );
+  });
+});
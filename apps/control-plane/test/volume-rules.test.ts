@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  mountPathsOverlap,
+  normalizeVolumeMountPath,
+  validateVolumeQuota,
+} from '../src/domain/volume-rules.js';
+
+describe('normalizeVolumeMountPath', () => {
+  it('normalises separators and accepts application data paths', () => {
+    expect(normalizeVolumeMountPath(' /app//data/ ')).toEqual({
+      mountPath: '/app/data',
+      error: null,
+    });
+    expect(normalizeVolumeMountPath('/var/lib/sqlite').error).toBeNull();
+  });
+
+  it('rejects relative, traversing and reserved paths', () => {
+    expect(normalizeVolumeMountPath('data').error).toMatch(/absolute/);
+    expect(normalizeVolumeMountPath('/app/../etc').error).toMatch(/segments/);
+    expect(normalizeVolumeMountPath('/').error).toMatch(/root/);
+    expect(normalizeVolumeMountPath('/tmp/uploads').error).toMatch(/\/tmp/);
+    expect(normalizeVolumeMountPath('/var').error).toMatch(/\/var\/run/);
+    expect(normalizeVolumeMountPath('/data;rm').error).toMatch(/only contain/);
+  });
+});
+
+describe('mountPathsOverlap', () => {
+  it('treats nested paths as overlapping but not shared prefixes', () => {
+    expect(mountPathsOverlap('/data', '/data/cache')).toBe(true);
+    expect(mountPathsOverlap('/data', '/database')).toBe(false);
+  });
+});
+
+describe('validateVolumeQuota', () => {
+  it('counts every volume in the organization against the plan', () => {
+    expect(validateVolumeQuota({ includedGb: 10, allocatedGb: 6, requestedGb: 4 }).ok).toBe(true);
+    expect(() => validateVolumeQuota({ includedGb: 10, allocatedGb: 6, requestedGb: 5 })).toThrow(
+      /quota exceeded/,
+    );
+  });
+
+  it('replaces the current size of a resized volume', () => {
+    expect(
+      validateVolumeQuota({ includedGb: 10, allocatedGb: 8, currentVolumeGb: 5, requestedGb: 7 })
+        .ok,
+    ).toBe(true);
+  });
+});
@@ -18,21 +18,42 @@ interface ManagedDatabaseSummary {
   status: string;
   name: string;
   regionId: string;
-  branchName: string;
+  branchName: string | null;
   databaseName: string;
   roleName: string;
   secretKey: string;
+  engine: string | null;
+  slug: string | null;
+  memoryMb: number | null;
+  cpuMillicores: number | null;
+  storageGb: number | null;
+  errorMessage: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
 const ACTIVE_SUBSCRIPTION_STATUSES = new Set(['active', 'trialing', 'past_due']);
 
-const providerLabel = (provider: string): string =>
-  provider.trim().toLowerCase() === 'neon' ? 'Apployd PostgreSQL DB' : provider;
+const SELF_HOSTED_ENGINE_LABELS: Record<string, string> = {
+  postgres: 'PostgreSQL',
+  mysql: 'MySQL',
+  redis: 'Redis',
+};
+
+const providerLabel = (database: ManagedDatabaseSummary): string => {
+  const provider = database.provider.trim().toLowerCase();
+  if (provider === 'neon') {
+    return 'Apployd PostgreSQL DB';
+  }
+  if (provider === 'self_hosted') {
+    return `${SELF_HOSTED_ENGINE_LABELS[database.engine ?? ''] ?? database.engine} on Apployd servers`;
+  }
+  return database.provider;
+};
 
 export default function DatabasesPage() {
-  const { selectedOrganizationId, subscription, subscriptionLoading, refreshSubscription } = useWorkspaceContext();
+  const { selectedOrganizationId, projects, subscription, subscriptionLoading, refreshSubscription } =
+    useWorkspaceContext();
   const [databases, setDatabases] = useState<ManagedDatabaseSummary[]>([]);
   const [loading, setLoading] = useState(false);
   const [provisioning, setProvisioning] = useState(false);
@@ -47,6 +68,15 @@ export default function DatabasesPage() {
     databaseName: '',
     roleName: '',
   });
+  const [selfHostedForm, setSelfHostedForm] = useState({
+    engine: 'postgres',
+    name: '',
+    projectId: '',
+    memoryMb: '512',
+    cpuMillicores: '500',
+    storageGb: '5',
+  });
+  const [pendingDatabaseId, setPendingDatabaseId] = useState('');
   useDashboardMessageToast(message);
 
   const codeRaw = subscription?.plan?.code;
@@ -145,6 +175,98 @@ export default function DatabasesPage() {
     }
   };
 
+  const createSelfHostedDatabase = async () => {
+    if (!selectedOrganizationId) {
+      setMessage('Select a workspace first.');
+      return;
+    }
+
+    try {
+      setProvisioning(true);
+      setMessage('');
+      setCopied(false);
+      setLastConnectionUrl('');
+      const result = (await apiClient.post('/databases/self-hosted', {
+        organizationId: selectedOrganizationId,
+        engine: selfHostedForm.engine,
+        name: selfHostedForm.name.trim(),
+        projectId: selfHostedForm.projectId || undefined,
+        memoryMb: Number(selfHostedForm.memoryMb) || 0,
+        cpuMillicores: Number(selfHostedForm.cpuMillicores) || 0,
+        storageGb: Number(selfHostedForm.storageGb) || 0,
+      })) as {
+        database?: ManagedDatabaseSummary;
+        hostname?: string;
+        connectionUrl?: string;
+      };
+
+      await loadDatabases();
+      setSelfHostedForm((prev) => ({ ...prev, name: '' }));
+      if (result.connectionUrl) {
+        setLastConnectionUrl(result.connectionUrl);
+      }
+      setMessage(
+        result.database?.projectId
+          ? `Starting ${result.hostname}. Its connection string is saved as ${result.database.secretKey} on the project.`
+          : `Starting ${result.hostname}.`,
+      );
+    } catch (error) {
+      setMessage((error as Error).message);
+    } finally {
+      setProvisioning(false);
+    }
+  };
+
+  const resizeDatabase = async (database: ManagedDatabaseSummary) => {
+    const input = window.prompt(
+      'New size as memory MB, CPU millicores, storage GB (storage can only grow):',
+      `${database.memoryMb ?? ''}, ${database.cpuMillicores ?? ''}, ${database.storageGb ?? ''}`,
+    );
+    if (!input) {
+      return;
+    }
+    const [memoryMb, cpuMillicores, storageGb] = input.split(',').map((part) => Number(part.trim()));
+    try {
+      setPendingDatabaseId(database.id);
+      await apiClient.patch(`/databases/${database.id}`, { memoryMb, cpuMillicores, storageGb });
+      setMessage(`Resizing ${database.name}.`);
+      await loadDatabases();
+    } catch (error) {
+      setMessage((error as Error).message);
+    } finally {
+      setPendingDatabaseId('');
+    }
+  };
+
+  const restartDatabase = async (database: ManagedDatabaseSummary) => {
+    try {
+      setPendingDatabaseId(database.id);
+      await apiClient.post(`/databases/${database.id}/restart`, {});
+      setMessage(`Restarting ${database.name}.`);
+      await loadDatabases();
+    } catch (error) {
+      setMessage((error as Error).message);
+    } finally {
+      setPendingDatabaseId('');
+    }
+  };
+
+  const deleteDatabase = async (database: ManagedDatabaseSummary) => {
+    if (!window.confirm(`Delete ${database.name} and all of its data? This cannot be undone.`)) {
+      return;
+    }
+    try {
+      setPendingDatabaseId(database.id);
+      await apiClient.delete(`/databases/${database.id}`);
+      setMessage(`Deleting ${database.name}.`);
+      await loadDatabases();
+    } catch (error) {
+      setMessage((error as Error).message);
+    } finally {
+      setPendingDatabaseId('');
+    }
+  };
+
   const copyConnectionUrl = async () => {
     if (!lastConnectionUrl) {
       return;
@@ -166,7 +288,7 @@ export default function DatabasesPage() {
     <div className="space-y-4">
       <SectionCard
         title="Databases"
-        subtitle="Create standalone Apployd PostgreSQL DB instances for your workspace. No project binding is required."
+        subtitle="Create Apployd PostgreSQL DB instances, or run PostgreSQL, MySQL and Redis on Apployd servers next to your apps."
       >
         <div className="flex justify-end">
           <button
@@ -277,12 +399,103 @@ export default function DatabasesPage() {
               </div>
             </div>
           </SectionCard>
+
+          <SectionCard
+            title="Run A Database On Apployd Servers"
+            subtitle="PostgreSQL, MySQL or Redis in a container on your organization's private network, with a persistent volume. Memory and CPU come from your resource pool."
+          >
+            <div className="space-y-4">
+              <div className="grid gap-3 md:grid-cols-3">
+                <label>
+                  <span className="field-label">Engine</span>
+                  <select
+                    value={selfHostedForm.engine}
+                    onChange={(event) => setSelfHostedForm((prev) => ({ ...prev, engine: event.target.value }))}
+                    className="field-input"
+                  >
+                    {Object.entries(SELF_HOSTED_ENGINE_LABELS).map(([engine, label]) => (
+                      <option key={engine} value={engine}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  <span className="field-label">Name</span>
+                  <input
+                    value={selfHostedForm.name}
+                    onChange={(event) => setSelfHostedForm((prev) => ({ ...prev, name: event.target.value }))}
+                    className="field-input"
+                    placeholder="orders-db"
+                  />
+                </label>
+                <label>
+                  <span className="field-label">Link to project (optional)</span>
+                  <select
+                    value={selfHostedForm.projectId}
+                    onChange={(event) => setSelfHostedForm((prev) => ({ ...prev, projectId: event.target.value }))}
+                    className="field-input"
+                  >
+                    <option value="">Standalone</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  <span className="field-label">Memory (MB)</span>
+                  <input
+                    type="number"
+                    min={128}
+                    value={selfHostedForm.memoryMb}
+                    onChange={(event) => setSelfHostedForm((prev) => ({ ...prev, memoryMb: event.target.value }))}
+                    className="field-input"
+                  />
+                </label>
+                <label>
+                  <span className="field-label">CPU (millicores)</span>
+                  <input
+                    type="number"
+                    min={100}
+                    value={selfHostedForm.cpuMillicores}
+                    onChange={(event) =>
+                      setSelfHostedForm((prev) => ({ ...prev, cpuMillicores: event.target.value }))
+                    }
+                    className="field-input"
+                  />
+                </label>
+                <label>
+                  <span className="field-label">Storage (GB)</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={selfHostedForm.storageGb}
+                    onChange={(event) => setSelfHostedForm((prev) => ({ ...prev, storageGb: event.target.value }))}
+                    className="field-input"
+                  />
+                </label>
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  className="btn-primary"
+                  onClick={createSelfHostedDatabase}
+                  disabled={provisioning || !selectedOrganizationId || selfHostedForm.name.trim().length < 2}
+                >
+                  {provisioning ? 'Creating...' : 'Create database'}
+                </button>
+              </div>
+            </div>
+          </SectionCard>
         </>
       ) : null}
 
       {lastConnectionUrl ? (
         <SectionCard
-          title="PostgreSQL Connection String"
+          title="Connection String"
           subtitle="This is shown immediately after creation. Save it securely in your application secrets."
         >
           <div className="space-y-3 rounded-xl border border-slate-200 bg-slate-50 p-3">
@@ -298,7 +511,7 @@ export default function DatabasesPage() {
 
       <SectionCard
         title="Provisioned Databases"
-        subtitle={hasPaidAccess ? 'Standalone databases created in this workspace.' : 'Upgrade required to provision databases.'}
+        subtitle={hasPaidAccess ? 'Databases created in this workspace.' : 'Upgrade required to provision databases.'}
       >
         {!hasPaidAccess ? (
           <div className="rounded-xl border border-dashed border-slate-300 px-5 py-8 text-center text-sm text-slate-600">
@@ -316,14 +529,61 @@ export default function DatabasesPage() {
               <article key={database.id} className="rounded-xl border border-slate-200 p-3">
                 <p className="text-sm font-semibold text-slate-900">{database.name}</p>
                 <p className="mt-0.5 text-xs text-slate-600">
-                  {providerLabel(database.provider)} | {database.status} | {database.regionId}
-                </p>
-                <p className="mono mt-1 text-xs text-slate-700">
-                  branch={database.branchName} db={database.databaseName} role={database.roleName}
+                  {providerLabel(database)} | {database.status} | {database.regionId}
                 </p>
+                {database.provider === 'self_hosted' ? (
+                  <p className="mono mt-1 text-xs text-slate-700">
+                    host={database.slug}.internal db={database.databaseName} user={database.roleName} |{' '}
+                    {database.memoryMb}MB, {database.cpuMillicores}m CPU, {database.storageGb}GB
+                  </p>
+                ) : (
+                  <p className="mono mt-1 text-xs text-slate-700">
+                    branch={database.branchName} db={database.databaseName} role={database.roleName}
+                  </p>
+                )}
+                {database.errorMessage ? (
+                  <p className="mt-1 text-xs text-rose-700">{database.errorMessage}</p>
+                ) : null}
                 <p className="mt-1 text-xs text-slate-500">
                   Created {new Date(database.createdAt).toLocaleString()}
                 </p>
+                {database.provider === 'self_hosted' ? (
+                  <div className="mt-2 flex flex-wrap justify-end gap-2">
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => {
+                        resizeDatabase(database).catch(() => undefined);
+                      }}
+                      disabled={pendingDatabaseId === database.id || database.status !== 'ready'}
+                    >
+                      Resize
+                    </button>
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => {
+                        restartDatabase(database).catch(() => undefined);
+                      }}
+                      disabled={
+                        pendingDatabaseId === database.id ||
+                        (database.status !== 'ready' && database.status !== 'failed')
+                      }
+                    >
+                      Restart
+                    </button>
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => {
+                        deleteDatabase(database).catch(() => undefined);
+                      }}
+                      disabled={pendingDatabaseId === database.id}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                ) : null}
               </article>
             ))}
           </div>
@@ -21,7 +21,15 @@ interface Repository {
   canAdmin: boolean;
 }
 
-interface GitHubStatus {
+type GitProvider = 'github' | 'gitlab' | 'bitbucket';
+
+const GIT_PROVIDER_LABELS: Record<GitProvider, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+};
+
+interface GitProviderStatus {
   configured: boolean;
   connected: boolean;
   oauthRedirectUri?: string;
@@ -30,7 +38,8 @@ interface GitHubStatus {
   connection: {
     username: string;
     avatarUrl: string | null;
-    tokenScope: string | null;
+    tokenScope?: string | null;
+    baseUrl?: string;
     createdAt: string;
   } | null;
 }
@@ -45,7 +54,10 @@ export default function IntegrationsPage() {
     projects,
     refresh,
   } = useWorkspaceContext();
-  const [status, setStatus] = useState<GitHubStatus | null>(null);
+  const [provider, setProvider] = useState<GitProvider>('github');
+  const [status, setStatus] = useState<GitProviderStatus | null>(null);
+  const [tokenForm, setTokenForm] = useState({ accessToken: '', baseUrl: '', username: '' });
+  const [connecting, setConnecting] = useState(false);
   const [repos, setRepos] = useState<Repository[]>([]);
   const [search, setSearch] = useState('');
   const [selectedRepo, setSelectedRepo] = useState<Repository | null>(null);
@@ -86,7 +98,7 @@ export default function IntegrationsPage() {
   const loadStatus = async () => {
     setLoadingStatus(true);
     try {
-      const data = await apiClient.get('/integrations/github/status');
+      const data = await apiClient.get(`/integrations/${provider}/status`);
       setStatus(data);
     } catch (error) {
       setMessage((error as Error).message);
@@ -104,7 +116,7 @@ export default function IntegrationsPage() {
     setLoadingRepos(true);
     try {
       const data = await apiClient.get(
-        `/integrations/github/repositories?page=1&perPage=60&search=${encodeURIComponent(searchTerm)}`,
+        `/integrations/${provider}/repositories?page=1&perPage=60&search=${encodeURIComponent(searchTerm)}`,
       );
       setRepos(data.repositories ?? []);
     } catch (error) {
@@ -115,9 +127,12 @@ export default function IntegrationsPage() {
   };
 
   useEffect(() => {
+    setStatus(null);
+    setRepos([]);
+    setSelectedRepo(null);
     loadStatus().catch(() => undefined);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [provider]);
 
   useEffect(() => {
     if (status?.connected) {
@@ -141,12 +156,31 @@ export default function IntegrationsPage() {
     }
   };
 
-  const disconnectGitHub = async () => {
+  const connectWithToken = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setConnecting(true);
     try {
-      await apiClient.delete('/integrations/github/connection');
+      await apiClient.post(`/integrations/${provider}/connection`, {
+        accessToken: tokenForm.accessToken,
+        ...(provider === 'gitlab' && tokenForm.baseUrl.trim() && { baseUrl: tokenForm.baseUrl.trim() }),
+        ...(provider === 'bitbucket' && { username: tokenForm.username.trim() }),
+      });
+      setTokenForm({ accessToken: '', baseUrl: '', username: '' });
+      setMessage(`${GIT_PROVIDER_LABELS[provider]} connected successfully.`);
+      await loadStatus();
+    } catch (error) {
+      setMessage((error as Error).message);
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const disconnectProvider = async () => {
+    try {
+      await apiClient.delete(`/integrations/${provider}/connection`);
       setRepos([]);
       setSelectedRepo(null);
-      setMessage('GitHub account disconnected.');
+      setMessage(`${GIT_PROVIDER_LABELS[provider]} account disconnected.`);
       await loadStatus();
     } catch (error) {
       setMessage((error as Error).message);
@@ -170,6 +204,7 @@ export default function IntegrationsPage() {
 
     try {
       const result = await apiClient.patch(`/projects/${selectedProjectId}/git-settings`, {
+        gitProvider: provider,
         repoUrl: `${selectedRepo.htmlUrl}.git`,
         repoOwner: selectedRepo.owner,
         repoName: selectedRepo.name,
@@ -185,7 +220,7 @@ export default function IntegrationsPage() {
         setMessage(
           `Linked ${selectedRepo.fullName} to ${selectedProject?.name ?? 'project'} and ${
             webhookCreated ? 'created' : 'updated'
-          } the GitHub push webhook.`,
+          } the ${GIT_PROVIDER_LABELS[provider]} push webhook.`,
         );
       } else {
         setMessage(`Linked ${selectedRepo.fullName} to ${selectedProject?.name ?? 'project'}.`);
@@ -198,9 +233,21 @@ export default function IntegrationsPage() {
   return (
     <div className="space-y-4">
       <SectionCard
-        title="GitHub Integration"
-        subtitle="Connect GitHub once, then link repositories to projects for Vercel-style push deploys."
+        title="Git Integration"
+        subtitle="Connect GitHub, GitLab or Bitbucket once, then link repositories to projects for push deploys."
       >
+        <div className="mb-3 flex flex-wrap gap-2">
+          {(Object.keys(GIT_PROVIDER_LABELS) as GitProvider[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={option === provider ? 'btn-primary' : 'btn-secondary'}
+              onClick={() => setProvider(option)}
+            >
+              {GIT_PROVIDER_LABELS[option]}
+            </button>
+          ))}
+        </div>
         <div className="panel-muted flex flex-wrap items-center justify-between gap-3 p-4">
           <div>
             <p className="text-sm font-semibold text-slate-900">Connection status</p>
@@ -214,12 +261,16 @@ export default function IntegrationsPage() {
                   {!status?.configured
                     ? 'GitHub OAuth not configured on server'
                     : status.connected
-                      ? `Connected as @${status.connection?.username}`
+                      ? `Connected as @${status.connection?.username}${
+                          status.connection?.baseUrl ? ` on ${status.connection.baseUrl}` : ''
+                        }`
                       : 'Not connected'}
                 </p>
-                <p className="text-xs text-slate-500">
-                  OAuth callback: <span className="mono">{status?.oauthRedirectUri ?? '-'}</span>
-                </p>
+                {provider === 'github' ? (
+                  <p className="text-xs text-slate-500">
+                    OAuth callback: <span className="mono">{status?.oauthRedirectUri ?? '-'}</span>
+                  </p>
+                ) : null}
                 <p className="text-xs text-slate-500">
                   Push webhook: <span className="mono">{status?.webhookUrl ?? '-'}</span>
                 </p>
@@ -230,17 +281,55 @@ export default function IntegrationsPage() {
             )}
           </div>
           <div className="flex gap-2">
-            {!status?.connected ? (
+            {status?.connected ? (
+              <button className="btn-danger" onClick={disconnectProvider}>
+                Disconnect
+              </button>
+            ) : provider === 'github' ? (
               <button className="btn-primary" onClick={connectGitHub} disabled={loadingStatus || !status?.configured}>
                 Connect GitHub
               </button>
-            ) : (
-              <button className="btn-danger" onClick={disconnectGitHub}>
-                Disconnect
-              </button>
-            )}
+            ) : null}
           </div>
         </div>
+        {provider !== 'github' && !loadingStatus && !status?.connected ? (
+          <form onSubmit={connectWithToken} className="mt-3 grid gap-3 md:grid-cols-3">
+            {provider === 'gitlab' ? (
+              <label>
+                <span className="field-label">GitLab URL</span>
+                <input
+                  value={tokenForm.baseUrl}
+                  onChange={(event) => setTokenForm((current) => ({ ...current, baseUrl: event.target.value }))}
+                  placeholder="https://gitlab.com"
+                  className="field-input"
+                />
+              </label>
+            ) : (
+              <label>
+                <span className="field-label">Bitbucket username</span>
+                <input
+                  value={tokenForm.username}
+                  onChange={(event) => setTokenForm((current) => ({ ...current, username: event.target.value }))}
+                  className="field-input"
+                  required
+                />
+              </label>
+            )}
+            <label>
+              <span className="field-label">{provider === 'gitlab' ? 'Access token (api scope)' : 'App password'}</span>
+              <input
+                type="password"
+                value={tokenForm.accessToken}
+                onChange={(event) => setTokenForm((current) => ({ ...current, accessToken: event.target.value }))}
+                className="field-input"
+                required
+              />
+            </label>
+            <button className="btn-primary self-end" type="submit" disabled={connecting}>
+              {connecting ? 'Connecting...' : `Connect ${GIT_PROVIDER_LABELS[provider]}`}
+            </button>
+          </form>
+        ) : null}
       </SectionCard>
 
       <SectionCard
@@ -268,7 +357,7 @@ export default function IntegrationsPage() {
             ))}
           </div>
         ) : !status?.connected ? (
-          <p className="text-sm text-slate-600">Connect GitHub to import repositories.</p>
+          <p className="text-sm text-slate-600">Connect {GIT_PROVIDER_LABELS[provider]} to import repositories.</p>
         ) : loadingRepos && !repos.length ? (
           <div className="grid gap-2 rounded-xl border border-slate-200 p-2">
             {[0, 1, 2].map((placeholder) => (
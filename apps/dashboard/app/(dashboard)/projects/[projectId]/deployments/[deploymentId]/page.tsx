@@ -28,14 +28,21 @@ interface DeploymentDetail {
   url: string | null;
   branch: string | null;
   commitSha: string | null;
+  pullRequestNumber: number | null;
   imageTag: string | null;
   buildLogs: string | null;
   deployLogs: string | null;
   errorMessage: string | null;
   gitUrl: string | null;
+  sourceType?: 'git' | 'image';
+  imageReference?: string | null;
+  imageDigest?: string | null;
   isCanary: boolean;
   canaryStartedAt: string | null;
   canaryPromotedAt: string | null;
+  canaryPlan: { steps: number[]; stepDwellSeconds: number } | null;
+  canaryStepIndex: number;
+  canaryStepStartedAt: string | null;
   createdAt: string;
   startedAt: string | null;
   finishedAt: string | null;
@@ -112,6 +119,19 @@ function formatDeploymentOptionLabel(deployment: DeploymentListItem): string {
   return `${deployment.id.slice(0, 8)} - ${envLabel} - ${refLabel}`;
 }
 
+function parseCanarySteps(value: string): number[] | null {
+  const steps = value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => parsePercentInput(entry));
+  if (steps.length === 0 || steps.length > 10 || steps.some((step) => step === null)) {
+    return null;
+  }
+  const percents = steps as number[];
+  return percents.every((step, index) => index === 0 || step > percents[index - 1]!) ? percents : null;
+}
+
 function parsePercentInput(value: string): number | null {
   const trimmed = value.trim();
   if (!trimmed) {
@@ -145,6 +165,9 @@ export default function DeploymentDetailPage() {
   const [queuedRefreshUntil, setQueuedRefreshUntil] = useState<number | null>(null);
   const [canarySourceMode, setCanarySourceMode] = useState<CanarySourceMode>('latest');
   const [canaryPercentInput, setCanaryPercentInput] = useState('10');
+  const [canaryAutoAnalysis, setCanaryAutoAnalysis] = useState(false);
+  const [canaryStepsInput, setCanaryStepsInput] = useState('10, 25, 50');
+  const [canaryDwellMinutesInput, setCanaryDwellMinutesInput] = useState('10');
   const [selectedPreviewDeploymentId, setSelectedPreviewDeploymentId] = useState('');
   const [selectedCandidateDeploymentId, setSelectedCandidateDeploymentId] = useState('');
   const [explicitBranch, setExplicitBranch] = useState('');
@@ -261,13 +284,28 @@ export default function DeploymentDetailPage() {
       return;
     }
 
-    const percent = parsePercentInput(canaryPercentInput);
-    if (!percent) {
-      setActionMessage('Enter a canary percentage between 1 and 99.');
-      return;
+    const payload: Record<string, unknown> = {};
+    if (canaryAutoAnalysis) {
+      const steps = parseCanarySteps(canaryStepsInput);
+      if (!steps) {
+        setActionMessage('Enter up to 10 increasing traffic steps between 1 and 99, separated by commas.');
+        return;
+      }
+      const dwellMinutes = Number.parseInt(canaryDwellMinutesInput.trim(), 10);
+      if (!Number.isFinite(dwellMinutes) || dwellMinutes < 1 || dwellMinutes > 1440) {
+        setActionMessage('Enter a step duration between 1 and 1440 minutes.');
+        return;
+      }
+      payload.plan = { steps, stepDwellSeconds: dwellMinutes * 60 };
+    } else {
+      const percent = parsePercentInput(canaryPercentInput);
+      if (!percent) {
+        setActionMessage('Enter a canary percentage between 1 and 99.');
+        return;
+      }
+      payload.percent = percent;
     }
 
-    const payload: Record<string, string | number> = { percent };
     if (canarySourceMode === 'preview') {
       if (!selectedPreviewDeploymentId) {
         setActionMessage('Choose a preview deployment to reuse as the canary candidate.');
@@ -639,17 +677,31 @@ export default function DeploymentDetailPage() {
                   </p>
 
                   <div className="grid gap-4 md:grid-cols-[120px_1fr]">
-                    <label>
-                      <span className="field-label">Percent</span>
-                      <input
-                        type="number"
-                        min={1}
-                        max={99}
-                        value={canaryPercentInput}
-                        onChange={(event) => setCanaryPercentInput(event.target.value)}
-                        className="field-input"
-                      />
-                    </label>
+                    {canaryAutoAnalysis ? (
+                      <label>
+                        <span className="field-label">Minutes per step</span>
+                        <input
+                          type="number"
+                          min={1}
+                          max={1440}
+                          value={canaryDwellMinutesInput}
+                          onChange={(event) => setCanaryDwellMinutesInput(event.target.value)}
+                          className="field-input"
+                        />
+                      </label>
+                    ) : (
+                      <label>
+                        <span className="field-label">Percent</span>
+                        <input
+                          type="number"
+                          min={1}
+                          max={99}
+                          value={canaryPercentInput}
+                          onChange={(event) => setCanaryPercentInput(event.target.value)}
+                          className="field-input"
+                        />
+                      </label>
+                    )}
 
                     <div>
                       <span className="field-label">Source</span>
@@ -677,6 +729,31 @@ export default function DeploymentDetailPage() {
                     </div>
                   </div>
 
+                  <label className="flex items-start gap-2 text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={canaryAutoAnalysis}
+                      onChange={(event) => setCanaryAutoAnalysis(event.target.checked)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      Analyze automatically: advance through traffic steps while the canary&apos;s 5xx rate, p95
+                      latency and restarts stay close to stable, then promote; abort on a regression.
+                    </span>
+                  </label>
+
+                  {canaryAutoAnalysis ? (
+                    <label className="block">
+                      <span className="field-label">Traffic steps (%)</span>
+                      <input
+                        value={canaryStepsInput}
+                        onChange={(event) => setCanaryStepsInput(event.target.value)}
+                        className="field-input font-mono text-xs"
+                        placeholder="10, 25, 50"
+                      />
+                    </label>
+                  ) : null}
+
                   {canarySourceMode === 'latest' ? (
                     <div className="rounded-lg border border-dashed border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-600">
                       The canary will build from the latest commit on <span className="font-semibold text-slate-800">{deployment.branch ?? 'the configured branch'}</span>.
@@ -808,6 +885,15 @@ export default function DeploymentDetailPage() {
                     </div>
                   </div>
 
+                  {deployment.canaryPlan ? (
+                    <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-600">
+                      Automatic analysis: step {deployment.canaryStepIndex + 1} of {deployment.canaryPlan.steps.length} (
+                      {deployment.canaryPlan.steps.map((step) => `${step}%`).join(' → ')}), at least{' '}
+                      {Math.round(deployment.canaryPlan.stepDwellSeconds / 60)} min per step. Updating traffic by hand
+                      stops the plan.
+                    </div>
+                  ) : null}
+
                   {deployment.canaryStartedAt ? (
                     <p className="text-xs text-slate-500">Canary started {formatDateTime(deployment.canaryStartedAt)}.</p>
                   ) : null}
@@ -943,6 +1029,23 @@ export default function DeploymentDetailPage() {
                     <span className="font-medium">{deployment.branch}</span>
                   </div>
                 )}
+                {deployment.pullRequestNumber !== null && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-slate-400">pull request</span>
+                    {deployment.project.repoFullName ? (
+                      <a
+                        href={`https://github.com/${deployment.project.repoFullName}/pull/${deployment.pullRequestNumber}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="font-medium text-slate-800 hover:underline"
+                      >
+                        #{deployment.pullRequestNumber}
+                      </a>
+                    ) : (
+                      <span className="font-medium text-slate-800">#{deployment.pullRequestNumber}</span>
+                    )}
+                  </div>
+                )}
                 {deployment.commitSha && (
                   <div className="flex items-center gap-2 text-sm">
                     <span className="text-slate-400">commit</span>
@@ -951,6 +1054,25 @@ export default function DeploymentDetailPage() {
                     </code>
                   </div>
                 )}
+                {deployment.imageReference && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-slate-400">image</span>
+                    <code className="break-all rounded bg-slate-100 px-1.5 py-0.5 text-xs font-mono text-slate-700">
+                      {deployment.imageReference}
+                    </code>
+                  </div>
+                )}
+                {deployment.imageDigest && deployment.imageDigest !== deployment.imageReference && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-slate-400">digest</span>
+                    <code
+                      className="rounded bg-slate-100 px-1.5 py-0.5 text-xs font-mono text-slate-700"
+                      title={deployment.imageDigest}
+                    >
+                      {deployment.imageDigest.split('@').pop()?.slice(0, 19)}
+                    </code>
+                  </div>
+                )}
                 {deployment.gitUrl && (
                   <a
                     href={deployment.gitUrl}
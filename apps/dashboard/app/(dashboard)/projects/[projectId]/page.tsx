@@ -5,7 +5,12 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 
 import { DeployForm } from '../../../../components/deploy-form';
+import { AutoscalingSettings } from '../../../../components/autoscaling-settings';
 import { ContainerLogViewer } from '../../../../components/container-log-viewer';
+import { CronJobsPanel } from '../../../../components/cron-jobs-panel';
+import { GracefulShutdownSettings } from '../../../../components/graceful-shutdown-settings';
+import { HealthCheckSettings } from '../../../../components/health-check-settings';
+import { ProjectVolumesPanel } from '../../../../components/project-volumes-panel';
 import { ResourceSlider } from '../../../../components/resource-slider';
 import { apiClient } from '../../../../lib/api';
 import { getDeploymentRuntimeGuide } from '../../../../lib/deployment-runtime-guides';
@@ -16,9 +21,21 @@ import { useWorkspaceContext } from '../../../../components/workspace-provider';
 const ENV_KEY_PATTERN = /^[A-Z_][A-Z0-9_]*$/;
 const OTP_PATTERN = /^\d{6}$/;
 
+type SecretScope = 'shared' | 'production' | 'preview' | 'branch';
+
+const SECRET_SCOPE_OPTIONS: Array<{ value: SecretScope; label: string }> = [
+  { value: 'shared', label: 'Shared (all deployments)' },
+  { value: 'production', label: 'Production' },
+  { value: 'preview', label: 'Preview' },
+  { value: 'branch', label: 'Branch' },
+];
+
 interface ProjectSecretSummary {
   id: string;
   key: string;
+  scope: SecretScope;
+  branch: string;
+  valueType: 'literal' | 'reference';
   createdAt: string;
   updatedAt: string;
 }
@@ -117,13 +134,33 @@ interface ProjectUsageDetails {
   };
 }
 
-type Tab = 'deployments' | 'settings' | 'domains' | 'environment' | 'usage' | 'realtime-logs';
+interface ImageSourceSettings {
+  sourceType: 'git' | 'image';
+  imageReference: string | null;
+  registryCredential: {
+    registry: string;
+    username: string;
+    updatedAt: string;
+  } | null;
+}
+
+type Tab =
+  | 'deployments'
+  | 'settings'
+  | 'domains'
+  | 'environment'
+  | 'cron-jobs'
+  | 'volumes'
+  | 'usage'
+  | 'realtime-logs';
 
 const TABS: { key: Tab; label: string }[] = [
   { key: 'deployments', label: 'Deployments' },
   { key: 'settings', label: 'Settings' },
   { key: 'domains', label: 'Domains' },
   { key: 'environment', label: 'Environment Variables' },
+  { key: 'cron-jobs', label: 'Cron Jobs' },
+  { key: 'volumes', label: 'Volumes' },
   { key: 'usage', label: 'Usage' },
   { key: 'realtime-logs', label: 'Realtime Logs' },
 ];
@@ -176,6 +213,12 @@ function formatDeploymentDuration(
   return `${minutes}m ${seconds}s`;
 }
 
+const splitPathFilters = (value: string): string[] =>
+  value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
 function formatDeploymentDate(iso: string): string {
   return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 }
@@ -391,12 +434,19 @@ export default function ProjectDetailPage() {
     refresh().catch(() => undefined);
   }, [loadDeployments, refresh]);
 
-  const handleRollback = async (deploymentId: string) => {
+  const handleRollback = async (deploymentId: string, restoreSecrets = false) => {
     try {
       setDeploymentAction(deploymentId);
-      await apiClient.post(`/deployments/${deploymentId}/rollback`, {});
-      setMessage('Rollback initiated â€” a new deployment will start from the previous image.');
+      await apiClient.post(`/deployments/${deploymentId}/rollback`, { restoreSecrets });
+      setMessage(
+        restoreSecrets
+          ? 'Rollback initiated with the secrets that deployment ran with.'
+          : 'Rollback initiated â€” a new deployment will start from the previous image.',
+      );
       await loadDeployments();
+      if (restoreSecrets) {
+        await loadProjectSecrets();
+      }
     } catch (error) {
       setMessage(`Rollback failed: ${(error as Error).message}`);
     } finally {
@@ -437,21 +487,38 @@ export default function ProjectDetailPage() {
   const [deleteOtpRequesting, setDeleteOtpRequesting] = useState(false);
   const [deletingProject, setDeletingProject] = useState(false);
   const [deleteProjectMessage, setDeleteProjectMessage] = useState('');
+  const [purgingBuildCache, setPurgingBuildCache] = useState(false);
+  const [imageSource, setImageSource] = useState<ImageSourceSettings | null>(null);
+  const [imageSourceDraft, setImageSourceDraft] = useState({
+    sourceType: 'git' as 'git' | 'image',
+    imageReference: '',
+  });
+  const [registryDraft, setRegistryDraft] = useState({ registry: '', username: '', password: '' });
+  const [imageSourceSaving, setImageSourceSaving] = useState(false);
+  const [imageSourceMessage, setImageSourceMessage] = useState('');
   const [projectSettings, setProjectSettings] = useState({
     repoUrl: '',
     branch: 'main',
     rootDirectory: '',
     buildCommand: '',
     startCommand: '',
+    releaseCommand: '',
     targetPort: 3000,
     wakeMessage: '',
     wakeRetrySeconds: 5,
     autoDeployEnabled: true,
-    serviceType: 'web_service' as 'web_service' | 'static_site' | 'python',
+    serviceType: 'web_service' as
+      'web_service' | 'static_site' | 'python' | 'dockerfile' | 'worker',
+    workerRuntime: 'node' as 'node' | 'python',
     outputDirectory: '',
+    dockerfilePath: '',
+    dockerTarget: '',
+    includePaths: '',
+    excludePaths: '',
     ram: 512,
     cpu: 500,
     bandwidth: 50,
+    replicas: 1,
   });
   const projectServiceGuide = getDeploymentRuntimeGuide(projectSettings.serviceType);
 
@@ -487,16 +554,24 @@ export default function ProjectDetailPage() {
       rootDirectory: project.rootDirectory ?? '',
       buildCommand: project.buildCommand ?? '',
       startCommand: project.startCommand ?? '',
+      releaseCommand: project.releaseCommand ?? '',
       targetPort: project.targetPort ?? 3000,
       wakeMessage: project.wakeMessage ?? '',
       wakeRetrySeconds: Math.max(1, Math.min(60, project.wakeRetrySeconds ?? 5)),
       autoDeployEnabled: project.autoDeployEnabled,
       serviceType:
-        (project.serviceType as 'web_service' | 'static_site' | 'python') ?? 'web_service',
+        (project.serviceType as
+          'web_service' | 'static_site' | 'python' | 'dockerfile' | 'worker') ?? 'web_service',
+      workerRuntime: project.runtime === 'python' ? 'python' : 'node',
       outputDirectory: project.outputDirectory ?? '',
+      dockerfilePath: project.dockerfilePath ?? '',
+      dockerTarget: project.dockerTarget ?? '',
+      includePaths: (project.includePaths ?? []).join('\n'),
+      excludePaths: (project.excludePaths ?? []).join('\n'),
       ram: project.resourceRamMb,
       cpu: project.resourceCpuMillicore,
       bandwidth: project.resourceBandwidthGb,
+      replicas: project.replicaCount ?? 1,
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [project?.id]);
@@ -520,6 +595,89 @@ export default function ProjectDetailPage() {
     );
   }, [autoDeployLocked]);
 
+  const purgeBuildCache = async () => {
+    if (!projectId) return;
+    try {
+      setPurgingBuildCache(true);
+      await apiClient.delete(`/projects/${projectId}/build-cache`);
+      setMessage('Build cache purged. The next deployment rebuilds every layer from scratch.');
+      await refresh();
+    } catch (error) {
+      setMessage(`Build cache purge failed: ${(error as Error).message}`);
+    } finally {
+      setPurgingBuildCache(false);
+    }
+  };
+
+  const loadImageSource = useCallback(async () => {
+    if (!projectId) return;
+    try {
+      const data = (await apiClient.get(
+        `/projects/${projectId}/image-source`,
+      )) as ImageSourceSettings;
+      setImageSource(data);
+      setImageSourceDraft({
+        sourceType: data.sourceType,
+        imageReference: data.imageReference ?? '',
+      });
+      setRegistryDraft((previous) => ({
+        ...previous,
+        registry: data.registryCredential?.registry ?? previous.registry,
+        username: data.registryCredential?.username ?? previous.username,
+      }));
+    } catch (error) {
+      setImageSourceMessage((error as Error).message);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (activeTab !== 'settings') {
+      return;
+    }
+    loadImageSource().catch(() => undefined);
+  }, [activeTab, loadImageSource]);
+
+  const saveImageSource = async () => {
+    if (!projectId) return;
+    try {
+      setImageSourceSaving(true);
+      setImageSourceMessage('');
+      await apiClient.put(`/projects/${projectId}/image-source`, {
+        sourceType: imageSourceDraft.sourceType,
+        imageReference: imageSourceDraft.imageReference.trim() || null,
+      });
+      if (registryDraft.registry.trim() && registryDraft.username.trim() && registryDraft.password) {
+        await apiClient.put(`/projects/${projectId}/registry-credentials`, {
+          registry: registryDraft.registry.trim(),
+          username: registryDraft.username.trim(),
+          password: registryDraft.password,
+        });
+        setRegistryDraft((previous) => ({ ...previous, password: '' }));
+      }
+      setImageSourceMessage('Deployment source saved.');
+      await loadImageSource();
+    } catch (error) {
+      setImageSourceMessage(`Saving deployment source failed: ${(error as Error).message}`);
+    } finally {
+      setImageSourceSaving(false);
+    }
+  };
+
+  const removeRegistryCredential = async () => {
+    if (!projectId) return;
+    try {
+      setImageSourceSaving(true);
+      await apiClient.delete(`/projects/${projectId}/registry-credentials`);
+      setRegistryDraft({ registry: '', username: '', password: '' });
+      setImageSourceMessage('Registry credentials removed.');
+      await loadImageSource();
+    } catch (error) {
+      setImageSourceMessage(`Removing registry credentials failed: ${(error as Error).message}`);
+    } finally {
+      setImageSourceSaving(false);
+    }
+  };
+
   const saveProjectWorkspace = async () => {
     if (!projectId) return;
     try {
@@ -532,9 +690,14 @@ export default function ProjectDetailPage() {
           rootDirectory: projectSettings.rootDirectory || null,
           buildCommand: projectSettings.buildCommand || null,
           startCommand:
-            projectSettings.serviceType === 'static_site'
+            projectSettings.serviceType === 'static_site' ||
+            projectSettings.serviceType === 'dockerfile'
               ? null
               : projectSettings.startCommand || null,
+          releaseCommand:
+            projectSettings.serviceType === 'static_site'
+              ? null
+              : projectSettings.releaseCommand.trim() || null,
           targetPort: Number(projectSettings.targetPort),
           wakeMessage: projectSettings.wakeMessage.trim() || null,
           wakeRetrySeconds: Math.max(
@@ -543,10 +706,23 @@ export default function ProjectDetailPage() {
           ),
           autoDeployEnabled: projectSettings.autoDeployEnabled,
           serviceType: projectSettings.serviceType,
+          ...(projectSettings.serviceType === 'worker' && {
+            runtime: projectSettings.workerRuntime,
+          }),
           outputDirectory:
             projectSettings.serviceType === 'static_site'
               ? projectSettings.outputDirectory || null
               : null,
+          dockerfilePath:
+            projectSettings.serviceType === 'dockerfile'
+              ? projectSettings.dockerfilePath.trim() || null
+              : null,
+          dockerTarget:
+            projectSettings.serviceType === 'dockerfile'
+              ? projectSettings.dockerTarget.trim() || null
+              : null,
+          includePaths: splitPathFilters(projectSettings.includePaths),
+          excludePaths: splitPathFilters(projectSettings.excludePaths),
         });
       } catch (error) {
         const msg = (error as Error).message.toLowerCase();
@@ -569,6 +745,9 @@ export default function ProjectDetailPage() {
           Math.max(Number(projectSettings.bandwidth), 1),
           settingsResourceLimits.bandwidth,
         ),
+        ...(!project?.autoscaleEnabled && {
+          replicaCount: Math.min(Math.max(Number(projectSettings.replicas), 1), 20),
+        }),
       });
       await refresh();
       setMessage(
@@ -636,8 +815,12 @@ export default function ProjectDetailPage() {
   const [envRevealingKey, setEnvRevealingKey] = useState('');
   const [envEditingKey, setEnvEditingKey] = useState('');
   const [projectSecrets, setProjectSecrets] = useState<ProjectSecretSummary[]>([]);
+  const [envScope, setEnvScope] = useState<SecretScope>('shared');
+  const [envScopeBranchDraft, setEnvScopeBranchDraft] = useState('');
+  const [envScopeBranch, setEnvScopeBranch] = useState('');
   const [revealedSecrets, setRevealedSecrets] = useState<Record<string, string>>({});
   const [envDraft, setEnvDraft] = useState({ key: '', value: '' });
+  const [envDraftIsReference, setEnvDraftIsReference] = useState(false);
   const [envBulkText, setEnvBulkText] = useState('');
   const [managedDatabases, setManagedDatabases] = useState<ManagedDatabaseSummary[]>([]);
   const [managedDbLoading, setManagedDbLoading] = useState(false);
@@ -652,8 +835,28 @@ export default function ProjectDetailPage() {
     secretKey: 'DATABASE_URL',
   });
 
+  // Each scope is edited on its own; deployments layer shared, environment, then branch.
+  const secretScopeQuery = useMemo(
+    () =>
+      envScope === 'branch'
+        ? `?scope=branch&branch=${encodeURIComponent(envScopeBranch)}`
+        : `?scope=${envScope}`,
+    [envScope, envScopeBranch],
+  );
+  const secretScopeLabel = envScope === 'branch' ? `branch ${envScopeBranch}` : envScope;
+
+  const selectSecretScope = (scope: SecretScope, branch = '') => {
+    setEnvScope(scope);
+    setEnvScopeBranch(branch);
+    setRevealedSecrets({});
+    setEnvEditingKey('');
+    setEnvDraft({ key: '', value: '' });
+    setEnvDraftIsReference(false);
+    setEnvMessage('');
+  };
+
   const loadProjectSecrets = useCallback(async () => {
-    if (!projectId) {
+    if (!projectId || (envScope === 'branch' && !envScopeBranch)) {
       setProjectSecrets([]);
       setRevealedSecrets({});
       setEnvEditingKey('');
@@ -662,7 +865,7 @@ export default function ProjectDetailPage() {
     }
     try {
       setEnvLoading(true);
-      const data = (await apiClient.get(`/projects/${projectId}/secrets`)) as {
+      const data = (await apiClient.get(`/projects/${projectId}/secrets${secretScopeQuery}`)) as {
         secrets?: ProjectSecretSummary[];
       };
       const secrets = data.secrets ?? [];
@@ -687,7 +890,7 @@ export default function ProjectDetailPage() {
     } finally {
       setEnvLoading(false);
     }
-  }, [projectId]);
+  }, [projectId, envScope, envScopeBranch, secretScopeQuery]);
 
   useEffect(() => {
     loadProjectSecrets().catch(() => undefined);
@@ -738,7 +941,10 @@ export default function ProjectDetailPage() {
     }
     try {
       setEnvSaving(true);
-      await apiClient.put(`/projects/${projectId}/secrets/${encodeURIComponent(key)}`, { value });
+      await apiClient.put(
+        `/projects/${projectId}/secrets/${encodeURIComponent(key)}${secretScopeQuery}`,
+        envDraftIsReference ? { reference: value } : { value },
+      );
       setRevealedSecrets((previous) => {
         const next = { ...previous, [key]: value };
         if (editingKey && editingKey !== key) {
@@ -748,8 +954,13 @@ export default function ProjectDetailPage() {
       });
       await loadProjectSecrets();
       setEnvDraft({ key: '', value: '' });
+      setEnvDraftIsReference(false);
       setEnvEditingKey('');
-      setEnvMessage(editingKey ? `${key} updated.` : `${key} saved.`);
+      setEnvMessage(
+        editingKey
+          ? `${key} updated (${secretScopeLabel}).`
+          : `${key} saved (${secretScopeLabel}).`,
+      );
     } catch (error) {
       setEnvMessage((error as Error).message);
     } finally {
@@ -762,7 +973,7 @@ export default function ProjectDetailPage() {
     try {
       setEnvRevealingKey(key);
       const result = (await apiClient.get(
-        `/projects/${projectId}/secrets/${encodeURIComponent(key)}/reveal`,
+        `/projects/${projectId}/secrets/${encodeURIComponent(key)}/reveal${secretScopeQuery}`,
       )) as { value?: string };
       if (typeof result.value !== 'string') {
         throw new Error(`Failed to reveal ${key}.`);
@@ -795,6 +1006,9 @@ export default function ProjectDetailPage() {
   };
 
   const editProjectEnvVar = async (key: string) => {
+    setEnvDraftIsReference(
+      projectSecrets.some((secret) => secret.key === key && secret.valueType === 'reference'),
+    );
     const cachedValue = revealedSecrets[key];
     if (typeof cachedValue === 'string') {
       setEnvDraft({ key, value: cachedValue });
@@ -807,7 +1021,7 @@ export default function ProjectDetailPage() {
     try {
       setEnvRevealingKey(key);
       const result = (await apiClient.get(
-        `/projects/${projectId}/secrets/${encodeURIComponent(key)}/reveal`,
+        `/projects/${projectId}/secrets/${encodeURIComponent(key)}/reveal${secretScopeQuery}`,
       )) as { value?: string };
       if (typeof result.value !== 'string') {
         throw new Error(`Failed to load ${key} for editing.`);
@@ -826,6 +1040,7 @@ export default function ProjectDetailPage() {
   const cancelEditProjectEnvVar = () => {
     setEnvEditingKey('');
     setEnvDraft({ key: '', value: '' });
+    setEnvDraftIsReference(false);
     setEnvMessage('');
   };
 
@@ -839,12 +1054,15 @@ export default function ProjectDetailPage() {
 
     try {
       setEnvBulkSaving(true);
-      const result = (await apiClient.post(`/projects/${projectId}/secrets/bulk`, {
-        envText,
-      })) as { imported?: number };
+      const result = (await apiClient.post(
+        `/projects/${projectId}/secrets/bulk${secretScopeQuery}`,
+        { envText },
+      )) as { imported?: number };
       await loadProjectSecrets();
       setEnvBulkText('');
-      setEnvMessage(`${result.imported ?? 0} environment variables imported.`);
+      setEnvMessage(
+        `${result.imported ?? 0} environment variables imported (${secretScopeLabel}).`,
+      );
     } catch (error) {
       setEnvMessage((error as Error).message);
     } finally {
@@ -862,7 +1080,9 @@ export default function ProjectDetailPage() {
     if (!projectId) return;
     try {
       setEnvDeletingKey(key);
-      await apiClient.delete(`/projects/${projectId}/secrets/${encodeURIComponent(key)}`);
+      await apiClient.delete(
+        `/projects/${projectId}/secrets/${encodeURIComponent(key)}${secretScopeQuery}`,
+      );
       setProjectSecrets((prev) => prev.filter((s) => s.key !== key));
       setRevealedSecrets((previous) => {
         if (!Object.prototype.hasOwnProperty.call(previous, key)) {
@@ -876,7 +1096,7 @@ export default function ProjectDetailPage() {
         setEnvEditingKey('');
         setEnvDraft({ key: '', value: '' });
       }
-      setEnvMessage(`${key} deleted.`);
+      setEnvMessage(`${key} deleted (${secretScopeLabel}).`);
     } catch (error) {
       setEnvMessage((error as Error).message);
     } finally {
@@ -1061,7 +1281,16 @@ export default function ProjectDetailPage() {
         <div className="mt-3 flex flex-wrap items-end justify-between gap-4">
           <div>
             <h2 className="title-gradient text-2xl font-semibold">{project.name}</h2>
-            <p className="mono mt-1 text-xs text-slate-600">{project.slug}</p>
+            <p className="mono mt-1 text-xs text-slate-600">
+              {project.slug}
+              <span
+                className="text-slate-400"
+                title="Private hostname for the organization's other projects"
+              >
+                {' · '}
+                {project.slug}.internal
+              </span>
+            </p>
           </div>
           <div className="flex items-center gap-2">
             <Link
@@ -1452,6 +1681,25 @@ export default function ProjectDetailPage() {
                             </button>
                           )}
 
+                        {dep.environment === 'production' &&
+                          dep.status === 'ready' &&
+                          dep.imageTag &&
+                          !isActive &&
+                          !dep.isCanary && (
+                            <button
+                              type="button"
+                              className="rounded-md bg-slate-200 px-2.5 py-1 text-[11px] font-medium text-slate-900 transition hover:bg-slate-300"
+                              title="Also restore the secret versions this deployment ran with"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRollback(dep.id, true);
+                              }}
+                              disabled={deploymentAction === dep.id}
+                            >
+                              {deploymentAction === dep.id ? '...' : 'Rollback + secrets'}
+                            </button>
+                          )}
+
                         {dep.environment === 'preview' && dep.status === 'ready' && (
                           <button
                             type="button"
@@ -1543,6 +1791,34 @@ export default function ProjectDetailPage() {
                     React, Vue, Vite, Next export
                   </span>
                 </button>
+                <button
+                  type="button"
+                  className={`px-4 py-2 text-xs font-medium transition-colors ${
+                    projectSettings.serviceType === 'dockerfile'
+                      ? 'bg-slate-900 text-white'
+                      : 'bg-white text-slate-600 hover:bg-slate-50'
+                  }`}
+                  onClick={() => setProjectSettings((p) => ({ ...p, serviceType: 'dockerfile' }))}
+                >
+                  <span className="block">Dockerfile</span>
+                  <span className="block text-[10px] opacity-70">
+                    Build your repository&apos;s Dockerfile
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  className={`px-4 py-2 text-xs font-medium transition-colors ${
+                    projectSettings.serviceType === 'worker'
+                      ? 'bg-slate-900 text-white'
+                      : 'bg-white text-slate-600 hover:bg-slate-50'
+                  }`}
+                  onClick={() => setProjectSettings((p) => ({ ...p, serviceType: 'worker' }))}
+                >
+                  <span className="block">Worker</span>
+                  <span className="block text-[10px] opacity-70">
+                    Queue consumer, no public URL
+                  </span>
+                </button>
               </div>
             </div>
 
@@ -1575,19 +1851,38 @@ export default function ProjectDetailPage() {
                   placeholder={`${projectServiceGuide.fields.rootDirectory} (leave blank if root)`}
                 />
               </label>
-              <label>
-                <span className="field-label">Port</span>
-                <input
-                  type="number"
-                  min={1}
-                  max={65535}
-                  value={projectSettings.targetPort}
-                  onChange={(e) =>
-                    setProjectSettings((p) => ({ ...p, targetPort: Number(e.target.value) }))
-                  }
-                  className="field-input"
-                />
-              </label>
+              {projectSettings.serviceType === 'worker' ? (
+                <label>
+                  <span className="field-label">Worker runtime</span>
+                  <select
+                    value={projectSettings.workerRuntime}
+                    onChange={(e) =>
+                      setProjectSettings((p) => ({
+                        ...p,
+                        workerRuntime: e.target.value as 'node' | 'python',
+                      }))
+                    }
+                    className="field-input"
+                  >
+                    <option value="node">Node.js</option>
+                    <option value="python">Python</option>
+                  </select>
+                </label>
+              ) : (
+                <label>
+                  <span className="field-label">Port</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={65535}
+                    value={projectSettings.targetPort}
+                    onChange={(e) =>
+                      setProjectSettings((p) => ({ ...p, targetPort: Number(e.target.value) }))
+                    }
+                    className="field-input"
+                  />
+                </label>
+              )}
               <label>
                 <span className="field-label">Wake retry (seconds)</span>
                 <input
@@ -1604,18 +1899,49 @@ export default function ProjectDetailPage() {
                   className="field-input"
                 />
               </label>
-              <label>
-                <span className="field-label">Build command</span>
-                <input
-                  value={projectSettings.buildCommand}
-                  onChange={(e) =>
-                    setProjectSettings((p) => ({ ...p, buildCommand: e.target.value }))
-                  }
-                  className="field-input"
-                  placeholder={projectServiceGuide.fields.buildCommand}
-                />
-              </label>
-              {projectSettings.serviceType !== 'static_site' && (
+              {projectSettings.serviceType === 'dockerfile' ? (
+                <>
+                  <label>
+                    <span className="field-label">Dockerfile path</span>
+                    <input
+                      value={projectSettings.dockerfilePath}
+                      onChange={(e) =>
+                        setProjectSettings((p) => ({ ...p, dockerfilePath: e.target.value }))
+                      }
+                      className="field-input"
+                      placeholder="Dockerfile"
+                    />
+                    <span className="text-[10px] text-slate-400">
+                      Relative to the root directory.
+                    </span>
+                  </label>
+                  <label>
+                    <span className="field-label">Build target (optional)</span>
+                    <input
+                      value={projectSettings.dockerTarget}
+                      onChange={(e) =>
+                        setProjectSettings((p) => ({ ...p, dockerTarget: e.target.value }))
+                      }
+                      className="field-input"
+                      placeholder="runtime"
+                    />
+                  </label>
+                </>
+              ) : (
+                <label>
+                  <span className="field-label">Build command</span>
+                  <input
+                    value={projectSettings.buildCommand}
+                    onChange={(e) =>
+                      setProjectSettings((p) => ({ ...p, buildCommand: e.target.value }))
+                    }
+                    className="field-input"
+                    placeholder={projectServiceGuide.fields.buildCommand}
+                  />
+                </label>
+              )}
+              {projectSettings.serviceType !== 'static_site' &&
+                projectSettings.serviceType !== 'dockerfile' && (
                 <label>
                   <span className="field-label">Start command</span>
                   <input
@@ -1630,6 +1956,22 @@ export default function ProjectDetailPage() {
                   />
                 </label>
               )}
+              {projectSettings.serviceType !== 'static_site' && (
+                <label>
+                  <span className="field-label">Release command (optional)</span>
+                  <input
+                    value={projectSettings.releaseCommand}
+                    onChange={(e) =>
+                      setProjectSettings((p) => ({ ...p, releaseCommand: e.target.value }))
+                    }
+                    className="field-input"
+                    placeholder="npx prisma migrate deploy"
+                  />
+                  <span className="text-[10px] text-slate-400">
+                    Runs once per deployment before traffic moves; a failure cancels the rollout.
+                  </span>
+                </label>
+              )}
               <label className="md:col-span-2">
                 <span className="field-label">Wake message (optional)</span>
                 <input
@@ -1675,6 +2017,34 @@ export default function ProjectDetailPage() {
                   Auto deploy is not available for this workspace plan.
                 </p>
               )}
+              <label>
+                <span className="field-label">Watch paths (optional)</span>
+                <textarea
+                  value={projectSettings.includePaths}
+                  onChange={(e) =>
+                    setProjectSettings((p) => ({ ...p, includePaths: e.target.value }))
+                  }
+                  className="field-input min-h-20 font-mono text-xs"
+                  placeholder={'apps/api/**\npackages/shared/**'}
+                />
+                <span className="text-[10px] text-slate-400">
+                  One glob per line. Pushes that touch none of these paths are skipped.
+                </span>
+              </label>
+              <label>
+                <span className="field-label">Ignored paths (optional)</span>
+                <textarea
+                  value={projectSettings.excludePaths}
+                  onChange={(e) =>
+                    setProjectSettings((p) => ({ ...p, excludePaths: e.target.value }))
+                  }
+                  className="field-input min-h-20 font-mono text-xs"
+                  placeholder={'**/*.md\ndocs/**'}
+                />
+                <span className="text-[10px] text-slate-400">
+                  Changes only to these paths never trigger an auto-deploy.
+                </span>
+              </label>
             </div>
 
             <div className="space-y-4 border-t border-slate-200 pt-5">
@@ -1714,6 +2084,27 @@ export default function ProjectDetailPage() {
                 unit="GB"
                 onChange={(bandwidth) => setProjectSettings((p) => ({ ...p, bandwidth }))}
               />
+              {project?.autoscaleEnabled ? (
+                <p className="text-sm text-slate-600">
+                  Replicas are managed by the autoscaler (currently {projectSettings.replicas}).
+                  Change the bounds under Autoscaling below.
+                </p>
+              ) : (
+                <ResourceSlider
+                  label="Replicas"
+                  min={1}
+                  max={20}
+                  value={projectSettings.replicas}
+                  unit={projectSettings.replicas === 1 ? 'replica' : 'replicas'}
+                  onChange={(replicas) => setProjectSettings((p) => ({ ...p, replicas }))}
+                />
+              )}
+              <p className="text-xs text-slate-500">
+                Each replica gets the RAM and CPU above, so the pool is charged{' '}
+                {projectSettings.ram * projectSettings.replicas} MB RAM and{' '}
+                {projectSettings.cpu * projectSettings.replicas} mCPU. Traffic is balanced across
+                replicas; the new count applies from the next deployment.
+              </p>
             </div>
 
             <div className="flex items-center gap-3 border-t border-slate-200 pt-4">
@@ -1727,6 +2118,131 @@ export default function ProjectDetailPage() {
               </button>
             </div>
 
+            <div className="space-y-3 rounded-xl border border-slate-200 p-4">
+              <div>
+                <h3 className="text-base font-semibold text-slate-900">Deployment source</h3>
+                <p className="mt-1 text-sm text-slate-500">
+                  Build from the repository, or deploy a prebuilt image from a registry. Images are
+                  pinned to the digest they resolved to, so rollbacks run the exact same bytes.
+                </p>
+              </div>
+              <div className="flex w-fit overflow-hidden rounded-lg border border-slate-200">
+                {(['git', 'image'] as const).map((sourceType) => (
+                  <button
+                    key={sourceType}
+                    type="button"
+                    className={`px-4 py-2 text-xs font-medium transition-colors ${
+                      imageSourceDraft.sourceType === sourceType
+                        ? 'bg-slate-900 text-white'
+                        : 'bg-white text-slate-600 hover:bg-slate-50'
+                    }`}
+                    onClick={() => setImageSourceDraft((p) => ({ ...p, sourceType }))}
+                  >
+                    {sourceType === 'git' ? 'Git repository' : 'Container image'}
+                  </button>
+                ))}
+              </div>
+              {imageSourceDraft.sourceType === 'image' ? (
+                <div className="grid gap-3 md:grid-cols-2">
+                  <label className="md:col-span-2">
+                    <span className="field-label">Image</span>
+                    <input
+                      value={imageSourceDraft.imageReference}
+                      onChange={(e) =>
+                        setImageSourceDraft((p) => ({ ...p, imageReference: e.target.value }))
+                      }
+                      className="field-input"
+                      placeholder="ghcr.io/acme/api:1.4.2"
+                    />
+                  </label>
+                  <label>
+                    <span className="field-label">Registry (private images)</span>
+                    <input
+                      value={registryDraft.registry}
+                      onChange={(e) => setRegistryDraft((p) => ({ ...p, registry: e.target.value }))}
+                      className="field-input"
+                      placeholder="ghcr.io"
+                    />
+                  </label>
+                  <label>
+                    <span className="field-label">Registry username</span>
+                    <input
+                      value={registryDraft.username}
+                      onChange={(e) => setRegistryDraft((p) => ({ ...p, username: e.target.value }))}
+                      className="field-input"
+                    />
+                  </label>
+                  <label className="md:col-span-2">
+                    <span className="field-label">Registry password or token</span>
+                    <input
+                      type="password"
+                      value={registryDraft.password}
+                      onChange={(e) => setRegistryDraft((p) => ({ ...p, password: e.target.value }))}
+                      className="field-input"
+                      placeholder={imageSource?.registryCredential ? 'Stored — leave blank to keep' : ''}
+                    />
+                  </label>
+                </div>
+              ) : null}
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  className="btn-secondary"
+                  type="button"
+                  onClick={saveImageSource}
+                  disabled={imageSourceSaving}
+                >
+                  {imageSourceSaving ? 'Saving...' : 'Save source'}
+                </button>
+                {imageSource?.registryCredential ? (
+                  <button
+                    className="btn-secondary"
+                    type="button"
+                    onClick={removeRegistryCredential}
+                    disabled={imageSourceSaving}
+                  >
+                    Remove registry credentials
+                  </button>
+                ) : null}
+              </div>
+              {imageSourceMessage ? (
+                <p className="text-xs text-slate-500">{imageSourceMessage}</p>
+              ) : null}
+            </div>
+
+            {project ? <HealthCheckSettings projectId={project.id} /> : null}
+
+            {project ? <GracefulShutdownSettings projectId={project.id} /> : null}
+
+            {project ? (
+              <AutoscalingSettings
+                projectId={project.id}
+                onSaved={() => refresh().catch(() => undefined)}
+              />
+            ) : null}
+
+            <div className="space-y-3 rounded-xl border border-slate-200 p-4">
+              <div>
+                <h3 className="text-base font-semibold text-slate-900">Build cache</h3>
+                <p className="mt-1 text-sm text-slate-500">
+                  Dependency and build layers are reused between deployments. Purge the cache if a
+                  build keeps picking up stale dependencies.
+                </p>
+                {project?.buildCachePurgedAt ? (
+                  <p className="mt-1 text-xs text-slate-500">
+                    Last purged {new Date(project.buildCachePurgedAt).toLocaleString()}
+                  </p>
+                ) : null}
+              </div>
+              <button
+                className="btn-secondary"
+                type="button"
+                onClick={purgeBuildCache}
+                disabled={purgingBuildCache}
+              >
+                {purgingBuildCache ? 'Purging...' : 'Purge build cache'}
+              </button>
+            </div>
+
             <div className="space-y-3 rounded-xl border border-red-200 bg-red-50/60 p-4">
               <div>
                 <h3 className="text-base font-semibold text-red-700">Danger zone</h3>
@@ -2028,7 +2544,9 @@ export default function ProjectDetailPage() {
             <div>
               <h3 className="text-base font-semibold text-slate-900">Environment Variables</h3>
               <p className="mt-1 text-sm text-slate-500">
-                Encrypted secrets injected into every deployment for this project.
+                Encrypted secrets injected into this project&apos;s deployments. Shared values reach
+                every deployment; production, preview and branch values override them for the
+                deployments they match, and the branch wins over both.
               </p>
             </div>
 
@@ -2188,6 +2706,44 @@ export default function ProjectDetailPage() {
               {managedDbMessage && <p className="text-sm text-slate-700">{managedDbMessage}</p>}
             </div>
 
+            <div className="flex flex-wrap items-end gap-3">
+              <label>
+                <span className="field-label">Scope</span>
+                <select
+                  value={envScope}
+                  onChange={(event) => selectSecretScope(event.target.value as SecretScope)}
+                  className="field-input"
+                >
+                  {SECRET_SCOPE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {envScope === 'branch' && (
+                <>
+                  <label>
+                    <span className="field-label">Branch</span>
+                    <input
+                      value={envScopeBranchDraft}
+                      onChange={(event) => setEnvScopeBranchDraft(event.target.value)}
+                      className="field-input"
+                      placeholder="feature/login"
+                    />
+                  </label>
+                  <button
+                    className="btn-secondary"
+                    type="button"
+                    onClick={() => selectSecretScope('branch', envScopeBranchDraft.trim())}
+                    disabled={!envScopeBranchDraft.trim()}
+                  >
+                    Open branch
+                  </button>
+                </>
+              )}
+            </div>
+
             <div className="grid gap-3 md:grid-cols-[220px_minmax(0,1fr)_auto]">
               <label>
                 <span className="field-label">Key</span>
@@ -2213,8 +2769,18 @@ export default function ProjectDetailPage() {
                     setEnvDraft((previous) => ({ ...previous, value: event.target.value }))
                   }
                   className="field-input"
-                  placeholder="postgres://..."
+                  placeholder={
+                    envDraftIsReference ? 'vault://kv/data/app#DATABASE_URL' : 'postgres://...'
+                  }
                 />
+                <span className="mt-1 flex items-center gap-2 text-xs text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={envDraftIsReference}
+                    onChange={(event) => setEnvDraftIsReference(event.target.checked)}
+                  />
+                  Vault reference, read when each deployment is created
+                </span>
               </label>
               <div className="flex items-end">
                 <div className="flex gap-2">
@@ -2293,6 +2859,7 @@ export default function ProjectDetailPage() {
                         <p className="mono text-sm font-medium text-slate-900">{secret.key}</p>
                         <p className="text-xs text-slate-500">
                           Updated {new Date(secret.updatedAt).toLocaleString()}
+                          {secret.valueType === 'reference' && ' · Vault reference'}
                         </p>
                         {isRevealed && (
                           <p className="mono mt-1 break-all text-xs text-slate-700">
@@ -2340,7 +2907,11 @@ export default function ProjectDetailPage() {
               </div>
             ) : (
               <div className="rounded-xl border border-dashed border-slate-300 px-6 py-8 text-center">
-                <p className="text-sm text-slate-500">No environment variables configured.</p>
+                <p className="text-sm text-slate-500">
+                  {envScope === 'branch' && !envScopeBranch
+                    ? 'Enter a branch to edit its environment variables.'
+                    : `No ${secretScopeLabel} environment variables configured.`}
+                </p>
               </div>
             )}
 
@@ -2492,6 +3063,10 @@ export default function ProjectDetailPage() {
         )}
 
         {/* ===== REALTIME LOGS TAB ===== */}
+        {activeTab === 'cron-jobs' && <CronJobsPanel projectId={project.id} />}
+
+        {activeTab === 'volumes' && <ProjectVolumesPanel projectId={project.id} />}
+
         {activeTab === 'realtime-logs' && (
           <div className="space-y-4">
             <div className="flex flex-wrap items-end justify-between gap-3">
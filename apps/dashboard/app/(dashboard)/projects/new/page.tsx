@@ -91,13 +91,28 @@ interface GitHubRepository {
   canAdmin: boolean;
 }
 
+interface GitHubRepositoryDetection {
+  dockerfile: {
+    detected: boolean;
+    path: string;
+  };
+}
+
+type GitProvider = 'github' | 'gitlab' | 'bitbucket';
+
+const GIT_PROVIDER_LABELS: Record<GitProvider, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+};
+
 interface GitHubConnectionStatus {
   configured: boolean;
   connected: boolean;
   connection: {
     username: string;
     avatarUrl: string | null;
-    tokenScope: string | null;
+    tokenScope?: string | null;
     createdAt: string;
     updatedAt: string;
   } | null;
@@ -215,12 +230,16 @@ export default function CreateProjectPage() {
     slug: '',
     repoUrl: '',
     branch: 'main',
-    serviceType: 'web_service' as 'web_service' | 'static_site' | 'python',
+    serviceType: 'web_service' as
+      'web_service' | 'static_site' | 'python' | 'dockerfile' | 'worker',
+    workerRuntime: 'node' as 'node' | 'python',
     rootDirectory: '',
     deploymentRegion: 'fsn1',
     buildCommand: '',
     startCommand: '',
     outputDirectory: '',
+    dockerfilePath: '',
+    dockerTarget: '',
     targetPort: 3000,
     autoDeployEnabled: true,
     ram: 512,
@@ -233,12 +252,14 @@ export default function CreateProjectPage() {
   const [notice, setNotice] = useState('');
   const [envRows, setEnvRows] = useState<EnvRow[]>([{ key: '', value: '' }]);
   const [envBulkText, setEnvBulkText] = useState('');
+  const [gitProvider, setGitProvider] = useState<GitProvider>('github');
   const [githubStatus, setGithubStatus] = useState<GitHubConnectionStatus | null>(null);
   const [githubRepos, setGithubRepos] = useState<GitHubRepository[]>([]);
   const [githubSearch, setGithubSearch] = useState('');
   const [githubLoading, setGithubLoading] = useState(false);
   const [githubConnecting, setGithubConnecting] = useState(false);
   const [selectedGithubRepoId, setSelectedGithubRepoId] = useState('');
+  const [detectedDockerfilePath, setDetectedDockerfilePath] = useState<string | null>(null);
   const [vercelStatus, setVercelStatus] = useState<VercelConnectionStatus | null>(null);
   const [vercelConnecting, setVercelConnecting] = useState(false);
   const [vercelImportLoading, setVercelImportLoading] = useState(false);
@@ -321,16 +342,16 @@ export default function CreateProjectPage() {
 
   const loadGitHubStatus = useCallback(async () => {
     try {
-      const status = (await apiClient.get('/integrations/github/status')) as GitHubConnectionStatus;
+      const status = (await apiClient.get(
+        `/integrations/${gitProvider}/status`,
+      )) as GitHubConnectionStatus;
       setGithubStatus(status);
-      if (!status.connected) {
-        setGithubRepos([]);
-        setSelectedGithubRepoId('');
-      }
+      setGithubRepos([]);
+      setSelectedGithubRepoId('');
     } catch (error) {
       setMessage((error as Error).message);
     }
-  }, []);
+  }, [gitProvider]);
 
   const loadVercelStatus = useCallback(async () => {
     try {
@@ -356,7 +377,7 @@ export default function CreateProjectPage() {
       setGithubLoading(true);
       try {
         const data = await apiClient.get(
-          `/integrations/github/repositories?page=1&perPage=60&search=${encodeURIComponent(searchTerm)}`,
+          `/integrations/${gitProvider}/repositories?page=1&perPage=60&search=${encodeURIComponent(searchTerm)}`,
         );
         setGithubRepos((data.repositories ?? []) as GitHubRepository[]);
       } catch (error) {
@@ -365,7 +386,7 @@ export default function CreateProjectPage() {
         setGithubLoading(false);
       }
     },
-    [githubStatus?.connected],
+    [githubStatus?.connected, gitProvider],
   );
 
   const connectGitHub = async () => {
@@ -442,6 +463,44 @@ export default function CreateProjectPage() {
     }
   }, [githubStatus?.connected, loadGitHubRepositories]);
 
+  useEffect(() => {
+    const githubRepo = parseGithubRepo(form.repoUrl.trim());
+    const ref = form.branch.trim();
+    if (!githubStatus?.connected || !githubRepo || !ref) {
+      setDetectedDockerfilePath(null);
+      return;
+    }
+
+    let canceled = false;
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({
+        owner: githubRepo.owner,
+        repo: githubRepo.name,
+        ref,
+      });
+      const rootDirectory = form.rootDirectory.trim().replace(/^[\\/]+|[\\/]+$/g, '');
+      if (rootDirectory) {
+        params.set('rootDirectory', rootDirectory);
+      }
+
+      apiClient
+        .get(`/integrations/github/repositories/detect?${params.toString()}`)
+        .then((data) => {
+          if (canceled) return;
+          const detection = data as GitHubRepositoryDetection;
+          setDetectedDockerfilePath(detection.dockerfile.detected ? detection.dockerfile.path : null);
+        })
+        .catch(() => {
+          if (!canceled) setDetectedDockerfilePath(null);
+        });
+    }, 400);
+
+    return () => {
+      canceled = true;
+      clearTimeout(timer);
+    };
+  }, [githubStatus?.connected, form.repoUrl, form.branch, form.rootDirectory]);
+
   useEffect(() => {
     const githubState = searchParams?.get('github');
     const githubMessage = searchParams?.get('githubMessage');
@@ -663,12 +722,27 @@ export default function CreateProjectPage() {
         MIN_RESOURCE_LIMITS.bandwidth,
         resourceLimits.bandwidth,
       );
-      const githubRepo = parseGithubRepo(cleanedRepoUrl);
+      const githubRepo =
+        gitProvider === 'github'
+          ? parseGithubRepo(cleanedRepoUrl)
+          : selectedGithubRepo && {
+              owner: selectedGithubRepo.owner,
+              name: selectedGithubRepo.name,
+              fullName: selectedGithubRepo.fullName,
+            };
       const response = await apiClient.post('/projects', {
         organizationId: selectedOrganizationId,
         name: form.name.trim(),
         slug: form.slug,
-        runtime: form.serviceType === 'python' ? 'python' : 'node',
+        runtime:
+          form.serviceType === 'python'
+            ? 'python'
+            : form.serviceType === 'dockerfile'
+              ? 'docker'
+              : form.serviceType === 'worker'
+                ? form.workerRuntime
+                : 'node',
+        gitProvider,
         repoUrl: cleanedRepoUrl || undefined,
         repoOwner: githubRepo?.owner,
         repoName: githubRepo?.name,
@@ -676,12 +750,19 @@ export default function CreateProjectPage() {
         branch: form.branch.trim() || 'main',
         rootDirectory: cleanedRootDirectory,
         deploymentRegion: form.deploymentRegion,
-        buildCommand: form.buildCommand.trim() || undefined,
+        buildCommand:
+          form.serviceType === 'dockerfile' ? undefined : form.buildCommand.trim() || undefined,
         startCommand:
-          form.serviceType === 'static_site' ? undefined : form.startCommand.trim() || undefined,
+          form.serviceType === 'static_site' || form.serviceType === 'dockerfile'
+            ? undefined
+            : form.startCommand.trim() || undefined,
         serviceType: form.serviceType,
         outputDirectory:
           form.serviceType === 'static_site' ? form.outputDirectory.trim() || undefined : undefined,
+        dockerfilePath:
+          form.serviceType === 'dockerfile' ? form.dockerfilePath.trim() || undefined : undefined,
+        dockerTarget:
+          form.serviceType === 'dockerfile' ? form.dockerTarget.trim() || undefined : undefined,
         targetPort: Number(form.targetPort),
         autoDeployEnabled: form.autoDeployEnabled,
         resourceRamMb: selectedRam,
@@ -999,23 +1080,44 @@ export default function CreateProjectPage() {
                 <div className="flex flex-wrap items-center justify-between gap-2">
                   <p className="text-sm font-semibold text-slate-900">Git repository</p>
                   <div className="flex flex-wrap gap-2">
-                    {!githubStatus?.connected ? (
+                    <select
+                      value={gitProvider}
+                      onChange={(event) => {
+                        setGitProvider(event.target.value as GitProvider);
+                        setGithubStatus(null);
+                      }}
+                      className="field-input w-auto"
+                      aria-label="Git provider"
+                    >
+                      {(Object.keys(GIT_PROVIDER_LABELS) as GitProvider[]).map((option) => (
+                        <option key={option} value={option}>
+                          {GIT_PROVIDER_LABELS[option]}
+                        </option>
+                      ))}
+                    </select>
+                    {githubStatus?.connected ? (
                       <button
                         type="button"
                         className="btn-secondary"
-                        onClick={connectGitHub}
-                        disabled={!githubStatus?.configured || githubConnecting}
+                        onClick={() => setShowGithubBrowser((prev) => !prev)}
                       >
-                        {githubConnecting ? 'Connecting...' : 'Connect GitHub'}
+                        {showGithubBrowser
+                          ? `Hide ${GIT_PROVIDER_LABELS[gitProvider]} repos`
+                          : `Browse ${GIT_PROVIDER_LABELS[gitProvider]} repos`}
                       </button>
-                    ) : (
+                    ) : gitProvider === 'github' ? (
                       <button
                         type="button"
                         className="btn-secondary"
-                        onClick={() => setShowGithubBrowser((prev) => !prev)}
+                        onClick={connectGitHub}
+                        disabled={!githubStatus?.configured || githubConnecting}
                       >
-                        {showGithubBrowser ? 'Hide GitHub repos' : 'Browse GitHub repos'}
+                        {githubConnecting ? 'Connecting...' : 'Connect GitHub'}
                       </button>
+                    ) : (
+                      <Link href="/integrations" className="btn-secondary">
+                        Connect {GIT_PROVIDER_LABELS[gitProvider]}
+                      </Link>
                     )}
                   </div>
                 </div>
@@ -1088,7 +1190,13 @@ export default function CreateProjectPage() {
                         setForm((prev) => ({ ...prev, repoUrl: event.target.value }));
                       }}
                       className="field-input"
-                      placeholder="https://github.com/org/repo.git"
+                      placeholder={
+                        gitProvider === 'gitlab'
+                          ? 'https://gitlab.com/group/repo.git'
+                          : gitProvider === 'bitbucket'
+                            ? 'https://bitbucket.org/workspace/repo.git'
+                            : 'https://github.com/org/repo.git'
+                      }
                     />
                   </label>
                   <label>
@@ -1107,6 +1215,24 @@ export default function CreateProjectPage() {
                 {selectedGithubRepo ? (
                   <p className="text-xs text-slate-600">Selected: {selectedGithubRepo.fullName}</p>
                 ) : null}
+                {detectedDockerfilePath && form.serviceType !== 'dockerfile' ? (
+                  <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
+                    <p className="text-xs text-slate-700">
+                      Found <code>{detectedDockerfilePath}</code> in this repository. Build it as-is
+                      instead of using the managed runtime?
+                    </p>
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => {
+                        setForm((prev) => ({ ...prev, serviceType: 'dockerfile' }));
+                        setShowAdvancedSettings(true);
+                      }}
+                    >
+                      Use Dockerfile
+                    </button>
+                  </div>
+                ) : null}
               </div>
               <div
                 ref={advancedRef}
@@ -1166,6 +1292,36 @@ export default function CreateProjectPage() {
                           React, Vue, Vite, Next export
                         </span>
                       </button>
+                      <button
+                        type="button"
+                        className={`px-4 py-2 text-xs font-medium transition-colors ${
+                          form.serviceType === 'worker'
+                            ? 'bg-slate-900 text-white'
+                            : 'bg-white text-slate-600 hover:bg-slate-50'
+                        }`}
+                        onClick={() => setForm((prev) => ({ ...prev, serviceType: 'worker' }))}
+                      >
+                        <span className="block">Worker</span>
+                        <span className="block text-[10px] opacity-70">
+                          Queue consumer, no public URL
+                        </span>
+                      </button>
+                      {detectedDockerfilePath || form.serviceType === 'dockerfile' ? (
+                        <button
+                          type="button"
+                          className={`px-4 py-2 text-xs font-medium transition-colors ${
+                            form.serviceType === 'dockerfile'
+                              ? 'bg-slate-900 text-white'
+                              : 'bg-white text-slate-600 hover:bg-slate-50'
+                          }`}
+                          onClick={() => setForm((prev) => ({ ...prev, serviceType: 'dockerfile' }))}
+                        >
+                          <span className="block">Dockerfile</span>
+                          <span className="block text-[10px] opacity-70">
+                            Build your repository&apos;s Dockerfile
+                          </span>
+                        </button>
+                      ) : null}
                     </div>
                   </div>
 
@@ -1181,32 +1337,78 @@ export default function CreateProjectPage() {
                         placeholder={createProjectServiceGuide.fields.rootDirectory}
                       />
                     </label>
-                    <label>
-                      <span className="field-label">Target port</span>
-                      <input
-                        type="number"
-                        min={1}
-                        max={65535}
-                        value={form.targetPort}
-                        onChange={(event) =>
-                          setForm((prev) => ({ ...prev, targetPort: Number(event.target.value) }))
-                        }
-                        className="field-input"
-                        required
-                      />
-                    </label>
-                    <label>
-                      <span className="field-label">Build command</span>
-                      <input
-                        value={form.buildCommand}
-                        onChange={(event) =>
-                          setForm((prev) => ({ ...prev, buildCommand: event.target.value }))
-                        }
-                        className="field-input"
-                        placeholder={createProjectServiceGuide.fields.buildCommand}
-                      />
-                    </label>
-                    {form.serviceType !== 'static_site' ? (
+                    {form.serviceType === 'worker' ? (
+                      <label>
+                        <span className="field-label">Worker runtime</span>
+                        <select
+                          value={form.workerRuntime}
+                          onChange={(event) =>
+                            setForm((prev) => ({
+                              ...prev,
+                              workerRuntime: event.target.value as 'node' | 'python',
+                            }))
+                          }
+                          className="field-input"
+                        >
+                          <option value="node">Node.js</option>
+                          <option value="python">Python</option>
+                        </select>
+                      </label>
+                    ) : (
+                      <label>
+                        <span className="field-label">Target port</span>
+                        <input
+                          type="number"
+                          min={1}
+                          max={65535}
+                          value={form.targetPort}
+                          onChange={(event) =>
+                            setForm((prev) => ({ ...prev, targetPort: Number(event.target.value) }))
+                          }
+                          className="field-input"
+                          required
+                        />
+                      </label>
+                    )}
+                    {form.serviceType === 'dockerfile' ? (
+                      <>
+                        <label>
+                          <span className="field-label">Dockerfile path</span>
+                          <input
+                            value={form.dockerfilePath}
+                            onChange={(event) =>
+                              setForm((prev) => ({ ...prev, dockerfilePath: event.target.value }))
+                            }
+                            className="field-input"
+                            placeholder="Dockerfile"
+                          />
+                        </label>
+                        <label>
+                          <span className="field-label">Build target (optional)</span>
+                          <input
+                            value={form.dockerTarget}
+                            onChange={(event) =>
+                              setForm((prev) => ({ ...prev, dockerTarget: event.target.value }))
+                            }
+                            className="field-input"
+                            placeholder="runtime"
+                          />
+                        </label>
+                      </>
+                    ) : (
+                      <label>
+                        <span className="field-label">Build command</span>
+                        <input
+                          value={form.buildCommand}
+                          onChange={(event) =>
+                            setForm((prev) => ({ ...prev, buildCommand: event.target.value }))
+                          }
+                          className="field-input"
+                          placeholder={createProjectServiceGuide.fields.buildCommand}
+                        />
+                      </label>
+                    )}
+                    {form.serviceType === 'dockerfile' ? null : form.serviceType !== 'static_site' ? (
                       <label>
                         <span className="field-label">Start command</span>
                         <input
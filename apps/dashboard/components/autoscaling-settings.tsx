@@ -0,0 +1,213 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { apiClient } from '../lib/api';
+
+interface AutoscalingSettingsValue {
+  enabled: boolean;
+  minReplicas: number;
+  maxReplicas: number;
+  targetCpuPercent: number | null;
+  targetMemoryPercent: number | null;
+  targetRequestsPerMinute: number | null;
+  scaleUpCooldownSeconds: number;
+  scaleDownCooldownSeconds: number;
+  stabilizationSeconds: number;
+  replicaCount: number;
+  lastScaledAt: string | null;
+}
+
+interface AutoscaleDecision {
+  id: string;
+  action: 'project.autoscaled' | 'project.autoscale.blocked';
+  timestamp: string;
+  metadata: {
+    fromReplicas?: number;
+    toReplicas?: number;
+    reason?: string;
+    blockedReason?: string;
+  } | null;
+}
+
+type DraftKey =
+  | 'minReplicas'
+  | 'maxReplicas'
+  | 'targetCpuPercent'
+  | 'targetMemoryPercent'
+  | 'targetRequestsPerMinute'
+  | 'scaleUpCooldownSeconds'
+  | 'scaleDownCooldownSeconds'
+  | 'stabilizationSeconds';
+
+type AutoscalingDraft = { enabled: boolean } & Record<DraftKey, string>;
+
+const toDraft = (value: AutoscalingSettingsValue): AutoscalingDraft => ({
+  enabled: value.enabled,
+  minReplicas: String(value.minReplicas),
+  maxReplicas: String(value.maxReplicas),
+  targetCpuPercent: value.targetCpuPercent === null ? '' : String(value.targetCpuPercent),
+  targetMemoryPercent: value.targetMemoryPercent === null ? '' : String(value.targetMemoryPercent),
+  targetRequestsPerMinute:
+    value.targetRequestsPerMinute === null ? '' : String(value.targetRequestsPerMinute),
+  scaleUpCooldownSeconds: String(value.scaleUpCooldownSeconds),
+  scaleDownCooldownSeconds: String(value.scaleDownCooldownSeconds),
+  stabilizationSeconds: String(value.stabilizationSeconds),
+});
+
+const optionalNumber = (value: string): number | null =>
+  value.trim() === '' ? null : Number(value);
+
+const NUMBER_FIELDS: Array<{ key: DraftKey; label: string; placeholder?: string }> = [
+  { key: 'minReplicas', label: 'Min replicas' },
+  { key: 'maxReplicas', label: 'Max replicas' },
+  { key: 'targetCpuPercent', label: 'Target CPU (%)', placeholder: 'off' },
+  { key: 'targetMemoryPercent', label: 'Target memory (%)', placeholder: 'off' },
+  { key: 'targetRequestsPerMinute', label: 'Target req/min per replica', placeholder: 'off' },
+  { key: 'scaleUpCooldownSeconds', label: 'Scale-up cooldown (s)' },
+  { key: 'scaleDownCooldownSeconds', label: 'Scale-down cooldown (s)' },
+  { key: 'stabilizationSeconds', label: 'Scale-down stabilization (s)' },
+];
+
+const describeDecision = (decision: AutoscaleDecision): string => {
+  const from = decision.metadata?.fromReplicas ?? '?';
+  const to = decision.metadata?.toReplicas ?? '?';
+  if (decision.action === 'project.autoscale.blocked') {
+    return `Blocked ${from} → ${to}: ${decision.metadata?.blockedReason ?? 'unknown reason'}`;
+  }
+  return `Scaled ${from} → ${to}${decision.metadata?.reason ? ` (${decision.metadata.reason})` : ''}`;
+};
+
+export function AutoscalingSettings({
+  projectId,
+  onSaved,
+}: {
+  projectId: string;
+  onSaved?: () => void;
+}) {
+  const [settings, setSettings] = useState<AutoscalingSettingsValue | null>(null);
+  const [draft, setDraft] = useState<AutoscalingDraft | null>(null);
+  const [decisions, setDecisions] = useState<AutoscaleDecision[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const loadAutoscaling = useCallback(async () => {
+    const data = (await apiClient.get(`/projects/${projectId}/autoscaling`)) as {
+      autoscaling: AutoscalingSettingsValue;
+      decisions?: AutoscaleDecision[];
+    };
+    setSettings(data.autoscaling);
+    setDraft(toDraft(data.autoscaling));
+    setDecisions(data.decisions ?? []);
+  }, [projectId]);
+
+  useEffect(() => {
+    loadAutoscaling().catch((error) => setMessage((error as Error).message));
+  }, [loadAutoscaling]);
+
+  const saveAutoscaling = async () => {
+    if (!draft) return;
+    try {
+      setSaving(true);
+      setMessage('');
+      await apiClient.put(`/projects/${projectId}/autoscaling`, {
+        enabled: draft.enabled,
+        minReplicas: Number(draft.minReplicas),
+        maxReplicas: Number(draft.maxReplicas),
+        targetCpuPercent: optionalNumber(draft.targetCpuPercent),
+        targetMemoryPercent: optionalNumber(draft.targetMemoryPercent),
+        targetRequestsPerMinute: optionalNumber(draft.targetRequestsPerMinute),
+        scaleUpCooldownSeconds: Number(draft.scaleUpCooldownSeconds),
+        scaleDownCooldownSeconds: Number(draft.scaleDownCooldownSeconds),
+        stabilizationSeconds: Number(draft.stabilizationSeconds),
+      });
+      await loadAutoscaling();
+      setMessage('Autoscaling saved. The autoscaler applies it on its next cycle.');
+      onSaved?.();
+    } catch (error) {
+      setMessage(`Saving autoscaling failed: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-200 p-4">
+      <div>
+        <h3 className="text-base font-semibold text-slate-900">Autoscaling</h3>
+        <p className="mt-1 text-sm text-slate-500">
+          Adds replicas when average CPU, memory or request rate per replica goes above its target,
+          and removes them once load has stayed low for the stabilization window. Leave a target
+          empty to ignore that signal. Scale-ups are limited by your resource pool.
+        </p>
+      </div>
+
+      {draft && settings ? (
+        <>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+            />
+            Enable autoscaling
+            <span className="text-xs text-slate-500">
+              (running {settings.replicaCount}{' '}
+              {settings.replicaCount === 1 ? 'replica' : 'replicas'})
+            </span>
+          </label>
+          <div className="grid gap-3 md:grid-cols-4">
+            {NUMBER_FIELDS.map((field) => (
+              <label key={field.key}>
+                <span className="field-label">{field.label}</span>
+                <input
+                  value={draft[field.key]}
+                  onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                  className="field-input"
+                  inputMode="numeric"
+                  placeholder={field.placeholder}
+                />
+              </label>
+            ))}
+          </div>
+          <button
+            className="btn-secondary"
+            type="button"
+            onClick={saveAutoscaling}
+            disabled={saving}
+          >
+            {saving ? 'Saving...' : 'Save autoscaling'}
+          </button>
+
+          <div className="space-y-1">
+            <p className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+              Recent decisions
+            </p>
+            {decisions.length === 0 ? (
+              <p className="text-xs text-slate-500">No scaling decisions yet.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100 text-xs text-slate-700">
+                {decisions.map((decision) => (
+                  <li key={decision.id} className="flex justify-between gap-3 py-1.5">
+                    <span
+                      className={
+                        decision.action === 'project.autoscale.blocked' ? 'text-amber-700' : ''
+                      }
+                    >
+                      {describeDecision(decision)}
+                    </span>
+                    <span className="shrink-0 text-slate-400">
+                      {new Date(decision.timestamp).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      ) : null}
+
+      {message ? <p className="text-xs text-slate-500">{message}</p> : null}
+    </div>
+  );
+}
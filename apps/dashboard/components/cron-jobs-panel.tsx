@@ -0,0 +1,380 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { apiClient } from '../lib/api';
+
+interface CronJobRun {
+  id: string;
+  trigger: 'schedule' | 'manual';
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  exitCode: number | null;
+  durationMs: number | null;
+  errorMessage: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+}
+
+interface CronJob {
+  id: string;
+  name: string;
+  schedule: string;
+  command: string;
+  enabled: boolean;
+  timeoutSeconds: number;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastRun: CronJobRun | null;
+}
+
+interface RunLogLine {
+  id: string;
+  level: string;
+  message: string;
+  timestamp: string;
+}
+
+const RUN_STATUS_UI: Record<CronJobRun['status'], string> = {
+  queued: 'bg-slate-100 text-slate-600',
+  running: 'bg-blue-100 text-blue-700',
+  succeeded: 'bg-emerald-100 text-emerald-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const formatDuration = (durationMs: number | null): string =>
+  durationMs === null ? '—' : `${(durationMs / 1000).toFixed(1)}s`;
+
+const formatDateTime = (iso: string | null): string => (iso ? new Date(iso).toLocaleString() : '—');
+
+function RunStatusBadge({ run }: { run: CronJobRun }) {
+  return (
+    <span
+      className={`inline-flex items-center rounded-full px-2 py-0.5 text-[11px] font-semibold uppercase tracking-wider ${RUN_STATUS_UI[run.status]}`}
+    >
+      {run.status}
+      {run.exitCode !== null && run.status === 'failed' ? ` (${run.exitCode})` : ''}
+    </span>
+  );
+}
+
+export function CronJobsPanel({ projectId }: { projectId: string }) {
+  const [cronJobs, setCronJobs] = useState<CronJob[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [pendingJobId, setPendingJobId] = useState('');
+  const [draft, setDraft] = useState({
+    name: '',
+    schedule: '0 3 * * *',
+    command: '',
+    timeoutSeconds: '900',
+  });
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<CronJobRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [runLogs, setRunLogs] = useState<RunLogLine[]>([]);
+
+  const loadCronJobs = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = (await apiClient.get(`/projects/${projectId}/cron-jobs`)) as {
+        cronJobs?: CronJob[];
+      };
+      setCronJobs(data.cronJobs ?? []);
+    } catch (error) {
+      setMessage((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  const loadRuns = useCallback(async (cronJobId: string) => {
+    const data = (await apiClient.get(`/cron-jobs/${cronJobId}/runs?limit=20`)) as {
+      runs?: CronJobRun[];
+    };
+    setRuns(data.runs ?? []);
+  }, []);
+
+  useEffect(() => {
+    loadCronJobs().catch(() => undefined);
+  }, [loadCronJobs]);
+
+  const createCronJob = async () => {
+    try {
+      setSaving(true);
+      setMessage('');
+      await apiClient.post(`/projects/${projectId}/cron-jobs`, {
+        name: draft.name.trim(),
+        schedule: draft.schedule.trim(),
+        command: draft.command.trim(),
+        timeoutSeconds: Number(draft.timeoutSeconds) || 900,
+      });
+      setDraft((previous) => ({ ...previous, name: '', command: '' }));
+      setMessage('Cron job created.');
+      await loadCronJobs();
+    } catch (error) {
+      setMessage(`Creating cron job failed: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleCronJob = async (job: CronJob) => {
+    try {
+      setPendingJobId(job.id);
+      await apiClient.patch(`/cron-jobs/${job.id}`, { enabled: !job.enabled });
+      await loadCronJobs();
+    } catch (error) {
+      setMessage((error as Error).message);
+    } finally {
+      setPendingJobId('');
+    }
+  };
+
+  const runCronJobNow = async (job: CronJob) => {
+    try {
+      setPendingJobId(job.id);
+      await apiClient.post(`/cron-jobs/${job.id}/runs`, {});
+      setMessage(`Run of ${job.name} queued.`);
+      await loadCronJobs();
+      if (expandedJobId === job.id) {
+        await loadRuns(job.id);
+      }
+    } catch (error) {
+      setMessage(`Run failed to start: ${(error as Error).message}`);
+    } finally {
+      setPendingJobId('');
+    }
+  };
+
+  const deleteCronJob = async (job: CronJob) => {
+    if (!window.confirm(`Delete cron job ${job.name} and its run history?`)) {
+      return;
+    }
+    try {
+      setPendingJobId(job.id);
+      await apiClient.delete(`/cron-jobs/${job.id}`);
+      if (expandedJobId === job.id) {
+        setExpandedJobId(null);
+      }
+      await loadCronJobs();
+    } catch (error) {
+      setMessage((error as Error).message);
+    } finally {
+      setPendingJobId('');
+    }
+  };
+
+  const toggleHistory = async (job: CronJob) => {
+    setSelectedRunId(null);
+    setRunLogs([]);
+    if (expandedJobId === job.id) {
+      setExpandedJobId(null);
+      return;
+    }
+    setExpandedJobId(job.id);
+    setRuns([]);
+    await loadRuns(job.id).catch((error) => setMessage((error as Error).message));
+  };
+
+  const showRunLogs = async (runId: string) => {
+    setSelectedRunId(runId);
+    try {
+      const data = (await apiClient.get(`/cron-job-runs/${runId}/logs`)) as {
+        logs?: RunLogLine[];
+      };
+      setRunLogs(data.logs ?? []);
+    } catch (error) {
+      setRunLogs([]);
+      setMessage((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h3 className="text-base font-semibold text-slate-900">Cron Jobs</h3>
+        <p className="mt-1 text-sm text-slate-500">
+          Run a command on a schedule in a short-lived container from the active deployment image,
+          with the project&apos;s environment variables and resource limits. Schedules use UTC.
+        </p>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-[1fr_1fr_2fr_auto_auto] md:items-end">
+        <label>
+          <span className="field-label">Name</span>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft((p) => ({ ...p, name: e.target.value }))}
+            className="field-input"
+            placeholder="nightly-cleanup"
+          />
+        </label>
+        <label>
+          <span className="field-label">Schedule</span>
+          <input
+            value={draft.schedule}
+            onChange={(e) => setDraft((p) => ({ ...p, schedule: e.target.value }))}
+            className="field-input mono"
+            placeholder="0 3 * * *"
+          />
+        </label>
+        <label>
+          <span className="field-label">Command</span>
+          <input
+            value={draft.command}
+            onChange={(e) => setDraft((p) => ({ ...p, command: e.target.value }))}
+            className="field-input mono"
+            placeholder="node scripts/cleanup.js"
+          />
+        </label>
+        <label>
+          <span className="field-label">Timeout (s)</span>
+          <input
+            value={draft.timeoutSeconds}
+            onChange={(e) => setDraft((p) => ({ ...p, timeoutSeconds: e.target.value }))}
+            className="field-input w-24"
+            inputMode="numeric"
+          />
+        </label>
+        <button
+          className="btn-primary"
+          type="button"
+          onClick={createCronJob}
+          disabled={saving || !draft.name.trim() || !draft.command.trim()}
+        >
+          {saving ? 'Creating...' : 'Add cron job'}
+        </button>
+      </div>
+
+      {message ? <p className="text-xs text-slate-500">{message}</p> : null}
+
+      {loading && cronJobs.length === 0 ? (
+        <p className="text-sm text-slate-500">Loading cron jobs...</p>
+      ) : cronJobs.length === 0 ? (
+        <p className="text-sm text-slate-500">No cron jobs yet.</p>
+      ) : (
+        <div className="divide-y divide-slate-200 rounded-xl border border-slate-200">
+          {cronJobs.map((job) => (
+            <div key={job.id} className="p-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-semibold text-slate-900">{job.name}</p>
+                    <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs text-slate-700">
+                      {job.schedule}
+                    </code>
+                    {!job.enabled ? (
+                      <span className="text-[11px] font-semibold uppercase tracking-wider text-slate-400">
+                        Paused
+                      </span>
+                    ) : null}
+                    {job.lastRun ? <RunStatusBadge run={job.lastRun} /> : null}
+                  </div>
+                  <p className="mono mt-1 truncate text-xs text-slate-500">{job.command}</p>
+                  <p className="mt-1 text-xs text-slate-400">
+                    Next run {job.enabled ? formatDateTime(job.nextRunAt) : '—'} · Last run{' '}
+                    {formatDateTime(job.lastRun?.createdAt ?? null)}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    className="btn-secondary"
+                    type="button"
+                    onClick={() => runCronJobNow(job)}
+                    disabled={pendingJobId === job.id}
+                  >
+                    Run now
+                  </button>
+                  <button
+                    className="btn-secondary"
+                    type="button"
+                    onClick={() => toggleHistory(job)}
+                  >
+                    {expandedJobId === job.id ? 'Hide history' : 'History'}
+                  </button>
+                  <button
+                    className="btn-secondary"
+                    type="button"
+                    onClick={() => toggleCronJob(job)}
+                    disabled={pendingJobId === job.id}
+                  >
+                    {job.enabled ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    className="btn-secondary text-red-600"
+                    type="button"
+                    onClick={() => deleteCronJob(job)}
+                    disabled={pendingJobId === job.id}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {expandedJobId === job.id ? (
+                <div className="mt-4 space-y-3">
+                  {runs.length === 0 ? (
+                    <p className="text-xs text-slate-500">No runs yet.</p>
+                  ) : (
+                    <table className="w-full text-left text-xs">
+                      <thead className="text-slate-400">
+                        <tr>
+                          <th className="py-1 font-medium">Started</th>
+                          <th className="py-1 font-medium">Trigger</th>
+                          <th className="py-1 font-medium">Status</th>
+                          <th className="py-1 font-medium">Duration</th>
+                          <th className="py-1" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100 text-slate-700">
+                        {runs.map((run) => (
+                          <tr key={run.id}>
+                            <td className="py-1.5">
+                              {formatDateTime(run.startedAt ?? run.createdAt)}
+                            </td>
+                            <td className="py-1.5 capitalize">{run.trigger}</td>
+                            <td className="py-1.5">
+                              <RunStatusBadge run={run} />
+                              {run.errorMessage ? (
+                                <span className="ml-2 text-slate-500">{run.errorMessage}</span>
+                              ) : null}
+                            </td>
+                            <td className="py-1.5">{formatDuration(run.durationMs)}</td>
+                            <td className="py-1.5 text-right">
+                              <button
+                                type="button"
+                                className="text-xs font-medium text-slate-600 hover:underline"
+                                onClick={() => showRunLogs(run.id)}
+                              >
+                                Logs
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  {selectedRunId ? (
+                    <pre className="mono max-h-80 overflow-auto rounded-lg bg-slate-950 p-3 text-[11px] leading-5 text-slate-100">
+                      {runLogs.length
+                        ? runLogs
+                            .map(
+                              (line) =>
+                                `${new Date(line.timestamp).toLocaleTimeString()}  ${line.message}`,
+                            )
+                            .join('\n')
+                        : 'No output recorded.'}
+                    </pre>
+                  ) : null}
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
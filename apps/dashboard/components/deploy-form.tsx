@@ -3,7 +3,10 @@
 import { useEffect, useRef, useState } from 'react';
 
 import { apiClient, normalizeWebSocketUrl } from '../lib/api';
-import { getDeploymentRuntimeGuide } from '../lib/deployment-runtime-guides';
+import {
+  getDeploymentRuntimeGuide,
+  type DeploymentServiceType,
+} from '../lib/deployment-runtime-guides';
 import { parseDotenvText } from '../lib/dotenv-parser';
 
 const ENV_KEY_PATTERN = /^[A-Z_][A-Z0-9_]*$/;
@@ -44,8 +47,8 @@ export function DeployForm({
 }) {
   const [showOverrides, setShowOverrides] = useState(false);
   const [environment, setEnvironment] = useState<'production' | 'preview'>('production');
-  const [serviceType, setServiceType] = useState<'web_service' | 'static_site' | 'python'>(
-    (defaults?.serviceType as 'web_service' | 'static_site' | 'python') || 'web_service',
+  const [serviceType, setServiceType] = useState<DeploymentServiceType>(
+    (defaults?.serviceType as DeploymentServiceType) || 'web_service',
   );
   const [outputDirectory, setOutputDirectory] = useState(defaults?.outputDirectory ?? '');
   const [domain, setDomain] = useState('');
@@ -77,7 +80,7 @@ export function DeployForm({
     setPort('');
     setShowOverrides(false);
     setServiceType(
-      (defaults?.serviceType as 'web_service' | 'static_site' | 'python') || 'web_service',
+      (defaults?.serviceType as DeploymentServiceType) || 'web_service',
     );
     setOutputDirectory(defaults?.outputDirectory ?? '');
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -289,11 +292,13 @@ export function DeployForm({
         environment,
         env: envPayload,
         serviceType,
-        ...(domain ? { domain } : {}),
+        ...(domain && serviceType !== 'worker' ? { domain } : {}),
         ...(gitUrl ? { gitUrl } : {}),
         ...(branch ? { branch } : {}),
         ...(rootDirectory ? { rootDirectory } : {}),
-        ...(serviceType !== 'static_site' && startCommand ? { startCommand } : {}),
+        ...(serviceType !== 'static_site' && serviceType !== 'dockerfile' && startCommand
+          ? { startCommand }
+          : {}),
         ...(buildCommand ? { buildCommand } : {}),
         ...(typeof port === 'number' && Number.isFinite(port) ? { port } : {}),
         ...(serviceType === 'static_site' && outputDirectory ? { outputDirectory } : {}),
@@ -403,6 +408,20 @@ export function DeployForm({
               React, Vue, Vite, Next export
             </span>
           </button>
+          <button
+            type="button"
+            className={`px-4 py-2 text-xs font-medium transition-colors ${
+              serviceType === 'worker'
+                ? 'bg-slate-900 text-white'
+                : 'bg-white text-slate-600 hover:bg-slate-50'
+            }`}
+            onClick={() => setServiceType('worker')}
+          >
+            <span className="block text-xs">Worker</span>
+            <span className="block text-[10px] opacity-70 mt-0.5">
+              Queue consumer, no public URL
+            </span>
+          </button>
         </div>
       </div>
 
@@ -439,15 +458,17 @@ export function DeployForm({
             Leave fields blank to use project defaults. Values here apply only to this deployment.
           </p>
           <div className="grid gap-3 md:grid-cols-3">
-            <label>
-              <span className="field-label">Domain override</span>
-              <input
-                value={domain}
-                onChange={(event) => setDomain(event.target.value)}
-                className="field-input"
-                placeholder={defaults?.domain ?? 'auto-generated'}
-              />
-            </label>
+            {serviceType !== 'worker' ? (
+              <label>
+                <span className="field-label">Domain override</span>
+                <input
+                  value={domain}
+                  onChange={(event) => setDomain(event.target.value)}
+                  className="field-input"
+                  placeholder={defaults?.domain ?? 'auto-generated'}
+                />
+              </label>
+            ) : null}
             <label>
               <span className="field-label">Repository URL override</span>
               <input
@@ -513,18 +534,22 @@ export function DeployForm({
                 />
               </label>
             )}
-            <label>
-              <span className="field-label">Port</span>
-              <input
-                type="number"
-                value={port}
-                onChange={(event) => setPort(event.target.value ? Number(event.target.value) : '')}
-                className="field-input"
-                min={1}
-                max={65535}
-                placeholder={String(defaults?.port ?? serviceGuide.fields.port)}
-              />
-            </label>
+            {serviceType !== 'worker' ? (
+              <label>
+                <span className="field-label">Port</span>
+                <input
+                  type="number"
+                  value={port}
+                  onChange={(event) =>
+                    setPort(event.target.value ? Number(event.target.value) : '')
+                  }
+                  className="field-input"
+                  min={1}
+                  max={65535}
+                  placeholder={String(defaults?.port ?? serviceGuide.fields.port)}
+                />
+              </label>
+            ) : null}
           </div>
         </div>
       ) : null}
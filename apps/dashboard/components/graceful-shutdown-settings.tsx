@@ -0,0 +1,98 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { apiClient } from '../lib/api';
+
+interface GracefulShutdownValue {
+  drainTimeoutSeconds: number;
+  stopGraceSeconds: number;
+}
+
+interface GracefulShutdownDraft {
+  drainTimeoutSeconds: string;
+  stopGraceSeconds: string;
+}
+
+const toDraft = (value: GracefulShutdownValue): GracefulShutdownDraft => ({
+  drainTimeoutSeconds: String(value.drainTimeoutSeconds),
+  stopGraceSeconds: String(value.stopGraceSeconds),
+});
+
+export function GracefulShutdownSettings({ projectId }: { projectId: string }) {
+  const [draft, setDraft] = useState<GracefulShutdownDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const loadSettings = useCallback(async () => {
+    const data = (await apiClient.get(`/projects/${projectId}/graceful-shutdown`)) as {
+      gracefulShutdown: GracefulShutdownValue;
+    };
+    setDraft(toDraft(data.gracefulShutdown));
+  }, [projectId]);
+
+  useEffect(() => {
+    loadSettings().catch((error) => setMessage((error as Error).message));
+  }, [loadSettings]);
+
+  const saveSettings = async () => {
+    if (!draft) return;
+    try {
+      setSaving(true);
+      setMessage('');
+      const data = (await apiClient.put(`/projects/${projectId}/graceful-shutdown`, {
+        drainTimeoutSeconds: Number(draft.drainTimeoutSeconds),
+        stopGraceSeconds: Number(draft.stopGraceSeconds),
+      })) as { gracefulShutdown: GracefulShutdownValue };
+      setDraft(toDraft(data.gracefulShutdown));
+      setMessage('Shutdown settings saved. They apply from the next cutover.');
+    } catch (error) {
+      setMessage(`Saving shutdown settings failed: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-200 p-4">
+      <div>
+        <h3 className="text-base font-semibold text-slate-900">Graceful shutdown</h3>
+        <p className="mt-1 text-sm text-slate-500">
+          When a deployment is promoted, rolled back or a canary is aborted, the replaced containers
+          stop receiving new requests and keep serving open connections until they close or the
+          drain period ends. They are then sent SIGTERM and killed after the grace period.
+        </p>
+      </div>
+
+      {draft ? (
+        <>
+          <div className="grid gap-3 md:grid-cols-2">
+            <label>
+              <span className="field-label">Drain period (s)</span>
+              <input
+                value={draft.drainTimeoutSeconds}
+                onChange={(e) => setDraft({ ...draft, drainTimeoutSeconds: e.target.value })}
+                className="field-input"
+                inputMode="numeric"
+              />
+            </label>
+            <label>
+              <span className="field-label">Stop grace period (s)</span>
+              <input
+                value={draft.stopGraceSeconds}
+                onChange={(e) => setDraft({ ...draft, stopGraceSeconds: e.target.value })}
+                className="field-input"
+                inputMode="numeric"
+              />
+            </label>
+          </div>
+          <button className="btn-secondary" type="button" onClick={saveSettings} disabled={saving}>
+            {saving ? 'Saving...' : 'Save shutdown settings'}
+          </button>
+        </>
+      ) : null}
+
+      {message ? <p className="text-xs text-slate-500">{message}</p> : null}
+    </div>
+  );
+}
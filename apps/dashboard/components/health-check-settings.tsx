@@ -0,0 +1,144 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { apiClient } from '../lib/api';
+
+interface HealthCheckSettingsValue {
+  path: string | null;
+  statusMin: number;
+  statusMax: number;
+  bodyMatch: string | null;
+  initialDelaySeconds: number;
+  periodSeconds: number;
+  failureThreshold: number;
+}
+
+interface HealthCheckDraft {
+  path: string;
+  statusMin: string;
+  statusMax: string;
+  bodyMatch: string;
+  initialDelaySeconds: string;
+  periodSeconds: string;
+  failureThreshold: string;
+}
+
+const toDraft = (value: HealthCheckSettingsValue): HealthCheckDraft => ({
+  path: value.path ?? '',
+  statusMin: String(value.statusMin),
+  statusMax: String(value.statusMax),
+  bodyMatch: value.bodyMatch ?? '',
+  initialDelaySeconds: String(value.initialDelaySeconds),
+  periodSeconds: String(value.periodSeconds),
+  failureThreshold: String(value.failureThreshold),
+});
+
+const NUMBER_FIELDS: Array<{ key: keyof HealthCheckDraft; label: string }> = [
+  { key: 'statusMin', label: 'Lowest accepted status' },
+  { key: 'statusMax', label: 'Highest accepted status' },
+  { key: 'initialDelaySeconds', label: 'Initial delay (s)' },
+  { key: 'periodSeconds', label: 'Liveness period (s)' },
+  { key: 'failureThreshold', label: 'Failure threshold' },
+];
+
+export function HealthCheckSettings({ projectId }: { projectId: string }) {
+  const [draft, setDraft] = useState<HealthCheckDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const loadHealthCheck = useCallback(async () => {
+    const data = (await apiClient.get(`/projects/${projectId}/health-check`)) as {
+      healthCheck: HealthCheckSettingsValue;
+    };
+    setDraft(toDraft(data.healthCheck));
+  }, [projectId]);
+
+  useEffect(() => {
+    loadHealthCheck().catch((error) => setMessage((error as Error).message));
+  }, [loadHealthCheck]);
+
+  const saveHealthCheck = async () => {
+    if (!draft) return;
+    try {
+      setSaving(true);
+      setMessage('');
+      const data = (await apiClient.put(`/projects/${projectId}/health-check`, {
+        path: draft.path.trim() || null,
+        statusMin: Number(draft.statusMin),
+        statusMax: Number(draft.statusMax),
+        bodyMatch: draft.bodyMatch || null,
+        initialDelaySeconds: Number(draft.initialDelaySeconds),
+        periodSeconds: Number(draft.periodSeconds),
+        failureThreshold: Number(draft.failureThreshold),
+      })) as { healthCheck: HealthCheckSettingsValue };
+      setDraft(toDraft(data.healthCheck));
+      setMessage('Health check saved. Readiness changes apply from the next deployment.');
+    } catch (error) {
+      setMessage(`Saving health check failed: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-200 p-4">
+      <div>
+        <h3 className="text-base font-semibold text-slate-900">Health check</h3>
+        <p className="mt-1 text-sm text-slate-500">
+          With a path set, a deployment only receives traffic once the path returns an accepted
+          status, and running containers are restarted after repeated failed probes. Without a path,
+          any response on the port counts as ready.
+        </p>
+      </div>
+
+      {draft ? (
+        <>
+          <div className="grid gap-3 md:grid-cols-2">
+            <label>
+              <span className="field-label">Path</span>
+              <input
+                value={draft.path}
+                onChange={(e) => setDraft({ ...draft, path: e.target.value })}
+                className="field-input mono"
+                placeholder="/healthz"
+              />
+            </label>
+            <label>
+              <span className="field-label">Response must contain (optional)</span>
+              <input
+                value={draft.bodyMatch}
+                onChange={(e) => setDraft({ ...draft, bodyMatch: e.target.value })}
+                className="field-input mono"
+                placeholder='"status":"ok"'
+              />
+            </label>
+          </div>
+          <div className="grid gap-3 md:grid-cols-5">
+            {NUMBER_FIELDS.map((field) => (
+              <label key={field.key}>
+                <span className="field-label">{field.label}</span>
+                <input
+                  value={draft[field.key]}
+                  onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                  className="field-input"
+                  inputMode="numeric"
+                />
+              </label>
+            ))}
+          </div>
+          <button
+            className="btn-secondary"
+            type="button"
+            onClick={saveHealthCheck}
+            disabled={saving}
+          >
+            {saving ? 'Saving...' : 'Save health check'}
+          </button>
+        </>
+      ) : null}
+
+      {message ? <p className="text-xs text-slate-500">{message}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { apiClient } from '../lib/api';
+
+interface VolumeSnapshot {
+  id: string;
+  status: 'pending' | 'ready' | 'failed';
+  sizeBytes: string | null;
+  errorMessage: string | null;
+  lastRestoredAt: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+interface ProjectVolume {
+  id: string;
+  name: string;
+  mountPath: string;
+  sizeGb: number;
+  status: 'pending' | 'ready' | 'restoring' | 'deleting' | 'failed';
+  errorMessage: string | null;
+  usedBytes: string;
+  usageMeasuredAt: string | null;
+  createdAt: string;
+  server: { id: string; name: string; region: string };
+}
+
+const VOLUME_STATUS_UI: Record<ProjectVolume['status'], string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  ready: 'bg-emerald-100 text-emerald-700',
+  restoring: 'bg-blue-100 text-blue-700',
+  deleting: 'bg-slate-100 text-slate-600',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const formatBytes = (value: string | null): string => {
+  if (value === null) {
+    return '—';
+  }
+  const bytes = Number(value);
+  if (bytes >= 1024 ** 3) {
+    return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+  }
+  return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+};
+
+const formatDateTime = (iso: string | null): string => (iso ? new Date(iso).toLocaleString() : '—');
+
+export function ProjectVolumesPanel({ projectId }: { projectId: string }) {
+  const [volumes, setVolumes] = useState<ProjectVolume[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [pendingId, setPendingId] = useState('');
+  const [draft, setDraft] = useState({ name: '', mountPath: '/data', sizeGb: '1' });
+  const [expandedVolumeId, setExpandedVolumeId] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<VolumeSnapshot[]>([]);
+
+  const loadVolumes = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = (await apiClient.get(`/projects/${projectId}/volumes`)) as {
+        volumes?: ProjectVolume[];
+      };
+      setVolumes(data.volumes ?? []);
+    } catch (error) {
+      setMessage((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  const loadSnapshots = useCallback(async (volumeId: string) => {
+    const data = (await apiClient.get(`/volumes/${volumeId}/snapshots`)) as {
+      snapshots?: VolumeSnapshot[];
+    };
+    setSnapshots(data.snapshots ?? []);
+  }, []);
+
+  useEffect(() => {
+    loadVolumes().catch(() => undefined);
+  }, [loadVolumes]);
+
+  const createVolume = async () => {
+    try {
+      setSaving(true);
+      setMessage('');
+      await apiClient.post(`/projects/${projectId}/volumes`, {
+        name: draft.name.trim(),
+        mountPath: draft.mountPath.trim(),
+        sizeGb: Number(draft.sizeGb) || 1,
+      });
+      setDraft((previous) => ({ ...previous, name: '' }));
+      setMessage('Volume created. It is mounted from the next production deployment.');
+      await loadVolumes();
+    } catch (error) {
+      setMessage(`Creating volume failed: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteVolume = async (volume: ProjectVolume) => {
+    if (!window.confirm(`Delete volume ${volume.name}, its data and all of its snapshots?`)) {
+      return;
+    }
+    try {
+      setPendingId(volume.id);
+      await apiClient.delete(`/volumes/${volume.id}`);
+      if (expandedVolumeId === volume.id) {
+        setExpandedVolumeId(null);
+      }
+      setMessage(`Deleting volume ${volume.name}.`);
+      await loadVolumes();
+    } catch (error) {
+      setMessage((error as Error).message);
+    } finally {
+      setPendingId('');
+    }
+  };
+
+  const toggleSnapshots = async (volume: ProjectVolume) => {
+    if (expandedVolumeId === volume.id) {
+      setExpandedVolumeId(null);
+      return;
+    }
+    setExpandedVolumeId(volume.id);
+    setSnapshots([]);
+    await loadSnapshots(volume.id).catch((error) => setMessage((error as Error).message));
+  };
+
+  const takeSnapshot = async (volume: ProjectVolume) => {
+    try {
+      setPendingId(volume.id);
+      await apiClient.post(`/volumes/${volume.id}/snapshots`, {});
+      setMessage(`Snapshot of ${volume.name} started.`);
+      setExpandedVolumeId(volume.id);
+      await loadSnapshots(volume.id);
+    } catch (error) {
+      setMessage(`Snapshot failed to start: ${(error as Error).message}`);
+    } finally {
+      setPendingId('');
+    }
+  };
+
+  const restoreSnapshot = async (volume: ProjectVolume, snapshot: VolumeSnapshot) => {
+    if (
+      !window.confirm(
+        `Replace the contents of ${volume.name} with the snapshot from ${formatDateTime(snapshot.createdAt)}? Running containers are stopped during the restore.`,
+      )
+    ) {
+      return;
+    }
+    try {
+      setPendingId(snapshot.id);
+      await apiClient.post(`/volume-snapshots/${snapshot.id}/restore`, {});
+      setMessage(`Restoring ${volume.name}.`);
+      await loadVolumes();
+    } catch (error) {
+      setMessage(`Restore failed to start: ${(error as Error).message}`);
+    } finally {
+      setPendingId('');
+    }
+  };
+
+  const deleteSnapshot = async (volume: ProjectVolume, snapshot: VolumeSnapshot) => {
+    if (!window.confirm('Delete this snapshot?')) {
+      return;
+    }
+    try {
+      setPendingId(snapshot.id);
+      await apiClient.delete(`/volume-snapshots/${snapshot.id}`);
+      await loadSnapshots(volume.id);
+    } catch (error) {
+      setMessage((error as Error).message);
+    } finally {
+      setPendingId('');
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h3 className="text-base font-semibold text-slate-900">Volumes</h3>
+        <p className="mt-1 text-sm text-slate-500">
+          Persistent disks mounted into production containers. A project&apos;s volumes live on one
+          server, so its deployments stay on that server. Preview deployments never mount volumes.
+        </p>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-[1fr_2fr_auto_auto] md:items-end">
+        <label>
+          <span className="field-label">Name</span>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft((p) => ({ ...p, name: e.target.value }))}
+            className="field-input"
+            placeholder="uploads"
+          />
+        </label>
+        <label>
+          <span className="field-label">Mount path</span>
+          <input
+            value={draft.mountPath}
+            onChange={(e) => setDraft((p) => ({ ...p, mountPath: e.target.value }))}
+            className="field-input mono"
+            placeholder="/data"
+          />
+        </label>
+        <label>
+          <span className="field-label">Size (GB)</span>
+          <input
+            value={draft.sizeGb}
+            onChange={(e) => setDraft((p) => ({ ...p, sizeGb: e.target.value }))}
+            className="field-input w-24"
+            inputMode="numeric"
+          />
+        </label>
+        <button
+          className="btn-primary"
+          type="button"
+          onClick={createVolume}
+          disabled={saving || !draft.name.trim() || !draft.mountPath.trim()}
+        >
+          {saving ? 'Creating...' : 'Add volume'}
+        </button>
+      </div>
+
+      {message ? <p className="text-xs text-slate-500">{message}</p> : null}
+
+      {loading && volumes.length === 0 ? (
+        <p className="text-sm text-slate-500">Loading volumes...</p>
+      ) : volumes.length === 0 ? (
+        <p className="text-sm text-slate-500">No volumes yet.</p>
+      ) : (
+        <div className="divide-y divide-slate-200 rounded-xl border border-slate-200">
+          {volumes.map((volume) => (
+            <div key={volume.id} className="p-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-semibold text-slate-900">{volume.name}</p>
+                    <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs text-slate-700">
+                      {volume.mountPath}
+                    </code>
+                    <span
+                      className={`inline-flex items-center rounded-full px-2 py-0.5 text-[11px] font-semibold uppercase tracking-wider ${VOLUME_STATUS_UI[volume.status]}`}
+                    >
+                      {volume.status}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-xs text-slate-400">
+                    {formatBytes(volume.usedBytes)} of {volume.sizeGb} GB used ·{' '}
+                    {volume.server.name} ({volume.server.region})
+                  </p>
+                  {volume.errorMessage ? (
+                    <p className="mt-1 text-xs text-red-600">{volume.errorMessage}</p>
+                  ) : null}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    className="btn-secondary"
+                    type="button"
+                    onClick={() => takeSnapshot(volume)}
+                    disabled={pendingId === volume.id || volume.status !== 'ready'}
+                  >
+                    Snapshot
+                  </button>
+                  <button
+                    className="btn-secondary"
+                    type="button"
+                    onClick={() => toggleSnapshots(volume)}
+                  >
+                    {expandedVolumeId === volume.id ? 'Hide snapshots' : 'Snapshots'}
+                  </button>
+                  <button
+                    className="btn-secondary text-red-600"
+                    type="button"
+                    onClick={() => deleteVolume(volume)}
+                    disabled={
+                      pendingId === volume.id ||
+                      volume.status === 'deleting' ||
+                      volume.status === 'restoring'
+                    }
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {expandedVolumeId === volume.id ? (
+                <div className="mt-4">
+                  {snapshots.length === 0 ? (
+                    <p className="text-xs text-slate-500">No snapshots yet.</p>
+                  ) : (
+                    <table className="w-full text-left text-xs">
+                      <thead className="text-slate-400">
+                        <tr>
+                          <th className="py-1 font-medium">Taken</th>
+                          <th className="py-1 font-medium">Status</th>
+                          <th className="py-1 font-medium">Size</th>
+                          <th className="py-1 font-medium">Last restored</th>
+                          <th className="py-1" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100 text-slate-700">
+                        {snapshots.map((snapshot) => (
+                          <tr key={snapshot.id}>
+                            <td className="py-1.5">{formatDateTime(snapshot.createdAt)}</td>
+                            <td className="py-1.5 capitalize">
+                              {snapshot.status}
+                              {snapshot.errorMessage ? (
+                                <span className="ml-2 text-slate-500">{snapshot.errorMessage}</span>
+                              ) : null}
+                            </td>
+                            <td className="py-1.5">{formatBytes(snapshot.sizeBytes)}</td>
+                            <td className="py-1.5">{formatDateTime(snapshot.lastRestoredAt)}</td>
+                            <td className="space-x-3 py-1.5 text-right">
+                              <button
+                                type="button"
+                                className="text-xs font-medium text-slate-600 hover:underline disabled:opacity-50"
+                                onClick={() => restoreSnapshot(volume, snapshot)}
+                                disabled={
+                                  pendingId === snapshot.id ||
+                                  snapshot.status !== 'ready' ||
+                                  volume.status !== 'ready'
+                                }
+                              >
+                                Restore
+                              </button>
+                              <button
+                                type="button"
+                                className="text-xs font-medium text-red-600 hover:underline disabled:opacity-50"
+                                onClick={() => deleteSnapshot(volume, snapshot)}
+                                disabled={
+                                  pendingId === snapshot.id || snapshot.status === 'pending'
+                                }
+                              >
+                                Delete
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-export type DeploymentServiceType = 'web_service' | 'python' | 'static_site';
+export type DeploymentServiceType =
+  'web_service' | 'python' | 'static_site' | 'dockerfile' | 'worker';
 
 export interface DeploymentRuntimeGuide {
   title: string;
@@ -104,10 +105,70 @@ const deploymentRuntimeGuides: Record<DeploymentServiceType, DeploymentRuntimeGu
       },
     ],
   },
+  dockerfile: {
+    title: 'Your own Dockerfile',
+    summary:
+      'Use this when the app needs system packages, a different base image, or a language runtime Apployd does not auto-detect.',
+    fields: {
+      rootDirectory: 'services/api',
+      buildCommand: 'Defined in your Dockerfile',
+      port: '8080',
+    },
+    fallbackBuild: 'Builds the Dockerfile in your repository; build and start commands are ignored.',
+    details: [
+      {
+        title: 'Build context',
+        body: 'The root directory (or repository root) is the Docker build context. Set a Dockerfile path for non-default locations and a target to stop at a specific stage.',
+      },
+      {
+        title: 'Start behavior',
+        body: 'The image CMD / ENTRYPOINT runs as-is. Apployd only injects your environment variables and PORT.',
+      },
+      {
+        title: 'Port requirements',
+        body: 'Your container must listen on 0.0.0.0 at the configured port (also available as $PORT).',
+      },
+    ],
+  },
+  worker: {
+    title: 'Background worker',
+    summary:
+      'Use this for queue consumers, bots, and schedulers: a long-running process with no public URL.',
+    fields: {
+      rootDirectory: 'apps/worker',
+      buildCommand: 'npm run build',
+      startCommand: 'node dist/worker.js',
+      port: 'Not used',
+    },
+    fallbackBuild:
+      'Builds with the Node or Python image picked by the worker runtime, the same way as a web service of that language.',
+    fallbackStart:
+      'Set a start command. Without one, the Node or Python entrypoint detection runs and may pick a web server.',
+    details: [
+      {
+        title: 'No HTTP route',
+        body: 'Workers get no port, domain, or TLS certificate. Nothing needs to listen, and custom domains and canary releases are not available.',
+      },
+      {
+        title: 'Health',
+        body: 'A deployment is healthy once the process keeps running without restarts for a short grace period. Crashes are restarted by container recovery.',
+      },
+      {
+        title: 'Scaling',
+        body: 'Replicas and CPU or memory autoscaling work as usual; each replica should take work from a shared queue.',
+      },
+    ],
+  },
 };
 
 export const getDeploymentRuntimeGuide = (serviceType?: string | null): DeploymentRuntimeGuide => {
-  if (serviceType === 'python' || serviceType === 'static_site' || serviceType === 'web_service') {
+  if (
+    serviceType === 'python' ||
+    serviceType === 'static_site' ||
+    serviceType === 'web_service' ||
+    serviceType === 'dockerfile' ||
+    serviceType === 'worker'
+  ) {
     return deploymentRuntimeGuides[serviceType];
   }
 
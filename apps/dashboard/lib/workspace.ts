@@ -17,12 +17,19 @@ export interface WorkspaceProject {
   runtime: string;
   serviceType: string;
   outputDirectory: string | null;
+  dockerfilePath?: string | null;
+  dockerTarget?: string | null;
+  buildCachePurgedAt?: string | null;
   repoUrl: string | null;
   repoFullName: string | null;
   branch: string;
   rootDirectory: string | null;
+  includePaths?: string[];
+  excludePaths?: string[];
+  groupId?: string | null;
   buildCommand: string | null;
   startCommand: string | null;
+  releaseCommand?: string | null;
   targetPort: number;
   wakeMessage?: string | null;
   wakeRetrySeconds?: number;
@@ -32,6 +39,8 @@ export interface WorkspaceProject {
   resourceRamMb: number;
   resourceCpuMillicore: number;
   resourceBandwidthGb: number;
+  replicaCount?: number;
+  autoscaleEnabled?: boolean;
   usage?: {
     usageWindow: {
       start: string;
@@ -12,13 +12,18 @@ import {
 } from './auth-store.js';
 
 const argsSchema = z.object({
-  command: z.enum(['serve', 'login', 'logout', 'whoami', 'help']).default('serve'),
+  command: z
+    .enum(['serve', 'login', 'logout', 'whoami', 'switch', 'switch-back', 'help'])
+    .default('serve'),
+  target: z.string().cuid().optional(),
   noOpen: z.boolean().default(false),
   apiBaseUrl: z.string().url().optional(),
 });
 
 interface ParsedArgs {
-  command: 'serve' | 'login' | 'logout' | 'whoami' | 'help';
+  command: 'serve' | 'login' | 'logout' | 'whoami' | 'switch' | 'switch-back' | 'help';
+  /** Deployment id for `switch`, project id for `switch-back` */
+  target?: string;
   noOpen: boolean;
   apiBaseUrl?: string;
 }
@@ -33,6 +38,7 @@ const DEFAULT_API_BASE_URL = 'https://apployd.com/api/v1';
 
 export const parseArgs = (argv: string[]): ParsedArgs => {
   let command: ParsedArgs['command'] = 'serve';
+  let target: string | undefined;
   let noOpen = false;
   let apiBaseUrl: string | undefined;
 
@@ -44,11 +50,26 @@ export const parseArgs = (argv: string[]): ParsedArgs => {
       || candidate === 'login'
       || candidate === 'logout'
       || candidate === 'whoami'
+      || candidate === 'switch'
+      || candidate === 'switch-back'
       || candidate === 'help'
     ) {
       command = candidate;
     } else {
-      throw new Error(`Unknown command "${candidate}". Use login, logout, whoami, or serve.`);
+      throw new Error(
+        `Unknown command "${candidate}". Use login, logout, whoami, switch, switch-back, or serve.`,
+      );
+    }
+  }
+
+  if (command === 'switch' || command === 'switch-back') {
+    target = remaining[0] && !remaining[0].startsWith('-') ? remaining.shift() : undefined;
+    if (!target) {
+      throw new Error(
+        command === 'switch'
+          ? 'switch requires the id of the blue/green deployment to switch to.'
+          : 'switch-back requires a project id.',
+      );
     }
   }
 
@@ -79,12 +100,14 @@ export const parseArgs = (argv: string[]): ParsedArgs => {
 
   const parsed = argsSchema.parse({
     command,
+    ...(target ? { target } : {}),
     noOpen,
     ...(apiBaseUrl ? { apiBaseUrl } : {}),
   });
 
   return {
     command: parsed.command,
+    ...(parsed.target ? { target: parsed.target } : {}),
     noOpen: parsed.noOpen,
     ...(parsed.apiBaseUrl ? { apiBaseUrl: parsed.apiBaseUrl } : {}),
   };
@@ -227,6 +250,21 @@ export const runWhoAmICommand = async () => {
   );
 };
 
+export const runBlueGreenSwitchCommand = async (input: {
+  command: 'switch' | 'switch-back';
+  target: string;
+}) => {
+  const runtimeConfig = await resolveRuntimeConfig();
+  const token = requireRuntimeToken(runtimeConfig);
+  const client = new ApploydApiClient(token, runtimeConfig.apiBaseUrl);
+  const result =
+    input.command === 'switch'
+      ? await client.switchBlueGreen(input.target)
+      : await client.switchBackBlueGreen(input.target);
+
+  process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+};
+
 export const printHelp = () => {
   process.stdout.write(`Apployd MCP Server
 
@@ -236,6 +274,10 @@ Usage:
   apployd-mcp-server login           Sign in through the browser and cache a token locally
   apployd-mcp-server logout          Remove the cached token
   apployd-mcp-server whoami          Show the authenticated user and organizations
+  apployd-mcp-server switch <deploymentId>
+                                     Send production traffic to an idle blue/green deployment
+  apployd-mcp-server switch-back <projectId>
+                                     Return traffic to the deployment kept warm after a switch
 
 Options:
   --api-base-url <url>               Override the Apployd API base URL
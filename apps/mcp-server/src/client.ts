@@ -30,6 +30,7 @@ export interface DeploymentCreateInput {
   environment?: 'production' | 'preview';
   domain?: string;
   gitUrl?: string;
+  imageReference?: string;
   branch?: string;
   commitSha?: string;
   rootDirectory?: string;
@@ -37,8 +38,9 @@ export interface DeploymentCreateInput {
   startCommand?: string;
   port?: number;
   env?: Record<string, string>;
-  serviceType?: 'web_service' | 'static_site' | 'python';
+  serviceType?: 'web_service' | 'static_site' | 'python' | 'dockerfile' | 'worker';
   outputDirectory?: string;
+  blueGreen?: boolean;
   idempotencyKey?: string;
 }
 
@@ -158,6 +160,41 @@ export class ApploydApiClient {
     });
   }
 
+  async switchBlueGreen(deploymentId: string): Promise<unknown> {
+    return this.request(`/deployments/${encodeURIComponent(deploymentId)}/blue-green/switch`, {
+      method: 'POST',
+      body: {},
+    });
+  }
+
+  async switchBackBlueGreen(projectId: string): Promise<unknown> {
+    return this.request(`/projects/${encodeURIComponent(projectId)}/blue-green/switch-back`, {
+      method: 'POST',
+      body: {},
+    });
+  }
+
+  async discardBlueGreen(deploymentId: string): Promise<unknown> {
+    return this.request(`/deployments/${encodeURIComponent(deploymentId)}/blue-green/discard`, {
+      method: 'POST',
+      body: {},
+    });
+  }
+
+  async getCronJobs(projectId: string): Promise<unknown[]> {
+    const response = await this.request<{ cronJobs?: unknown[] }>(
+      `/projects/${encodeURIComponent(projectId)}/cron-jobs`,
+    );
+    return Array.isArray(response.cronJobs) ? response.cronJobs : [];
+  }
+
+  async runCronJob(cronJobId: string): Promise<unknown> {
+    return this.request(`/cron-jobs/${encodeURIComponent(cronJobId)}/runs`, {
+      method: 'POST',
+      body: {},
+    });
+  }
+
   async startCliLogin(): Promise<CliLoginStartResponse> {
     return this.request<CliLoginStartResponse>('/auth/cli/start', {
       method: 'POST',
@@ -10,13 +10,14 @@ import {
   printHelp,
   requireRuntimeToken,
   resolveRuntimeConfig,
+  runBlueGreenSwitchCommand,
   runLoginCommand,
   runLogoutCommand,
   runWhoAmICommand,
 } from './cli.js';
 
 const deploymentEnvironmentSchema = z.enum(['production', 'preview']);
-const serviceTypeSchema = z.enum(['web_service', 'static_site', 'python']);
+const serviceTypeSchema = z.enum(['web_service', 'static_site', 'python', 'dockerfile', 'worker']);
 const deploymentEnvVarsSchema = z
   .record(
     z
@@ -206,6 +207,13 @@ const buildServer = async () => {
       environment: deploymentEnvironmentSchema.default('production'),
       domain: z.string().trim().min(3).max(253).optional(),
       gitUrl: z.string().url().optional(),
+      imageReference: z
+        .string()
+        .trim()
+        .min(1)
+        .max(512)
+        .optional()
+        .describe('Prebuilt image to deploy instead of building from git, e.g. ghcr.io/org/app:1.2.0.'),
       branch: z.string().trim().min(1).max(255).optional(),
       commitSha: z
         .string()
@@ -219,6 +227,12 @@ const buildServer = async () => {
       env: deploymentEnvVarsSchema,
       serviceType: serviceTypeSchema.optional(),
       outputDirectory: z.string().max(300).optional(),
+      blueGreen: z
+        .boolean()
+        .optional()
+        .describe(
+          'Start next to the live production deployment on a private verification URL; production traffic moves on switch_blue_green_deployment.',
+        ),
       idempotencyKey: z
         .string()
         .trim()
@@ -236,6 +250,7 @@ const buildServer = async () => {
         environment: input.environment,
         ...(input.domain ? { domain: input.domain } : {}),
         ...(input.gitUrl ? { gitUrl: input.gitUrl } : {}),
+        ...(input.imageReference ? { imageReference: input.imageReference } : {}),
         ...(input.branch ? { branch: input.branch } : {}),
         ...(input.commitSha ? { commitSha: input.commitSha } : {}),
         ...(input.rootDirectory ? { rootDirectory: input.rootDirectory } : {}),
@@ -245,6 +260,7 @@ const buildServer = async () => {
         ...(input.env ? { env: input.env } : {}),
         ...(input.serviceType ? { serviceType: input.serviceType } : {}),
         ...(input.outputDirectory ? { outputDirectory: input.outputDirectory } : {}),
+        ...(input.blueGreen ? { blueGreen: true } : {}),
         idempotencyKey,
       };
       const result = await withApiErrors(() => client.createDeployment(deploymentInput));
@@ -281,6 +297,101 @@ const buildServer = async () => {
     },
   );
 
+  server.tool(
+    'switch_blue_green_deployment',
+    'Send all production traffic to an idle blue/green deployment. The replaced deployment stays warm for the project keep-warm window.',
+    {
+      deploymentId: z.string().cuid(),
+    },
+    async ({ deploymentId }) => {
+      const result = await withApiErrors(() => client.switchBlueGreen(deploymentId));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: toToolText('Blue/green switch queued', result),
+          },
+        ],
+      };
+    },
+  );
+
+  server.tool(
+    'switch_back_blue_green',
+    'Return production traffic to the deployment a blue/green switch replaced, while it is still kept warm.',
+    {
+      projectId: z.string().cuid(),
+    },
+    async ({ projectId }) => {
+      const result = await withApiErrors(() => client.switchBackBlueGreen(projectId));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: toToolText('Blue/green switch back queued', result),
+          },
+        ],
+      };
+    },
+  );
+
+  server.tool(
+    'discard_blue_green_deployment',
+    'Stop the idle side of a blue/green release: an unswitched deployment or the previous one kept warm.',
+    {
+      deploymentId: z.string().cuid(),
+    },
+    async ({ deploymentId }) => {
+      const result = await withApiErrors(() => client.discardBlueGreen(deploymentId));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: toToolText('Blue/green deployment discard queued', result),
+          },
+        ],
+      };
+    },
+  );
+
+  server.tool(
+    'list_cron_jobs',
+    'List the scheduled cron jobs of a project with their last run.',
+    {
+      projectId: z.string().cuid(),
+    },
+    async ({ projectId }) => {
+      const cronJobs = await withApiErrors(() => client.getCronJobs(projectId));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: toToolText('Cron jobs', { projectId, cronJobCount: cronJobs.length, cronJobs }),
+          },
+        ],
+      };
+    },
+  );
+
+  server.tool(
+    'run_cron_job',
+    'Run a cron job now, outside its schedule, from the active deployment image.',
+    {
+      cronJobId: z.string().cuid(),
+    },
+    async ({ cronJobId }) => {
+      const result = await withApiErrors(() => client.runCronJob(cronJobId));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: toToolText('Cron job run queued', result),
+          },
+        ],
+      };
+    },
+  );
+
   return server;
 };
 
@@ -310,6 +421,11 @@ const main = async () => {
     return;
   }
 
+  if ((args.command === 'switch' || args.command === 'switch-back') && args.target) {
+    await runBlueGreenSwitchCommand({ command: args.command, target: args.target });
+    return;
+  }
+
   const server = await buildServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
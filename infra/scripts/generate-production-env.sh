@@ -62,6 +62,7 @@ Runtime secrets are sourced from env vars when present:
   GITHUB_CLIENT_ID
   GITHUB_CLIENT_SECRET
   GITHUB_WEBHOOK_SECRET
+  BITBUCKET_WEBHOOK_SECRET
   EDGE_WAKE_TOKEN
   CLOUDFLARE_API_TOKEN
   CLOUDFLARE_ZONE_ID
@@ -240,6 +241,7 @@ EMAIL_VERIFICATION_MAX_ATTEMPTS_VALUE="${EMAIL_VERIFICATION_MAX_ATTEMPTS:-5}"
 GITHUB_CLIENT_ID_VALUE="${GITHUB_CLIENT_ID:-}"
 GITHUB_CLIENT_SECRET_VALUE="${GITHUB_CLIENT_SECRET:-}"
 GITHUB_WEBHOOK_SECRET_VALUE="${GITHUB_WEBHOOK_SECRET:-}"
+BITBUCKET_WEBHOOK_SECRET_VALUE="${BITBUCKET_WEBHOOK_SECRET:-}"
 NEXT_PUBLIC_GOOGLE_SITE_VERIFICATION_VALUE="${NEXT_PUBLIC_GOOGLE_SITE_VERIFICATION:-}"
 NEXT_PUBLIC_BING_SITE_VERIFICATION_VALUE="${NEXT_PUBLIC_BING_SITE_VERIFICATION:-}"
 NEXT_PUBLIC_YANDEX_VERIFICATION_VALUE="${NEXT_PUBLIC_YANDEX_VERIFICATION:-}"
@@ -283,6 +285,7 @@ GITHUB_CLIENT_ID=$GITHUB_CLIENT_ID_VALUE
 GITHUB_CLIENT_SECRET=$GITHUB_CLIENT_SECRET_VALUE
 GITHUB_OAUTH_REDIRECT_URI=${API_BASE_URL%/}/api/v1/integrations/github/callback
 GITHUB_WEBHOOK_SECRET=$GITHUB_WEBHOOK_SECRET_VALUE
+BITBUCKET_WEBHOOK_SECRET=$BITBUCKET_WEBHOOK_SECRET_VALUE
 DASHBOARD_BASE_URL=$DASHBOARD_BASE_URL
 ENCRYPTION_KEY=$ENCRYPTION_KEY_VALUE
 EDGE_WAKE_TOKEN=$EDGE_WAKE_TOKEN_VALUE
@@ -337,6 +340,15 @@ ENGINE_EGRESS_BLOCKED_UDP_PORTS=19,161
 ENGINE_SECURITY_MAX_DISTINCT_REMOTE_PORTS=8
 ENGINE_SECURITY_MAX_DISTINCT_REMOTE_HOSTS=80
 ENGINE_SECURITY_MAX_SYN_SENT_CONNECTIONS=30
+ENGINE_BUILD_CACHE_MODE=local
+ENGINE_BUILD_CACHE_DIR=/var/lib/apployd/build-cache
+ENGINE_BUILD_CACHE_REGISTRY=
+ENGINE_BUILDX_BUILDER=apployd-builder
+ENGINE_IMAGE_GC_ENABLED=true
+ENGINE_IMAGE_GC_INTERVAL_MINUTES=30
+ENGINE_IMAGE_GC_DEFAULT_RETENTION=3
+ENGINE_ORPHAN_CONTAINER_GRACE_MINUTES=30
+ENGINE_CRON_CONCURRENCY=2
 EOF
 
 cat >"$DASHBOARD_ENV" <<EOF
@@ -13,24 +13,110 @@ export interface AllocationRequest {
   bandwidthGb: number;
 }
 
-export type ServiceType = 'web_service' | 'static_site' | 'python';
+/** `worker` runs without a port or public route (queue consumers, bots). */
+export type ServiceType = 'web_service' | 'static_site' | 'python' | 'dockerfile' | 'worker';
 
 export type DeploymentEnvironment = 'production' | 'preview';
 
+export type DeploymentSourceType = 'git' | 'image';
+
+/** Pull credentials for a private image registry. */
+export interface RegistryAuth {
+  registry: string;
+  username: string;
+  password: string;
+}
+
+export type BuildConfigKey =
+  | 'installCommand'
+  | 'buildCommand'
+  | 'startCommand'
+  | 'releaseCommand'
+  | 'rootDirectory'
+  | 'outputDirectory'
+  | 'port'
+  | 'serviceType'
+  | 'dockerfilePath'
+  | 'dockerTarget';
+
+/** Records which build settings were taken from a checked-in apployd.json / apployd.toml. */
+export interface BuildConfigSource {
+  path: string;
+  commitSha?: string;
+  keys: BuildConfigKey[];
+}
+
+/** GitHub pull request a preview deployment was built for. */
+export interface PullRequestContext {
+  number: number;
+  repoFullName: string;
+  headSha: string;
+}
+
+/** Where the engine mirrors deployment progress on GitHub. */
+export interface GitHubStatusTarget {
+  repoFullName: string;
+  /** Project owner's GitHub token. */
+  accessToken: string;
+  /** Commit status context, also used as the check run name. */
+  context: string;
+  /** Check run opened when the deployment was queued; without one, commit statuses are posted. */
+  checkRunId?: number;
+}
+
+/**
+ * Automatic canary rollout. The engine holds each traffic step for the dwell
+ * time, compares the canary with the stable deployment and advances, promotes
+ * after the last step, or aborts when a guard fails.
+ */
+export interface CanaryPlan {
+  /** Increasing traffic percentages (1–99); the first is applied when the canary starts */
+  steps: number[];
+  stepDwellSeconds: number;
+  /** Requests the canary must serve in a step before the guards are evaluated */
+  minRequestsPerStep: number;
+  /** Percentage points the canary 5xx rate may exceed the stable rate by */
+  maxErrorRateIncrease: number;
+  /** How far the canary p95 latency may exceed the stable p95, in percent */
+  maxLatencyIncreasePercent: number;
+  /** Container restarts tolerated across the whole rollout */
+  maxRestarts: number;
+}
+
 export interface DeploymentRequest {
   projectId: string;
-  gitUrl: string;
+  /** Defaults to `git`. Image deployments pull `imageReference` instead of building. */
+  sourceType?: DeploymentSourceType;
+  /** Required for git deployments. */
+  gitUrl?: string;
+  /** Image to pull for `image` deployments (tag or digest). */
+  imageReference?: string;
+  registryAuth?: RegistryAuth;
   gitAuthToken?: string;
+  /** Clone user name paired with gitAuthToken; the engine defaults to GitHub's `x-access-token`. */
+  gitAuthUsername?: string;
+  /** Host gitAuthToken is valid for; the engine defaults to `github.com`. */
+  gitAuthHost?: string;
   commitSha?: string;
   branch?: string;
   rootDirectory?: string;
   env: Record<string, string>;
+  installCommand?: string;
   buildCommand?: string;
   startCommand?: string;
+  /** Run once in a one-off container from the new image before any replica starts; must exit 0 */
+  releaseCommand?: string;
   port: number;
   environment?: DeploymentEnvironment;
   serviceType?: ServiceType;
   outputDirectory?: string;
+  /** Repository Dockerfile path relative to rootDirectory (serviceType `dockerfile`) */
+  dockerfilePath?: string;
+  /** Multi-stage build target (serviceType `dockerfile`) */
+  dockerTarget?: string;
+  buildConfig?: BuildConfigSource;
+  pullRequest?: PullRequestContext;
+  githubStatus?: GitHubStatusTarget;
 }
 
 export interface SchedulerCandidate {
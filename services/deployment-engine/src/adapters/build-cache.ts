@@ -0,0 +1,171 @@
+import { access, readdir, rename, rm } from 'fs/promises';
+import { join } from 'path';
+
+import { env } from '../core/env.js';
+
+export type BuildCacheMode = 'off' | 'local' | 'registry';
+
+export interface BuildCacheSettings {
+  mode: BuildCacheMode;
+  dir: string;
+  registry?: string | undefined;
+}
+
+export interface BuildCachePlan {
+  /** Human-readable cache location for build logs (never contains credentials). */
+  label: string;
+  /** `--cache-from` / `--cache-to` flags, already shell-safe for the given escape function. */
+  args: string[];
+  /** Promote a freshly exported cache so the next build imports it. */
+  commit(): Promise<void>;
+  /** Drop a partially exported cache after a failed build. */
+  discard(): Promise<void>;
+}
+
+export interface BuildCacheStats {
+  cached: number;
+  executed: number;
+  total: number;
+}
+
+const noop = async () => undefined;
+
+export const buildCacheSettingsFromEnv = (): BuildCacheSettings => ({
+  mode: env.ENGINE_BUILD_CACHE_MODE,
+  dir: env.ENGINE_BUILD_CACHE_DIR,
+  registry: env.ENGINE_BUILD_CACHE_REGISTRY,
+});
+
+/**
+ * Cache refs are keyed by project and purge generation. Bumping the generation
+ * (see `DELETE /projects/:projectId/build-cache`) makes every server and the
+ * registry miss on the next build without having to delete remote blobs first.
+ */
+export const buildCacheKey = (projectId: string, generation: number): string =>
+  `${projectId}-g${Math.max(0, Math.floor(generation))}`;
+
+const localCacheRoot = (settings: BuildCacheSettings, projectId: string) =>
+  join(settings.dir, projectId);
+
+/**
+ * Resolve the cache flags for one build. Local caches are exported to a
+ * `.next` directory and swapped in on success, because BuildKit's local
+ * exporter never prunes blobs from an existing destination.
+ */
+export const planBuildCache = async (
+  input: { projectId: string; generation: number },
+  shellEscape: (value: string) => string,
+  settings: BuildCacheSettings = buildCacheSettingsFromEnv(),
+): Promise<BuildCachePlan | null> => {
+  const key = buildCacheKey(input.projectId, input.generation);
+
+  if (settings.mode === 'registry') {
+    if (!settings.registry) {
+      return null;
+    }
+    const ref = `${settings.registry.replace(/\/+$/, '')}:${key}`;
+    return {
+      label: `registry ${ref}`,
+      args: [
+        `--cache-from ${shellEscape(`type=registry,ref=${ref}`)}`,
+        `--cache-to ${shellEscape(`type=registry,ref=${ref},mode=max`)}`,
+      ],
+      commit: noop,
+      discard: noop,
+    };
+  }
+
+  if (settings.mode !== 'local') {
+    return null;
+  }
+
+  const root = localCacheRoot(settings, input.projectId);
+  const current = join(root, key);
+  const next = `${current}.next`;
+  const hasCurrent = await access(join(current, 'index.json'))
+    .then(() => true)
+    .catch(() => false);
+
+  const args: string[] = [];
+  if (hasCurrent) {
+    args.push(`--cache-from ${shellEscape(`type=local,src=${current}`)}`);
+  }
+  args.push(`--cache-to ${shellEscape(`type=local,dest=${next},mode=max`)}`);
+
+  return {
+    label: `local ${current}`,
+    args,
+    commit: async () => {
+      await rm(current, { recursive: true, force: true });
+      await rename(next, current);
+      await pruneStaleGenerations(root, key);
+    },
+    discard: async () => {
+      await rm(next, { recursive: true, force: true });
+    },
+  };
+};
+
+const pruneStaleGenerations = async (root: string, keepKey: string): Promise<void> => {
+  const entries = await readdir(root).catch(() => [] as string[]);
+  await Promise.all(
+    entries
+      .filter((entry) => entry !== keepKey)
+      .map((entry) =>
+        rm(join(root, entry), { recursive: true, force: true }).catch(() => undefined),
+      ),
+  );
+};
+
+/** Remove every local cache generation for a project on this server. */
+export const purgeLocalBuildCache = async (
+  projectId: string,
+  settings: BuildCacheSettings = buildCacheSettingsFromEnv(),
+): Promise<void> => {
+  if (!/^[A-Za-z0-9_-]+$/.test(projectId)) {
+    throw new Error('Invalid projectId for build cache purge');
+  }
+  await rm(localCacheRoot(settings, projectId), { recursive: true, force: true });
+};
+
+const STEP_PATTERN = /^#(\d+) \[[^\]]*\b\d+\/\d+\] /;
+const CACHED_PATTERN = /^#(\d+) CACHED\s*$/;
+
+/**
+ * Counts Dockerfile steps in BuildKit `--progress=plain` output. Internal
+ * steps (context transfer, metadata, cache import/export) are ignored so the
+ * ratio reflects layers the project actually builds.
+ */
+export class BuildCacheStatsTracker {
+  private readonly steps = new Set<string>();
+
+  private readonly cachedSteps = new Set<string>();
+
+  observe(line: string): void {
+    const trimmed = line.trim();
+    const step = trimmed.match(STEP_PATTERN);
+    if (step?.[1]) {
+      this.steps.add(step[1]);
+      return;
+    }
+
+    const cached = trimmed.match(CACHED_PATTERN);
+    if (cached?.[1]) {
+      this.cachedSteps.add(cached[1]);
+    }
+  }
+
+  stats(): BuildCacheStats {
+    const cached = [...this.cachedSteps].filter((id) => this.steps.has(id)).length;
+    return {
+      cached,
+      executed: this.steps.size - cached,
+      total: this.steps.size,
+    };
+  }
+}
+
+export const formatBuildCacheStats = (stats: BuildCacheStats): string => {
+  const ratio = stats.total > 0 ? Math.round((stats.cached / stats.total) * 100) : 0;
+  return `Build cache: ${stats.cached} hit / ${stats.executed} miss (${ratio}% of ${stats.total} steps cached)`;
+};
@@ -1,12 +1,31 @@
 import { randomInt } from 'crypto';
-import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { access, mkdtemp, rm, writeFile } from 'fs/promises';
 import net from 'net';
 import { tmpdir } from 'os';
 import { join } from 'path';
 
+import type { RegistryAuth } from '@apployd/shared';
+
 import { runCommand, runCommandStreaming, type LogCallback } from '../core/run-command.js';
 import { env } from '../core/env.js';
+import {
+  SHARED_NETWORK,
+  organizationNetworkName,
+  type PrivateNetworkAttachment,
+} from '../core/private-network.js';
+import { runHostCommand } from '../core/run-host-command.js';
+import { buildCacheStepsCounter } from '../monitoring/metrics.js';
+import {
+  MAX_PROBE_BODY_BYTES,
+  PROBE_STATUS_MARKER,
+  evaluateHttpProbeResponse,
+  parseCurlProbeOutput,
+  type HttpProbeConfig,
+  type HttpProbeResponse,
+} from '../monitoring/probe-utils.js';
 import { EgressGuard } from '../security/egress-guard.js';
+import { BuildCacheStatsTracker, formatBuildCacheStats, planBuildCache } from './build-cache.js';
+import { buildDockerAuthConfig, selectPinnedImageReference } from './registry-utils.js';
 
 const shellEscape = (value: string) =>
   process.platform === 'win32'
@@ -14,9 +33,14 @@ const shellEscape = (value: string) =>
     : `'${value.replace(/'/g, `'\"'\"'`)}'`;
 
 const DOCKER_NETWORK_TIMEOUT_MS = 10_000;
+const DOCKER_BUILDX_TIMEOUT_MS = 30_000;
 const DOCKER_RUN_TIMEOUT_MS = 30_000;
 const DOCKER_INSPECT_TIMEOUT_MS = 3_000;
 const DOCKER_EXEC_PROBE_TIMEOUT_MS = 3_000;
+const DOCKER_GC_TIMEOUT_MS = 60_000;
+const DOCKER_PULL_TIMEOUT_MS = 15 * 60_000;
+const DOCKER_VOLUME_TIMEOUT_MS = 5 * 60_000;
+const DOCKER_VOLUME_ARCHIVE_TIMEOUT_MS = 60 * 60_000;
 
 /**
  * Sanitize sensitive data from logs and errors (Vercel/Render grade security)
@@ -43,6 +67,145 @@ function sanitizeLog(message: string): string {
  * Sanitize environment variable names for logging
  * Only show names, never values
  */
+const containerEnvArgs = (values: Record<string, string>): string =>
+  Object.entries(values)
+    .map(([k, v]) => `-e ${shellEscape(`${k}=${v}`)}`)
+    .join(' ');
+
+/** Docker name of a deployment's container; replica 0 keeps the historical unsuffixed name. */
+export const deploymentContainerName = (deploymentId: string, replicaIndex = 0): string =>
+  replicaIndex > 0 ? `apployd-${deploymentId}-r${replicaIndex}` : `apployd-${deploymentId}`;
+
+/**
+ * Established TCP connections accepted on one of the container's listening
+ * ports, from the concatenated contents of /proc/<pid>/net/tcp and tcp6.
+ * Outbound connections (databases, APIs) use ephemeral local ports and are not
+ * counted.
+ */
+export const countInboundConnections = (procNetTcp: string): number => {
+  const listeningPorts = new Set<string>();
+  const establishedLocalPorts: string[] = [];
+
+  for (const line of procNetTcp.split(/\r?\n/)) {
+    const parts = line.trim().split(/\s+/);
+    const localAddress = parts[1] ?? '';
+    const state = parts[3] ?? '';
+    const separator = localAddress.lastIndexOf(':');
+    if (parts.length < 4 || separator < 0) {
+      continue;
+    }
+    const localPort = localAddress.slice(separator + 1).toUpperCase();
+    if (state === '0A') {
+      listeningPorts.add(localPort);
+    } else if (state === '01') {
+      establishedLocalPorts.push(localPort);
+    }
+  }
+
+  return establishedLocalPorts.filter((port) => listeningPorts.has(port)).length;
+};
+
+export interface DrainProgress {
+  phase: 'draining' | 'drained' | 'timed_out';
+  openConnections: number;
+  elapsedSeconds: number;
+}
+
+/** Deployment event type each drain phase is published as. */
+export const DRAIN_EVENT_TYPES: Record<DrainProgress['phase'], string> = {
+  draining: 'drain_progress',
+  drained: 'drain_completed',
+  timed_out: 'drain_timed_out',
+};
+
+export const describeDrainProgress = (progress: DrainProgress, label: string): string => {
+  const connections = `${progress.openConnections} open connection${progress.openConnections === 1 ? '' : 's'}`;
+  if (progress.phase === 'draining') {
+    return `Draining ${label}: ${connections} (${progress.elapsedSeconds}s elapsed)`;
+  }
+  if (progress.phase === 'timed_out') {
+    return `Drain timeout reached for ${label} with ${connections} left after ${progress.elapsedSeconds}s; stopping anyway`;
+  }
+  return `Drained ${label} in ${progress.elapsedSeconds}s; stopping`;
+};
+
+const DRAIN_POLL_INTERVAL_MS = 1_000;
+const DRAIN_PROGRESS_INTERVAL_MS = 5_000;
+
+/** Backing ext4 image of a `loop` driver volume on the host. */
+const volumeImagePath = (dockerVolumeName: string): string =>
+  `${env.ENGINE_VOLUME_DIR.replace(/\/+$/, '')}/${dockerVolumeName}.img`;
+
+/** Filesystem, capability, process, and resource flags shared by every app container. */
+function containerIsolationArgs(input: { memoryMb: number; cpuMillicores: number }): string[] {
+  const memoryLimit = `${input.memoryMb}m`;
+  const cpuQuota = Math.floor((input.cpuMillicores / 1000) * 100000);
+
+  const filesystemFlags = env.ENGINE_CONTAINER_READ_ONLY
+    ? [
+        '--read-only',
+        '--tmpfs /tmp:rw,noexec,nosuid,size=512m',
+        '--tmpfs /run:rw,noexec,nosuid,size=64m',
+        '--tmpfs /var/run:rw,noexec,nosuid,size=64m',
+        '--tmpfs /app/.npm:rw,noexec,nosuid,size=256m',
+        '--tmpfs /app/.cache:rw,noexec,nosuid,size=256m',
+        '--tmpfs /app/node_modules/.cache:rw,noexec,nosuid,size=256m',
+        '--tmpfs /var/cache/nginx:rw,noexec,nosuid,size=128m',
+        '--tmpfs /var/log/nginx:rw,noexec,nosuid,size=64m',
+        '--tmpfs /var/lib/nginx:rw,noexec,nosuid,size=64m',
+      ]
+    : [];
+
+  return [
+    ...filesystemFlags,
+
+    // Security: capability drops and isolation.
+    '--security-opt no-new-privileges:true',
+    '--cap-drop ALL',
+    '--cap-add NET_BIND_SERVICE',
+    '--cap-add CHOWN',
+    '--cap-add SETUID',
+    '--cap-add SETGID',
+
+    // Security: process limits.
+    '--pids-limit 256',
+    '--ulimit nofile=4096:8192',
+    '--ulimit nproc=256:512',
+
+    // Resource limits.
+    `--memory ${memoryLimit}`,
+    '--memory-swap',
+    memoryLimit,
+    '--oom-kill-disable=false',
+    `--cpu-period 100000 --cpu-quota ${cpuQuota}`,
+  ];
+}
+
+/**
+ * Every app container joins the shared network. With an organization attached
+ * it also joins that organization's network from the start, so the app can
+ * reach its private services while it boots.
+ */
+function containerNetworkArgs(
+  privateNetwork: PrivateNetworkAttachment | undefined,
+  sharedAliases: string[] = [],
+): string[] {
+  if (!privateNetwork) {
+    return [
+      `--network ${SHARED_NETWORK}`,
+      ...sharedAliases.map((alias) => `--network-alias ${alias}`),
+    ];
+  }
+
+  const organizationAliases = privateNetwork.hostname ? [privateNetwork.hostname] : [];
+  const networkSpec = (name: string, aliases: string[]) =>
+    `--network ${shellEscape([`name=${name}`, ...aliases.map((alias) => `alias=${alias}`)].join(','))}`;
+  return [
+    networkSpec(SHARED_NETWORK, sharedAliases),
+    networkSpec(organizationNetworkName(privateNetwork.organizationId), organizationAliases),
+  ];
+}
+
 function sanitizeEnvForLog(env: Record<string, string>): string {
   const keys = Object.keys(env).sort();
   return keys.length > 0 ? `(${keys.length} vars: ${keys.join(', ')})` : '(no env vars)';
@@ -66,13 +229,18 @@ function sanitizeEnvForLog(env: Record<string, string>): string {
  * Result: First build is full speed; subsequent builds are 2-10× faster.
  */
 export function universalDockerfile(
-  serviceType: 'web_service' | 'static_site' | 'python' = 'web_service',
+  serviceType: 'web_service' | 'static_site' | 'python' | 'dockerfile' | 'worker' = 'web_service',
   projectId = 'default',
+  runtime = 'node',
 ): string {
+  if (serviceType === 'dockerfile') {
+    return sourceExportDockerfile();
+  }
   if (serviceType === 'static_site') {
     return staticSiteDockerfile(projectId);
   }
-  if (serviceType === 'python') {
+  // Workers reuse the language images; nothing listens on the baked-in PORT.
+  if (serviceType === 'python' || (serviceType === 'worker' && runtime === 'python')) {
     return pythonDockerfile(projectId);
   }
   return webServiceDockerfile(projectId);
@@ -86,14 +254,17 @@ function gitSourceStageLines(): string[] {
     'ARG GIT_BRANCH=""',
     'ARG GIT_SHA=""',
     'ARG SOURCE_REFRESH_NONCE=""',
+    'ARG GIT_AUTH_HOST=github.com',
     'WORKDIR /repo',
     'RUN --mount=type=secret,id=git_auth_token,required=false \\',
     '    set -eu; \\',
     '    echo ">>> Source refresh nonce: ${SOURCE_REFRESH_NONCE}"; \\',
     '    auth_header=""; \\',
-    '    if [ -s /run/secrets/git_auth_token ] && printf "%s" "${GIT_URL}" | grep -Eq "^https://github\\.com/"; then \\',
-    '      token="$(cat /run/secrets/git_auth_token)"; \\',
-    '      auth_header="Authorization: Basic $(printf "x-access-token:%s" "$token" | base64 | tr -d \'\\n\')"; \\',
+    // The secret holds `user:token`; it is only sent to the host it was issued for.
+    '    if [ -s /run/secrets/git_auth_token ]; then \\',
+    '      case "${GIT_URL}" in "https://${GIT_AUTH_HOST}/"*) \\',
+    '        auth_header="Authorization: Basic $(base64 < /run/secrets/git_auth_token | tr -d \'\\n\')";; \\',
+    '      esac; \\',
     '    fi; \\',
     '    git_with_auth() { \\',
     '      if [ -n "$auth_header" ]; then git -c http.extraHeader="$auth_header" "$@"; else git "$@"; fi; \\',
@@ -190,6 +361,46 @@ function pythonSourceRootLines(): string[] {
   ];
 }
 
+function dockerfileSourceRootLines(): string[] {
+  return [
+    '# Resolve configured root directory as the Docker build context',
+    'ARG ROOT_DIR=.',
+    'RUN set -eu; \\',
+    '    requested="${ROOT_DIR:-.}"; \\',
+    '    [ -n "$requested" ] || requested="."; \\',
+    '    source_dir="/repo"; \\',
+    '    [ "$requested" = "." ] || source_dir="/repo/$requested"; \\',
+    '    if [ ! -d "$source_dir" ]; then \\',
+    '      echo ">>> Requested root directory ${requested} was not found in the repository"; \\',
+    '      exit 1; \\',
+    '    fi; \\',
+    '    rm -rf /apployd-target && mkdir -p /apployd-target; \\',
+    '    cp -a "$source_dir/." /apployd-target/; \\',
+    '    rm -rf /apployd-target/.git; \\',
+    '    echo ">>> Resolved build context: ${requested}"',
+    '',
+  ];
+}
+
+/**
+ * Source-only build for repositories that bring their own Dockerfile.
+ * Reuses the authenticated clone stage and exports the checked-out tree
+ * (via `--output type=local`) so the repo's Dockerfile can be built
+ * against it in a second `docker build`.
+ */
+function sourceExportDockerfile(): string {
+  return [
+    '# syntax=docker/dockerfile:1',
+    '',
+    ...gitSourceStageLines(),
+    ...dockerfileSourceRootLines(),
+    '# ---- Stage 2: Export checked-out sources ----',
+    'FROM scratch',
+    'COPY --from=source /apployd-target/ /',
+    '',
+  ].join('\n');
+}
+
 /**
  * Dockerfile for Python web service projects (Django, Flask, FastAPI, etc.).
  * Uses BuildKit cache mounts for fast pip install between builds.
@@ -223,9 +434,13 @@ function pythonDockerfile(projectId: string): string {
     '    done',
     '',
     '# ── Install Python dependencies with persistent pip cache ──',
+    'ARG INSTALL_CMD=""',
     'RUN --mount=type=cache,id=pip-' + projectId + ',target=/root/.cache/pip \\',
     '    set -ex; \\',
-    '    if [ -f requirements.txt ]; then \\',
+    '    if [ -n "${INSTALL_CMD}" ]; then \\',
+    '      echo ">>> Running custom install: ${INSTALL_CMD}"; \\',
+    '      sh -c "${INSTALL_CMD}"; \\',
+    '    elif [ -f requirements.txt ]; then \\',
     '      echo ">>> Installing from requirements.txt"; \\',
     '      pip install -r requirements.txt; \\',
     '    elif [ -f Pipfile ]; then \\',
@@ -357,12 +572,14 @@ function webServiceDockerfile(projectId: string): string {
     '# ── Install dependencies with persistent caches ──',
     '# --ignore-scripts: Skip preinstall/postinstall (Vercel behavior)',
     `# Cache key: project=${projectId}`,
+    'ARG INSTALL_CMD=""',
     'RUN --mount=type=cache,id=npm-' + projectId + ',target=/root/.npm \\',
     '    --mount=type=cache,id=yarn-' + projectId + ',target=/usr/local/share/.cache/yarn \\',
     '    --mount=type=cache,id=pnpm-' + projectId + ',target=/root/.local/share/pnpm/store \\',
     '    --mount=type=cache,id=node_modules-' + projectId + ',target=/app/node_modules \\',
     '    set -ex; \\',
-    '    if [ -f package-lock.json ]; then npm ci --ignore-scripts || npm install --ignore-scripts || (echo "=== NPM ERROR LOGS ===" && cat ~/.npm/_logs/*.log 2>/dev/null && exit 1); \\',
+    '    if [ -n "${INSTALL_CMD}" ]; then echo ">>> Running custom install: ${INSTALL_CMD}"; sh -c "${INSTALL_CMD}"; \\',
+    '    elif [ -f package-lock.json ]; then npm ci --ignore-scripts || npm install --ignore-scripts || (echo "=== NPM ERROR LOGS ===" && cat ~/.npm/_logs/*.log 2>/dev/null && exit 1); \\',
     '    elif [ -f yarn.lock ]; then corepack enable && yarn install --frozen-lockfile --ignore-scripts || yarn install --ignore-scripts; \\',
     '    elif [ -f pnpm-lock.yaml ]; then corepack enable && pnpm install --frozen-lockfile --ignore-scripts || pnpm install --ignore-scripts; \\',
     '    elif [ -f bun.lockb ]; then npx bun install --ignore-scripts; \\',
@@ -515,12 +732,14 @@ function staticSiteDockerfile(projectId: string): string {
     '',
     '# ── Install dependencies with persistent caches ──',
     '# --ignore-scripts: Skip preinstall/postinstall (Vercel behavior)',
+    'ARG INSTALL_CMD=""',
     'RUN --mount=type=cache,id=npm-' + projectId + ',target=/root/.npm \\',
     '    --mount=type=cache,id=yarn-' + projectId + ',target=/usr/local/share/.cache/yarn \\',
     '    --mount=type=cache,id=pnpm-' + projectId + ',target=/root/.local/share/pnpm/store \\',
     '    --mount=type=cache,id=node_modules-' + projectId + ',target=/app/node_modules \\',
     '    set -ex; \\',
-    '    if [ -f package-lock.json ]; then npm ci --ignore-scripts || npm install --ignore-scripts || (echo "=== NPM ERROR LOGS ===" && cat ~/.npm/_logs/*.log 2>/dev/null && exit 1); \\',
+    '    if [ -n "${INSTALL_CMD}" ]; then echo ">>> Running custom install: ${INSTALL_CMD}"; sh -c "${INSTALL_CMD}"; \\',
+    '    elif [ -f package-lock.json ]; then npm ci --ignore-scripts || npm install --ignore-scripts || (echo "=== NPM ERROR LOGS ===" && cat ~/.npm/_logs/*.log 2>/dev/null && exit 1); \\',
     '    elif [ -f yarn.lock ]; then corepack enable && yarn install --frozen-lockfile --ignore-scripts || yarn install --ignore-scripts; \\',
     '    elif [ -f pnpm-lock.yaml ]; then corepack enable && pnpm install --frozen-lockfile --ignore-scripts || pnpm install --ignore-scripts; \\',
     '    elif [ -f bun.lockb ]; then npx bun install --ignore-scripts; \\',
@@ -591,16 +810,39 @@ interface BuildImageInput {
   projectId: string;
   gitUrl: string;
   gitAuthToken?: string;
+  /** Basic-auth user name paired with gitAuthToken (defaults to GitHub's x-access-token) */
+  gitAuthUsername?: string;
+  /** Host the token belongs to; other hosts are cloned anonymously (defaults to github.com) */
+  gitAuthHost?: string;
   branch: string;
   commitSha?: string;
   rootDirectory?: string;
+  installCommand?: string;
   buildCommand?: string;
   startCommand?: string;
   port: number;
-  serviceType?: 'web_service' | 'static_site' | 'python';
+  serviceType?: 'web_service' | 'static_site' | 'python' | 'dockerfile' | 'worker';
+  /** Project runtime (`node` or `python`); selects the image for workers */
+  runtime?: string;
   outputDirectory?: string;
+  /** Repository Dockerfile path relative to rootDirectory (dockerfile service type only) */
+  dockerfilePath?: string;
+  /** Optional multi-stage build target (dockerfile service type only) */
+  dockerTarget?: string;
+  /** Project cache generation; bumped when the project's build cache is purged */
+  buildCacheGeneration?: number;
 }
 
+const DOCKER_TARGET_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,127}$/;
+
+const normalizeRepositoryPath = (value: string): string | null => {
+  const normalized = value.trim().replace(/^\.\/+/, '');
+  if (!normalized || normalized.startsWith('/') || normalized.split('/').includes('..')) {
+    return null;
+  }
+  return normalized;
+};
+
 /** Patterns that indicate a dev-only start command — should not be used in production containers */
 const DEV_CMD_PATTERNS = [
   /\brun\s+dev\b/i,
@@ -626,6 +868,12 @@ function isAmbiguousStartCommand(cmd: string): boolean {
   return AMBIGUOUS_START_CMD_PATTERNS.some((p) => p.test(cmd));
 }
 
+export interface VolumeMount {
+  dockerVolumeName: string;
+  /** Absolute path inside the container */
+  mountPath: string;
+}
+
 interface RunContainerInput {
   imageTag: string;
   port: number;
@@ -633,6 +881,35 @@ interface RunContainerInput {
   memoryMb: number;
   cpuMillicores: number;
   deploymentId: string;
+  /** Replicas after the first are named `apployd-<deploymentId>-r<index>` */
+  replicaIndex?: number;
+  /** Reuse a known host port (replacing a replica in place); allocated otherwise */
+  hostPort?: number;
+  /** Project volumes; writable even when the root filesystem is read-only */
+  volumes?: VolumeMount[];
+  /** Workers listen on nothing: no port is published and the returned hostPort is 0 */
+  publishPort?: boolean;
+  privateNetwork?: PrivateNetworkAttachment;
+}
+
+interface RunTaskInput {
+  /** Container name suffix (`apployd-<name>`); must not look like a deployment container */
+  name: string;
+  imageTag: string;
+  /** Shell command run with `/bin/sh -c` */
+  command: string;
+  env: Record<string, string>;
+  memoryMb: number;
+  cpuMillicores: number;
+  timeoutMs: number;
+  privateNetwork?: PrivateNetworkAttachment;
+}
+
+export interface RunTaskResult {
+  /** Null when the task timed out or docker reported no exit code */
+  exitCode: number | null;
+  durationMs: number;
+  timedOut: boolean;
 }
 
 interface BuildImageResult {
@@ -640,6 +917,19 @@ interface BuildImageResult {
   sourceCommitSha: string | null;
 }
 
+interface PullImageInput {
+  deploymentId: string;
+  /** `registry/repository:tag` or `registry/repository@sha256:...` */
+  imageReference: string;
+  registryAuth?: RegistryAuth;
+}
+
+interface PullImageResult {
+  imageTag: string;
+  /** `repository@sha256:...` the deployment is pinned to */
+  imageDigest: string;
+}
+
 interface ContainerRuntimeState {
   status: string;
   running: boolean;
@@ -706,14 +996,18 @@ export class DockerAdapter {
 
       await writeFile(
         join(ctxDir, 'Dockerfile'),
-        universalDockerfile(input.serviceType, input.projectId),
+        universalDockerfile(input.serviceType, input.projectId, input.runtime),
         'utf8',
       );
       let gitAuthTokenPath: string | undefined;
       if (input.gitAuthToken) {
         secretDir = await mkdtemp(join(tmpdir(), 'apployd-secret-'));
         gitAuthTokenPath = join(secretDir, 'git-auth-token');
-        await writeFile(gitAuthTokenPath, input.gitAuthToken, { encoding: 'utf8', mode: 0o600 });
+        await writeFile(
+          gitAuthTokenPath,
+          `${input.gitAuthUsername ?? 'x-access-token'}:${input.gitAuthToken}`,
+          { encoding: 'utf8', mode: 0o600 },
+        );
       }
 
       const isStatic = input.serviceType === 'static_site';
@@ -722,16 +1016,37 @@ export class DockerAdapter {
       const args: string[] = [
         `--build-arg GIT_URL=${shellEscape(input.gitUrl)}`,
         `--build-arg GIT_BRANCH=${shellEscape(input.branch)}`,
-        `--build-arg APP_PORT=${input.port}`,
       ];
       if (gitAuthTokenPath) {
         args.push(`--secret id=git_auth_token,src=${shellEscape(gitAuthTokenPath)}`);
+        if (input.gitAuthHost) {
+          args.push(`--build-arg GIT_AUTH_HOST=${shellEscape(input.gitAuthHost)}`);
+        }
       }
       const sourceRefreshNonce = `${input.deploymentId}-${Date.now()}`;
       args.push(`--build-arg SOURCE_REFRESH_NONCE=${shellEscape(sourceRefreshNonce)}`);
       if (input.commitSha) args.push(`--build-arg GIT_SHA=${shellEscape(input.commitSha)}`);
       if (input.rootDirectory)
         args.push(`--build-arg ROOT_DIR=${shellEscape(input.rootDirectory)}`);
+
+      const sourceRef = input.commitSha
+        ? `${input.branch}@${input.commitSha.slice(0, 12)}`
+        : input.branch;
+
+      if (input.serviceType === 'dockerfile') {
+        safeLog?.(`Building repository Dockerfile image from ${sanitizedGitUrl} (${sourceRef})...`);
+        await this.buildRepositoryDockerfile(input, { ctxDir, sourceArgs: args, imageTag }, safeLog);
+        if (sourceCommitSha) {
+          safeLog?.(`Resolved source commit: ${sourceCommitSha}`);
+        }
+        safeLog?.('Docker image built successfully');
+
+        return { imageTag, sourceCommitSha };
+      }
+
+      args.push(`--build-arg APP_PORT=${input.port}`);
+      if (input.installCommand)
+        args.push(`--build-arg INSTALL_CMD=${shellEscape(input.installCommand)}`);
       if (input.buildCommand) args.push(`--build-arg BUILD_CMD=${shellEscape(input.buildCommand)}`);
       if (!isStatic && input.startCommand) {
         if (isDevCommand(input.startCommand)) {
@@ -749,18 +1064,10 @@ export class DockerAdapter {
       if (isStatic && input.outputDirectory)
         args.push(`--build-arg OUTPUT_DIR=${shellEscape(input.outputDirectory)}`);
 
-      const sourceRef = input.commitSha
-        ? `${input.branch}@${input.commitSha.slice(0, 12)}`
-        : input.branch;
       safeLog?.(
-        `Building ${isStatic ? 'static site' : 'web service'} image from ${sanitizedGitUrl} (${sourceRef})...`,
-      );
-      // Use BuildKit for cache mounts — dramatically speeds up rebuilds
-      // DOCKER_BUILDKIT=1 enables BuildKit; --progress=plain streams full logs
-      await runCommandStreaming(
-        `DOCKER_BUILDKIT=1 docker build --progress=plain ${args.join(' ')} -t ${shellEscape(imageTag)} ${shellEscape(ctxDir)}`,
-        safeLog,
+        `Building ${isStatic ? 'static site' : input.serviceType === 'worker' ? 'worker' : 'web service'} image from ${sanitizedGitUrl} (${sourceRef})...`,
       );
+      await this.runImageBuild(input, { args, imageTag, contextDir: ctxDir }, safeLog);
       if (sourceCommitSha) {
         safeLog?.(`Resolved source commit: ${sourceCommitSha}`);
       }
@@ -775,78 +1082,204 @@ export class DockerAdapter {
     }
   }
 
-  async runContainer(
-    input: RunContainerInput,
-  ): Promise<{ dockerContainerId: string; hostPort: number }> {
-    const hostPort = this.allocateHostPort();
-    const memoryLimit = `${input.memoryMb}m`;
-    const cpuQuota = Math.floor((input.cpuMillicores / 1000) * 100000);
+  /**
+   * Pull a prebuilt image and tag it like a built one so runContainer and image
+   * GC treat both the same. Registry credentials live in a throwaway
+   * DOCKER_CONFIG directory that is removed as soon as the pull finishes.
+   */
+  async pullImage(input: PullImageInput, onLog?: LogCallback): Promise<PullImageResult> {
+    const imageTag = `apployd/${input.deploymentId}:latest`;
+    const safeLog: LogCallback = (line) => onLog?.(sanitizeLog(line));
+    let configDir: string | null = null;
 
     try {
-      await runCommand('docker network inspect apployd-net', {
-        timeoutMs: DOCKER_NETWORK_TIMEOUT_MS,
+      if (input.registryAuth) {
+        configDir = await mkdtemp(join(tmpdir(), 'apployd-registry-'));
+        await writeFile(join(configDir, 'config.json'), buildDockerAuthConfig(input.registryAuth), {
+          mode: 0o600,
+        });
+        safeLog(`Authenticating to ${input.registryAuth.registry} as ${input.registryAuth.username}`);
+      }
+
+      const docker = configDir ? `docker --config ${shellEscape(configDir)}` : 'docker';
+      safeLog(`Pulling image ${input.imageReference}...`);
+      await runCommandStreaming(`${docker} pull ${shellEscape(input.imageReference)}`, safeLog, {
+        timeoutMs: DOCKER_PULL_TIMEOUT_MS,
       });
+    } finally {
+      if (configDir) {
+        await rm(configDir, { recursive: true, force: true }).catch(() => undefined);
+      }
+    }
+
+    const rawDigests = await runCommand(
+      `docker image inspect --format ${shellEscape('{{json .RepoDigests}}')} ${shellEscape(input.imageReference)}`,
+      { timeoutMs: DOCKER_INSPECT_TIMEOUT_MS },
+    );
+    let repoDigests: string[] = [];
+    try {
+      const parsed = JSON.parse(rawDigests) as unknown;
+      repoDigests = Array.isArray(parsed) ? parsed.filter((entry) => typeof entry === 'string') : [];
     } catch {
-      await runCommand('docker network create apployd-net', {
-        timeoutMs: DOCKER_NETWORK_TIMEOUT_MS,
+      repoDigests = [];
+    }
+
+    const imageDigest = selectPinnedImageReference(input.imageReference, repoDigests);
+    if (!imageDigest) {
+      throw new Error(`Registry did not report a digest for ${input.imageReference}`);
+    }
+
+    await runCommand(`docker tag ${shellEscape(input.imageReference)} ${shellEscape(imageTag)}`, {
+      timeoutMs: DOCKER_INSPECT_TIMEOUT_MS,
+    });
+    safeLog(`Pinned image to ${imageDigest}`);
+
+    return { imageTag, imageDigest };
+  }
+
+  /**
+   * Two-step build for `dockerfile` projects: export the authenticated checkout
+   * to a temporary host directory, then build the repository's own Dockerfile
+   * with that directory as the context.
+   */
+  private async buildRepositoryDockerfile(
+    input: BuildImageInput,
+    build: { ctxDir: string; sourceArgs: string[]; imageTag: string },
+    safeLog?: LogCallback,
+  ): Promise<void> {
+    const dockerfilePath = normalizeRepositoryPath(input.dockerfilePath ?? 'Dockerfile');
+    if (!dockerfilePath) {
+      throw new Error('Invalid dockerfilePath: must be a relative path without ".."');
+    }
+    if (input.dockerTarget && !DOCKER_TARGET_PATTERN.test(input.dockerTarget)) {
+      throw new Error('Invalid dockerTarget: must be a Dockerfile stage name');
+    }
+
+    const sourceDir = await mkdtemp(join(tmpdir(), 'apployd-src-'));
+    try {
+      await runCommandStreaming(
+        `DOCKER_BUILDKIT=1 docker build --progress=plain ${build.sourceArgs.join(' ')} --output ${shellEscape(`type=local,dest=${sourceDir}`)} ${shellEscape(build.ctxDir)}`,
+        safeLog,
+      );
+
+      const resolvedDockerfile = join(sourceDir, dockerfilePath);
+      try {
+        await access(resolvedDockerfile);
+      } catch {
+        throw new Error(
+          `Dockerfile not found at ${dockerfilePath}${input.rootDirectory ? ` (relative to ${input.rootDirectory})` : ''}`,
+        );
+      }
+
+      safeLog?.(
+        `>>> Using repository Dockerfile: ${dockerfilePath}${input.dockerTarget ? ` (target: ${input.dockerTarget})` : ''}`,
+      );
+      const dockerfileArgs = [`-f ${shellEscape(resolvedDockerfile)}`];
+      if (input.dockerTarget) dockerfileArgs.push(`--target ${shellEscape(input.dockerTarget)}`);
+      await this.runImageBuild(
+        input,
+        { args: dockerfileArgs, imageTag: build.imageTag, contextDir: sourceDir },
+        safeLog,
+      );
+    } finally {
+      await rm(sourceDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Run the final image build. With a project build cache configured the build
+   * goes through buildx so layers can be imported from and exported to the
+   * per-project cache; otherwise it falls back to plain `docker build`.
+   */
+  private async runImageBuild(
+    input: Pick<BuildImageInput, 'projectId' | 'buildCacheGeneration'>,
+    build: { args: string[]; imageTag: string; contextDir: string },
+    safeLog?: LogCallback,
+  ): Promise<void> {
+    const cache = await planBuildCache(
+      { projectId: input.projectId, generation: input.buildCacheGeneration ?? 0 },
+      shellEscape,
+    );
+
+    if (!cache) {
+      if (env.ENGINE_BUILD_CACHE_MODE === 'registry') {
+        safeLog?.(
+          'Build cache: ENGINE_BUILD_CACHE_REGISTRY is not set — building without a shared cache',
+        );
+      }
+      // Use BuildKit for cache mounts — dramatically speeds up rebuilds
+      // DOCKER_BUILDKIT=1 enables BuildKit; --progress=plain streams full logs
+      await runCommandStreaming(
+        `DOCKER_BUILDKIT=1 docker build --progress=plain ${build.args.join(' ')} -t ${shellEscape(build.imageTag)} ${shellEscape(build.contextDir)}`,
+        safeLog,
+      );
+      return;
+    }
+
+    await this.ensureBuildxBuilder();
+    safeLog?.(`Build cache: using ${cache.label}`);
+
+    const tracker = new BuildCacheStatsTracker();
+    try {
+      await runCommandStreaming(
+        `DOCKER_BUILDKIT=1 docker buildx build --builder ${shellEscape(env.ENGINE_BUILDX_BUILDER)} --load --progress=plain ${[...build.args, ...cache.args].join(' ')} -t ${shellEscape(build.imageTag)} ${shellEscape(build.contextDir)}`,
+        (line) => {
+          tracker.observe(line);
+          safeLog?.(line);
+        },
+      );
+    } catch (error) {
+      await cache.discard().catch(() => undefined);
+      throw error;
+    }
+
+    const stats = tracker.stats();
+    buildCacheStepsCounter.inc({ result: 'hit' }, stats.cached);
+    buildCacheStepsCounter.inc({ result: 'miss' }, stats.executed);
+    safeLog?.(formatBuildCacheStats(stats));
+
+    await cache.commit().catch((error) => {
+      safeLog?.(`Build cache: failed to store cache (${(error as Error).message})`);
+    });
+  }
+
+  /** Cache export needs a docker-container builder; the default docker driver rejects --cache-to. */
+  private async ensureBuildxBuilder(): Promise<void> {
+    const builder = shellEscape(env.ENGINE_BUILDX_BUILDER);
+    try {
+      await runCommand(`docker buildx inspect ${builder}`, { timeoutMs: DOCKER_BUILDX_TIMEOUT_MS });
+    } catch {
+      await runCommand(`docker buildx create --name ${builder} --driver docker-container`, {
+        timeoutMs: DOCKER_BUILDX_TIMEOUT_MS,
       });
     }
+  }
 
-    const envArgs = Object.entries(input.env)
-      .map(([k, v]) => `-e ${shellEscape(`${k}=${v}`)}`)
-      .join(' ');
-
-    const filesystemFlags = env.ENGINE_CONTAINER_READ_ONLY
-      ? [
-          '--read-only',
-          '--tmpfs /tmp:rw,noexec,nosuid,size=512m',
-          '--tmpfs /run:rw,noexec,nosuid,size=64m',
-          '--tmpfs /var/run:rw,noexec,nosuid,size=64m',
-          '--tmpfs /app/.npm:rw,noexec,nosuid,size=256m',
-          '--tmpfs /app/.cache:rw,noexec,nosuid,size=256m',
-          '--tmpfs /app/node_modules/.cache:rw,noexec,nosuid,size=256m',
-          '--tmpfs /var/cache/nginx:rw,noexec,nosuid,size=128m',
-          '--tmpfs /var/log/nginx:rw,noexec,nosuid,size=64m',
-          '--tmpfs /var/lib/nginx:rw,noexec,nosuid,size=64m',
-        ]
-      : [];
+  async runContainer(
+    input: RunContainerInput,
+  ): Promise<{ dockerContainerId: string; hostPort: number }> {
+    const publishPort = input.publishPort !== false;
+    const hostPort = publishPort ? (input.hostPort ?? this.allocateHostPort()) : 0;
+    await this.ensureNetwork(input.privateNetwork);
 
     const cmd = [
       'docker run -d',
-      `--name apployd-${input.deploymentId}`,
+      `--name ${deploymentContainerName(input.deploymentId, input.replicaIndex ?? 0)}`,
       // Keep containers resilient across process crashes and host restarts.
       '--restart unless-stopped',
 
-      ...filesystemFlags,
-
-      // Security: capability drops and isolation.
-      '--security-opt no-new-privileges:true',
-      '--cap-drop ALL',
-      '--cap-add NET_BIND_SERVICE',
-      '--cap-add CHOWN',
-      '--cap-add SETUID',
-      '--cap-add SETGID',
-
-      // Security: process limits.
-      '--pids-limit 256',
-      '--ulimit nofile=4096:8192',
-      '--ulimit nproc=256:512',
-
-      // Network and resource limits.
-      '--network apployd-net',
-      '--network-alias',
-      `deployment-${input.deploymentId}`,
-      `--memory ${memoryLimit}`,
-      '--memory-swap',
-      memoryLimit,
-      '--oom-kill-disable=false',
-      `--cpu-period 100000 --cpu-quota ${cpuQuota}`,
+      ...containerIsolationArgs(input),
+      ...(input.volumes ?? []).map(
+        (volume) =>
+          `--mount ${shellEscape(`type=volume,source=${volume.dockerVolumeName},target=${volume.mountPath}`)}`,
+      ),
+      ...containerNetworkArgs(input.privateNetwork, [`deployment-${input.deploymentId}`]),
 
       // Port mapping.
-      `-p 127.0.0.1:${hostPort}:${input.port}`,
+      ...(publishPort ? [`-p 127.0.0.1:${hostPort}:${input.port}`] : []),
 
       // Environment variables (sanitized).
-      envArgs,
+      containerEnvArgs(input.env),
 
       input.imageTag,
     ].join(' ');
@@ -861,6 +1294,393 @@ export class DockerAdapter {
     return { dockerContainerId, hostPort };
   }
 
+  /**
+   * Run a command to completion in a throwaway container from a deployment
+   * image, with the same isolation and limits as the service container but no
+   * port or restart policy. The container is removed afterwards.
+   */
+  async runTask(input: RunTaskInput, onLog?: LogCallback): Promise<RunTaskResult> {
+    await this.ensureNetwork(input.privateNetwork);
+    const safeLog: LogCallback = (line) => onLog?.(sanitizeLog(line));
+
+    const cmd = [
+      'docker run -d',
+      `--name ${shellEscape(`apployd-${input.name}`)}`,
+      ...containerIsolationArgs(input),
+      ...containerNetworkArgs(input.privateNetwork),
+      containerEnvArgs(input.env),
+      '--entrypoint /bin/sh',
+      shellEscape(input.imageTag),
+      '-c',
+      shellEscape(input.command),
+    ].join(' ');
+
+    const startedAt = Date.now();
+    const dockerContainerId = await runCommand(cmd, { timeoutMs: DOCKER_RUN_TIMEOUT_MS });
+    try {
+      await this.enforceContainerEgressPolicy(dockerContainerId);
+
+      let timedOut = false;
+      await runCommandStreaming(`docker logs -f ${shellEscape(dockerContainerId)}`, safeLog, {
+        timeoutMs: input.timeoutMs,
+      }).catch((error) => {
+        if (Date.now() - startedAt < input.timeoutMs) {
+          throw error;
+        }
+        timedOut = true;
+      });
+
+      if (timedOut) {
+        await runCommand(`docker kill ${shellEscape(dockerContainerId)}`, {
+          timeoutMs: DOCKER_RUN_TIMEOUT_MS,
+        }).catch(() => undefined);
+        return { exitCode: null, durationMs: Date.now() - startedAt, timedOut: true };
+      }
+
+      const rawExitCode = await runCommand(`docker wait ${shellEscape(dockerContainerId)}`, {
+        timeoutMs: DOCKER_RUN_TIMEOUT_MS,
+      });
+      const exitCode = Number.parseInt(rawExitCode, 10);
+      return {
+        exitCode: Number.isFinite(exitCode) ? exitCode : null,
+        durationMs: Date.now() - startedAt,
+        timedOut: false,
+      };
+    } finally {
+      await this.removeContainer(dockerContainerId).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Create a project volume unless it already exists. With the `loop` driver
+   * the volume is a fixed-size ext4 image on the host, so its size is a hard
+   * limit; the `local` driver is unbounded and only measured.
+   * Returns true when the volume was created.
+   */
+  async ensureVolume(input: { dockerVolumeName: string; sizeGb: number }): Promise<boolean> {
+    const name = shellEscape(input.dockerVolumeName);
+    try {
+      await runCommand(`docker volume inspect ${name}`, { timeoutMs: DOCKER_INSPECT_TIMEOUT_MS });
+      return false;
+    } catch {
+      // Missing; create it below.
+    }
+
+    if (env.ENGINE_VOLUME_DRIVER === 'loop') {
+      const image = shellEscape(volumeImagePath(input.dockerVolumeName));
+      await runHostCommand(
+        `mkdir -p ${shellEscape(env.ENGINE_VOLUME_DIR)} && (test -e ${image} || (fallocate -l ${input.sizeGb}G ${image} && mkfs.ext4 -q -F ${image}))`,
+        { timeoutMs: DOCKER_VOLUME_TIMEOUT_MS },
+      );
+      await runCommand(
+        `docker volume create --driver local --opt type=ext4 --opt device=${image} --opt o=loop --label apployd.volume=true ${name}`,
+        { timeoutMs: DOCKER_VOLUME_TIMEOUT_MS },
+      );
+    } else {
+      await runCommand(`docker volume create --label apployd.volume=true ${name}`, {
+        timeoutMs: DOCKER_VOLUME_TIMEOUT_MS,
+      });
+    }
+
+    // Leave the volume empty and writable for non-root images; Docker copies the
+    // image's files at the mount path into an empty volume on first use.
+    await this.runVolumeHelper(
+      input.dockerVolumeName,
+      'rmdir /data/lost+found 2>/dev/null; chmod 0777 /data',
+      { readOnly: false, timeoutMs: DOCKER_VOLUME_TIMEOUT_MS },
+    );
+    return true;
+  }
+
+  /**
+   * Starts a database container on its organization's internal network only,
+   * where it answers to `alias`; nothing is published on the host. The root
+   * filesystem stays writable and the entrypoint may drop to the image's own
+   * database user, so the capability set is wider than an app container's.
+   * A container left over from an earlier attempt is replaced.
+   */
+  async runDatabaseContainer(input: {
+    containerName: string;
+    organizationId: string;
+    alias: string;
+    image: string;
+    dockerVolumeName: string;
+    dataPath: string;
+    env: Record<string, string>;
+    command: string[];
+    memoryMb: number;
+    cpuMillicores: number;
+  }): Promise<string> {
+    await this.ensureOrganizationNetwork(input.organizationId);
+    await runCommand(`docker pull ${shellEscape(input.image)}`, {
+      timeoutMs: DOCKER_PULL_TIMEOUT_MS,
+    });
+    await runCommand(`docker rm -f ${shellEscape(input.containerName)}`, {
+      timeoutMs: DOCKER_RUN_TIMEOUT_MS,
+    }).catch(() => undefined);
+
+    const memoryLimit = `${input.memoryMb}m`;
+    const cmd = [
+      'docker run -d',
+      `--name ${shellEscape(input.containerName)}`,
+      '--restart unless-stopped',
+      '--label apployd.database=true',
+
+      '--security-opt no-new-privileges:true',
+      '--cap-drop ALL',
+      ...['CHOWN', 'SETUID', 'SETGID', 'DAC_OVERRIDE', 'FOWNER'].map((cap) => `--cap-add ${cap}`),
+      '--pids-limit 512',
+      `--memory ${memoryLimit} --memory-swap ${memoryLimit}`,
+      `--cpu-period 100000 --cpu-quota ${Math.floor((input.cpuMillicores / 1000) * 100000)}`,
+
+      `--mount ${shellEscape(`type=volume,source=${input.dockerVolumeName},target=${input.dataPath}`)}`,
+      `--network ${shellEscape(`name=${organizationNetworkName(input.organizationId)},alias=${input.alias}`)}`,
+      containerEnvArgs(input.env),
+
+      shellEscape(input.image),
+      ...input.command.map(shellEscape),
+    ].join(' ');
+
+    const dockerContainerId = await runCommand(cmd, { timeoutMs: DOCKER_RUN_TIMEOUT_MS });
+    try {
+      await this.enforceContainerEgressPolicy(dockerContainerId);
+    } catch (error) {
+      await runCommand(`docker stop ${shellEscape(dockerContainerId)}`).catch(() => undefined);
+      throw error;
+    }
+    return dockerContainerId;
+  }
+
+  /** Applies new memory and CPU limits to a running container without restarting it. */
+  async updateContainerResources(
+    containerNameOrId: string,
+    input: { memoryMb: number; cpuMillicores: number },
+  ): Promise<void> {
+    const memoryLimit = `${input.memoryMb}m`;
+    await runCommand(
+      [
+        'docker update',
+        `--memory ${memoryLimit} --memory-swap ${memoryLimit}`,
+        `--cpu-period 100000 --cpu-quota ${Math.floor((input.cpuMillicores / 1000) * 100000)}`,
+        shellEscape(containerNameOrId),
+      ].join(' '),
+      { timeoutMs: DOCKER_RUN_TIMEOUT_MS },
+    );
+  }
+
+  /**
+   * Restarts a database container in place with a grace period long enough
+   * for the server to checkpoint, then rewrites the egress policy for the
+   * address it comes back with.
+   */
+  async restartDatabaseContainer(containerNameOrId: string): Promise<void> {
+    await runCommand(`docker restart -t 30 ${shellEscape(containerNameOrId)}`, {
+      timeoutMs: DOCKER_RUN_TIMEOUT_MS + 30_000,
+    });
+    await this.enforceContainerEgressPolicy(containerNameOrId);
+  }
+
+  /**
+   * Grows a fixed-size (loop driver) volume and its filesystem. The image is
+   * only unmounted while no container uses it, so `containerName` is stopped
+   * for the resize and started again afterwards whether or not it worked.
+   * Plain Docker volumes have no size limit and are left alone, as are images
+   * already at the size.
+   */
+  async growVolume(containerName: string, dockerVolumeName: string, sizeGb: number): Promise<void> {
+    if (env.ENGINE_VOLUME_DRIVER !== 'loop') {
+      return;
+    }
+
+    const image = shellEscape(volumeImagePath(dockerVolumeName));
+    const currentBytes = Number(
+      await runHostCommand(`stat -c %s ${image}`, { timeoutMs: DOCKER_INSPECT_TIMEOUT_MS }),
+    );
+    if (currentBytes >= sizeGb * 1024 ** 3) {
+      return;
+    }
+
+    await runCommand(`docker stop -t 30 ${shellEscape(containerName)}`, {
+      timeoutMs: DOCKER_RUN_TIMEOUT_MS + 30_000,
+    });
+    try {
+      // e2fsck exits 1 when it corrected something, which still leaves a clean filesystem.
+      await runHostCommand(
+        `truncate -s ${sizeGb}G ${image} && (e2fsck -f -p ${image} || test $? -le 1) && resize2fs ${image}`,
+        { timeoutMs: DOCKER_VOLUME_TIMEOUT_MS },
+      );
+    } finally {
+      await this.startContainer(containerName);
+    }
+  }
+
+  /** Docker refuses while any container (running or stopped) still references the volume. */
+  async removeVolume(dockerVolumeName: string): Promise<void> {
+    await runCommand(`docker volume rm ${shellEscape(dockerVolumeName)}`, {
+      timeoutMs: DOCKER_VOLUME_TIMEOUT_MS,
+    });
+    if (env.ENGINE_VOLUME_DRIVER === 'loop') {
+      await runHostCommand(`rm -f ${shellEscape(volumeImagePath(dockerVolumeName))}`, {
+        timeoutMs: DOCKER_VOLUME_TIMEOUT_MS,
+      });
+    }
+  }
+
+  /** Names of the project volumes that exist on this Docker host. */
+  async listProjectVolumeNames(): Promise<string[]> {
+    const raw = await runCommand(
+      `docker volume ls --filter label=apployd.volume=true --format ${shellEscape('{{.Name}}')}`,
+      { timeoutMs: DOCKER_GC_TIMEOUT_MS },
+    );
+    return raw
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+  }
+
+  async removeStoppedContainersUsingVolume(dockerVolumeName: string): Promise<void> {
+    const ids = await runCommand(
+      `docker ps -aq --filter ${shellEscape(`volume=${dockerVolumeName}`)} --filter status=exited --filter status=created --filter status=dead`,
+      { timeoutMs: DOCKER_GC_TIMEOUT_MS },
+    );
+    const containerIds = ids
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+    for (const containerId of containerIds) {
+      await this.removeContainer(containerId);
+    }
+  }
+
+  async measureVolumeBytes(dockerVolumeName: string): Promise<number> {
+    const raw = await this.runVolumeHelper(dockerVolumeName, 'du -sk /data | cut -f1', {
+      readOnly: true,
+      timeoutMs: DOCKER_VOLUME_TIMEOUT_MS,
+    });
+    const kib = Number.parseInt(raw.trim().split('\n').pop() ?? '', 10);
+    return Number.isFinite(kib) && kib > 0 ? kib * 1024 : 0;
+  }
+
+  /** Archive a volume into the snapshot directory; returns the archive size in bytes. */
+  async snapshotVolume(dockerVolumeName: string, archiveName: string): Promise<number> {
+    const archive = shellEscape(`/snapshots/${archiveName}`);
+    const raw = await this.runVolumeHelper(
+      dockerVolumeName,
+      `tar -czf ${archive} -C /data . && wc -c < ${archive}`,
+      { readOnly: true, timeoutMs: DOCKER_VOLUME_ARCHIVE_TIMEOUT_MS },
+    );
+    const size = Number.parseInt(raw.trim().split('\n').pop() ?? '', 10);
+    return Number.isFinite(size) && size > 0 ? size : 0;
+  }
+
+  /** Replace a volume's contents with an archive. Containers using it should be stopped first. */
+  async restoreVolume(dockerVolumeName: string, archiveName: string): Promise<void> {
+    const archive = shellEscape(`/snapshots/${archiveName}`);
+    await this.runVolumeHelper(
+      dockerVolumeName,
+      `test -f ${archive} && find /data -mindepth 1 -delete && tar -xzf ${archive} -C /data`,
+      { readOnly: false, timeoutMs: DOCKER_VOLUME_ARCHIVE_TIMEOUT_MS },
+    );
+  }
+
+  async removeVolumeSnapshot(archiveName: string): Promise<void> {
+    await runCommand(
+      [
+        'docker run --rm --network none',
+        `-v ${shellEscape(`${env.ENGINE_VOLUME_SNAPSHOT_DIR}:/snapshots`)}`,
+        shellEscape(env.ENGINE_VOLUME_HELPER_IMAGE),
+        'rm -f',
+        shellEscape(`/snapshots/${archiveName}`),
+      ].join(' '),
+      { timeoutMs: DOCKER_VOLUME_TIMEOUT_MS },
+    );
+  }
+
+  /** Runs a shell script in a throwaway helper container with the volume at `/data`. */
+  private async runVolumeHelper(
+    dockerVolumeName: string,
+    script: string,
+    options: { readOnly: boolean; timeoutMs: number },
+  ): Promise<string> {
+    return runCommand(
+      [
+        'docker run --rm --network none',
+        `-v ${shellEscape(`${dockerVolumeName}:/data${options.readOnly ? ':ro' : ''}`)}`,
+        `-v ${shellEscape(`${env.ENGINE_VOLUME_SNAPSHOT_DIR}:/snapshots`)}`,
+        shellEscape(env.ENGINE_VOLUME_HELPER_IMAGE),
+        'sh -c',
+        shellEscape(script),
+      ].join(' '),
+      { timeoutMs: options.timeoutMs },
+    );
+  }
+
+  private async ensureNetwork(privateNetwork?: PrivateNetworkAttachment): Promise<void> {
+    try {
+      await runCommand(`docker network inspect ${SHARED_NETWORK}`, {
+        timeoutMs: DOCKER_NETWORK_TIMEOUT_MS,
+      });
+    } catch {
+      await runCommand(`docker network create ${SHARED_NETWORK}`, {
+        timeoutMs: DOCKER_NETWORK_TIMEOUT_MS,
+      });
+    }
+
+    if (privateNetwork) {
+      await this.ensureOrganizationNetwork(privateNetwork.organizationId);
+    }
+  }
+
+  /**
+   * Organization networks are internal: they carry east-west traffic only, so
+   * the default route and internet egress stay on the shared network. They are
+   * local bridges, so only containers on this host share one; the control
+   * plane's scheduler keeps an organization on one server where it can.
+   */
+  private async ensureOrganizationNetwork(organizationId: string): Promise<void> {
+    const name = shellEscape(organizationNetworkName(organizationId));
+    try {
+      await runCommand(`docker network inspect ${name}`, { timeoutMs: DOCKER_NETWORK_TIMEOUT_MS });
+    } catch {
+      try {
+        await runCommand(
+          `docker network create --internal --label ${shellEscape(`apployd.organization=${organizationId}`)} ${name}`,
+          { timeoutMs: DOCKER_NETWORK_TIMEOUT_MS },
+        );
+      } catch (error) {
+        // A concurrent deployment of the same organization may have created it.
+        await runCommand(`docker network inspect ${name}`, {
+          timeoutMs: DOCKER_NETWORK_TIMEOUT_MS,
+        }).catch(() => {
+          throw error;
+        });
+      }
+    }
+  }
+
+  /**
+   * Reconnects a running container to its organization network with or
+   * without `alias`, since Docker cannot change aliases in place. The egress
+   * policy is rewritten because the container gets a new address there.
+   */
+  async setOrganizationNetworkAlias(
+    containerNameOrId: string,
+    organizationId: string,
+    alias: string | null,
+  ): Promise<void> {
+    const network = shellEscape(organizationNetworkName(organizationId));
+    const container = shellEscape(containerNameOrId);
+    await this.ensureOrganizationNetwork(organizationId);
+    await runCommand(`docker network disconnect --force ${network} ${container}`, {
+      timeoutMs: DOCKER_NETWORK_TIMEOUT_MS,
+    }).catch(() => undefined);
+    await runCommand(
+      `docker network connect${alias ? ` --alias ${shellEscape(alias)}` : ''} ${network} ${container}`,
+      { timeoutMs: DOCKER_NETWORK_TIMEOUT_MS },
+    );
+    await this.enforceContainerEgressPolicy(containerNameOrId);
+  }
+
   async setRestartPolicy(
     containerNameOrId: string,
     policy: 'no' | 'unless-stopped' | 'always' | 'on-failure',
@@ -870,11 +1690,110 @@ export class DockerAdapter {
     );
   }
 
-  async stopContainer(containerNameOrId: string): Promise<void> {
-    await runCommand(`docker stop ${shellEscape(containerNameOrId)}`).catch(() => undefined);
+  /**
+   * Sends the image's stop signal (SIGTERM by default) and SIGKILL once
+   * `graceSeconds` pass; Docker's own default is 10 seconds.
+   */
+  async stopContainer(containerNameOrId: string, graceSeconds?: number): Promise<void> {
+    const timeoutArg =
+      graceSeconds === undefined ? '' : ` -t ${Math.max(0, Math.floor(graceSeconds))}`;
+    await runCommand(`docker stop${timeoutArg} ${shellEscape(containerNameOrId)}`).catch(
+      () => undefined,
+    );
     await this.egressGuard.removePolicy(containerNameOrId).catch(() => undefined);
   }
 
+  /**
+   * Inbound connections the container still holds, read from the host's view
+   * of its network namespace so images without a shell work too. Null when the
+   * container is gone or its tables cannot be read.
+   */
+  async countOpenConnections(containerNameOrId: string): Promise<number | null> {
+    try {
+      const pid = Number(
+        (
+          await runCommand(
+            `docker inspect --format '{{.State.Pid}}' ${shellEscape(containerNameOrId)}`,
+            { timeoutMs: DOCKER_INSPECT_TIMEOUT_MS },
+          )
+        ).trim(),
+      );
+      if (!Number.isInteger(pid) || pid <= 0) {
+        return null;
+      }
+      const raw = await runHostCommand(
+        `cat /proc/${pid}/net/tcp /proc/${pid}/net/tcp6 2>/dev/null || true`,
+        { timeoutMs: DOCKER_EXEC_PROBE_TIMEOUT_MS },
+      );
+      return countInboundConnections(raw);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Retires containers nginx no longer routes to: waits until their inbound
+   * connections (in-flight requests, websockets, upstream keepalives held by
+   * old nginx workers) reach zero or the drain timeout passes, then stops them
+   * with the stop grace period. Containers whose connections cannot be read
+   * count as drained.
+   */
+  async drainAndStopContainers(
+    containerNameOrIds: string[],
+    options: {
+      drainTimeoutSeconds: number;
+      stopGraceSeconds: number;
+      onProgress?: (progress: DrainProgress) => void;
+    },
+  ): Promise<DrainProgress> {
+    const startedAt = Date.now();
+    const deadline = startedAt + options.drainTimeoutSeconds * 1000;
+    const countAll = async () => {
+      const counts = await Promise.all(
+        containerNameOrIds.map((container) => this.countOpenConnections(container)),
+      );
+      return counts.reduce<number>((total, count) => total + (count ?? 0), 0);
+    };
+    const progressAt = (phase: DrainProgress['phase'], openConnections: number): DrainProgress => ({
+      phase,
+      openConnections,
+      elapsedSeconds: Math.round((Date.now() - startedAt) / 1000),
+    });
+
+    let openConnections = options.drainTimeoutSeconds > 0 ? await countAll() : 0;
+    if (openConnections > 0) {
+      options.onProgress?.(progressAt('draining', openConnections));
+    }
+    let lastReportedAt = Date.now();
+    let lastReported = openConnections;
+
+    while (openConnections > 0 && Date.now() < deadline) {
+      await new Promise((r) =>
+        setTimeout(r, Math.min(DRAIN_POLL_INTERVAL_MS, Math.max(0, deadline - Date.now()))),
+      );
+      openConnections = await countAll();
+      if (
+        openConnections > 0 &&
+        openConnections !== lastReported &&
+        Date.now() - lastReportedAt >= DRAIN_PROGRESS_INTERVAL_MS
+      ) {
+        options.onProgress?.(progressAt('draining', openConnections));
+        lastReportedAt = Date.now();
+        lastReported = openConnections;
+      }
+    }
+
+    const result = progressAt(openConnections > 0 ? 'timed_out' : 'drained', openConnections);
+    options.onProgress?.(result);
+
+    await Promise.all(
+      containerNameOrIds.map((container) =>
+        this.stopContainer(container, options.stopGraceSeconds),
+      ),
+    );
+    return result;
+  }
+
   async startContainer(containerNameOrId: string): Promise<void> {
     await runCommand(`docker start ${shellEscape(containerNameOrId)}`).catch(() => undefined);
     try {
@@ -885,8 +1804,15 @@ export class DockerAdapter {
     }
   }
 
+  async restartContainer(containerNameOrId: string): Promise<void> {
+    await this.stopContainer(containerNameOrId);
+    await this.startContainer(containerNameOrId);
+  }
+
   /**
    * Polls the container's mapped port until it responds (HTTP or raw TCP).
+   * With an HTTP probe configured, only a response from the probe path with an
+   * accepted status (and body match) counts, after the probe's initial delay.
    * Detects early container exits and streams progress.
    */
   async healthCheck(
@@ -894,11 +1820,18 @@ export class DockerAdapter {
     containerPort: number,
     containerId?: string,
     onLog?: LogCallback,
+    probe?: HttpProbeConfig | null,
   ): Promise<boolean> {
     const delayMs = env.ENGINE_HEALTHCHECK_DELAY_MS;
     const timeoutMs = env.ENGINE_HEALTHCHECK_TIMEOUT_SECONDS * 1000;
     const maxAttempts = Math.max(1, Math.ceil(timeoutMs / delayMs));
     let lastRestartCount = 0;
+    let lastProbeFailure: string | null = null;
+
+    if (probe?.initialDelaySeconds) {
+      onLog?.(`Health check: waiting ${probe.initialDelaySeconds}s before probing ${probe.path}`);
+      await new Promise((r) => setTimeout(r, probe.initialDelaySeconds * 1000));
+    }
 
     for (let i = 0; i < maxAttempts; i++) {
       // ── Early exit: inspect container runtime state ──
@@ -925,6 +1858,24 @@ export class DockerAdapter {
         lastRestartCount = state.restartCount;
       }
 
+      if (probe) {
+        const response = await this.probeHttp({ hostPort, containerPort, containerId }, probe.path);
+        lastProbeFailure = response
+          ? evaluateHttpProbeResponse(probe, response)
+          : `no response from ${probe.path}`;
+        if (!lastProbeFailure) {
+          onLog?.(
+            `Health check passed (HTTP ${response!.status} from ${probe.path} on attempt ${i + 1})`,
+          );
+          return true;
+        }
+        if (i % 5 === 0) {
+          onLog?.(`Health check: ${lastProbeFailure}… (attempt ${i + 1}/${maxAttempts})`);
+        }
+        await new Promise((r) => setTimeout(r, delayMs));
+        continue;
+      }
+
       // Probe from inside the container first. This works even when the deployment-engine
       // itself runs in Docker and cannot reach host loopback-mapped ports directly.
       if (containerId) {
@@ -966,10 +1917,103 @@ export class DockerAdapter {
       await new Promise((r) => setTimeout(r, delayMs));
     }
 
-    onLog?.(`Health check: timed out after ${env.ENGINE_HEALTHCHECK_TIMEOUT_SECONDS} seconds`);
+    onLog?.(
+      `Health check: timed out after ${env.ENGINE_HEALTHCHECK_TIMEOUT_SECONDS} seconds` +
+        (lastProbeFailure ? ` (last probe: ${lastProbeFailure})` : ''),
+    );
     return false;
   }
 
+  /**
+   * Readiness for workers, which have no port to probe: the container must
+   * stay running, without restarts, for `graceSeconds`.
+   */
+  async waitForStableRun(
+    containerId: string,
+    graceSeconds: number,
+    onLog?: LogCallback,
+  ): Promise<boolean> {
+    onLog?.(`Health check: worker must stay running for ${graceSeconds}s`);
+    const deadline = Date.now() + graceSeconds * 1000;
+    let initialRestartCount: number | null = null;
+
+    for (;;) {
+      const state = await this.inspectContainerState(containerId);
+      if (!state) {
+        onLog?.('Health check: unable to inspect container — it may have crashed');
+        return false;
+      }
+      if (state.oomKilled) {
+        onLog?.('Health check: worker was OOM-killed during its grace period');
+        return false;
+      }
+      if (!state.running || state.restarting) {
+        const errorDetail = state.error ? ` (${state.error})` : '';
+        onLog?.(`Health check: worker exited with code ${state.exitCode}${errorDetail}`);
+        return false;
+      }
+      initialRestartCount ??= state.restartCount;
+      if (state.restartCount > initialRestartCount) {
+        onLog?.(
+          `Health check: worker restarted ${state.restartCount} time(s) during its grace period`,
+        );
+        return false;
+      }
+      if (Date.now() >= deadline) {
+        onLog?.(`Health check passed (worker running for ${graceSeconds}s)`);
+        return true;
+      }
+      await new Promise((r) =>
+        setTimeout(
+          r,
+          Math.min(env.ENGINE_HEALTHCHECK_DELAY_MS, Math.max(0, deadline - Date.now())),
+        ),
+      );
+    }
+  }
+
+  /**
+   * One HTTP GET against the probe path. Tries curl inside the container first
+   * (works when the engine itself runs in Docker), then the mapped host port.
+   * Returns null when nothing answered.
+   */
+  async probeHttp(
+    target: { hostPort: number; containerPort: number; containerId?: string | undefined },
+    path: string,
+  ): Promise<HttpProbeResponse | null> {
+    if (target.containerId) {
+      try {
+        const stdout = await runCommand(
+          `docker exec ${shellEscape(target.containerId)} curl -sS --max-time 2 -o - -w ${shellEscape(`\n${PROBE_STATUS_MARKER}%{http_code}`)} ${shellEscape(`http://127.0.0.1:${target.containerPort}${path}`)}`,
+          { timeoutMs: DOCKER_EXEC_PROBE_TIMEOUT_MS },
+        );
+        const response = parseCurlProbeOutput(stdout);
+        if (response) {
+          return response;
+        }
+      } catch {
+        // No curl in the image or no answer — try the host port.
+      }
+    }
+
+    try {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), 2000);
+      try {
+        const res = await fetch(`http://127.0.0.1:${target.hostPort}${path}`, {
+          signal: controller.signal,
+          redirect: 'manual',
+        });
+        const body = await res.text();
+        return { status: res.status, body: body.slice(0, MAX_PROBE_BODY_BYTES) };
+      } finally {
+        clearTimeout(timeout);
+      }
+    } catch {
+      return null;
+    }
+  }
+
   async getContainerStateSummary(containerNameOrId: string): Promise<string | null> {
     const state = await this.inspectContainerState(containerNameOrId);
     if (!state) {
@@ -1145,6 +2189,66 @@ export class DockerAdapter {
     }
   }
 
+  /** Lists local `apployd/<deploymentId>:latest` images as `tag|imageId` lines. */
+  async listDeploymentImages(): Promise<string> {
+    return runCommand(
+      `docker image ls --filter ${shellEscape('reference=apployd/*')} --format ${shellEscape('{{.Repository}}:{{.Tag}}|{{.ID}}')}`,
+      { timeoutMs: DOCKER_GC_TIMEOUT_MS },
+    );
+  }
+
+  /** Lists every `apployd-*` container (any state) with its writable-layer size. */
+  async listDeploymentContainers(): Promise<string> {
+    return runCommand(
+      `docker ps -a --no-trunc --size --filter ${shellEscape('name=^apployd-')} --format ${shellEscape('{{.ID}}|{{.Names}}|{{.State}}|{{.CreatedAt}}|{{.Size}}')}`,
+      { timeoutMs: DOCKER_GC_TIMEOUT_MS },
+    );
+  }
+
+  /**
+   * Environment a running container was started with. Used to start a
+   * replacement replica without re-resolving (and decrypting) project secrets.
+   */
+  async inspectContainerEnv(containerNameOrId: string): Promise<Record<string, string> | null> {
+    try {
+      const raw = await runCommand(
+        `docker inspect --format ${shellEscape('{{json .Config.Env}}')} ${shellEscape(containerNameOrId)}`,
+        { timeoutMs: DOCKER_INSPECT_TIMEOUT_MS },
+      );
+      const entries = JSON.parse(raw) as string[] | null;
+      const result: Record<string, string> = {};
+      for (const entry of entries ?? []) {
+        const separator = entry.indexOf('=');
+        if (separator > 0) {
+          result[entry.slice(0, separator)] = entry.slice(separator + 1);
+        }
+      }
+      return result;
+    } catch {
+      return null;
+    }
+  }
+
+  async getImageSizeBytes(imageRef: string): Promise<number> {
+    const raw = await runCommand(
+      `docker image inspect --format ${shellEscape('{{.Size}}')} ${shellEscape(imageRef)}`,
+      { timeoutMs: DOCKER_INSPECT_TIMEOUT_MS },
+    ).catch(() => '0');
+    const size = Number(raw);
+    return Number.isFinite(size) && size > 0 ? size : 0;
+  }
+
+  async removeImage(imageRef: string): Promise<void> {
+    await runCommand(`docker rmi ${shellEscape(imageRef)}`, { timeoutMs: DOCKER_GC_TIMEOUT_MS });
+  }
+
+  async removeContainer(containerNameOrId: string): Promise<void> {
+    await runCommand(`docker rm -f ${shellEscape(containerNameOrId)}`, {
+      timeoutMs: DOCKER_GC_TIMEOUT_MS,
+    });
+    await this.egressGuard.removePolicy(containerNameOrId).catch(() => undefined);
+  }
+
   private allocateHostPort(): number {
     return randomInt(20000, 45000);
   }
@@ -1,4 +1,4 @@
-import { readFileSync, writeFileSync } from 'fs';
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'fs';
 import { join } from 'path';
 
 import { assertValidHostname } from '../core/domain-validation.js';
@@ -49,6 +49,55 @@ interface ConfigureWeightedTlsProxyInput extends ConfigureWeightedProxyInput {
   certificateDomain?: string;
 }
 
+export interface UpstreamServer {
+  host: string;
+  port: number;
+  /** nginx `weight=`; omitted for an even round-robin */
+  weight?: number;
+}
+
+/**
+ * Input for a pooled proxy: every server shares one upstream block. Used for
+ * multi-replica deployments and, with weights, for canaries across replicas.
+ */
+interface ConfigureUpstreamPoolProxyInput {
+  domain: string;
+  servers: UpstreamServer[];
+  upstreamScheme?: 'http' | 'https';
+  noIndex?: boolean;
+  attackModeEnabled?: boolean;
+  aliases?: string[];
+  wakePath?: string;
+}
+
+interface ConfigureUpstreamPoolTlsProxyInput extends ConfigureUpstreamPoolProxyInput {
+  certificateDomain?: string;
+}
+
+const greatestCommonDivisor = (a: number, b: number): number =>
+  b === 0 ? a : greatestCommonDivisor(b, a % b);
+
+/**
+ * Splits `canaryPercent` (1–99) of traffic across the canary servers and the
+ * rest across the stable servers. Per-server weights are scaled by the other
+ * pool's size so each pool's total matches its share, then reduced.
+ */
+export function weightedUpstreamServers(
+  stable: Array<{ host: string; port: number }>,
+  canary: Array<{ host: string; port: number }>,
+  canaryPercent: number,
+): UpstreamServer[] {
+  const canaryShare = Math.max(1, Math.min(99, Math.round(canaryPercent)));
+  const stableWeight = (100 - canaryShare) * canary.length;
+  const canaryWeight = canaryShare * stable.length;
+  const divisor = greatestCommonDivisor(stableWeight, canaryWeight) || 1;
+
+  return [
+    ...stable.map((server) => ({ ...server, weight: stableWeight / divisor })),
+    ...canary.map((server) => ({ ...server, weight: canaryWeight / divisor })),
+  ];
+}
+
 interface ProxyProbeResult {
   httpStatus: string;
   httpsStatus: string;
@@ -123,26 +172,23 @@ export class NginxAdapter {
 
   // ── Weighted (canary) proxy — HTTP only ──────────────────────────────────────
   async configureWeightedProjectProxy(input: ConfigureWeightedProxyInput): Promise<void> {
+    await this.configureUpstreamPoolProxy(this.poolInputFromWeighted(input));
+  }
+
+  // ── Upstream pool (replicas, weighted canary) — HTTP only ────────────────────
+  async configureUpstreamPoolProxy(input: ConfigureUpstreamPoolProxyInput): Promise<void> {
     const domain = assertValidHostname(input.domain, 'domain');
     const aliases = (input.aliases ?? []).map((alias, index) =>
       assertValidHostname(alias, `alias #${index + 1}`),
     );
     const upstreamScheme = this.normalizeUpstreamScheme(input.upstreamScheme);
-    const canaryWeight = Math.max(1, Math.min(99, Math.round(input.canaryWeight)));
-    const stableWeight = 100 - canaryWeight;
 
     const upstreamName = this.buildUpstreamName(domain);
     const wakeConfig = this.buildWakeConfig(input.wakePath);
     const attackMode = this.buildAttackModeConfig(domain, input.attackModeEnabled === true);
     const aliasString = aliases.join(' ');
 
-    const upstreamBlock = [
-      `upstream ${upstreamName} {`,
-      `  server ${input.stableUpstreamHost}:${input.stableUpstreamPort} weight=${stableWeight};`,
-      `  server ${input.canaryUpstreamHost}:${input.canaryUpstreamPort} weight=${canaryWeight};`,
-      '  keepalive 64;',
-      '}',
-    ].join('\n');
+    const upstreamBlock = this.buildUpstreamBlock(upstreamName, input.servers);
 
     const seoConfig = this.buildSeoConfig({
       domain,
@@ -201,13 +247,21 @@ export class NginxAdapter {
 
   // ── Weighted (canary) proxy — TLS ────────────────────────────────────────────
   async configureWeightedProjectProxyWithTls(input: ConfigureWeightedTlsProxyInput): Promise<void> {
+    await this.configureUpstreamPoolProxyWithTls({
+      ...this.poolInputFromWeighted(input),
+      ...(input.certificateDomain ? { certificateDomain: input.certificateDomain } : {}),
+    });
+  }
+
+  // ── Upstream pool (replicas, weighted canary) — TLS ──────────────────────────
+  async configureUpstreamPoolProxyWithTls(
+    input: ConfigureUpstreamPoolTlsProxyInput,
+  ): Promise<void> {
     const domain = assertValidHostname(input.domain, 'domain');
     const aliases = (input.aliases ?? []).map((alias, index) =>
       assertValidHostname(alias, `alias #${index + 1}`),
     );
     const upstreamScheme = this.normalizeUpstreamScheme(input.upstreamScheme);
-    const canaryWeight = Math.max(1, Math.min(99, Math.round(input.canaryWeight)));
-    const stableWeight = 100 - canaryWeight;
 
     const certDomain = input.certificateDomain
       ? assertValidHostname(input.certificateDomain, 'certificateDomain')
@@ -229,13 +283,7 @@ export class NginxAdapter {
       ? '  add_header X-Robots-Tag "noindex, nofollow, noarchive, nosnippet" always;'
       : '';
 
-    const upstreamBlock = [
-      `upstream ${upstreamName} {`,
-      `  server ${input.stableUpstreamHost}:${input.stableUpstreamPort} weight=${stableWeight};`,
-      `  server ${input.canaryUpstreamHost}:${input.canaryUpstreamPort} weight=${canaryWeight};`,
-      '  keepalive 64;',
-      '}',
-    ].join('\n');
+    const upstreamBlock = this.buildUpstreamBlock(upstreamName, input.servers);
 
     const rendered = [
       '{{ATTACK_MODE_HTTP_DIRECTIVES}}',
@@ -387,6 +435,20 @@ export class NginxAdapter {
     await runHostCommand('systemctl reload nginx');
   }
 
+  /** Drops a project's vhost, e.g. when a pull request preview is torn down. */
+  async removeProjectProxy(domainInput: string): Promise<boolean> {
+    const domain = assertValidHostname(domainInput, 'domain');
+    const configPath = join(env.NGINX_SITES_PATH, `${domain}.conf`);
+    if (!existsSync(configPath)) {
+      return false;
+    }
+
+    rmSync(configPath, { force: true });
+    await runHostCommand('nginx -t');
+    await runHostCommand('systemctl reload nginx');
+    return true;
+  }
+
   async waitForRouteReady(
     domainInput: string,
     onLog?: (line: string) => void,
@@ -1022,6 +1084,45 @@ export class NginxAdapter {
     return scheme === 'https' ? 'https' : 'http';
   }
 
+  private poolInputFromWeighted(input: ConfigureWeightedProxyInput): ConfigureUpstreamPoolProxyInput {
+    return {
+      domain: input.domain,
+      servers: weightedUpstreamServers(
+        [{ host: input.stableUpstreamHost, port: input.stableUpstreamPort }],
+        [{ host: input.canaryUpstreamHost, port: input.canaryUpstreamPort }],
+        input.canaryWeight,
+      ),
+      ...(input.upstreamScheme ? { upstreamScheme: input.upstreamScheme } : {}),
+      ...(input.noIndex !== undefined ? { noIndex: input.noIndex } : {}),
+      ...(input.attackModeEnabled !== undefined
+        ? { attackModeEnabled: input.attackModeEnabled }
+        : {}),
+      ...(input.aliases ? { aliases: input.aliases } : {}),
+      ...(input.wakePath ? { wakePath: input.wakePath } : {}),
+    };
+  }
+
+  private buildUpstreamBlock(upstreamName: string, servers: UpstreamServer[]): string {
+    if (servers.length === 0) {
+      throw new Error('Upstream pool needs at least one server');
+    }
+
+    const lines = servers.map((server) => {
+      const host = server.host.trim();
+      if (!/^(?:localhost|(?:\d{1,3}\.){3}\d{1,3}|[a-z0-9.-]+)$/i.test(host)) {
+        throw new Error(`Invalid upstream host: ${server.host}`);
+      }
+      if (!Number.isInteger(server.port) || server.port < 1 || server.port > 65535) {
+        throw new Error(`Invalid upstream port: ${server.port}`);
+      }
+      const weight =
+        server.weight !== undefined ? ` weight=${Math.max(1, Math.round(server.weight))}` : '';
+      return `  server ${host}:${server.port}${weight};`;
+    });
+
+    return [`upstream ${upstreamName} {`, ...lines, '  keepalive 64;', '}'].join('\n');
+  }
+
   private buildUpstreamName(domain: string): string {
     const normalized = domain
       .toLowerCase()
@@ -0,0 +1,56 @@
+import type { RegistryAuth } from '@apployd/shared';
+
+const DOCKER_HUB_AUTH_KEY = 'https://index.docker.io/v1/';
+const DIGEST_SUFFIX_PATTERN = /@(sha256:[a-f0-9]{64})$/;
+
+/** Strips the tag and digest, keeping a registry port (`localhost:5000/app`). */
+function repositoryOf(reference: string): string {
+  const name = reference.replace(/@.*$/, '');
+  const tagIndex = name.lastIndexOf(':');
+  return tagIndex > name.lastIndexOf('/') ? name.slice(0, tagIndex) : name;
+}
+
+/**
+ * Repository name in the short form `docker image inspect` reports RepoDigests
+ * with: Docker Hub images drop `docker.io/` and `library/`.
+ */
+export function familiarRepositoryName(reference: string): string {
+  let name = repositoryOf(reference);
+  for (const prefix of ['docker.io/', 'index.docker.io/', 'registry-1.docker.io/']) {
+    if (name.startsWith(prefix)) {
+      name = name.slice(prefix.length);
+      break;
+    }
+  }
+  return name.startsWith('library/') && name.split('/').length === 2
+    ? name.slice('library/'.length)
+    : name;
+}
+
+/**
+ * Picks the `repository@sha256:...` reference a pulled image should be pinned
+ * to. References that already carry a digest are kept as they are.
+ */
+export function selectPinnedImageReference(
+  reference: string,
+  repoDigests: readonly string[],
+): string | null {
+  const explicit = reference.match(DIGEST_SUFFIX_PATTERN)?.[1];
+  if (explicit) {
+    return `${repositoryOf(reference)}@${explicit}`;
+  }
+
+  const repository = familiarRepositoryName(reference);
+  const digest = repoDigests
+    .filter((entry) => familiarRepositoryName(entry) === repository)
+    .map((entry) => entry.match(DIGEST_SUFFIX_PATTERN)?.[1])
+    .find(Boolean);
+  return digest ? `${repositoryOf(reference)}@${digest}` : null;
+}
+
+/** `config.json` for a throwaway DOCKER_CONFIG directory holding one registry login. */
+export function buildDockerAuthConfig(credentials: RegistryAuth): string {
+  const key = credentials.registry === 'docker.io' ? DOCKER_HUB_AUTH_KEY : credentials.registry;
+  const auth = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
+  return JSON.stringify({ auths: { [key]: { auth } } });
+}
@@ -0,0 +1,547 @@
+/**
+ * Blue/green releases
+ *
+ * A blue/green deployment starts next to the live one and only answers on its
+ * verification hostname. A switch points the production vhost and the
+ * project's `.internal` name at it in one step; the deployment it replaced
+ * becomes the idle side and stays running for the project's keep-warm window,
+ * so switching back is another switch. `Project.blueGreenDeploymentId` always
+ * names the idle side, whichever of the two it is.
+ */
+import { ContainerStatus, DeploymentStatus, SleepStatus } from '@prisma/client';
+
+import {
+  DRAIN_EVENT_TYPES,
+  DockerAdapter,
+  describeDrainProgress,
+} from '../adapters/docker-adapter.js';
+import { NginxAdapter } from '../adapters/nginx-adapter.js';
+import {
+  containersToRetire,
+  replicaSelect,
+  upstreamPortsOf,
+} from '../canary/canary-release-service.js';
+import { env } from '../core/env.js';
+import { internalHostname } from '../core/private-network.js';
+import {
+  buildUniqueProjectDomain,
+  resolveProductionRouteAliases,
+} from '../core/production-routes.js';
+import { prisma } from '../core/prisma.js';
+import { redis } from '../core/redis.js';
+import { withRetry } from '../core/retry.js';
+import type { BlueGreenActionPayload } from '../core/types.js';
+import {
+  RETIREMENT_MESSAGES,
+  describeSwitch,
+  idleReservationRelease,
+  planIdleRetirement,
+  planSwitch,
+  switchBlocker,
+  type IdleRetirementReason,
+} from './blue-green-utils.js';
+
+const EXPIRY_CHECK_INTERVAL_MS = 30_000;
+
+const isReachableHttpStatus = (status: string): boolean =>
+  status !== '000' && status !== '502' && status !== '503' && status !== '504';
+
+const containerSelect = {
+  select: { id: true, hostPort: true, status: true, dockerContainerId: true, serverId: true },
+} as const;
+
+export class BlueGreenReleaseService {
+  private readonly docker = new DockerAdapter();
+
+  private readonly nginx = new NginxAdapter();
+
+  async execute(payload: BlueGreenActionPayload): Promise<void> {
+    if (payload.action === 'switch') {
+      await this.switchTo(payload.deploymentId);
+      return;
+    }
+
+    const deployment = await prisma.deployment.findUnique({
+      where: { id: payload.deploymentId },
+      select: { projectId: true },
+    });
+    if (!deployment) {
+      throw new Error('Deployment not found.');
+    }
+    const retired = await this.retireIdle(deployment.projectId, 'discarded', payload.deploymentId);
+    if (!retired) {
+      throw new Error('Deployment is not the idle side of a blue/green release.');
+    }
+  }
+
+  async reportFailure(payload: BlueGreenActionPayload, error: unknown): Promise<void> {
+    const message =
+      error instanceof Error && error.message ? error.message : 'Blue/green action failed';
+    const deployment = await prisma.deployment.findUnique({
+      where: { id: payload.deploymentId },
+      select: { projectId: true },
+    });
+
+    if (deployment) {
+      await this.publishEvent(
+        payload.deploymentId,
+        'blue_green_action_failed',
+        message,
+        deployment.projectId,
+        { action: payload.action },
+      ).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Stops the project's idle side and releases its share of the server
+   * reservation. With `expectedDeploymentId` nothing happens unless that
+   * deployment is still the idle one; returns whether a deployment was retired.
+   */
+  async retireIdle(
+    projectId: string,
+    reason: IdleRetirementReason,
+    expectedDeploymentId?: string,
+  ): Promise<boolean> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        id: true,
+        organizationId: true,
+        resourceRamMb: true,
+        resourceCpuMillicore: true,
+        resourceBandwidthGb: true,
+        drainTimeoutSeconds: true,
+        stopGraceSeconds: true,
+        blueGreenDeploymentId: true,
+        blueGreenIdleUntil: true,
+      },
+    });
+    const retirement = project ? planIdleRetirement(project, expectedDeploymentId) : null;
+    if (!project || !retirement) {
+      return false;
+    }
+    const idleDeploymentId = retirement.deploymentId;
+
+    // Claim the idle side first, so a concurrent expiry, discard or deploy stops it only once.
+    const claimed = await prisma.project.updateMany({
+      where: { id: project.id, blueGreenDeploymentId: idleDeploymentId },
+      data: { blueGreenDeploymentId: null, blueGreenIdleUntil: null },
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    const idle = await prisma.deployment.findUnique({
+      where: { id: idleDeploymentId },
+      select: {
+        id: true,
+        replicaCount: true,
+        verificationDomain: true,
+        container: containerSelect,
+        replicas: replicaSelect,
+      },
+    });
+    if (!idle) {
+      return true;
+    }
+
+    const { neverSwitched } = retirement;
+    if (neverSwitched && idle.verificationDomain && !env.ENGINE_LOCAL_MODE) {
+      await this.nginx.removeProjectProxy(idle.verificationDomain).catch((error) => {
+        console.error('Failed to remove blue/green verification route', idle.id, error);
+      });
+    }
+
+    const retired = containersToRetire(idle);
+    await this.drainAndStop(idle.id, project, retired);
+
+    const now = new Date();
+    const release = idleReservationRelease(project, idle.replicaCount);
+    await prisma.$transaction([
+      prisma.container.updateMany({
+        where: { id: { in: retired.map((container) => container.id) } },
+        data: {
+          status: ContainerStatus.stopped,
+          sleepStatus: SleepStatus.sleeping,
+          stoppedAt: now,
+        },
+      }),
+      ...(neverSwitched
+        ? [
+            prisma.deployment.update({
+              where: { id: idle.id },
+              data: { status: DeploymentStatus.rolled_back },
+            }),
+          ]
+        : []),
+      // Both sides held a reservation while they ran side by side; the idle one gives its share back.
+      ...(idle.container
+        ? [
+            prisma.server.update({
+              where: { id: idle.container.serverId },
+              data: {
+                reservedRamMb: { decrement: release.reservedRamMb },
+                reservedCpuMillicores: { decrement: release.reservedCpuMillicores },
+                reservedBandwidthGb: { decrement: release.reservedBandwidthGb },
+              },
+            }),
+          ]
+        : []),
+    ]);
+
+    await this.publishEvent(
+      idle.id,
+      'blue_green_retired',
+      RETIREMENT_MESSAGES[reason],
+      project.id,
+      {
+        reason,
+        containers: retired.length,
+      },
+    );
+    return true;
+  }
+
+  /** Retires idle sides whose keep-warm window has passed; returns how many were stopped. */
+  async retireExpired(now = new Date()): Promise<number> {
+    const projects = await prisma.project.findMany({
+      where: { blueGreenDeploymentId: { not: null }, blueGreenIdleUntil: { lte: now } },
+      select: { id: true, blueGreenDeploymentId: true },
+    });
+
+    let retired = 0;
+    for (const project of projects) {
+      try {
+        if (await this.retireIdle(project.id, 'expired', project.blueGreenDeploymentId!)) {
+          retired += 1;
+        }
+      } catch (error) {
+        console.error('Failed to retire expired blue/green deployment', project.id, error);
+      }
+    }
+    return retired;
+  }
+
+  /**
+   * Moves production to the idle side and returns the deployment it replaced,
+   * which becomes the new idle side. `holdPreviousSeconds` keeps that side
+   * warm for at least this long whatever the project's keep-warm window, so a
+   * caller switching several projects can still switch them all back.
+   */
+  async switchTo(
+    targetDeploymentId: string,
+    options: { holdPreviousSeconds?: number } = {},
+  ): Promise<string | null> {
+    const target = await prisma.deployment.findUnique({
+      where: { id: targetDeploymentId },
+      select: {
+        id: true,
+        status: true,
+        domain: true,
+        verificationDomain: true,
+        container: containerSelect,
+        replicas: replicaSelect,
+        project: {
+          select: {
+            id: true,
+            slug: true,
+            organizationId: true,
+            serviceType: true,
+            attackModeEnabled: true,
+            activeDeploymentId: true,
+            blueGreenDeploymentId: true,
+            blueGreenIdleUntil: true,
+            blueGreenKeepWarmSeconds: true,
+            organization: { select: { slug: true } },
+            customDomains: {
+              where: { status: 'active' },
+              select: { domain: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!target) {
+      throw new Error('Deployment not found.');
+    }
+    const { project } = target;
+    const blocker = switchBlocker(target, project);
+    if (blocker) {
+      throw new Error(blocker);
+    }
+
+    const previousDeploymentId = project.activeDeploymentId;
+    const previous = previousDeploymentId
+      ? await prisma.deployment.findUnique({
+          where: { id: previousDeploymentId },
+          select: { id: true, domain: true, container: containerSelect, replicas: replicaSelect },
+        })
+      : null;
+
+    // Workers take no HTTP traffic: switching them only moves the .internal name.
+    const isWorker = project.serviceType === 'worker';
+    const domain = isWorker
+      ? null
+      : (target.domain ??
+        previous?.domain ??
+        buildUniqueProjectDomain({
+          projectSlug: project.slug,
+          organizationSlug: project.organization.slug,
+          baseDomain: env.BASE_DOMAIN,
+        }));
+    if (domain) {
+      await this.applyProductionRouting({
+        deploymentId: target.id,
+        domain,
+        routeAliases: resolveProductionRouteAliases({
+          primaryDomain: domain,
+          projectSlug: project.slug,
+          organizationSlug: project.organization.slug,
+          customDomains: project.customDomains.map((item) => item.domain),
+        }),
+        attackModeEnabled: project.attackModeEnabled,
+        upstreamPorts: upstreamPortsOf(target),
+      });
+    }
+
+    const plan = planSwitch({
+      targetDeploymentId: target.id,
+      project: { ...project, activeDeploymentId: previous?.id ?? null },
+      ...(options.holdPreviousSeconds !== undefined && {
+        holdPreviousSeconds: options.holdPreviousSeconds,
+      }),
+      now: new Date(),
+    });
+    const { switchBack } = plan;
+    const keepWarmSeconds = project.blueGreenKeepWarmSeconds;
+    await prisma.$transaction([
+      prisma.project.update({
+        where: { id: project.id },
+        data: plan.next,
+      }),
+      ...(domain ? [prisma.deployment.update({ where: { id: target.id }, data: { domain } })] : []),
+    ]);
+
+    // Nginx already sends production traffic to the target; the private name follows it.
+    await this.moveInternalHostname(target.id, project, target, previous).catch((error) => {
+      const reason = error instanceof Error ? error.message : String(error);
+      return this.publishEvent(
+        target.id,
+        'blue_green_internal_name_failed',
+        `Could not move ${internalHostname(project.slug)} to this deployment: ${reason}`,
+        project.id,
+      );
+    });
+
+    if (!switchBack && target.verificationDomain && !env.ENGINE_LOCAL_MODE) {
+      await this.nginx.removeProjectProxy(target.verificationDomain).catch((error) => {
+        console.error('Failed to remove blue/green verification route', target.id, error);
+      });
+    }
+
+    await this.publishEvent(
+      target.id,
+      'blue_green_switched',
+      describeSwitch({ switchBack, hasPrevious: previous !== null, keepWarmSeconds }),
+      project.id,
+      { previousActiveDeploymentId: previous?.id ?? null, switchBack, keepWarmSeconds },
+    );
+
+    if (previous && plan.retirePreviousNow) {
+      await this.retireIdle(project.id, 'expired', previous.id);
+    }
+    return previous?.id ?? null;
+  }
+
+  /**
+   * Adds the project's `.internal` alias to the new side before taking it off
+   * the old one, so the name resolves throughout; both answer for a moment.
+   */
+  private async moveInternalHostname(
+    targetDeploymentId: string,
+    project: { id: string; slug: string; organizationId: string },
+    target: Parameters<typeof containersToRetire>[0],
+    previous: Parameters<typeof containersToRetire>[0] | null,
+  ): Promise<void> {
+    const hostname = internalHostname(project.slug);
+    for (const container of containersToRetire(target)) {
+      await this.docker.setOrganizationNetworkAlias(
+        container.dockerContainerId,
+        project.organizationId,
+        hostname,
+      );
+    }
+    for (const container of previous ? containersToRetire(previous) : []) {
+      await this.docker.setOrganizationNetworkAlias(
+        container.dockerContainerId,
+        project.organizationId,
+        null,
+      );
+    }
+    await this.publishEvent(
+      targetDeploymentId,
+      'blue_green_internal_name_moved',
+      `${hostname} now resolves to this deployment.`,
+      project.id,
+    );
+  }
+
+  private async applyProductionRouting(input: {
+    deploymentId: string;
+    domain: string;
+    routeAliases: string[];
+    attackModeEnabled: boolean;
+    upstreamPorts: number[];
+  }): Promise<void> {
+    if (env.ENGINE_LOCAL_MODE) {
+      return;
+    }
+
+    const [primaryPort] = input.upstreamPorts;
+    if (primaryPort === undefined) {
+      throw new Error('No running container to route traffic to.');
+    }
+
+    const wakePath = `/api/v1/edge/deployments/${input.deploymentId}/wake`;
+    const upstreamScheme = await this.resolveUpstreamScheme(primaryPort);
+    await withRetry(
+      () =>
+        input.upstreamPorts.length > 1
+          ? this.nginx.configureUpstreamPoolProxyWithTls({
+              domain: input.domain,
+              certificateDomain: input.domain,
+              servers: input.upstreamPorts.map((port) => ({ host: '127.0.0.1', port })),
+              upstreamScheme,
+              attackModeEnabled: input.attackModeEnabled,
+              aliases: input.routeAliases,
+              wakePath,
+            })
+          : this.nginx.configureProjectProxyWithTls({
+              domain: input.domain,
+              certificateDomain: input.domain,
+              upstreamHost: '127.0.0.1',
+              upstreamPort: primaryPort,
+              upstreamScheme,
+              attackModeEnabled: input.attackModeEnabled,
+              aliases: input.routeAliases,
+              wakePath,
+            }),
+      { retries: 2, delayMs: 1000 },
+    );
+
+    const probe = await this.nginx.waitForRouteReady(
+      input.domain,
+      undefined,
+      Math.min(45, env.ENGINE_HEALTHCHECK_TIMEOUT_SECONDS),
+      'https',
+    );
+    if (!isReachableHttpStatus(probe.httpsStatus)) {
+      throw new Error(
+        `Route unhealthy after Nginx reconfiguration (http=${probe.httpStatus}, https=${probe.httpsStatus}).`,
+      );
+    }
+  }
+
+  private async resolveUpstreamScheme(upstreamPort: number): Promise<'http' | 'https'> {
+    const upstream = await this.nginx.waitForUpstreamReachable(
+      '127.0.0.1',
+      upstreamPort,
+      undefined,
+      Math.min(15, env.ENGINE_HEALTHCHECK_TIMEOUT_SECONDS),
+    );
+
+    const httpReachable = isReachableHttpStatus(upstream.httpStatus);
+    const httpsReachable = isReachableHttpStatus(upstream.httpsStatus);
+
+    if (!httpReachable && !httpsReachable && !upstream.tcpReachable) {
+      throw new Error(`Upstream is unreachable on 127.0.0.1:${upstreamPort}.`);
+    }
+
+    return httpsReachable && !httpReachable ? 'https' : 'http';
+  }
+
+  /** Stops containers nginx no longer routes to once their open connections close. */
+  private async drainAndStop(
+    deploymentId: string,
+    project: { id: string; drainTimeoutSeconds: number; stopGraceSeconds: number },
+    containers: Array<{ dockerContainerId: string }>,
+  ): Promise<void> {
+    const label = `${containers.length} idle container${containers.length === 1 ? '' : 's'}`;
+    await this.docker.drainAndStopContainers(
+      containers.map((container) => container.dockerContainerId),
+      {
+        drainTimeoutSeconds: project.drainTimeoutSeconds,
+        stopGraceSeconds: project.stopGraceSeconds,
+        onProgress: (progress) => {
+          this.publishEvent(
+            deploymentId,
+            DRAIN_EVENT_TYPES[progress.phase],
+            describeDrainProgress(progress, label),
+            project.id,
+            { containers: containers.length, ...progress },
+          ).catch(() => undefined);
+        },
+      },
+    );
+  }
+
+  private async publishEvent(
+    deploymentId: string,
+    type: string,
+    message: string,
+    projectId: string,
+    metadata?: Record<string, unknown>,
+  ): Promise<void> {
+    await prisma.logEntry
+      .create({
+        data: {
+          projectId,
+          deploymentId,
+          level: type.includes('failed') ? 'error' : 'info',
+          source: 'deployment-engine',
+          message,
+          metadata: {
+            eventType: type,
+            ...(metadata ?? {}),
+          },
+        },
+      })
+      .catch(() => undefined);
+
+    await redis
+      .publish(
+        `apployd:deployments:${deploymentId}`,
+        JSON.stringify({ deploymentId, type, message, timestamp: new Date().toISOString() }),
+      )
+      .catch(() => undefined);
+  }
+}
+
+export const startBlueGreenExpiryLoop = (): void => {
+  const service = new BlueGreenReleaseService();
+  let running = false;
+
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    service
+      .retireExpired()
+      .then((retired) => {
+        if (retired > 0) {
+          console.log(`Blue/green expiry: retired=${retired}`);
+        }
+      })
+      .catch((error) => {
+        console.error('Blue/green expiry cycle failed', error);
+      })
+      .finally(() => {
+        running = false;
+      });
+  }, EXPIRY_CHECK_INTERVAL_MS);
+  timer.unref();
+};
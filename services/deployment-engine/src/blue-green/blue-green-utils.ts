@@ -0,0 +1,116 @@
+import { ContainerStatus, DeploymentStatus } from '@prisma/client';
+
+export type IdleRetirementReason = 'discarded' | 'expired' | 'replaced';
+
+export const RETIREMENT_MESSAGES: Record<IdleRetirementReason, string> = {
+  discarded: 'Idle blue/green deployment discarded and stopped.',
+  expired: 'Keep-warm window ended; the previous deployment was stopped.',
+  replaced: 'Idle blue/green deployment stopped because a newer production deployment took over.',
+};
+
+interface BlueGreenProjectState {
+  activeDeploymentId: string | null;
+  /** The idle side, whichever of the two it is. */
+  blueGreenDeploymentId: string | null;
+  /** Set once production has switched; null while the idle side is a green that never took traffic. */
+  blueGreenIdleUntil: Date | null;
+}
+
+/** Why `target` cannot take production traffic, or null when it can. */
+export const switchBlocker = (
+  target: {
+    id: string;
+    status: DeploymentStatus;
+    container: { status: ContainerStatus } | null;
+  },
+  project: Pick<BlueGreenProjectState, 'blueGreenDeploymentId'>,
+): string | null => {
+  if (project.blueGreenDeploymentId !== target.id) {
+    return 'Deployment is not the idle side of a blue/green release.';
+  }
+  if (target.status !== DeploymentStatus.ready) {
+    return 'Only a ready deployment can take production traffic.';
+  }
+  if (!target.container || target.container.status !== ContainerStatus.running) {
+    return 'The idle deployment is no longer running.';
+  }
+  return null;
+};
+
+export interface BlueGreenSwitchPlan {
+  /** The idle side was live before, so this returns to it. */
+  switchBack: boolean;
+  /** Project state once the switch is committed. */
+  next: BlueGreenProjectState;
+  /** The replaced side has no keep-warm window and is stopped right away. */
+  retirePreviousNow: boolean;
+}
+
+/**
+ * Project state after `targetDeploymentId` takes production: the deployment it
+ * replaces becomes the idle side and stays warm for the longer of the
+ * project's keep-warm window and `holdPreviousSeconds`.
+ */
+export const planSwitch = (input: {
+  targetDeploymentId: string;
+  project: BlueGreenProjectState & { blueGreenKeepWarmSeconds: number };
+  holdPreviousSeconds?: number;
+  now: Date;
+}): BlueGreenSwitchPlan => {
+  const previousDeploymentId = input.project.activeDeploymentId;
+  const idleSeconds = Math.max(
+    input.project.blueGreenKeepWarmSeconds,
+    input.holdPreviousSeconds ?? 0,
+  );
+
+  return {
+    switchBack: input.project.blueGreenIdleUntil !== null,
+    next: {
+      activeDeploymentId: input.targetDeploymentId,
+      blueGreenDeploymentId: previousDeploymentId,
+      blueGreenIdleUntil: previousDeploymentId
+        ? new Date(input.now.getTime() + idleSeconds * 1000)
+        : null,
+    },
+    retirePreviousNow: previousDeploymentId !== null && idleSeconds === 0,
+  };
+};
+
+export const describeSwitch = (input: {
+  switchBack: boolean;
+  hasPrevious: boolean;
+  keepWarmSeconds: number;
+}): string => {
+  const switched = `${input.switchBack ? 'Switched back' : 'Switched'} production traffic to this deployment.`;
+  return input.hasPrevious && input.keepWarmSeconds > 0
+    ? `${switched} The previous deployment stays warm for ${Math.round(input.keepWarmSeconds / 60)} min; switch back to return to it instantly.`
+    : switched;
+};
+
+/**
+ * The idle side to retire, or null when there is none or it is no longer
+ * `expectedDeploymentId`. A green that never took traffic is marked rolled back.
+ */
+export const planIdleRetirement = (
+  project: Pick<BlueGreenProjectState, 'blueGreenDeploymentId' | 'blueGreenIdleUntil'>,
+  expectedDeploymentId?: string,
+): { deploymentId: string; neverSwitched: boolean } | null => {
+  const idleDeploymentId = project.blueGreenDeploymentId;
+  if (!idleDeploymentId || (expectedDeploymentId && expectedDeploymentId !== idleDeploymentId)) {
+    return null;
+  }
+  return { deploymentId: idleDeploymentId, neverSwitched: project.blueGreenIdleUntil === null };
+};
+
+/** Server reservation the idle side gives back when it stops. */
+export const idleReservationRelease = (
+  project: { resourceRamMb: number; resourceCpuMillicore: number; resourceBandwidthGb: number },
+  replicaCount: number,
+): { reservedRamMb: number; reservedCpuMillicores: number; reservedBandwidthGb: number } => {
+  const replicas = Math.max(1, replicaCount);
+  return {
+    reservedRamMb: project.resourceRamMb * replicas,
+    reservedCpuMillicores: project.resourceCpuMillicore * replicas,
+    reservedBandwidthGb: project.resourceBandwidthGb,
+  };
+};
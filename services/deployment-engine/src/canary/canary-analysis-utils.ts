@@ -0,0 +1,167 @@
+import type { CanaryPlan } from '@apployd/shared';
+import { z } from 'zod';
+
+import type { RequestLogEntry } from '../monitoring/request-log-utils.js';
+
+/** Latency samples kept per side and step; later samples overwrite the oldest. */
+const MAX_LATENCY_SAMPLES = 20_000;
+/** p95 differences below this are noise on fast endpoints, whatever the percentage. */
+export const LATENCY_NOISE_FLOOR_MS = 25;
+
+export const canaryPlanSchema = z.object({
+  steps: z.array(z.number().int().min(1).max(99)).min(1).max(10),
+  stepDwellSeconds: z.number().int().min(1),
+  minRequestsPerStep: z.number().int().min(0),
+  maxErrorRateIncrease: z.number().min(0),
+  maxLatencyIncreasePercent: z.number().min(0),
+  maxRestarts: z.number().int().min(0),
+}) satisfies z.ZodType<CanaryPlan>;
+
+interface TrafficStats {
+  requests: number;
+  serverErrors: number;
+  latenciesMs: number[];
+}
+
+/** Traffic seen by each side of a canary since its current step started. */
+export interface CanaryStepWindow {
+  canary: TrafficStats;
+  stable: TrafficStats;
+}
+
+export interface CanaryMetrics {
+  canaryRequests: number;
+  stableRequests: number;
+  canaryErrorRatePercent: number;
+  stableErrorRatePercent: number;
+  /** Null without samples */
+  canaryP95Ms: number | null;
+  stableP95Ms: number | null;
+  restarts: number;
+}
+
+export type CanaryDecision =
+  | { action: 'wait'; reason: 'dwell' | 'traffic' }
+  | { action: 'advance'; percent: number }
+  | { action: 'promote' }
+  | { action: 'abort'; reason: string };
+
+const emptyTrafficStats = (): TrafficStats => ({ requests: 0, serverErrors: 0, latenciesMs: [] });
+
+export const emptyStepWindow = (): CanaryStepWindow => ({
+  canary: emptyTrafficStats(),
+  stable: emptyTrafficStats(),
+});
+
+const recordRequest = (stats: TrafficStats, entry: RequestLogEntry): void => {
+  if (stats.latenciesMs.length < MAX_LATENCY_SAMPLES) {
+    stats.latenciesMs.push(entry.requestTimeMs);
+  } else {
+    stats.latenciesMs[stats.requests % MAX_LATENCY_SAMPLES] = entry.requestTimeMs;
+  }
+  stats.requests += 1;
+  if (entry.status >= 500) {
+    stats.serverErrors += 1;
+  }
+};
+
+/** Adds log entries to the window, attributing them by the upstream port that answered. */
+export const recordStepRequests = (
+  window: CanaryStepWindow,
+  entries: RequestLogEntry[],
+  ports: { canary: number[]; stable: number[] },
+): void => {
+  const canaryPorts = new Set(ports.canary);
+  const stablePorts = new Set(ports.stable);
+  for (const entry of entries) {
+    if (entry.upstreamPort === null) {
+      continue;
+    }
+    if (canaryPorts.has(entry.upstreamPort)) {
+      recordRequest(window.canary, entry);
+    } else if (stablePorts.has(entry.upstreamPort)) {
+      recordRequest(window.stable, entry);
+    }
+  }
+};
+
+/** Nearest-rank percentile; null for no samples. */
+export const percentile = (values: number[], fraction: number): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.min(sorted.length, Math.max(1, Math.ceil(fraction * sorted.length)));
+  return sorted[rank - 1]!;
+};
+
+const errorRatePercent = (stats: TrafficStats): number =>
+  stats.requests === 0 ? 0 : (stats.serverErrors / stats.requests) * 100;
+
+export const summarizeStepWindow = (window: CanaryStepWindow, restarts: number): CanaryMetrics => ({
+  canaryRequests: window.canary.requests,
+  stableRequests: window.stable.requests,
+  canaryErrorRatePercent: errorRatePercent(window.canary),
+  stableErrorRatePercent: errorRatePercent(window.stable),
+  canaryP95Ms: percentile(window.canary.latenciesMs, 0.95),
+  stableP95Ms: percentile(window.stable.latenciesMs, 0.95),
+  restarts,
+});
+
+/**
+ * Decides what to do with a canary at `stepIndex`. Guards are checked as soon
+ * as the canary has served `minRequestsPerStep` requests in the step, so a bad
+ * canary is aborted without waiting out the dwell time; a step only completes
+ * once the dwell time has passed with enough traffic to judge it.
+ */
+export const decideCanaryStep = (input: {
+  plan: CanaryPlan;
+  stepIndex: number;
+  metrics: CanaryMetrics;
+  dwellElapsedSeconds: number;
+}): CanaryDecision => {
+  const { plan, metrics } = input;
+
+  if (metrics.restarts > plan.maxRestarts) {
+    return {
+      action: 'abort',
+      reason: `canary containers restarted ${metrics.restarts} times (limit ${plan.maxRestarts})`,
+    };
+  }
+
+  const enoughTraffic = metrics.canaryRequests >= plan.minRequestsPerStep;
+  if (enoughTraffic && metrics.canaryRequests > 0) {
+    const errorRateIncrease = metrics.canaryErrorRatePercent - metrics.stableErrorRatePercent;
+    if (errorRateIncrease > plan.maxErrorRateIncrease) {
+      return {
+        action: 'abort',
+        reason: `5xx rate ${metrics.canaryErrorRatePercent.toFixed(2)}% vs stable ${metrics.stableErrorRatePercent.toFixed(2)}% (allowed increase ${plan.maxErrorRateIncrease} points)`,
+      };
+    }
+
+    if (metrics.canaryP95Ms !== null && metrics.stableP95Ms !== null) {
+      const allowedP95Ms = metrics.stableP95Ms * (1 + plan.maxLatencyIncreasePercent / 100);
+      if (
+        metrics.canaryP95Ms > allowedP95Ms &&
+        metrics.canaryP95Ms - metrics.stableP95Ms > LATENCY_NOISE_FLOOR_MS
+      ) {
+        return {
+          action: 'abort',
+          reason: `p95 latency ${metrics.canaryP95Ms}ms vs stable ${metrics.stableP95Ms}ms (allowed increase ${plan.maxLatencyIncreasePercent}%)`,
+        };
+      }
+    }
+  }
+
+  if (input.dwellElapsedSeconds < plan.stepDwellSeconds) {
+    return { action: 'wait', reason: 'dwell' };
+  }
+  if (!enoughTraffic) {
+    return { action: 'wait', reason: 'traffic' };
+  }
+
+  const nextPercent = plan.steps[input.stepIndex + 1];
+  return nextPercent === undefined
+    ? { action: 'promote' }
+    : { action: 'advance', percent: nextPercent };
+};
@@ -0,0 +1,371 @@
+/**
+ * Canary analysis loop
+ *
+ * Walks canaries that were started with a plan through their traffic steps.
+ * Requests from the nginx `apployd_requests` log are attributed to the canary
+ * or the stable deployment by upstream port; together with container restarts
+ * they decide whether a step advances, the canary is promoted, or it is
+ * aborted. Every decision becomes a deployment event and an audit log entry.
+ */
+import { ContainerStatus, DeploymentStatus, Prisma } from '@prisma/client';
+
+import { DockerAdapter } from '../adapters/docker-adapter.js';
+import { env } from '../core/env.js';
+import { prisma } from '../core/prisma.js';
+import { redis } from '../core/redis.js';
+import { RequestLogReader } from '../monitoring/request-log-reader.js';
+import { parseRequestLogLine, type RequestLogEntry } from '../monitoring/request-log-utils.js';
+import {
+  canaryPlanSchema,
+  decideCanaryStep,
+  emptyStepWindow,
+  recordStepRequests,
+  summarizeStepWindow,
+  type CanaryDecision,
+  type CanaryMetrics,
+  type CanaryStepWindow,
+} from './canary-analysis-utils.js';
+import { CanaryReleaseService, replicaSelect, upstreamPortsOf } from './canary-release-service.js';
+
+interface AnalysisState {
+  stepIndex: number;
+  window: CanaryStepWindow;
+  /** Set once the "not enough traffic" event was published for the current step */
+  waitingReported: boolean;
+}
+
+type DecidedAction = Exclude<CanaryDecision, { action: 'wait' }>;
+
+const DECISION_EVENT_TYPES: Record<DecidedAction['action'], string> = {
+  advance: 'canary_analysis_advanced',
+  promote: 'canary_analysis_promoted',
+  abort: 'canary_analysis_aborted',
+};
+
+const DECISION_AUDIT_ACTIONS: Record<DecidedAction['action'], string> = {
+  advance: 'deployment.canary_auto_advanced',
+  promote: 'deployment.canary_auto_promoted',
+  abort: 'deployment.canary_auto_aborted',
+};
+
+const roundMetric = (value: number | null): number | null =>
+  value === null ? null : Math.round(value * 100) / 100;
+
+const describeMetrics = (metrics: CanaryMetrics): string =>
+  `canary ${metrics.canaryRequests} req, 5xx ${metrics.canaryErrorRatePercent.toFixed(2)}%, p95 ${metrics.canaryP95Ms ?? '–'}ms; ` +
+  `stable ${metrics.stableRequests} req, 5xx ${metrics.stableErrorRatePercent.toFixed(2)}%, p95 ${metrics.stableP95Ms ?? '–'}ms; ` +
+  `restarts ${metrics.restarts}`;
+
+const loadPlannedCanaries = () =>
+  prisma.deployment.findMany({
+    where: {
+      isCanary: true,
+      status: DeploymentStatus.ready,
+      canaryPlan: { not: Prisma.DbNull },
+      canaryForProject: { isNot: null },
+    },
+    select: {
+      id: true,
+      canaryPlan: true,
+      canaryStepIndex: true,
+      canaryStepStartedAt: true,
+      canaryStartedAt: true,
+      container: { select: { id: true, hostPort: true, dockerContainerId: true } },
+      replicas: replicaSelect,
+      project: {
+        select: {
+          id: true,
+          organizationId: true,
+          activeDeploymentId: true,
+          activeDeployment: {
+            select: {
+              container: { select: { id: true, hostPort: true, dockerContainerId: true } },
+              replicas: replicaSelect,
+            },
+          },
+        },
+      },
+    },
+  });
+
+type PlannedCanary = Awaited<ReturnType<typeof loadPlannedCanaries>>[number];
+
+export class CanaryAnalysisService {
+  private readonly docker = new DockerAdapter();
+
+  private readonly releases = new CanaryReleaseService();
+
+  private readonly requestLog = new RequestLogReader();
+
+  private readonly states = new Map<string, AnalysisState>();
+
+  async runOnce(now = new Date()): Promise<{ analyzed: number; decided: number }> {
+    const lines = await this.requestLog.readNewLines().catch((error) => {
+      console.error('Canary analysis: failed to read nginx request log', error);
+      return [] as string[];
+    });
+    const entries = lines
+      .map(parseRequestLogLine)
+      .filter((entry): entry is RequestLogEntry => entry !== null);
+
+    const canaries = await loadPlannedCanaries();
+    const seen = new Set<string>();
+    let decided = 0;
+
+    for (const canary of canaries) {
+      seen.add(canary.id);
+      try {
+        if (await this.analyzeCanary(canary, entries, now)) {
+          decided += 1;
+        }
+      } catch (error) {
+        console.error('Canary analysis failed', canary.id, error);
+      }
+    }
+
+    for (const deploymentId of this.states.keys()) {
+      if (!seen.has(deploymentId)) {
+        this.states.delete(deploymentId);
+      }
+    }
+
+    return { analyzed: canaries.length, decided };
+  }
+
+  /** Returns true when the canary was advanced, promoted or aborted. */
+  private async analyzeCanary(
+    canary: PlannedCanary,
+    entries: RequestLogEntry[],
+    now: Date,
+  ): Promise<boolean> {
+    const plan = canaryPlanSchema.safeParse(canary.canaryPlan);
+    const stable = canary.project.activeDeployment;
+    if (!plan.success || !stable || !canary.project.activeDeploymentId) {
+      return false;
+    }
+
+    let state = this.states.get(canary.id);
+    if (!state || state.stepIndex !== canary.canaryStepIndex) {
+      // A fresh window also after an engine restart: traffic from before it was not observed.
+      state = {
+        stepIndex: canary.canaryStepIndex,
+        window: emptyStepWindow(),
+        waitingReported: false,
+      };
+      this.states.set(canary.id, state);
+    }
+
+    recordStepRequests(state.window, entries, {
+      canary: upstreamPortsOf(canary),
+      stable: upstreamPortsOf(stable),
+    });
+
+    const metrics = summarizeStepWindow(state.window, await this.countRestarts(canary));
+    const stepStartedAt = canary.canaryStepStartedAt ?? canary.canaryStartedAt ?? now;
+    const decision = decideCanaryStep({
+      plan: plan.data,
+      stepIndex: state.stepIndex,
+      metrics,
+      dwellElapsedSeconds: (now.getTime() - stepStartedAt.getTime()) / 1000,
+    });
+
+    if (decision.action === 'wait') {
+      if (decision.reason === 'traffic' && !state.waitingReported) {
+        state.waitingReported = true;
+        await this.publishEvent(
+          canary.id,
+          canary.project.id,
+          'canary_analysis_waiting',
+          `Canary step ${state.stepIndex + 1} dwell time passed but the canary has served ${metrics.canaryRequests} of ${plan.data.minRequestsPerStep} required requests; holding at the current traffic share.`,
+          { stepIndex: state.stepIndex, ...this.metricsMetadata(metrics) },
+        );
+      }
+      return false;
+    }
+
+    const stableDeploymentId = canary.project.activeDeploymentId;
+    try {
+      if (decision.action === 'advance') {
+        await this.releases.execute({
+          action: 'set_percent',
+          deploymentId: canary.id,
+          percent: decision.percent,
+        });
+        await prisma.deployment.update({
+          where: { id: canary.id },
+          data: { canaryStepIndex: state.stepIndex + 1, canaryStepStartedAt: new Date() },
+        });
+        this.states.delete(canary.id);
+      } else {
+        await this.releases.execute({
+          action: decision.action,
+          deploymentId: canary.id,
+          stableDeploymentId,
+        });
+      }
+    } catch (error) {
+      await this.stopPlan(canary, decision, error);
+      return false;
+    }
+
+    await this.recordDecision(canary, state.stepIndex, decision, metrics);
+    return true;
+  }
+
+  /**
+   * Hands the canary back to manual control when a decision cannot be carried
+   * out, instead of retrying it every cycle; traffic stays where it was.
+   */
+  private async stopPlan(canary: PlannedCanary, decision: DecidedAction, error: unknown) {
+    this.states.delete(canary.id);
+    await prisma.deployment.update({
+      where: { id: canary.id },
+      data: { canaryPlan: Prisma.DbNull },
+    });
+    const reason = error instanceof Error && error.message ? error.message : 'unknown error';
+    await this.publishEvent(
+      canary.id,
+      canary.project.id,
+      'canary_analysis_failed',
+      `Canary analysis could not ${decision.action} the canary (${reason}); automatic analysis stopped. Promote, abort or adjust traffic manually.`,
+      { action: decision.action, error: reason },
+    );
+  }
+
+  /**
+   * Docker restarts of the canary's containers since they started, plus any
+   * container that is no longer running, which counts as a restart that failed.
+   */
+  private async countRestarts(canary: PlannedCanary): Promise<number> {
+    const dockerContainerIds = new Set(canary.replicas.map((replica) => replica.dockerContainerId));
+    if (canary.container) {
+      dockerContainerIds.add(canary.container.dockerContainerId);
+    }
+    let restarts = canary.replicas.filter(
+      (replica) => replica.status !== ContainerStatus.running,
+    ).length;
+    for (const dockerContainerId of dockerContainerIds) {
+      const runtime = await this.docker.getContainerRuntimeState(dockerContainerId);
+      restarts += runtime?.restartCount ?? 0;
+    }
+    return restarts;
+  }
+
+  private async recordDecision(
+    canary: PlannedCanary,
+    stepIndex: number,
+    decision: DecidedAction,
+    metrics: CanaryMetrics,
+  ): Promise<void> {
+    const message =
+      decision.action === 'advance'
+        ? `Canary analysis passed step ${stepIndex + 1}; traffic advanced to ${decision.percent}% (${describeMetrics(metrics)}).`
+        : decision.action === 'promote'
+          ? `Canary analysis passed every step; canary promoted (${describeMetrics(metrics)}).`
+          : `Canary analysis aborted the canary at step ${stepIndex + 1}: ${decision.reason} (${describeMetrics(metrics)}).`;
+    const metadata = {
+      stepIndex,
+      ...(decision.action === 'advance' && { percent: decision.percent }),
+      ...(decision.action === 'abort' && { reason: decision.reason }),
+      stableDeploymentId: canary.project.activeDeploymentId,
+      ...this.metricsMetadata(metrics),
+    };
+
+    await this.publishEvent(
+      canary.id,
+      canary.project.id,
+      DECISION_EVENT_TYPES[decision.action],
+      message,
+      metadata,
+    );
+    await prisma.auditLog
+      .create({
+        data: {
+          organizationId: canary.project.organizationId,
+          actorUserId: null,
+          action: DECISION_AUDIT_ACTIONS[decision.action],
+          entityType: 'deployment',
+          entityId: canary.id,
+          metadata,
+        },
+      })
+      .catch((error) => {
+        console.error('Canary analysis: failed to write audit log', canary.id, error);
+      });
+  }
+
+  private metricsMetadata(metrics: CanaryMetrics) {
+    return {
+      canaryRequests: metrics.canaryRequests,
+      stableRequests: metrics.stableRequests,
+      canaryErrorRatePercent: roundMetric(metrics.canaryErrorRatePercent),
+      stableErrorRatePercent: roundMetric(metrics.stableErrorRatePercent),
+      canaryP95Ms: metrics.canaryP95Ms,
+      stableP95Ms: metrics.stableP95Ms,
+      restarts: metrics.restarts,
+    };
+  }
+
+  private async publishEvent(
+    deploymentId: string,
+    projectId: string,
+    type: string,
+    message: string,
+    metadata: Record<string, unknown>,
+  ): Promise<void> {
+    await prisma.logEntry
+      .create({
+        data: {
+          projectId,
+          deploymentId,
+          level:
+            type === 'canary_analysis_failed'
+              ? 'error'
+              : type === 'canary_analysis_aborted'
+                ? 'warn'
+                : 'info',
+          source: 'deployment-engine',
+          message,
+          metadata: { eventType: type, ...metadata } as Prisma.InputJsonValue,
+        },
+      })
+      .catch(() => undefined);
+
+    await redis
+      .publish(
+        `apployd:deployments:${deploymentId}`,
+        JSON.stringify({ deploymentId, type, message, timestamp: new Date().toISOString() }),
+      )
+      .catch(() => undefined);
+  }
+}
+
+export const startCanaryAnalysisLoop = (): void => {
+  const service = new CanaryAnalysisService();
+  let running = false;
+
+  const runCycle = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    try {
+      const summary = await service.runOnce();
+      if (summary.decided > 0) {
+        console.log(`Canary analysis: analyzed=${summary.analyzed}, decided=${summary.decided}`);
+      }
+    } catch (error) {
+      console.error('Canary analysis cycle failed', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  // The first cycle only marks the end of the request log, so the next one sees new requests.
+  void runCycle();
+  const timer = setInterval(() => {
+    void runCycle();
+  }, env.ENGINE_CANARY_ANALYSIS_INTERVAL_SECONDS * 1000);
+  timer.unref();
+};
@@ -1,9 +1,16 @@
 import { ContainerStatus, DeploymentStatus, SleepStatus } from '@prisma/client';
-import { createHash } from 'crypto';
 
-import { DockerAdapter } from '../adapters/docker-adapter.js';
-import { NginxAdapter } from '../adapters/nginx-adapter.js';
+import {
+  DRAIN_EVENT_TYPES,
+  DockerAdapter,
+  describeDrainProgress,
+} from '../adapters/docker-adapter.js';
+import { NginxAdapter, weightedUpstreamServers } from '../adapters/nginx-adapter.js';
 import { env } from '../core/env.js';
+import {
+  buildUniqueProjectDomain,
+  resolveProductionRouteAliases,
+} from '../core/production-routes.js';
 import { prisma } from '../core/prisma.js';
 import { redis } from '../core/redis.js';
 import { withRetry } from '../core/retry.js';
@@ -12,6 +19,35 @@ import type { CanaryActionPayload } from '../core/types.js';
 const isReachableHttpStatus = (status: string): boolean =>
   status !== '000' && status !== '502' && status !== '503' && status !== '504';
 
+export const replicaSelect = {
+  where: { status: { not: ContainerStatus.stopped } },
+  orderBy: { replicaIndex: 'asc' },
+  select: { id: true, hostPort: true, status: true, dockerContainerId: true },
+} as const;
+
+interface DeploymentReplicas {
+  container: { id: string; hostPort: number; dockerContainerId: string } | null;
+  replicas: Array<{ id: string; hostPort: number; status: ContainerStatus; dockerContainerId: string }>;
+}
+
+/** Host ports of a deployment's running replicas; the primary container's for single-replica deployments. */
+export const upstreamPortsOf = (deployment: DeploymentReplicas): number[] => {
+  const running = deployment.replicas.filter((replica) => replica.status === ContainerStatus.running);
+  if (running.length) {
+    return running.map((replica) => replica.hostPort);
+  }
+  return deployment.container ? [deployment.container.hostPort] : [];
+};
+
+/** Every container of a deployment that still needs stopping, primary included. */
+export const containersToRetire = (deployment: DeploymentReplicas) => {
+  const containers = new Map(deployment.replicas.map((replica) => [replica.id, replica]));
+  if (deployment.container && !containers.has(deployment.container.id)) {
+    containers.set(deployment.container.id, { ...deployment.container, status: ContainerStatus.running });
+  }
+  return [...containers.values()];
+};
+
 export class CanaryReleaseService {
   private readonly docker = new DockerAdapter();
 
@@ -75,8 +111,8 @@ export class CanaryReleaseService {
       domain: context.domain,
       routeAliases: context.routeAliases,
       attackModeEnabled: context.project.attackModeEnabled,
-      stablePort: context.stableDeployment.container.hostPort,
-      canaryPort: context.canaryDeployment.container.hostPort,
+      stablePorts: upstreamPortsOf(context.stableDeployment),
+      canaryPorts: upstreamPortsOf(context.canaryDeployment),
       canaryWeight: percent,
       wakePath: `/api/v1/edge/deployments/${canaryDeploymentId}/wake`,
     });
@@ -103,13 +139,12 @@ export class CanaryReleaseService {
       domain: context.domain,
       routeAliases: context.routeAliases,
       attackModeEnabled: context.project.attackModeEnabled,
-      upstreamPort: context.canaryDeployment.container.hostPort,
+      upstreamPorts: upstreamPortsOf(context.canaryDeployment),
       wakePath: `/api/v1/edge/deployments/${canaryDeploymentId}/wake`,
     });
 
-    if (context.stableDeployment.container?.dockerContainerId) {
-      await this.docker.stopContainer(context.stableDeployment.container.dockerContainerId).catch(() => undefined);
-    }
+    const retiredStable = containersToRetire(context.stableDeployment);
+    await this.drainAndStop(canaryDeploymentId, context.project, retiredStable, 'previous stable');
 
     const now = new Date();
     await prisma.$transaction([
@@ -129,7 +164,7 @@ export class CanaryReleaseService {
         },
       }),
       prisma.container.updateMany({
-        where: { id: context.stableDeployment.container.id },
+        where: { id: { in: retiredStable.map((container) => container.id) } },
         data: {
           status: ContainerStatus.stopped,
           sleepStatus: SleepStatus.sleeping,
@@ -155,13 +190,12 @@ export class CanaryReleaseService {
       domain: context.domain,
       routeAliases: context.routeAliases,
       attackModeEnabled: context.project.attackModeEnabled,
-      upstreamPort: context.stableDeployment.container.hostPort,
+      upstreamPorts: upstreamPortsOf(context.stableDeployment),
       wakePath: `/api/v1/edge/deployments/${stableDeploymentId}/wake`,
     });
 
-    if (context.canaryDeployment.container?.dockerContainerId) {
-      await this.docker.stopContainer(context.canaryDeployment.container.dockerContainerId).catch(() => undefined);
-    }
+    const retiredCanary = containersToRetire(context.canaryDeployment);
+    await this.drainAndStop(canaryDeploymentId, context.project, retiredCanary, 'canary');
 
     const now = new Date();
     await prisma.$transaction([
@@ -180,7 +214,7 @@ export class CanaryReleaseService {
         },
       }),
       prisma.container.updateMany({
-        where: { id: context.canaryDeployment.container.id },
+        where: { id: { in: retiredCanary.map((container) => container.id) } },
         data: {
           status: ContainerStatus.stopped,
           sleepStatus: SleepStatus.sleeping,
@@ -198,6 +232,32 @@ export class CanaryReleaseService {
     );
   }
 
+  /** Stops containers nginx no longer routes to once their open connections close. */
+  private async drainAndStop(
+    deploymentId: string,
+    project: { id: string; drainTimeoutSeconds: number; stopGraceSeconds: number },
+    containers: Array<{ dockerContainerId: string }>,
+    role: string,
+  ): Promise<void> {
+    const label = `${containers.length} ${role} container${containers.length === 1 ? '' : 's'}`;
+    await this.docker.drainAndStopContainers(
+      containers.map((container) => container.dockerContainerId),
+      {
+        drainTimeoutSeconds: project.drainTimeoutSeconds,
+        stopGraceSeconds: project.stopGraceSeconds,
+        onProgress: (progress) => {
+          this.publishEvent(
+            deploymentId,
+            DRAIN_EVENT_TYPES[progress.phase],
+            describeDrainProgress(progress, label),
+            project.id,
+            { containers: containers.length, ...progress },
+          ).catch(() => undefined);
+        },
+      },
+    );
+  }
+
   private async loadActiveCanaryContext(canaryDeploymentId: string, stableDeploymentId?: string) {
     const canaryDeployment = await prisma.deployment.findUnique({
       where: { id: canaryDeploymentId },
@@ -219,6 +279,7 @@ export class CanaryReleaseService {
             serverId: true,
           },
         },
+        replicas: replicaSelect,
         project: {
           select: {
             id: true,
@@ -226,6 +287,8 @@ export class CanaryReleaseService {
             slug: true,
             organizationId: true,
             attackModeEnabled: true,
+            drainTimeoutSeconds: true,
+            stopGraceSeconds: true,
             activeDeploymentId: true,
             canaryDeploymentId: true,
             organization: {
@@ -274,6 +337,7 @@ export class CanaryReleaseService {
             serverId: true,
           },
         },
+        replicas: replicaSelect,
       },
     });
 
@@ -400,8 +464,8 @@ export class CanaryReleaseService {
     domain: string;
     routeAliases: string[];
     attackModeEnabled: boolean;
-    stablePort: number;
-    canaryPort: number;
+    stablePorts: number[];
+    canaryPorts: number[];
     canaryWeight: number;
     wakePath: string;
   }): Promise<void> {
@@ -409,21 +473,22 @@ export class CanaryReleaseService {
       return;
     }
 
-    const upstreamScheme = await this.resolveUpstreamScheme(input.canaryPort);
+    const upstreamScheme = await this.resolveUpstreamScheme(input.canaryPorts[0]!);
+    const toServers = (ports: number[]) => ports.map((port) => ({ host: '127.0.0.1', port }));
     await withRetry(
       () =>
-        this.nginx.configureWeightedProjectProxyWithTls({
+        this.nginx.configureUpstreamPoolProxyWithTls({
           domain: input.domain,
           certificateDomain: input.domain,
-          stableUpstreamHost: '127.0.0.1',
-          stableUpstreamPort: input.stablePort,
-          canaryUpstreamHost: '127.0.0.1',
-          canaryUpstreamPort: input.canaryPort,
+          servers: weightedUpstreamServers(
+            toServers(input.stablePorts),
+            toServers(input.canaryPorts),
+            input.canaryWeight,
+          ),
           upstreamScheme,
           attackModeEnabled: input.attackModeEnabled,
           aliases: input.routeAliases,
           wakePath: input.wakePath,
-          canaryWeight: input.canaryWeight,
         }),
       { retries: 2, delayMs: 1000 },
     );
@@ -435,26 +500,41 @@ export class CanaryReleaseService {
     domain: string;
     routeAliases: string[];
     attackModeEnabled: boolean;
-    upstreamPort: number;
+    upstreamPorts: number[];
     wakePath: string;
   }): Promise<void> {
     if (env.ENGINE_LOCAL_MODE) {
       return;
     }
 
-    const upstreamScheme = await this.resolveUpstreamScheme(input.upstreamPort);
+    const [primaryPort] = input.upstreamPorts;
+    if (primaryPort === undefined) {
+      throw new Error('No running container to route traffic to.');
+    }
+
+    const upstreamScheme = await this.resolveUpstreamScheme(primaryPort);
     await withRetry(
       () =>
-        this.nginx.configureProjectProxyWithTls({
-          domain: input.domain,
-          certificateDomain: input.domain,
-          upstreamHost: '127.0.0.1',
-          upstreamPort: input.upstreamPort,
-          upstreamScheme,
-          attackModeEnabled: input.attackModeEnabled,
-          aliases: input.routeAliases,
-          wakePath: input.wakePath,
-        }),
+        input.upstreamPorts.length > 1
+          ? this.nginx.configureUpstreamPoolProxyWithTls({
+              domain: input.domain,
+              certificateDomain: input.domain,
+              servers: input.upstreamPorts.map((port) => ({ host: '127.0.0.1', port })),
+              upstreamScheme,
+              attackModeEnabled: input.attackModeEnabled,
+              aliases: input.routeAliases,
+              wakePath: input.wakePath,
+            })
+          : this.nginx.configureProjectProxyWithTls({
+              domain: input.domain,
+              certificateDomain: input.domain,
+              upstreamHost: '127.0.0.1',
+              upstreamPort: primaryPort,
+              upstreamScheme,
+              attackModeEnabled: input.attackModeEnabled,
+              aliases: input.routeAliases,
+              wakePath: input.wakePath,
+            }),
       { retries: 2, delayMs: 1000 },
     );
 
@@ -524,122 +604,3 @@ export class CanaryReleaseService {
     );
   }
 }
-
-const sanitizeDomainLabel = (value: string, fallback: string): string => {
-  const normalized = value
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9-]/g, '-')
-    .replace(/-+/g, '-')
-    .replace(/^-+|-+$/g, '');
-
-  if (!normalized) {
-    return fallback;
-  }
-
-  return normalized.slice(0, 63).replace(/-+$/g, '') || fallback;
-};
-
-const normalizeHostname = (value: string): string =>
-  value.trim().toLowerCase().replace(/\.$/, '');
-
-const hostnameFromUrl = (value: string): string | null => {
-  try {
-    return normalizeHostname(new URL(value).hostname);
-  } catch {
-    return null;
-  }
-};
-
-const maybeAddCompanionWww = (host: string, target: Set<string>): void => {
-  if (!host || host.includes(':')) {
-    return;
-  }
-
-  if (host.startsWith('www.')) {
-    const apex = host.slice(4);
-    if (apex) {
-      target.add(apex);
-    }
-    return;
-  }
-
-  const labels = host.split('.');
-  if (labels.length === 2) {
-    target.add(`www.${host}`);
-  }
-};
-
-const buildProtectedPlatformDomains = (): Set<string> => {
-  const protectedDomains = new Set<string>();
-  const addHost = (value?: string | null): void => {
-    if (!value) {
-      return;
-    }
-    const normalized = normalizeHostname(value);
-    if (!normalized) {
-      return;
-    }
-    protectedDomains.add(normalized);
-    maybeAddCompanionWww(normalized, protectedDomains);
-  };
-
-  addHost(env.BASE_DOMAIN);
-  addHost(env.PREVIEW_BASE_DOMAIN);
-  addHost(hostnameFromUrl(env.DASHBOARD_BASE_URL));
-
-  return protectedDomains;
-};
-
-const buildLegacyProjectDomain = (input: {
-  projectSlug: string;
-  organizationSlug: string;
-  baseDomain: string;
-}): string => {
-  const project = sanitizeDomainLabel(input.projectSlug, 'project');
-  const org = sanitizeDomainLabel(input.organizationSlug, 'org');
-  return `${project}.${org}.${input.baseDomain}`;
-};
-
-const buildUniqueProjectLabel = (projectSlug: string, organizationSlug: string): string => {
-  const projectPart = sanitizeDomainLabel(projectSlug, 'project').slice(0, 28);
-  const orgPart = sanitizeDomainLabel(organizationSlug, 'org').slice(0, 18);
-  const suffix = createHash('sha1')
-    .update(`${projectSlug}:${organizationSlug}`)
-    .digest('hex')
-    .slice(0, 6);
-
-  return sanitizeDomainLabel(`${projectPart}-${orgPart}-${suffix}`, 'project');
-};
-
-const buildUniqueProjectDomain = (input: {
-  projectSlug: string;
-  organizationSlug: string;
-  baseDomain: string;
-}): string => {
-  const label = buildUniqueProjectLabel(input.projectSlug, input.organizationSlug);
-  return `${label}.${input.baseDomain}`;
-};
-
-const resolveProductionRouteAliases = (input: {
-  primaryDomain: string;
-  projectSlug: string;
-  organizationSlug: string;
-  customDomains: string[];
-}): string[] => {
-  const protectedDomains = buildProtectedPlatformDomains();
-  const legacyDomain = buildLegacyProjectDomain({
-    projectSlug: input.projectSlug,
-    organizationSlug: input.organizationSlug,
-    baseDomain: env.BASE_DOMAIN,
-  });
-  const uniqueDomain = buildUniqueProjectDomain({
-    projectSlug: input.projectSlug,
-    organizationSlug: input.organizationSlug,
-    baseDomain: env.BASE_DOMAIN,
-  });
-
-  return Array.from(new Set([legacyDomain, uniqueDomain, ...input.customDomains]))
-    .filter((domain) => domain !== input.primaryDomain)
-    .filter((domain) => !protectedDomains.has(normalizeHostname(domain)));
-};
@@ -69,11 +69,15 @@ const schema = z.object({
   SMTP_FROM_NAME: optionalString.default('Apployd'),
   NGINX_SITES_PATH: z.string().default('/etc/nginx/sites-enabled'),
   NGINX_TEMPLATE_PATH: z.string().optional(),
+  NGINX_REQUEST_LOG_PATH: z.string().default('/var/log/nginx/apployd-requests.log'),
   CERTBOT_EMAIL: z.string().email().optional(),
   ENGINE_REGION: z.string().default('fsn1'),
   ENGINE_METRICS_PORT: z.coerce.number().int().min(1).max(65535).default(9102),
   ENGINE_HEALTHCHECK_TIMEOUT_SECONDS: z.coerce.number().int().min(5).max(300).default(60),
   ENGINE_HEALTHCHECK_DELAY_MS: z.coerce.number().int().min(250).max(5000).default(1000),
+  ENGINE_WORKER_GRACE_SECONDS: z.coerce.number().int().min(1).max(300).default(15),
+  ENGINE_RELEASE_TIMEOUT_SECONDS: z.coerce.number().int().min(10).max(3600).default(900),
+  ENGINE_CANARY_ANALYSIS_INTERVAL_SECONDS: z.coerce.number().int().min(5).max(300).default(15),
   ENGINE_LOCAL_MODE: booleanFromEnv.optional(),
   ENGINE_CONTAINER_READ_ONLY: booleanFromEnv.optional(),
   ENGINE_SECURITY_MODE: z.enum(['off', 'monitor', 'strict', 'lockdown']).optional(),
@@ -86,6 +90,20 @@ const schema = z.object({
   ENGINE_SECURITY_MAX_DISTINCT_REMOTE_PORTS: z.coerce.number().int().min(1).max(1024).default(8),
   ENGINE_SECURITY_MAX_DISTINCT_REMOTE_HOSTS: z.coerce.number().int().min(1).max(10000).default(80),
   ENGINE_SECURITY_MAX_SYN_SENT_CONNECTIONS: z.coerce.number().int().min(1).max(10000).default(30),
+  ENGINE_BUILD_CACHE_MODE: z.enum(['off', 'local', 'registry']).default('local'),
+  ENGINE_BUILD_CACHE_DIR: z.string().default('/var/lib/apployd/build-cache'),
+  ENGINE_BUILD_CACHE_REGISTRY: optionalString,
+  ENGINE_BUILDX_BUILDER: z.string().min(1).default('apployd-builder'),
+  ENGINE_IMAGE_GC_ENABLED: booleanFromEnv.optional(),
+  ENGINE_IMAGE_GC_INTERVAL_MINUTES: z.coerce.number().int().min(5).max(1440).default(30),
+  ENGINE_IMAGE_GC_DEFAULT_RETENTION: z.coerce.number().int().min(1).max(100).default(3),
+  ENGINE_ORPHAN_CONTAINER_GRACE_MINUTES: z.coerce.number().int().min(5).max(1440).default(30),
+  ENGINE_CRON_CONCURRENCY: z.coerce.number().int().min(1).max(32).default(2),
+  ENGINE_VOLUME_DRIVER: z.enum(['loop', 'local']).optional(),
+  ENGINE_VOLUME_DIR: z.string().default('/var/lib/apployd/volumes'),
+  ENGINE_VOLUME_SNAPSHOT_DIR: z.string().default('/var/lib/apployd/volume-snapshots'),
+  ENGINE_VOLUME_HELPER_IMAGE: z.string().min(1).default('alpine:3.20'),
+  ENGINE_VOLUME_USAGE_INTERVAL_MINUTES: z.coerce.number().int().min(1).max(1440).default(15),
   CONTROL_PLANE_INTERNAL_URL: z.string().url().default('http://127.0.0.1:4000'),
   EDGE_WAKE_TOKEN: optionalString,
   EDGE_WAKE_ENABLED: booleanFromEnv.optional(),
@@ -104,6 +122,9 @@ export const env = {
   PREVIEW_BASE_DOMAIN: parsed.PREVIEW_BASE_DOMAIN ?? parsed.BASE_DOMAIN,
   ENGINE_LOCAL_MODE: parsed.ENGINE_LOCAL_MODE ?? parsed.NODE_ENV !== 'production',
   ENGINE_CONTAINER_READ_ONLY: parsed.ENGINE_CONTAINER_READ_ONLY ?? false,
+  ENGINE_VOLUME_DRIVER:
+    parsed.ENGINE_VOLUME_DRIVER ??
+    ((parsed.ENGINE_LOCAL_MODE ?? parsed.NODE_ENV !== 'production') ? 'local' : 'loop'),
   ENGINE_SECURITY_MODE:
     parsed.ENGINE_SECURITY_MODE ?? (parsed.NODE_ENV === 'production' ? 'strict' : 'monitor'),
   ENGINE_SECURITY_AUTO_BLOCK: parsed.ENGINE_SECURITY_AUTO_BLOCK ?? true,
@@ -115,4 +136,5 @@ export const env = {
   ),
   ENGINE_EGRESS_BLOCKED_UDP_PORTS: normalizePorts(parsed.ENGINE_EGRESS_BLOCKED_UDP_PORTS ?? [19, 161]),
   EDGE_WAKE_ENABLED: parsed.EDGE_WAKE_ENABLED ?? true,
+  ENGINE_IMAGE_GC_ENABLED: parsed.ENGINE_IMAGE_GC_ENABLED ?? true,
 };
@@ -0,0 +1,24 @@
+/**
+ * Names of the Docker networks app containers join. Every container is on the
+ * shared `apployd-net`; containers of an organization also join that
+ * organization's internal network, where production containers answer to
+ * `<project-slug>.internal`.
+ */
+export const SHARED_NETWORK = 'apployd-net';
+
+const ORGANIZATION_NETWORK_PREFIX = 'apployd-org-';
+
+export interface PrivateNetworkAttachment {
+  organizationId: string;
+  /** DNS name on the organization network; previews and one-off tasks join without one */
+  hostname?: string;
+}
+
+export const organizationNetworkName = (organizationId: string): string =>
+  `${ORGANIZATION_NETWORK_PREFIX}${organizationId}`;
+
+export const isOrganizationNetwork = (networkName: string): boolean =>
+  networkName.startsWith(ORGANIZATION_NETWORK_PREFIX) &&
+  networkName.length > ORGANIZATION_NETWORK_PREFIX.length;
+
+export const internalHostname = (projectSlug: string): string => `${projectSlug}.internal`;
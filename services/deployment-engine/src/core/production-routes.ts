@@ -0,0 +1,126 @@
+/**
+ * Hostnames a production deployment answers on. Shared by the services that
+ * rewrite an already-live route (canary actions, replica scaling).
+ */
+import { createHash } from 'crypto';
+
+import { env } from './env.js';
+
+const sanitizeDomainLabel = (value: string, fallback: string): string => {
+  const normalized = value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9-]/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  if (!normalized) {
+    return fallback;
+  }
+
+  return normalized.slice(0, 63).replace(/-+$/g, '') || fallback;
+};
+
+const normalizeHostname = (value: string): string =>
+  value.trim().toLowerCase().replace(/\.$/, '');
+
+const hostnameFromUrl = (value: string): string | null => {
+  try {
+    return normalizeHostname(new URL(value).hostname);
+  } catch {
+    return null;
+  }
+};
+
+const maybeAddCompanionWww = (host: string, target: Set<string>): void => {
+  if (!host || host.includes(':')) {
+    return;
+  }
+
+  if (host.startsWith('www.')) {
+    const apex = host.slice(4);
+    if (apex) {
+      target.add(apex);
+    }
+    return;
+  }
+
+  const labels = host.split('.');
+  if (labels.length === 2) {
+    target.add(`www.${host}`);
+  }
+};
+
+const buildProtectedPlatformDomains = (): Set<string> => {
+  const protectedDomains = new Set<string>();
+  const addHost = (value?: string | null): void => {
+    if (!value) {
+      return;
+    }
+    const normalized = normalizeHostname(value);
+    if (!normalized) {
+      return;
+    }
+    protectedDomains.add(normalized);
+    maybeAddCompanionWww(normalized, protectedDomains);
+  };
+
+  addHost(env.BASE_DOMAIN);
+  addHost(env.PREVIEW_BASE_DOMAIN);
+  addHost(hostnameFromUrl(env.DASHBOARD_BASE_URL));
+
+  return protectedDomains;
+};
+
+const buildLegacyProjectDomain = (input: {
+  projectSlug: string;
+  organizationSlug: string;
+  baseDomain: string;
+}): string => {
+  const project = sanitizeDomainLabel(input.projectSlug, 'project');
+  const org = sanitizeDomainLabel(input.organizationSlug, 'org');
+  return `${project}.${org}.${input.baseDomain}`;
+};
+
+const buildUniqueProjectLabel = (projectSlug: string, organizationSlug: string): string => {
+  const projectPart = sanitizeDomainLabel(projectSlug, 'project').slice(0, 28);
+  const orgPart = sanitizeDomainLabel(organizationSlug, 'org').slice(0, 18);
+  const suffix = createHash('sha1')
+    .update(`${projectSlug}:${organizationSlug}`)
+    .digest('hex')
+    .slice(0, 6);
+
+  return sanitizeDomainLabel(`${projectPart}-${orgPart}-${suffix}`, 'project');
+};
+
+export const buildUniqueProjectDomain = (input: {
+  projectSlug: string;
+  organizationSlug: string;
+  baseDomain: string;
+}): string => {
+  const label = buildUniqueProjectLabel(input.projectSlug, input.organizationSlug);
+  return `${label}.${input.baseDomain}`;
+};
+
+export const resolveProductionRouteAliases = (input: {
+  primaryDomain: string;
+  projectSlug: string;
+  organizationSlug: string;
+  customDomains: string[];
+}): string[] => {
+  const protectedDomains = buildProtectedPlatformDomains();
+  const legacyDomain = buildLegacyProjectDomain({
+    projectSlug: input.projectSlug,
+    organizationSlug: input.organizationSlug,
+    baseDomain: env.BASE_DOMAIN,
+  });
+  const uniqueDomain = buildUniqueProjectDomain({
+    projectSlug: input.projectSlug,
+    organizationSlug: input.organizationSlug,
+    baseDomain: env.BASE_DOMAIN,
+  });
+
+  return Array.from(new Set([legacyDomain, uniqueDomain, ...input.customDomains]))
+    .filter((domain) => domain !== input.primaryDomain)
+    .filter((domain) => !protectedDomains.has(normalizeHostname(domain)));
+};
@@ -22,6 +22,11 @@ export interface QueueDeploymentPayload {
    * Required for weighted Nginx upstream when `isCanary` is true.
    */
   stableContainerHostPort?: number;
+  /**
+   * When true, the deployment starts next to the live one and is only routed
+   * on its verification hostname; production traffic moves on a switch.
+   */
+  isBlueGreen?: boolean;
 }
 
 export interface PipelineContext {
@@ -45,3 +50,24 @@ export type CanaryActionPayload =
     deploymentId: string;
     stableDeploymentId: string;
   };
+
+export interface BlueGreenActionPayload {
+  action: 'switch' | 'discard';
+  deploymentId: string;
+}
+
+export interface ReplicaScalePayload {
+  deploymentId: string;
+  projectId: string;
+  fromReplicas: number;
+  toReplicas: number;
+}
+
+export type VolumeActionPayload =
+  | { action: 'create' | 'delete'; volumeId: string }
+  | { action: 'snapshot' | 'restore' | 'delete_snapshot'; volumeId: string; snapshotId: string };
+
+/** `create` and `restart` carry the password for (re)creating the container. */
+export type DatabaseActionPayload =
+  | { action: 'create' | 'restart'; databaseId: string; password: string }
+  | { action: 'resize' | 'delete'; databaseId: string };
@@ -0,0 +1,66 @@
+/** How to run a self-hosted database: everything besides limits and placement. */
+export interface DatabaseContainerSpec {
+  image: string;
+  /** Where the image keeps its data; the database volume is mounted here */
+  dataPath: string;
+  env: Record<string, string>;
+  /** Arguments after the image; empty to keep the image's default command */
+  command: string[];
+}
+
+export interface DatabaseCredentials {
+  username: string;
+  password: string;
+  databaseName: string;
+}
+
+const ENGINE_IMAGES: Record<string, { image: string; dataPath: string }> = {
+  postgres: { image: 'postgres:16-alpine', dataPath: '/var/lib/postgresql/data' },
+  mysql: { image: 'mysql:8.4', dataPath: '/var/lib/mysql' },
+  redis: { image: 'redis:7-alpine', dataPath: '/data' },
+};
+
+export const databaseContainerSpec = (
+  engine: string,
+  credentials: DatabaseCredentials,
+): DatabaseContainerSpec => {
+  const defaults = ENGINE_IMAGES[engine];
+  if (!defaults) {
+    throw new Error(`Unsupported database engine "${engine}"`);
+  }
+  const { image, dataPath } = defaults;
+  switch (engine) {
+    case 'postgres':
+      return {
+        image,
+        dataPath,
+        env: {
+          POSTGRES_USER: credentials.username,
+          POSTGRES_PASSWORD: credentials.password,
+          POSTGRES_DB: credentials.databaseName,
+          // A subdirectory, so initdb never sees a non-empty mount point.
+          PGDATA: `${dataPath}/pgdata`,
+        },
+        command: [],
+      };
+    case 'mysql':
+      return {
+        image,
+        dataPath,
+        env: {
+          MYSQL_USER: credentials.username,
+          MYSQL_PASSWORD: credentials.password,
+          MYSQL_DATABASE: credentials.databaseName,
+          MYSQL_RANDOM_ROOT_PASSWORD: 'yes',
+        },
+        command: [],
+      };
+    default:
+      return {
+        image,
+        dataPath,
+        env: {},
+        command: ['redis-server', '--appendonly', 'yes', '--requirepass', credentials.password],
+      };
+  }
+};
@@ -0,0 +1,239 @@
+import { DockerAdapter } from '../adapters/docker-adapter.js';
+import { prisma } from '../core/prisma.js';
+import { internalHostname } from '../core/private-network.js';
+import type { DatabaseActionPayload } from '../core/types.js';
+
+import { databaseContainerSpec } from './database-container-utils.js';
+
+const databaseSelect = {
+  id: true,
+  organizationId: true,
+  projectId: true,
+  name: true,
+  engine: true,
+  status: true,
+  slug: true,
+  serverId: true,
+  memoryMb: true,
+  cpuMillicores: true,
+  storageGb: true,
+  dockerContainerName: true,
+  dockerVolumeName: true,
+  databaseName: true,
+  roleName: true,
+} as const;
+
+interface SelfHostedDatabaseRow {
+  id: string;
+  organizationId: string;
+  projectId: string | null;
+  name: string;
+  engine: string | null;
+  status: string;
+  slug: string | null;
+  serverId: string | null;
+  memoryMb: number | null;
+  cpuMillicores: number | null;
+  storageGb: number | null;
+  dockerContainerName: string | null;
+  dockerVolumeName: string | null;
+  databaseName: string;
+  roleName: string;
+}
+
+/** What each queued action moves the database out of; anything else means it was superseded. */
+const EXPECTED_STATUS: Record<DatabaseActionPayload['action'], string> = {
+  create: 'provisioning',
+  resize: 'resizing',
+  restart: 'restarting',
+  delete: 'deleting',
+};
+
+const isMissingDockerObject = (error: unknown): boolean =>
+  /no such (container|volume)/i.test((error as Error).message);
+
+/**
+ * Runs Postgres, MySQL and Redis containers for self-hosted managed
+ * databases on this engine's Docker host. The control plane reserves the
+ * capacity and moves the record into a transitional status before queueing;
+ * this service does the Docker work and settles the status.
+ */
+export class SelfHostedDatabaseService {
+  private readonly docker = new DockerAdapter();
+
+  async execute(payload: DatabaseActionPayload): Promise<void> {
+    const database = await prisma.managedDatabase.findUnique({
+      where: { id: payload.databaseId },
+      select: databaseSelect,
+    });
+    if (!database || database.status !== EXPECTED_STATUS[payload.action]) {
+      return;
+    }
+    if (!database.dockerContainerName || !database.dockerVolumeName || !database.slug) {
+      throw new Error('Database record has no container or volume name.');
+    }
+
+    switch (payload.action) {
+      case 'create':
+        await this.createOnHost(database, payload.password);
+        await this.markReady(database, 'provisioning');
+        await this.recordEvent(
+          database,
+          'database_created',
+          `Started ${database.engine} database "${database.name}" at ${internalHostname(database.slug)}`,
+        );
+        return;
+      case 'resize':
+        await this.resize(database);
+        return;
+      case 'restart':
+        await this.restart(database, payload.password);
+        return;
+      case 'delete':
+        await this.deleteFromHost(database);
+        return;
+    }
+  }
+
+  /**
+   * Leaves the database failed with the reason, except a delete, which stays
+   * deleting so it can be retried. A status that moved on meanwhile is kept.
+   */
+  async reportFailure(payload: DatabaseActionPayload, error: unknown): Promise<void> {
+    const errorMessage = (error as Error).message.slice(0, 1000);
+    await prisma.managedDatabase.updateMany({
+      where: { id: payload.databaseId, status: EXPECTED_STATUS[payload.action] },
+      data:
+        payload.action === 'delete'
+          ? { errorMessage: `Delete failed: ${errorMessage}` }
+          : { status: 'failed', errorMessage },
+    });
+  }
+
+  /** Creates the volume if needed and (re)runs the container with the record's credentials. */
+  private async createOnHost(database: SelfHostedDatabaseRow, password: string): Promise<void> {
+    const container = databaseContainerSpec(database.engine ?? '', {
+      username: database.roleName,
+      password,
+      databaseName: database.databaseName,
+    });
+    await this.docker.ensureVolume({
+      dockerVolumeName: database.dockerVolumeName!,
+      sizeGb: database.storageGb!,
+    });
+    await this.docker.runDatabaseContainer({
+      containerName: database.dockerContainerName!,
+      organizationId: database.organizationId,
+      alias: internalHostname(database.slug!),
+      image: container.image,
+      dockerVolumeName: database.dockerVolumeName!,
+      dataPath: container.dataPath,
+      env: container.env,
+      command: container.command,
+      memoryMb: database.memoryMb!,
+      cpuMillicores: database.cpuMillicores!,
+    });
+  }
+
+  /**
+   * Restarts the container, or creates it when it never came up (a failed
+   * create) or was removed by hand. The volume keeps any existing data.
+   */
+  private async restart(database: SelfHostedDatabaseRow, password: string): Promise<void> {
+    let recreated = false;
+    try {
+      await this.docker.restartDatabaseContainer(database.dockerContainerName!);
+    } catch (error) {
+      if (!isMissingDockerObject(error)) {
+        throw error;
+      }
+      await this.createOnHost(database, password);
+      recreated = true;
+    }
+    await this.markReady(database, 'restarting');
+    await this.recordEvent(
+      database,
+      'database_restarted',
+      recreated
+        ? `Recreated the missing container for database "${database.name}"`
+        : `Restarted database "${database.name}"`,
+    );
+  }
+
+  private async resize(database: SelfHostedDatabaseRow): Promise<void> {
+    await this.docker.updateContainerResources(database.dockerContainerName!, {
+      memoryMb: database.memoryMb!,
+      cpuMillicores: database.cpuMillicores!,
+    });
+    await this.docker.growVolume(
+      database.dockerContainerName!,
+      database.dockerVolumeName!,
+      database.storageGb!,
+    );
+    await this.markReady(database, 'resizing');
+    await this.recordEvent(
+      database,
+      'database_resized',
+      `Resized database "${database.name}" to ${database.memoryMb}MB, ${database.cpuMillicores}m CPU, ${database.storageGb}GB`,
+    );
+  }
+
+  /** Removes the container and its data, then returns the capacity and drops the record. */
+  private async deleteFromHost(database: SelfHostedDatabaseRow): Promise<void> {
+    await this.docker.removeContainer(database.dockerContainerName!).catch((error) => {
+      if (!isMissingDockerObject(error)) {
+        throw error;
+      }
+    });
+    await this.docker.removeVolume(database.dockerVolumeName!).catch((error) => {
+      if (!isMissingDockerObject(error)) {
+        throw error;
+      }
+    });
+
+    await prisma.$transaction([
+      ...(database.serverId
+        ? [
+            prisma.server.update({
+              where: { id: database.serverId },
+              data: {
+                reservedRamMb: { decrement: database.memoryMb ?? 0 },
+                reservedCpuMillicores: { decrement: database.cpuMillicores ?? 0 },
+              },
+            }),
+          ]
+        : []),
+      prisma.managedDatabase.delete({ where: { id: database.id } }),
+    ]);
+    await this.recordEvent(database, 'database_deleted', `Deleted database "${database.name}"`);
+  }
+
+  private async markReady(database: SelfHostedDatabaseRow, from: string): Promise<void> {
+    await prisma.managedDatabase.updateMany({
+      where: { id: database.id, status: from },
+      data: { status: 'ready', errorMessage: null },
+    });
+  }
+
+  /** Lifecycle events show in the linked project's logs; standalone databases have none. */
+  private async recordEvent(
+    database: SelfHostedDatabaseRow,
+    type: string,
+    message: string,
+  ): Promise<void> {
+    if (!database.projectId) {
+      return;
+    }
+    await prisma.logEntry
+      .create({
+        data: {
+          projectId: database.projectId,
+          level: 'info',
+          source: 'deployment-engine',
+          message,
+          metadata: { eventType: type, databaseId: database.id },
+        },
+      })
+      .catch(() => undefined);
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Project group rollouts
+ *
+ * Production members of a project group deploy as blue/green idle sides, so
+ * none of them takes traffic while a sibling is still building. The member
+ * that becomes ready last switches the whole group in; a member that fails
+ * has every sibling already waiting discarded, and siblings still rolling out
+ * discard themselves once they are ready. Production therefore runs either
+ * the whole group's new deployments or none of them.
+ */
+import { DeploymentStatus } from '@prisma/client';
+
+import { BlueGreenReleaseService } from '../blue-green/blue-green-release-service.js';
+import { prisma } from '../core/prisma.js';
+import { redis } from '../core/redis.js';
+
+/** Long enough to switch every member of a group, and to switch them back if one fails. */
+const GROUP_SWITCH_HOLD_SECONDS = 15 * 60;
+
+const FAILED_MEMBER_STATUSES: DeploymentStatus[] = [
+  DeploymentStatus.failed,
+  DeploymentStatus.rolled_back,
+];
+
+const memberSelect = {
+  id: true,
+  projectId: true,
+  status: true,
+  project: {
+    select: { name: true, blueGreenDeploymentId: true, blueGreenKeepWarmSeconds: true },
+  },
+} as const;
+
+interface GroupMember {
+  id: string;
+  projectId: string;
+  status: DeploymentStatus;
+  project: { name: string; blueGreenDeploymentId: string | null; blueGreenKeepWarmSeconds: number };
+}
+
+export class ProjectGroupRolloutService {
+  private readonly blueGreen = new BlueGreenReleaseService();
+
+  /**
+   * Called by each production member once it is ready and waiting as its
+   * project's idle side: discards it when a sibling failed, switches the
+   * whole group in when it was the last one outstanding, and otherwise leaves
+   * it waiting for the siblings.
+   */
+  async settle(groupDeploymentId: string): Promise<void> {
+    const members = await this.loadMembers(groupDeploymentId);
+    const failed = members.find((member) => FAILED_MEMBER_STATUSES.includes(member.status));
+    if (failed) {
+      await this.discardWaiting(
+        members,
+        `Group deployment aborted: ${failed.project.name} failed, so this deployment was discarded without taking traffic.`,
+      );
+      return;
+    }
+    if (!members.every((member) => member.status === DeploymentStatus.ready)) {
+      return;
+    }
+
+    // Members on other engines can become ready at the same moment; one of them switches.
+    const claimed = await redis.set(
+      `apployd:group-deployments:${groupDeploymentId}:switch`,
+      '1',
+      'EX',
+      GROUP_SWITCH_HOLD_SECONDS,
+      'NX',
+    );
+    if (!claimed) {
+      return;
+    }
+    await this.switchGroup(groupDeploymentId, members);
+  }
+
+  /** Discards the siblings of a failed member that are ready and still waiting for the group. */
+  async discardWaitingSiblings(groupDeploymentId: string, message: string): Promise<void> {
+    await this.discardWaiting(await this.loadMembers(groupDeploymentId), message);
+  }
+
+  private async loadMembers(groupDeploymentId: string): Promise<GroupMember[]> {
+    return prisma.deployment.findMany({
+      where: { groupDeploymentId },
+      select: memberSelect,
+    });
+  }
+
+  private async discardWaiting(members: GroupMember[], message: string): Promise<void> {
+    for (const member of members) {
+      if (
+        member.status !== DeploymentStatus.ready ||
+        member.project.blueGreenDeploymentId !== member.id
+      ) {
+        continue;
+      }
+      const discarded = await this.blueGreen.retireIdle(member.projectId, 'discarded', member.id);
+      if (discarded) {
+        await this.recordEvent(member, 'group_discarded', message);
+      }
+    }
+  }
+
+  /**
+   * Switches every member in. The deployments they replace are held warm until
+   * the last switch succeeded; if one fails, the members already switched are
+   * switched back and the whole group is discarded.
+   */
+  private async switchGroup(groupDeploymentId: string, members: GroupMember[]): Promise<void> {
+    const switched: Array<{ member: GroupMember; previousDeploymentId: string | null }> = [];
+    try {
+      for (const member of members) {
+        const previousDeploymentId = await this.blueGreen.switchTo(member.id, {
+          holdPreviousSeconds: GROUP_SWITCH_HOLD_SECONDS,
+        });
+        switched.push({ member, previousDeploymentId });
+      }
+    } catch (error) {
+      const message = `Group deployment aborted: switching production failed: ${(error as Error).message}`;
+      for (const { member, previousDeploymentId } of switched.reverse()) {
+        if (!previousDeploymentId) {
+          // A first deployment has nothing to return to and stays live.
+          continue;
+        }
+        try {
+          await this.blueGreen.switchTo(previousDeploymentId);
+          await this.blueGreen.retireIdle(member.projectId, 'discarded', member.id);
+          await prisma.deployment.update({
+            where: { id: member.id },
+            data: { status: DeploymentStatus.rolled_back },
+          });
+          await this.recordEvent(member, 'group_switched_back', message);
+        } catch (switchBackError) {
+          console.error('Failed to switch project group member back', member.id, switchBackError);
+        }
+      }
+      await this.discardWaiting(await this.loadMembers(groupDeploymentId), message);
+      return;
+    }
+
+    // The whole group is live: replaced deployments now follow their project's keep-warm window.
+    for (const { member, previousDeploymentId } of switched) {
+      if (!previousDeploymentId) {
+        continue;
+      }
+      const keepWarmSeconds = member.project.blueGreenKeepWarmSeconds;
+      if (keepWarmSeconds === 0) {
+        await this.blueGreen.retireIdle(member.projectId, 'expired', previousDeploymentId);
+      } else {
+        await prisma.project.updateMany({
+          where: { id: member.projectId, blueGreenDeploymentId: previousDeploymentId },
+          data: { blueGreenIdleUntil: new Date(Date.now() + keepWarmSeconds * 1000) },
+        });
+      }
+    }
+  }
+
+  private async recordEvent(member: GroupMember, type: string, message: string): Promise<void> {
+    await prisma.logEntry
+      .create({
+        data: {
+          projectId: member.projectId,
+          deploymentId: member.id,
+          level: 'error',
+          source: 'deployment-engine',
+          message,
+          metadata: { eventType: type },
+        },
+      })
+      .catch(() => undefined);
+  }
+}
@@ -4,12 +4,25 @@ import { env } from './core/env.js';
 import { prisma } from './core/prisma.js';
 import { redis } from './core/redis.js';
 import { DockerAdapter } from './adapters/docker-adapter.js';
-import { startActiveContainerRecoveryLoop } from './monitoring/container-recovery.js';
+import { startBlueGreenExpiryLoop } from './blue-green/blue-green-release-service.js';
+import { startCanaryAnalysisLoop } from './canary/canary-analysis.js';
+import {
+  startActiveContainerRecoveryLoop,
+  startLivenessProbeLoop,
+} from './monitoring/container-recovery.js';
+import { startImageGarbageCollector } from './monitoring/image-gc.js';
 import { metricsRegistry } from './monitoring/metrics.js';
 import { startStatsCollector } from './monitoring/stats-collector.js';
+import { startVolumeUsageCollector } from './monitoring/volume-usage.js';
+import { BlueGreenActionConsumer } from './queue/blue-green-action-consumer.js';
+import { BuildCachePurgeSubscriber } from './queue/build-cache-purge-subscriber.js';
 import { CanaryActionConsumer } from './queue/canary-action-consumer.js';
 import { ContainerActionConsumer } from './queue/container-action-consumer.js';
+import { CronRunConsumer } from './queue/cron-run-consumer.js';
+import { DatabaseActionConsumer } from './queue/database-action-consumer.js';
 import { DeployQueueConsumer } from './queue/deploy-consumer.js';
+import { ReplicaScaleConsumer } from './queue/replica-scale-consumer.js';
+import { VolumeActionConsumer } from './queue/volume-action-consumer.js';
 
 const heartbeatKey = `apployd:engine:heartbeat:${env.ENGINE_REGION}:${process.pid}`;
 
@@ -64,6 +77,11 @@ const start = async () => {
   const consumer = new DeployQueueConsumer();
   const containerActionConsumer = new ContainerActionConsumer();
   const canaryActionConsumer = new CanaryActionConsumer();
+  const blueGreenActionConsumer = new BlueGreenActionConsumer();
+  const cronRunConsumer = new CronRunConsumer();
+  const replicaScaleConsumer = new ReplicaScaleConsumer();
+  const volumeActionConsumer = new VolumeActionConsumer();
+  const databaseActionConsumer = new DatabaseActionConsumer();
   const docker = new DockerAdapter();
 
   await docker.enforcePoliciesForRunningContainers().catch((error) => {
@@ -75,6 +93,14 @@ const start = async () => {
 
   startStatsCollector();
   startActiveContainerRecoveryLoop();
+  startLivenessProbeLoop();
+  startImageGarbageCollector();
+  startVolumeUsageCollector();
+  startCanaryAnalysisLoop();
+  startBlueGreenExpiryLoop();
+  await new BuildCachePurgeSubscriber().start().catch((error) => {
+    console.error('Failed to subscribe to build cache purges', error);
+  });
   console.log(`Deployment engine started in region ${env.ENGINE_REGION}`);
 
   const heartbeatInterval = setInterval(() => {
@@ -84,7 +110,16 @@ const start = async () => {
   }, 5_000);
   heartbeatInterval.unref();
 
-  await Promise.all([consumer.run(), containerActionConsumer.run(), canaryActionConsumer.run()]);
+  await Promise.all([
+    consumer.run(),
+    containerActionConsumer.run(),
+    canaryActionConsumer.run(),
+    blueGreenActionConsumer.run(),
+    cronRunConsumer.run(),
+    replicaScaleConsumer.run(),
+    volumeActionConsumer.run(),
+    databaseActionConsumer.run(),
+  ]);
 };
 
 start().catch(async (error) => {
@@ -1,16 +1,29 @@
 import { ContainerStatus, DeploymentStatus, SleepStatus, type Prisma } from '@prisma/client';
 
-import { DockerAdapter } from '../adapters/docker-adapter.js';
+import { DockerAdapter, deploymentContainerName } from '../adapters/docker-adapter.js';
 import { env } from '../core/env.js';
 import { prisma } from '../core/prisma.js';
+import { internalHostname, type PrivateNetworkAttachment } from '../core/private-network.js';
 import { SecurityIncidentService } from '../security/security-incident-service.js';
+import { ProjectVolumeService } from '../volumes/project-volume-service.js';
+
+import {
+  evaluateHttpProbeResponse,
+  resolveHttpProbeConfig,
+  type HttpProbeConfig,
+} from './probe-utils.js';
 
 const INITIAL_DELAY_MS = 10_000;
 const RECOVERY_INTERVAL_MS = 60_000;
+const LIVENESS_TICK_MS = 5_000;
 const securityIncidentService = new SecurityIncidentService();
+const projectVolumes = new ProjectVolumeService();
 
 interface RecoveryTarget {
   deploymentId: string;
+  probe: HttpProbeConfig | null;
+  /** Workers publish no port; they are healthy while the container keeps running. */
+  isWorker: boolean;
   container: {
     id: string;
     dockerContainerId: string;
@@ -19,7 +32,33 @@ interface RecoveryTarget {
     projectId: string;
     status: ContainerStatus;
     sleepStatus: SleepStatus;
+    startedAt: Date | null;
+    imageTag: string;
+    replicaIndex: number;
   };
+  resources: { memoryMb: number; cpuMillicores: number };
+  privateNetwork: PrivateNetworkAttachment;
+  /** Running replicas of the same deployment; a failed replica is rebuilt from one of them. */
+  siblingDockerContainerIds: string[];
+}
+
+const recoveryContainerSelect = {
+  id: true,
+  dockerContainerId: true,
+  hostPort: true,
+  internalPort: true,
+  projectId: true,
+  status: true,
+  sleepStatus: true,
+  startedAt: true,
+  imageTag: true,
+  replicaIndex: true,
+} as const;
+
+interface LivenessState {
+  dockerContainerId: string;
+  failures: number;
+  nextProbeAt: number;
 }
 
 interface RecoverySummary {
@@ -31,25 +70,37 @@ interface RecoverySummary {
   failures: number;
 }
 
-const loadRecoveryTargets = async (): Promise<RecoveryTarget[]> => {
+const loadRecoveryTargets = async (
+  options: { probedOnly?: boolean } = {},
+): Promise<RecoveryTarget[]> => {
   const projects = await prisma.project.findMany({
     where: {
       activeDeploymentId: { not: null },
+      // A snapshot restore stops the project's containers on purpose.
+      volumes: { none: { status: 'restoring' } },
+      ...(options.probedOnly ? { healthCheckPath: { not: null } } : {}),
     },
     select: {
+      slug: true,
+      organizationId: true,
+      serviceType: true,
+      healthCheckPath: true,
+      healthCheckStatusMin: true,
+      healthCheckStatusMax: true,
+      healthCheckBodyMatch: true,
+      healthCheckInitialDelaySeconds: true,
+      healthCheckPeriodSeconds: true,
+      healthCheckFailureThreshold: true,
+      resourceRamMb: true,
+      resourceCpuMillicore: true,
       activeDeployment: {
         select: {
           id: true,
-          container: {
-            select: {
-              id: true,
-              dockerContainerId: true,
-              hostPort: true,
-              internalPort: true,
-              projectId: true,
-              status: true,
-              sleepStatus: true,
-            },
+          container: { select: recoveryContainerSelect },
+          replicas: {
+            where: { status: { not: ContainerStatus.stopped } },
+            orderBy: { replicaIndex: 'asc' },
+            select: recoveryContainerSelect,
           },
         },
       },
@@ -57,16 +108,44 @@ const loadRecoveryTargets = async (): Promise<RecoveryTarget[]> => {
     take: 5000,
   });
 
-  return projects
-    .map((project) => project.activeDeployment)
-    .filter(
-      (deployment): deployment is NonNullable<typeof deployment> =>
-        Boolean(deployment && deployment.container),
-    )
-    .map((deployment) => ({
-      deploymentId: deployment.id,
-      container: deployment.container!,
-    }));
+  return projects.flatMap(
+    ({
+      activeDeployment,
+      slug,
+      organizationId,
+      serviceType,
+      resourceRamMb,
+      resourceCpuMillicore,
+      ...probeSettings
+    }) => {
+      if (!activeDeployment?.container) {
+        return [];
+      }
+
+      // Deployments from before replicas existed have no replica rows.
+      const containers = activeDeployment.replicas.some(
+        (replica) => replica.id === activeDeployment.container!.id,
+      )
+        ? activeDeployment.replicas
+        : [activeDeployment.container, ...activeDeployment.replicas];
+      const isWorker = serviceType === 'worker';
+      const probe = isWorker ? null : resolveHttpProbeConfig(probeSettings);
+
+      return containers.map((container) => ({
+        deploymentId: activeDeployment.id,
+        probe,
+        isWorker,
+        container,
+        resources: { memoryMb: resourceRamMb, cpuMillicores: resourceCpuMillicore },
+        privateNetwork: { organizationId, hostname: internalHostname(slug) },
+        siblingDockerContainerIds: containers
+          .filter(
+            (sibling) => sibling.id !== container.id && sibling.status === ContainerStatus.running,
+          )
+          .map((sibling) => sibling.dockerContainerId),
+      }));
+    },
+  );
 };
 
 const recordRecoveryLog = async (
@@ -113,6 +192,101 @@ const markContainerCrashed = async (
   return false;
 };
 
+const checkTargetHealth = (
+  docker: DockerAdapter,
+  target: RecoveryTarget,
+  dockerContainerId: string,
+): Promise<boolean> =>
+  target.isWorker
+    ? docker.waitForStableRun(dockerContainerId, env.ENGINE_WORKER_GRACE_SECONDS)
+    : docker.healthCheck(
+        target.container.hostPort,
+        target.container.internalPort,
+        dockerContainerId,
+        undefined,
+        target.probe,
+      );
+
+/**
+ * Replaces a replica that cannot be restarted with a fresh container on the
+ * same host port, so the nginx upstream stays valid. The environment is copied
+ * from a running sibling because the engine cannot decrypt project secrets.
+ * Returns false when there is no healthy sibling or the replacement fails.
+ */
+const replaceFailedReplica = async (
+  docker: DockerAdapter,
+  target: RecoveryTarget,
+  reason: string,
+): Promise<boolean> => {
+  let containerEnv: Record<string, string> | null = null;
+  for (const siblingId of target.siblingDockerContainerIds) {
+    containerEnv = await docker.inspectContainerEnv(siblingId);
+    if (containerEnv) {
+      break;
+    }
+  }
+  if (!containerEnv) {
+    return false;
+  }
+
+  await docker.removeContainer(target.container.dockerContainerId).catch(() => undefined);
+  await docker
+    .removeContainer(deploymentContainerName(target.deploymentId, target.container.replicaIndex))
+    .catch(() => undefined);
+
+  let dockerContainerId: string;
+  try {
+    ({ dockerContainerId } = await docker.runContainer({
+      imageTag: target.container.imageTag,
+      port: target.container.internalPort,
+      env: containerEnv,
+      memoryMb: target.resources.memoryMb,
+      cpuMillicores: target.resources.cpuMillicores,
+      deploymentId: target.deploymentId,
+      replicaIndex: target.container.replicaIndex,
+      hostPort: target.container.hostPort,
+      volumes: await projectVolumes.listMounts(target.container.projectId),
+      publishPort: !target.isWorker,
+      privateNetwork: target.privateNetwork,
+    }));
+  } catch (error) {
+    console.warn(
+      `Container recovery: replacing replica ${target.container.id} failed: ${(error as Error).message}`,
+    );
+    return false;
+  }
+
+  const healthy = await checkTargetHealth(docker, target, dockerContainerId);
+  if (!healthy) {
+    await docker.removeContainer(dockerContainerId).catch(() => undefined);
+    return false;
+  }
+
+  await prisma.container.updateMany({
+    where: { id: target.container.id },
+    data: {
+      dockerContainerId,
+      status: ContainerStatus.running,
+      sleepStatus: SleepStatus.awake,
+      startedAt: new Date(),
+      stoppedAt: null,
+      lastRequestAt: new Date(),
+    },
+  });
+  await recordRecoveryLog(
+    target,
+    'warn',
+    `Replaced failed replica ${target.container.replicaIndex + 1} with a new container`,
+    {
+      reason,
+      replicaIndex: target.container.replicaIndex,
+      previousDockerContainerId: target.container.dockerContainerId,
+      dockerContainerId,
+    },
+  );
+  return true;
+};
+
 const recoverActiveContainersOnce = async (): Promise<RecoverySummary> => {
   const docker = new DockerAdapter();
   const targets = await loadRecoveryTargets();
@@ -183,6 +357,10 @@ const recoverActiveContainersOnce = async (): Promise<RecoverySummary> => {
 
     const runtime = await docker.getContainerRuntimeState(target.container.dockerContainerId);
     if (!runtime) {
+      if (await replaceFailedReplica(docker, target, 'container_missing')) {
+        summary.restarted += 1;
+        continue;
+      }
       const marked = await markContainerCrashed(
         target,
         'Active container missing from Docker runtime',
@@ -301,11 +479,7 @@ const recoverActiveContainersOnce = async (): Promise<RecoverySummary> => {
 
     try {
       await docker.startContainer(target.container.dockerContainerId);
-      const healthy = await docker.healthCheck(
-        target.container.hostPort,
-        target.container.internalPort,
-        target.container.dockerContainerId,
-      );
+      const healthy = await checkTargetHealth(docker, target, target.container.dockerContainerId);
 
       if (healthy) {
         await prisma.container.updateMany({
@@ -324,6 +498,8 @@ const recoverActiveContainersOnce = async (): Promise<RecoverySummary> => {
           restartCount: runtime.restartCount,
           oomKilled: runtime.oomKilled,
         });
+      } else if (await replaceFailedReplica(docker, target, 'restart_health_check_failed')) {
+        summary.restarted += 1;
       } else {
         const marked = await markContainerCrashed(
           target,
@@ -341,6 +517,10 @@ const recoverActiveContainersOnce = async (): Promise<RecoverySummary> => {
         summary.failures += 1;
       }
     } catch (error) {
+      if (await replaceFailedReplica(docker, target, 'restart_failed')) {
+        summary.restarted += 1;
+        continue;
+      }
       const marked = await markContainerCrashed(
         target,
         'Container restart failed during automatic recovery',
@@ -362,6 +542,141 @@ const recoverActiveContainersOnce = async (): Promise<RecoverySummary> => {
   return summary;
 };
 
+/**
+ * Probes running containers whose project has an HTTP probe configured. Each
+ * container is probed every `periodSeconds` once its initial delay has passed;
+ * after `failureThreshold` consecutive failures it is restarted.
+ */
+const runLivenessProbesOnce = async (
+  docker: DockerAdapter,
+  states: Map<string, LivenessState>,
+): Promise<{ probed: number; restarted: number }> => {
+  const targets = await loadRecoveryTargets({ probedOnly: true });
+  const seen = new Set<string>();
+  let probed = 0;
+  let restarted = 0;
+
+  for (const target of targets) {
+    const probe = target.probe;
+    const container = target.container;
+    if (
+      !probe ||
+      container.status !== ContainerStatus.running ||
+      container.sleepStatus !== SleepStatus.awake
+    ) {
+      continue;
+    }
+    seen.add(container.id);
+
+    let state = states.get(container.id);
+    if (!state || state.dockerContainerId !== container.dockerContainerId) {
+      const startedAt = container.startedAt?.getTime() ?? Date.now();
+      state = {
+        dockerContainerId: container.dockerContainerId,
+        failures: 0,
+        nextProbeAt: startedAt + probe.initialDelaySeconds * 1000,
+      };
+      states.set(container.id, state);
+    }
+    if (Date.now() < state.nextProbeAt) {
+      continue;
+    }
+
+    probed += 1;
+    const response = await docker.probeHttp(
+      {
+        hostPort: container.hostPort,
+        containerPort: container.internalPort,
+        containerId: container.dockerContainerId,
+      },
+      probe.path,
+    );
+    const failure = response
+      ? evaluateHttpProbeResponse(probe, response)
+      : `no response from ${probe.path}`;
+    state.nextProbeAt = Date.now() + probe.periodSeconds * 1000;
+
+    if (!failure) {
+      state.failures = 0;
+      continue;
+    }
+
+    state.failures += 1;
+    if (state.failures < probe.failureThreshold) {
+      continue;
+    }
+
+    const metadata = {
+      reason: 'liveness_probe_failed',
+      probePath: probe.path,
+      failures: state.failures,
+      lastFailure: failure,
+    };
+    await recordRecoveryLog(
+      target,
+      'warn',
+      `Liveness probe failed ${state.failures} times in a row (${failure}); restarting container`,
+      metadata,
+    );
+
+    try {
+      await docker.restartContainer(container.dockerContainerId);
+      await prisma.container.updateMany({
+        where: { id: container.id },
+        data: { startedAt: new Date() },
+      });
+      state.failures = 0;
+      state.nextProbeAt = Date.now() + (probe.initialDelaySeconds + probe.periodSeconds) * 1000;
+      restarted += 1;
+    } catch (error) {
+      states.delete(container.id);
+      if (await replaceFailedReplica(docker, target, 'liveness_probe_failed')) {
+        restarted += 1;
+        continue;
+      }
+      await markContainerCrashed(target, 'Container restart after failed liveness probe failed', {
+        ...metadata,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  for (const containerId of states.keys()) {
+    if (!seen.has(containerId)) {
+      states.delete(containerId);
+    }
+  }
+
+  return { probed, restarted };
+};
+
+export const startLivenessProbeLoop = (): void => {
+  const docker = new DockerAdapter();
+  const states = new Map<string, LivenessState>();
+  let running = false;
+
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    runLivenessProbesOnce(docker, states)
+      .then((summary) => {
+        if (summary.restarted > 0) {
+          console.log(`Liveness probes: probed=${summary.probed}, restarted=${summary.restarted}`);
+        }
+      })
+      .catch((error) => {
+        console.error('Liveness probe cycle failed', error);
+      })
+      .finally(() => {
+        running = false;
+      });
+  }, LIVENESS_TICK_MS);
+  timer.unref();
+};
+
 export const startActiveContainerRecoveryLoop = (): void => {
   let running = false;
 
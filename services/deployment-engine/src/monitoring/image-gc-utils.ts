@@ -0,0 +1,117 @@
+import { parseByteSizeToBytes } from './stats-utils.js';
+
+export interface LocalDeploymentImage {
+  imageTag: string;
+  imageId: string;
+  deploymentId: string;
+}
+
+export interface LocalDeploymentContainer {
+  dockerContainerId: string;
+  name: string;
+  deploymentId: string;
+  state: string;
+  createdAt: Date;
+  sizeBytes: number;
+}
+
+export interface RetentionDeployment {
+  imageTag: string | null;
+  status: string;
+  environment: string;
+  createdAt: Date;
+}
+
+export interface ProjectRetentionInput {
+  retention: number;
+  /** Image tags that must survive regardless of age (active, canary, in-flight, running containers). */
+  protectedImageTags: Iterable<string>;
+  deployments: RetentionDeployment[];
+}
+
+const DEPLOYMENT_IMAGE_PATTERN = /^apployd\/(c[a-z0-9]{20,32}):latest$/;
+const DEPLOYMENT_CONTAINER_PATTERN = /^apployd-(c[a-z0-9]{20,32})(?:-r\d+)?$/;
+const ROLLBACK_STATUSES = new Set(['ready', 'rolled_back']);
+
+/** Parses `docker image ls --format '{{.Repository}}:{{.Tag}}|{{.ID}}'` output. */
+export function parseDeploymentImageList(stdout: string): LocalDeploymentImage[] {
+  return stdout
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .flatMap((line) => {
+      const [imageTag = '', imageId = ''] = line.split('|');
+      const match = imageTag.match(DEPLOYMENT_IMAGE_PATTERN);
+      if (!match?.[1] || !imageId) {
+        return [];
+      }
+      return [{ imageTag, imageId, deploymentId: match[1] }];
+    });
+}
+
+/**
+ * Parses `docker ps -a --no-trunc --size --format '{{.ID}}|{{.Names}}|{{.State}}|{{.CreatedAt}}|{{.Size}}'`.
+ * Only deployment containers (`apployd-<deploymentId>`, with a `-r<n>` suffix for extra
+ * replicas) are returned; dev containers and platform services use other names and are never
+ * collected.
+ */
+export function parseDeploymentContainerList(stdout: string): LocalDeploymentContainer[] {
+  return stdout
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .flatMap((line) => {
+      const [id = '', name = '', state = '', createdAtRaw = '', sizeRaw = ''] = line.split('|');
+      const match = name.match(DEPLOYMENT_CONTAINER_PATTERN);
+      if (!match?.[1] || !id) {
+        return [];
+      }
+
+      // "2026-04-08 09:00:00 +0000 UTC" -> drop the trailing zone name Date cannot parse.
+      const createdAt = new Date(createdAtRaw.replace(/\s+[A-Z]{2,5}$/, ''));
+      // "12.3kB (virtual 512MB)" -> writable layer only
+      const writable = sizeRaw.split('(')[0]?.trim() ?? '';
+
+      return [
+        {
+          dockerContainerId: id,
+          name,
+          deploymentId: match[1],
+          state,
+          createdAt: Number.isNaN(createdAt.getTime()) ? new Date(0) : createdAt,
+          sizeBytes: parseByteSizeToBytes(writable),
+        },
+      ];
+    });
+}
+
+/**
+ * Image tags a project keeps: everything protected plus the newest `retention`
+ * production images that `/deployments/:id/rollback` can target. Rollbacks reuse
+ * the original tag, so distinct tags are counted rather than deployments.
+ */
+export function selectRetainedImageTags(input: ProjectRetentionInput): Set<string> {
+  const retained = new Set(input.protectedImageTags);
+  const rollbackTags: string[] = [];
+
+  [...input.deployments]
+    .filter(
+      (deployment) =>
+        deployment.imageTag &&
+        deployment.environment === 'production' &&
+        ROLLBACK_STATUSES.has(deployment.status),
+    )
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .forEach((deployment) => {
+      const tag = deployment.imageTag!;
+      if (!rollbackTags.includes(tag)) {
+        rollbackTags.push(tag);
+      }
+    });
+
+  for (const tag of rollbackTags.slice(0, Math.max(0, input.retention))) {
+    retained.add(tag);
+  }
+
+  return retained;
+}
@@ -0,0 +1,351 @@
+/**
+ * Image & Container Garbage Collector
+ *
+ * Every deployment builds `apployd/<deploymentId>:latest` and promotes or
+ * rollbacks leave stopped `apployd-<deploymentId>` containers behind. This loop
+ * keeps the newest ready images per project (count comes from the
+ * organization's plan) and removes everything else, plus containers that no
+ * longer have a matching `Container` row, and project volumes whose
+ * `ProjectVolume` row is gone (deleted together with their project).
+ */
+import { ContainerStatus, DeploymentStatus } from '@prisma/client';
+
+import { DockerAdapter } from '../adapters/docker-adapter.js';
+import { env } from '../core/env.js';
+import { prisma } from '../core/prisma.js';
+import { gcReclaimedBytesCounter, gcRemovedCounter } from './metrics.js';
+import {
+  parseDeploymentContainerList,
+  parseDeploymentImageList,
+  selectRetainedImageTags,
+  type LocalDeploymentContainer,
+  type LocalDeploymentImage,
+} from './image-gc-utils.js';
+
+const INITIAL_DELAY_MS = 2 * 60_000;
+const IN_FLIGHT_STATUSES: DeploymentStatus[] = [
+  DeploymentStatus.queued,
+  DeploymentStatus.building,
+  DeploymentStatus.deploying,
+];
+const LIVE_CONTAINER_STATUSES: ContainerStatus[] = [
+  ContainerStatus.pending,
+  ContainerStatus.running,
+  ContainerStatus.sleeping,
+];
+
+const docker = new DockerAdapter();
+
+export interface ImageGcSummary {
+  imagesScanned: number;
+  imagesRemoved: number;
+  containersRemoved: number;
+  volumesRemoved: number;
+  reclaimedBytes: number;
+  failures: number;
+}
+
+const collectContainers = async (
+  containers: LocalDeploymentContainer[],
+  summary: ImageGcSummary,
+): Promise<Set<string>> => {
+  const remaining = new Set(containers.map((container) => container.dockerContainerId));
+  if (containers.length === 0) {
+    return remaining;
+  }
+
+  const rows = await prisma.container.findMany({
+    where: {
+      dockerContainerId: { in: containers.map((container) => container.dockerContainerId) },
+    },
+    select: {
+      dockerContainerId: true,
+      status: true,
+      deployments: {
+        select: {
+          activeForProject: { select: { id: true } },
+          canaryForProject: { select: { id: true } },
+        },
+      },
+    },
+  });
+  const rowsByDockerId = new Map(rows.map((row) => [row.dockerContainerId, row]));
+  const orphanCutoffMs = Date.now() - env.ENGINE_ORPHAN_CONTAINER_GRACE_MINUTES * 60_000;
+
+  for (const container of containers) {
+    const row = rowsByDockerId.get(container.dockerContainerId);
+    const isOrphan = !row && container.createdAt.getTime() < orphanCutoffMs;
+    const isLeftover =
+      row?.status === ContainerStatus.stopped &&
+      container.state !== 'running' &&
+      !row.deployments.some(
+        (deployment) => deployment.activeForProject || deployment.canaryForProject,
+      );
+
+    if (!isOrphan && !isLeftover) {
+      continue;
+    }
+
+    try {
+      await docker.removeContainer(container.dockerContainerId);
+      remaining.delete(container.dockerContainerId);
+      summary.containersRemoved += 1;
+      summary.reclaimedBytes += container.sizeBytes;
+      gcRemovedCounter.inc({ kind: 'container' });
+      gcReclaimedBytesCounter.inc({ kind: 'container' }, container.sizeBytes);
+    } catch (error) {
+      summary.failures += 1;
+      console.error(`Image GC: failed to remove container ${container.name}`, error);
+    }
+  }
+
+  return remaining;
+};
+
+const collectOrphanVolumes = async (summary: ImageGcSummary): Promise<void> => {
+  const names = await docker.listProjectVolumeNames();
+  if (names.length === 0) {
+    return;
+  }
+
+  // Self-hosted databases keep their data in the same labelled volumes.
+  const [rows, databaseRows] = await Promise.all([
+    prisma.projectVolume.findMany({
+      where: { dockerVolumeName: { in: names } },
+      select: { dockerVolumeName: true },
+    }),
+    prisma.managedDatabase.findMany({
+      where: { dockerVolumeName: { in: names } },
+      select: { dockerVolumeName: true },
+    }),
+  ]);
+  const known = new Set([
+    ...rows.map((row) => row.dockerVolumeName),
+    ...databaseRows.map((row) => row.dockerVolumeName),
+  ]);
+
+  for (const name of names.filter((candidate) => !known.has(candidate))) {
+    try {
+      await docker.removeStoppedContainersUsingVolume(name);
+      await docker.removeVolume(name);
+      summary.volumesRemoved += 1;
+      gcRemovedCounter.inc({ kind: 'volume' });
+    } catch (error) {
+      summary.failures += 1;
+      console.error(`Image GC: failed to remove orphaned volume ${name}`, error);
+    }
+  }
+};
+
+const loadProjectRetention = async (projectId: string) => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      activeDeployment: { select: { imageTag: true } },
+      canaryDeployment: { select: { imageTag: true } },
+      organization: {
+        select: {
+          subscriptions: {
+            where: { status: { in: ['active', 'trialing'] } },
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+            select: { plan: { select: { imageRetentionCount: true } } },
+          },
+        },
+      },
+      deployments: {
+        where: { imageTag: { not: null } },
+        select: { imageTag: true, status: true, environment: true, createdAt: true },
+      },
+      containers: {
+        where: { status: { in: LIVE_CONTAINER_STATUSES } },
+        select: { imageTag: true },
+      },
+    },
+  });
+
+  if (!project) {
+    return null;
+  }
+
+  const protectedImageTags = [
+    project.activeDeployment?.imageTag,
+    project.canaryDeployment?.imageTag,
+    ...project.containers.map((container) => container.imageTag),
+    ...project.deployments
+      .filter((deployment) => IN_FLIGHT_STATUSES.includes(deployment.status))
+      .map((deployment) => deployment.imageTag),
+  ].filter((tag): tag is string => Boolean(tag));
+
+  return selectRetainedImageTags({
+    retention:
+      project.organization.subscriptions[0]?.plan.imageRetentionCount ??
+      env.ENGINE_IMAGE_GC_DEFAULT_RETENTION,
+    protectedImageTags,
+    deployments: project.deployments,
+  });
+};
+
+const collectImages = async (
+  images: LocalDeploymentImage[],
+  imagesInUse: Set<string>,
+  summary: ImageGcSummary,
+): Promise<void> => {
+  const deployments = await prisma.deployment.findMany({
+    where: { id: { in: images.map((image) => image.deploymentId) } },
+    select: { id: true, projectId: true, status: true },
+  });
+  const projectByDeployment = new Map(
+    deployments.map((deployment) => [deployment.id, deployment.projectId]),
+  );
+  // A freshly built image exists before the pipeline stores its imageTag.
+  const buildingDeploymentIds = new Set(
+    deployments
+      .filter((deployment) => IN_FLIGHT_STATUSES.includes(deployment.status))
+      .map((deployment) => deployment.id),
+  );
+
+  const imagesByProject = new Map<string | null, LocalDeploymentImage[]>();
+  for (const image of images) {
+    if (buildingDeploymentIds.has(image.deploymentId)) {
+      continue;
+    }
+    const projectId = projectByDeployment.get(image.deploymentId) ?? null;
+    imagesByProject.set(projectId, [...(imagesByProject.get(projectId) ?? []), image]);
+  }
+
+  for (const [projectId, projectImages] of imagesByProject) {
+    // Images whose deployment (or whole project) was deleted have nothing left to roll back to.
+    const retained = projectId ? await loadProjectRetention(projectId) : new Set<string>();
+    const removable = projectImages.filter(
+      (image) => !retained?.has(image.imageTag) && !imagesInUse.has(image.imageTag),
+    );
+    if (removable.length === 0) {
+      continue;
+    }
+
+    const removedTags: string[] = [];
+    let reclaimedBytes = 0;
+    for (const image of removable) {
+      const sizeBytes = await docker.getImageSizeBytes(image.imageTag);
+      try {
+        await docker.removeImage(image.imageTag);
+        removedTags.push(image.imageTag);
+        reclaimedBytes += sizeBytes;
+        gcRemovedCounter.inc({ kind: 'image' });
+        gcReclaimedBytesCounter.inc({ kind: 'image' }, sizeBytes);
+      } catch (error) {
+        summary.failures += 1;
+        console.error(`Image GC: failed to remove image ${image.imageTag}`, error);
+      }
+    }
+
+    if (removedTags.length === 0) {
+      continue;
+    }
+
+    summary.imagesRemoved += removedTags.length;
+    summary.reclaimedBytes += reclaimedBytes;
+
+    // Rollback checks imageTag first, so clearing it turns a doomed rollback into a clear 400.
+    await prisma.deployment.updateMany({
+      where: { imageTag: { in: removedTags } },
+      data: { imageTag: null },
+    });
+
+    if (projectId) {
+      await prisma.logEntry.create({
+        data: {
+          projectId,
+          level: 'info',
+          source: 'deployment-engine',
+          message: `Removed ${removedTags.length} old deployment image(s), reclaimed ${Math.round(reclaimedBytes / 1024 / 1024)} MB`,
+          metadata: {
+            eventType: 'image_gc',
+            removedImageTags: removedTags,
+            reclaimedBytes,
+          },
+        },
+      });
+    }
+  }
+};
+
+export const collectImageGarbageOnce = async (): Promise<ImageGcSummary> => {
+  const summary: ImageGcSummary = {
+    imagesScanned: 0,
+    imagesRemoved: 0,
+    containersRemoved: 0,
+    volumesRemoved: 0,
+    reclaimedBytes: 0,
+    failures: 0,
+  };
+
+  const containers = parseDeploymentContainerList(await docker.listDeploymentContainers());
+  const remainingContainerIds = await collectContainers(containers, summary);
+  await collectOrphanVolumes(summary);
+
+  // `docker rmi` refuses images that still back a container; skip them instead of counting failures.
+  const imagesInUse = new Set(
+    containers
+      .filter((container) => remainingContainerIds.has(container.dockerContainerId))
+      .map((container) => `apployd/${container.deploymentId}:latest`),
+  );
+  const inUseRows = await prisma.container.findMany({
+    where: { dockerContainerId: { in: [...remainingContainerIds] } },
+    select: { imageTag: true },
+  });
+  inUseRows.forEach((row) => imagesInUse.add(row.imageTag));
+
+  const images = parseDeploymentImageList(await docker.listDeploymentImages());
+  summary.imagesScanned = images.length;
+  if (images.length > 0) {
+    await collectImages(images, imagesInUse, summary);
+  }
+
+  return summary;
+};
+
+export function startImageGarbageCollector(): void {
+  if (!env.ENGINE_IMAGE_GC_ENABLED) {
+    console.log('Image GC disabled (ENGINE_IMAGE_GC_ENABLED=false)');
+    return;
+  }
+
+  let running = false;
+
+  const runCycle = async (source: 'initial' | 'interval') => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    try {
+      const summary = await collectImageGarbageOnce();
+      if (
+        summary.imagesRemoved > 0 ||
+        summary.containersRemoved > 0 ||
+        summary.volumesRemoved > 0 ||
+        summary.failures > 0
+      ) {
+        console.log(
+          `Image GC (${source}): scanned=${summary.imagesScanned}, images=${summary.imagesRemoved}, containers=${summary.containersRemoved}, volumes=${summary.volumesRemoved}, reclaimedBytes=${summary.reclaimedBytes}, failures=${summary.failures}`,
+        );
+      }
+    } catch (error) {
+      console.error(`Image GC (${source}) failed`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const initialTimer = setTimeout(() => {
+    void runCycle('initial');
+  }, INITIAL_DELAY_MS);
+  initialTimer.unref();
+
+  const timer = setInterval(() => {
+    void runCycle('interval');
+  }, env.ENGINE_IMAGE_GC_INTERVAL_MINUTES * 60_000);
+  timer.unref();
+}
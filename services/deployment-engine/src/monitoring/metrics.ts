@@ -14,4 +14,22 @@ export const deploymentDurationHistogram = new client.Histogram({
   buckets: [1, 3, 5, 10, 20, 30, 60, 120],
 });
 
+export const buildCacheStepsCounter = new client.Counter({
+  name: 'apployd_engine_build_cache_steps_total',
+  help: 'Dockerfile build steps by project build cache result',
+  labelNames: ['result'],
+});
+
+export const gcRemovedCounter = new client.Counter({
+  name: 'apployd_engine_gc_removed_total',
+  help: 'Deployment images and containers removed by garbage collection',
+  labelNames: ['kind'],
+});
+
+export const gcReclaimedBytesCounter = new client.Counter({
+  name: 'apployd_engine_gc_reclaimed_bytes_total',
+  help: 'Disk space reclaimed by garbage collection in bytes',
+  labelNames: ['kind'],
+});
+
 export const metricsRegistry = client.register;
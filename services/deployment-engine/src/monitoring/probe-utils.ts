@@ -0,0 +1,85 @@
+export interface HttpProbeConfig {
+  path: string;
+  statusMin: number;
+  statusMax: number;
+  bodyMatch: string | null;
+  initialDelaySeconds: number;
+  periodSeconds: number;
+  failureThreshold: number;
+}
+
+export interface HttpProbeResponse {
+  status: number;
+  body: string;
+}
+
+export interface ProjectProbeSettings {
+  healthCheckPath: string | null;
+  healthCheckStatusMin: number;
+  healthCheckStatusMax: number;
+  healthCheckBodyMatch: string | null;
+  healthCheckInitialDelaySeconds: number;
+  healthCheckPeriodSeconds: number;
+  healthCheckFailureThreshold: number;
+}
+
+/** Bodies beyond this are cut before matching; probes should hit small endpoints. */
+export const MAX_PROBE_BODY_BYTES = 64 * 1024;
+
+export const PROBE_STATUS_MARKER = '__APPLOYD_PROBE_STATUS__';
+
+/**
+ * Probe settings for a project, or null when no path is configured and the
+ * legacy "anything answers" readiness check applies.
+ */
+export function resolveHttpProbeConfig(project: ProjectProbeSettings): HttpProbeConfig | null {
+  const path = project.healthCheckPath?.trim();
+  if (!path) {
+    return null;
+  }
+
+  return {
+    path: path.startsWith('/') ? path : `/${path}`,
+    statusMin: project.healthCheckStatusMin,
+    statusMax: project.healthCheckStatusMax,
+    bodyMatch: project.healthCheckBodyMatch?.length ? project.healthCheckBodyMatch : null,
+    initialDelaySeconds: Math.max(0, project.healthCheckInitialDelaySeconds),
+    periodSeconds: Math.max(1, project.healthCheckPeriodSeconds),
+    failureThreshold: Math.max(1, project.healthCheckFailureThreshold),
+  };
+}
+
+/**
+ * Splits `curl -w '\n<marker>%{http_code}'` output into the response body and
+ * status. Returns null when curl never got a response (status 000).
+ */
+export function parseCurlProbeOutput(stdout: string): HttpProbeResponse | null {
+  const markerIndex = stdout.lastIndexOf(PROBE_STATUS_MARKER);
+  if (markerIndex < 0) {
+    return null;
+  }
+
+  const status = Number.parseInt(stdout.slice(markerIndex + PROBE_STATUS_MARKER.length).trim(), 10);
+  if (!Number.isFinite(status) || status <= 0) {
+    return null;
+  }
+
+  const body = stdout.slice(0, markerIndex).replace(/\n$/, '');
+  return { status, body: body.slice(0, MAX_PROBE_BODY_BYTES) };
+}
+
+/** Returns why the response fails the probe, or null when it passes. */
+export function evaluateHttpProbeResponse(
+  config: HttpProbeConfig,
+  response: HttpProbeResponse,
+): string | null {
+  if (response.status < config.statusMin || response.status > config.statusMax) {
+    return `HTTP ${response.status} from ${config.path} (expected ${config.statusMin}-${config.statusMax})`;
+  }
+
+  if (config.bodyMatch && !response.body.includes(config.bodyMatch)) {
+    return `response from ${config.path} does not contain "${config.bodyMatch}"`;
+  }
+
+  return null;
+}
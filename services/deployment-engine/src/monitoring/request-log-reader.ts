@@ -0,0 +1,72 @@
+import { open, stat } from 'fs/promises';
+
+import { env } from '../core/env.js';
+import { splitLogChunk } from './request-log-utils.js';
+
+/** Older backlog is skipped; readers only need to reflect recent traffic. */
+const MAX_REQUEST_LOG_BYTES_PER_READ = 16 * 1024 * 1024;
+const MAX_REQUEST_LOG_REMAINDER_CHARS = 4096;
+
+/**
+ * Follows the nginx `apployd_requests` log. Each reader keeps its own offset,
+ * so several loops can consume the same log independently.
+ */
+export class RequestLogReader {
+  private position: { inode: number; offset: number; remainder: string } | null = null;
+
+  constructor(private readonly path = env.NGINX_REQUEST_LOG_PATH) {}
+
+  /**
+   * Returns the lines appended since the previous call. The first call only
+   * records the current end so a restarted engine does not count old traffic
+   * again; a new inode or a shorter file means the log was rotated and is read
+   * from the start.
+   */
+  async readNewLines(): Promise<string[]> {
+    let size: number;
+    let inode: number;
+    try {
+      const info = await stat(this.path);
+      size = info.size;
+      inode = info.ino;
+    } catch {
+      return [];
+    }
+
+    if (!this.position) {
+      this.position = { inode, offset: size, remainder: '' };
+      return [];
+    }
+    if (this.position.inode !== inode || size < this.position.offset) {
+      this.position = { inode, offset: 0, remainder: '' };
+    }
+    if (size === this.position.offset) {
+      return [];
+    }
+
+    let start = this.position.offset;
+    const skipped = size - start > MAX_REQUEST_LOG_BYTES_PER_READ;
+    if (skipped) {
+      start = size - MAX_REQUEST_LOG_BYTES_PER_READ;
+      this.position.remainder = '';
+    }
+
+    const handle = await open(this.path, 'r');
+    try {
+      const buffer = Buffer.alloc(size - start);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+      this.position.offset = start + bytesRead;
+
+      let chunk = buffer.subarray(0, bytesRead).toString('utf8');
+      if (skipped) {
+        // Reading from the middle of the file: drop the partial first line.
+        chunk = chunk.slice(chunk.indexOf('\n') + 1);
+      }
+      const { lines, remainder } = splitLogChunk(this.position.remainder, chunk);
+      this.position.remainder = remainder.slice(-MAX_REQUEST_LOG_REMAINDER_CHARS);
+      return lines;
+    } finally {
+      await handle.close();
+    }
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Parsing for the nginx `apployd_requests` access log:
+ *   log_format apployd_requests '$msec $host $status $request_time $upstream_addr';
+ */
+export interface RequestLogEntry {
+  timestampMs: number;
+  host: string;
+  status: number;
+  requestTimeMs: number;
+  /** Port of the upstream that answered; null when nginx answered itself. */
+  upstreamPort: number | null;
+}
+
+const parseUpstreamPort = (rawUpstream: string): number | null => {
+  // Retries log every attempt ("a:1, b:2" or "a:1 : b:2"); the last one served the response.
+  const attempts = rawUpstream.split(/\s*[,:]\s+/);
+  const last = attempts[attempts.length - 1]?.trim() ?? '';
+  const match = last.match(/:(\d{1,5})$/);
+  if (!match) {
+    return null;
+  }
+  const port = Number.parseInt(match[1]!, 10);
+  return port > 0 && port <= 65535 ? port : null;
+};
+
+export function parseRequestLogLine(line: string): RequestLogEntry | null {
+  const parts = line.trim().split(' ');
+  if (parts.length < 5) {
+    return null;
+  }
+
+  const [rawMsec, host, rawStatus, rawRequestTime] = parts;
+  const timestampSeconds = Number.parseFloat(rawMsec!);
+  const status = Number.parseInt(rawStatus!, 10);
+  const requestTimeSeconds = Number.parseFloat(rawRequestTime!);
+  if (!Number.isFinite(timestampSeconds) || !Number.isFinite(status) || !host) {
+    return null;
+  }
+
+  return {
+    timestampMs: Math.round(timestampSeconds * 1000),
+    host,
+    status,
+    requestTimeMs: Number.isFinite(requestTimeSeconds) ? Math.round(requestTimeSeconds * 1000) : 0,
+    upstreamPort: parseUpstreamPort(parts.slice(4).join(' ')),
+  };
+}
+
+/**
+ * Splits a chunk read from the log into complete lines. The trailing partial
+ * line is returned as `remainder` so the next read can finish it.
+ */
+export function splitLogChunk(
+  previousRemainder: string,
+  chunk: string,
+): {
+  lines: string[];
+  remainder: string;
+} {
+  const combined = previousRemainder + chunk;
+  const lastNewline = combined.lastIndexOf('\n');
+  if (lastNewline < 0) {
+    return { lines: [], remainder: combined };
+  }
+
+  return {
+    lines: combined
+      .slice(0, lastNewline)
+      .split('\n')
+      .filter((line) => line.length > 0),
+    remainder: combined.slice(lastNewline + 1),
+  };
+}
+
+/** Requests per upstream port, skipping lines nginx answered without a container. */
+export function countRequestsByUpstreamPort(lines: string[]): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const line of lines) {
+    const entry = parseRequestLogLine(line);
+    if (!entry || entry.upstreamPort === null) {
+      continue;
+    }
+    counts.set(entry.upstreamPort, (counts.get(entry.upstreamPort) ?? 0) + 1);
+  }
+  return counts;
+}
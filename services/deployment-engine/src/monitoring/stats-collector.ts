@@ -3,12 +3,16 @@
  *
  * Periodically polls `docker stats` for all running Apployd containers,
  * then writes UsageRecord rows (CPU, RAM, Bandwidth) to the database.
+ * Request counts come from the nginx `apployd_requests` log, attributed to
+ * containers through the upstream host port.
  *
  * Runs as a background loop inside the deployment engine.
  */
 import { exec } from 'child_process';
 
 import { prisma } from '../core/prisma.js';
+import { RequestLogReader } from './request-log-reader.js';
+import { countRequestsByUpstreamPort } from './request-log-utils.js';
 import {
   parseDockerStatsOutput,
   resolveIntervalSeconds,
@@ -103,6 +107,7 @@ async function resolveContainerOwnership(dockerContainerId: string): Promise<Con
 const prevNetBytes = new Map<string, { rx: number; tx: number }>();
 const ownershipCache = new Map<string, OwnershipCacheEntry>();
 let lastCollectionStartedAtMs: number | null = null;
+const requestLog = new RequestLogReader();
 
 function pruneMapToMaxEntries<T>(map: Map<string, T>, maxEntries: number): void {
   if (map.size <= maxEntries) {
@@ -132,6 +137,32 @@ async function resolveContainerOwnershipCached(
   return value;
 }
 
+/**
+ * Maps upstream host ports to the owners of containers running on this engine.
+ * Host ports are only unique per server, so containers elsewhere are ignored.
+ */
+async function resolveRequestOwnership(
+  ports: number[],
+  ownershipByContainerId: Map<string, ContainerOwnership | null>,
+): Promise<Map<number, ContainerOwnership>> {
+  const byPort = new Map<number, ContainerOwnership>();
+  if (ports.length === 0) {
+    return byPort;
+  }
+
+  const containers = await prisma.container.findMany({
+    where: { status: 'running', hostPort: { in: ports } },
+    select: { dockerContainerId: true, hostPort: true },
+  });
+  for (const container of containers) {
+    const ownership = ownershipByContainerId.get(container.dockerContainerId.slice(0, 12));
+    if (ownership) {
+      byPort.set(container.hostPort, ownership);
+    }
+  }
+  return byPort;
+}
+
 /**
  * One collection cycle: snapshot docker stats -> write UsageRecord rows.
  */
@@ -144,7 +175,13 @@ async function collectOnce(): Promise<number> {
   );
   lastCollectionStartedAtMs = cycleStartedAtMs;
 
-  const stats = await collectDockerStats();
+  const [stats, requestLines] = await Promise.all([
+    collectDockerStats(),
+    requestLog.readNewLines().catch((error) => {
+      console.error('Stats collector: failed to read nginx request log', error);
+      return [] as string[];
+    }),
+  ]);
   if (stats.length === 0) {
     return 0;
   }
@@ -163,7 +200,7 @@ async function collectOnce(): Promise<number> {
     organizationId: string;
     subscriptionId: string;
     projectId: string;
-    metricType: 'cpu_millicore_seconds' | 'ram_mb_seconds' | 'bandwidth_bytes';
+    metricType: 'cpu_millicore_seconds' | 'ram_mb_seconds' | 'bandwidth_bytes' | 'request_count';
     quantity: bigint;
     unit: string;
     recordedAt: Date;
@@ -222,6 +259,23 @@ async function collectOnce(): Promise<number> {
     });
   }
 
+  const requestCounts = countRequestsByUpstreamPort(requestLines);
+  const requestOwnership = await resolveRequestOwnership(
+    [...requestCounts.keys()],
+    ownershipByContainerId,
+  );
+  for (const [port, count] of requestCounts) {
+    const ownership = requestOwnership.get(port);
+    if (!ownership) continue;
+    records.push({
+      ...ownership,
+      metricType: 'request_count',
+      quantity: BigInt(count),
+      unit: 'requests',
+      recordedAt: now,
+    });
+  }
+
   if (records.length > 0) {
     await prisma.usageRecord.createMany({ data: records });
   }
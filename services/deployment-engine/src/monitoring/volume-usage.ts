@@ -0,0 +1,137 @@
+/**
+ * Volume usage metering
+ *
+ * Measures how much of each project volume on this host is in use, stores it
+ * on the volume for the API, and bills it as `volume_mb_seconds`: the measured
+ * size held for the time since the previous measurement.
+ */
+import { DockerAdapter } from '../adapters/docker-adapter.js';
+import { env } from '../core/env.js';
+import { prisma } from '../core/prisma.js';
+
+const INITIAL_DELAY_MS = 60_000;
+const BYTES_PER_MB = 1024 * 1024;
+
+const docker = new DockerAdapter();
+
+export interface VolumeUsageSummary {
+  measured: number;
+  usageRecords: number;
+  failures: number;
+}
+
+export const collectVolumeUsageOnce = async (now = new Date()): Promise<VolumeUsageSummary> => {
+  const summary: VolumeUsageSummary = { measured: 0, usageRecords: 0, failures: 0 };
+  const intervalSeconds = env.ENGINE_VOLUME_USAGE_INTERVAL_MINUTES * 60;
+
+  // Only volumes that exist on this host; helper containers would silently create missing ones.
+  const localNames = new Set(await docker.listProjectVolumeNames());
+  if (localNames.size === 0) {
+    return summary;
+  }
+
+  const volumes = await prisma.projectVolume.findMany({
+    where: { dockerVolumeName: { in: [...localNames] }, status: 'ready' },
+    select: {
+      id: true,
+      projectId: true,
+      dockerVolumeName: true,
+      usageMeasuredAt: true,
+      project: {
+        select: {
+          organizationId: true,
+          organization: {
+            select: {
+              subscriptions: {
+                where: { status: { in: ['active', 'trialing'] } },
+                orderBy: { createdAt: 'desc' },
+                take: 1,
+                select: { id: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  for (const volume of volumes) {
+    let usedBytes: number;
+    try {
+      usedBytes = await docker.measureVolumeBytes(volume.dockerVolumeName);
+    } catch (error) {
+      summary.failures += 1;
+      console.warn(`Volume usage: failed to measure ${volume.dockerVolumeName}`, error);
+      continue;
+    }
+    summary.measured += 1;
+
+    // Missed cycles (engine restarts) are capped so one sample never bills a long gap.
+    const elapsedSeconds = volume.usageMeasuredAt
+      ? Math.min(intervalSeconds * 2, (now.getTime() - volume.usageMeasuredAt.getTime()) / 1000)
+      : intervalSeconds;
+    const mbSeconds = Math.round((usedBytes / BYTES_PER_MB) * Math.max(0, elapsedSeconds));
+    const subscription = volume.project.organization.subscriptions[0];
+
+    await prisma.$transaction([
+      prisma.projectVolume.update({
+        where: { id: volume.id },
+        data: { usedBytes: BigInt(usedBytes), usageMeasuredAt: now },
+      }),
+      ...(subscription && mbSeconds > 0
+        ? [
+            prisma.usageRecord.create({
+              data: {
+                organizationId: volume.project.organizationId,
+                subscriptionId: subscription.id,
+                projectId: volume.projectId,
+                metricType: 'volume_mb_seconds',
+                quantity: BigInt(mbSeconds),
+                unit: 'mb_seconds',
+                recordedAt: now,
+              },
+            }),
+          ]
+        : []),
+    ]);
+    if (subscription && mbSeconds > 0) {
+      summary.usageRecords += 1;
+    }
+  }
+
+  return summary;
+};
+
+export function startVolumeUsageCollector(): void {
+  let running = false;
+
+  const runCycle = async (source: 'initial' | 'interval') => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    try {
+      const summary = await collectVolumeUsageOnce();
+      if (summary.failures > 0) {
+        console.log(
+          `Volume usage (${source}): measured=${summary.measured}, records=${summary.usageRecords}, failures=${summary.failures}`,
+        );
+      }
+    } catch (error) {
+      console.error(`Volume usage (${source}) failed`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const initialTimer = setTimeout(() => {
+    void runCycle('initial');
+  }, INITIAL_DELAY_MS);
+  initialTimer.unref();
+
+  const timer = setInterval(() => {
+    void runCycle('interval');
+  }, env.ENGINE_VOLUME_USAGE_INTERVAL_MINUTES * 60_000);
+  timer.unref();
+}
@@ -0,0 +1,124 @@
+import type { PullRequestContext } from '@apployd/shared';
+
+import { env } from '../core/env.js';
+import { prisma } from '../core/prisma.js';
+
+type PreviewStatus = 'building' | 'ready' | 'failed' | 'canceled';
+
+interface PreviewReportInput {
+  deploymentId: string;
+  projectId: string;
+  projectName: string;
+  pullRequest: PullRequestContext;
+  /** Project owner's GitHub token, forwarded by the control plane as `gitAuthToken`. */
+  accessToken?: string | undefined;
+  status: PreviewStatus;
+  domain?: string | null;
+  errorMessage?: string | null;
+}
+
+const STATUS_LABELS: Record<PreviewStatus, string> = {
+  building: 'Building',
+  ready: 'Ready',
+  failed: 'Failed',
+  canceled: 'Canceled',
+};
+
+/**
+ * Mirrors pull request preview progress to the preview comment the control
+ * plane created when the PR opened. The commit status comes from
+ * GitHubStatusReporter like for any other deployment.
+ */
+export class GitHubPreviewNotifier {
+  async report(input: PreviewReportInput): Promise<void> {
+    if (!input.accessToken) {
+      return;
+    }
+
+    const [owner, repo] = input.pullRequest.repoFullName.split('/');
+    if (!owner || !repo) {
+      return;
+    }
+
+    const repoApiUrl = `https://api.github.com/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    const dashboardUrl = new URL(
+      `/projects/${input.projectId}/deployments/${input.deploymentId}`,
+      env.DASHBOARD_BASE_URL,
+    ).toString();
+    const publicUrl = input.domain ? `https://${input.domain}` : null;
+
+    const preview = await prisma.pullRequestPreview.findUnique({
+      where: {
+        projectId_number: { projectId: input.projectId, number: input.pullRequest.number },
+      },
+      select: { id: true, status: true, commentId: true, lastDeploymentId: true },
+    });
+    // A newer push or the PR closing owns the comment now.
+    if (!preview || preview.status !== 'open' || preview.lastDeploymentId !== input.deploymentId) {
+      return;
+    }
+
+    const body = [
+      `<!-- apployd-preview:${input.projectId} -->`,
+      `**Apployd preview for ${input.projectName}**`,
+      '',
+      '| Status | Preview | Commit | Details |',
+      '| --- | --- | --- | --- |',
+      `| ${STATUS_LABELS[input.status]} | ${publicUrl ?? '-'} | \`${input.pullRequest.headSha.slice(0, 7)}\` | [Deployment](${dashboardUrl}) |`,
+      ...(input.status === 'failed' && input.errorMessage
+        ? ['', `> ${input.errorMessage.split('\n')[0]?.slice(0, 300)}`]
+        : []),
+    ].join('\n');
+
+    if (preview.commentId) {
+      const updated = await this.request(
+        input.accessToken,
+        `${repoApiUrl}/issues/comments/${preview.commentId}`,
+        { method: 'PATCH', body: JSON.stringify({ body }) },
+        { allowNotFound: true },
+      );
+      if (updated.status !== 404) {
+        return;
+      }
+    }
+
+    const created = await this.request(
+      input.accessToken,
+      `${repoApiUrl}/issues/${input.pullRequest.number}/comments`,
+      { method: 'POST', body: JSON.stringify({ body }) },
+    );
+    const comment = (await created.json()) as { id?: number };
+    if (comment.id) {
+      await prisma.pullRequestPreview.update({
+        where: { id: preview.id },
+        data: { commentId: String(comment.id) },
+      });
+    }
+  }
+
+  private async request(
+    accessToken: string,
+    url: string,
+    init: RequestInit,
+    options: { allowNotFound?: boolean } = {},
+  ): Promise<Response> {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'apployd-deployment-engine',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+      signal: AbortSignal.timeout(10_000),
+    });
+
+    if (response.ok || (options.allowNotFound && response.status === 404)) {
+      return response;
+    }
+
+    const detail = await response.text().catch(() => '');
+    throw new Error(`GitHub API request failed (${response.status})${detail ? `: ${detail}` : ''}`);
+  }
+}
@@ -0,0 +1,125 @@
+import type { GitHubStatusTarget } from '@apployd/shared';
+
+import { env } from '../core/env.js';
+import {
+  describeGitHubStatus,
+  formatLogTailMarkdown,
+  type GitHubDeploymentStatus,
+} from './github-status-utils.js';
+
+interface GitHubStatusReportInput {
+  target: GitHubStatusTarget;
+  deploymentId: string;
+  projectId: string;
+  /** Commit being deployed; commit statuses are skipped until it is known. */
+  commitSha: string;
+  status: GitHubDeploymentStatus;
+  publicUrl?: string | null;
+  errorMessage?: string | null;
+  /** Most recent build log lines, included in the check run output on failure. */
+  logTail?: string[];
+}
+
+/**
+ * Mirrors deployment status transitions to GitHub. Updates the check run the
+ * control plane opened when the deployment was queued, or posts commit
+ * statuses under the same context when the token cannot manage check runs.
+ */
+export class GitHubStatusReporter {
+  async report(input: GitHubStatusReportInput): Promise<void> {
+    const [owner, repo] = input.target.repoFullName.split('/');
+    if (!owner || !repo) {
+      return;
+    }
+
+    const repoApiUrl = `https://api.github.com/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    const dashboardUrl = new URL(
+      `/projects/${input.projectId}/deployments/${input.deploymentId}`,
+      env.DASHBOARD_BASE_URL,
+    ).toString();
+    const presentation = describeGitHubStatus(input.status, {
+      ...(input.publicUrl !== undefined && { publicUrl: input.publicUrl }),
+      ...(input.errorMessage !== undefined && { errorMessage: input.errorMessage }),
+    });
+
+    if (input.target.checkRunId) {
+      const summary = [
+        presentation.description,
+        '',
+        ...(input.publicUrl && input.status === 'ready' ? [`Live at ${input.publicUrl}`, ''] : []),
+        `[Open the deployment in Apployd](${dashboardUrl})`,
+      ].join('\n');
+      const text =
+        input.status === 'failed'
+          ? [
+              ...(input.errorMessage ? [`**Error:** ${input.errorMessage}`, ''] : []),
+              formatLogTailMarkdown(input.logTail ?? []),
+            ]
+              .join('\n')
+              .trim()
+          : '';
+
+      await this.request(
+        input.target.accessToken,
+        `${repoApiUrl}/check-runs/${input.target.checkRunId}`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify({
+            status: presentation.checkStatus,
+            ...(input.status === 'building' && { started_at: new Date().toISOString() }),
+            ...(presentation.conclusion && {
+              conclusion: presentation.conclusion,
+              completed_at: new Date().toISOString(),
+            }),
+            details_url: dashboardUrl,
+            output: {
+              title: presentation.title,
+              summary,
+              ...(text && { text }),
+            },
+          }),
+        },
+      );
+      return;
+    }
+
+    if (!input.commitSha) {
+      return;
+    }
+
+    await this.request(
+      input.target.accessToken,
+      `${repoApiUrl}/statuses/${encodeURIComponent(input.commitSha)}`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          state: presentation.commitState,
+          context: input.target.context,
+          description: presentation.description,
+          target_url: dashboardUrl,
+        }),
+      },
+    );
+  }
+
+  private async request(accessToken: string, url: string, init: RequestInit): Promise<void> {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'apployd-deployment-engine',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+      signal: AbortSignal.timeout(10_000),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(
+        `GitHub API request failed (${response.status})${detail ? `: ${detail}` : ''}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,112 @@
+export type GitHubDeploymentStatus = 'building' | 'deploying' | 'ready' | 'failed' | 'canceled';
+
+/** Build log lines kept in memory for the failure report. */
+export const BUILD_LOG_TAIL_LINES = 40;
+
+// GitHub caps check run output text at 65535 characters.
+const MAX_CHECK_OUTPUT_TEXT = 60_000;
+
+const ANSI_ESCAPE_PATTERN = /\u001b\[[0-9;]*[A-Za-z]/g;
+
+export interface GitHubStatusPresentation {
+  commitState: 'pending' | 'success' | 'failure' | 'error';
+  checkStatus: 'in_progress' | 'completed';
+  conclusion?: 'success' | 'failure' | 'cancelled';
+  title: string;
+  /** Short text for commit status descriptions (GitHub allows 140 characters). */
+  description: string;
+}
+
+/** Appends build output to a bounded tail, one entry per line. */
+export const appendLogTail = (
+  tail: string[],
+  output: string,
+  limit = BUILD_LOG_TAIL_LINES,
+): void => {
+  for (const line of output.replace(ANSI_ESCAPE_PATTERN, '').split(/\r?\n/)) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+    tail.push(line);
+  }
+  if (tail.length > limit) {
+    tail.splice(0, tail.length - limit);
+  }
+};
+
+export const describeGitHubStatus = (
+  status: GitHubDeploymentStatus,
+  details: { publicUrl?: string | null; errorMessage?: string | null } = {},
+): GitHubStatusPresentation => {
+  switch (status) {
+    case 'building':
+      return {
+        commitState: 'pending',
+        checkStatus: 'in_progress',
+        title: 'Building image',
+        description: 'Building image',
+      };
+    case 'deploying':
+      return {
+        commitState: 'pending',
+        checkStatus: 'in_progress',
+        title: 'Starting container',
+        description: 'Starting container and running health checks',
+      };
+    case 'ready':
+      return {
+        commitState: 'success',
+        checkStatus: 'completed',
+        conclusion: 'success',
+        title: 'Deployment ready',
+        description: (details.publicUrl
+          ? `Deployment ready at ${details.publicUrl}`
+          : 'Deployment ready'
+        ).slice(0, 140),
+      };
+    case 'failed': {
+      const reason = details.errorMessage?.split('\n')[0]?.trim();
+      return {
+        commitState: 'failure',
+        checkStatus: 'completed',
+        conclusion: 'failure',
+        title: 'Deployment failed',
+        description: (reason ? `Deployment failed: ${reason}` : 'Deployment failed').slice(0, 140),
+      };
+    }
+    case 'canceled': {
+      // Commit statuses have no canceled state; "error" keeps it apart from build failures.
+      const reason = details.errorMessage?.split('\n')[0]?.trim();
+      return {
+        commitState: 'error',
+        checkStatus: 'completed',
+        conclusion: 'cancelled',
+        title: 'Deployment canceled',
+        description: (reason || 'Deployment canceled').slice(0, 140),
+      };
+    }
+  }
+};
+
+/** Renders the log tail as a fenced block that survives backticks in the logs. */
+export const formatLogTailMarkdown = (lines: string[]): string => {
+  if (lines.length === 0) {
+    return '';
+  }
+
+  let body = lines.join('\n');
+  if (body.length > MAX_CHECK_OUTPUT_TEXT) {
+    body = body.slice(body.length - MAX_CHECK_OUTPUT_TEXT);
+    body = body.slice(body.indexOf('\n') + 1);
+  }
+
+  const longestBacktickRun = Math.max(0, ...(body.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(Math.max(3, longestBacktickRun + 1));
+  return [
+    `Last ${body.split('\n').length} lines of the build log:`,
+    '',
+    `${fence}text`,
+    body,
+    fence,
+  ].join('\n');
+};
@@ -2,16 +2,28 @@ import { ContainerStatus, DeploymentStatus, SleepStatus } from '@prisma/client';
 import { createHash } from 'crypto';
 
 import { CloudflareAdapter } from '../adapters/cloudflare-adapter.js';
-import { DockerAdapter } from '../adapters/docker-adapter.js';
-import { NginxAdapter } from '../adapters/nginx-adapter.js';
+import {
+  DRAIN_EVENT_TYPES,
+  DockerAdapter,
+  describeDrainProgress,
+} from '../adapters/docker-adapter.js';
+import { NginxAdapter, weightedUpstreamServers } from '../adapters/nginx-adapter.js';
 import { SslAdapter } from '../adapters/ssl-adapter.js';
+import { BlueGreenReleaseService } from '../blue-green/blue-green-release-service.js';
 import { env } from '../core/env.js';
 import { prisma } from '../core/prisma.js';
+import { internalHostname } from '../core/private-network.js';
 import { redis } from '../core/redis.js';
 import { withRetry } from '../core/retry.js';
 import { resolveDnsTargetIpv4 } from '../core/server-ip.js';
+import { ProjectGroupRolloutService } from '../groups/project-group-rollout-service.js';
+import { resolveHttpProbeConfig } from '../monitoring/probe-utils.js';
 import { DeploymentEmailNotifier } from '../notifications/deployment-email-notifier.js';
+import { GitHubPreviewNotifier } from '../notifications/github-preview-notifier.js';
+import { GitHubStatusReporter } from '../notifications/github-status-reporter.js';
+import { appendLogTail, type GitHubDeploymentStatus } from '../notifications/github-status-utils.js';
 import type { QueueDeploymentPayload } from '../core/types.js';
+import { ProjectVolumeService } from '../volumes/project-volume-service.js';
 
 const CANCEL_MESSAGE_FRAGMENT = 'canceled by user';
 
@@ -23,6 +35,40 @@ const isInProgressDeploymentStatus = (status: DeploymentStatus): boolean =>
 const isReachableHttpStatus = (status: string): boolean =>
   status !== '000' && status !== '502' && status !== '503' && status !== '504';
 
+/**
+ * Build log lines describing which settings were taken from the repository's
+ * apployd.json / apployd.toml rather than the project settings.
+ */
+const describeBuildConfigSource = (request: QueueDeploymentPayload['request']): string[] => {
+  const source = request.buildConfig;
+  if (!source) {
+    return [];
+  }
+
+  const at = source.commitSha ? ` @ ${source.commitSha.slice(0, 12)}` : '';
+  if (source.keys.length === 0) {
+    return [`Build config: ${source.path}${at} found, but no values were applied from it`];
+  }
+
+  return [
+    `Build config: ${source.path}${at} overrides ${source.keys.join(', ')}`,
+    ...source.keys.map((key) => `  ${key} = ${String(request[key] ?? '')} (from ${source.path})`),
+  ];
+};
+
+/** Server reservation a deployment holds: RAM and CPU per replica, bandwidth once per project. */
+const replicaReservation = (
+  project: { resourceRamMb: number; resourceCpuMillicore: number; resourceBandwidthGb: number },
+  replicaCount: number,
+) => {
+  const replicas = Math.max(1, Math.floor(replicaCount));
+  return {
+    reservedRamMb: project.resourceRamMb * replicas,
+    reservedCpuMillicores: project.resourceCpuMillicore * replicas,
+    reservedBandwidthGb: project.resourceBandwidthGb,
+  };
+};
+
 class DeploymentCanceledError extends Error {
   constructor(message = 'Deployment canceled by user.') {
     super(message);
@@ -44,6 +90,16 @@ export class DeploymentPipeline {
 
   private readonly emailNotifier = new DeploymentEmailNotifier();
 
+  private readonly previewNotifier = new GitHubPreviewNotifier();
+
+  private readonly statusReporter = new GitHubStatusReporter();
+
+  private readonly volumes = new ProjectVolumeService();
+
+  private readonly blueGreen = new BlueGreenReleaseService();
+
+  private readonly groupRollouts = new ProjectGroupRolloutService();
+
   async execute(payload: QueueDeploymentPayload): Promise<void> {
     const deployment = await prisma.deployment.findUnique({
       where: { id: payload.deploymentId },
@@ -83,8 +139,17 @@ export class DeploymentPipeline {
     }
 
     const isPreview = payload.environment === 'preview';
-    let startedDockerContainerId: string | null = null;
+    const isImageSource = payload.request.sourceType === 'image';
+    // Workers run without a port: no port mapping, domain, proxy or certificate.
+    const isWorker = payload.request.serviceType === 'worker';
+    // Blue/green deployments run next to the live one until they are switched in.
+    const isBlueGreenMode = payload.isBlueGreen === true && !isPreview;
+    // Production group members are blue/green sides the whole group switches in together.
+    const isGroupMember = isBlueGreenMode && Boolean(deployment.groupDeploymentId);
+    const startedDockerContainerIds: string[] = [];
     let createdContainerId: string | null = null;
+    let deploymentCommit = payload.request.commitSha?.trim() || deployment.commitSha?.trim() || '';
+    const buildLogTail: string[] = [];
 
     try {
       await this.assertDeploymentCanContinue(payload.deploymentId);
@@ -92,16 +157,19 @@ export class DeploymentPipeline {
       await this.updateStatus(
         payload.deploymentId,
         DeploymentStatus.building,
-        `Building ${isPreview ? 'preview' : 'production'} image`,
+        `${isImageSource ? 'Pulling' : 'Building'} ${isPreview ? 'preview' : 'production'} image`,
         deployment.projectId,
       );
+      await this.reportPullRequestPreview(payload, deployment.project, 'building');
+      await this.reportGitHubStatus(payload, deploymentCommit, 'building');
 
       const onLog = (line: string) => {
+        appendLogTail(buildLogTail, line);
         this.publishEvent(payload.deploymentId, 'log', line, deployment.projectId);
       };
-      let deploymentCommit =
-        payload.request.commitSha?.trim() || deployment.commitSha?.trim() || '';
-      if (deploymentCommit) {
+      if (isImageSource) {
+        onLog(`Deploy request image: ${payload.request.imageReference}`);
+      } else if (deploymentCommit) {
         onLog(`Deploy request commit: ${deploymentCommit}`);
       } else {
         const branchLabel = payload.request.branch?.trim() || 'default branch';
@@ -111,27 +179,65 @@ export class DeploymentPipeline {
       // If we already have an imageTag (rollback), skip the build
       let imageTag = deployment.imageTag ?? null;
 
-      if (!imageTag) {
+      if (!imageTag && payload.request.buildConfig) {
+        for (const line of describeBuildConfigSource(payload.request)) {
+          onLog(line);
+        }
+      }
+
+      if (!imageTag && isImageSource) {
+        const pullResult = await withRetry(
+          () =>
+            this.docker.pullImage(
+              {
+                deploymentId: payload.deploymentId,
+                imageReference: payload.request.imageReference!,
+                ...(payload.request.registryAuth && { registryAuth: payload.request.registryAuth }),
+              },
+              onLog,
+            ),
+          { retries: 2, delayMs: 2000 },
+        );
+        imageTag = pullResult.imageTag;
+
+        await prisma.deployment.update({
+          where: { id: payload.deploymentId },
+          data: { imageTag, imageDigest: pullResult.imageDigest },
+        });
+      } else if (!imageTag) {
         const buildResult = await withRetry(
           () =>
             this.docker.buildImage(
               {
                 deploymentId: payload.deploymentId,
                 projectId: deployment.projectId,
-                gitUrl: payload.request.gitUrl,
+                gitUrl: payload.request.gitUrl!,
                 ...(payload.request.gitAuthToken && { gitAuthToken: payload.request.gitAuthToken }),
+                ...(payload.request.gitAuthUsername && {
+                  gitAuthUsername: payload.request.gitAuthUsername,
+                }),
+                ...(payload.request.gitAuthHost && { gitAuthHost: payload.request.gitAuthHost }),
                 branch: payload.request.branch ?? '',
                 commitSha: deploymentCommit,
                 ...(payload.request.rootDirectory && {
                   rootDirectory: payload.request.rootDirectory,
                 }),
+                ...(payload.request.installCommand && {
+                  installCommand: payload.request.installCommand,
+                }),
                 ...(payload.request.buildCommand && { buildCommand: payload.request.buildCommand }),
                 ...(payload.request.startCommand && { startCommand: payload.request.startCommand }),
                 port: payload.request.port,
                 ...(payload.request.serviceType && { serviceType: payload.request.serviceType }),
+                ...(isWorker && { runtime: deployment.project.runtime }),
                 ...(payload.request.outputDirectory && {
                   outputDirectory: payload.request.outputDirectory,
                 }),
+                ...(payload.request.dockerfilePath && {
+                  dockerfilePath: payload.request.dockerfilePath,
+                }),
+                ...(payload.request.dockerTarget && { dockerTarget: payload.request.dockerTarget }),
+                buildCacheGeneration: deployment.project.buildCacheGeneration,
               },
               onLog,
             ),
@@ -154,6 +260,35 @@ export class DeploymentPipeline {
         onLog('Reusing existing image (rollback) — skipping build');
       }
 
+      // Generated Dockerfiles bake PORT in; repository Dockerfiles and prebuilt images get it at runtime.
+      const containerEnv =
+        isImageSource || payload.request.serviceType === 'dockerfile'
+          ? { PORT: String(payload.request.port), ...payload.request.env }
+          : payload.request.env;
+
+      // ── Release command ────────────────────────────────────────
+      // Runs once from the new image before any replica starts, so migrations
+      // never race between replicas or between the stable and canary versions.
+      if (payload.request.releaseCommand) {
+        await this.assertDeploymentCanContinue(payload.deploymentId);
+        await this.updateStatus(
+          payload.deploymentId,
+          DeploymentStatus.deploying,
+          'Running release command',
+          deployment.projectId,
+        );
+        await this.runReleaseCommand(
+          {
+            deploymentId: payload.deploymentId,
+            imageTag: imageTag!,
+            command: payload.request.releaseCommand,
+            containerEnv,
+            project: deployment.project,
+          },
+          onLog,
+        );
+      }
+
       // ── Run container ──────────────────────────────────────────
       await this.assertDeploymentCanContinue(payload.deploymentId);
       await this.updateStatus(
@@ -162,32 +297,67 @@ export class DeploymentPipeline {
         'Starting container',
         deployment.projectId,
       );
+      await this.reportGitHubStatus(payload, deploymentCommit, 'deploying');
 
-      onLog('Starting container...');
-      const run = await withRetry(
-        () =>
-          this.docker.runContainer({
-            imageTag: imageTag!,
-            port: payload.request.port,
-            env: payload.request.env,
-            memoryMb: deployment.project.resourceRamMb,
-            cpuMillicores: deployment.project.resourceCpuMillicore,
-            deploymentId: payload.deploymentId,
-          }),
-        { retries: 1, delayMs: 1000 },
+      // Previews always run a single replica and never mount production volumes.
+      const replicaCount = isPreview ? 1 : Math.max(1, deployment.replicaCount);
+      const volumes = isPreview
+        ? []
+        : await this.volumes.prepareMounts(deployment.projectId, onLog);
+      const startReplica = (replicaIndex: number) =>
+        withRetry(
+          () =>
+            this.docker.runContainer({
+              imageTag: imageTag!,
+              port: payload.request.port,
+              env: containerEnv,
+              memoryMb: deployment.project.resourceRamMb,
+              cpuMillicores: deployment.project.resourceCpuMillicore,
+              deploymentId: payload.deploymentId,
+              replicaIndex,
+              volumes,
+              publishPort: !isWorker,
+              // Only production containers take over the project's .internal name;
+              // a blue/green deployment gets it when it is switched in.
+              privateNetwork: {
+                organizationId: deployment.project.organizationId,
+                ...(!isPreview &&
+                  !isBlueGreenMode && { hostname: internalHostname(deployment.project.slug) }),
+              },
+            }),
+          { retries: 1, delayMs: 1000 },
+        );
+
+      onLog(
+        replicaCount > 1
+          ? `Starting container (replica 1 of ${replicaCount})...`
+          : 'Starting container...',
       );
-      onLog(`Container started on port ${run.hostPort}`);
-      startedDockerContainerId = run.dockerContainerId;
+      const run = await startReplica(0);
+      onLog(isWorker ? 'Container started' : `Container started on port ${run.hostPort}`);
+      startedDockerContainerIds.push(run.dockerContainerId);
       await this.assertDeploymentCanContinue(payload.deploymentId);
 
       // ── Health check ───────────────────────────────────────────
-      onLog('Running health check...');
-      const healthy = await this.docker.healthCheck(
-        run.hostPort,
-        payload.request.port,
-        run.dockerContainerId,
-        onLog,
-      );
+      // With a probe path configured this is a readiness gate: nginx is only
+      // switched once the probe passes. Workers only have to keep running.
+      const probe = isWorker ? null : resolveHttpProbeConfig(deployment.project);
+      const checkReplicaHealth = (replica: { hostPort: number; dockerContainerId: string }) =>
+        isWorker
+          ? this.docker.waitForStableRun(
+              replica.dockerContainerId,
+              env.ENGINE_WORKER_GRACE_SECONDS,
+              onLog,
+            )
+          : this.docker.healthCheck(
+              replica.hostPort,
+              payload.request.port,
+              replica.dockerContainerId,
+              onLog,
+              probe,
+            );
+      onLog(probe ? `Running readiness probe (GET ${probe.path})...` : 'Running health check...');
+      const healthy = await checkReplicaHealth(run);
       if (!healthy) {
         const stateSummary = await this.docker.getContainerStateSummary(run.dockerContainerId);
         if (stateSummary) {
@@ -207,11 +377,47 @@ export class DeploymentPipeline {
         );
         const hint = errorLine
           ? `Container crashed: ${errorLine.trim().slice(0, 200)}`
-          : `Health check failed — app did not respond on container port ${payload.request.port} (host ${run.hostPort}) within ${env.ENGINE_HEALTHCHECK_TIMEOUT_SECONDS} s.`;
+          : isWorker
+            ? `Health check failed — worker did not keep running for ${env.ENGINE_WORKER_GRACE_SECONDS} s.`
+            : probe
+              ? `Readiness probe failed — GET ${probe.path} on container port ${payload.request.port} did not return an accepted response within ${env.ENGINE_HEALTHCHECK_TIMEOUT_SECONDS} s.`
+              : `Health check failed — app did not respond on container port ${payload.request.port} (host ${run.hostPort}) within ${env.ENGINE_HEALTHCHECK_TIMEOUT_SECONDS} s.`;
 
         throw new Error(`${hint} Check the container logs above for startup errors.`);
       }
 
+      // ── Remaining replicas ─────────────────────────────────────
+      // Each replica must pass the same check before any traffic is routed.
+      const replicaRuns = [run];
+      for (let replicaIndex = 1; replicaIndex < replicaCount; replicaIndex += 1) {
+        await this.assertDeploymentCanContinue(payload.deploymentId);
+        onLog(`Starting replica ${replicaIndex + 1} of ${replicaCount}...`);
+        const replicaRun = await startReplica(replicaIndex);
+        startedDockerContainerIds.push(replicaRun.dockerContainerId);
+        onLog(
+          isWorker
+            ? `Replica ${replicaIndex + 1} started`
+            : `Replica ${replicaIndex + 1} started on port ${replicaRun.hostPort}`,
+        );
+
+        const replicaHealthy = await checkReplicaHealth(replicaRun);
+        if (!replicaHealthy) {
+          const logs = await this.docker.getContainerLogs(replicaRun.dockerContainerId, 20);
+          onLog(`── Replica ${replicaIndex + 1} logs (last 20 lines) ──`);
+          for (const line of logs.split('\n').filter(Boolean)) {
+            onLog(line);
+          }
+          throw new Error(
+            `Replica ${replicaIndex + 1} of ${replicaCount} failed its ${probe ? 'readiness probe' : 'health check'}. Check the container logs above for startup errors.`,
+          );
+        }
+        replicaRuns.push(replicaRun);
+      }
+      const replicaServers = replicaRuns.map((replica) => ({
+        host: '127.0.0.1',
+        port: replica.hostPort,
+      }));
+
       await this.assertDeploymentCanContinue(payload.deploymentId);
 
       // ── Domain resolution ──────────────────────────────────────
@@ -237,20 +443,27 @@ export class DeploymentPipeline {
         );
       }
 
-      const autoAliases = env.ENGINE_LOCAL_MODE
-        ? []
-        : buildAutomaticDomainAliases({
-            environment: payload.environment,
-            primaryDomain: domain,
-            projectSlug: deployment.project.slug,
-            organizationSlug: deployment.project.organization.slug,
-            baseDomain: env.BASE_DOMAIN,
-          });
+      // Until it is switched in, a blue/green deployment answers only on its verification hostname.
+      const routeDomain =
+        isBlueGreenMode && deployment.verificationDomain && !env.ENGINE_LOCAL_MODE
+          ? deployment.verificationDomain
+          : domain;
+
+      const autoAliases =
+        env.ENGINE_LOCAL_MODE || isBlueGreenMode
+          ? []
+          : buildAutomaticDomainAliases({
+              environment: payload.environment,
+              primaryDomain: domain,
+              projectSlug: deployment.project.slug,
+              organizationSlug: deployment.project.organization.slug,
+              baseDomain: env.BASE_DOMAIN,
+            });
 
       // Collect verified custom domain aliases for this project.
-      const customAliases = (deployment.project.customDomains ?? []).map(
-        (d: { domain: string }) => d.domain,
-      );
+      const customAliases = isBlueGreenMode
+        ? []
+        : (deployment.project.customDomains ?? []).map((d: { domain: string }) => d.domain);
       const allRouteAliases = Array.from(new Set([...autoAliases, ...customAliases])).filter(
         (alias) => alias !== domain,
       );
@@ -265,7 +478,7 @@ export class DeploymentPipeline {
       }
 
       // ── DNS + Reverse proxy + SSL ──────────────────────────────
-      if (!env.ENGINE_LOCAL_MODE) {
+      if (!env.ENGINE_LOCAL_MODE && !isWorker) {
         const dnsTargetIpv4 = await resolveDnsTargetIpv4({
           serverId: deployment.server.id,
           recordedIpv4: deployment.server.ipv4,
@@ -274,7 +487,7 @@ export class DeploymentPipeline {
 
         if (this.cloudflare) {
           onLog('Configuring DNS records...');
-          await withRetry(() => this.cloudflare!.upsertARecord(domain, dnsTargetIpv4), {
+          await withRetry(() => this.cloudflare!.upsertARecord(routeDomain, dnsTargetIpv4), {
             retries: 2,
             delayMs: 1000,
           });
@@ -316,38 +529,59 @@ export class DeploymentPipeline {
           payload.isCanary === true &&
           typeof payload.stableContainerHostPort === 'number' &&
           typeof payload.canaryWeight === 'number';
+        const canaryServers = isCanaryDeploy
+          ? weightedUpstreamServers(
+              await this.loadStableUpstreamServers(
+                deployment.project.activeDeploymentId,
+                payload.stableContainerHostPort!,
+              ),
+              replicaServers,
+              payload.canaryWeight!,
+            )
+          : [];
 
         if (isCanaryDeploy) {
-          // ── Canary weighted routing (keep stable container alive) ──────────
+          // ── Canary weighted routing (keep stable containers alive) ─────────
           await withRetry(
             () =>
-              this.nginx.configureWeightedProjectProxy({
-                domain,
-                stableUpstreamHost: '127.0.0.1',
-                stableUpstreamPort: payload.stableContainerHostPort!,
-                canaryUpstreamHost: '127.0.0.1',
-                canaryUpstreamPort: run.hostPort,
+              this.nginx.configureUpstreamPoolProxy({
+                domain: routeDomain,
+                servers: canaryServers,
                 upstreamScheme,
-                noIndex: isPreview,
+                noIndex: isPreview || isBlueGreenMode,
                 attackModeEnabled: deployment.project.attackModeEnabled,
                 aliases: routeAliases,
                 wakePath: `/api/v1/edge/deployments/${deployment.id}/wake`,
-                canaryWeight: payload.canaryWeight!,
               }),
             { retries: 2, delayMs: 1000 },
           );
           onLog(
             `Canary reverse proxy configured (${payload.canaryWeight}% → new, ${100 - payload.canaryWeight!}% → stable)`,
           );
+        } else if (replicaServers.length > 1) {
+          await withRetry(
+            () =>
+              this.nginx.configureUpstreamPoolProxy({
+                domain: routeDomain,
+                servers: replicaServers,
+                upstreamScheme,
+                noIndex: isPreview || isBlueGreenMode,
+                attackModeEnabled: deployment.project.attackModeEnabled,
+                aliases: routeAliases,
+                wakePath: `/api/v1/edge/deployments/${deployment.id}/wake`,
+              }),
+            { retries: 2, delayMs: 1000 },
+          );
+          onLog(`Reverse proxy configured (${replicaServers.length} replicas)`);
         } else {
           await withRetry(
             () =>
               this.nginx.configureProjectProxy({
-                domain,
+                domain: routeDomain,
                 upstreamHost: '127.0.0.1',
                 upstreamPort: run.hostPort,
                 upstreamScheme,
-                noIndex: isPreview,
+                noIndex: isPreview || isBlueGreenMode,
                 attackModeEnabled: deployment.project.attackModeEnabled,
                 aliases: routeAliases,
                 wakePath: `/api/v1/edge/deployments/${deployment.id}/wake`,
@@ -358,7 +592,7 @@ export class DeploymentPipeline {
         }
 
         onLog('Provisioning SSL certificate...');
-        await withRetry(() => this.ssl.ensureCertificate(domain, routeAliases), {
+        await withRetry(() => this.ssl.ensureCertificate(routeDomain, routeAliases), {
           retries: 1,
           delayMs: 3000,
         });
@@ -368,33 +602,45 @@ export class DeploymentPipeline {
         if (isCanaryDeploy) {
           await withRetry(
             () =>
-              this.nginx.configureWeightedProjectProxyWithTls({
-                domain,
-                certificateDomain: domain,
-                stableUpstreamHost: '127.0.0.1',
-                stableUpstreamPort: payload.stableContainerHostPort!,
-                canaryUpstreamHost: '127.0.0.1',
-                canaryUpstreamPort: run.hostPort,
+              this.nginx.configureUpstreamPoolProxyWithTls({
+                domain: routeDomain,
+                certificateDomain: routeDomain,
+                servers: canaryServers,
                 upstreamScheme,
-                noIndex: isPreview,
+                noIndex: isPreview || isBlueGreenMode,
                 attackModeEnabled: deployment.project.attackModeEnabled,
                 aliases: routeAliases,
                 wakePath: `/api/v1/edge/deployments/${deployment.id}/wake`,
-                canaryWeight: payload.canaryWeight!,
               }),
             { retries: 2, delayMs: 1000 },
           );
           onLog('Canary TLS reverse proxy configured');
+        } else if (replicaServers.length > 1) {
+          await withRetry(
+            () =>
+              this.nginx.configureUpstreamPoolProxyWithTls({
+                domain: routeDomain,
+                certificateDomain: routeDomain,
+                servers: replicaServers,
+                upstreamScheme,
+                noIndex: isPreview || isBlueGreenMode,
+                attackModeEnabled: deployment.project.attackModeEnabled,
+                aliases: routeAliases,
+                wakePath: `/api/v1/edge/deployments/${deployment.id}/wake`,
+              }),
+            { retries: 2, delayMs: 1000 },
+          );
+          onLog('TLS reverse proxy configured');
         } else {
           await withRetry(
             () =>
               this.nginx.configureProjectProxyWithTls({
-                domain,
-                certificateDomain: domain,
+                domain: routeDomain,
+                certificateDomain: routeDomain,
                 upstreamHost: '127.0.0.1',
                 upstreamPort: run.hostPort,
                 upstreamScheme,
-                noIndex: isPreview,
+                noIndex: isPreview || isBlueGreenMode,
                 attackModeEnabled: deployment.project.attackModeEnabled,
                 aliases: routeAliases,
                 wakePath: `/api/v1/edge/deployments/${deployment.id}/wake`,
@@ -406,7 +652,7 @@ export class DeploymentPipeline {
 
         onLog('Verifying edge route...');
         const probe = await this.nginx.waitForRouteReady(
-          domain,
+          routeDomain,
           onLog,
           Math.min(45, env.ENGINE_HEALTHCHECK_TIMEOUT_SECONDS),
           'https',
@@ -454,48 +700,85 @@ export class DeploymentPipeline {
 
         onLog(`Edge route ready (http=${probe.httpStatus}, https=${probe.httpsStatus})`);
       }
+      // Workers are not reachable, so no URL is recorded or announced for them.
+      const publicDomain = isWorker ? null : domain;
 
-      // ── Create container record ────────────────────────────────
+      // ── Create container records ───────────────────────────────
       await this.assertDeploymentCanContinue(payload.deploymentId);
-      const container = await prisma.container.create({
-        data: {
-          projectId: deployment.projectId,
-          serverId: deployment.serverId!,
-          dockerContainerId: run.dockerContainerId,
-          imageTag: imageTag!,
-          internalPort: payload.request.port,
-          hostPort: run.hostPort,
-          status: ContainerStatus.running,
-          sleepStatus: deployment.project.sleepEnabled ? SleepStatus.awake : SleepStatus.awake,
-          startedAt: new Date(),
-          lastRequestAt: new Date(),
-        },
-      });
+      const replicaContainers = [];
+      for (const [replicaIndex, replica] of replicaRuns.entries()) {
+        replicaContainers.push(
+          await prisma.container.create({
+            data: {
+              projectId: deployment.projectId,
+              serverId: deployment.serverId!,
+              deploymentId: payload.deploymentId,
+              replicaIndex,
+              dockerContainerId: replica.dockerContainerId,
+              imageTag: imageTag!,
+              internalPort: isWorker ? 0 : payload.request.port,
+              hostPort: replica.hostPort,
+              status: ContainerStatus.running,
+              sleepStatus: deployment.project.sleepEnabled ? SleepStatus.awake : SleepStatus.awake,
+              startedAt: new Date(),
+              lastRequestAt: new Date(),
+            },
+          }),
+        );
+      }
+      const container = replicaContainers[0]!;
 
       // ── Capacity rebalancing ───────────────────────────────────
       // Only production deploys stop the old container.
-      // Preview deploys run alongside production.
-      const previousContainer = isPreview
+      // Preview and blue/green deploys run alongside production.
+      const idleDeploymentId = isPreview
         ? null
-        : await prisma.container.findFirst({
-            where: {
-              projectId: deployment.projectId,
-              id: { not: container.id },
-              status: {
-                in: [ContainerStatus.running, ContainerStatus.sleeping, ContainerStatus.pending],
+        : ((
+            await prisma.project.findUnique({
+              where: { id: deployment.projectId },
+              select: { blueGreenDeploymentId: true },
+            })
+          )?.blueGreenDeploymentId ?? null);
+      const previousContainer =
+        isPreview || isBlueGreenMode
+          ? null
+          : await prisma.container.findFirst({
+              where: {
+                projectId: deployment.projectId,
+                id: { notIn: replicaContainers.map((replica) => replica.id) },
+                status: {
+                  in: [ContainerStatus.running, ContainerStatus.sleeping, ContainerStatus.pending],
+                },
+                // The idle blue/green side is retired separately below.
+                ...(idleDeploymentId && {
+                  OR: [{ deploymentId: null }, { deploymentId: { not: idleDeploymentId } }],
+                }),
               },
-            },
-            orderBy: { updatedAt: 'desc' },
-          });
+              orderBy: { updatedAt: 'desc' },
+            });
+      const previousReservation = replicaReservation(
+        deployment.project,
+        previousContainer?.deploymentId
+          ? ((
+              await prisma.deployment.findUnique({
+                where: { id: previousContainer.deploymentId },
+                select: { replicaCount: true },
+              })
+            )?.replicaCount ?? 1)
+          : 1,
+      );
+      const reservation = replicaReservation(deployment.project, replicaCount);
+      const isCanaryMode =
+        payload.isCanary === true && typeof payload.stableContainerHostPort === 'number';
 
       if (previousContainer && previousContainer.serverId !== deployment.serverId) {
         if (deployment.capacityReserved) {
           await prisma.server.update({
             where: { id: previousContainer.serverId },
             data: {
-              reservedRamMb: { decrement: deployment.project.resourceRamMb },
-              reservedCpuMillicores: { decrement: deployment.project.resourceCpuMillicore },
-              reservedBandwidthGb: { decrement: deployment.project.resourceBandwidthGb },
+              reservedRamMb: { decrement: previousReservation.reservedRamMb },
+              reservedCpuMillicores: { decrement: previousReservation.reservedCpuMillicores },
+              reservedBandwidthGb: { decrement: previousReservation.reservedBandwidthGb },
             },
           });
         } else {
@@ -503,33 +786,47 @@ export class DeploymentPipeline {
             prisma.server.update({
               where: { id: deployment.serverId! },
               data: {
-                reservedRamMb: { increment: deployment.project.resourceRamMb },
-                reservedCpuMillicores: { increment: deployment.project.resourceCpuMillicore },
-                reservedBandwidthGb: { increment: deployment.project.resourceBandwidthGb },
+                reservedRamMb: { increment: reservation.reservedRamMb },
+                reservedCpuMillicores: { increment: reservation.reservedCpuMillicores },
+                reservedBandwidthGb: { increment: reservation.reservedBandwidthGb },
               },
             }),
             prisma.server.update({
               where: { id: previousContainer.serverId },
               data: {
-                reservedRamMb: { decrement: deployment.project.resourceRamMb },
-                reservedCpuMillicores: { decrement: deployment.project.resourceCpuMillicore },
-                reservedBandwidthGb: { decrement: deployment.project.resourceBandwidthGb },
+                reservedRamMb: { decrement: previousReservation.reservedRamMb },
+                reservedCpuMillicores: { decrement: previousReservation.reservedCpuMillicores },
+                reservedBandwidthGb: { decrement: previousReservation.reservedBandwidthGb },
               },
             }),
           ]);
         }
+      } else if (
+        previousContainer &&
+        deployment.capacityReserved &&
+        !isCanaryMode &&
+        previousReservation.reservedRamMb !== reservation.reservedRamMb
+      ) {
+        // Replica count changed on the same server: the new total was reserved
+        // up front, so the replaced deployment's share is released here.
+        await prisma.server.update({
+          where: { id: previousContainer.serverId },
+          data: {
+            reservedRamMb: { decrement: previousReservation.reservedRamMb },
+            reservedCpuMillicores: { decrement: previousReservation.reservedCpuMillicores },
+            reservedBandwidthGb: { decrement: previousReservation.reservedBandwidthGb },
+          },
+        });
       }
 
       // ── Mark deployment ready ──────────────────────────────────────────────
-      const isCanaryMode =
-        payload.isCanary === true && typeof payload.stableContainerHostPort === 'number';
       await prisma.deployment.update({
         where: { id: payload.deploymentId },
         data: {
           status: DeploymentStatus.ready,
           containerId: container.id,
           finishedAt: new Date(),
-          domain,
+          domain: publicDomain,
           ...(isCanaryMode && {
             isCanary: true,
             canaryStartedAt: new Date(),
@@ -547,6 +844,15 @@ export class DeploymentPipeline {
               canaryPercent: payload.canaryWeight ?? 10,
             },
           });
+        } else if (isBlueGreenMode) {
+          // Only one idle side at a time: an older one gives way to this deployment.
+          if (idleDeploymentId) {
+            await this.blueGreen.retireIdle(deployment.projectId, 'replaced', idleDeploymentId);
+          }
+          await prisma.project.update({
+            where: { id: deployment.projectId },
+            data: { blueGreenDeploymentId: payload.deploymentId, blueGreenIdleUntil: null },
+          });
         } else {
           await prisma.project.update({
             where: { id: deployment.projectId },
@@ -557,10 +863,41 @@ export class DeploymentPipeline {
 
       // ── Stop previous container (production only, skip for canary) ─────────
       if (previousContainer && !isCanaryMode) {
-        onLog('Stopping previous container...');
-        await this.docker.stopContainer(previousContainer.dockerContainerId).catch(() => undefined);
-        await prisma.container.update({
-          where: { id: previousContainer.id },
+        // Replicas of the previous deployment are retired together.
+        const previousReplicas = previousContainer.deploymentId
+          ? await prisma.container.findMany({
+              where: {
+                deploymentId: previousContainer.deploymentId,
+                status: {
+                  in: [ContainerStatus.running, ContainerStatus.sleeping, ContainerStatus.pending],
+                },
+              },
+              select: { id: true, dockerContainerId: true },
+            })
+          : [previousContainer];
+        // Nginx already routes to the new containers; the old ones finish their
+        // open requests before they are stopped.
+        const previousLabel =
+          previousReplicas.length > 1
+            ? `${previousReplicas.length} previous containers`
+            : 'previous container';
+        await this.docker.drainAndStopContainers(
+          previousReplicas.map((previous) => previous.dockerContainerId),
+          {
+            drainTimeoutSeconds: deployment.project.drainTimeoutSeconds,
+            stopGraceSeconds: deployment.project.stopGraceSeconds,
+            onProgress: (progress) => {
+              this.publishEvent(
+                payload.deploymentId,
+                DRAIN_EVENT_TYPES[progress.phase],
+                describeDrainProgress(progress, previousLabel),
+                deployment.projectId,
+              ).catch(() => undefined);
+            },
+          },
+        );
+        await prisma.container.updateMany({
+          where: { id: { in: previousReplicas.map((previous) => previous.id) } },
           data: {
             status: ContainerStatus.stopped,
             sleepStatus: SleepStatus.sleeping,
@@ -569,15 +906,55 @@ export class DeploymentPipeline {
         });
       }
 
-      const envLabel = isPreview ? 'Preview' : isCanaryMode ? 'Canary' : 'Production';
+      // ── A regular production cutover also ends a pending blue/green release ──
+      if (!isPreview && !isCanaryMode && !isBlueGreenMode && idleDeploymentId) {
+        await this.blueGreen.retireIdle(deployment.projectId, 'replaced', idleDeploymentId);
+      }
+
+      // ── Retire the previous build of this pull request preview ─────────────
+      if (isPreview && deployment.pullRequestNumber !== null) {
+        await this.retirePreviousPullRequestContainers({
+          projectId: deployment.projectId,
+          deploymentId: payload.deploymentId,
+          pullRequestNumber: deployment.pullRequestNumber,
+          onLog,
+        });
+      }
+
+      const envLabel = isPreview
+        ? 'Preview'
+        : isCanaryMode
+          ? 'Canary'
+          : isBlueGreenMode
+            ? 'Blue/green'
+            : 'Production';
       const commitSuffix = deploymentCommit ? ` @ ${deploymentCommit.slice(0, 12)}` : '';
       const canarySuffix = isCanaryMode ? ` (${payload.canaryWeight}% traffic)` : '';
       await this.publishEvent(
         payload.deploymentId,
         'ready',
-        `${envLabel} deployment${commitSuffix}${canarySuffix} ready at ${this.resolvePublicUrl(domain)}`,
+        isGroupMember
+          ? `Group deployment${commitSuffix} ready; production switches to it once every project in the group is ready`
+          : isBlueGreenMode
+            ? `${envLabel} deployment${commitSuffix} ready for verification at ${this.resolvePublicUrl(routeDomain)}; switch to it to move production traffic`
+            : publicDomain
+              ? `${envLabel} deployment${commitSuffix}${canarySuffix} ready at ${this.resolvePublicUrl(publicDomain)}`
+              : `${envLabel} worker deployment${commitSuffix} ready (${replicaRuns.length} running)`,
         deployment.projectId,
       );
+      await this.reportPullRequestPreview(payload, deployment.project, 'ready', {
+        domain: publicDomain,
+      });
+      await this.reportGitHubStatus(
+        payload,
+        deploymentCommit,
+        'ready',
+        isBlueGreenMode && !isWorker
+          ? { publicUrl: this.resolvePublicUrl(routeDomain) }
+          : publicDomain
+            ? { publicUrl: this.resolvePublicUrl(publicDomain) }
+            : {},
+      );
 
       await this.emailNotifier
         .sendDeploymentStatusEmail({
@@ -587,7 +964,7 @@ export class DeploymentPipeline {
           deploymentId: payload.deploymentId,
           environment: payload.environment,
           status: 'ready',
-          domain,
+          domain: publicDomain,
         })
         .catch((emailError) => {
           console.error(
@@ -596,9 +973,18 @@ export class DeploymentPipeline {
             emailError,
           );
         });
+
+      if (isGroupMember) {
+        await this.groupRollouts.settle(deployment.groupDeploymentId!).catch((groupError) => {
+          console.error('Failed to settle project group rollout', payload.deploymentId, groupError);
+        });
+      }
     } catch (error) {
-      if (startedDockerContainerId) {
-        await this.docker.stopContainer(startedDockerContainerId).catch(() => undefined);
+      for (const dockerContainerId of startedDockerContainerIds) {
+        await this.docker.stopContainer(dockerContainerId).catch(() => undefined);
+      }
+      if (isBlueGreenMode && deployment.verificationDomain && !env.ENGINE_LOCAL_MODE) {
+        await this.nginx.removeProjectProxy(deployment.verificationDomain).catch(() => undefined);
       }
 
       await prisma.deployment.update({
@@ -611,12 +997,16 @@ export class DeploymentPipeline {
       });
 
       if (deployment.capacityReserved) {
+        const reservation = replicaReservation(
+          deployment.project,
+          isPreview ? 1 : deployment.replicaCount,
+        );
         await prisma.server.update({
           where: { id: deployment.serverId! },
           data: {
-            reservedRamMb: { decrement: deployment.project.resourceRamMb },
-            reservedCpuMillicores: { decrement: deployment.project.resourceCpuMillicore },
-            reservedBandwidthGb: { decrement: deployment.project.resourceBandwidthGb },
+            reservedRamMb: { decrement: reservation.reservedRamMb },
+            reservedCpuMillicores: { decrement: reservation.reservedCpuMillicores },
+            reservedBandwidthGb: { decrement: reservation.reservedBandwidthGb },
           },
         });
       }
@@ -628,26 +1018,286 @@ export class DeploymentPipeline {
         deployment.projectId,
       );
 
-      await this.emailNotifier
-        .sendDeploymentStatusEmail({
-          organizationId: deployment.project.organizationId,
-          projectId: deployment.projectId,
-          projectName: deployment.project.name,
-          deploymentId: payload.deploymentId,
-          environment: payload.environment,
-          status: 'failed',
-          domain: deployment.domain,
-          errorMessage: (error as Error).message,
+      const canceled = error instanceof DeploymentCanceledError;
+      await this.reportPullRequestPreview(
+        payload,
+        deployment.project,
+        canceled ? 'canceled' : 'failed',
+        { domain: deployment.domain, errorMessage: (error as Error).message },
+      );
+      await this.reportGitHubStatus(payload, deploymentCommit, canceled ? 'canceled' : 'failed', {
+        errorMessage: (error as Error).message,
+        ...(!canceled && { logTail: buildLogTail }),
+      });
+
+      if (deployment.groupDeploymentId) {
+        const groupMessage = `Group deployment aborted: ${deployment.project.name} failed: ${(error as Error).message}`;
+        await this.failQueuedGroupSiblings(
+          deployment.groupDeploymentId,
+          payload.deploymentId,
+          groupMessage,
+        )
+          .then(() =>
+            this.groupRollouts.discardWaitingSiblings(deployment.groupDeploymentId!, groupMessage),
+          )
+          .catch((groupError) => {
+            console.error(
+              'Failed to abort project group siblings',
+              payload.deploymentId,
+              groupError,
+            );
+          });
+      }
+
+      if (!canceled) {
+        await this.emailNotifier
+          .sendDeploymentStatusEmail({
+            organizationId: deployment.project.organizationId,
+            projectId: deployment.projectId,
+            projectName: deployment.project.name,
+            deploymentId: payload.deploymentId,
+            environment: payload.environment,
+            status: 'failed',
+            domain: deployment.domain,
+            errorMessage: (error as Error).message,
+          })
+          .catch((emailError) => {
+            console.error(
+              'Failed to send deployment failure email',
+              payload.deploymentId,
+              emailError,
+            );
+          });
+      }
+      throw error;
+    }
+  }
+
+  private async reportPullRequestPreview(
+    payload: QueueDeploymentPayload,
+    project: { id: string; name: string },
+    status: 'building' | 'ready' | 'failed' | 'canceled',
+    details: { domain?: string | null; errorMessage?: string } = {},
+  ): Promise<void> {
+    if (!payload.request.pullRequest) {
+      return;
+    }
+
+    await this.previewNotifier
+      .report({
+        deploymentId: payload.deploymentId,
+        projectId: project.id,
+        projectName: project.name,
+        pullRequest: payload.request.pullRequest,
+        accessToken: payload.request.gitAuthToken,
+        status,
+        ...details,
+      })
+      .catch((error) => {
+        console.error('Failed to report pull request preview status', payload.deploymentId, error);
+      });
+  }
+
+  private async reportGitHubStatus(
+    payload: QueueDeploymentPayload,
+    commitSha: string,
+    status: GitHubDeploymentStatus,
+    details: { publicUrl?: string; errorMessage?: string; logTail?: string[] } = {},
+  ): Promise<void> {
+    if (!payload.request.githubStatus) {
+      return;
+    }
+
+    await this.statusReporter
+      .report({
+        target: payload.request.githubStatus,
+        deploymentId: payload.deploymentId,
+        projectId: payload.projectId,
+        commitSha,
+        status,
+        ...details,
+      })
+      .catch((error) => {
+        console.error('Failed to report deployment status to GitHub', payload.deploymentId, error);
+      });
+  }
+
+  /**
+   * Pull request previews keep one domain, so once a newer push is live the
+   * containers of earlier builds of the same PR are stopped and their capacity
+   * released.
+   */
+  private async retirePreviousPullRequestContainers(input: {
+    projectId: string;
+    deploymentId: string;
+    pullRequestNumber: number;
+    onLog: (line: string) => void;
+  }): Promise<void> {
+    const previous = await prisma.deployment.findMany({
+      where: {
+        projectId: input.projectId,
+        pullRequestNumber: input.pullRequestNumber,
+        id: { not: input.deploymentId },
+        container: {
+          status: {
+            in: [ContainerStatus.running, ContainerStatus.sleeping, ContainerStatus.pending],
+          },
+        },
+      },
+      select: {
+        id: true,
+        serverId: true,
+        container: { select: { id: true, dockerContainerId: true } },
+        project: {
+          select: { resourceRamMb: true, resourceCpuMillicore: true, resourceBandwidthGb: true },
+        },
+      },
+    });
+
+    for (const deployment of previous) {
+      if (!deployment.container) {
+        continue;
+      }
+
+      input.onLog(`Stopping previous preview container for pull request #${input.pullRequestNumber}...`);
+      await this.docker.stopContainer(deployment.container.dockerContainerId).catch(() => undefined);
+      await prisma.container.update({
+        where: { id: deployment.container.id },
+        data: { status: ContainerStatus.stopped, stoppedAt: new Date() },
+      });
+
+      const released = await prisma.deployment.updateMany({
+        where: { id: deployment.id, capacityReserved: true },
+        data: { capacityReserved: false },
+      });
+      if (released.count > 0 && deployment.serverId) {
+        await prisma.server.update({
+          where: { id: deployment.serverId },
+          data: {
+            reservedRamMb: { decrement: deployment.project.resourceRamMb },
+            reservedCpuMillicores: { decrement: deployment.project.resourceCpuMillicore },
+            reservedBandwidthGb: { decrement: deployment.project.resourceBandwidthGb },
+          },
+        });
+      }
+    }
+  }
+
+  /**
+   * Upstream servers of the live deployment a canary is weighted against: every
+   * running replica, or the single stable port recorded in the queue payload.
+   */
+  private async loadStableUpstreamServers(
+    activeDeploymentId: string | null,
+    stableContainerHostPort: number,
+  ): Promise<Array<{ host: string; port: number }>> {
+    const replicas = activeDeploymentId
+      ? await prisma.container.findMany({
+          where: { deploymentId: activeDeploymentId, status: ContainerStatus.running },
+          orderBy: { replicaIndex: 'asc' },
+          select: { hostPort: true },
         })
-        .catch((emailError) => {
-          console.error(
-            'Failed to send deployment failure email',
-            payload.deploymentId,
-            emailError,
-          );
+      : [];
+    const ports = replicas.length
+      ? replicas.map((replica) => replica.hostPort)
+      : [stableContainerHostPort];
+    return ports.map((port) => ({ host: '127.0.0.1', port }));
+  }
+
+  /**
+   * Project group members share one rollout: once a member fails, siblings that
+   * have not started yet are failed too and their reserved capacity released.
+   * Production siblings already past the queue never took traffic; the group
+   * rollout discards them once they are ready.
+   */
+  private async failQueuedGroupSiblings(
+    groupDeploymentId: string,
+    failedDeploymentId: string,
+    message: string,
+  ): Promise<void> {
+    const siblings = await prisma.deployment.findMany({
+      where: {
+        groupDeploymentId,
+        id: { not: failedDeploymentId },
+        status: DeploymentStatus.queued,
+      },
+      select: {
+        id: true,
+        projectId: true,
+        serverId: true,
+        replicaCount: true,
+        project: {
+          select: { resourceRamMb: true, resourceCpuMillicore: true, resourceBandwidthGb: true },
+        },
+      },
+    });
+
+    for (const sibling of siblings) {
+      const failed = await prisma.deployment.updateMany({
+        where: { id: sibling.id, status: DeploymentStatus.queued },
+        data: { status: DeploymentStatus.failed, errorMessage: message, finishedAt: new Date() },
+      });
+      if (failed.count === 0) {
+        continue;
+      }
+
+      const released = await prisma.deployment.updateMany({
+        where: { id: sibling.id, capacityReserved: true },
+        data: { capacityReserved: false },
+      });
+      if (released.count > 0 && sibling.serverId) {
+        const reservation = replicaReservation(sibling.project, sibling.replicaCount);
+        await prisma.server.update({
+          where: { id: sibling.serverId },
+          data: {
+            reservedRamMb: { decrement: reservation.reservedRamMb },
+            reservedCpuMillicores: { decrement: reservation.reservedCpuMillicores },
+            reservedBandwidthGb: { decrement: reservation.reservedBandwidthGb },
+          },
         });
-      throw error;
+      }
+
+      await this.publishEvent(sibling.id, 'failed', message, sibling.projectId);
+    }
+  }
+
+  /**
+   * Runs the release command in a one-off container with the deployment's
+   * environment. A non-zero exit or timeout fails the deployment before any
+   * container is started, so the active deployment keeps serving.
+   */
+  private async runReleaseCommand(
+    input: {
+      deploymentId: string;
+      imageTag: string;
+      command: string;
+      containerEnv: Record<string, string>;
+      project: { organizationId: string; resourceRamMb: number; resourceCpuMillicore: number };
+    },
+    onLog: (line: string) => void,
+  ): Promise<void> {
+    onLog(`Running release command: ${input.command}`);
+    const result = await this.docker.runTask(
+      {
+        name: `release-${input.deploymentId}`,
+        imageTag: input.imageTag,
+        command: input.command,
+        env: input.containerEnv,
+        memoryMb: input.project.resourceRamMb,
+        cpuMillicores: input.project.resourceCpuMillicore,
+        timeoutMs: env.ENGINE_RELEASE_TIMEOUT_SECONDS * 1000,
+        privateNetwork: { organizationId: input.project.organizationId },
+      },
+      onLog,
+    );
+
+    if (result.timedOut) {
+      throw new Error(`Release command timed out after ${env.ENGINE_RELEASE_TIMEOUT_SECONDS}s`);
+    }
+    if (result.exitCode !== 0) {
+      throw new Error(`Release command exited with code ${result.exitCode ?? 'unknown'}`);
     }
+    onLog(`Release command finished in ${(result.durationMs / 1000).toFixed(1)}s`);
   }
 
   private async updateStatus(
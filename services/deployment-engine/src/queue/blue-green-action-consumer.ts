@@ -0,0 +1,48 @@
+import { Redis } from 'ioredis';
+import { z } from 'zod';
+
+import { BlueGreenReleaseService } from '../blue-green/blue-green-release-service.js';
+import { env } from '../core/env.js';
+import type { BlueGreenActionPayload } from '../core/types.js';
+
+const actionSchema = z.object({
+  action: z.enum(['switch', 'discard']),
+  deploymentId: z.string().cuid(),
+});
+
+export class BlueGreenActionConsumer {
+  private readonly queueKey = 'apployd:blue-green-actions:queue';
+
+  private readonly blockingRedis = new Redis(env.REDIS_URL, {
+    maxRetriesPerRequest: null,
+    enableAutoPipelining: false,
+  });
+
+  private readonly service = new BlueGreenReleaseService();
+
+  async run(): Promise<void> {
+    while (true) {
+      const item = await this.blockingRedis.blpop(this.queueKey, 0);
+      if (!item || item.length < 2) {
+        continue;
+      }
+
+      const raw = item[1];
+      let payload: BlueGreenActionPayload;
+
+      try {
+        payload = actionSchema.parse(JSON.parse(raw));
+      } catch (error) {
+        console.error('Invalid blue/green action payload', error);
+        continue;
+      }
+
+      try {
+        await this.service.execute(payload);
+      } catch (error) {
+        console.error('Blue/green action failed', payload, error);
+        await this.service.reportFailure(payload, error);
+      }
+    }
+  }
+}
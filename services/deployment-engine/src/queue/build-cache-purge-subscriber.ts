@@ -0,0 +1,50 @@
+import { Redis } from 'ioredis';
+import { z } from 'zod';
+
+import { purgeLocalBuildCache } from '../adapters/build-cache.js';
+import { env } from '../core/env.js';
+
+const purgeSchema = z.object({
+  projectId: z.string().cuid(),
+  generation: z.number().int().min(0),
+});
+
+/**
+ * Listens for build cache purges from the control plane. The purge itself is
+ * enforced by the bumped cache generation; this only frees local disk early.
+ */
+export class BuildCachePurgeSubscriber {
+  private readonly channel = 'apployd:build-cache:purge';
+
+  // Subscriber connections cannot issue regular commands, so keep this one dedicated.
+  private readonly subscriberRedis = new Redis(env.REDIS_URL, {
+    maxRetriesPerRequest: null,
+    enableAutoPipelining: false,
+  });
+
+  async start(): Promise<void> {
+    this.subscriberRedis.on('message', (channel: string, raw: string) => {
+      if (channel !== this.channel) return;
+
+      let payload: z.infer<typeof purgeSchema>;
+      try {
+        payload = purgeSchema.parse(JSON.parse(raw));
+      } catch (error) {
+        console.error('Invalid build cache purge payload', error);
+        return;
+      }
+
+      purgeLocalBuildCache(payload.projectId)
+        .then(() => {
+          console.log(
+            `Purged local build cache for project ${payload.projectId} (generation ${payload.generation})`,
+          );
+        })
+        .catch((error) => {
+          console.error('Build cache purge failed', payload, error);
+        });
+    });
+
+    await this.subscriberRedis.subscribe(this.channel);
+  }
+}
@@ -3,15 +3,17 @@ import { ContainerStatus, DeploymentStatus, SleepStatus } from '@prisma/client';
 import { z } from 'zod';
 
 import { DockerAdapter } from '../adapters/docker-adapter.js';
+import { NginxAdapter } from '../adapters/nginx-adapter.js';
 import { env } from '../core/env.js';
 import { prisma } from '../core/prisma.js';
 import { redis } from '../core/redis.js';
 
 const actionSchema = z.object({
-  action: z.enum(['sleep', 'wake']),
+  action: z.enum(['sleep', 'wake', 'stop']),
   containerId: z.string().cuid(),
   dockerContainerId: z.string().min(5),
   deploymentId: z.string().cuid().optional(),
+  domain: z.string().min(3).optional(),
 });
 
 export class ContainerActionConsumer {
@@ -25,6 +27,8 @@ export class ContainerActionConsumer {
 
   private readonly docker = new DockerAdapter();
 
+  private readonly nginx = new NginxAdapter();
+
   async run(): Promise<void> {
     while (true) {
       const item = await this.blockingRedis.blpop(this.queueKey, 0);
@@ -43,6 +47,8 @@ export class ContainerActionConsumer {
       try {
         if (payload.action === 'sleep') {
           await this.handleSleep(payload);
+        } else if (payload.action === 'stop') {
+          await this.handleStop(payload);
         } else {
           await this.handleWake(payload);
         }
@@ -94,11 +100,59 @@ export class ContainerActionConsumer {
     }
   }
 
+  private async handleStop(payload: z.infer<typeof actionSchema>): Promise<void> {
+    await this.docker.stopContainer(payload.dockerContainerId).catch(() => undefined);
+    const replicas = await this.loadOtherReplicas(payload);
+    for (const replica of replicas) {
+      await this.docker.stopContainer(replica.dockerContainerId).catch(() => undefined);
+    }
+
+    await prisma.container.updateMany({
+      where: { id: { in: [payload.containerId, ...replicas.map((replica) => replica.id)] } },
+      data: {
+        status: ContainerStatus.stopped,
+        stoppedAt: new Date(),
+      },
+    });
+
+    const routeRemoved = payload.domain
+      ? await this.nginx.removeProjectProxy(payload.domain).catch((error) => {
+          console.error('Failed to remove edge route for stopped container', payload.domain, error);
+          return false;
+        })
+      : false;
+
+    const container = await prisma.container.findUnique({
+      where: { id: payload.containerId },
+      select: { projectId: true },
+    });
+
+    if (container) {
+      await prisma.logEntry.create({
+        data: {
+          projectId: container.projectId,
+          deploymentId: payload.deploymentId ?? null,
+          containerId: payload.containerId,
+          level: 'info',
+          source: 'deployment-engine',
+          message: routeRemoved
+            ? `Container stopped and route ${payload.domain} removed`
+            : 'Container stopped',
+          metadata: { action: 'stop', ...(payload.domain && { domain: payload.domain }) },
+        },
+      });
+    }
+  }
+
   private async handleWake(payload: z.infer<typeof actionSchema>): Promise<void> {
     await this.docker.startContainer(payload.dockerContainerId);
+    const replicas = await this.loadOtherReplicas(payload);
+    for (const replica of replicas) {
+      await this.docker.startContainer(replica.dockerContainerId);
+    }
 
     await prisma.container.updateMany({
-      where: { id: payload.containerId },
+      where: { id: { in: [payload.containerId, ...replicas.map((replica) => replica.id)] } },
       data: {
         status: ContainerStatus.running,
         sleepStatus: SleepStatus.awake,
@@ -145,4 +199,22 @@ export class ContainerActionConsumer {
       );
     }
   }
+
+  /** Actions target a deployment's primary container; its other replicas follow along. */
+  private async loadOtherReplicas(
+    payload: z.infer<typeof actionSchema>,
+  ): Promise<Array<{ id: string; dockerContainerId: string }>> {
+    if (!payload.deploymentId) {
+      return [];
+    }
+
+    return prisma.container.findMany({
+      where: {
+        deploymentId: payload.deploymentId,
+        id: { not: payload.containerId },
+        status: { not: ContainerStatus.stopped },
+      },
+      select: { id: true, dockerContainerId: true },
+    });
+  }
 }
@@ -0,0 +1,198 @@
+import { Redis } from 'ioredis';
+import { z } from 'zod';
+
+import { DockerAdapter } from '../adapters/docker-adapter.js';
+import { env } from '../core/env.js';
+import { prisma } from '../core/prisma.js';
+
+const cronRunSchema = z.object({
+  runId: z.string().cuid(),
+  cronJobId: z.string().cuid(),
+  projectId: z.string().cuid(),
+  deploymentId: z.string().cuid(),
+  imageTag: z.string().min(1),
+  command: z.string().min(1),
+  env: z.record(z.string()).default({}),
+  memoryMb: z.number().int().positive(),
+  cpuMillicores: z.number().int().positive(),
+  timeoutSeconds: z.number().int().positive(),
+});
+
+type CronRunPayload = z.infer<typeof cronRunSchema>;
+
+const LOG_FLUSH_LINES = 50;
+/** Matches what the run log endpoint returns; later output is dropped with a notice. */
+const MAX_LOG_LINES_PER_RUN = 5000;
+
+/**
+ * Runs queued cron job executions in one-off containers. Runs are independent,
+ * so up to ENGINE_CRON_CONCURRENCY execute at once without holding up each other.
+ */
+export class CronRunConsumer {
+  private readonly queueKey = 'apployd:cron-runs:queue';
+
+  // BLPOP must use a dedicated connection; otherwise it can block deployment queue processing.
+  private readonly blockingRedis = new Redis(env.REDIS_URL, {
+    maxRetriesPerRequest: null,
+    enableAutoPipelining: false,
+  });
+
+  private readonly docker = new DockerAdapter();
+
+  private readonly inFlight = new Set<Promise<void>>();
+
+  async run(): Promise<void> {
+    while (true) {
+      if (this.inFlight.size >= env.ENGINE_CRON_CONCURRENCY) {
+        await Promise.race(this.inFlight);
+        continue;
+      }
+
+      const item = await this.blockingRedis.blpop(this.queueKey, 0);
+      if (!item || item.length < 2) continue;
+
+      let payload: CronRunPayload;
+      try {
+        payload = cronRunSchema.parse(JSON.parse(item[1]));
+      } catch (error) {
+        console.error('Invalid cron run payload', error);
+        continue;
+      }
+
+      const task = this.execute(payload)
+        .catch((error) => {
+          console.error('Cron run failed', payload.runId, error);
+        })
+        .finally(() => {
+          this.inFlight.delete(task);
+        });
+      this.inFlight.add(task);
+    }
+  }
+
+  private async execute(payload: CronRunPayload): Promise<void> {
+    const claimed = await prisma.cronJobRun.updateMany({
+      where: { id: payload.runId, status: 'queued' },
+      data: { status: 'running', startedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const logs = new CronRunLogWriter(payload);
+    await logs.write('info', `Running "${payload.command}"`);
+
+    try {
+      const project = await prisma.project.findUnique({
+        where: { id: payload.projectId },
+        select: { organizationId: true },
+      });
+      const result = await this.docker.runTask(
+        {
+          name: `cron-${payload.runId}`,
+          imageTag: payload.imageTag,
+          command: payload.command,
+          env: payload.env,
+          memoryMb: payload.memoryMb,
+          cpuMillicores: payload.cpuMillicores,
+          timeoutMs: payload.timeoutSeconds * 1000,
+          // Runs can call the organization's services by their .internal names.
+          ...(project && { privateNetwork: { organizationId: project.organizationId } }),
+        },
+        (line) => {
+          void logs.write('info', line);
+        },
+      );
+
+      const succeeded = result.exitCode === 0;
+      const errorMessage = result.timedOut
+        ? `Timed out after ${payload.timeoutSeconds}s`
+        : succeeded
+          ? null
+          : `Exited with code ${result.exitCode ?? 'unknown'}`;
+      await logs.write(
+        succeeded ? 'info' : 'error',
+        errorMessage ?? `Completed in ${(result.durationMs / 1000).toFixed(1)}s`,
+      );
+      await logs.flush();
+
+      await prisma.cronJobRun.update({
+        where: { id: payload.runId },
+        data: {
+          status: succeeded ? 'succeeded' : 'failed',
+          exitCode: result.exitCode,
+          durationMs: result.durationMs,
+          errorMessage,
+          finishedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      const message = (error as Error).message;
+      await logs.write('error', `Run failed: ${message}`);
+      await logs.flush();
+      await prisma.cronJobRun.update({
+        where: { id: payload.runId },
+        data: { status: 'failed', errorMessage: message.slice(0, 2000), finishedAt: new Date() },
+      });
+    }
+  }
+}
+
+/** Buffers run output into batched `LogEntry` inserts tagged with the run. */
+class CronRunLogWriter {
+  private buffer: Array<{ level: string; message: string; timestamp: Date }> = [];
+
+  private accepted = 0;
+
+  private truncated = false;
+
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly payload: CronRunPayload) {}
+
+  async write(level: 'info' | 'error', message: string): Promise<void> {
+    // Errors (including the final status line) are always kept.
+    if (this.accepted >= MAX_LOG_LINES_PER_RUN && level !== 'error') {
+      if (!this.truncated) {
+        this.truncated = true;
+        this.buffer.push({
+          level: 'warn',
+          message: `Log output truncated after ${MAX_LOG_LINES_PER_RUN} lines`,
+          timestamp: new Date(),
+        });
+      }
+      return;
+    }
+
+    this.accepted += 1;
+    this.buffer.push({ level, message, timestamp: new Date() });
+    if (this.buffer.length >= LOG_FLUSH_LINES) {
+      await this.flush();
+    }
+  }
+
+  flush(): Promise<void> {
+    const batch = this.buffer;
+    this.buffer = [];
+    this.pending = this.pending.then(async () => {
+      if (!batch.length) return;
+      await prisma.logEntry
+        .createMany({
+          data: batch.map((entry) => ({
+            projectId: this.payload.projectId,
+            deploymentId: this.payload.deploymentId,
+            cronJobRunId: this.payload.runId,
+            level: entry.level,
+            source: 'cron',
+            message: entry.message,
+            metadata: { cronJobId: this.payload.cronJobId },
+            timestamp: entry.timestamp,
+          })),
+        })
+        .catch((error) => {
+          console.error('Failed to store cron run logs', this.payload.runId, error);
+        });
+    });
+    return this.pending;
+  }
+}
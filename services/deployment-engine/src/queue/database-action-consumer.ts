@@ -0,0 +1,57 @@
+import { Redis } from 'ioredis';
+import { z } from 'zod';
+
+import { env } from '../core/env.js';
+import type { DatabaseActionPayload } from '../core/types.js';
+import { SelfHostedDatabaseService } from '../databases/self-hosted-database-service.js';
+
+const databaseActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('create'),
+    databaseId: z.string().cuid(),
+    password: z.string().min(1),
+  }),
+  z.object({ action: z.literal('resize'), databaseId: z.string().cuid() }),
+  z.object({
+    action: z.literal('restart'),
+    databaseId: z.string().cuid(),
+    password: z.string().min(1),
+  }),
+  z.object({ action: z.literal('delete'), databaseId: z.string().cuid() }),
+]);
+
+export class DatabaseActionConsumer {
+  private readonly queueKey = 'apployd:database-actions:queue';
+
+  private readonly blockingRedis = new Redis(env.REDIS_URL, {
+    maxRetriesPerRequest: null,
+    enableAutoPipelining: false,
+  });
+
+  private readonly service = new SelfHostedDatabaseService();
+
+  async run(): Promise<void> {
+    while (true) {
+      const item = await this.blockingRedis.blpop(this.queueKey, 0);
+      if (!item || item.length < 2) {
+        continue;
+      }
+
+      let payload: DatabaseActionPayload;
+      try {
+        payload = databaseActionSchema.parse(JSON.parse(item[1]));
+      } catch (error) {
+        // Never log the raw item: create and restart payloads carry the database password.
+        console.error('Invalid database action payload', error);
+        continue;
+      }
+
+      try {
+        await this.service.execute(payload);
+      } catch (error) {
+        console.error('Database action failed', payload.action, payload.databaseId, error);
+        await this.service.reportFailure(payload, error).catch(() => undefined);
+      }
+    }
+  }
+}
@@ -18,21 +18,60 @@ const payloadSchema = z
     isCanary: z.boolean().optional(),
     canaryWeight: z.number().int().min(1).max(99).optional(),
     stableContainerHostPort: z.number().int().min(1).max(65535).optional(),
+    isBlueGreen: z.boolean().optional(),
     request: z
       .object({
         projectId: z.string().cuid(),
-        gitUrl: z.string().url(),
+        sourceType: z.enum(['git', 'image']).default('git'),
+        gitUrl: z.string().url().optional(),
+        imageReference: z.string().min(1).max(512).optional(),
+        registryAuth: z
+          .object({
+            registry: z.string().min(1),
+            username: z.string().min(1),
+            password: z.string().min(1),
+          })
+          .optional(),
         gitAuthToken: z.string().min(1).optional(),
+        gitAuthUsername: z.string().min(1).optional(),
+        gitAuthHost: z.string().min(1).optional(),
         commitSha: z.string().optional(),
         branch: z.string().optional(),
         rootDirectory: z.string().optional(),
         env: z.record(z.string()),
+        installCommand: z.string().optional(),
         buildCommand: z.string().optional(),
         startCommand: z.string().optional(),
+        releaseCommand: z.string().optional(),
         port: z.number().int(),
         environment: z.enum(['production', 'preview']).optional(),
-        serviceType: z.enum(['web_service', 'static_site', 'python']).optional(),
+        serviceType: z.enum(['web_service', 'static_site', 'python', 'dockerfile', 'worker']).optional(),
         outputDirectory: z.string().optional(),
+        dockerfilePath: z.string().optional(),
+        dockerTarget: z.string().optional(),
+        buildConfig: z
+          .object({
+            path: z.string().min(1),
+            commitSha: z.string().optional(),
+            keys: z.array(
+              z.enum([
+                'installCommand',
+                'buildCommand',
+                'startCommand',
+                'releaseCommand',
+                'rootDirectory',
+                'outputDirectory',
+                'port',
+                'serviceType',
+                'dockerfilePath',
+                'dockerTarget',
+              ]),
+            ),
+          })
+          .optional(),
+      })
+      .refine((req) => (req.sourceType === 'image' ? Boolean(req.imageReference) : Boolean(req.gitUrl)), {
+        message: 'Git deployments need gitUrl and image deployments need imageReference',
       })
       .transform((req) => {
         // Remove undefined values from optional fields for exactOptionalPropertyTypes compliance
@@ -0,0 +1,48 @@
+import { Redis } from 'ioredis';
+import { z } from 'zod';
+
+import { env } from '../core/env.js';
+import type { ReplicaScalePayload } from '../core/types.js';
+import { ReplicaScaleService } from '../scaling/replica-scale-service.js';
+
+const scaleSchema = z.object({
+  deploymentId: z.string().cuid(),
+  projectId: z.string().cuid(),
+  fromReplicas: z.number().int().min(1),
+  toReplicas: z.number().int().min(1),
+});
+
+export class ReplicaScaleConsumer {
+  private readonly queueKey = 'apployd:replica-scale:queue';
+
+  private readonly blockingRedis = new Redis(env.REDIS_URL, {
+    maxRetriesPerRequest: null,
+    enableAutoPipelining: false,
+  });
+
+  private readonly service = new ReplicaScaleService();
+
+  async run(): Promise<void> {
+    while (true) {
+      const item = await this.blockingRedis.blpop(this.queueKey, 0);
+      if (!item || item.length < 2) {
+        continue;
+      }
+
+      let payload: ReplicaScalePayload;
+      try {
+        payload = scaleSchema.parse(JSON.parse(item[1]));
+      } catch (error) {
+        console.error('Invalid replica scale payload', error);
+        continue;
+      }
+
+      try {
+        await this.service.execute(payload);
+      } catch (error) {
+        console.error('Replica scaling failed', payload, error);
+        await this.service.reportFailure(payload, error);
+      }
+    }
+  }
+}
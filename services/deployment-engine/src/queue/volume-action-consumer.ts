@@ -0,0 +1,61 @@
+import { Redis } from 'ioredis';
+import { z } from 'zod';
+
+import { env } from '../core/env.js';
+import type { VolumeActionPayload } from '../core/types.js';
+import { ProjectVolumeService } from '../volumes/project-volume-service.js';
+
+const volumeActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('create'), volumeId: z.string().cuid() }),
+  z.object({ action: z.literal('delete'), volumeId: z.string().cuid() }),
+  z.object({
+    action: z.literal('snapshot'),
+    volumeId: z.string().cuid(),
+    snapshotId: z.string().cuid(),
+  }),
+  z.object({
+    action: z.literal('restore'),
+    volumeId: z.string().cuid(),
+    snapshotId: z.string().cuid(),
+  }),
+  z.object({
+    action: z.literal('delete_snapshot'),
+    volumeId: z.string().cuid(),
+    snapshotId: z.string().cuid(),
+  }),
+]);
+
+export class VolumeActionConsumer {
+  private readonly queueKey = 'apployd:volume-actions:queue';
+
+  private readonly blockingRedis = new Redis(env.REDIS_URL, {
+    maxRetriesPerRequest: null,
+    enableAutoPipelining: false,
+  });
+
+  private readonly service = new ProjectVolumeService();
+
+  async run(): Promise<void> {
+    while (true) {
+      const item = await this.blockingRedis.blpop(this.queueKey, 0);
+      if (!item || item.length < 2) {
+        continue;
+      }
+
+      let payload: VolumeActionPayload;
+      try {
+        payload = volumeActionSchema.parse(JSON.parse(item[1]));
+      } catch (error) {
+        console.error('Invalid volume action payload', error);
+        continue;
+      }
+
+      try {
+        await this.service.execute(payload);
+      } catch (error) {
+        console.error('Volume action failed', payload, error);
+        await this.service.reportFailure(payload, error).catch(() => undefined);
+      }
+    }
+  }
+}
@@ -0,0 +1,464 @@
+import { ContainerStatus, DeploymentStatus, SleepStatus } from '@prisma/client';
+
+import { DockerAdapter, deploymentContainerName } from '../adapters/docker-adapter.js';
+import { NginxAdapter } from '../adapters/nginx-adapter.js';
+import { env } from '../core/env.js';
+import {
+  buildUniqueProjectDomain,
+  resolveProductionRouteAliases,
+} from '../core/production-routes.js';
+import { prisma } from '../core/prisma.js';
+import { internalHostname } from '../core/private-network.js';
+import { redis } from '../core/redis.js';
+import { withRetry } from '../core/retry.js';
+import type { ReplicaScalePayload } from '../core/types.js';
+import { resolveHttpProbeConfig } from '../monitoring/probe-utils.js';
+import { ProjectVolumeService } from '../volumes/project-volume-service.js';
+
+const isReachableHttpStatus = (status: string): boolean =>
+  status !== '000' && status !== '502' && status !== '503' && status !== '504';
+
+const replicaContainerSelect = {
+  id: true,
+  replicaIndex: true,
+  hostPort: true,
+  internalPort: true,
+  imageTag: true,
+  dockerContainerId: true,
+  status: true,
+} as const;
+
+interface ReplicaContainer {
+  id: string;
+  replicaIndex: number;
+  hostPort: number;
+  internalPort: number;
+  imageTag: string;
+  dockerContainerId: string;
+  status: ContainerStatus;
+}
+
+/**
+ * Converges the running replicas of an active production deployment to its
+ * `replicaCount`. The control plane moves the count and the server reservation
+ * before queueing the job; this service starts or stops containers to match,
+ * and hands back the reservation for replicas that could not be started.
+ */
+export class ReplicaScaleService {
+  private readonly docker = new DockerAdapter();
+
+  private readonly nginx = new NginxAdapter();
+
+  private readonly volumes = new ProjectVolumeService();
+
+  async execute(payload: ReplicaScalePayload): Promise<void> {
+    const deployment = await this.loadDeployment(payload.deploymentId);
+    if (!deployment) {
+      return;
+    }
+
+    const { project } = deployment;
+    if (
+      project.activeDeploymentId !== deployment.id ||
+      project.canaryDeploymentId ||
+      deployment.status !== DeploymentStatus.ready
+    ) {
+      // A newer deploy or a canary took over; its own reservation logic reads the updated count.
+      await this.publishEvent(
+        deployment.id,
+        'replica_scale_skipped',
+        'Replica scaling skipped because the deployment is no longer the settled active deployment.',
+        project.id,
+      );
+      return;
+    }
+
+    // Deployments from before replicas existed have no replica rows.
+    const running: ReplicaContainer[] = deployment.replicas.length
+      ? deployment.replicas
+      : deployment.container?.status === ContainerStatus.running
+        ? [deployment.container]
+        : [];
+    const target = Math.max(1, deployment.replicaCount);
+    if (running.length === 0) {
+      throw new Error('Deployment has no running replica to scale from.');
+    }
+
+    if (running.length < target) {
+      await this.scaleUp(deployment, running, target);
+    } else if (running.length > target) {
+      await this.scaleDown(deployment, running, target);
+    }
+  }
+
+  async reportFailure(payload: ReplicaScalePayload, error: unknown): Promise<void> {
+    const message =
+      error instanceof Error && error.message ? error.message : 'Replica scaling failed';
+    await this.publishEvent(
+      payload.deploymentId,
+      'replica_scale_failed',
+      message,
+      payload.projectId,
+      { fromReplicas: payload.fromReplicas, toReplicas: payload.toReplicas },
+    ).catch(() => undefined);
+  }
+
+  private async loadDeployment(deploymentId: string) {
+    return prisma.deployment.findUnique({
+      where: { id: deploymentId },
+      select: {
+        id: true,
+        status: true,
+        domain: true,
+        serverId: true,
+        replicaCount: true,
+        container: { select: replicaContainerSelect },
+        replicas: {
+          where: { status: ContainerStatus.running },
+          orderBy: { replicaIndex: 'asc' },
+          select: replicaContainerSelect,
+        },
+        project: {
+          select: {
+            id: true,
+            slug: true,
+            organizationId: true,
+            serviceType: true,
+            activeDeploymentId: true,
+            canaryDeploymentId: true,
+            attackModeEnabled: true,
+            resourceRamMb: true,
+            resourceCpuMillicore: true,
+            healthCheckPath: true,
+            healthCheckStatusMin: true,
+            healthCheckStatusMax: true,
+            healthCheckBodyMatch: true,
+            healthCheckInitialDelaySeconds: true,
+            healthCheckPeriodSeconds: true,
+            healthCheckFailureThreshold: true,
+            organization: { select: { slug: true } },
+            customDomains: {
+              where: { status: 'active' },
+              select: { domain: true },
+            },
+          },
+        },
+      },
+    });
+  }
+
+  private async scaleUp(
+    deployment: NonNullable<Awaited<ReturnType<ReplicaScaleService['loadDeployment']>>>,
+    running: ReplicaContainer[],
+    target: number,
+  ): Promise<void> {
+    const { project } = deployment;
+    const template = running[0]!;
+    let containerEnv: Record<string, string> | null = null;
+    for (const replica of running) {
+      containerEnv = await this.docker.inspectContainerEnv(replica.dockerContainerId);
+      if (containerEnv) {
+        break;
+      }
+    }
+
+    const isWorker = project.serviceType === 'worker';
+    const probe = isWorker ? null : resolveHttpProbeConfig(project);
+    const volumes = await this.volumes.listMounts(project.id);
+    const usedIndexes = new Set(running.map((replica) => replica.replicaIndex));
+    const started: ReplicaContainer[] = [];
+    let failure: string | null = containerEnv
+      ? null
+      : 'Could not read the environment of a running replica.';
+
+    for (
+      let replicaIndex = 0;
+      !failure && running.length + started.length < target;
+      replicaIndex += 1
+    ) {
+      if (usedIndexes.has(replicaIndex)) {
+        continue;
+      }
+
+      // Replicas removed by an earlier scale-down leave a stopped container behind under the same name.
+      await this.docker
+        .removeContainer(deploymentContainerName(deployment.id, replicaIndex))
+        .catch(() => undefined);
+
+      let run: { dockerContainerId: string; hostPort: number };
+      try {
+        run = await this.docker.runContainer({
+          imageTag: template.imageTag,
+          port: template.internalPort,
+          env: containerEnv!,
+          memoryMb: project.resourceRamMb,
+          cpuMillicores: project.resourceCpuMillicore,
+          deploymentId: deployment.id,
+          replicaIndex,
+          volumes,
+          publishPort: !isWorker,
+          privateNetwork: {
+            organizationId: project.organizationId,
+            hostname: internalHostname(project.slug),
+          },
+        });
+      } catch (error) {
+        failure = `Replica ${replicaIndex + 1} failed to start: ${(error as Error).message}`;
+        break;
+      }
+
+      const healthy = isWorker
+        ? await this.docker.waitForStableRun(run.dockerContainerId, env.ENGINE_WORKER_GRACE_SECONDS)
+        : await this.docker.healthCheck(
+            run.hostPort,
+            template.internalPort,
+            run.dockerContainerId,
+            undefined,
+            probe,
+          );
+      if (!healthy) {
+        await this.docker.removeContainer(run.dockerContainerId).catch(() => undefined);
+        failure = `Replica ${replicaIndex + 1} failed its ${probe ? 'readiness probe' : 'health check'}.`;
+        break;
+      }
+
+      const now = new Date();
+      const container = await prisma.container.create({
+        data: {
+          projectId: project.id,
+          serverId: deployment.serverId!,
+          deploymentId: deployment.id,
+          replicaIndex,
+          dockerContainerId: run.dockerContainerId,
+          imageTag: template.imageTag,
+          internalPort: template.internalPort,
+          hostPort: run.hostPort,
+          status: ContainerStatus.running,
+          sleepStatus: SleepStatus.awake,
+          startedAt: now,
+          lastRequestAt: now,
+        },
+        select: replicaContainerSelect,
+      });
+      started.push(container);
+    }
+
+    if (started.length) {
+      await this.applyRouting(
+        deployment,
+        [...running, ...started].map((replica) => replica.hostPort),
+      );
+    }
+
+    const reached = running.length + started.length;
+    if (reached < target) {
+      await this.settleReplicaCount(deployment, target, reached);
+      await this.publishEvent(
+        deployment.id,
+        'replica_scale_failed',
+        `Scaled to ${reached} of ${target} replicas. ${failure ?? ''}`.trim(),
+        project.id,
+        { fromReplicas: running.length, toReplicas: target, reachedReplicas: reached },
+      );
+      return;
+    }
+
+    await this.publishEvent(
+      deployment.id,
+      'replicas_scaled',
+      `Scaled up from ${running.length} to ${target} replicas.`,
+      project.id,
+      { fromReplicas: running.length, toReplicas: target },
+    );
+  }
+
+  private async scaleDown(
+    deployment: NonNullable<Awaited<ReturnType<ReplicaScaleService['loadDeployment']>>>,
+    running: ReplicaContainer[],
+    target: number,
+  ): Promise<void> {
+    // Highest indexes go first so replica 1 (the deployment's primary container) stays.
+    const ordered = [...running].sort((a, b) => a.replicaIndex - b.replicaIndex);
+    const kept = ordered.slice(0, target);
+    const retired = ordered.slice(target);
+
+    // Take the replicas out of the upstream before stopping them so no request lands on a closed port.
+    await this.applyRouting(
+      deployment,
+      kept.map((replica) => replica.hostPort),
+    );
+
+    for (const replica of retired) {
+      await this.docker.stopContainer(replica.dockerContainerId).catch(() => undefined);
+    }
+    await prisma.container.updateMany({
+      where: { id: { in: retired.map((replica) => replica.id) } },
+      data: {
+        status: ContainerStatus.stopped,
+        sleepStatus: SleepStatus.sleeping,
+        stoppedAt: new Date(),
+      },
+    });
+
+    await this.publishEvent(
+      deployment.id,
+      'replicas_scaled',
+      `Scaled down from ${running.length} to ${target} replicas.`,
+      deployment.project.id,
+      { fromReplicas: running.length, toReplicas: target },
+    );
+  }
+
+  /** Records the replicas actually running and releases the reservation held for the rest. */
+  private async settleReplicaCount(
+    deployment: NonNullable<Awaited<ReturnType<ReplicaScaleService['loadDeployment']>>>,
+    target: number,
+    reached: number,
+  ): Promise<void> {
+    const missing = target - reached;
+    await prisma.$transaction(async (tx) => {
+      const settled = await tx.deployment.updateMany({
+        where: { id: deployment.id, replicaCount: target },
+        data: { replicaCount: reached },
+      });
+      if (settled.count === 0) {
+        return;
+      }
+
+      await tx.project.update({
+        where: { id: deployment.project.id },
+        data: { replicaCount: reached },
+      });
+      if (deployment.serverId) {
+        await tx.server.update({
+          where: { id: deployment.serverId },
+          data: {
+            reservedRamMb: { decrement: deployment.project.resourceRamMb * missing },
+            reservedCpuMillicores: { decrement: deployment.project.resourceCpuMillicore * missing },
+          },
+        });
+      }
+    });
+  }
+
+  private async applyRouting(
+    deployment: NonNullable<Awaited<ReturnType<ReplicaScaleService['loadDeployment']>>>,
+    upstreamPorts: number[],
+  ): Promise<void> {
+    // Workers have no upstream; their replicas only need to be running.
+    if (env.ENGINE_LOCAL_MODE || deployment.project.serviceType === 'worker') {
+      return;
+    }
+
+    const [primaryPort] = upstreamPorts;
+    if (primaryPort === undefined) {
+      throw new Error('No running replica to route traffic to.');
+    }
+
+    const { project } = deployment;
+    const domain =
+      deployment.domain ??
+      buildUniqueProjectDomain({
+        projectSlug: project.slug,
+        organizationSlug: project.organization.slug,
+        baseDomain: env.BASE_DOMAIN,
+      });
+    const aliases = resolveProductionRouteAliases({
+      primaryDomain: domain,
+      projectSlug: project.slug,
+      organizationSlug: project.organization.slug,
+      customDomains: project.customDomains.map((item) => item.domain),
+    });
+    const wakePath = `/api/v1/edge/deployments/${deployment.id}/wake`;
+    const upstreamScheme = await this.resolveUpstreamScheme(primaryPort);
+
+    await withRetry(
+      () =>
+        upstreamPorts.length > 1
+          ? this.nginx.configureUpstreamPoolProxyWithTls({
+              domain,
+              certificateDomain: domain,
+              servers: upstreamPorts.map((port) => ({ host: '127.0.0.1', port })),
+              upstreamScheme,
+              attackModeEnabled: project.attackModeEnabled,
+              aliases,
+              wakePath,
+            })
+          : this.nginx.configureProjectProxyWithTls({
+              domain,
+              certificateDomain: domain,
+              upstreamHost: '127.0.0.1',
+              upstreamPort: primaryPort,
+              upstreamScheme,
+              attackModeEnabled: project.attackModeEnabled,
+              aliases,
+              wakePath,
+            }),
+      { retries: 2, delayMs: 1000 },
+    );
+
+    const probe = await this.nginx.waitForRouteReady(
+      domain,
+      undefined,
+      Math.min(45, env.ENGINE_HEALTHCHECK_TIMEOUT_SECONDS),
+      'https',
+    );
+    if (!isReachableHttpStatus(probe.httpsStatus)) {
+      throw new Error(
+        `Route unhealthy after Nginx reconfiguration (http=${probe.httpStatus}, https=${probe.httpsStatus}).`,
+      );
+    }
+  }
+
+  private async resolveUpstreamScheme(upstreamPort: number): Promise<'http' | 'https'> {
+    const upstream = await this.nginx.waitForUpstreamReachable(
+      '127.0.0.1',
+      upstreamPort,
+      undefined,
+      Math.min(15, env.ENGINE_HEALTHCHECK_TIMEOUT_SECONDS),
+    );
+
+    const httpReachable = isReachableHttpStatus(upstream.httpStatus);
+    const httpsReachable = isReachableHttpStatus(upstream.httpsStatus);
+
+    if (!httpReachable && !httpsReachable && !upstream.tcpReachable) {
+      throw new Error(`Upstream is unreachable on 127.0.0.1:${upstreamPort}.`);
+    }
+
+    return httpsReachable && !httpReachable ? 'https' : 'http';
+  }
+
+  private async publishEvent(
+    deploymentId: string,
+    type: string,
+    message: string,
+    projectId: string,
+    metadata?: Record<string, unknown>,
+  ): Promise<void> {
+    await prisma.logEntry
+      .create({
+        data: {
+          projectId,
+          deploymentId,
+          level: type.includes('failed') ? 'error' : 'info',
+          source: 'deployment-engine',
+          message,
+          metadata: {
+            eventType: type,
+            ...(metadata ?? {}),
+          },
+        },
+      })
+      .catch(() => undefined);
+
+    await redis.publish(
+      `apployd:deployments:${deploymentId}`,
+      JSON.stringify({
+        deploymentId,
+        type,
+        message,
+        timestamp: new Date().toISOString(),
+      }),
+    );
+  }
+}
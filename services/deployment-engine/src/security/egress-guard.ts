@@ -1,6 +1,7 @@
 import { isIP } from 'node:net';
 
 import { env } from '../core/env.js';
+import { SHARED_NETWORK, isOrganizationNetwork } from '../core/private-network.js';
 import { runHostCommand } from '../core/run-host-command.js';
 
 const CHAIN_NAME = 'APLOYD_EGRESS';
@@ -22,10 +23,17 @@ const PRIVATE_EGRESS_CIDRS = [
 interface ContainerNetworkIdentity {
   containerId: string;
   containerName: string;
-  ipAddress: string;
+  /** One address per attached network; rules are written for each */
+  ipAddresses: string[];
+  organizationNetwork: string | null;
   policyKey: string;
 }
 
+interface TenantSubnets {
+  organization: string[];
+  shared: string[];
+}
+
 const shellEscape = (value: string): string =>
   `'${value.replace(/'/g, `'\"'\"'`)}'`;
 
@@ -72,42 +80,19 @@ export class EgressGuard {
       return;
     }
 
-    const family = this.addressFamily(identity.ipAddress);
-    await this.ensureChainReady(family);
     await this.deleteRulesByPolicyKey(identity.policyKey);
-    await this.deleteRulesBySourceIp(identity.ipAddress);
-
-    const sourceIp = this.sourceCidr(identity.ipAddress);
-    const mode = env.ENGINE_SECURITY_MODE;
-    if (mode === 'strict' || mode === 'lockdown') {
-      await this.insertPortRules({
-        sourceIp,
-        protocol: 'tcp',
-        ports: env.ENGINE_EGRESS_BLOCKED_TCP_PORTS,
-        policyKey: identity.policyKey,
-        action: 'DROP',
-        suffix: 'block-tcp',
-        family,
-      });
-      await this.insertPortRules({
-        sourceIp,
-        protocol: 'udp',
-        ports: env.ENGINE_EGRESS_BLOCKED_UDP_PORTS,
-        policyKey: identity.policyKey,
-        action: 'DROP',
-        suffix: 'block-udp',
-        family,
-      });
+    for (const ipAddress of identity.ipAddresses) {
+      await this.deleteRulesBySourceIp(ipAddress);
     }
 
-    if (mode === 'lockdown') {
-      await this.insertRule(
-        `-s ${sourceIp} -m comment --comment "${commentTag(identity.policyKey, 'deny-all')}" -j DROP`,
-        family,
-      );
+    const mode = env.ENGINE_SECURITY_MODE;
+    const tenantSubnets =
+      mode === 'strict' || mode === 'lockdown' ? await this.resolveTenantSubnets(identity) : null;
+    for (const ipAddress of identity.ipAddresses) {
+      const family = this.addressFamily(ipAddress);
+      await this.ensureChainReady(family);
+      await this.insertSourcePolicy(identity.policyKey, this.sourceCidr(ipAddress), family, tenantSubnets);
     }
-
-    await this.insertAllowRules(identity.policyKey, sourceIp, family);
   }
 
   async removePolicy(containerNameOrId: string): Promise<void> {
@@ -119,8 +104,8 @@ export class EgressGuard {
     const fallbackPolicyKey = normalizePolicyKey(containerNameOrId);
     const policyKey = identity?.policyKey ?? fallbackPolicyKey;
     await this.deleteRulesByPolicyKey(policyKey);
-    if (identity?.ipAddress) {
-      await this.deleteRulesBySourceIp(identity.ipAddress);
+    for (const ipAddress of identity?.ipAddresses ?? []) {
+      await this.deleteRulesBySourceIp(ipAddress);
     }
   }
 
@@ -142,6 +127,50 @@ export class EgressGuard {
     }
   }
 
+  private async insertSourcePolicy(
+    policyKey: string,
+    sourceIp: string,
+    family: FirewallFamily,
+    tenantSubnets: TenantSubnets | null,
+  ): Promise<void> {
+    const mode = env.ENGINE_SECURITY_MODE;
+    if (mode === 'strict' || mode === 'lockdown') {
+      await this.insertPortRules({
+        sourceIp,
+        protocol: 'tcp',
+        ports: env.ENGINE_EGRESS_BLOCKED_TCP_PORTS,
+        policyKey,
+        action: 'DROP',
+        suffix: 'block-tcp',
+        family,
+      });
+      await this.insertPortRules({
+        sourceIp,
+        protocol: 'udp',
+        ports: env.ENGINE_EGRESS_BLOCKED_UDP_PORTS,
+        policyKey,
+        action: 'DROP',
+        suffix: 'block-udp',
+        family,
+      });
+    }
+
+    if (mode === 'lockdown') {
+      await this.insertRule(
+        `-s ${sourceIp} -m comment --comment "${commentTag(policyKey, 'deny-all')}" -j DROP`,
+        family,
+      );
+    }
+
+    await this.insertAllowRules(policyKey, sourceIp, family);
+
+    // Inserted last so they are evaluated first: intra-org traffic is never
+    // caught by the port rules above, and no allow rule opens the shared network.
+    if (tenantSubnets) {
+      await this.insertTenantRules(policyKey, sourceIp, family, tenantSubnets);
+    }
+  }
+
   private async insertAllowRules(policyKey: string, sourceIp: string, family: FirewallFamily): Promise<void> {
     if (env.ENGINE_SECURITY_ALLOW_PRIVATE_EGRESS) {
       for (const cidr of PRIVATE_EGRESS_CIDRS.filter((entry) => this.addressFamily(entry) === family)) {
@@ -172,6 +201,50 @@ export class EgressGuard {
     });
   }
 
+  /**
+   * Containers may reach their own organization's network and nothing else on
+   * the shared network, whose members belong to every tenant. Other
+   * organizations' networks are internal bridges Docker already isolates.
+   */
+  private async insertTenantRules(
+    policyKey: string,
+    sourceIp: string,
+    family: FirewallFamily,
+    tenantSubnets: TenantSubnets,
+  ): Promise<void> {
+    for (const cidr of tenantSubnets.shared.filter((entry) => this.addressFamily(entry) === family)) {
+      await this.insertRule(
+        `-s ${sourceIp} -d ${cidr} -m comment --comment "${commentTag(policyKey, 'block-tenants')}" -j DROP`,
+        family,
+      );
+    }
+    for (const cidr of tenantSubnets.organization.filter((entry) => this.addressFamily(entry) === family)) {
+      await this.insertRule(
+        `-s ${sourceIp} -d ${cidr} -m comment --comment "${commentTag(policyKey, 'allow-org')}" -j RETURN`,
+        family,
+      );
+    }
+  }
+
+  private async resolveTenantSubnets(identity: ContainerNetworkIdentity): Promise<TenantSubnets> {
+    return {
+      organization: identity.organizationNetwork
+        ? await this.networkSubnets(identity.organizationNetwork)
+        : [],
+      shared: await this.networkSubnets(SHARED_NETWORK),
+    };
+  }
+
+  private async networkSubnets(networkName: string): Promise<string[]> {
+    const output = await runHostCommand(
+      `docker network inspect --format ${shellEscape('{{range .IPAM.Config}}{{.Subnet}} {{end}}')} ${shellEscape(networkName)}`,
+    ).catch(() => '');
+    return output
+      .trim()
+      .split(/\s+/)
+      .filter((entry) => isIP(entry.split('/')[0] ?? '') !== 0);
+  }
+
   private async insertPortRules(input: {
     sourceIp: string;
     protocol: 'tcp' | 'udp';
@@ -201,28 +274,32 @@ export class EgressGuard {
 
   private async resolveContainerIdentity(containerNameOrId: string): Promise<ContainerNetworkIdentity | null> {
     const formatted = await runHostCommand(
-      `docker inspect --format ${shellEscape('{{.Id}}|{{.Name}}|{{range .NetworkSettings.Networks}}{{.IPAddress}} {{end}}')} ${shellEscape(containerNameOrId)}`,
+      `docker inspect --format ${shellEscape('{{.Id}}|{{.Name}}|{{range $name, $network := .NetworkSettings.Networks}}{{$name}}={{$network.IPAddress}} {{end}}')} ${shellEscape(containerNameOrId)}`,
     ).catch(() => '');
     const trimmed = formatted.trim();
     if (!trimmed) {
       return null;
     }
 
-    const [containerId = '', containerName = '', addresses = ''] = trimmed.split('|');
-    const ipAddress = addresses
+    const [containerId = '', containerName = '', attachments = ''] = trimmed.split('|');
+    const networks = attachments
       .trim()
       .split(/\s+/)
-      .map((entry) => entry.trim())
-      .find((entry) => isIP(entry) === 4 || isIP(entry) === 6);
+      .map((entry) => {
+        const separator = entry.lastIndexOf('=');
+        return { name: entry.slice(0, separator), ipAddress: entry.slice(separator + 1) };
+      })
+      .filter((network) => isIP(network.ipAddress) === 4 || isIP(network.ipAddress) === 6);
 
-    if (!containerId || !containerName || !ipAddress) {
+    if (!containerId || !containerName || networks.length === 0) {
       return null;
     }
 
     return {
       containerId,
       containerName,
-      ipAddress,
+      ipAddresses: networks.map((network) => network.ipAddress),
+      organizationNetwork: networks.find((network) => isOrganizationNetwork(network.name))?.name ?? null,
       policyKey: policyKeyFromContainerName(containerName, containerId),
     };
   }
@@ -0,0 +1,305 @@
+import { ContainerStatus, ContainerType } from '@prisma/client';
+
+import { DockerAdapter, type VolumeMount } from '../adapters/docker-adapter.js';
+import type { LogCallback } from '../core/run-command.js';
+import { prisma } from '../core/prisma.js';
+import type { VolumeActionPayload } from '../core/types.js';
+
+/** Snapshot archives are named after the snapshot so a record always finds its file. */
+const snapshotArchiveName = (snapshotId: string): string => `${snapshotId}.tar.gz`;
+
+const volumeSelect = {
+  id: true,
+  projectId: true,
+  name: true,
+  mountPath: true,
+  sizeGb: true,
+  dockerVolumeName: true,
+  status: true,
+} as const;
+
+interface ProjectVolumeRow {
+  id: string;
+  projectId: string;
+  name: string;
+  mountPath: string;
+  sizeGb: number;
+  dockerVolumeName: string;
+  status: string;
+}
+
+const toMount = (volume: ProjectVolumeRow): VolumeMount => ({
+  dockerVolumeName: volume.dockerVolumeName,
+  mountPath: volume.mountPath,
+});
+
+/**
+ * Creates, snapshots, restores and removes project volumes on this engine's
+ * Docker host, and resolves the mounts for production containers. Volumes only
+ * go into production containers; previews never see production data.
+ */
+export class ProjectVolumeService {
+  private readonly docker = new DockerAdapter();
+
+  /**
+   * Mounts for a new production deployment. Volumes the engine has not created
+   * yet are created here, so a deploy queued right after adding a volume still
+   * gets it.
+   */
+  async prepareMounts(projectId: string, onLog?: LogCallback): Promise<VolumeMount[]> {
+    const volumes = await prisma.projectVolume.findMany({
+      where: { projectId, status: { in: ['pending', 'ready', 'restoring'] } },
+      orderBy: { createdAt: 'asc' },
+      select: volumeSelect,
+    });
+
+    const restoring = volumes.find((volume) => volume.status === 'restoring');
+    if (restoring) {
+      throw new Error(
+        `Volume "${restoring.name}" is being restored from a snapshot; redeploy once the restore finishes.`,
+      );
+    }
+
+    for (const volume of volumes) {
+      if (volume.status === 'pending') {
+        await this.createOnHost(volume);
+      }
+      onLog?.(`Mounting volume "${volume.name}" at ${volume.mountPath}`);
+    }
+    return volumes.map(toMount);
+  }
+
+  /** Mounts for extra or replacement replicas of a deployment that is already running. */
+  async listMounts(projectId: string): Promise<VolumeMount[]> {
+    const volumes = await prisma.projectVolume.findMany({
+      where: { projectId, status: 'ready' },
+      orderBy: { createdAt: 'asc' },
+      select: volumeSelect,
+    });
+    return volumes.map(toMount);
+  }
+
+  async execute(payload: VolumeActionPayload): Promise<void> {
+    const volume = await prisma.projectVolume.findUnique({
+      where: { id: payload.volumeId },
+      select: volumeSelect,
+    });
+    if (!volume) {
+      return;
+    }
+
+    switch (payload.action) {
+      case 'create':
+        if (volume.status === 'pending') {
+          await this.createOnHost(volume);
+        }
+        return;
+      case 'delete':
+        await this.deleteVolume(volume);
+        return;
+      case 'snapshot':
+        await this.takeSnapshot(volume, payload.snapshotId);
+        return;
+      case 'restore':
+        await this.restoreSnapshot(volume, payload.snapshotId);
+        return;
+      case 'delete_snapshot':
+        await this.docker.removeVolumeSnapshot(snapshotArchiveName(payload.snapshotId));
+        await prisma.volumeSnapshot.deleteMany({ where: { id: payload.snapshotId } });
+        return;
+    }
+  }
+
+  /** Leaves the volume or snapshot in a failed state the API can show. */
+  async reportFailure(payload: VolumeActionPayload, error: unknown): Promise<void> {
+    const errorMessage = (error as Error).message.slice(0, 1000);
+    if (payload.action === 'snapshot') {
+      await prisma.volumeSnapshot.updateMany({
+        where: { id: payload.snapshotId, status: 'pending' },
+        data: { status: 'failed', errorMessage, completedAt: new Date() },
+      });
+      return;
+    }
+    if (payload.action === 'delete_snapshot') {
+      await prisma.volumeSnapshot.updateMany({
+        where: { id: payload.snapshotId },
+        data: { errorMessage },
+      });
+      return;
+    }
+    if (payload.action === 'restore') {
+      await prisma.projectVolume.updateMany({
+        where: { id: payload.volumeId, status: 'restoring' },
+        data: { status: 'ready', errorMessage: `Restore failed: ${errorMessage}` },
+      });
+      return;
+    }
+    await prisma.projectVolume.updateMany({
+      where: { id: payload.volumeId },
+      data: { status: 'failed', errorMessage },
+    });
+  }
+
+  private async createOnHost(volume: ProjectVolumeRow): Promise<void> {
+    const created = await this.docker.ensureVolume(volume);
+    await prisma.projectVolume.updateMany({
+      where: { id: volume.id, status: 'pending' },
+      data: { status: 'ready', errorMessage: null },
+    });
+    if (created) {
+      await this.recordEvent(
+        volume,
+        'volume_created',
+        `Created volume "${volume.name}" (${volume.sizeGb}GB)`,
+      );
+    }
+  }
+
+  private async deleteVolume(volume: ProjectVolumeRow): Promise<void> {
+    const snapshots = await prisma.volumeSnapshot.findMany({
+      where: { volumeId: volume.id, storagePath: { not: null } },
+      select: { id: true },
+    });
+
+    // Containers left behind by earlier deployments still reference the volume.
+    await this.docker.removeStoppedContainersUsingVolume(volume.dockerVolumeName);
+    try {
+      await this.docker.removeVolume(volume.dockerVolumeName);
+    } catch (error) {
+      // Never created on this host (failed create) is fine; anything else is reported.
+      if (!/no such volume/i.test((error as Error).message)) {
+        throw new Error(
+          `Volume is mounted by a running container. Redeploy (new deployments no longer mount it) or stop the project, then delete it again. (${(error as Error).message})`,
+        );
+      }
+    }
+
+    for (const snapshot of snapshots) {
+      await this.docker
+        .removeVolumeSnapshot(snapshotArchiveName(snapshot.id))
+        .catch((error) => console.warn(`Failed to remove snapshot archive ${snapshot.id}`, error));
+    }
+
+    await prisma.projectVolume.delete({ where: { id: volume.id } });
+    await this.recordEvent(volume, 'volume_deleted', `Deleted volume "${volume.name}"`);
+  }
+
+  private async takeSnapshot(volume: ProjectVolumeRow, snapshotId: string): Promise<void> {
+    const archiveName = snapshotArchiveName(snapshotId);
+    const sizeBytes = await this.docker.snapshotVolume(volume.dockerVolumeName, archiveName);
+    await prisma.volumeSnapshot.update({
+      where: { id: snapshotId },
+      data: {
+        status: 'ready',
+        sizeBytes: BigInt(sizeBytes),
+        storagePath: archiveName,
+        completedAt: new Date(),
+      },
+    });
+    await this.recordEvent(
+      volume,
+      'volume_snapshot_created',
+      `Snapshot of volume "${volume.name}" completed (${Math.round(sizeBytes / 1024 / 1024)} MB)`,
+      { snapshotId, sizeBytes },
+    );
+  }
+
+  /**
+   * Stops the project's production containers, swaps the volume contents for
+   * the archive, and starts them again whether or not the restore worked.
+   * Container recovery skips projects with a restoring volume meanwhile.
+   */
+  private async restoreSnapshot(volume: ProjectVolumeRow, snapshotId: string): Promise<void> {
+    const snapshot = await prisma.volumeSnapshot.findUnique({
+      where: { id: snapshotId },
+      select: { id: true, storagePath: true },
+    });
+
+    const containers = await prisma.container.findMany({
+      where: {
+        projectId: volume.projectId,
+        status: ContainerStatus.running,
+        containerType: ContainerType.deployment,
+        deployment: { environment: 'production' },
+      },
+      select: { dockerContainerId: true },
+    });
+
+    let failure: Error | null = null;
+    try {
+      if (!snapshot?.storagePath) {
+        throw new Error('Snapshot archive no longer exists.');
+      }
+      await this.recordEvent(
+        volume,
+        'volume_restore_started',
+        `Restoring volume "${volume.name}" from snapshot; stopping ${containers.length} container(s)`,
+        { snapshotId },
+      );
+      for (const container of containers) {
+        await this.docker.stopContainer(container.dockerContainerId);
+      }
+      await this.docker.restoreVolume(volume.dockerVolumeName, snapshot.storagePath);
+    } catch (error) {
+      failure = error as Error;
+    } finally {
+      for (const container of containers) {
+        await this.docker.startContainer(container.dockerContainerId).catch((error) => {
+          console.error(`Failed to restart ${container.dockerContainerId} after restore`, error);
+        });
+      }
+    }
+
+    await prisma.projectVolume.update({
+      where: { id: volume.id },
+      data: {
+        status: 'ready',
+        errorMessage: failure ? `Restore failed: ${failure.message.slice(0, 900)}` : null,
+      },
+    });
+
+    if (failure) {
+      await this.recordEvent(
+        volume,
+        'volume_restore_failed',
+        `Restoring volume "${volume.name}" failed: ${failure.message}`,
+        { snapshotId },
+      );
+      return;
+    }
+
+    await prisma.volumeSnapshot.update({
+      where: { id: snapshotId },
+      data: { lastRestoredAt: new Date() },
+    });
+    await this.recordEvent(
+      volume,
+      'volume_restored',
+      `Restored volume "${volume.name}" from snapshot`,
+      { snapshotId },
+    );
+  }
+
+  private async recordEvent(
+    volume: ProjectVolumeRow,
+    type: string,
+    message: string,
+    metadata?: Record<string, string | number>,
+  ): Promise<void> {
+    await prisma.logEntry
+      .create({
+        data: {
+          projectId: volume.projectId,
+          level: type.includes('failed') ? 'error' : 'info',
+          source: 'deployment-engine',
+          message,
+          metadata: {
+            eventType: type,
+            volumeId: volume.id,
+            ...(metadata ?? {}),
+          },
+        },
+      })
+      .catch(() => undefined);
+  }
+}
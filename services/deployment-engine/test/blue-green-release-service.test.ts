@@ -0,0 +1,266 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { env, prismaMock, dockerMock, nginxMock } = vi.hoisted(() => ({
+  env: { ENGINE_LOCAL_MODE: false, BASE_DOMAIN: 'apployd.app' },
+  prismaMock: {
+    project: { findUnique: vi.fn(), findMany: vi.fn(), updateMany: vi.fn(), update: vi.fn() },
+    deployment: { findUnique: vi.fn(), update: vi.fn() },
+    container: { updateMany: vi.fn() },
+    server: { update: vi.fn() },
+    logEntry: { create: vi.fn() },
+    $transaction: vi.fn(),
+  },
+  dockerMock: { drainAndStopContainers: vi.fn(), setOrganizationNetworkAlias: vi.fn() },
+  nginxMock: { removeProjectProxy: vi.fn() },
+}));
+
+vi.mock('../src/core/env.js', () => ({ env }));
+
+vi.mock('../src/core/prisma.js', () => ({ prisma: prismaMock }));
+
+vi.mock('../src/core/redis.js', () => ({
+  redis: { publish: vi.fn(async () => 1) },
+}));
+
+vi.mock('../src/adapters/docker-adapter.js', () => ({
+  DRAIN_EVENT_TYPES: {},
+  describeDrainProgress: () => '',
+  DockerAdapter: class {
+    drainAndStopContainers = dockerMock.drainAndStopContainers;
+
+    setOrganizationNetworkAlias = dockerMock.setOrganizationNetworkAlias;
+  },
+}));
+
+vi.mock('../src/adapters/nginx-adapter.js', () => ({
+  NginxAdapter: class {
+    removeProjectProxy = nginxMock.removeProjectProxy;
+  },
+}));
+
+import { BlueGreenReleaseService } from '../src/blue-green/blue-green-release-service.js';
+
+const container = (id: string, hostPort: number) => ({
+  id,
+  hostPort,
+  status: 'running',
+  dockerContainerId: `docker-${id}`,
+  serverId: 'srv_1',
+});
+
+const project = {
+  id: 'proj_1',
+  organizationId: 'org_1',
+  resourceRamMb: 512,
+  resourceCpuMillicore: 250,
+  resourceBandwidthGb: 100,
+  drainTimeoutSeconds: 30,
+  stopGraceSeconds: 10,
+};
+
+const eventTypes = () =>
+  prismaMock.logEntry.create.mock.calls.map(([args]) => args.data.metadata.eventType);
+
+describe('BlueGreenReleaseService', () => {
+  beforeEach(() => {
+    for (const model of Object.values(prismaMock)) {
+      if (typeof model === 'function') {
+        model.mockReset();
+        continue;
+      }
+      for (const method of Object.values(model)) {
+        method.mockReset();
+      }
+    }
+    prismaMock.$transaction.mockImplementation(async (operations: unknown[]) =>
+      Promise.all(operations),
+    );
+    prismaMock.project.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.logEntry.create.mockResolvedValue({});
+    dockerMock.drainAndStopContainers.mockReset().mockResolvedValue(undefined);
+    dockerMock.setOrganizationNetworkAlias.mockReset().mockResolvedValue(undefined);
+    nginxMock.removeProjectProxy.mockReset().mockResolvedValue(undefined);
+    env.ENGINE_LOCAL_MODE = false;
+  });
+
+  it('stops warm sides whose keep-warm window has passed', async () => {
+    prismaMock.project.findMany.mockResolvedValue([
+      { id: 'proj_1', blueGreenDeploymentId: 'blue' },
+    ]);
+    prismaMock.project.findUnique.mockResolvedValue({
+      ...project,
+      blueGreenDeploymentId: 'blue',
+      blueGreenIdleUntil: new Date('2026-05-01T12:00:00Z'),
+    });
+    prismaMock.deployment.findUnique.mockResolvedValue({
+      id: 'blue',
+      replicaCount: 2,
+      verificationDomain: null,
+      container: container('c1', 41001),
+      replicas: [container('c1', 41001), container('c2', 41002)],
+    });
+
+    const retired = await new BlueGreenReleaseService().retireExpired(
+      new Date('2026-05-01T12:00:01Z'),
+    );
+
+    expect(retired).toBe(1);
+    expect(prismaMock.project.updateMany).toHaveBeenCalledWith({
+      where: { id: 'proj_1', blueGreenDeploymentId: 'blue' },
+      data: { blueGreenDeploymentId: null, blueGreenIdleUntil: null },
+    });
+    expect(dockerMock.drainAndStopContainers).toHaveBeenCalledWith(
+      ['docker-c1', 'docker-c2'],
+      expect.objectContaining({ drainTimeoutSeconds: 30, stopGraceSeconds: 10 }),
+    );
+    expect(prismaMock.server.update).toHaveBeenCalledWith({
+      where: { id: 'srv_1' },
+      data: {
+        reservedRamMb: { decrement: 1024 },
+        reservedCpuMillicores: { decrement: 500 },
+        reservedBandwidthGb: { decrement: 100 },
+      },
+    });
+    // A side that once served production stays ready, so it can be promoted again later.
+    expect(prismaMock.deployment.update).not.toHaveBeenCalled();
+    expect(eventTypes()).toContain('blue_green_retired');
+  });
+
+  it('leaves the idle side alone when another caller claimed it first', async () => {
+    prismaMock.project.findUnique.mockResolvedValue({
+      ...project,
+      blueGreenDeploymentId: 'blue',
+      blueGreenIdleUntil: new Date(),
+    });
+    prismaMock.project.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      new BlueGreenReleaseService().retireIdle('proj_1', 'expired', 'blue'),
+    ).resolves.toBe(false);
+    expect(dockerMock.drainAndStopContainers).not.toHaveBeenCalled();
+  });
+
+  it('discards a green that never took traffic and removes its verification route', async () => {
+    prismaMock.deployment.findUnique
+      .mockResolvedValueOnce({ projectId: 'proj_1' })
+      .mockResolvedValueOnce({
+        id: 'green',
+        replicaCount: 1,
+        verificationDomain: 'green--api.apployd.app',
+        container: container('c3', 41003),
+        replicas: [],
+      });
+    prismaMock.project.findUnique.mockResolvedValue({
+      ...project,
+      blueGreenDeploymentId: 'green',
+      blueGreenIdleUntil: null,
+    });
+
+    await new BlueGreenReleaseService().execute({ action: 'discard', deploymentId: 'green' });
+
+    expect(nginxMock.removeProjectProxy).toHaveBeenCalledWith('green--api.apployd.app');
+    expect(prismaMock.deployment.update).toHaveBeenCalledWith({
+      where: { id: 'green' },
+      data: { status: 'rolled_back' },
+    });
+  });
+
+  it('rejects discarding a deployment that is not the idle side', async () => {
+    prismaMock.deployment.findUnique.mockResolvedValue({ projectId: 'proj_1' });
+    prismaMock.project.findUnique.mockResolvedValue({
+      ...project,
+      blueGreenDeploymentId: 'green',
+      blueGreenIdleUntil: null,
+    });
+
+    await expect(
+      new BlueGreenReleaseService().execute({ action: 'discard', deploymentId: 'blue' }),
+    ).rejects.toThrow('not the idle side');
+    expect(prismaMock.project.updateMany).not.toHaveBeenCalled();
+  });
+
+  describe('switchTo', () => {
+    const target = (overrides: Record<string, unknown> = {}) => ({
+      id: 'green',
+      status: 'ready',
+      domain: null,
+      verificationDomain: 'green--api.apployd.app',
+      container: container('c3', 41003),
+      replicas: [],
+      project: {
+        id: 'proj_1',
+        slug: 'api',
+        organizationId: 'org_1',
+        // Workers take no HTTP traffic, so the switch skips nginx routing.
+        serviceType: 'worker',
+        attackModeEnabled: false,
+        activeDeploymentId: 'blue',
+        blueGreenDeploymentId: 'green',
+        blueGreenIdleUntil: null,
+        blueGreenKeepWarmSeconds: 900,
+        organization: { slug: 'acme' },
+        customDomains: [],
+      },
+      ...overrides,
+    });
+
+    const blue = {
+      id: 'blue',
+      domain: null,
+      container: container('c1', 41001),
+      replicas: [],
+    };
+
+    it('moves production and the .internal name to green and keeps blue warm', async () => {
+      prismaMock.deployment.findUnique.mockResolvedValueOnce(target()).mockResolvedValueOnce(blue);
+
+      const previous = await new BlueGreenReleaseService().switchTo('green');
+
+      expect(previous).toBe('blue');
+      const update = prismaMock.project.update.mock.calls[0]![0];
+      expect(update.data).toMatchObject({
+        activeDeploymentId: 'green',
+        blueGreenDeploymentId: 'blue',
+      });
+      expect(update.data.blueGreenIdleUntil).toBeInstanceOf(Date);
+      expect(dockerMock.setOrganizationNetworkAlias.mock.calls).toEqual([
+        ['docker-c3', 'org_1', 'api.internal'],
+        ['docker-c1', 'org_1', null],
+      ]);
+      expect(nginxMock.removeProjectProxy).toHaveBeenCalledWith('green--api.apployd.app');
+      expect(dockerMock.drainAndStopContainers).not.toHaveBeenCalled();
+    });
+
+    it('switches back without touching the verification route', async () => {
+      prismaMock.deployment.findUnique
+        .mockResolvedValueOnce(
+          target({
+            project: {
+              ...target().project,
+              blueGreenIdleUntil: new Date(Date.now() + 60_000),
+            },
+          }),
+        )
+        .mockResolvedValueOnce(blue);
+
+      await new BlueGreenReleaseService().switchTo('green');
+
+      expect(nginxMock.removeProjectProxy).not.toHaveBeenCalled();
+      const switched = prismaMock.logEntry.create.mock.calls.find(
+        ([args]) => args.data.metadata.eventType === 'blue_green_switched',
+      );
+      expect(switched![0].data.metadata).toMatchObject({ switchBack: true });
+    });
+
+    it('refuses a green whose container has stopped', async () => {
+      prismaMock.deployment.findUnique.mockResolvedValueOnce(
+        target({ container: { ...container('c3', 41003), status: 'stopped' } }),
+      );
+
+      await expect(new BlueGreenReleaseService().switchTo('green')).rejects.toThrow(
+        'no longer running',
+      );
+      expect(prismaMock.project.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { ContainerStatus, DeploymentStatus } from '@prisma/client';
+import { describe, expect, it } from 'vitest';
+
+import {
+  describeSwitch,
+  idleReservationRelease,
+  planIdleRetirement,
+  planSwitch,
+  switchBlocker,
+} from '../src/blue-green/blue-green-utils.js';
+
+const now = new Date('2026-05-01T12:00:00Z');
+
+// Blue is live and green has just passed its health checks next to it.
+const greenReady = {
+  activeDeploymentId: 'blue',
+  blueGreenDeploymentId: 'green',
+  blueGreenIdleUntil: null,
+  blueGreenKeepWarmSeconds: 900,
+};
+
+describe('planSwitch', () => {
+  it('makes the replaced deployment the idle side for the keep-warm window', () => {
+    const plan = planSwitch({ targetDeploymentId: 'green', project: greenReady, now });
+
+    expect(plan).toEqual({
+      switchBack: false,
+      next: {
+        activeDeploymentId: 'green',
+        blueGreenDeploymentId: 'blue',
+        blueGreenIdleUntil: new Date('2026-05-01T12:15:00Z'),
+      },
+      retirePreviousNow: false,
+    });
+  });
+
+  it('switches back to the warm side and keeps the other one warm in turn', () => {
+    const switched = planSwitch({ targetDeploymentId: 'green', project: greenReady, now });
+    const later = new Date('2026-05-01T12:05:00Z');
+
+    const back = planSwitch({
+      targetDeploymentId: 'blue',
+      project: { ...switched.next, blueGreenKeepWarmSeconds: 900 },
+      now: later,
+    });
+
+    expect(back.switchBack).toBe(true);
+    expect(back.next).toEqual({
+      activeDeploymentId: 'blue',
+      blueGreenDeploymentId: 'green',
+      blueGreenIdleUntil: new Date('2026-05-01T12:20:00Z'),
+    });
+  });
+
+  it('retires the replaced side right away without a keep-warm window', () => {
+    const plan = planSwitch({
+      targetDeploymentId: 'green',
+      project: { ...greenReady, blueGreenKeepWarmSeconds: 0 },
+      now,
+    });
+
+    expect(plan.retirePreviousNow).toBe(true);
+    expect(plan.next.blueGreenIdleUntil).toEqual(now);
+  });
+
+  it('holds the replaced side for group rollouts even without a keep-warm window', () => {
+    const plan = planSwitch({
+      targetDeploymentId: 'green',
+      project: { ...greenReady, blueGreenKeepWarmSeconds: 0 },
+      holdPreviousSeconds: 120,
+      now,
+    });
+
+    expect(plan.retirePreviousNow).toBe(false);
+    expect(plan.next.blueGreenIdleUntil).toEqual(new Date('2026-05-01T12:02:00Z'));
+  });
+
+  it('leaves no idle side when nothing was live before', () => {
+    const plan = planSwitch({
+      targetDeploymentId: 'green',
+      project: { ...greenReady, activeDeploymentId: null },
+      now,
+    });
+
+    expect(plan.next).toEqual({
+      activeDeploymentId: 'green',
+      blueGreenDeploymentId: null,
+      blueGreenIdleUntil: null,
+    });
+    expect(plan.retirePreviousNow).toBe(false);
+  });
+});
+
+describe('planIdleRetirement', () => {
+  it('discards a green that never took traffic as rolled back', () => {
+    expect(planIdleRetirement(greenReady, 'green')).toEqual({
+      deploymentId: 'green',
+      neverSwitched: true,
+    });
+  });
+
+  it('expires the warm side left behind by a switch', () => {
+    const { next } = planSwitch({ targetDeploymentId: 'green', project: greenReady, now });
+
+    expect(planIdleRetirement(next, 'blue')).toEqual({
+      deploymentId: 'blue',
+      neverSwitched: false,
+    });
+  });
+
+  it('does nothing once the expected deployment is no longer the idle side', () => {
+    const { next } = planSwitch({ targetDeploymentId: 'green', project: greenReady, now });
+
+    expect(planIdleRetirement(next, 'green')).toBeNull();
+    expect(
+      planIdleRetirement({ blueGreenDeploymentId: null, blueGreenIdleUntil: null }),
+    ).toBeNull();
+  });
+});
+
+describe('switchBlocker', () => {
+  const target = {
+    id: 'green',
+    status: DeploymentStatus.ready,
+    container: { status: ContainerStatus.running },
+  };
+
+  it('allows a ready, running idle side', () => {
+    expect(switchBlocker(target, greenReady)).toBeNull();
+  });
+
+  it('rejects deployments that cannot take production traffic', () => {
+    expect(switchBlocker(target, { blueGreenDeploymentId: 'other' })).toMatch(/not the idle side/);
+    expect(switchBlocker({ ...target, status: DeploymentStatus.failed }, greenReady)).toMatch(
+      /Only a ready deployment/,
+    );
+    expect(
+      switchBlocker({ ...target, container: { status: ContainerStatus.stopped } }, greenReady),
+    ).toMatch(/no longer running/);
+    expect(switchBlocker({ ...target, container: null }, greenReady)).toMatch(/no longer running/);
+  });
+});
+
+describe('describeSwitch', () => {
+  it('mentions the keep-warm window only when there is a side to return to', () => {
+    expect(describeSwitch({ switchBack: false, hasPrevious: true, keepWarmSeconds: 900 })).toBe(
+      'Switched production traffic to this deployment. The previous deployment stays warm for 15 min; switch back to return to it instantly.',
+    );
+    expect(describeSwitch({ switchBack: true, hasPrevious: true, keepWarmSeconds: 0 })).toBe(
+      'Switched back production traffic to this deployment.',
+    );
+    expect(describeSwitch({ switchBack: false, hasPrevious: false, keepWarmSeconds: 900 })).toBe(
+      'Switched production traffic to this deployment.',
+    );
+  });
+});
+
+describe('idleReservationRelease', () => {
+  it('gives back every replica and the bandwidth share once', () => {
+    const project = { resourceRamMb: 512, resourceCpuMillicore: 250, resourceBandwidthGb: 100 };
+
+    expect(idleReservationRelease(project, 3)).toEqual({
+      reservedRamMb: 1536,
+      reservedCpuMillicores: 750,
+      reservedBandwidthGb: 100,
+    });
+    expect(idleReservationRelease(project, 0).reservedRamMb).toBe(512);
+  });
+});
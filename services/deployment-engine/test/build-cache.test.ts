@@ -0,0 +1,117 @@
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/core/env.js', () => ({
+  env: {
+    ENGINE_BUILD_CACHE_MODE: 'local',
+    ENGINE_BUILD_CACHE_DIR: '/var/lib/apployd/build-cache',
+  },
+}));
+
+import {
+  BuildCacheStatsTracker,
+  formatBuildCacheStats,
+  planBuildCache,
+} from '../src/adapters/build-cache.js';
+
+const quote = (value: string) => `'${value}'`;
+
+describe('planBuildCache', () => {
+  const tempDirs: string[] = [];
+
+  afterEach(async () => {
+    await Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+    tempDirs.length = 0;
+  });
+
+  it('keys registry caches by project and purge generation', async () => {
+    const plan = await planBuildCache({ projectId: 'project-123', generation: 2 }, quote, {
+      mode: 'registry',
+      dir: '/unused',
+      registry: 'registry.example.com/apployd-cache/',
+    });
+
+    expect(plan?.args).toEqual([
+      "--cache-from 'type=registry,ref=registry.example.com/apployd-cache:project-123-g2'",
+      "--cache-to 'type=registry,ref=registry.example.com/apployd-cache:project-123-g2,mode=max'",
+    ]);
+  });
+
+  it('skips caching when disabled or when registry mode has no registry', async () => {
+    await expect(
+      planBuildCache({ projectId: 'p', generation: 0 }, quote, { mode: 'off', dir: '/unused' }),
+    ).resolves.toBeNull();
+    await expect(
+      planBuildCache({ projectId: 'p', generation: 0 }, quote, {
+        mode: 'registry',
+        dir: '/unused',
+      }),
+    ).resolves.toBeNull();
+  });
+
+  it('imports an existing local cache and swaps in the new export on commit', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'apployd-cache-test-'));
+    tempDirs.push(dir);
+    const current = join(dir, 'project-123', 'project-123-g1');
+    await mkdir(current, { recursive: true });
+    await writeFile(join(current, 'index.json'), '{}');
+    await mkdir(join(dir, 'project-123', 'project-123-g0'), { recursive: true });
+
+    const plan = await planBuildCache({ projectId: 'project-123', generation: 1 }, quote, {
+      mode: 'local',
+      dir,
+    });
+
+    expect(plan?.args).toEqual([
+      `--cache-from 'type=local,src=${current}'`,
+      `--cache-to 'type=local,dest=${current}.next,mode=max'`,
+    ]);
+
+    await mkdir(`${current}.next`);
+    await writeFile(join(`${current}.next`, 'index.json'), '{"fresh":true}');
+    await plan?.commit();
+
+    expect(await readdir(join(dir, 'project-123'))).toEqual(['project-123-g1']);
+  });
+
+  it('does not import a local cache that was never exported', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'apployd-cache-test-'));
+    tempDirs.push(dir);
+
+    const plan = await planBuildCache({ projectId: 'project-123', generation: 0 }, quote, {
+      mode: 'local',
+      dir,
+    });
+
+    expect(plan?.args).toHaveLength(1);
+    expect(plan?.args[0]).toContain('--cache-to');
+  });
+});
+
+describe('BuildCacheStatsTracker', () => {
+  it('counts cached and executed Dockerfile steps from plain progress output', () => {
+    const tracker = new BuildCacheStatsTracker();
+    [
+      '#1 [internal] load build definition from Dockerfile',
+      '#1 DONE 0.0s',
+      '#4 importing cache manifest from local:123',
+      '#5 [source 1/3] RUN apk add --no-cache git',
+      '#5 CACHED',
+      '#6 [builder 2/6] COPY --from=source /apployd-target/package.json ./package.json',
+      '#6 CACHED',
+      '#7 [builder 3/6] RUN npm ci',
+      '#7 12.31 added 200 packages',
+      '#7 DONE 14.2s',
+      '#7 [builder 3/6] RUN npm ci',
+    ].forEach((line) => tracker.observe(line));
+
+    const stats = tracker.stats();
+    expect(stats).toEqual({ cached: 2, executed: 1, total: 3 });
+    expect(formatBuildCacheStats(stats)).toBe(
+      'Build cache: 2 hit / 1 miss (67% of 3 steps cached)',
+    );
+  });
+});
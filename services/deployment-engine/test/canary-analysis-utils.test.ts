@@ -0,0 +1,138 @@
+import type { CanaryPlan } from '@apployd/shared';
+import { describe, expect, it } from 'vitest';
+
+import {
+  decideCanaryStep,
+  emptyStepWindow,
+  percentile,
+  recordStepRequests,
+  summarizeStepWindow,
+  type CanaryMetrics,
+} from '../src/canary/canary-analysis-utils.js';
+import type { RequestLogEntry } from '../src/monitoring/request-log-utils.js';
+
+const plan: CanaryPlan = {
+  steps: [10, 50],
+  stepDwellSeconds: 300,
+  minRequestsPerStep: 100,
+  maxErrorRateIncrease: 1,
+  maxLatencyIncreasePercent: 25,
+  maxRestarts: 0,
+};
+
+const healthy: CanaryMetrics = {
+  canaryRequests: 200,
+  stableRequests: 1800,
+  canaryErrorRatePercent: 0.5,
+  stableErrorRatePercent: 0.5,
+  canaryP95Ms: 120,
+  stableP95Ms: 110,
+  restarts: 0,
+};
+
+const entry = (
+  upstreamPort: number | null,
+  status: number,
+  requestTimeMs: number,
+): RequestLogEntry => ({
+  timestampMs: 0,
+  host: 'app.apployd.app',
+  status,
+  requestTimeMs,
+  upstreamPort,
+});
+
+describe('decideCanaryStep', () => {
+  it('advances to the next step and promotes after the last one', () => {
+    expect(
+      decideCanaryStep({ plan, stepIndex: 0, metrics: healthy, dwellElapsedSeconds: 301 }),
+    ).toEqual({ action: 'advance', percent: 50 });
+    expect(
+      decideCanaryStep({ plan, stepIndex: 1, metrics: healthy, dwellElapsedSeconds: 301 }),
+    ).toEqual({ action: 'promote' });
+  });
+
+  it('waits out the dwell time and holds when traffic is too low', () => {
+    expect(
+      decideCanaryStep({ plan, stepIndex: 0, metrics: healthy, dwellElapsedSeconds: 10 }),
+    ).toEqual({ action: 'wait', reason: 'dwell' });
+    expect(
+      decideCanaryStep({
+        plan,
+        stepIndex: 0,
+        metrics: { ...healthy, canaryRequests: 20, canaryErrorRatePercent: 50 },
+        dwellElapsedSeconds: 301,
+      }),
+    ).toEqual({ action: 'wait', reason: 'traffic' });
+  });
+
+  it('aborts on a 5xx increase before the dwell time passes', () => {
+    const decision = decideCanaryStep({
+      plan,
+      stepIndex: 0,
+      metrics: { ...healthy, canaryErrorRatePercent: 2 },
+      dwellElapsedSeconds: 10,
+    });
+    expect(decision.action).toBe('abort');
+  });
+
+  it('aborts on a p95 regression only above the noise floor', () => {
+    expect(
+      decideCanaryStep({
+        plan,
+        stepIndex: 0,
+        metrics: { ...healthy, canaryP95Ms: 200 },
+        dwellElapsedSeconds: 301,
+      }).action,
+    ).toBe('abort');
+    // 20ms vs 10ms is +100%, but within the 25ms floor.
+    expect(
+      decideCanaryStep({
+        plan,
+        stepIndex: 0,
+        metrics: { ...healthy, canaryP95Ms: 20, stableP95Ms: 10 },
+        dwellElapsedSeconds: 301,
+      }),
+    ).toEqual({ action: 'advance', percent: 50 });
+  });
+
+  it('aborts when canary containers restart, whatever the traffic', () => {
+    expect(
+      decideCanaryStep({
+        plan,
+        stepIndex: 0,
+        metrics: { ...healthy, canaryRequests: 0, restarts: 1 },
+        dwellElapsedSeconds: 10,
+      }).action,
+    ).toBe('abort');
+  });
+});
+
+describe('step window', () => {
+  it('attributes requests by upstream port and ignores other upstreams', () => {
+    const window = emptyStepWindow();
+    recordStepRequests(
+      window,
+      [entry(41001, 200, 10), entry(41001, 503, 30), entry(41002, 200, 20), entry(41009, 500, 5)],
+      { canary: [41001], stable: [41002] },
+    );
+    recordStepRequests(window, [entry(null, 502, 0)], { canary: [41001], stable: [41002] });
+
+    expect(summarizeStepWindow(window, 0)).toEqual({
+      canaryRequests: 2,
+      stableRequests: 1,
+      canaryErrorRatePercent: 50,
+      stableErrorRatePercent: 0,
+      canaryP95Ms: 30,
+      stableP95Ms: 20,
+      restarts: 0,
+    });
+  });
+
+  it('computes nearest-rank percentiles', () => {
+    const values = Array.from({ length: 100 }, (_, index) => 100 - index);
+    expect(percentile(values, 0.95)).toBe(95);
+    expect(percentile([7], 0.95)).toBe(7);
+    expect(percentile([], 0.95)).toBeNull();
+  });
+});
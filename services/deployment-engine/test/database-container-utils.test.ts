@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { databaseContainerSpec } from '../src/databases/database-container-utils.js';
+
+describe('databaseContainerSpec', () => {
+  it('initializes Postgres and MySQL from the stored credentials', () => {
+    const credentials = { username: 'app', password: 'pw', databaseName: 'orders_db' };
+
+    const postgres = databaseContainerSpec('postgres', credentials);
+    expect(postgres.env).toMatchObject({
+      POSTGRES_USER: 'app',
+      POSTGRES_PASSWORD: 'pw',
+      POSTGRES_DB: 'orders_db',
+    });
+    expect(postgres.env.PGDATA!.startsWith(`${postgres.dataPath}/`)).toBe(true);
+
+    const mysql = databaseContainerSpec('mysql', credentials);
+    expect(mysql.env).toMatchObject({ MYSQL_USER: 'app', MYSQL_RANDOM_ROOT_PASSWORD: 'yes' });
+    expect(mysql.command).toEqual([]);
+  });
+
+  it('passes the Redis password on the command line with persistence on', () => {
+    const redis = databaseContainerSpec('redis', {
+      username: 'default',
+      password: 'pw',
+      databaseName: '0',
+    });
+
+    expect(redis.env).toEqual({});
+    expect(redis.command).toEqual(['redis-server', '--appendonly', 'yes', '--requirepass', 'pw']);
+  });
+
+  it('rejects engines it cannot run', () => {
+    expect(() =>
+      databaseContainerSpec('mongodb', { username: 'app', password: 'pw', databaseName: 'x' }),
+    ).toThrow('Unsupported database engine "mongodb"');
+  });
+});
@@ -11,7 +11,7 @@ vi.mock('../src/core/run-command.js', () => ({
   runCommandStreaming: vi.fn(async () => undefined),
 }));
 
-import { universalDockerfile } from '../src/adapters/docker-adapter.js';
+import { countInboundConnections, universalDockerfile } from '../src/adapters/docker-adapter.js';
 
 describe('universalDockerfile root directory handling', () => {
   it('resolves Node roots in the source stage before package.json is copied', () => {
@@ -40,4 +40,69 @@ describe('universalDockerfile root directory handling', () => {
     expect(dockerfile).toContain('COPY --from=source /apployd-target/ .');
     expect(dockerfile).not.toContain('COPY --from=source /repo/${ROOT_DIR}/ .');
   });
+
+  it('exports the resolved checkout for repository Dockerfile builds', () => {
+    const dockerfile = universalDockerfile('dockerfile', 'project-123');
+
+    expect(dockerfile).toContain('--mount=type=secret,id=git_auth_token');
+    expect(dockerfile).toContain('Requested root directory ${requested} was not found in the repository');
+    expect(dockerfile).toContain('FROM scratch');
+    expect(dockerfile).toContain('COPY --from=source /apployd-target/ /');
+    expect(dockerfile).not.toContain('npm ci');
+  });
+
+  it('builds workers from the language image that matches the project runtime', () => {
+    expect(universalDockerfile('worker', 'project-123')).toBe(
+      universalDockerfile('web_service', 'project-123'),
+    );
+    expect(universalDockerfile('worker', 'project-123', 'python')).toBe(
+      universalDockerfile('python', 'project-123'),
+    );
+  });
+
+  it('only sends clone credentials to the host they were issued for', () => {
+    const dockerfile = universalDockerfile('web_service', 'project-123');
+
+    expect(dockerfile).toContain('ARG GIT_AUTH_HOST=github.com');
+    expect(dockerfile).toContain('case "${GIT_URL}" in "https://${GIT_AUTH_HOST}/"*)');
+    expect(dockerfile).not.toContain('x-access-token');
+  });
+});
+
+describe('countInboundConnections', () => {
+  const header =
+    '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode';
+  const row = (local: string, remote: string, state: string) =>
+    `   0: ${local} ${remote} ${state} 00000000:00000000 00:00000000 00000000  1000        0 1 1`;
+
+  it('counts established connections on listening ports only', () => {
+    const tcp = [
+      header,
+      row('00000000:0BB8', '00000000:0000', '0A'),
+      row('0500A8C0:0BB8', '0100A8C0:D431', '01'),
+      row('0500A8C0:0BB8', '0100A8C0:D432', '01'),
+      // Outbound connection to a database from an ephemeral port.
+      row('0500A8C0:9C40', '0A00A8C0:1538', '01'),
+      // Closing connection on the listening port.
+      row('0500A8C0:0BB8', '0100A8C0:D433', '06'),
+    ].join('\n');
+
+    expect(countInboundConnections(tcp)).toBe(2);
+  });
+
+  it('matches tcp6 rows against ports listened on over IPv6', () => {
+    const tcp6 = [
+      header,
+      row('00000000000000000000000000000000:1F90', '00000000000000000000000000000000:0000', '0A'),
+      row('0000000000000000FFFF00000500A8C0:1F90', '0000000000000000FFFF00000100A8C0:E001', '01'),
+    ].join('\n');
+
+    // An empty IPv4 table followed by the IPv6 one, as `cat tcp tcp6` prints them.
+    expect(countInboundConnections(`${header}\n${tcp6}`)).toBe(1);
+  });
+
+  it('returns zero for empty or unreadable tables', () => {
+    expect(countInboundConnections('')).toBe(0);
+    expect(countInboundConnections(header)).toBe(0);
+  });
 });
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { env, hostState } = vi.hoisted(() => ({
+  env: {
+    ENGINE_SECURITY_MODE: 'strict' as string,
+    ENGINE_SECURITY_ALLOW_PRIVATE_EGRESS: true,
+    ENGINE_EGRESS_ALLOWED_TCP_PORTS: [80, 443],
+    ENGINE_EGRESS_ALLOWED_UDP_PORTS: [53],
+    ENGINE_EGRESS_BLOCKED_TCP_PORTS: [5432],
+    ENGINE_EGRESS_BLOCKED_UDP_PORTS: [] as number[],
+  },
+  hostState: {
+    /** Rule tails of the APLOYD_EGRESS chain in evaluation order */
+    chain: [] as string[],
+    inspect: '',
+    subnets: {} as Record<string, string>,
+  },
+}));
+
+vi.mock('../src/core/env.js', () => ({ env }));
+
+vi.mock('../src/core/run-host-command.js', () => ({
+  runHostCommand: vi.fn(async (command: string) => {
+    if (command.startsWith('docker inspect')) {
+      return hostState.inspect;
+    }
+    if (command.startsWith('docker network inspect')) {
+      const name = /'([^']+)'$/.exec(command)?.[1] ?? '';
+      return hostState.subnets[name] ?? '';
+    }
+    const inserted = /^iptables -I APLOYD_EGRESS 1 (.+)$/.exec(command);
+    if (inserted) {
+      hostState.chain.unshift(inserted[1]!);
+    }
+    return '';
+  }),
+}));
+
+import { EgressGuard } from '../src/security/egress-guard.js';
+
+const rulesFor = (sourceIp: string) =>
+  hostState.chain.filter((rule) => rule.startsWith(`-s ${sourceIp}/32 `));
+
+describe('EgressGuard tenant isolation', () => {
+  beforeEach(() => {
+    env.ENGINE_SECURITY_MODE = 'strict';
+    hostState.chain = [];
+    hostState.inspect =
+      'c0ffee|/apployd-deploy1|apployd-net=172.18.0.5 apployd-org-org1=172.30.0.2 ';
+    hostState.subnets = {
+      'apployd-net': '172.18.0.0/16 ',
+      'apployd-org-org1': '172.30.0.0/24 ',
+    };
+  });
+
+  it('allows the organization network before any other rule and blocks the shared network', async () => {
+    await new EgressGuard().applyPolicy('apployd-deploy1');
+
+    const rules = rulesFor('172.18.0.5');
+    expect(rules[0]).toContain('-d 172.30.0.0/24');
+    expect(rules[0]).toContain(':allow-org"');
+    expect(rules[0]).toMatch(/-j RETURN$/);
+    expect(rules[1]).toContain('-d 172.18.0.0/16');
+    expect(rules[1]).toContain(':block-tenants"');
+    expect(rules[1]).toMatch(/-j DROP$/);
+    // The private-range and port allowances come later, so they cannot open the shared network.
+    expect(rules.slice(2).some((rule) => rule.includes(':allow-private"'))).toBe(true);
+    expect(rules.slice(2).some((rule) => rule.includes(':block-tcp-1"'))).toBe(true);
+  });
+
+  it('writes the same policy for every network address of the container', async () => {
+    await new EgressGuard().applyPolicy('apployd-deploy1');
+
+    expect(rulesFor('172.30.0.2')).toEqual(
+      rulesFor('172.18.0.5').map((rule) => rule.replace('172.18.0.5/32', '172.30.0.2/32')),
+    );
+  });
+
+  it('blocks the shared network for containers outside any organization network', async () => {
+    hostState.inspect = 'c0ffee|/apployd-deploy1|apployd-net=172.18.0.5 ';
+
+    await new EgressGuard().applyPolicy('apployd-deploy1');
+
+    const rules = rulesFor('172.18.0.5');
+    expect(rules[0]).toContain(':block-tenants"');
+    expect(rules.some((rule) => rule.includes(':allow-org"'))).toBe(false);
+  });
+
+  it('adds no tenant rules in monitor mode', async () => {
+    env.ENGINE_SECURITY_MODE = 'monitor';
+
+    await new EgressGuard().applyPolicy('apployd-deploy1');
+
+    expect(hostState.chain.length).toBeGreaterThan(0);
+    expect(hostState.chain.some((rule) => /:(allow-org|block-tenants)"/.test(rule))).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  appendLogTail,
+  describeGitHubStatus,
+  formatLogTailMarkdown,
+} from '../src/notifications/github-status-utils.js';
+
+describe('appendLogTail', () => {
+  it('keeps the most recent non-empty lines without ANSI colors', () => {
+    const tail: string[] = [];
+    appendLogTail(tail, 'step 1\nstep 2', 3);
+    appendLogTail(tail, '\u001b[31merror: build failed\u001b[0m\n\n', 3);
+    appendLogTail(tail, 'exit code 1', 3);
+
+    expect(tail).toEqual(['step 2', 'error: build failed', 'exit code 1']);
+  });
+});
+
+describe('describeGitHubStatus', () => {
+  it('maps transitions to commit states and check run conclusions', () => {
+    expect(describeGitHubStatus('building')).toMatchObject({
+      commitState: 'pending',
+      checkStatus: 'in_progress',
+    });
+    expect(describeGitHubStatus('ready', { publicUrl: 'https://api.apployd.app' })).toMatchObject({
+      commitState: 'success',
+      conclusion: 'success',
+      description: 'Deployment ready at https://api.apployd.app',
+    });
+  });
+
+  it('keeps failure descriptions within the commit status limit', () => {
+    const failed = describeGitHubStatus('failed', {
+      errorMessage: `${'npm ERR! '.repeat(40)}\nsecond line`,
+    });
+
+    expect(failed.conclusion).toBe('failure');
+    expect(failed.description.length).toBeLessThanOrEqual(140);
+    expect(failed.description).not.toContain('second line');
+  });
+
+  it('reports cancellations apart from build failures', () => {
+    expect(
+      describeGitHubStatus('canceled', {
+        errorMessage: 'Preview canceled by user: pull request #12 was closed.',
+      }),
+    ).toMatchObject({
+      commitState: 'error',
+      checkStatus: 'completed',
+      conclusion: 'cancelled',
+      description: 'Preview canceled by user: pull request #12 was closed.',
+    });
+    expect(describeGitHubStatus('canceled').description).toBe('Deployment canceled');
+  });
+});
+
+describe('formatLogTailMarkdown', () => {
+  it('uses a fence longer than any backtick run in the logs', () => {
+    const text = formatLogTailMarkdown(['```', 'error TS2304']);
+
+    expect(text.startsWith('Last 2 lines of the build log:')).toBe(true);
+    expect(text).toContain('````text\n```\nerror TS2304\n````');
+  });
+
+  it('returns nothing without log lines', () => {
+    expect(formatLogTailMarkdown([])).toBe('');
+  });
+});
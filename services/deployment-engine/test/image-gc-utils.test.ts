@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  parseDeploymentContainerList,
+  parseDeploymentImageList,
+  selectRetainedImageTags,
+} from '../src/monitoring/image-gc-utils.js';
+
+const tag = (deploymentId: string) => `apployd/${deploymentId}:latest`;
+
+describe('parseDeploymentImageList', () => {
+  it('keeps only deployment images', () => {
+    const images = parseDeploymentImageList(
+      [
+        'apployd/cm1abcdefghijklmnopqrstuv:latest|sha256:111',
+        'apployd/control-plane:latest|sha256:222',
+        'apployd/cm2abcdefghijklmnopqrstuv:<none>|sha256:333',
+        '',
+      ].join('\n'),
+    );
+
+    expect(images).toEqual([
+      {
+        imageTag: 'apployd/cm1abcdefghijklmnopqrstuv:latest',
+        imageId: 'sha256:111',
+        deploymentId: 'cm1abcdefghijklmnopqrstuv',
+      },
+    ]);
+  });
+});
+
+describe('parseDeploymentContainerList', () => {
+  it('parses deployment containers and ignores dev containers', () => {
+    const containers = parseDeploymentContainerList(
+      [
+        'abc123|apployd-cm1abcdefghijklmnopqrstuv|exited|2026-04-08 09:00:00 +0000 UTC|12.5kB (virtual 512MB)',
+        'def456|apployd-dev-cm1abcdefghijklmnopqrstuv|running|2026-04-08 09:00:00 +0000 UTC|1MB (virtual 1GB)',
+      ].join('\n'),
+    );
+
+    expect(containers).toHaveLength(1);
+    expect(containers[0]).toMatchObject({
+      dockerContainerId: 'abc123',
+      deploymentId: 'cm1abcdefghijklmnopqrstuv',
+      state: 'exited',
+      sizeBytes: 12_500,
+    });
+    expect(containers[0]?.createdAt.toISOString()).toBe('2026-04-08T09:00:00.000Z');
+  });
+
+  it('attributes replica containers to their deployment', () => {
+    const containers = parseDeploymentContainerList(
+      'abc123|apployd-cm1abcdefghijklmnopqrstuv-r2|running|2026-04-08 09:00:00 +0000 UTC|0B (virtual 512MB)',
+    );
+
+    expect(containers).toHaveLength(1);
+    expect(containers[0]).toMatchObject({
+      name: 'apployd-cm1abcdefghijklmnopqrstuv-r2',
+      deploymentId: 'cm1abcdefghijklmnopqrstuv',
+    });
+  });
+});
+
+describe('selectRetainedImageTags', () => {
+  const day = (n: number) => new Date(Date.UTC(2026, 3, n));
+
+  it('keeps the newest ready production images plus protected tags', () => {
+    const retained = selectRetainedImageTags({
+      retention: 2,
+      protectedImageTags: [tag('preview1')],
+      deployments: [
+        { imageTag: tag('d1'), status: 'ready', environment: 'production', createdAt: day(1) },
+        {
+          imageTag: tag('d2'),
+          status: 'rolled_back',
+          environment: 'production',
+          createdAt: day(2),
+        },
+        { imageTag: tag('d3'), status: 'failed', environment: 'production', createdAt: day(3) },
+        { imageTag: tag('d4'), status: 'ready', environment: 'production', createdAt: day(4) },
+        { imageTag: tag('preview1'), status: 'ready', environment: 'preview', createdAt: day(5) },
+      ],
+    });
+
+    expect([...retained].sort()).toEqual([tag('d2'), tag('d4'), tag('preview1')].sort());
+  });
+
+  it('counts a rolled-back image once even when several deployments reuse it', () => {
+    const retained = selectRetainedImageTags({
+      retention: 2,
+      protectedImageTags: [],
+      deployments: [
+        { imageTag: tag('d1'), status: 'ready', environment: 'production', createdAt: day(1) },
+        { imageTag: tag('d2'), status: 'ready', environment: 'production', createdAt: day(2) },
+        { imageTag: tag('d1'), status: 'ready', environment: 'production', createdAt: day(3) },
+      ],
+    });
+
+    expect([...retained].sort()).toEqual([tag('d1'), tag('d2')].sort());
+  });
+});
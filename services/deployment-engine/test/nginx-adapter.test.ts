@@ -14,7 +14,7 @@ vi.mock('../src/core/run-host-command.js', () => ({
   runHostCommand: vi.fn(async () => ''),
 }));
 
-import { NginxAdapter } from '../src/adapters/nginx-adapter.js';
+import { NginxAdapter, weightedUpstreamServers } from '../src/adapters/nginx-adapter.js';
 
 describe('NginxAdapter wake fallback config', () => {
   it('uses an internal URI location for wake fallback so proxy_pass can include a path', () => {
@@ -121,3 +121,48 @@ describe('NginxAdapter wake fallback config', () => {
     expect(template).toContain('try_files $uri =404;');
   });
 });
+
+describe('NginxAdapter upstream pools', () => {
+  it('splits canary traffic across replicas in proportion to each pool share', () => {
+    const servers = weightedUpstreamServers(
+      [
+        { host: '127.0.0.1', port: 21000 },
+        { host: '127.0.0.1', port: 21001 },
+      ],
+      [{ host: '127.0.0.1', port: 22000 }],
+      20,
+    );
+
+    // 80% over two stable replicas, 20% on one canary: 40/40/20 -> 2/2/1.
+    expect(servers.map((server) => server.weight)).toEqual([2, 2, 1]);
+  });
+
+  it('keeps the single stable/canary weights at the configured percentage', () => {
+    const servers = weightedUpstreamServers(
+      [{ host: '127.0.0.1', port: 21000 }],
+      [{ host: '127.0.0.1', port: 22000 }],
+      25,
+    );
+
+    expect(servers.map((server) => server.weight)).toEqual([3, 1]);
+  });
+
+  it('renders one server line per replica', () => {
+    const adapter = new NginxAdapter() as any;
+    const block = adapter.buildUpstreamBlock('demo_upstream', [
+      { host: '127.0.0.1', port: 21000 },
+      { host: '127.0.0.1', port: 21001 },
+    ]);
+
+    expect(block).toBe(
+      [
+        'upstream demo_upstream {',
+        '  server 127.0.0.1:21000;',
+        '  server 127.0.0.1:21001;',
+        '  keepalive 64;',
+        '}',
+      ].join('\n'),
+    );
+    expect(() => adapter.buildUpstreamBlock('demo_upstream', [])).toThrow();
+  });
+});
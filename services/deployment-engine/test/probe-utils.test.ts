@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  PROBE_STATUS_MARKER,
+  evaluateHttpProbeResponse,
+  parseCurlProbeOutput,
+  resolveHttpProbeConfig,
+} from '../src/monitoring/probe-utils.js';
+
+const settings = {
+  healthCheckPath: '/healthz',
+  healthCheckStatusMin: 200,
+  healthCheckStatusMax: 299,
+  healthCheckBodyMatch: null,
+  healthCheckInitialDelaySeconds: 5,
+  healthCheckPeriodSeconds: 10,
+  healthCheckFailureThreshold: 3,
+};
+
+describe('probe-utils', () => {
+  it('only builds a probe when a path is configured', () => {
+    expect(resolveHttpProbeConfig({ ...settings, healthCheckPath: null })).toBeNull();
+    expect(resolveHttpProbeConfig({ ...settings, healthCheckPath: '  ' })).toBeNull();
+    expect(resolveHttpProbeConfig({ ...settings, healthCheckPath: 'ready' })?.path).toBe('/ready');
+  });
+
+  it('rejects statuses outside the accepted range', () => {
+    const probe = resolveHttpProbeConfig(settings)!;
+    expect(evaluateHttpProbeResponse(probe, { status: 204, body: '' })).toBeNull();
+    expect(evaluateHttpProbeResponse(probe, { status: 500, body: 'ok' })).toContain('HTTP 500');
+    expect(evaluateHttpProbeResponse(probe, { status: 301, body: '' })).toContain('200-299');
+  });
+
+  it('requires the body match when configured', () => {
+    const probe = resolveHttpProbeConfig({ ...settings, healthCheckBodyMatch: '"db":"up"' })!;
+    expect(evaluateHttpProbeResponse(probe, { status: 200, body: '{"db":"up"}' })).toBeNull();
+    expect(evaluateHttpProbeResponse(probe, { status: 200, body: '{"db":"down"}' })).toContain(
+      'does not contain',
+    );
+  });
+
+  it('parses curl output and treats status 000 as no response', () => {
+    expect(parseCurlProbeOutput(`{"ok":true}\n${PROBE_STATUS_MARKER}200`)).toEqual({
+      status: 200,
+      body: '{"ok":true}',
+    });
+    expect(parseCurlProbeOutput(`\n${PROBE_STATUS_MARKER}000`)).toBeNull();
+    expect(parseCurlProbeOutput('curl: (7) Failed to connect')).toBeNull();
+  });
+});
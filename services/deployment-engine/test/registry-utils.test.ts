@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildDockerAuthConfig,
+  familiarRepositoryName,
+  selectPinnedImageReference,
+} from '../src/adapters/registry-utils.js';
+
+const digest = `sha256:${'a'.repeat(64)}`;
+const otherDigest = `sha256:${'b'.repeat(64)}`;
+
+describe('familiarRepositoryName', () => {
+  it('matches the short names docker reports for Docker Hub images', () => {
+    expect(familiarRepositoryName('docker.io/library/nginx:1.27')).toBe('nginx');
+    expect(familiarRepositoryName('nginx')).toBe('nginx');
+    expect(familiarRepositoryName('docker.io/acme/api:latest')).toBe('acme/api');
+  });
+
+  it('keeps registry hosts and ports', () => {
+    expect(familiarRepositoryName('localhost:5000/app:v1')).toBe('localhost:5000/app');
+    expect(familiarRepositoryName(`ghcr.io/acme/app@${digest}`)).toBe('ghcr.io/acme/app');
+  });
+});
+
+describe('selectPinnedImageReference', () => {
+  it('pins tags to the digest reported for the same repository', () => {
+    expect(
+      selectPinnedImageReference('ghcr.io/acme/app:1.2.0', [
+        `ghcr.io/other/app@${otherDigest}`,
+        `ghcr.io/acme/app@${digest}`,
+      ]),
+    ).toBe(`ghcr.io/acme/app@${digest}`);
+    expect(selectPinnedImageReference('docker.io/library/nginx:1.27', [`nginx@${digest}`])).toBe(
+      `docker.io/library/nginx@${digest}`,
+    );
+  });
+
+  it('keeps an explicit digest and drops any tag next to it', () => {
+    expect(selectPinnedImageReference(`ghcr.io/acme/app:1.2.0@${digest}`, [])).toBe(
+      `ghcr.io/acme/app@${digest}`,
+    );
+  });
+
+  it('returns null when the registry reported no digest', () => {
+    expect(selectPinnedImageReference('localhost:5000/app:v1', [])).toBeNull();
+  });
+});
+
+describe('buildDockerAuthConfig', () => {
+  it('keys Docker Hub logins by the legacy index URL', () => {
+    const config = JSON.parse(
+      buildDockerAuthConfig({ registry: 'docker.io', username: 'bot', password: 'pw' }),
+    );
+    expect(config).toEqual({
+      auths: { 'https://index.docker.io/v1/': { auth: Buffer.from('bot:pw').toString('base64') } },
+    });
+  });
+
+  it('keys other registries by host', () => {
+    const config = JSON.parse(
+      buildDockerAuthConfig({ registry: 'ghcr.io', username: 'bot', password: 'pw' }),
+    );
+    expect(Object.keys(config.auths)).toEqual(['ghcr.io']);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  countRequestsByUpstreamPort,
+  parseRequestLogLine,
+  splitLogChunk,
+} from '../src/monitoring/request-log-utils.js';
+
+describe('request-log-utils', () => {
+  it('parses an apployd_requests line', () => {
+    expect(parseRequestLogLine('1714564800.123 app.apployd.app 502 0.250 127.0.0.1:41001')).toEqual(
+      {
+        timestampMs: 1714564800123,
+        host: 'app.apployd.app',
+        status: 502,
+        requestTimeMs: 250,
+        upstreamPort: 41001,
+      },
+    );
+    expect(parseRequestLogLine('garbage')).toBeNull();
+  });
+
+  it('attributes retried requests to the upstream that answered last', () => {
+    expect(
+      parseRequestLogLine('1714564800.000 a.test 200 0.010 127.0.0.1:41001, 127.0.0.1:41002')
+        ?.upstreamPort,
+    ).toBe(41002);
+    expect(parseRequestLogLine('1714564800.000 a.test 444 0.000 -')?.upstreamPort).toBeNull();
+  });
+
+  it('keeps a trailing partial line for the next read', () => {
+    const first = splitLogChunk('', '1.0 a 200 0.1 127.0.0.1:1\n2.0 a 200 0.1 127.0.');
+    expect(first.lines).toHaveLength(1);
+    const second = splitLogChunk(first.remainder, '0.1:2\n');
+    expect(second.lines).toEqual(['2.0 a 200 0.1 127.0.0.1:2']);
+    expect(second.remainder).toBe('');
+  });
+
+  it('counts requests per upstream port', () => {
+    const counts = countRequestsByUpstreamPort([
+      '1.0 a 200 0.1 127.0.0.1:41001',
+      '1.1 a 500 0.1 127.0.0.1:41001',
+      '1.2 b 200 0.1 127.0.0.1:41002',
+      '1.3 c 404 0.0 -',
+    ]);
+    expect([...counts.entries()]).toEqual([
+      [41001, 2],
+      [41002, 1],
+    ]);
+  });
+});
@@ -180,6 +180,7 @@ GITHUB_CLIENT_ID=${GITHUB_CLIENT_ID:-}
 GITHUB_CLIENT_SECRET=${GITHUB_CLIENT_SECRET:-}
 GITHUB_OAUTH_REDIRECT_URI=https://$DOMAIN/api/v1/integrations/github/callback
 GITHUB_WEBHOOK_SECRET=${GITHUB_WEBHOOK_SECRET:-}
+BITBUCKET_WEBHOOK_SECRET=${BITBUCKET_WEBHOOK_SECRET:-}
 DASHBOARD_BASE_URL=https://$DOMAIN
 ENCRYPTION_KEY=$ENCRYPTION_KEY
 CLOUDFLARE_API_TOKEN=${CLOUDFLARE_API_TOKEN:-}